@@ -0,0 +1,229 @@
+import { ChangeCursorExpiredError } from '@/core/errors.js';
+import type { MetadataFilter } from '@/core/types.js';
+import { MetadataFilterCompiler } from '@/search/metadata-filter.js';
+
+/**
+ * Kinds of change reported by `VectorDB.watch()`
+ */
+export type VectorChangeType =
+  | 'added'
+  | 'updated'
+  | 'metadataUpdated'
+  | 'deleted'
+  | 'cleared'
+  | 'evicted';
+
+/**
+ * One change to a database's vectors
+ */
+export interface VectorChangeEvent {
+  type: VectorChangeType;
+  /** Position in the change log; pass as `watch({ after })` to resume after this event */
+  cursor: number;
+  /** Changed vector; absent for `cleared` */
+  id?: string;
+  /** Metadata before the change; absent for `added` and `cleared` */
+  before?: Record<string, unknown>;
+  /** Metadata after the change; absent for `deleted`, `evicted` and `cleared` */
+  after?: Record<string, unknown>;
+  timestamp: number;
+}
+
+/**
+ * Change without the fields the feed assigns
+ */
+export type VectorChange = Omit<VectorChangeEvent, 'cursor' | 'timestamp'>;
+
+export interface WatchOptions {
+  /**
+   * Only report changes whose metadata matches before or after the change,
+   * so vectors leaving the filtered set are reported too. `cleared` always
+   * matches.
+   */
+  filter?: MetadataFilter;
+  /** Only report these kinds of change */
+  types?: VectorChangeType[];
+  /** Replay retained changes after this cursor before following new ones */
+  after?: number;
+  /** Ends the iteration when aborted */
+  signal?: AbortSignal;
+}
+
+interface Watcher {
+  pending: VectorChangeEvent[];
+  wake: (() => void) | null;
+  /** Detaches the abort listener */
+  release: () => void;
+}
+
+/**
+ * In-memory change log behind `VectorDB.watch()`.
+ *
+ * Changes are recorded while at least one {@link watch} is open, so a
+ * database nobody watches pays nothing for it. The most recent `retain`
+ * changes are kept for resuming from a cursor, and outlive the last watch
+ * until a change is made unrecorded: that change drops them and expires
+ * every earlier cursor. Cursors are only meaningful for the lifetime of the
+ * feed.
+ */
+export class ChangeFeed {
+  private cursor = 0;
+  private recording = false;
+  private retained: VectorChangeEvent[] = [];
+  private watchers = new Set<Watcher>();
+
+  constructor(private retain: number = 10_000) {}
+
+  /**
+   * Whether changes are being recorded. Writers skip reading the previous
+   * metadata when they are not.
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Cursor of the latest recorded change, or 0 before any
+   */
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  record(change: VectorChange): void {
+    if (!this.recording) {
+      this.skip();
+      return;
+    }
+
+    const event: VectorChangeEvent = {
+      ...change,
+      cursor: ++this.cursor,
+      timestamp: Date.now(),
+    };
+    this.retained.push(event);
+    if (this.retained.length > this.retain) {
+      this.retained.splice(0, this.retained.length - this.retain);
+    }
+    for (const watcher of this.watchers) {
+      watcher.pending.push(event);
+      watcher.wake?.();
+    }
+  }
+
+  /**
+   * Note a change made while nothing records it. Retained changes could no
+   * longer be resumed from without missing it, so they are dropped and the
+   * cursor moves past every one handed out.
+   */
+  skip(): void {
+    if (this.recording) {
+      return;
+    }
+    this.retained = [];
+    this.cursor++;
+  }
+
+  /**
+   * Follow changes from now, or from just after `options.after`. Throws
+   * {@link ChangeCursorExpiredError} when changes after that cursor are no
+   * longer retained. The watch ends, and stops counting towards recording,
+   * when its iterator returns, even before the first `next()`.
+   */
+  watch(options: WatchOptions = {}): AsyncIterableIterator<VectorChangeEvent> {
+    const after = options.after ?? this.cursor;
+    const oldest = this.retained[0]?.cursor ?? this.cursor + 1;
+    if (after < oldest - 1 || after > this.cursor) {
+      throw new ChangeCursorExpiredError(after, oldest);
+    }
+
+    // Registered now, not on the first next(), so no change is missed
+    const { signal } = options;
+    const stop = () => this.unwatch(watcher);
+    const watcher: Watcher = {
+      pending: this.retained.filter((event) => event.cursor > after),
+      wake: null,
+      release: () => signal?.removeEventListener('abort', stop),
+    };
+    signal?.addEventListener('abort', stop);
+    this.watchers.add(watcher);
+    this.recording = true;
+    if (signal?.aborted) {
+      this.unwatch(watcher);
+    }
+
+    const events = this.follow(watcher, options);
+    return {
+      next: () => events.next(),
+      return: (value?: unknown) => {
+        this.unwatch(watcher);
+        return events.return(value);
+      },
+      throw: (error?: unknown) => {
+        this.unwatch(watcher);
+        return events.throw(error);
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * End every open watch
+   */
+  close(): void {
+    for (const watcher of Array.from(this.watchers)) {
+      this.unwatch(watcher);
+    }
+  }
+
+  /**
+   * Stop delivering to `watcher`, letting it finish the changes already
+   * pending, and stop recording once no watch is left
+   */
+  private unwatch(watcher: Watcher): void {
+    if (!this.watchers.delete(watcher)) {
+      return;
+    }
+    watcher.release();
+    watcher.wake?.();
+    if (this.watchers.size === 0) {
+      this.recording = false;
+    }
+  }
+
+  private async *follow(
+    watcher: Watcher,
+    { filter, types, signal }: WatchOptions,
+  ): AsyncGenerator<VectorChangeEvent> {
+    const matches = filter ? MetadataFilterCompiler.compile(filter) : null;
+    const wanted = types ? new Set(types) : null;
+
+    try {
+      while (!signal?.aborted) {
+        const event = watcher.pending.shift();
+        if (event) {
+          if (
+            (!wanted || wanted.has(event.type)) &&
+            (!matches ||
+              event.type === 'cleared' ||
+              (event.before !== undefined && matches(event.before)) ||
+              (event.after !== undefined && matches(event.after)))
+          ) {
+            yield event;
+          }
+          continue;
+        }
+        if (!this.watchers.has(watcher)) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          watcher.wake = resolve;
+        });
+        watcher.wake = null;
+      }
+    } finally {
+      this.unwatch(watcher);
+    }
+  }
+}
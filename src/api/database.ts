@@ -1,36 +1,107 @@
+import {
+  ChangeFeed,
+  type VectorChangeEvent,
+  type WatchOptions,
+} from '@/api/change-feed.js';
+import { VectorTransaction, type StagedOperation } from '@/api/transaction.js';
 import { VectorDatabase } from '@/core/database.js';
-import { DimensionMismatchError, QuotaSafetyMarginError } from '@/core/errors.js';
+import {
+  BatchOperationError,
+  DimensionMismatchError,
+  QuotaSafetyMarginError,
+  UnsupportedCapabilityError,
+  VectorNotFoundError,
+  VersionConflictError,
+} from '@/core/errors.js';
 import { InputValidator } from '@/core/input-validator.js';
 import { VectorStorage } from '@/core/storage.js';
 import type {
+  AutoIndexOptions,
   BatchOptions,
+  BatchProgress,
+  CopyVectorsOptions,
+  CopyVectorsResult,
   DatabaseConfig,
   DistanceMetric,
+  HybridSearchOptions,
+  IndexStrategy,
+  IVFParameters,
+  KDTreeParameters,
   SearchOptions,
   SearchResult,
+  SnapshotInfo,
   StorageAdapter,
   StorageAdapterFactory,
+  TransactionOperation,
+  VectorColumns,
+  VectorCompressionConfig,
   VectorData,
   VectorFormat,
+  WriteCondition,
 } from '@/core/types.js';
 import { debugMethod, withContext } from '@/debug/hooks.js';
+import type { GPUSearchConfig } from '@/gpu/gpu-search-engine.js';
+import type { HNSWCompactionResult, HNSWDeletionMode } from '@/search/hnsw-index.js';
+import type { IVFIndex } from '@/search/ivf-index.js';
+import type { KDTreeIndex } from '@/search/kdtree-index.js';
+import { MetadataFilterCompiler } from '@/search/metadata-filter.js';
+import { reciprocalRankFusion, weightedScoreFusion } from '@/search/rank-fusion.js';
 import { SearchEngine } from '@/search/search-engine.js';
+import { TextIndex, type TextIndexConfig } from '@/search/text-index.js';
+import { splitByMemoryBudget } from '@/performance/memory-guard.js';
 import {
   EvictionManager,
   type EvictionConfig,
   type EvictionResult,
 } from '@/storage/eviction-policy.js';
+import { calculateMagnitude } from '@/storage/adapters/serialization.js';
+import {
+  ArchiveReader,
+  ArchiveWriter,
+  type ExportOptions,
+  type ExportResult,
+  type ImportOptions,
+  type ImportResult,
+} from '@/storage/archive.js';
+import { ArrowStreamReader, type ArrowColumnOptions } from '@/storage/arrow-reader.js';
+import {
+  CrossTabCoordinator,
+  type ChangeEvent,
+  type CrossTabOptions,
+  type CrossTabStatus,
+} from '@/storage/cross-tab-coordinator.js';
 import { StorageQuotaMonitor, type QuotaWarning } from '@/storage/quota-monitor.js';
+import {
+  decodeSnapshotAttachment,
+  encodeSnapshotAttachment,
+  type RestoreSnapshotResult,
+} from '@/storage/snapshot-attachment.js';
 import { log } from '@/utilities/logger.js';
 import { VectorFormatHandler } from '@/vectors/formats.js';
 import { VectorOperations } from '@/vectors/operations.js';
 
+/** Attempts `upsert()` makes before giving up on a contended vector */
+const UPSERT_ATTEMPTS = 5;
+
+/** Records `import()` writes per storage batch by default */
+const DEFAULT_IMPORT_BATCH_SIZE = 500;
+
+/** A storage adapter implementing the optional snapshot methods */
+type SnapshotAdapter = Required<
+  Pick<
+    StorageAdapter,
+    'createSnapshot' | 'listSnapshots' | 'restoreSnapshot' | 'deleteSnapshot'
+  >
+>;
+
 /**
  * Main API class for the vector database
  */
 export class VectorDB {
   private database: VectorDatabase | null;
   private storage: StorageAdapter;
+  /** Holds the IVF inverted lists when IVF is configured or may be chosen by `'auto'` */
+  private indexStorage: StorageAdapter | null = null;
   private searchEngine: SearchEngine;
   private quotaMonitor: StorageQuotaMonitor;
   private evictionManager: EvictionManager;
@@ -39,6 +110,17 @@ export class VectorDB {
   private initialized = false;
   private autoEviction = false;
   private quotaWarningListener: ((warning: QuotaWarning) => void) | null = null;
+  private textIndex: TextIndex | null = null;
+  /** Set when the `crossTab` option is given; a coordinator is created per init() */
+  private crossTabOptions: CrossTabOptions | null = null;
+  private crossTab: CrossTabCoordinator | null = null;
+  private changeFeed = new ChangeFeed();
+
+  /**
+   * When true, the text index must be rebuilt from storage before use. Starts
+   * true so the index is only built on the first hybrid search.
+   */
+  private textIndexStale = true;
 
   constructor(
     private name: string,
@@ -46,12 +128,25 @@ export class VectorDB {
     options?: Partial<DatabaseConfig> & {
       distanceMetric?: DistanceMetric;
       useIndex?: boolean;
+      /** Index to search with; takes precedence over `useIndex` and `indexConfig.type` */
+      indexStrategy?: IndexStrategy;
+      /** Thresholds for `indexStrategy: 'auto'` */
+      autoIndex?: AutoIndexOptions;
       indexConfig?: {
+        type?: 'hnsw' | 'ivf' | 'kdtree' | 'auto';
         m?: number;
         efConstruction?: number;
         maxLevel?: number;
+        deletionMode?: HNSWDeletionMode;
+        filterBruteForceSelectivity?: number;
+        ivf?: IVFParameters;
+        kdtree?: KDTreeParameters;
       };
+      indexStorage?: StorageAdapter;
       useWorkers?: boolean;
+      /** Search large collections on the GPU where WebGPU is available */
+      useGPU?: boolean;
+      gpuConfig?: GPUSearchConfig;
       autoEviction?: boolean;
       quotaConfig?: {
         safetyMargin?: number;
@@ -59,6 +154,10 @@ export class VectorDB {
       };
       storage?: StorageAdapter;
       storageFactory?: StorageAdapterFactory;
+      textIndex?: TextIndexConfig;
+      compression?: VectorCompressionConfig;
+      /** Broadcast changes to, and apply changes from, other tabs sharing this database */
+      crossTab?: boolean | CrossTabOptions;
     },
   ) {
     // Validate inputs with comprehensive checks
@@ -67,6 +166,14 @@ export class VectorDB {
     this.distanceMetric = options?.distanceMetric || 'cosine';
     this.autoEviction = options?.autoEviction ?? true;
 
+    if (options?.textIndex) {
+      this.textIndex = new TextIndex(options.textIndex);
+    }
+
+    if (options?.crossTab) {
+      this.crossTabOptions = options.crossTab === true ? {} : options.crossTab;
+    }
+
     if (options?.storage) {
       // Use the provided storage adapter directly
       this.storage = options.storage;
@@ -81,17 +188,38 @@ export class VectorDB {
         name: this.name,
         version: options?.version ?? 1,
         ...(options?.persistence !== undefined && { persistence: options.persistence }),
+        ...(options?.metadataIndexes !== undefined && {
+          metadataIndexes: options.metadataIndexes,
+        }),
       });
       this.storage = new VectorStorage(this.database);
     }
 
+    const strategy = options?.indexStrategy;
+    this.indexStorage = options?.indexStorage ?? null;
+
     this.evictionManager = new EvictionManager(this.storage);
+    this.evictionManager.addListener((result) => {
+      for (const { id, metadata } of result.evicted) {
+        this.changeFeed.record({
+          type: 'evicted',
+          id,
+          ...(metadata && { before: metadata }),
+        });
+      }
+    });
     this.quotaMonitor = StorageQuotaMonitor.getInstance(options?.quotaConfig);
 
     this.searchEngine = new SearchEngine(this.storage, dimension, this.distanceMetric, {
       ...(options?.useIndex !== undefined && { useIndex: options.useIndex }),
+      ...(strategy !== undefined && { indexStrategy: strategy }),
+      ...(options?.autoIndex !== undefined && { autoIndex: options.autoIndex }),
       ...(options?.indexConfig !== undefined && { indexConfig: options.indexConfig }),
       ...(options?.useWorkers !== undefined && { useWorkers: options.useWorkers }),
+      ...(options?.useGPU !== undefined && { useGPU: options.useGPU }),
+      ...(options?.gpuConfig !== undefined && { gpuConfig: options.gpuConfig }),
+      ...(options?.compression !== undefined && { compression: options.compression }),
+      ...(this.indexStorage && { indexStorage: this.indexStorage }),
       ...(this.database && { database: this.database }),
       indexId: `${this.name}-main`,
     });
@@ -108,6 +236,9 @@ export class VectorDB {
    * automatically so that `getIndexStats().nodeCount` reflects the stored vector
    * count immediately after reopening without requiring an explicit
    * `rebuildIndex()` call.  A stale or empty snapshot triggers a rebuild.
+   *
+   * With `crossTab`, the tab subscribes to other tabs' changes before loading
+   * the index and applies those made meanwhile once it is loaded.
    */
   @debugMethod('database.init', 'basic', { profileEnabled: true, memoryTracking: true })
   async init(): Promise<void> {
@@ -116,12 +247,88 @@ export class VectorDB {
     }
 
     await this.storage.init();
+    await this.indexStorage?.init();
     this.initialized = true;
+    this.connectCrossTab();
 
     // Restore persisted HNSW index when indexing is enabled.
     // rebuildIndex() tries the cache first (with validation) and falls back to
     // building from storage when no valid snapshot exists.
     await this.searchEngine.rebuildIndex();
+    this.crossTab?.resume();
+  }
+
+  /**
+   * Join the other tabs sharing this database. Index snapshots are only
+   * written once this tab is elected leader.
+   */
+  private connectCrossTab(): void {
+    if (!this.crossTabOptions) {
+      return;
+    }
+
+    const coordinator = new CrossTabCoordinator(
+      this.name,
+      {
+        onChange: (event) => this.applyRemoteChange(event),
+        onResync: async () => {
+          this.textIndexStale = true;
+          await this.searchEngine.rebuildIndex({ loadFromCache: false });
+        },
+        onLeadershipChange: async (leader) => {
+          this.searchEngine.setIndexPersistence(leader);
+          if (leader) {
+            await this.searchEngine.saveIndex();
+          }
+        },
+      },
+      this.crossTabOptions,
+    );
+    if (!coordinator.isSupported()) {
+      log.warn('BroadcastChannel is unavailable; cross-tab changes are not shared', {
+        database: this.name,
+      });
+      return;
+    }
+
+    this.searchEngine.setIndexPersistence(false);
+    this.crossTab = coordinator;
+    coordinator.connect();
+  }
+
+  /**
+   * Bring the search index up to date with a change another tab made to
+   * shared storage
+   */
+  private async applyRemoteChange(event: ChangeEvent): Promise<void> {
+    this.textIndexStale = true;
+
+    switch (event.type) {
+      case 'put':
+      case 'update-metadata': {
+        const stored = await this.storage.getMany(event.ids);
+        const current = new Map(stored.map((vectorData) => [vectorData.id, vectorData]));
+        for (const id of event.ids) {
+          await this.searchEngine.removeVectorFromIndex(id);
+          const vectorData = current.get(id);
+          if (vectorData) {
+            await this.searchEngine.addVectorToIndex(vectorData);
+          }
+        }
+        return;
+      }
+      case 'delete':
+        for (const id of event.ids) {
+          await this.searchEngine.removeVectorFromIndex(id);
+        }
+        return;
+      case 'clear':
+        await this.searchEngine.clearIndex();
+        return;
+      case 'rebuild':
+        await this.searchEngine.rebuildIndex({ loadFromCache: false });
+        return;
+    }
   }
 
   /**
@@ -133,6 +340,49 @@ export class VectorDB {
     }
   }
 
+  /**
+   * Metadata of the stored vectors among `ids`, read before a write so the
+   * change feed can report it. Returns `null` when nobody is watching.
+   */
+  private async metadataBefore(
+    ids: string[],
+  ): Promise<Map<string, Record<string, unknown> | undefined> | null> {
+    if (!this.changeFeed.isRecording()) {
+      this.changeFeed.skip();
+      return null;
+    }
+    try {
+      const stored = await this.storage.getMany(ids);
+      return new Map(stored.map((vectorData) => [vectorData.id, vectorData.metadata]));
+    } catch (error) {
+      // IndexedDB storage rejects a read in which no id is found
+      if (
+        error instanceof BatchOperationError &&
+        error.errors.every(({ error: cause }) => cause instanceof VectorNotFoundError)
+      ) {
+        return new Map();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a write to `id` in the change feed
+   */
+  private recordChange(
+    type: 'added' | 'updated' | 'metadataUpdated' | 'deleted',
+    id: string,
+    before: Record<string, unknown> | undefined,
+    after: Record<string, unknown> | undefined,
+  ): void {
+    this.changeFeed.record({
+      type,
+      id,
+      ...(before && { before }),
+      ...(after && { after }),
+    });
+  }
+
   /**
    * Add a single vector
    */
@@ -144,6 +394,92 @@ export class VectorDB {
     id: string,
     vector: VectorFormat,
     metadata?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.writeVector('addVector', id, vector, metadata);
+  }
+
+  /**
+   * Add a vector only if no vector with this id is stored
+   *
+   * @returns `true` if the vector was added, `false` if one already existed
+   */
+  @debugMethod('database.addIfAbsent', 'basic', {
+    profileEnabled: true,
+    captureArgs: false,
+  })
+  async addIfAbsent(
+    id: string,
+    vector: VectorFormat,
+    metadata?: Record<string, unknown>,
+  ): Promise<boolean> {
+    try {
+      await this.writeVector('addIfAbsent', id, vector, metadata, { ifAbsent: true });
+      return true;
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Insert a vector or overwrite the stored one, reporting which happened.
+   *
+   * With `ifVersion`, the write only goes through if the stored vector is
+   * still at that version (as read from `getVector()`), and otherwise fails
+   * with {@link VersionConflictError}. Without it, a write that races another
+   * writer is retried, so the result always describes what this write
+   * replaced.
+   *
+   * @returns whether the vector was created, and its version after the write
+   */
+  @debugMethod('database.upsert', 'basic', {
+    profileEnabled: true,
+    captureArgs: false,
+  })
+  async upsert(
+    id: string,
+    vector: VectorFormat,
+    metadata?: Record<string, unknown>,
+    options?: { ifVersion?: number },
+  ): Promise<{ created: boolean; version: number }> {
+    if (options?.ifVersion !== undefined) {
+      await this.writeVector('upsert', id, vector, metadata, {
+        ifVersion: options.ifVersion,
+      });
+      return { created: false, version: options.ifVersion + 1 };
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.getVector(id);
+      const version = current ? (current.version ?? 0) : null;
+      try {
+        await this.writeVector(
+          'upsert',
+          id,
+          vector,
+          metadata,
+          version === null ? { ifAbsent: true } : { ifVersion: version },
+        );
+        return { created: version === null, version: (version ?? 0) + 1 };
+      } catch (error) {
+        if (!(error instanceof VersionConflictError) || attempt >= UPSERT_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate and store one vector, subject to `condition`
+   */
+  private async writeVector(
+    operationType: string,
+    id: string,
+    vector: VectorFormat,
+    metadata?: Record<string, unknown>,
+    condition?: WriteCondition,
   ): Promise<void> {
     // Validate all inputs
     const validatedId = InputValidator.validateVectorId(id);
@@ -155,7 +491,7 @@ export class VectorDB {
     return withContext(
       {
         namespace: this.name,
-        operationType: 'addVector',
+        operationType,
         vectorDimensions: this.dimension,
         vectorCount: 1,
         metadata: { hasMetadata: !!validatedMetadata },
@@ -181,7 +517,18 @@ export class VectorDB {
           { normalize: false },
         );
 
-        await this.storage.put(vectorData);
+        const previous = await this.metadataBefore([vectorData.id]);
+        await this.storage.put(vectorData, condition);
+        this.crossTab?.publish({ type: 'put', ids: [vectorData.id] });
+        if (previous) {
+          this.recordChange(
+            previous.has(vectorData.id) ? 'updated' : 'added',
+            vectorData.id,
+            previous.get(vectorData.id),
+            vectorData.metadata,
+          );
+        }
+        this.textIndex?.add(vectorData.id, vectorData.metadata);
 
         // Add to index if using HNSW
         await this.searchEngine.addVectorToIndex(vectorData);
@@ -239,30 +586,184 @@ export class VectorDB {
       }),
     );
 
-    // Assert quota is safe before writing.  Throws QuotaSafetyMarginError when
-    // quota is critically low and eviction cannot free enough space. Runs after
-    // validation (so no eviction happens for an invalid batch) but before
-    // putBatch, so writes never proceed past a critical quota state.
-    await this.assertQuotaAvailable();
+    await this.storeBatch(preparedVectors, options);
+    await this.indexBatch(preparedVectors, 'addBatch');
+  }
 
-    await this.storage.putBatch(preparedVectors, options);
+  /**
+   * Add vectors given as columns: an id column, one flat Float32Array with
+   * the vectors row after row, and optional metadata columns.
+   *
+   * Each column is validated once up front, so a malformed input writes
+   * nothing. Rows are then written through `putBatch` in chunks sized by
+   * `memoryLimitBytes` (or `batchSize`). Each chunk's vectors are copied out
+   * of the flat buffer once and its rows are views into that copy; only one
+   * chunk of records is in memory at a time.
+   * `onProgress` reports once per chunk. Chunks written before an abort or
+   * failure stay written.
+   */
+  @debugMethod('database.addColumns', 'basic', {
+    profileEnabled: true,
+    memoryTracking: true,
+  })
+  async addColumns(columns: VectorColumns, options: BatchOptions = {}): Promise<void> {
+    await this.ensureInitialized();
+
+    const rows = columns.ids?.length ?? 0;
+    if (columns.vectors instanceof Float32Array && rows > 0) {
+      const rowLength = columns.vectors.length / rows;
+      if (rowLength !== this.dimension) {
+        throw new DimensionMismatchError(this.dimension, rowLength);
+      }
+    }
+    const { ids, vectors, metadata } = InputValidator.validateVectorColumns(
+      columns,
+      this.dimension,
+    );
+
+    const chunks: Array<readonly string[]> = [];
+    if (options.batchSize) {
+      for (let start = 0; start < rows; start += options.batchSize) {
+        chunks.push(ids.slice(start, start + options.batchSize));
+      }
+    } else {
+      chunks.push(...splitByMemoryBudget(ids, this.dimension, options.memoryLimitBytes));
+    }
+
+    const metadataColumns = Object.entries(metadata ?? {});
+    let completed = 0;
+    for (const [chunkIndex, chunk] of chunks.entries()) {
+      if (options.abortSignal?.aborted) {
+        throw new Error('Batch operation aborted');
+      }
+
+      // One copy per chunk; each row is a view into it
+      const block = vectors.slice(
+        completed * this.dimension,
+        (completed + chunk.length) * this.dimension,
+      );
+      const timestamp = Date.now();
+      const preparedVectors = chunk.map((id, offset): VectorData => {
+        const row = completed + offset;
+        const vector = block.subarray(
+          offset * this.dimension,
+          (offset + 1) * this.dimension,
+        );
+        const rowMetadata: Record<string, unknown> = {};
+        for (const [key, column] of metadataColumns) {
+          const value = column[row];
+          if (value !== null && value !== undefined) {
+            rowMetadata[key] = value;
+          }
+        }
+        return {
+          id,
+          vector,
+          magnitude: calculateMagnitude(vector),
+          normalized: false,
+          timestamp,
+          metadata: rowMetadata,
+        };
+      });
+
+      await this.storeBatch(preparedVectors, {
+        batchSize: preparedVectors.length,
+      });
+      await this.indexBatch(preparedVectors, 'addColumns');
+
+      completed += chunk.length;
+      const progress: BatchProgress = {
+        total: rows,
+        completed,
+        failed: 0,
+        percentage: Math.round((completed / rows) * 100),
+        currentBatch: chunkIndex + 1,
+        totalBatches: chunks.length,
+      };
+      options.onProgress?.(progress);
+    }
+  }
+
+  /**
+   * Add the rows of an Arrow IPC stream or file, one record batch at a time
+   * through {@link addColumns}. The id column must hold strings or integers
+   * and the vector column fixed-size or variable lists of float32/float64;
+   * every other column becomes metadata unless `metadataColumns` narrows
+   * it. Returns the number of rows added.
+   */
+  async addArrow(
+    source: ReadableStream<Uint8Array> | Uint8Array | ArrayBuffer,
+    options: ArrowColumnOptions & BatchOptions = {},
+  ): Promise<number> {
+    const { idColumn, vectorColumn, metadataColumns, ...batchOptions } = options;
+    const arrow = await ArrowStreamReader.open(source, {
+      ...(idColumn !== undefined && { idColumn }),
+      ...(vectorColumn !== undefined && { vectorColumn }),
+      ...(metadataColumns !== undefined && { metadataColumns }),
+    });
+
+    let added = 0;
+    for await (const columns of arrow.batches()) {
+      await this.addColumns(columns, batchOptions);
+      added += columns.ids.length;
+    }
+    return added;
+  }
 
-    // Add each vector to the HNSW index.
-    // If any index update fails, mark the index dirty so future searches fall
-    // back to brute-force rather than returning stale index results.
+  /**
+   * Add written vectors to the search index. If any index update fails, mark
+   * the index dirty so future searches fall back to brute-force rather than
+   * returning stale index results.
+   */
+  private async indexBatch(
+    preparedVectors: VectorData[],
+    operation: string,
+  ): Promise<void> {
     try {
       for (const vectorData of preparedVectors) {
         await this.searchEngine.addVectorToIndex(vectorData);
       }
     } catch (error) {
       this.searchEngine.markIndexDirty();
-      log.error('Index update failed during addBatch — index marked dirty', {
+      log.error(`Index update failed during ${operation} — index marked dirty`, {
         error: error instanceof Error ? error.message : String(error),
       });
       throw error;
     }
   }
 
+  /**
+   * Write prepared vectors to storage and the text index, announcing them to
+   * other tabs and the change feed. Search indexes are left to the caller.
+   */
+  private async storeBatch(
+    preparedVectors: VectorData[],
+    options?: BatchOptions,
+  ): Promise<void> {
+    // Assert quota is safe before writing.  Throws QuotaSafetyMarginError when
+    // quota is critically low and eviction cannot free enough space. Runs after
+    // validation (so no eviction happens for an invalid batch) but before
+    // putBatch, so writes never proceed past a critical quota state.
+    await this.assertQuotaAvailable();
+
+    const previous = await this.metadataBefore(preparedVectors.map(({ id }) => id));
+    await this.storage.putBatch(preparedVectors, options);
+    this.crossTab?.publish({ type: 'put', ids: preparedVectors.map(({ id }) => id) });
+    if (previous) {
+      for (const vectorData of preparedVectors) {
+        this.recordChange(
+          previous.has(vectorData.id) ? 'updated' : 'added',
+          vectorData.id,
+          previous.get(vectorData.id),
+          vectorData.metadata,
+        );
+      }
+    }
+    for (const vectorData of preparedVectors) {
+      this.textIndex?.add(vectorData.id, vectorData.metadata);
+    }
+  }
+
   /**
    * Get a vector by ID
    */
@@ -292,7 +793,13 @@ export class VectorDB {
     const validatedId = InputValidator.validateVectorId(id);
 
     await this.ensureInitialized();
+    const previous = await this.metadataBefore([validatedId]);
     await this.storage.delete(validatedId);
+    this.crossTab?.publish({ type: 'delete', ids: [validatedId] });
+    if (previous?.has(validatedId)) {
+      this.recordChange('deleted', validatedId, previous.get(validatedId), undefined);
+    }
+    this.textIndex?.remove(validatedId);
 
     // Remove from index if using HNSW
     await this.searchEngine.removeVectorFromIndex(validatedId);
@@ -411,6 +918,140 @@ export class VectorDB {
     });
   }
 
+  /**
+   * Search by vector similarity and BM25 keyword relevance at once.
+   *
+   * Requires the `textIndex` constructor option. The top `candidates` results
+   * of `search()` and of the text index are fused into one ranking, so `score`
+   * is the fused score and `distance` is only set for vector matches. Results
+   * with lexical matches carry the matched terms per field in `highlights`.
+   */
+  async hybridSearch(
+    queryVector: VectorFormat,
+    text: string,
+    k: number = 10,
+    options?: HybridSearchOptions,
+  ): Promise<SearchResult[]> {
+    const validatedK = InputValidator.validateK(k);
+    if (typeof text !== 'string') {
+      throw new Error('Hybrid search text must be a string');
+    }
+
+    // Hybrid-only keys are validated here; the rest follow search()'s contract.
+    const {
+      fusion = 'rrf',
+      rrfK = 60,
+      alpha = 0.5,
+      candidates,
+      ...searchOptions
+    } = options ?? {};
+    if (fusion !== 'rrf' && fusion !== 'weighted') {
+      throw new Error('fusion must be "rrf" or "weighted"');
+    }
+    if (typeof rrfK !== 'number' || !Number.isFinite(rrfK) || rrfK <= 0) {
+      throw new Error('rrfK must be a positive finite number');
+    }
+    if (typeof alpha !== 'number' || !(alpha >= 0 && alpha <= 1)) {
+      throw new Error('alpha must be a number between 0 and 1');
+    }
+    if (candidates !== undefined) {
+      InputValidator.validateK(candidates);
+    }
+    const validatedOptions = InputValidator.validateSearchOptions(
+      searchOptions,
+    ) as SearchOptions;
+
+    VectorFormatHandler.validate(queryVector, this.dimension);
+
+    await this.ensureInitialized();
+
+    if (queryVector.length !== this.dimension) {
+      throw new DimensionMismatchError(this.dimension, queryVector.length);
+    }
+
+    const textIndex = await this.ensureTextIndex();
+    const candidateCount = Math.max(validatedK, candidates ?? validatedK * 4);
+
+    const vectorResults = await this.searchEngine.search(
+      VectorFormatHandler.toFloat32Array(queryVector),
+      candidateCount,
+      validatedOptions,
+    );
+    const vectorResultsById = new Map(vectorResults.map((result) => [result.id, result]));
+
+    // Lexical hits that the vector search did not return still have to pass
+    // the filter, so load their records before fusing.
+    const textHits = textIndex.search(text, candidateCount);
+    const missingIds = textHits
+      .filter((hit) => !vectorResultsById.has(hit.id))
+      .map((hit) => hit.id);
+    const records = new Map<string, VectorData>();
+    if (missingIds.length > 0) {
+      const matcher = validatedOptions.filter
+        ? MetadataFilterCompiler.compile(validatedOptions.filter)
+        : null;
+      for (const record of await this.storage.getMany(missingIds)) {
+        if (!matcher || matcher(record.metadata ?? {})) {
+          records.set(record.id, record);
+        }
+      }
+    }
+    const eligibleTextHits = textHits.filter(
+      (hit) => vectorResultsById.has(hit.id) || records.has(hit.id),
+    );
+
+    const fused =
+      fusion === 'rrf'
+        ? reciprocalRankFusion([vectorResults, eligibleTextHits], rrfK)
+        : weightedScoreFusion(vectorResults, eligibleTextHits, alpha);
+    const matchesById = new Map(eligibleTextHits.map((hit) => [hit.id, hit.matches]));
+
+    return [...fused]
+      .sort(([idA, a], [idB, b]) => b - a || idA.localeCompare(idB))
+      .slice(0, validatedK)
+      .map(([id, score]) => {
+        const vectorResult = vectorResultsById.get(id);
+        const record = records.get(id);
+        const metadata = vectorResult?.metadata ?? record?.metadata;
+        const vector = vectorResult?.vector ?? record?.vector;
+        const matches = matchesById.get(id);
+
+        const result: SearchResult = { id, score };
+        if (vectorResult?.distance !== undefined) {
+          result.distance = vectorResult.distance;
+        }
+        if (validatedOptions.includeMetadata && metadata) {
+          result.metadata = metadata;
+        }
+        if (validatedOptions.includeVector && vector) {
+          result.vector = vector;
+        }
+        if (matches) {
+          result.highlights = matches;
+        }
+        return result;
+      });
+  }
+
+  /**
+   * Return the text index, rebuilding it from storage if it is stale.
+   */
+  private async ensureTextIndex(): Promise<TextIndex> {
+    if (!this.textIndex) {
+      throw new Error('hybridSearch() requires the textIndex option');
+    }
+
+    if (this.textIndexStale) {
+      this.textIndex.clear();
+      for await (const vector of this.storage.scan()) {
+        this.textIndex.add(vector.id, vector.metadata);
+      }
+      this.textIndexStale = false;
+    }
+
+    return this.textIndex;
+  }
+
   /**
    * Set the distance metric for search
    */
@@ -439,11 +1080,22 @@ export class VectorDB {
   }
 
   /**
-   * Rebuild the search index
+   * Rebuild the search index. A persisted index snapshot is reused when it
+   * is still valid unless `loadFromCache` is false.
    */
-  async rebuildIndex(): Promise<void> {
+  async rebuildIndex(options: { loadFromCache?: boolean } = {}): Promise<void> {
     await this.ensureInitialized();
-    await this.searchEngine.rebuildIndex();
+    await this.searchEngine.rebuildIndex(options);
+  }
+
+  /**
+   * Compact the HNSW index: purge nodes soft-deleted under
+   * `indexConfig.deletionMode: 'tombstone'` and reconnect nodes that are no
+   * longer reachable. Returns `null` when indexing is disabled.
+   */
+  async compactIndex(): Promise<HNSWCompactionResult | null> {
+    await this.ensureInitialized();
+    return this.searchEngine.compactIndex();
   }
 
   /**
@@ -451,14 +1103,82 @@ export class VectorDB {
    */
   getIndexStats(): {
     enabled: boolean;
+    type?: 'hnsw' | 'ivf' | 'kdtree';
     nodeCount: number;
     dirtyCount: number;
+    tombstoneCount?: number;
     levels?: number[];
     avgConnections?: number;
+    ivf?: ReturnType<IVFIndex['getStats']>;
+    kdtree?: ReturnType<KDTreeIndex['getStats']>;
   } {
     return this.searchEngine.getIndexStats();
   }
 
+  /**
+   * Get the configured index strategy and the one in use. With
+   * `indexStrategy: 'auto'` this also reports any background migration, the
+   * reason for the current choice, and the measured brute-force latency.
+   */
+  getIndexStrategy(): ReturnType<SearchEngine['getIndexStrategy']> {
+    return this.searchEngine.getIndexStrategy();
+  }
+
+  /**
+   * Wait for a background index migration started by `indexStrategy: 'auto'`
+   */
+  async waitForIndexMigration(): Promise<void> {
+    await this.searchEngine.waitForIndexMigration();
+  }
+
+  /**
+   * Cross-tab coordination state, or `null` when the `crossTab` option is off
+   * or the database is not initialized
+   */
+  getCrossTabStatus(): CrossTabStatus | null {
+    return this.crossTab?.getStatus() ?? null;
+  }
+
+  /**
+   * Wait until every change received from other tabs has been applied to
+   * this tab's index
+   */
+  async waitForCrossTabSync(): Promise<void> {
+    await this.crossTab?.whenIdle();
+  }
+
+  /**
+   * Follow changes made through this instance: adds, updates, deletes,
+   * clears and evictions, each with the metadata before and after.
+   *
+   * Changes are recorded while a watch is open, and the most recent 10,000
+   * are retained, so a consumer can resume with
+   * `watch({ after: event.cursor })`. A write made while nothing watches
+   * drops them. Resuming from a cursor that is no longer retained throws
+   * {@link ChangeCursorExpiredError}; reload and watch from now instead. With `filter`, a change is reported when the metadata before
+   * or after it matches, so vectors leaving the filtered set are seen too.
+   *
+   * Iteration ends when `signal` aborts, the loop breaks, or the database is
+   * closed.
+   */
+  watch(options?: WatchOptions): AsyncIterableIterator<VectorChangeEvent> {
+    return this.changeFeed.watch(options);
+  }
+
+  /**
+   * Get compressed storage statistics: the strategy, whether its codebook is
+   * trained, and how many vectors and code bytes are held in memory. Returns
+   * `null` when the `compression` option is not set.
+   */
+  getCompressionStats(): {
+    strategy: VectorCompressionConfig['strategy'];
+    trained: boolean;
+    vectorCount: number;
+    codeBytes: number;
+  } | null {
+    return this.searchEngine.getCompressionStats();
+  }
+
   /**
    * Assert that sufficient quota is available before a write operation.
    *
@@ -506,6 +1226,8 @@ export class VectorDB {
         );
 
         if (result.evictedCount > 0) {
+          this.textIndexStale = true;
+          this.crossTab?.publish({ type: 'rebuild' });
           await this.searchEngine.rebuildIndex();
         }
       } catch (evictionError) {
@@ -597,6 +1319,8 @@ export class VectorDB {
 
           // Update search index after eviction
           if (result.evictedCount > 0) {
+            this.textIndexStale = true;
+            this.crossTab?.publish({ type: 'rebuild' });
             await this.searchEngine.rebuildIndex();
           }
         } catch (error) {
@@ -668,6 +1392,8 @@ export class VectorDB {
 
     // Update search index after eviction
     if (result.evictedCount > 0) {
+      this.textIndexStale = true;
+      this.crossTab?.publish({ type: 'rebuild' });
       await this.searchEngine.rebuildIndex();
     }
 
@@ -783,6 +1509,9 @@ export class VectorDB {
   async clear(): Promise<void> {
     await this.ensureInitialized();
     await this.storage.clear();
+    this.crossTab?.publish({ type: 'clear' });
+    this.changeFeed.record({ type: 'cleared' });
+    this.textIndex?.clear();
     await this.searchEngine.clearIndex();
   }
 
@@ -794,8 +1523,12 @@ export class VectorDB {
       this.quotaMonitor.removeListener(this.quotaWarningListener);
       this.quotaWarningListener = null;
     }
+    await this.crossTab?.close();
+    this.crossTab = null;
+    this.changeFeed.close();
     await this.searchEngine.cleanup();
     await this.storage.close();
+    await this.indexStorage?.close();
     this.initialized = false;
   }
 
@@ -807,8 +1540,12 @@ export class VectorDB {
       this.quotaMonitor.removeListener(this.quotaWarningListener);
       this.quotaWarningListener = null;
     }
+    await this.crossTab?.close();
+    this.crossTab = null;
+    this.changeFeed.close();
     await this.searchEngine.cleanup();
     await this.storage.destroy();
+    await this.indexStorage?.destroy();
     this.initialized = false;
   }
 
@@ -850,7 +1587,15 @@ export class VectorDB {
     const validatedIds = InputValidator.validateVectorIds(ids);
 
     await this.ensureInitialized();
+    const previous = await this.metadataBefore(validatedIds);
     const count = await this.storage.deleteMany(validatedIds);
+    this.crossTab?.publish({ type: 'delete', ids: validatedIds });
+    for (const [id, metadata] of previous ?? []) {
+      this.recordChange('deleted', id, metadata, undefined);
+    }
+    for (const id of validatedIds) {
+      this.textIndex?.remove(id);
+    }
 
     // Remove each deleted vector from the HNSW index.
     // If any removal fails, mark the index dirty so future searches fall back
@@ -879,7 +1624,8 @@ export class VectorDB {
   }
 
   /**
-   * Update a vector's data
+   * Update a vector's data. With `ifVersion`, fails with
+   * {@link VersionConflictError} unless the stored vector is at that version.
    */
   async updateVector(
     id: string,
@@ -887,6 +1633,7 @@ export class VectorDB {
     options?: {
       updateMagnitude?: boolean;
       updateTimestamp?: boolean;
+      ifVersion?: number;
     },
   ): Promise<void> {
     const validatedId = InputValidator.validateVectorId(id);
@@ -903,17 +1650,26 @@ export class VectorDB {
     const float32Vector = VectorFormatHandler.toFloat32Array(vector);
 
     await this.storage.updateVector(validatedId, float32Vector, options);
+    this.crossTab?.publish({ type: 'put', ids: [validatedId] });
 
     // Update HNSW index: remove old entry and re-add with new vector
     await this.searchEngine.removeVectorFromIndex(validatedId);
     const updatedVector = await this.storage.get(validatedId);
     if (updatedVector) {
+      // A vector update leaves metadata as it was
+      this.recordChange(
+        'updated',
+        validatedId,
+        updatedVector.metadata,
+        updatedVector.metadata,
+      );
       await this.searchEngine.addVectorToIndex(updatedVector);
     }
   }
 
   /**
-   * Update a vector's metadata
+   * Update a vector's metadata. With `ifVersion`, fails with
+   * {@link VersionConflictError} unless the stored vector is at that version.
    */
   async updateMetadata(
     id: string,
@@ -921,6 +1677,7 @@ export class VectorDB {
     options?: {
       merge?: boolean;
       updateTimestamp?: boolean;
+      ifVersion?: number;
     },
   ): Promise<void> {
     // Validate inputs
@@ -928,7 +1685,21 @@ export class VectorDB {
     const validatedMetadata = InputValidator.validateMetadata(metadata);
 
     await this.ensureInitialized();
+    const previous = await this.metadataBefore([validatedId]);
     await this.storage.updateMetadata(validatedId, validatedMetadata, options);
+    this.crossTab?.publish({ type: 'update-metadata', ids: [validatedId] });
+    if (this.textIndex || previous) {
+      const updated = await this.storage.get(validatedId);
+      this.textIndex?.add(updated.id, updated.metadata);
+      if (previous) {
+        this.recordChange(
+          'metadataUpdated',
+          validatedId,
+          previous.get(validatedId),
+          updated.metadata,
+        );
+      }
+    }
 
     await this.searchEngine.rebuildIndex({ loadFromCache: false });
   }
@@ -984,7 +1755,14 @@ export class VectorDB {
       return processed;
     });
 
+    const ids = processedUpdates.map(({ id }) => id);
+    const previous = await this.metadataBefore(ids);
     const result = await this.storage.updateBatch(processedUpdates, options);
+    this.crossTab?.publish({ type: 'put', ids });
+    this.textIndexStale = true;
+    if (previous) {
+      await this.recordBatchUpdate(processedUpdates, previous, result.errors);
+    }
 
     // Rebuild the index from the post-update storage state.
     // If rebuild fails, mark dirty so future searches fall back to brute-force.
@@ -1000,4 +1778,531 @@ export class VectorDB {
 
     return result;
   }
+
+  /**
+   * Apply several writes atomically.
+   *
+   * `callback` stages writes on `tx`. When it returns, they are committed to
+   * storage as one all-or-nothing write and only then applied to the search
+   * and text indexes. If the callback throws, or a staged update names a
+   * missing vector, nothing is written and the indexes are untouched.
+   *
+   * Requires an adapter implementing `commitTransaction` (IndexedDB, SQLite,
+   * LMDB, LevelDB); on others this throws {@link UnsupportedCapabilityError}
+   * before the callback runs. Updates read the stored vector at commit time,
+   * so writes made outside the transaction meanwhile are not detected.
+   */
+  async transaction<T>(callback: (tx: VectorTransaction) => Promise<T> | T): Promise<T> {
+    await this.ensureInitialized();
+    if (!this.storage.commitTransaction) {
+      throw new UnsupportedCapabilityError(
+        'transactions',
+        this.storage.constructor.name,
+        'VectorDB.transaction()',
+      );
+    }
+
+    const tx = new VectorTransaction(this.dimension);
+    let result: T;
+    let staged: StagedOperation[];
+    try {
+      result = await callback(tx);
+    } finally {
+      staged = tx.finish();
+    }
+    if (staged.length === 0) {
+      return result;
+    }
+
+    // Before reading current state, since eviction may remove vectors
+    await this.assertQuotaAvailable();
+
+    const { writes, vectorChanged } = await this.resolveTransaction(staged);
+    const previous = await this.metadataBefore(Array.from(writes.keys()));
+    const operations: TransactionOperation[] = Array.from(writes, ([id, vectorData]) =>
+      vectorData ? { type: 'put', vector: vectorData } : { type: 'delete', id },
+    );
+    await this.storage.commitTransaction(operations);
+
+    const putIds = operations.flatMap((operation) =>
+      operation.type === 'put' ? [operation.vector.id] : [],
+    );
+    const deleteIds = operations.flatMap((operation) =>
+      operation.type === 'delete' ? [operation.id] : [],
+    );
+    if (putIds.length > 0) {
+      this.crossTab?.publish({ type: 'put', ids: putIds });
+    }
+    if (deleteIds.length > 0) {
+      this.crossTab?.publish({ type: 'delete', ids: deleteIds });
+    }
+
+    for (const [id, vectorData] of writes) {
+      if (vectorData) {
+        this.textIndex?.add(id, vectorData.metadata);
+      } else {
+        this.textIndex?.remove(id);
+      }
+
+      if (previous && (vectorData || previous.has(id))) {
+        this.recordChange(
+          !vectorData
+            ? 'deleted'
+            : !previous.has(id)
+              ? 'added'
+              : vectorChanged.has(id)
+                ? 'updated'
+                : 'metadataUpdated',
+          id,
+          previous.get(id),
+          vectorData?.metadata,
+        );
+      }
+    }
+
+    // Storage has committed; if the index falls behind, mark it dirty so
+    // searches fall back to brute force until the next rebuild.
+    try {
+      for (const [id, vectorData] of writes) {
+        await this.searchEngine.removeVectorFromIndex(id);
+        if (vectorData) {
+          await this.searchEngine.addVectorToIndex(vectorData);
+        }
+      }
+    } catch (error) {
+      this.searchEngine.markIndexDirty();
+      log.error('Index update failed after transaction commit — index marked dirty', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Stream every stored vector to `destination` as a portable archive.
+   *
+   * The binary archive carries a header (dimension, metric, format versions,
+   * namespace), the records in the binary codec of the storage adapters, the
+   * HNSW graph when one is active, and a trailing checksum; `format: 'ndjson'`
+   * writes one JSON record per line instead. Either can be read back by
+   * {@link import} on any adapter. Writes made during the export may or may
+   * not be included. The destination is closed when the export completes
+   * and aborted when it fails.
+   */
+  async export(
+    destination: WritableStream<Uint8Array>,
+    options: ExportOptions = {},
+  ): Promise<ExportResult> {
+    await this.ensureInitialized();
+
+    const format = options.format ?? 'archive';
+    const archive = await ArchiveWriter.open(
+      destination,
+      {
+        dimension: this.dimension,
+        distanceMetric: this.distanceMetric,
+        ...(options.namespace && { namespace: options.namespace }),
+        exportedAt: Date.now(),
+      },
+      format,
+    );
+
+    let snapshot: ArrayBuffer | null = null;
+    try {
+      if (format === 'archive' && options.includeIndex !== false) {
+        snapshot = this.searchEngine.exportIndexSnapshot();
+      }
+      if (snapshot) {
+        await archive.writeIndexSnapshot(snapshot);
+      }
+      for await (const vectorData of this.storage.scan()) {
+        options.signal?.throwIfAborted();
+        await archive.writeRecord(vectorData);
+      }
+      options.signal?.throwIfAborted();
+      await archive.close();
+    } catch (error) {
+      await archive.abort(error);
+      throw error;
+    }
+
+    return { exported: archive.recordCount, indexIncluded: snapshot !== null };
+  }
+
+  /**
+   * Add the vectors of an archive written by {@link export}, or of an NDJSON
+   * dump, replacing stored vectors with the same ids.
+   *
+   * Records are validated against this database's dimension and written in
+   * batches, keeping their metadata and timestamps; versions restart from
+   * this store's own. When the archive carries an HNSW graph that matches
+   * the imported vectors it is adopted, otherwise the search index is
+   * rebuilt. The import is not atomic: if it fails or is aborted, the
+   * batches already written stay and the index is rebuilt over them.
+   */
+  async import(
+    source: ReadableStream<Uint8Array> | ArchiveReader,
+    options: ImportOptions = {},
+  ): Promise<ImportResult> {
+    await this.ensureInitialized();
+
+    const archive =
+      source instanceof ArchiveReader
+        ? source
+        : await ArchiveReader.open(source, options.format);
+    if (archive.header && archive.header.dimension !== this.dimension) {
+      throw new DimensionMismatchError(this.dimension, archive.header.dimension);
+    }
+
+    const batchSize = options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE;
+    const snapshot = archive.indexSnapshot;
+    const vectors = snapshot ? new Map<string, Float32Array>() : null;
+    let imported = 0;
+    let batch: VectorData[] = [];
+
+    const flush = async (): Promise<void> => {
+      await this.storeBatch(batch);
+      imported += batch.length;
+      batch = [];
+      options.onProgress?.(imported);
+    };
+
+    // Searches fall back to brute force until the index covers the import
+    this.searchEngine.markIndexDirty();
+    try {
+      for await (const record of archive.records()) {
+        options.signal?.throwIfAborted();
+        const vectorData = await this.prepareImported(record);
+        vectors?.set(vectorData.id, vectorData.vector);
+        batch.push(vectorData);
+        if (batch.length >= batchSize) {
+          await flush();
+        }
+      }
+      if (batch.length > 0) {
+        await flush();
+      }
+    } catch (error) {
+      await this.searchEngine.rebuildIndex({ loadFromCache: false });
+      throw error;
+    }
+
+    const indexRestored =
+      snapshot !== null &&
+      (await this.searchEngine.restoreIndexSnapshot(snapshot, vectors!));
+    if (!indexRestored) {
+      await this.searchEngine.rebuildIndex({ loadFromCache: false });
+    }
+
+    return { imported, indexRestored };
+  }
+
+  /**
+   * Copy every stored vector into `target`, another database of the same
+   * dimension, streaming them from storage in batches like {@link import}.
+   *
+   * `filter` skips records and `transform` rewrites them on the way. Without
+   * a transform, the HNSW graph is carried over when `target` uses HNSW under
+   * the same metric and ends up holding exactly the copied vectors; otherwise
+   * its index is rebuilt. `onProgress` counts records read from this database.
+   * Not atomic: batches written before a failure or abort stay in `target`.
+   */
+  async copyTo(
+    target: VectorDB,
+    options: CopyVectorsOptions = {},
+  ): Promise<CopyVectorsResult> {
+    await this.ensureInitialized();
+    await target.ensureInitialized();
+    if (target.dimension !== this.dimension) {
+      throw new DimensionMismatchError(target.dimension, this.dimension);
+    }
+
+    const batchSize = options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE;
+    const total = await this.storage.count();
+    const totalBatches = Math.max(1, Math.ceil(total / batchSize));
+    const snapshot = options.transform ? null : this.searchEngine.exportIndexSnapshot();
+    const vectors = snapshot ? new Map<string, Float32Array>() : null;
+    let read = 0;
+    let copied = 0;
+    let currentBatch = 0;
+    let batch: VectorData[] = [];
+
+    const flush = async (): Promise<void> => {
+      await target.storeBatch(batch);
+      copied += batch.length;
+      batch = [];
+      currentBatch++;
+      options.onProgress?.({
+        total,
+        completed: read,
+        failed: 0,
+        percentage: total > 0 ? Math.min(100, (read / total) * 100) : 100,
+        currentBatch,
+        totalBatches,
+      });
+    };
+
+    // Searches on the target fall back to brute force until its index covers the copy
+    target.searchEngine.markIndexDirty();
+    target.textIndexStale = true;
+    try {
+      for await (const record of this.storage.scan()) {
+        if (options.abortSignal?.aborted) {
+          throw new Error('Batch operation aborted');
+        }
+        read++;
+        if (options.filter && !options.filter(record)) {
+          continue;
+        }
+        const copy = options.transform ? await options.transform(record) : record;
+        const vectorData = await target.prepareImported(copy);
+        vectors?.set(vectorData.id, vectorData.vector);
+        batch.push(vectorData);
+        if (batch.length >= batchSize) {
+          await flush();
+        }
+      }
+      if (batch.length > 0 || currentBatch === 0) {
+        await flush();
+      }
+    } catch (error) {
+      await target.searchEngine.rebuildIndex({ loadFromCache: false });
+      throw error;
+    }
+
+    const indexRestored =
+      snapshot !== null &&
+      (await target.searchEngine.restoreIndexSnapshot(snapshot, vectors!));
+    if (!indexRestored) {
+      await target.searchEngine.rebuildIndex({ loadFromCache: false });
+    }
+
+    return { copied, indexRestored };
+  }
+
+  /**
+   * Validate an archived record and make it ready to store here
+   */
+  private async prepareImported(record: VectorData): Promise<VectorData> {
+    const id = InputValidator.validateVectorId(record.id);
+    if (record.vector.length !== this.dimension) {
+      throw new DimensionMismatchError(this.dimension, record.vector.length);
+    }
+
+    const vectorData: VectorData = { ...record, id };
+    if (record.metadata !== undefined) {
+      vectorData.metadata = InputValidator.validateMetadata(record.metadata);
+    }
+    // Compression details describe the exporting database; versions its store
+    delete vectorData.compression;
+    delete vectorData.version;
+    return vectorData;
+  }
+
+  /**
+   * Take a named point-in-time copy of this database: vectors, metadata,
+   * configuration and, when one is active, the HNSW graph.
+   *
+   * The adapter copies the store as cheaply as it can — `VACUUM INTO` for
+   * SQLite, a directory copy for the file-system adapter, a sibling database
+   * for IndexedDB. Snapshots live next to the data: they survive `clear()`
+   * and are removed by `delete()`. Requires an adapter implementing snapshots
+   * (IndexedDB, SQLite, file system, memory); on others this throws
+   * {@link UnsupportedCapabilityError}. A label already taken throws
+   * `SnapshotExistsError`.
+   */
+  async createSnapshot(label: string): Promise<SnapshotInfo> {
+    await this.ensureInitialized();
+    const storage = this.requireSnapshots('VectorDB.createSnapshot()');
+    const validLabel = InputValidator.validateSnapshotLabel(label);
+
+    const attachment = encodeSnapshotAttachment(
+      { dimension: this.dimension, distanceMetric: this.distanceMetric },
+      this.searchEngine.exportIndexSnapshot(),
+    );
+    return storage.createSnapshot(validLabel, attachment);
+  }
+
+  /**
+   * List the snapshots taken with {@link createSnapshot}, oldest first
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    await this.ensureInitialized();
+    const storage = this.requireSnapshots('VectorDB.listSnapshots()');
+    return storage.listSnapshots();
+  }
+
+  /**
+   * Replace every stored vector with the contents of a snapshot.
+   *
+   * The swap is atomic on SQLite, IndexedDB and the memory adapter; the
+   * file-system adapter swaps directories by rename. The snapshot's distance
+   * metric is reapplied and its HNSW graph adopted when it covers the
+   * restored vectors; otherwise the index is rebuilt. A snapshot of a
+   * different dimension throws {@link DimensionMismatchError} before
+   * anything is replaced. Watchers see a `cleared` event followed by one
+   * `added` event per restored vector. The snapshot itself is kept.
+   */
+  async restoreSnapshot(label: string): Promise<RestoreSnapshotResult> {
+    await this.ensureInitialized();
+    const storage = this.requireSnapshots('VectorDB.restoreSnapshot()');
+    const validLabel = InputValidator.validateSnapshotLabel(label);
+
+    const attachment = await storage.restoreSnapshot(validLabel, (stored) => {
+      const { manifest } = decodeSnapshotAttachment(stored);
+      if (manifest.dimension !== this.dimension) {
+        throw new DimensionMismatchError(this.dimension, manifest.dimension);
+      }
+    });
+    const { manifest, indexSnapshot } = decodeSnapshotAttachment(attachment);
+
+    this.crossTab?.publish({ type: 'rebuild' });
+    this.changeFeed.record({ type: 'cleared' });
+    this.textIndexStale = true;
+    if (manifest.distanceMetric !== this.distanceMetric) {
+      this.setDistanceMetric(manifest.distanceMetric);
+    }
+
+    // One pass collects what the index snapshot and the change feed need
+    const vectors = indexSnapshot ? new Map<string, Float32Array>() : null;
+    let restored = 0;
+    for await (const vectorData of this.storage.scan()) {
+      vectors?.set(vectorData.id, vectorData.vector);
+      if (this.changeFeed.isRecording()) {
+        this.recordChange('added', vectorData.id, undefined, vectorData.metadata);
+      }
+      restored++;
+    }
+
+    const indexRestored =
+      indexSnapshot !== null &&
+      (await this.searchEngine.restoreIndexSnapshot(indexSnapshot, vectors!));
+    if (!indexRestored) {
+      await this.searchEngine.rebuildIndex({ loadFromCache: false });
+    }
+
+    return { restored, indexRestored };
+  }
+
+  /**
+   * Delete a snapshot. Returns false when there was no snapshot `label`.
+   */
+  async deleteSnapshot(label: string): Promise<boolean> {
+    await this.ensureInitialized();
+    const storage = this.requireSnapshots('VectorDB.deleteSnapshot()');
+    return storage.deleteSnapshot(InputValidator.validateSnapshotLabel(label));
+  }
+
+  /**
+   * The storage adapter, once checked to implement the snapshot methods
+   */
+  private requireSnapshots(operation: string): SnapshotAdapter {
+    const { storage } = this;
+    if (
+      !storage.createSnapshot ||
+      !storage.listSnapshots ||
+      !storage.restoreSnapshot ||
+      !storage.deleteSnapshot
+    ) {
+      throw new UnsupportedCapabilityError(
+        'snapshots',
+        storage.constructor.name,
+        operation,
+      );
+    }
+    return storage as SnapshotAdapter;
+  }
+
+  /**
+   * Turn staged transaction writes into the final record per id, or `null`
+   * for ids the transaction deletes. Also returns the ids whose vector
+   * values change.
+   */
+  private async resolveTransaction(staged: StagedOperation[]): Promise<{
+    writes: Map<string, VectorData | null>;
+    vectorChanged: Set<string>;
+  }> {
+    const writes = new Map<string, VectorData | null>();
+    const vectorChanged = new Set<string>();
+
+    const current = async (id: string): Promise<VectorData> => {
+      const written = writes.get(id);
+      if (written === null) {
+        throw new VectorNotFoundError(id);
+      }
+      return written ?? this.storage.get(id);
+    };
+
+    for (const operation of staged) {
+      switch (operation.type) {
+        case 'add':
+          writes.set(
+            operation.id,
+            await VectorOperations.prepareForStorage(
+              operation.id,
+              operation.vector,
+              operation.metadata,
+              { normalize: false },
+            ),
+          );
+          vectorChanged.add(operation.id);
+          break;
+        case 'updateVector': {
+          const existing = await current(operation.id);
+          writes.set(operation.id, {
+            ...existing,
+            vector: operation.vector,
+            magnitude: await VectorOperations.magnitude(operation.vector),
+            timestamp: Date.now(),
+          });
+          vectorChanged.add(operation.id);
+          break;
+        }
+        case 'updateMetadata': {
+          const existing = await current(operation.id);
+          writes.set(operation.id, {
+            ...existing,
+            metadata:
+              operation.merge && existing.metadata
+                ? { ...existing.metadata, ...operation.metadata }
+                : operation.metadata,
+            timestamp: Date.now(),
+          });
+          break;
+        }
+        case 'delete':
+          writes.set(operation.id, null);
+          break;
+      }
+    }
+
+    return { writes, vectorChanged };
+  }
+
+  /**
+   * Record the updates of an `updateBatch` call that were applied
+   */
+  private async recordBatchUpdate(
+    updates: Array<{ id: string; vector?: Float32Array }>,
+    previous: Map<string, Record<string, unknown> | undefined>,
+    errors: Array<{ id: string; error: Error }>,
+  ): Promise<void> {
+    const failed = new Set(errors.map(({ id }) => id));
+    const applied = updates.filter(({ id }) => previous.has(id) && !failed.has(id));
+    const stored = await this.storage.getMany(applied.map(({ id }) => id));
+    const current = new Map(
+      stored.map((vectorData) => [vectorData.id, vectorData.metadata]),
+    );
+
+    for (const { id, vector } of applied) {
+      this.recordChange(
+        vector ? 'updated' : 'metadataUpdated',
+        id,
+        previous.get(id),
+        current.get(id),
+      );
+    }
+  }
 }
@@ -0,0 +1,113 @@
+import { DimensionMismatchError } from '@/core/errors.js';
+import { InputValidator } from '@/core/input-validator.js';
+import type { VectorFormat } from '@/core/types.js';
+import { VectorFormatHandler } from '@/vectors/formats.js';
+
+/**
+ * A write staged by {@link VectorTransaction}, validated but not yet applied
+ */
+export type StagedOperation =
+  | { type: 'add'; id: string; vector: VectorFormat; metadata: Record<string, unknown> }
+  | { type: 'updateVector'; id: string; vector: Float32Array }
+  | {
+      type: 'updateMetadata';
+      id: string;
+      metadata: Record<string, unknown>;
+      merge: boolean;
+    }
+  | { type: 'delete'; id: string };
+
+/**
+ * Collects the writes of one `VectorDB.transaction()` callback.
+ *
+ * Methods validate their arguments immediately and stage the write; nothing
+ * reaches storage until the callback returns and the transaction commits.
+ * Later writes to the same id see the effect of earlier ones.
+ */
+export class VectorTransaction {
+  private operations: StagedOperation[] = [];
+  private finished = false;
+
+  constructor(private dimension: number) {}
+
+  /**
+   * Stage adding a vector, replacing any stored vector with the same id
+   */
+  addVector(id: string, vector: VectorFormat, metadata?: Record<string, unknown>): void {
+    const validatedId = InputValidator.validateVectorId(id);
+    const validatedMetadata = InputValidator.validateMetadata(metadata);
+    this.validateVector(vector);
+    this.stage({ type: 'add', id: validatedId, vector, metadata: validatedMetadata });
+  }
+
+  /**
+   * Stage replacing a stored vector's values; the commit fails if it does
+   * not exist
+   */
+  updateVector(id: string, vector: VectorFormat): void {
+    const validatedId = InputValidator.validateVectorId(id);
+    this.validateVector(vector);
+    this.stage({
+      type: 'updateVector',
+      id: validatedId,
+      vector: VectorFormatHandler.toFloat32Array(vector),
+    });
+  }
+
+  /**
+   * Stage a metadata update, merged into the existing metadata unless
+   * `merge` is false; the commit fails if the vector does not exist
+   */
+  updateMetadata(
+    id: string,
+    metadata: Record<string, unknown>,
+    options?: { merge?: boolean },
+  ): void {
+    const validatedId = InputValidator.validateVectorId(id);
+    const validatedMetadata = InputValidator.validateMetadata(metadata);
+    this.stage({
+      type: 'updateMetadata',
+      id: validatedId,
+      metadata: validatedMetadata,
+      merge: options?.merge !== false,
+    });
+  }
+
+  /**
+   * Stage deleting a vector; missing ids are ignored
+   */
+  deleteVector(id: string): void {
+    this.stage({ type: 'delete', id: InputValidator.validateVectorId(id) });
+  }
+
+  /**
+   * Number of staged writes
+   */
+  get size(): number {
+    return this.operations.length;
+  }
+
+  /**
+   * Stop accepting writes and return those staged, in order
+   */
+  finish(): StagedOperation[] {
+    this.finished = true;
+    return this.operations;
+  }
+
+  private stage(operation: StagedOperation): void {
+    if (this.finished) {
+      throw new Error(
+        'Transaction has already finished; stage writes inside its callback',
+      );
+    }
+    this.operations.push(operation);
+  }
+
+  private validateVector(vector: VectorFormat): void {
+    VectorFormatHandler.validate(vector, this.dimension);
+    if (vector.length !== this.dimension) {
+      throw new DimensionMismatchError(this.dimension, vector.length);
+    }
+  }
+}
@@ -1,8 +1,19 @@
-import { NamespaceExistsError } from '@/core/errors.js';
+import {
+  NamespaceExistsError,
+  NamespaceIncompatibleError,
+  NamespaceNotFoundError,
+} from '@/core/errors.js';
 import type {
   BatchOptions,
+  CopyVectorsOptions,
+  CopyVectorsResult,
+  CrossNamespaceSearchOptions,
+  CrossNamespaceSearchResult,
+  DistanceMetric,
+  NamespaceAlias,
   NamespaceConfig,
   NamespaceInfo,
+  NamespacedSearchResult,
   SearchOptions,
   SearchResult,
   StorageAdapterFactory,
@@ -11,11 +22,24 @@ import type {
 } from '@/core/types.js';
 import { NamespaceManager } from '@/namespaces/manager.js';
 import { VectorNamespace } from '@/namespaces/namespace.js';
+import { normalizeSimilarity } from '@/search/rank-fusion.js';
+import {
+  ArchiveReader,
+  type ExportOptions,
+  type ExportResult,
+  type ImportOptions,
+  type ImportResult,
+} from '@/storage/archive.js';
 import { VectorDB } from './database.js';
 
 export interface VectorFranklOptions {
   defaultDimension?: number;
   storageFactory?: StorageAdapterFactory;
+  /**
+   * Named adapters a namespace can select with its `storage` config, e.g.
+   * `{ sqlite: (name) => new SQLiteStorageAdapter({ filename: `${name}.db` }) }`
+   */
+  storageBackends?: Record<string, StorageAdapterFactory>;
 }
 
 /**
@@ -39,6 +63,7 @@ export class VectorFrankl {
     this.namespaceManager = new NamespaceManager(
       this._rootDatabaseName,
       options?.storageFactory,
+      options?.storageBackends,
     );
   }
 
@@ -83,13 +108,24 @@ export class VectorFrankl {
   }
 
   /**
-   * Get an existing namespace
+   * Get an existing namespace, following `name` if it is an alias
    */
   async getNamespace(name: string): Promise<VectorNamespace> {
     await this.ensureInitialized();
     return this.namespaceManager.getNamespace(name);
   }
 
+  /**
+   * Change a namespace's config; see `NamespaceManager.updateNamespaceConfig()`
+   */
+  async updateNamespaceConfig(
+    name: string,
+    changes: Partial<NamespaceConfig>,
+  ): Promise<NamespaceInfo> {
+    await this.ensureInitialized();
+    return this.namespaceManager.updateNamespaceConfig(name, changes);
+  }
+
   /**
    * Delete a namespace
    */
@@ -104,6 +140,57 @@ export class VectorFrankl {
     return this.namespaceManager.deleteNamespace(name);
   }
 
+  /**
+   * Create `destination` as a copy of `source`, optionally filtering and
+   * transforming records on the way; see `NamespaceManager.cloneNamespace()`
+   */
+  async cloneNamespace(
+    source: string,
+    destination: string,
+    options?: CopyVectorsOptions,
+  ): Promise<CopyVectorsResult & { namespace: VectorNamespace }> {
+    await this.ensureInitialized();
+    return this.namespaceManager.cloneNamespace(source, destination, options);
+  }
+
+  /**
+   * Rename a namespace, repointing its aliases; see
+   * `NamespaceManager.renameNamespace()`
+   */
+  async renameNamespace(
+    from: string,
+    to: string,
+    options?: Omit<CopyVectorsOptions, 'filter' | 'transform'>,
+  ): Promise<CopyVectorsResult & { namespace: VectorNamespace }> {
+    await this.ensureInitialized();
+
+    if (from === 'default' && this.defaultNamespace) {
+      throw new Error('Cannot rename the default namespace while it is in use');
+    }
+
+    return this.namespaceManager.renameNamespace(from, to, options);
+  }
+
+  /**
+   * Move a namespace to the named `storageBackends` entry, or back to the
+   * default storage with null; see `NamespaceManager.migrateNamespace()`
+   */
+  async migrateNamespace(
+    name: string,
+    storage: string | null,
+    options?: Omit<CopyVectorsOptions, 'filter' | 'transform'>,
+  ): Promise<CopyVectorsResult & { namespace: VectorNamespace }> {
+    await this.ensureInitialized();
+    const result = await this.namespaceManager.migrateNamespace(name, storage, options);
+
+    // The default-namespace shortcuts must follow it to the new storage
+    if (result.namespace.name === 'default' && this.defaultNamespace) {
+      this.defaultNamespace = result.namespace;
+    }
+
+    return result;
+  }
+
   /**
    * List all namespaces
    */
@@ -128,6 +215,108 @@ export class VectorFrankl {
     return this.namespaceManager.findNamespaces(pattern);
   }
 
+  // === Aliases ===
+
+  /**
+   * Point a new alias at an existing namespace, so `getNamespace(alias)`
+   * returns the target. Throws `NamespaceExistsError` if a namespace or alias
+   * already uses the name.
+   */
+  async createAlias(alias: string, target: string): Promise<NamespaceAlias> {
+    await this.ensureInitialized();
+    return this.namespaceManager.createAlias(alias, target);
+  }
+
+  /**
+   * Atomically repoint an alias at another namespace, e.g. once a reindex
+   * into `products-v7` is complete. Resolves to the namespace it replaced.
+   */
+  async swapAlias(alias: string, target: string): Promise<string> {
+    await this.ensureInitialized();
+    return this.namespaceManager.swapAlias(alias, target);
+  }
+
+  /**
+   * The namespace `name` points at, or null when it is not an alias
+   */
+  async resolveAlias(name: string): Promise<string | null> {
+    await this.ensureInitialized();
+    return this.namespaceManager.resolveAlias(name);
+  }
+
+  /**
+   * Remove an alias; the namespace it pointed at is untouched
+   */
+  async deleteAlias(alias: string): Promise<void> {
+    await this.ensureInitialized();
+    return this.namespaceManager.deleteAlias(alias);
+  }
+
+  /**
+   * List all aliases
+   */
+  async listAliases(): Promise<NamespaceAlias[]> {
+    await this.ensureInitialized();
+    return this.namespaceManager.listAliases();
+  }
+
+  // === Export and Import ===
+
+  /**
+   * Stream a namespace to `destination` as a portable archive; see
+   * `VectorDB.export()`
+   */
+  async exportNamespace(
+    name: string,
+    destination: WritableStream<Uint8Array>,
+    options?: Omit<ExportOptions, 'namespace'>,
+  ): Promise<ExportResult> {
+    await this.ensureInitialized();
+    const namespace = await this.namespaceManager.getNamespace(name);
+    return namespace.export(destination, options);
+  }
+
+  /**
+   * Create a namespace from an archive and import its vectors.
+   *
+   * The namespace takes the name and config recorded by
+   * {@link exportNamespace}, or `name` and the archive's dimension and metric
+   * for archives exported from a plain `VectorDB`. The recorded storage
+   * backend is not carried over; pass `storage` to pick one here. Throws
+   * `NamespaceExistsError` rather than merging into an existing namespace;
+   * use `VectorNamespace.import()` for that.
+   */
+  async importNamespace(
+    source: ReadableStream<Uint8Array>,
+    options: ImportOptions & { name?: string; storage?: string } = {},
+  ): Promise<ImportResult & { namespace: VectorNamespace }> {
+    await this.ensureInitialized();
+
+    const { name: requestedName, storage, ...importOptions } = options;
+    const archive = await ArchiveReader.open(source, options.format);
+    const { header } = archive;
+    const name = requestedName ?? header?.namespace?.name;
+    if (!header || !name) {
+      throw new Error(
+        'Cannot import a namespace from an archive without a header naming it; ' +
+          'pass a name, and use an archive written by export()',
+      );
+    }
+
+    const recorded: NamespaceConfig = header.namespace?.config ?? {
+      dimension: header.dimension,
+      distanceMetric: header.distanceMetric as DistanceMetric,
+    };
+    const config: NamespaceConfig = { ...recorded };
+    delete config.storage;
+    if (storage !== undefined) {
+      config.storage = storage;
+    }
+    const namespace = await this.namespaceManager.createNamespace(name, config);
+    const result = await namespace.import(archive, importOptions);
+    return { ...result, namespace };
+  }
+
   // === Direct Vector Operations (on default namespace) ===
 
   /**
@@ -190,6 +379,115 @@ export class VectorFrankl {
     return ns.search(queryVector, k, options);
   }
 
+  /**
+   * Search several namespaces at once and merge the results into one ranking.
+   *
+   * `namespaces` is a pattern matched as in {@link findNamespaces} or a list
+   * of names, where aliases are resolved to their targets. Namespaces whose
+   * dimension differs from the query's, or whose metric differs from
+   * `options.distanceMetric` when given, are skipped. The rest are searched
+   * concurrently; scores are normalized per metric so they can be compared,
+   * and each result is tagged with its namespace. A namespace that is skipped,
+   * missing or fails is reported in `failures` rather than failing the whole
+   * query.
+   */
+  async searchAcross(
+    namespaces: string | RegExp | readonly string[],
+    queryVector: VectorFormat,
+    k: number = 10,
+    options: CrossNamespaceSearchOptions = {},
+  ): Promise<CrossNamespaceSearchResult> {
+    await this.ensureInitialized();
+    const { distanceMetric, ...searchOptions } = options;
+    const failures: CrossNamespaceSearchResult['failures'] = [];
+
+    let candidates: NamespaceInfo[];
+    if (typeof namespaces === 'string' || namespaces instanceof RegExp) {
+      candidates = await this.namespaceManager.findNamespaces(namespaces);
+    } else {
+      candidates = [];
+      for (const name of new Set(namespaces)) {
+        const target = (await this.namespaceManager.resolveAlias(name)) ?? name;
+        const info = await this.namespaceManager.getNamespaceInfo(target);
+        if (info) {
+          if (!candidates.some((candidate) => candidate.name === info.name)) {
+            candidates.push(info);
+          }
+        } else {
+          failures.push({ namespace: name, error: new NamespaceNotFoundError(name) });
+        }
+      }
+    }
+
+    const searched: Array<{ name: string; metric: DistanceMetric }> = [];
+    for (const { name, config } of candidates) {
+      const metric = config.distanceMetric ?? 'cosine';
+      if (config.dimension !== queryVector.length) {
+        failures.push({
+          namespace: name,
+          error: new NamespaceIncompatibleError(
+            name,
+            `dimension ${config.dimension} does not match the query's ${queryVector.length}`,
+          ),
+        });
+      } else if (distanceMetric && metric !== distanceMetric) {
+        failures.push({
+          namespace: name,
+          error: new NamespaceIncompatibleError(
+            name,
+            `metric '${metric}' does not match the requested '${distanceMetric}'`,
+          ),
+        });
+      } else {
+        searched.push({ name, metric });
+      }
+    }
+
+    const settled = await Promise.allSettled(
+      searched.map(async ({ name }) => {
+        const namespace = await this.namespaceManager.getNamespace(name);
+        return namespace.search(queryVector, k, searchOptions);
+      }),
+    );
+
+    const results: NamespacedSearchResult[] = [];
+    settled.forEach((outcome, index) => {
+      const { name, metric } = searched[index]!;
+      if (outcome.status === 'rejected') {
+        failures.push({
+          namespace: name,
+          error:
+            outcome.reason instanceof Error
+              ? outcome.reason
+              : new Error(String(outcome.reason)),
+        });
+        return;
+      }
+      for (const result of outcome.value) {
+        results.push({
+          ...result,
+          score: normalizeSimilarity(result.score, metric),
+          namespace: name,
+        });
+      }
+    });
+
+    results.sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.namespace.localeCompare(b.namespace) ||
+        a.id.localeCompare(b.id),
+    );
+
+    return {
+      results: results.slice(0, k),
+      searched: searched
+        .filter((_, index) => settled[index]?.status === 'fulfilled')
+        .map(({ name }) => name),
+      failures,
+    };
+  }
+
   /**
    * Get statistics for the default namespace
    */
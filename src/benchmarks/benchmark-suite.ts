@@ -420,6 +420,18 @@ export class BenchmarkSuite {
         getScanCapabilities() {
           return adapter.getScanCapabilities();
         },
+        async getDocument<T>(collection: string, key: string) {
+          return adapter.getDocument<T>(collection, key);
+        },
+        async putDocument(collection: string, key: string, document: unknown) {
+          return adapter.putDocument(collection, key, document);
+        },
+        async deleteDocument(collection: string, key: string) {
+          return adapter.deleteDocument(collection, key);
+        },
+        async listDocuments<T>(collection: string) {
+          return adapter.listDocuments<T>(collection);
+        },
       };
 
       const engineFallback = new SearchEngine(fallbackAdapter, dimension, 'cosine', {
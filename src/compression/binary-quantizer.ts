@@ -0,0 +1,382 @@
+/**
+ * Binary quantization compression for vector data
+ *
+ * Each component is reduced to a single bit (above / below a threshold) and
+ * the bits are packed eight to a byte, a 32× reduction over Float32 storage.
+ * Packed codes are compared with a popcount Hamming distance, which is cheap
+ * enough to pre-rank a whole collection before re-ranking a short list of
+ * candidates at full precision.
+ */
+
+import { DistanceCalculator } from '@/search/distance-metrics.js';
+import {
+  BaseCompressor,
+  type CompressedVector,
+  type CompressionConfig,
+} from './base-compressor.js';
+
+export type BinaryThreshold = 'sign' | 'mean';
+
+export interface BinaryQuantizationConfig extends CompressionConfig {
+  /**
+   * How the per-component threshold is chosen:
+   *  - `sign`: a component is set when it is greater than zero
+   *  - `mean`: a component is set when it is greater than that dimension's
+   *    mean, learned with {@link BinaryQuantizer.trainThresholds}
+   */
+  threshold?: BinaryThreshold;
+}
+
+export interface BinaryCandidate {
+  id: string;
+  code: Uint8Array;
+}
+
+export interface BinarySearchOptions {
+  /** Candidates kept after the Hamming pass and re-ranked at full precision (default k * 4) */
+  rerankCount?: number;
+  /** Distance metric used for re-ranking (default 'cosine') */
+  metric?: string;
+  /**
+   * Loads full-precision vectors for the surviving candidates. When omitted,
+   * results are ordered by Hamming distance alone.
+   */
+  resolveVectors?: (
+    ids: string[],
+  ) => Promise<Map<string, Float32Array>> | Map<string, Float32Array>;
+}
+
+export interface BinarySearchResult {
+  id: string;
+  /** Hamming distance between the packed query and candidate codes */
+  hammingDistance: number;
+  /** Full-precision distance, present when the candidate was re-ranked */
+  distance?: number;
+}
+
+const FORMAT_VERSION = 1;
+const HEADER_SIZE = 16;
+
+/** Set-bit count for every byte value */
+const POPCOUNT = new Uint8Array(256);
+for (let i = 1; i < 256; i++) {
+  POPCOUNT[i] = (i & 1) + POPCOUNT[i >> 1]!;
+}
+
+/**
+ * Number of differing bits between two packed codes of equal length
+ */
+export function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  if (a.length !== b.length) {
+    throw new Error(`Binary code length mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += POPCOUNT[a[i]! ^ b[i]!]!;
+  }
+  return distance;
+}
+
+/**
+ * Binary quantization compressor
+ *
+ * Decompression reconstructs each component as its threshold plus the mean
+ * offset of the components on the same side, so two-valued vectors round-trip
+ * exactly. For dense embeddings the reconstruction is coarse by design: the
+ * precision loss is reported in the metadata but not checked against
+ * `maxPrecisionLoss`, since accuracy is recovered by re-ranking (see
+ * {@link BinaryQuantizer.search}).
+ */
+export class BinaryQuantizer extends BaseCompressor {
+  private binaryConfig: Required<BinaryQuantizationConfig>;
+  private thresholds: Float32Array | null = null;
+
+  constructor(config: BinaryQuantizationConfig = {}) {
+    super(config);
+
+    this.binaryConfig = {
+      ...this.config,
+      threshold: config.threshold ?? 'sign',
+    };
+  }
+
+  getAlgorithmName(): string {
+    return `binary-${this.binaryConfig.threshold}`;
+  }
+
+  estimateCompressedSize(vector: Float32Array): number {
+    return HEADER_SIZE + Math.ceil(vector.length / 8);
+  }
+
+  /**
+   * Learn per-dimension mean thresholds for the `mean` variant
+   */
+  trainThresholds(trainingVectors: Float32Array[]): void {
+    const first = trainingVectors[0];
+    if (!first) {
+      throw new Error('Cannot train thresholds with empty training set');
+    }
+
+    const sums = new Float64Array(first.length);
+    for (const vector of trainingVectors) {
+      if (vector.length !== first.length) {
+        throw new Error(
+          `Training vector dimension mismatch: ${vector.length} vs ${first.length}`,
+        );
+      }
+      for (let d = 0; d < vector.length; d++) {
+        sums[d]! += vector[d]!;
+      }
+    }
+
+    const thresholds = new Float32Array(first.length);
+    for (let d = 0; d < thresholds.length; d++) {
+      thresholds[d] = sums[d]! / trainingVectors.length;
+    }
+    this.thresholds = thresholds;
+  }
+
+  /**
+   * Check if the quantizer can encode vectors (always true for `sign`)
+   */
+  isTrained(): boolean {
+    return this.binaryConfig.threshold === 'sign' || this.thresholds !== null;
+  }
+
+  /**
+   * Get the learned per-dimension thresholds, if any
+   */
+  getThresholds(): Float32Array | null {
+    return this.thresholds ? new Float32Array(this.thresholds) : null;
+  }
+
+  /**
+   * Restore previously learned thresholds
+   */
+  setThresholds(thresholds: Float32Array): void {
+    this.thresholds = new Float32Array(thresholds);
+  }
+
+  /**
+   * Pack a vector into its binary code without the compression header
+   */
+  encode(vector: Float32Array): Uint8Array {
+    const code = new Uint8Array(Math.ceil(vector.length / 8));
+    for (let d = 0; d < vector.length; d++) {
+      if (vector[d]! > this.thresholdAt(d, vector.length)) {
+        code[d >> 3]! |= 1 << (d & 7);
+      }
+    }
+    return code;
+  }
+
+  async compress(vector: Float32Array): Promise<CompressedVector> {
+    const startTime = performance.now();
+
+    const code = this.encode(vector);
+
+    // Mean offset above and below the threshold, used for reconstruction
+    let above = 0;
+    let aboveCount = 0;
+    let below = 0;
+    let belowCount = 0;
+    for (let d = 0; d < vector.length; d++) {
+      const offset = vector[d]! - this.thresholdAt(d, vector.length);
+      if (offset > 0) {
+        above += offset;
+        aboveCount++;
+      } else {
+        below += offset;
+        belowCount++;
+      }
+    }
+
+    const compressedData = new ArrayBuffer(HEADER_SIZE + code.length);
+    const header = new DataView(compressedData, 0, HEADER_SIZE);
+    header.setUint8(0, FORMAT_VERSION);
+    header.setUint8(1, this.binaryConfig.threshold === 'mean' ? 1 : 0);
+    header.setUint32(4, vector.length, true);
+    header.setFloat32(8, aboveCount > 0 ? above / aboveCount : 0, true);
+    header.setFloat32(12, belowCount > 0 ? below / belowCount : 0, true);
+    new Uint8Array(compressedData, HEADER_SIZE).set(code);
+
+    let precisionLoss = 0;
+    if (this.config.validateQuality) {
+      const decompressed = this.decompressData(compressedData);
+      const quality = await this.validateCompressionQuality(vector, decompressed);
+      precisionLoss = 1 - quality.qualityScore;
+    }
+
+    const metadata = this.createMetadata(
+      vector.length * 4,
+      compressedData.byteLength,
+      this.config.level,
+      precisionLoss,
+    );
+
+    const compressionTime = performance.now() - startTime;
+
+    return {
+      data: compressedData,
+      metadata: {
+        ...metadata,
+        algorithm: `${this.getAlgorithmName()}:${compressionTime.toFixed(2)}ms`,
+      },
+      dimension: vector.length,
+      config: this.getConfig(),
+    };
+  }
+
+  async decompress(compressed: CompressedVector): Promise<Float32Array> {
+    return this.decompressData(compressed.data);
+  }
+
+  /**
+   * Decompress a bare compressed buffer, for callers that store only `data`
+   */
+  decode(data: ArrayBuffer): Float32Array {
+    return this.decompressData(data);
+  }
+
+  /**
+   * Extract the packed code from a compressed vector or its bare buffer
+   */
+  codeOf(compressed: CompressedVector | ArrayBuffer): Uint8Array {
+    const data = compressed instanceof ArrayBuffer ? compressed : compressed.data;
+    const dimension = new DataView(data).getUint32(4, true);
+    return new Uint8Array(data, HEADER_SIZE, Math.ceil(dimension / 8));
+  }
+
+  /**
+   * Order candidates by Hamming distance to a packed query code and keep the
+   * closest `limit`. Ties keep their input order.
+   */
+  rankByHamming(
+    queryCode: Uint8Array,
+    candidates: BinaryCandidate[],
+    limit: number,
+  ): Array<{ id: string; hammingDistance: number }> {
+    const distances = new Uint32Array(candidates.length);
+    let maxDistance = 0;
+    for (const [i, candidate] of candidates.entries()) {
+      const distance = hammingDistance(queryCode, candidate.code);
+      distances[i] = distance;
+      if (distance > maxDistance) maxDistance = distance;
+    }
+
+    // Distances are small integers, so a counting sort beats a comparison sort
+    const counts = new Uint32Array(maxDistance + 2);
+    for (const distance of distances) {
+      counts[distance + 1]!++;
+    }
+    for (let d = 1; d < counts.length; d++) {
+      counts[d]! += counts[d - 1]!;
+    }
+
+    const ordered = new Array<number>(candidates.length);
+    for (const [i, distance] of distances.entries()) {
+      ordered[counts[distance]!++] = i;
+    }
+
+    return ordered.slice(0, Math.max(0, limit)).map((i) => ({
+      id: candidates[i]!.id,
+      hammingDistance: distances[i]!,
+    }));
+  }
+
+  /**
+   * Two-stage k-nearest-neighbour search over packed codes: a Hamming pass
+   * over every candidate, then full-precision re-ranking of the closest
+   * `rerankCount` when `resolveVectors` is provided.
+   */
+  async search(
+    query: Float32Array,
+    candidates: BinaryCandidate[],
+    k: number,
+    options: BinarySearchOptions = {},
+  ): Promise<BinarySearchResult[]> {
+    const { rerankCount = k * 4, metric = 'cosine', resolveVectors } = options;
+
+    const shortlist = this.rankByHamming(
+      this.encode(query),
+      candidates,
+      resolveVectors ? Math.max(k, rerankCount) : k,
+    );
+    if (!resolveVectors) {
+      return shortlist;
+    }
+
+    const vectors = await resolveVectors(shortlist.map((entry) => entry.id));
+    const calculator = new DistanceCalculator(metric);
+    const reranked: BinarySearchResult[] = [];
+    for (const entry of shortlist) {
+      const vector = vectors.get(entry.id);
+      if (vector) {
+        reranked.push({ ...entry, distance: calculator.calculate(query, vector) });
+      }
+    }
+
+    reranked.sort(
+      (a, b) => a.distance! - b.distance! || a.hammingDistance - b.hammingDistance,
+    );
+    return reranked.slice(0, k);
+  }
+
+  /**
+   * Get current binary quantization configuration
+   */
+  getBinaryConfig(): BinaryQuantizationConfig {
+    return { ...this.binaryConfig };
+  }
+
+  private thresholdAt(dimension: number, vectorLength: number): number {
+    if (this.binaryConfig.threshold === 'sign') {
+      return 0;
+    }
+    if (!this.thresholds) {
+      throw new Error(
+        'Must train thresholds before using the mean variant. Call trainThresholds() first.',
+      );
+    }
+    if (this.thresholds.length !== vectorLength) {
+      throw new Error(
+        `Vector dimension mismatch: ${vectorLength} vs trained ${this.thresholds.length}`,
+      );
+    }
+    return this.thresholds[dimension]!;
+  }
+
+  private decompressData(buffer: ArrayBuffer): Float32Array {
+    if (buffer.byteLength < HEADER_SIZE) {
+      throw new Error('Invalid binary compressed data: buffer too small');
+    }
+
+    const header = new DataView(buffer, 0, HEADER_SIZE);
+    const version = header.getUint8(0);
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported binary compression format version: ${version}`);
+    }
+    const storedThreshold: BinaryThreshold = header.getUint8(1) === 1 ? 'mean' : 'sign';
+    if (storedThreshold !== this.binaryConfig.threshold) {
+      throw new Error(
+        `Binary threshold mismatch: data uses '${storedThreshold}', quantizer uses '${this.binaryConfig.threshold}'`,
+      );
+    }
+
+    const dimension = header.getUint32(4, true);
+    const above = header.getFloat32(8, true);
+    const below = header.getFloat32(12, true);
+    if (buffer.byteLength < HEADER_SIZE + Math.ceil(dimension / 8)) {
+      throw new Error('Invalid binary compressed data: truncated code');
+    }
+
+    const code = new Uint8Array(buffer, HEADER_SIZE);
+    const result = new Float32Array(dimension);
+    for (let d = 0; d < dimension; d++) {
+      const set = (code[d >> 3]! >> (d & 7)) & 1;
+      result[d] = this.thresholdAt(d, dimension) + (set ? above : below);
+    }
+    return result;
+  }
+}
@@ -9,6 +9,7 @@ import {
   type CompressedVector,
   type CompressionConfig,
 } from './base-compressor.js';
+import { BinaryQuantizer } from './binary-quantizer.js';
 import { calculateVectorStatistics, type VectorStatistics } from './compression-utils.js';
 import { ProductQuantizer } from './product-quantizer.js';
 import { ScalarQuantizer } from './scalar-quantizer.js';
@@ -149,6 +150,17 @@ export class CompressionManager {
         centroidsPerSubspace: 256,
       }),
     );
+
+    // Binary quantization compressor (sign threshold needs no training)
+    this.compressors.set(
+      'binary',
+      new BinaryQuantizer({
+        targetRatio: this.config.targetCompressionRatio,
+        maxPrecisionLoss: this.config.maxPrecisionLoss,
+        validateQuality: this.config.validateQuality,
+        threshold: 'sign',
+      }),
+    );
   }
 
   /**
@@ -354,6 +366,7 @@ export class CompressionManager {
           score += 0.1;
         if (this.config.qualityBias < 0.5) score += 0.05; // Speed preference
         if (analysis.sparsity < 0.3) score += 0.05; // Dense vectors
+        if (analysis.clustering.uniqueValues <= 2) score -= 0.2; // One bit is lossless
         break;
 
       case 'product':
@@ -366,6 +379,13 @@ export class CompressionManager {
         if (this.config.qualityBias > 0.7) score += 0.1; // Strong quality preference
         if (analysis.clustering.numClusters > 6) score += 0.1; // Very complex structure
         break;
+
+      case 'binary':
+        // Binary quantization is lossy for dense data but exact for two-valued vectors
+        score = 0.1;
+        if (analysis.clustering.uniqueValues <= 2) score += 0.8;
+        if (this.config.qualityBias < 0.3) score += 0.1; // Strong speed/memory preference
+        break;
     }
 
     return Math.max(0, Math.min(1, score));
@@ -566,6 +586,7 @@ export class CompressionManager {
   private mapAlgorithmToStrategy(algorithmName: string): CompressionStrategy {
     if (algorithmName.startsWith('scalar')) return 'scalar';
     if (algorithmName.startsWith('product')) return 'product';
+    if (algorithmName.startsWith('binary')) return 'binary';
     return 'scalar'; // default fallback
   }
 
@@ -654,6 +675,8 @@ export class CompressionManager {
         return vectorSize * 0.01; // Very fast
       case 'product':
         return vectorSize * 0.1; // Slower due to training
+      case 'binary':
+        return vectorSize * 0.005; // Single threshold comparison per component
       default:
         return vectorSize * 0.05;
     }
@@ -673,6 +696,8 @@ export class CompressionManager {
         const subspaceDim = Math.ceil(vectorSize / subspaces);
         return subspaces * centroids * subspaceDim * 4; // Float32
       }
+      case 'binary':
+        return vectorSize / 8; // One bit per component
       default:
         return vectorSize * 2;
     }
@@ -798,6 +823,8 @@ export class CompressionManager {
         const subspaceDim = Math.ceil(vector.length / subspaces);
         return Math.min(0.08, 0.02 + subspaceDim / 1000); // Higher loss for larger subspaces
       }
+      case 'binary':
+        return 0.25; // Magnitudes are discarded; relies on re-ranking for accuracy
       default:
         return 0.05;
     }
@@ -812,6 +839,8 @@ export class CompressionManager {
         return 'Uniform quantization of all vector components to reduced bit precision';
       case 'product':
         return 'Divides vectors into subspaces and quantizes each using learned centroids via k-means';
+      case 'binary':
+        return 'Packs one sign bit per component for Hamming pre-ranking with full-precision re-ranking';
       default:
         return 'Unknown compression strategy';
     }
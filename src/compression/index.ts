@@ -42,6 +42,15 @@ export {
   type QuantizationStrategy,
 } from './scalar-quantizer.js';
 
+// k-means clustering (shared by product quantization and IVF)
+export {
+  trainKMeans,
+  nearestCentroid,
+  type KMeansInitMethod,
+  type KMeansOptions,
+  type KMeansResult,
+} from './kmeans.js';
+
 // Product quantization
 export {
   ProductQuantizer,
@@ -51,6 +60,17 @@ export {
   type PQInitMethod,
 } from './product-quantizer.js';
 
+// Binary quantization
+export {
+  BinaryQuantizer,
+  hammingDistance,
+  type BinaryQuantizationConfig,
+  type BinaryThreshold,
+  type BinaryCandidate,
+  type BinarySearchOptions,
+  type BinarySearchResult,
+} from './binary-quantizer.js';
+
 // Compression management
 export {
   CompressionManager,
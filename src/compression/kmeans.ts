@@ -0,0 +1,218 @@
+/**
+ * Lloyd's k-means clustering with k-means++ or random seeding
+ *
+ * Shared by product quantization (one clustering per subspace) and the IVF
+ * index (one coarse clustering over whole vectors).
+ */
+
+export type KMeansInitMethod = 'random' | 'kmeans++';
+
+export interface KMeansOptions {
+  /** Centroid initialization method (default 'kmeans++') */
+  initMethod?: KMeansInitMethod;
+  /** Maximum Lloyd iterations (default 50) */
+  maxIterations?: number;
+  /** Stop once the relative distortion improvement falls below this (default 1e-6) */
+  convergenceThreshold?: number;
+  /** Uniform [0, 1) source used for seeding (default Math.random) */
+  random?: () => number;
+}
+
+export interface KMeansResult {
+  centroids: Float32Array[];
+  /** Index of the nearest centroid for each input vector */
+  assignments: number[];
+  iterations: number;
+  /** Sum of squared distances to the assigned centroids before the last update */
+  distortion: number;
+}
+
+/**
+ * Cluster `vectors` into `k` groups.
+ *
+ * A cluster that loses all of its members keeps a zero centroid, matching
+ * the behaviour product quantization codebooks were trained with.
+ */
+export function trainKMeans(
+  vectors: Float32Array[],
+  k: number,
+  options: KMeansOptions = {},
+): KMeansResult {
+  const {
+    initMethod = 'kmeans++',
+    maxIterations = 50,
+    convergenceThreshold = 1e-6,
+    random = Math.random,
+  } = options;
+
+  if (vectors.length < k) {
+    throw new Error(`Not enough training vectors (${vectors.length}) for ${k} centroids`);
+  }
+  const dimension = vectors[0]?.length ?? 0;
+
+  let centroids =
+    initMethod === 'kmeans++'
+      ? initializeCentroidsKMeansPlusPlus(vectors, k, random)
+      : initializeCentroidsRandom(vectors, k, random);
+  let assignments = new Array<number>(vectors.length).fill(0);
+  let prevDistortion = Infinity;
+  let iterations = 0;
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    // Assignment step: assign each vector to nearest centroid
+    const nextAssignments = new Array<number>(vectors.length);
+    let totalDistortion = 0;
+    for (let i = 0; i < vectors.length; i++) {
+      const { index, distance } = nearestCentroid(vectors[i]!, centroids);
+      nextAssignments[i] = index;
+      totalDistortion += distance * distance;
+    }
+    assignments = nextAssignments;
+
+    // Update step: compute new centroids
+    const newCentroids = updateCentroids(vectors, assignments, k, dimension);
+
+    // Check convergence
+    const improvement = (prevDistortion - totalDistortion) / prevDistortion;
+    centroids = newCentroids;
+    iterations = iter + 1;
+    if (improvement < convergenceThreshold) {
+      break;
+    }
+    prevDistortion = totalDistortion;
+  }
+
+  return { centroids, assignments, iterations, distortion: prevDistortion };
+}
+
+/**
+ * Index of, and Euclidean distance to, the centroid closest to `vector`
+ */
+export function nearestCentroid(
+  vector: Float32Array,
+  centroids: Float32Array[],
+): { index: number; distance: number } {
+  let index = 0;
+  let distance = Infinity;
+  for (const [j, centroid] of centroids.entries()) {
+    const candidate = euclideanDistance(vector, centroid);
+    if (candidate < distance) {
+      distance = candidate;
+      index = j;
+    }
+  }
+  return { index, distance };
+}
+
+/**
+ * Choose `k` initial centroids, each drawn with probability proportional to
+ * its squared distance from the centroids already chosen
+ */
+export function initializeCentroidsKMeansPlusPlus(
+  vectors: Float32Array[],
+  k: number,
+  random: () => number = Math.random,
+): Float32Array[] {
+  const centroids: Float32Array[] = [];
+
+  // Choose first centroid randomly
+  const firstVector = vectors[Math.floor(random() * vectors.length)];
+  if (!firstVector) {
+    throw new Error('No vectors available for k-means++ initialization');
+  }
+  centroids.push(new Float32Array(firstVector));
+
+  // Choose remaining centroids using k-means++ logic
+  for (let c = 1; c < k; c++) {
+    const distances = new Array<number>(vectors.length);
+    let totalWeight = 0;
+
+    // Calculate distance to nearest existing centroid
+    for (let i = 0; i < vectors.length; i++) {
+      const { distance } = nearestCentroid(vectors[i]!, centroids);
+      distances[i] = distance * distance;
+      totalWeight += distances[i]!;
+    }
+
+    // Choose next centroid with probability proportional to squared distance
+    let randomValue = random() * totalWeight;
+    for (let i = 0; i < vectors.length; i++) {
+      randomValue -= distances[i]!;
+      if (randomValue <= 0) {
+        centroids.push(new Float32Array(vectors[i]!));
+        break;
+      }
+    }
+  }
+
+  return centroids;
+}
+
+/**
+ * Choose `k` distinct input vectors at random as initial centroids
+ */
+export function initializeCentroidsRandom(
+  vectors: Float32Array[],
+  k: number,
+  random: () => number = Math.random,
+): Float32Array[] {
+  const centroids: Float32Array[] = [];
+  const usedIndices = new Set<number>();
+
+  while (centroids.length < k) {
+    const index = Math.floor(random() * vectors.length);
+    if (!usedIndices.has(index)) {
+      usedIndices.add(index);
+      centroids.push(new Float32Array(vectors[index]!));
+    }
+  }
+
+  return centroids;
+}
+
+/**
+ * Average the vectors assigned to each cluster
+ */
+function updateCentroids(
+  vectors: Float32Array[],
+  assignments: number[],
+  k: number,
+  dimension: number,
+): Float32Array[] {
+  const centroids = Array.from({ length: k }, () => new Float32Array(dimension));
+  const counts = new Array<number>(k).fill(0);
+
+  for (let i = 0; i < vectors.length; i++) {
+    const cluster = assignments[i]!;
+    const centroid = centroids[cluster]!;
+    const vector = vectors[i]!;
+    counts[cluster]!++;
+    for (let d = 0; d < dimension; d++) {
+      centroid[d]! += vector[d]!;
+    }
+  }
+
+  for (let i = 0; i < k; i++) {
+    const count = counts[i]!;
+    if (count > 0) {
+      const centroid = centroids[i]!;
+      for (let d = 0; d < dimension; d++) {
+        centroid[d]! /= count;
+      }
+    }
+  }
+
+  return centroids;
+}
+
+/**
+ * Euclidean distance between two vectors of equal length
+ */
+export function euclideanDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i]! - b[i]!;
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+}
@@ -15,8 +15,9 @@ import {
 } from './base-compressor.js';
 import { log } from '@/utilities/logger.js';
 import { calculateVectorStatistics } from './compression-utils.js';
+import { trainKMeans, type KMeansInitMethod } from './kmeans.js';
 
-export type PQInitMethod = 'random' | 'kmeans++';
+export type PQInitMethod = KMeansInitMethod;
 
 export interface PQConfig extends CompressionConfig {
   /** Number of subspaces (M) */
@@ -158,7 +159,6 @@ export class ProductQuantizer extends BaseCompressor {
     for (let m = 0; m < this.pqConfig.subspaces; m++) {
       const startDim = m * subspaceDim;
       const endDim = Math.min(startDim + subspaceDim, dimension);
-      const actualSubspaceDim = endDim - startDim;
 
       // Extract subvectors for this subspace
       const subvectors = vectors.map((vector) => vector.slice(startDim, endDim));
@@ -167,7 +167,6 @@ export class ProductQuantizer extends BaseCompressor {
       const { centroids: subspaceCentroids, stats } = await this.trainSubspaceKMeans(
         subvectors,
         this.pqConfig.centroidsPerSubspace,
-        actualSubspaceDim,
       );
 
       centroids.push(subspaceCentroids);
@@ -227,221 +226,22 @@ export class ProductQuantizer extends BaseCompressor {
   private async trainSubspaceKMeans(
     subvectors: Float32Array[],
     k: number,
-    dimension: number,
   ): Promise<{
     centroids: Float32Array[];
     stats: { iterations: number; distortion: number };
   }> {
-    if (subvectors.length < k) {
-      throw new Error(
-        `Not enough training vectors (${subvectors.length}) for ${k} centroids`,
-      );
-    }
-
-    // Initialize centroids
-    let centroids = this.initializeCentroids(subvectors, k, dimension);
-    let prevDistortion = Infinity;
-    let iterations = 0;
-
-    for (let iter = 0; iter < this.pqConfig.maxIterations; iter++) {
-      // Assignment step: assign each vector to nearest centroid
-      const assignments = new Array(subvectors.length);
-      let totalDistortion = 0;
-
-      for (let i = 0; i < subvectors.length; i++) {
-        let minDist = Infinity;
-        let bestCentroid = 0;
-
-        for (let j = 0; j < k; j++) {
-          const subvector = subvectors[i];
-          const centroid = centroids[j];
-          if (!subvector || !centroid) continue;
-          const dist = this.euclideanDistance(subvector, centroid);
-          if (dist < minDist) {
-            minDist = dist;
-            bestCentroid = j;
-          }
-        }
-
-        assignments[i] = bestCentroid;
-        totalDistortion += minDist * minDist;
-      }
-
-      // Update step: compute new centroids
-      const newCentroids = this.updateCentroids(subvectors, assignments, k, dimension);
-
-      // Check convergence
-      const improvement = (prevDistortion - totalDistortion) / prevDistortion;
-      if (improvement < this.pqConfig.convergenceThreshold) {
-        centroids = newCentroids;
-        iterations = iter + 1;
-        break;
-      }
-
-      centroids = newCentroids;
-      prevDistortion = totalDistortion;
-      iterations = iter + 1;
-    }
+    const { centroids, iterations, distortion } = trainKMeans(subvectors, k, {
+      initMethod: this.pqConfig.initMethod,
+      maxIterations: this.pqConfig.maxIterations,
+      convergenceThreshold: this.pqConfig.convergenceThreshold,
+    });
 
     return {
       centroids,
-      stats: {
-        iterations,
-        distortion: prevDistortion,
-      },
+      stats: { iterations, distortion },
     };
   }
 
-  /**
-   * Initialize centroids using specified method
-   */
-  private initializeCentroids(
-    vectors: Float32Array[],
-    k: number,
-    _dimension: number,
-  ): Float32Array[] {
-    if (this.pqConfig.initMethod === 'kmeans++') {
-      return this.initializeCentroidsKMeansPlusPlus(vectors, k, _dimension);
-    } else {
-      return this.initializeCentroidsRandom(vectors, k, _dimension);
-    }
-  }
-
-  /**
-   * Initialize centroids using k-means++ method
-   */
-  private initializeCentroidsKMeansPlusPlus(
-    vectors: Float32Array[],
-    k: number,
-    _dimension: number,
-  ): Float32Array[] {
-    const centroids: Float32Array[] = [];
-
-    // Choose first centroid randomly
-    const firstIndex = Math.floor(Math.random() * vectors.length);
-    const firstVector = vectors[firstIndex];
-    if (!firstVector) {
-      throw new Error('No vectors available for k-means++ initialization');
-    }
-    centroids.push(new Float32Array(firstVector));
-
-    // Choose remaining centroids using k-means++ logic
-    for (let c = 1; c < k; c++) {
-      const distances = new Array(vectors.length);
-      let totalWeight = 0;
-
-      // Calculate distance to nearest existing centroid
-      for (let i = 0; i < vectors.length; i++) {
-        let minDist = Infinity;
-        for (const centroid of centroids) {
-          const vector = vectors[i];
-          if (!vector) continue;
-          const dist = this.euclideanDistance(vector, centroid);
-          minDist = Math.min(minDist, dist);
-        }
-        distances[i] = minDist * minDist;
-        totalWeight += distances[i];
-      }
-
-      // Choose next centroid with probability proportional to squared distance
-      let randomValue = Math.random() * totalWeight;
-      for (let i = 0; i < vectors.length; i++) {
-        randomValue -= distances[i];
-        if (randomValue <= 0) {
-          const selectedVector = vectors[i];
-          if (selectedVector) {
-            centroids.push(new Float32Array(selectedVector));
-          }
-          break;
-        }
-      }
-    }
-
-    return centroids;
-  }
-
-  /**
-   * Initialize centroids randomly
-   */
-  private initializeCentroidsRandom(
-    vectors: Float32Array[],
-    k: number,
-    _dimension: number,
-  ): Float32Array[] {
-    const centroids: Float32Array[] = [];
-    const usedIndices = new Set<number>();
-
-    while (centroids.length < k) {
-      const index = Math.floor(Math.random() * vectors.length);
-      if (!usedIndices.has(index)) {
-        usedIndices.add(index);
-        const selectedVector = vectors[index];
-        if (selectedVector) {
-          centroids.push(new Float32Array(selectedVector));
-        }
-      }
-    }
-
-    return centroids;
-  }
-
-  /**
-   * Update centroids based on assignments
-   */
-  private updateCentroids(
-    vectors: Float32Array[],
-    assignments: number[],
-    k: number,
-    dimension: number,
-  ): Float32Array[] {
-    const centroids: Float32Array[] = [];
-    const counts = new Array(k).fill(0);
-
-    // Initialize centroids to zero
-    for (let i = 0; i < k; i++) {
-      centroids.push(new Float32Array(dimension));
-    }
-
-    // Accumulate vectors for each cluster
-    for (let i = 0; i < vectors.length; i++) {
-      const cluster = assignments[i];
-      if (cluster === undefined) continue;
-      counts[cluster]++;
-
-      const vector = vectors[i];
-      if (!vector) continue;
-
-      for (let d = 0; d < dimension; d++) {
-        const centroid = centroids[cluster];
-        const vectorValue = vector[d];
-        if (centroid && vectorValue !== undefined) {
-          const centroidValue = centroid[d];
-          if (centroidValue !== undefined) {
-            centroid[d] = centroidValue + vectorValue;
-          }
-        }
-      }
-    }
-
-    // Average to get new centroids
-    for (let i = 0; i < k; i++) {
-      const count = counts[i];
-      if (count && count > 0) {
-        const centroid = centroids[i];
-        if (centroid) {
-          for (let d = 0; d < dimension; d++) {
-            const centroidValue = centroid[d];
-            if (centroidValue !== undefined) {
-              centroid[d] = centroidValue / count;
-            }
-          }
-        }
-      }
-    }
-
-    return centroids;
-  }
-
   /**
    * Calculate Euclidean distance between two vectors
    */
@@ -804,6 +604,35 @@ export class ProductQuantizer extends BaseCompressor {
     return this.codebook ? { ...this.codebook } : null;
   }
 
+  /**
+   * Encode a vector to its PQ codes (one byte per subspace) without packing
+   * the codebook alongside, for callers that keep the codebook themselves
+   */
+  encode(vector: Float32Array): Uint8Array {
+    return this.encodeVector(vector);
+  }
+
+  /**
+   * Reconstruct an approximate vector from PQ codes produced by {@link encode}
+   */
+  decode(codes: Uint8Array, originalDimension: number): Float32Array {
+    return this.decodeVector(codes, originalDimension);
+  }
+
+  /**
+   * Restore a previously trained codebook
+   */
+  setCodebook(codebook: PQCodebook): void {
+    if (codebook.centroids.length !== this.pqConfig.subspaces) {
+      throw new Error(
+        `Codebook has ${codebook.centroids.length} subspaces, quantizer expects ${this.pqConfig.subspaces}`,
+      );
+    }
+    this.codebook = codebook;
+    this.pqConfig.centroidsPerSubspace = codebook.centroidsPerSubspace;
+    this.isTrained = true;
+  }
+
   /**
    * Check if codebook is trained
    */
@@ -132,6 +132,13 @@ export class ScalarQuantizer extends BaseCompressor {
     return this.decompressData(compressed.data);
   }
 
+  /**
+   * Decompress a bare compressed buffer, for callers that store only `data`
+   */
+  async decode(data: ArrayBuffer): Promise<Float32Array> {
+    return this.decompressData(data);
+  }
+
   /**
    * Calculate quantization bounds based on strategy
    */
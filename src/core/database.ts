@@ -1,15 +1,23 @@
+import {
+  metadataIndexKeyPath,
+  metadataIndexKind,
+  metadataIndexName,
+} from '@/search/metadata-index-planner.js';
 import { log } from '@/utilities/logger.js';
 import {
   BrowserSupportError,
   DatabaseInitializationError,
   TransactionError,
 } from './errors.js';
+import { InputValidator } from './input-validator.js';
 import type {
   DatabaseConfig,
   IndexedDatabaseInfo,
+  IndexedDatabaseObjectStore,
   IndexedDatabaseUpgradeDatabase,
   IndexedDatabaseTransaction,
   IndexedDatabaseTransactionMode,
+  MetadataIndexDefinition,
 } from './types.js';
 
 /**
@@ -20,6 +28,7 @@ export class VectorDatabase {
   private readonly name: string;
   private readonly version: number;
   private readonly onUpgrade: DatabaseConfig['onUpgrade'];
+  private readonly metadataIndexes: readonly MetadataIndexDefinition[];
   private initializationPromise: Promise<void> | null = null;
 
   /**
@@ -50,6 +59,24 @@ export class VectorDatabase {
     this.name = config.name;
     this.version = config.version || 1;
     this.onUpgrade = config.onUpgrade;
+    this.metadataIndexes = InputValidator.validateMetadataIndexes(config.metadataIndexes);
+  }
+
+  /**
+   * Name of the IndexedDB database
+   */
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * Metadata secondary indexes declared for the vectors store.
+   *
+   * Declared indexes only exist in the database once an upgrade has run with
+   * them configured; query planning checks `indexNames` before using one.
+   */
+  getMetadataIndexes(): readonly MetadataIndexDefinition[] {
+    return this.metadataIndexes;
   }
 
   /**
@@ -99,13 +126,25 @@ export class VectorDatabase {
       };
 
       request.onupgradeneeded = (event) => {
-        const database = (event.target as IDBOpenDBRequest).result;
+        const openRequest = event.target as IDBOpenDBRequest;
+        const database = openRequest.result;
         const upgradeDatabase = database as unknown as IndexedDatabaseUpgradeDatabase;
         if (this.onUpgrade) {
           this.onUpgrade(upgradeDatabase, event.oldVersion);
         } else {
           this.createSchema(upgradeDatabase, event.oldVersion);
         }
+
+        const upgradeTransaction =
+          openRequest.transaction as unknown as IndexedDatabaseTransaction | null;
+        if (
+          upgradeTransaction &&
+          upgradeDatabase.objectStoreNames.contains(VectorDatabase.STORES.VECTORS)
+        ) {
+          this.syncMetadataIndexes(
+            upgradeTransaction.objectStore(VectorDatabase.STORES.VECTORS),
+          );
+        }
       };
 
       request.onblocked = () => {
@@ -168,6 +207,40 @@ export class VectorDatabase {
     }
   }
 
+  /**
+   * Create declared metadata indexes that are missing from the vectors store,
+   * recreate those whose key path or `multiEntry` flag no longer match their
+   * definition, and drop metadata indexes that are no longer declared. Runs
+   * inside the versionchange transaction, the only place IndexedDB allows
+   * index changes.
+   */
+  private syncMetadataIndexes(store: IndexedDatabaseObjectStore): void {
+    const declared = new Set<string>();
+
+    for (const definition of this.metadataIndexes) {
+      const name = metadataIndexName(definition.field);
+      const keyPath = metadataIndexKeyPath(definition.field);
+      const multiEntry = metadataIndexKind(definition) === 'multiEntry';
+      declared.add(name);
+      if (store.indexNames.contains(name)) {
+        const index = store.index(name);
+        if (index.keyPath === keyPath && index.multiEntry === multiEntry) {
+          continue;
+        }
+        // A changed kind: lookups on the old index would miss matches
+        store.deleteIndex(name);
+      }
+      store.createIndex(name, keyPath, { unique: false, multiEntry });
+    }
+
+    const existing = Array.from(store.indexNames as unknown as Iterable<string>);
+    for (const name of existing) {
+      if (name.startsWith(metadataIndexName('')) && !declared.has(name)) {
+        store.deleteIndex(name);
+      }
+    }
+  }
+
   /**
    * Setup event handlers for the database connection
    */
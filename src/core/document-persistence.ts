@@ -0,0 +1,126 @@
+import { VectorDatabase } from './database.js';
+import { TransactionError } from './errors.js';
+import type { IndexedDatabaseRequest, StoredDocument } from './types.js';
+
+/** One document, in the database's `config` store */
+interface DocumentRecord {
+  key: string;
+  collection: string;
+  documentKey: string;
+  /** The document as JSON text, as every other adapter stores it */
+  text: string;
+}
+
+const DOCUMENT_PREFIX = 'document:';
+
+/**
+ * Keeps the JSON documents of an IndexedDB vector store.
+ *
+ * Documents share the `config` store with snapshot entries and codebooks,
+ * keyed `document:<collection>:<key>`; collection names cannot contain a
+ * colon, so the prefix of one collection never matches another's.
+ */
+export class DocumentPersistence {
+  private static readonly STORE_NAME = VectorDatabase.STORES.CONFIG;
+
+  constructor(private database: VectorDatabase) {}
+
+  async get(collection: string, key: string): Promise<string | null> {
+    const record = await this.database.executeTransaction(
+      DocumentPersistence.STORE_NAME,
+      'readonly',
+      async (transaction) => {
+        const store = transaction.objectStore(DocumentPersistence.STORE_NAME);
+        return this.request(
+          store.get<DocumentRecord>(DocumentPersistence.recordKey(collection, key)),
+          'get document',
+          `Failed to read document ${collection}/${key}`,
+        );
+      },
+    );
+    return record ? record.text : null;
+  }
+
+  async put(collection: string, key: string, text: string): Promise<void> {
+    await this.database.executeTransaction(
+      DocumentPersistence.STORE_NAME,
+      'readwrite',
+      async (transaction) => {
+        const store = transaction.objectStore(DocumentPersistence.STORE_NAME);
+        await this.request(
+          store.put<DocumentRecord>({
+            key: DocumentPersistence.recordKey(collection, key),
+            collection,
+            documentKey: key,
+            text,
+          }),
+          'put document',
+          `Failed to write document ${collection}/${key}`,
+        );
+      },
+    );
+  }
+
+  async delete(collection: string, key: string): Promise<boolean> {
+    return this.database.executeTransaction(
+      DocumentPersistence.STORE_NAME,
+      'readwrite',
+      async (transaction) => {
+        const store = transaction.objectStore(DocumentPersistence.STORE_NAME);
+        const recordKey = DocumentPersistence.recordKey(collection, key);
+        const existing = await this.request(
+          store.get<DocumentRecord>(recordKey),
+          'delete document',
+          `Failed to read document ${collection}/${key}`,
+        );
+        if (!existing) {
+          return false;
+        }
+        await this.request(
+          store.delete(recordKey),
+          'delete document',
+          `Failed to delete document ${collection}/${key}`,
+        );
+        return true;
+      },
+    );
+  }
+
+  /**
+   * Read one collection through a key range over its prefix, so the other
+   * entries of the `config` store are never loaded
+   */
+  async list(collection: string): Promise<Array<StoredDocument<string>>> {
+    const prefix = DocumentPersistence.recordKey(collection, '');
+    const records = await this.database.executeTransaction(
+      DocumentPersistence.STORE_NAME,
+      'readonly',
+      async (transaction) => {
+        const store = transaction.objectStore(DocumentPersistence.STORE_NAME);
+        return this.request(
+          store.getAll<DocumentRecord>(IDBKeyRange.bound(prefix, `${prefix}\uffff`)),
+          'list documents',
+          `Failed to read documents of ${collection}`,
+        );
+      },
+    );
+
+    return records.map((record) => ({ key: record.documentKey, document: record.text }));
+  }
+
+  private static recordKey(collection: string, key: string): string {
+    return `${DOCUMENT_PREFIX}${collection}:${key}`;
+  }
+
+  private request<T>(
+    request: IndexedDatabaseRequest<T>,
+    operation: string,
+    message: string,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () =>
+        reject(new TransactionError(operation, message, request.error || undefined));
+    });
+  }
+}
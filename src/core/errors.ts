@@ -10,6 +10,7 @@ export const ErrorCode = {
   DIMENSION_MISMATCH: 'DIMENSION_MISMATCH',
   VECTOR_NOT_FOUND: 'VECTOR_NOT_FOUND',
   INVALID_FORMAT: 'INVALID_FORMAT',
+  VERSION_CONFLICT: 'VERSION_CONFLICT',
   // ── Storage / quota errors ───────────────────────────────────────────────
   QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
   QUOTA_SAFETY_MARGIN: 'QUOTA_SAFETY_MARGIN',
@@ -21,14 +22,21 @@ export const ErrorCode = {
   NAMESPACE_EXISTS: 'NAMESPACE_EXISTS',
   NAMESPACE_NOT_FOUND: 'NAMESPACE_NOT_FOUND',
   NAMESPACE_DELETION_BLOCKED: 'NAMESPACE_DELETION_BLOCKED',
+  NAMESPACE_INCOMPATIBLE: 'NAMESPACE_INCOMPATIBLE',
+  // ── Snapshot errors ──────────────────────────────────────────────────────
+  SNAPSHOT_EXISTS: 'SNAPSHOT_EXISTS',
+  SNAPSHOT_NOT_FOUND: 'SNAPSHOT_NOT_FOUND',
   // ── Batch / index errors ─────────────────────────────────────────────────
   BATCH_OPERATION_FAILED: 'BATCH_OPERATION_FAILED',
   INDEX_ERROR: 'INDEX_ERROR',
   // ── Search errors ────────────────────────────────────────────────────────
   SEARCH_ABORTED: 'SEARCH_ABORTED',
   SEARCH_TIMEOUT: 'SEARCH_TIMEOUT',
+  // ── Change feed errors ───────────────────────────────────────────────────
+  CHANGE_CURSOR_EXPIRED: 'CHANGE_CURSOR_EXPIRED',
   // ── Environment errors ───────────────────────────────────────────────────
   BROWSER_NOT_SUPPORTED: 'BROWSER_NOT_SUPPORTED',
+  UNSUPPORTED_CAPABILITY: 'UNSUPPORTED_CAPABILITY',
   // ── Catch-all ────────────────────────────────────────────────────────────
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 } as const;
@@ -52,6 +60,9 @@ const RECOVERY_GUIDANCE: Partial<Record<ErrorCodeValue, string>> = {
   INVALID_FORMAT:
     'Pass a Float32Array, Float64Array, Int8Array, Uint8Array, or plain number[] as ' +
     'the vector value.',
+  VERSION_CONFLICT:
+    'Another writer changed this vector since you read it. Read it again with ' +
+    '`getVector()`, reapply your change, and retry with the new `version`.',
   QUOTA_EXCEEDED:
     'Free storage space by deleting unused vectors or namespaces, increase the quota ' +
     'if your environment allows it, or enable an eviction policy (LRU / LFU / TTL) ' +
@@ -70,6 +81,18 @@ const RECOVERY_GUIDANCE: Partial<Record<ErrorCodeValue, string>> = {
   NAMESPACE_NOT_FOUND:
     'Call `createNamespace()` before operating on a namespace, or list available ' +
     'namespaces with `listNamespaces()` to verify the name.',
+  NAMESPACE_DELETION_BLOCKED:
+    'Point the aliases listed in `error.aliases` at another namespace with ' +
+    '`swapAlias()` or remove them with `deleteAlias()`. Without aliases, close ' +
+    'other tabs or connections holding the namespace open and retry.',
+  NAMESPACE_INCOMPATIBLE:
+    'Search namespaces whose dimension matches the query vector, and whose metric ' +
+    'matches `distanceMetric` when you pass one. Narrow the pattern or name list.',
+  SNAPSHOT_EXISTS:
+    'Choose a different label, or call `deleteSnapshot()` first if you mean to ' +
+    'replace the earlier snapshot.',
+  SNAPSHOT_NOT_FOUND:
+    'List the available snapshots with `listSnapshots()` to verify the label.',
   BATCH_OPERATION_FAILED:
     'Inspect `error.errors` for per-item failure details. Items that succeeded were ' +
     'committed; only the failed items need to be retried.',
@@ -77,9 +100,16 @@ const RECOVERY_GUIDANCE: Partial<Record<ErrorCodeValue, string>> = {
     'The HNSW index encountered an internal inconsistency. Try rebuilding the index ' +
     'with `rebuildIndex()`. If the error recurs, file a bug with the operation name ' +
     'and index type from `error.context`.',
+  CHANGE_CURSOR_EXPIRED:
+    'The changes after this cursor are no longer retained. Rebuild derived state ' +
+    'from `getAllVectors()`, then call `watch()` without `after` to follow new changes.',
   BROWSER_NOT_SUPPORTED:
     'This feature requires a modern browser. Check the MDN compatibility table for ' +
     'the feature named in `error.feature` and upgrade or use a polyfill.',
+  UNSUPPORTED_CAPABILITY:
+    'The storage adapter cannot guarantee what this operation needs. Check ' +
+    '`adapter.capabilities` and switch to an adapter that declares the capability ' +
+    'named in `error.capability`, such as IndexedDB or SQLite for transactions.',
 };
 
 /**
@@ -304,6 +334,35 @@ export class VectorNotFoundError extends VectorDatabaseError {
   }
 }
 
+/**
+ * Thrown when a conditional write finds the stored record at a different
+ * version than expected; `null` stands for no stored record
+ */
+export class VersionConflictError extends VectorDatabaseError {
+  public readonly vectorId: string;
+  public readonly expectedVersion: number | null;
+  public readonly actualVersion: number | null;
+
+  constructor(
+    vectorId: string,
+    expectedVersion: number | null,
+    actualVersion: number | null,
+  ) {
+    super(
+      actualVersion === null
+        ? `Vector '${vectorId}' does not exist, expected version ${expectedVersion}`
+        : expectedVersion === null
+          ? `Vector '${vectorId}' already exists at version ${actualVersion}`
+          : `Vector '${vectorId}' is at version ${actualVersion}, expected version ${expectedVersion}`,
+      'VERSION_CONFLICT',
+      { vectorId, expectedVersion, actualVersion },
+    );
+    this.vectorId = vectorId;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
 /**
  * Thrown when an invalid vector format is provided
  */
@@ -346,6 +405,30 @@ export class NamespaceNotFoundError extends VectorDatabaseError {
   }
 }
 
+/**
+ * Thrown when a snapshot label is already taken
+ */
+export class SnapshotExistsError extends VectorDatabaseError {
+  public readonly label: string;
+
+  constructor(label: string) {
+    super(`Snapshot '${label}' already exists`, 'SNAPSHOT_EXISTS', { label });
+    this.label = label;
+  }
+}
+
+/**
+ * Thrown when no snapshot has the given label
+ */
+export class SnapshotNotFoundError extends VectorDatabaseError {
+  public readonly label: string;
+
+  constructor(label: string) {
+    super(`Snapshot '${label}' not found`, 'SNAPSHOT_NOT_FOUND', { label });
+    this.label = label;
+  }
+}
+
 /**
  * Thrown when database initialization fails
  */
@@ -420,15 +503,39 @@ export class IndexError extends VectorDatabaseError {
 }
 
 /**
- * Thrown when IndexedDB namespace deletion is blocked by an open connection
+ * Thrown when namespace deletion is blocked, either by an open IndexedDB
+ * connection or by aliases that still point at the namespace
  */
 export class NamespaceDeletionBlockedError extends VectorDatabaseError {
   public readonly namespace: string;
+  /** Aliases targeting the namespace; empty when a connection blocked it */
+  public readonly aliases: string[];
 
-  constructor(namespace: string) {
+  constructor(namespace: string, aliases: readonly string[] = []) {
     super(
-      `Deletion of namespace '${namespace}' was blocked by an open connection`,
+      aliases.length > 0
+        ? `Deletion of namespace '${namespace}' was blocked by aliases still ` +
+            `pointing at it: ${aliases.map((alias) => `'${alias}'`).join(', ')}`
+        : `Deletion of namespace '${namespace}' was blocked by an open connection`,
       'NAMESPACE_DELETION_BLOCKED',
+      { namespace, aliases },
+    );
+    this.namespace = namespace;
+    this.aliases = [...aliases];
+  }
+}
+
+/**
+ * Reported by `VectorFrankl.searchAcross()` for a namespace whose dimension
+ * or distance metric the query cannot be run against
+ */
+export class NamespaceIncompatibleError extends VectorDatabaseError {
+  public readonly namespace: string;
+
+  constructor(namespace: string, reason: string) {
+    super(
+      `Namespace '${namespace}' cannot be searched with this query: ${reason}`,
+      'NAMESPACE_INCOMPATIBLE',
       { namespace },
     );
     this.namespace = namespace;
@@ -511,6 +618,25 @@ export class BrowserSupportError extends VectorDatabaseError {
   }
 }
 
+/**
+ * Thrown when an operation needs a guarantee the storage adapter does not
+ * declare in its `capabilities`
+ */
+export class UnsupportedCapabilityError extends VectorDatabaseError {
+  public readonly capability: string;
+  public readonly adapter: string;
+
+  constructor(capability: string, adapter: string, operation: string) {
+    super(
+      `${operation} requires the '${capability}' capability, which ${adapter} does not provide`,
+      'UNSUPPORTED_CAPABILITY',
+      { capability, adapter, operation },
+    );
+    this.capability = capability;
+    this.adapter = adapter;
+  }
+}
+
 /**
  * Thrown when a search operation is aborted via an AbortSignal
  */
@@ -535,6 +661,25 @@ export class SearchTimeoutError extends VectorDatabaseError {
   }
 }
 
+/**
+ * Thrown when `watch({ after })` names a cursor older than the retained
+ * change log, so changes since then can no longer be replayed
+ */
+export class ChangeCursorExpiredError extends VectorDatabaseError {
+  public readonly cursor: number;
+  public readonly oldestCursor: number;
+
+  constructor(cursor: number, oldestCursor: number) {
+    super(
+      `Change cursor ${cursor} has expired; the oldest retained change is ${oldestCursor}`,
+      'CHANGE_CURSOR_EXPIRED',
+      { cursor, oldestCursor },
+    );
+    this.cursor = cursor;
+    this.oldestCursor = oldestCursor;
+  }
+}
+
 /**
  * Type guard to check if an error is a VectorDatabaseError
  */
@@ -2,7 +2,12 @@
  * Input validation utilities for vector database operations
  */
 
-import type { DistanceMetric } from './types.js';
+import type {
+  DistanceMetric,
+  MetadataIndexDefinition,
+  MetadataIndexKind,
+  VectorColumns,
+} from './types.js';
 
 export interface ValidationOptions {
   /** Maximum allowed string length */
@@ -224,6 +229,53 @@ export class InputValidator {
     return validatedMetadata;
   }
 
+  /**
+   * Validate metadata secondary index declarations.
+   *
+   * Field names must be plain identifiers: IndexedDB key paths treat dots as
+   * nesting, whereas metadata filters treat a dotted key as a literal field.
+   */
+  static validateMetadataIndexes(indexes: unknown): MetadataIndexDefinition[] {
+    if (indexes === undefined) {
+      return [];
+    }
+
+    if (!Array.isArray(indexes)) {
+      throw new Error('Metadata indexes must be an array');
+    }
+
+    const validKinds = new Set(['equality', 'range', 'multiEntry']);
+    const fieldPattern = /^[A-Za-z_$][\w$]*$/;
+    const seen = new Set<string>();
+
+    return indexes.map((index: unknown) => {
+      if (typeof index !== 'object' || index === null || Array.isArray(index)) {
+        throw new Error('Metadata index definition must be an object');
+      }
+
+      const { field, kind } = index as Record<string, unknown>;
+
+      if (typeof field !== 'string' || !fieldPattern.test(field) || field.length > 64) {
+        throw new Error(
+          'Metadata index field must be an identifier of at most 64 characters',
+        );
+      }
+
+      if (kind !== undefined && (typeof kind !== 'string' || !validKinds.has(kind))) {
+        throw new Error(
+          `Metadata index kind must be one of: ${[...validKinds].join(', ')}`,
+        );
+      }
+
+      if (seen.has(field)) {
+        throw new Error(`Duplicate metadata index field: ${field}`);
+      }
+      seen.add(field);
+
+      return kind === undefined ? { field } : { field, kind: kind as MetadataIndexKind };
+    });
+  }
+
   /**
    * Validate an array of vector IDs
    */
@@ -289,6 +341,92 @@ export class InputValidator {
     });
   }
 
+  /**
+   * Validate columnar vector input for `addColumns()`.
+   *
+   * Each column is checked in one pass: ids are valid and unique, the
+   * vector buffer holds `ids.length × dimension` finite values, and every
+   * metadata column has one valid value per row. Metadata columns count as
+   * metadata properties, not as arrays, so they may be longer than
+   * `maxArrayLength`.
+   */
+  static validateVectorColumns(
+    columns: unknown,
+    dimension: number,
+    options: ValidationOptions = {},
+  ): VectorColumns {
+    const opts = { ...this.DEFAULT_OPTIONS, ...options };
+
+    if (typeof columns !== 'object' || columns === null) {
+      throw new Error('Columns must be an object');
+    }
+
+    const { ids, vectors, metadata } = columns as Record<string, unknown>;
+
+    if (!Array.isArray(ids)) {
+      throw new Error('Id column must be an array');
+    }
+
+    const seen = new Set<string>();
+    for (const id of ids) {
+      const validatedId = this.validateVectorId(id);
+      if (seen.has(validatedId)) {
+        throw new Error(`Duplicate vector ID found: ${validatedId}`);
+      }
+      seen.add(validatedId);
+    }
+
+    if (!(vectors instanceof Float32Array)) {
+      throw new Error('Vector column must be a Float32Array');
+    }
+
+    if (vectors.length !== ids.length * dimension) {
+      throw new Error(
+        `Vector column must hold ${ids.length} × ${dimension} values, got ${vectors.length}`,
+      );
+    }
+
+    for (let i = 0; i < vectors.length; i++) {
+      if (!isFinite(vectors[i]!)) {
+        throw new Error(
+          `Vector column contains a non-finite value in row ${Math.floor(i / dimension)}`,
+        );
+      }
+    }
+
+    if (metadata === undefined) {
+      return { ids, vectors };
+    }
+
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      throw new Error('Metadata columns must be an object');
+    }
+
+    const metadataColumns = metadata as Record<string, unknown>;
+    const columnCount = Object.keys(metadataColumns).length;
+    if (columnCount > opts.maxObjectProperties) {
+      throw new Error(
+        `Metadata cannot have more than ${opts.maxObjectProperties} columns`,
+      );
+    }
+
+    for (const [key, column] of Object.entries(metadataColumns)) {
+      this.validateMetadataKey(key);
+
+      if (!Array.isArray(column) || column.length !== ids.length) {
+        throw new Error(
+          `Metadata column '${key}' must be an array with one value per row`,
+        );
+      }
+
+      for (const value of column) {
+        this.validateValue(value, opts, 1);
+      }
+    }
+
+    return { ids, vectors, metadata: metadataColumns as Record<string, unknown[]> };
+  }
+
   /**
    * Validate database name
    */
@@ -343,6 +481,56 @@ export class InputValidator {
     return namespace;
   }
 
+  /**
+   * Validate snapshot label. Adapters use labels in file and database names,
+   * so they are limited to characters safe in both.
+   */
+  static validateSnapshotLabel(label: unknown): string {
+    if (typeof label !== 'string') {
+      throw new Error('Snapshot label must be a string');
+    }
+
+    if (label.length === 0) {
+      throw new Error('Snapshot label cannot be empty');
+    }
+
+    if (label.length > 64) {
+      throw new Error('Snapshot label cannot exceed 64 characters');
+    }
+
+    const validPattern = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/;
+    if (!validPattern.test(label)) {
+      throw new Error(
+        'Snapshot label must start with a letter or number and contain only letters, numbers, underscores, and hyphens',
+      );
+    }
+
+    return label;
+  }
+
+  /**
+   * Validate a document collection name. Adapters use collection names in
+   * file names, keys and table rows, so they follow the snapshot label rules.
+   */
+  static validateDocumentCollection(collection: unknown): string {
+    if (typeof collection !== 'string') {
+      throw new Error('Document collection must be a string');
+    }
+
+    if (collection.length === 0 || collection.length > 64) {
+      throw new Error('Document collection must be between 1 and 64 characters');
+    }
+
+    const validPattern = /^[a-zA-Z0-9_-]+$/;
+    if (!validPattern.test(collection)) {
+      throw new Error(
+        'Document collection must contain only letters, numbers, underscores, and hyphens',
+      );
+    }
+
+    return collection;
+  }
+
   /**
    * Recursively validate object structure
    */
@@ -356,25 +544,31 @@ export class InputValidator {
     }
 
     for (const [key, value] of Object.entries(obj)) {
-      // Validate key
-      if (typeof key !== 'string') {
-        throw new Error('Metadata keys must be strings');
-      }
-
-      if (key.length > 100) {
-        throw new Error('Metadata keys cannot exceed 100 characters');
-      }
-
-      // Check for dangerous key patterns
-      if (key.startsWith('__') || key.includes('..') || key.includes('/')) {
-        throw new Error(`Invalid metadata key: ${key}`);
-      }
+      this.validateMetadataKey(key);
 
       // Validate value
       this.validateValue(value, options, currentDepth + 1);
     }
   }
 
+  /**
+   * Validate a metadata property name
+   */
+  private static validateMetadataKey(key: string): void {
+    if (typeof key !== 'string') {
+      throw new Error('Metadata keys must be strings');
+    }
+
+    if (key.length > 100) {
+      throw new Error('Metadata keys cannot exceed 100 characters');
+    }
+
+    // Check for dangerous key patterns
+    if (key.startsWith('__') || key.includes('..') || key.includes('/')) {
+      throw new Error(`Invalid metadata key: ${key}`);
+    }
+  }
+
   /**
    * Validate individual value
    */
@@ -0,0 +1,248 @@
+import { VectorDatabase } from './database.js';
+import {
+  SnapshotExistsError,
+  SnapshotNotFoundError,
+  StorageCorruptionError,
+  TransactionError,
+} from './errors.js';
+import type { IndexedDatabaseRequest, SnapshotInfo, VectorData } from './types.js';
+
+/** Registry entry for one snapshot, in the source database's `config` store */
+interface SnapshotRecord {
+  key: string;
+  info: SnapshotInfo;
+}
+
+/** The caller's attachment, in the snapshot database's `config` store */
+interface AttachmentRecord {
+  key: string;
+  attachment: Uint8Array;
+}
+
+const REGISTRY_PREFIX = 'snapshot:';
+const ATTACHMENT_KEY = 'snapshot-attachment';
+
+/**
+ * Keeps point-in-time copies of an IndexedDB vector store.
+ *
+ * Each snapshot is a sibling database, `<name>--snapshot--<label>`, holding a
+ * copy of the vectors store and the caller's attachment. The source
+ * database's `config` store lists them; an entry is written only once its
+ * copy is complete.
+ */
+export class SnapshotPersistence {
+  private static readonly STORE_NAME = VectorDatabase.STORES.CONFIG;
+
+  constructor(private database: VectorDatabase) {}
+
+  async create(
+    label: string,
+    vectors: VectorData[],
+    attachment: Uint8Array,
+  ): Promise<SnapshotInfo> {
+    if (await this.find(label)) {
+      throw new SnapshotExistsError(label);
+    }
+
+    const info: SnapshotInfo = {
+      label,
+      createdAt: Date.now(),
+      vectorCount: vectors.length,
+    };
+    const snapshot = this.open(label);
+    try {
+      await snapshot.executeTransaction(
+        [VectorDatabase.STORES.VECTORS, VectorDatabase.STORES.CONFIG],
+        'readwrite',
+        async (transaction) => {
+          const vectorStore = transaction.objectStore(VectorDatabase.STORES.VECTORS);
+          // An interrupted earlier copy under this label may have left records
+          const writes = [
+            this.request(
+              vectorStore.clear(),
+              'create snapshot',
+              `Failed to copy ${label}`,
+            ),
+            ...vectors.map((vectorData) =>
+              this.request(
+                vectorStore.put(vectorData),
+                'create snapshot',
+                `Failed to copy vector ${vectorData.id} into snapshot ${label}`,
+              ),
+            ),
+            this.request(
+              transaction
+                .objectStore(VectorDatabase.STORES.CONFIG)
+                .put<AttachmentRecord>({ key: ATTACHMENT_KEY, attachment }),
+              'create snapshot',
+              `Failed to store the attachment of snapshot ${label}`,
+            ),
+          ];
+          await Promise.all(writes);
+        },
+      );
+    } finally {
+      await snapshot.close();
+    }
+
+    await this.database.executeTransaction(
+      SnapshotPersistence.STORE_NAME,
+      'readwrite',
+      async (transaction) => {
+        const store = transaction.objectStore(SnapshotPersistence.STORE_NAME);
+        await this.request(
+          store.put<SnapshotRecord>({ key: `${REGISTRY_PREFIX}${label}`, info }),
+          'create snapshot',
+          `Failed to register snapshot ${label}`,
+        );
+      },
+    );
+    return info;
+  }
+
+  async list(): Promise<SnapshotInfo[]> {
+    const records = await this.database.executeTransaction(
+      SnapshotPersistence.STORE_NAME,
+      'readonly',
+      async (transaction) => {
+        const store = transaction.objectStore(SnapshotPersistence.STORE_NAME);
+        return this.request(
+          store.getAll<{ key: string }>(),
+          'list snapshots',
+          'Failed to read the snapshot registry',
+        );
+      },
+    );
+
+    return records
+      .filter((record): record is SnapshotRecord =>
+        record.key.startsWith(REGISTRY_PREFIX),
+      )
+      .map(({ info }) => info)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Replace the source database's vectors with the snapshot's in one
+   * transaction and return the attachment, once `check` accepts it.
+   */
+  async restore(
+    label: string,
+    check?: (attachment: Uint8Array) => void,
+  ): Promise<Uint8Array> {
+    if (!(await this.find(label))) {
+      throw new SnapshotNotFoundError(label);
+    }
+
+    const snapshot = this.open(label);
+    let contents: { vectors: VectorData[]; attachment: Uint8Array | undefined };
+    try {
+      contents = await snapshot.executeTransaction(
+        [VectorDatabase.STORES.VECTORS, VectorDatabase.STORES.CONFIG],
+        'readonly',
+        async (transaction) => {
+          const [vectors, record] = await Promise.all([
+            this.request(
+              transaction.objectStore(VectorDatabase.STORES.VECTORS).getAll<VectorData>(),
+              'restore snapshot',
+              `Failed to read snapshot ${label}`,
+            ),
+            this.request(
+              transaction
+                .objectStore(VectorDatabase.STORES.CONFIG)
+                .get<AttachmentRecord>(ATTACHMENT_KEY),
+              'restore snapshot',
+              `Failed to read the attachment of snapshot ${label}`,
+            ),
+          ]);
+          return { vectors, attachment: record?.attachment };
+        },
+      );
+    } finally {
+      await snapshot.close();
+    }
+    // The attachment is written with the copy, so without it there is no copy
+    const { vectors, attachment } = contents;
+    if (!attachment) {
+      throw new StorageCorruptionError(`snapshot '${label}' has no stored copy`);
+    }
+    check?.(attachment);
+
+    await this.database.executeTransaction(
+      VectorDatabase.STORES.VECTORS,
+      'readwrite',
+      async (transaction) => {
+        const store = transaction.objectStore(VectorDatabase.STORES.VECTORS);
+        await Promise.all([
+          this.request(store.clear(), 'restore snapshot', 'Failed to clear vectors'),
+          ...vectors.map((vectorData) =>
+            this.request(
+              store.put(vectorData),
+              'restore snapshot',
+              `Failed to restore vector ${vectorData.id}`,
+            ),
+          ),
+        ]);
+      },
+    );
+    return attachment;
+  }
+
+  async delete(label: string): Promise<boolean> {
+    if (!(await this.find(label))) {
+      return false;
+    }
+
+    await this.database.executeTransaction(
+      SnapshotPersistence.STORE_NAME,
+      'readwrite',
+      async (transaction) => {
+        const store = transaction.objectStore(SnapshotPersistence.STORE_NAME);
+        await this.request(
+          store.delete(`${REGISTRY_PREFIX}${label}`),
+          'delete snapshot',
+          `Failed to unregister snapshot ${label}`,
+        );
+      },
+    );
+    await this.open(label).delete();
+    return true;
+  }
+
+  async deleteAll(): Promise<void> {
+    for (const { label } of await this.list()) {
+      await this.delete(label);
+    }
+  }
+
+  private async find(label: string): Promise<SnapshotRecord | undefined> {
+    return this.database.executeTransaction(
+      SnapshotPersistence.STORE_NAME,
+      'readonly',
+      async (transaction) => {
+        const store = transaction.objectStore(SnapshotPersistence.STORE_NAME);
+        return this.request(
+          store.get<SnapshotRecord>(`${REGISTRY_PREFIX}${label}`),
+          'find snapshot',
+          `Failed to look up snapshot ${label}`,
+        );
+      },
+    );
+  }
+
+  private open(label: string): VectorDatabase {
+    return new VectorDatabase({ name: `${this.database.getName()}--snapshot--${label}` });
+  }
+
+  private request<T>(
+    request: IndexedDatabaseRequest<T>,
+    operation: string,
+    message: string,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () =>
+        reject(new TransactionError(operation, message, request.error || undefined));
+    });
+  }
+}
@@ -1,16 +1,40 @@
 import { log } from '@/utilities/logger.js';
 import { BATCH_MEMORY_LIMIT_BYTES } from '@/performance/execution-thresholds.js';
 import { splitByMemoryBudget } from '@/performance/memory-guard.js';
+import {
+  planMetadataIndexQuery,
+  type MetadataIndexPlan,
+} from '@/search/metadata-index-planner.js';
+import {
+  INDEXED_DATABASE_ADAPTER_CAPABILITIES,
+  type AdapterCapabilities,
+} from '@/storage/adapters/adapter-capabilities.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  sortDocuments,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from '@/storage/adapters/documents.js';
+import { detachVector } from '@/storage/adapters/serialization.js';
+import { nextVersion, storedVersion } from '@/storage/adapters/versioning.js';
 import { VectorDatabase } from './database.js';
+import { DocumentPersistence } from './document-persistence.js';
 import { BatchOperationError, TransactionError, VectorNotFoundError } from './errors.js';
+import { SnapshotPersistence } from './snapshot-persistence.js';
 import type {
   BatchOptions,
   BatchProgress,
   IndexedDatabaseObjectStore,
+  MetadataFilter,
   ScanCapabilities,
   ScanOptions,
+  SnapshotInfo,
   StorageAdapter,
+  StoredDocument,
+  TransactionOperation,
   VectorData,
+  WriteCondition,
 } from './types.js';
 
 // Default batch size constant
@@ -20,7 +44,26 @@ const DEFAULT_BATCH_SIZE = 1000;
  * Storage operations for vectors
  */
 export class VectorStorage implements StorageAdapter {
-  constructor(private database: VectorDatabase) {}
+  private readonly snapshots: SnapshotPersistence;
+  private readonly documents: DocumentPersistence;
+
+  constructor(private database: VectorDatabase) {
+    this.snapshots = new SnapshotPersistence(database);
+    this.documents = new DocumentPersistence(database);
+  }
+
+  /**
+   * Capabilities reported to the search engine.
+   *
+   * `metadataIndexing` is only claimed when the database declares metadata
+   * indexes; otherwise filtered search keeps using the streaming fallback.
+   */
+  get capabilities(): AdapterCapabilities {
+    return {
+      ...INDEXED_DATABASE_ADAPTER_CAPABILITIES,
+      metadataIndexing: this.database.getMetadataIndexes().length > 0,
+    };
+  }
 
   /**
    * Initialize the underlying database connection
@@ -37,27 +80,31 @@ export class VectorStorage implements StorageAdapter {
   }
 
   /**
-   * Permanently delete the underlying database
+   * Permanently delete the underlying database and its snapshots
    */
   async destroy(): Promise<void> {
+    await this.snapshots.deleteAll();
     await this.database.delete();
   }
 
   /**
    * Store a single vector
    */
-  async put(vector: VectorData): Promise<void> {
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
     await this.database.executeTransaction(
       VectorDatabase.STORES.VECTORS,
       'readwrite',
       async (transaction) => {
         const store = transaction.objectStore(VectorDatabase.STORES.VECTORS);
+        const existing = await this.getVectorFromStore(store, vector.id);
 
-        // Update timestamp
+        // Update timestamp and version
         const vectorToStore = {
           ...vector,
+          vector: detachVector(vector.vector),
           timestamp: vector.timestamp || Date.now(),
           lastAccessed: Date.now(),
+          version: nextVersion(vector.id, storedVersion(existing), condition),
         };
 
         return new Promise<void>((resolve, reject) => {
@@ -436,6 +483,100 @@ export class VectorStorage implements StorageAdapter {
     }
   }
 
+  /**
+   * Return vectors whose metadata satisfies `predicate`.
+   *
+   * When `filter` has a conjunct on a declared metadata index, candidates are
+   * read through that index and then re-checked with `predicate`. Otherwise
+   * (or when the index has not been created yet) the store is streamed with
+   * `scan()` so at most one page is held in memory besides the matches.
+   */
+  async filteredScan(
+    predicate: (metadata: Record<string, unknown>) => boolean,
+    filter?: MetadataFilter,
+  ): Promise<VectorData[]> {
+    const plan = filter
+      ? planMetadataIndexQuery(filter, this.database.getMetadataIndexes())
+      : null;
+
+    if (plan) {
+      const candidates = await this.readIndexPlan(plan);
+      if (candidates) {
+        return candidates.filter((vector) => predicate(vector.metadata ?? {}));
+      }
+      log.debug('Metadata index missing from store, falling back to scan', {
+        index: plan.indexName,
+      });
+    }
+
+    const results: VectorData[] = [];
+    for await (const vector of this.scan()) {
+      if (predicate(vector.metadata ?? {})) {
+        results.push(vector);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Read the candidates selected by an index plan in a single readonly
+   * transaction. Resolves to `null` when the index does not exist.
+   */
+  private async readIndexPlan(plan: MetadataIndexPlan): Promise<VectorData[] | null> {
+    return this.database.executeTransaction(
+      VectorDatabase.STORES.VECTORS,
+      'readonly',
+      async (transaction) => {
+        const store = transaction.objectStore(VectorDatabase.STORES.VECTORS);
+        if (!store.indexNames.contains(plan.indexName)) {
+          return null;
+        }
+        const index = store.index(plan.indexName);
+
+        const queries: unknown[] =
+          plan.type === 'values' ? plan.values : [this.createKeyRange(plan)];
+
+        const pages = await Promise.all(
+          queries.map(
+            (query) =>
+              new Promise<VectorData[]>((resolve, reject) => {
+                const request = index.getAll<VectorData>(query);
+
+                request.onsuccess = () => resolve(request.result ?? []);
+                request.onerror = () =>
+                  reject(
+                    new TransactionError(
+                      'index lookup',
+                      `Failed to read metadata index "${plan.indexName}"`,
+                      request.error ?? undefined,
+                    ),
+                  );
+              }),
+          ),
+        );
+
+        // multiEntry indexes and `$in` lookups can return a record more than once.
+        const unique = new Map<string, VectorData>();
+        for (const page of pages) {
+          for (const vector of page) {
+            unique.set(vector.id, vector);
+          }
+        }
+        return [...unique.values()];
+      },
+    );
+  }
+
+  private createKeyRange(plan: Extract<MetadataIndexPlan, { type: 'range' }>): unknown {
+    if (plan.lower !== undefined && plan.upper !== undefined) {
+      return IDBKeyRange.bound(plan.lower, plan.upper, plan.lowerOpen, plan.upperOpen);
+    }
+    if (plan.lower !== undefined) {
+      return IDBKeyRange.lowerBound(plan.lower, plan.lowerOpen);
+    }
+    return IDBKeyRange.upperBound(plan.upper, plan.upperOpen);
+  }
+
   /**
    * Fetch one page of vectors starting after `afterKey` (exclusive).
    * Opens a fresh readonly transaction so the cursor does not span `await`.
@@ -506,6 +647,129 @@ export class VectorStorage implements StorageAdapter {
     );
   }
 
+  /**
+   * Apply puts and deletes in a single IndexedDB `readwrite` transaction.
+   * The first failed request aborts the transaction, rolling back every
+   * write in it.
+   */
+  async commitTransaction(operations: TransactionOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    await this.database.executeTransaction(
+      VectorDatabase.STORES.VECTORS,
+      'readwrite',
+      async (transaction) => {
+        const store = transaction.objectStore(VectorDatabase.STORES.VECTORS);
+
+        await Promise.all(
+          operations.map(async (operation) => {
+            const id = operation.type === 'put' ? operation.vector.id : operation.id;
+            const existing =
+              operation.type === 'put' ? await this.getVectorFromStore(store, id) : null;
+
+            return new Promise<void>((resolve, reject) => {
+              const request =
+                operation.type === 'put'
+                  ? store.put({
+                      ...operation.vector,
+                      timestamp: operation.vector.timestamp || Date.now(),
+                      lastAccessed: Date.now(),
+                      version: nextVersion(id, storedVersion(existing)),
+                    })
+                  : store.delete(id);
+
+              request.onsuccess = () => resolve();
+              request.onerror = () =>
+                reject(
+                  new TransactionError(
+                    `${operation.type} vector`,
+                    `Failed to ${operation.type} vector in transaction: ${id}`,
+                    request.error || undefined,
+                  ),
+                );
+            });
+          }),
+        );
+      },
+    );
+  }
+
+  /**
+   * Copy every vector into a sibling database. The vectors are read in one
+   * transaction, so the copy is consistent, and held in memory while written.
+   */
+  async createSnapshot(label: string, attachment: Uint8Array): Promise<SnapshotInfo> {
+    const vectors = await this.getAll();
+    return this.snapshots.create(label, vectors, attachment);
+  }
+
+  /**
+   * List the snapshots of this database, oldest first
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return this.snapshots.list();
+  }
+
+  /**
+   * Replace every vector with a snapshot's in one transaction
+   */
+  async restoreSnapshot(
+    label: string,
+    check?: (attachment: Uint8Array) => void,
+  ): Promise<Uint8Array> {
+    return this.snapshots.restore(label, check);
+  }
+
+  /**
+   * Delete a snapshot's database
+   */
+  async deleteSnapshot(label: string): Promise<boolean> {
+    return this.snapshots.delete(label);
+  }
+
+  /**
+   * Read a document from the `config` store
+   */
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    const text = await this.documents.get(collection, key);
+    return text === null ? null : decodeDocument<T>(text);
+  }
+
+  /**
+   * Write a document to the `config` store
+   */
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    await this.documents.put(collection, key, encodeDocument(document));
+  }
+
+  /**
+   * Delete a document from the `config` store
+   */
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+    return this.documents.delete(collection, key);
+  }
+
+  /**
+   * List the documents of a collection, ordered by key
+   */
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    const documents = await this.documents.list(collection);
+    return sortDocuments(
+      documents.map(({ key, document }) => ({
+        key,
+        document: decodeDocument<T>(document),
+      })),
+    );
+  }
+
   /**
    * Batch put vectors with progress reporting.
    *
@@ -600,36 +864,39 @@ export class VectorStorage implements StorageAdapter {
         const errors: Array<{ id: string; error: Error }> = [];
 
         await Promise.all(
-          vectors.map(
-            (vector) =>
-              new Promise<void>((resolve) => {
-                const vectorToStore = {
-                  ...vector,
-                  timestamp: vector.timestamp || Date.now(),
-                  lastAccessed: Date.now(),
-                };
-
-                const request = store.put(vectorToStore);
-
-                request.onsuccess = () => {
-                  succeeded++;
-                  resolve();
-                };
-
-                request.onerror = () => {
-                  failed++;
-                  errors.push({
-                    id: vector.id,
-                    error: new TransactionError(
-                      'put vector',
-                      `Failed to store vector: ${vector.id}`,
-                      request.error || undefined,
-                    ),
-                  });
-                  resolve();
-                };
-              }),
-          ),
+          vectors.map(async (vector) => {
+            const existing = await this.getVectorFromStore(store, vector.id);
+
+            return new Promise<void>((resolve) => {
+              const vectorToStore = {
+                ...vector,
+                vector: detachVector(vector.vector),
+                timestamp: vector.timestamp || Date.now(),
+                lastAccessed: Date.now(),
+                version: nextVersion(vector.id, storedVersion(existing)),
+              };
+
+              const request = store.put(vectorToStore);
+
+              request.onsuccess = () => {
+                succeeded++;
+                resolve();
+              };
+
+              request.onerror = () => {
+                failed++;
+                errors.push({
+                  id: vector.id,
+                  error: new TransactionError(
+                    'put vector',
+                    `Failed to store vector: ${vector.id}`,
+                    request.error || undefined,
+                  ),
+                });
+                resolve();
+              };
+            });
+          }),
         );
 
         return { succeeded, failed, errors };
@@ -646,6 +913,7 @@ export class VectorStorage implements StorageAdapter {
     options?: {
       updateMagnitude?: boolean;
       updateTimestamp?: boolean;
+      ifVersion?: number;
     },
   ): Promise<void> {
     await this.database.executeTransaction(
@@ -658,6 +926,7 @@ export class VectorStorage implements StorageAdapter {
         if (!existingVector) {
           throw new VectorNotFoundError(id);
         }
+        existingVector.version = nextVersion(id, storedVersion(existingVector), options);
 
         // Update vector data
         existingVector.vector = vector;
@@ -690,6 +959,7 @@ export class VectorStorage implements StorageAdapter {
     options?: {
       merge?: boolean;
       updateTimestamp?: boolean;
+      ifVersion?: number;
     },
   ): Promise<void> {
     await this.database.executeTransaction(
@@ -702,6 +972,7 @@ export class VectorStorage implements StorageAdapter {
         if (!existingVector) {
           throw new VectorNotFoundError(id);
         }
+        existingVector.version = nextVersion(id, storedVersion(existingVector), options);
 
         // Update metadata - merge by default
         if (options?.merge !== false) {
@@ -803,8 +1074,12 @@ export class VectorStorage implements StorageAdapter {
                   };
                 }
 
-                // Update timestamp
+                // Update timestamp and version
                 existingVector.timestamp = Date.now();
+                existingVector.version = nextVersion(
+                  update.id,
+                  storedVersion(existingVector),
+                );
 
                 await this.putVectorInStore(store, existingVector);
                 chunkSucceeded.push(update.id);
@@ -879,6 +1154,7 @@ export class VectorStorage implements StorageAdapter {
     return new Promise((resolve, reject) => {
       const vectorToStore = {
         ...vector,
+        vector: detachVector(vector.vector),
         lastAccessed: Date.now(),
       };
 
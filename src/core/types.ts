@@ -2,6 +2,11 @@
  * Core type definitions for the vector database
  */
 
+import type { GPUSearchConfig } from '@/gpu/gpu-search-engine.js';
+import type { HNSWDeletionMode } from '@/search/hnsw-index.js';
+import type { TextIndexConfig } from '@/search/text-index.js';
+import type { EvictionConfig } from '@/storage/eviction-policy.js';
+
 /**
  * Supported vector formats
  */
@@ -33,6 +38,12 @@ export interface VectorData {
   timestamp: number;
   lastAccessed?: number;
   accessCount?: number;
+  /**
+   * Write counter kept by the storage adapter: 1 after the first write and
+   * incremented by every later one. Records stored before versioning have
+   * none and count as version 0.
+   */
+  version?: number;
   compression?: {
     strategy: CompressionStrategy;
     originalSize: number;
@@ -56,6 +67,7 @@ export interface IndexedDatabaseUpgradeDatabase {
 }
 
 export interface IndexedDatabaseObjectStore {
+  readonly indexNames: IndexedDatabaseObjectStoreNames;
   createIndex(
     name: string,
     keyPath: string | string[],
@@ -72,6 +84,15 @@ export interface IndexedDatabaseObjectStore {
     query?: unknown,
     direction?: string,
   ): IndexedDatabaseRequest<IndexedDatabaseCursor<T> | null>;
+  index(name: string): IndexedDatabaseIndex;
+  deleteIndex(name: string): void;
+}
+
+export interface IndexedDatabaseIndex {
+  readonly keyPath: string | string[];
+  readonly multiEntry: boolean;
+  getAll<T = unknown>(query?: unknown, count?: number): IndexedDatabaseRequest<T[]>;
+  count(query?: unknown): IndexedDatabaseRequest<number>;
 }
 
 export type IndexedDatabaseTransactionMode = 'readonly' | 'readwrite' | 'versionchange';
@@ -114,22 +135,87 @@ export interface DatabaseConfig {
   name: string;
   version?: number;
   persistence?: boolean;
+  /**
+   * Metadata fields to maintain as IndexedDB secondary indexes on the vectors
+   * store. Indexes are created during schema upgrades, so adding a field to an
+   * existing database requires bumping `version`. Filtered searches plan
+   * `$eq`/`$in`/range clauses against whichever declared indexes exist.
+   */
+  metadataIndexes?: MetadataIndexDefinition[];
   /** Optional callback to override default schema creation during upgrades */
   onUpgrade?: (database: IndexedDatabaseUpgradeDatabase, oldVersion: number) => void;
 }
 
+/**
+ * Kind of secondary index maintained for a metadata field.
+ *
+ * - `equality`: serves `$eq` and `$in` lookups on string/number values.
+ * - `range`: serves `$gt`, `$gte`, `$lt`, `$lte`, and `$between` on numbers, in
+ *   addition to everything an equality index serves.
+ * - `multiEntry`: indexes every element of an array field; serves `$all` and
+ *   scalar `$elemMatch` lookups.
+ */
+export type MetadataIndexKind = 'equality' | 'range' | 'multiEntry';
+
+/**
+ * Declares a secondary index over a top-level metadata field.
+ */
+export interface MetadataIndexDefinition {
+  /** Top-level metadata key. Must be a plain identifier (no dots). */
+  field: string;
+  /** Defaults to `equality`. */
+  kind?: MetadataIndexKind;
+}
+
+/**
+ * Index parameters for a namespace; the `indexConfig` option of `VectorDB`
+ */
+export interface NamespaceIndexConfig {
+  type?: 'hnsw' | 'ivf' | 'kdtree' | 'auto';
+  m?: number;
+  efConstruction?: number;
+  maxLevel?: number;
+  deletionMode?: HNSWDeletionMode;
+  filterBruteForceSelectivity?: number;
+  ivf?: IVFParameters;
+  kdtree?: KDTreeParameters;
+}
+
 /**
  * Namespace configuration.
  *
- * `indexStrategy`, `compression`, and `compressionConfig` were removed because
- * they were never wired to the underlying VectorDB and had no effect on runtime
- * behavior. Use the VectorDB constructor options directly when you need to
- * control indexing or compression at the storage level.
+ * Besides the dimension and metric, a namespace carries the `VectorDB`
+ * options it is opened with. The config is persisted by the namespace
+ * registry, so it holds plain data only: storage adapters are chosen by
+ * naming one of the `storageBackends` given to `VectorFrankl`.
  */
 export interface NamespaceConfig {
   dimension: number;
   distanceMetric?: DistanceMetric;
   description?: string;
+  /** Index to search with; see the `VectorDB` option of the same name */
+  indexStrategy?: IndexStrategy;
+  /** Thresholds for `indexStrategy: 'auto'` */
+  autoIndex?: AutoIndexOptions;
+  indexConfig?: NamespaceIndexConfig;
+  compression?: VectorCompressionConfig;
+  /** Fields indexed for hybrid search */
+  textIndex?: TextIndexConfig;
+  useWorkers?: boolean;
+  useGPU?: boolean;
+  gpuConfig?: GPUSearchConfig;
+  /** Evict vectors when the origin quota runs low (default true) */
+  autoEviction?: boolean;
+  /** Defaults for `VectorNamespace.evictVectors()` and quota-share eviction */
+  eviction?: Partial<EvictionConfig>;
+  /**
+   * Fraction of the origin's storage quota, in (0, 1], this namespace may
+   * fill. Writes beyond it evict per `eviction` when `autoEviction` is on and
+   * throw `QuotaExceededError` otherwise. Unlimited when omitted.
+   */
+  quotaShare?: number;
+  /** Name of the `storageBackends` entry holding this namespace's vectors */
+  storage?: string;
 }
 
 /**
@@ -143,6 +229,17 @@ export interface NamespaceInfo {
   modified: number;
 }
 
+/**
+ * An alternate name that resolves to a namespace, e.g. `products` pointing at
+ * `products-v7`
+ */
+export interface NamespaceAlias {
+  alias: string;
+  target: string;
+  created: number;
+  modified: number;
+}
+
 /**
  * Namespace statistics
  */
@@ -167,16 +264,37 @@ export type DistanceMetric =
 /**
  * Index strategies
  */
-export type IndexStrategy = 'auto' | 'brute' | 'kdtree' | 'hnsw';
+export type IndexStrategy = 'auto' | 'brute' | 'kdtree' | 'hnsw' | 'ivf';
 
 /**
  * Compression strategies.
  *
  * Only strategies with full implementations, tests, quality budgets, and
- * persistence support are listed here. Binary quantization is not yet
- * implemented and is intentionally excluded.
+ * persistence support are listed here.
+ */
+export type CompressionStrategy = 'none' | 'scalar' | 'product' | 'binary';
+
+/**
+ * Compressed storage for `VectorDB`.
+ *
+ * Every stored vector gets quantizer codes that are kept in memory and used to
+ * answer unfiltered searches; the original vectors stay in storage and are only
+ * read to rescore the best candidates or to return them to the caller.
  */
-export type CompressionStrategy = 'none' | 'scalar' | 'product';
+export interface VectorCompressionConfig {
+  strategy: Exclude<CompressionStrategy, 'none'>;
+  /**
+   * Number of inserted vectors the product quantization codebook is trained
+   * on. Until that many vectors exist, searches stay exact. Defaults to 1000;
+   * ignored by `scalar` and `binary`, which need no training.
+   */
+  trainOn?: number;
+  /**
+   * Candidates rescored against the original vectors before the top `k` are
+   * returned. `0` (the default) returns approximate distances.
+   */
+  rescore?: number;
+}
 
 /**
  * Search options
@@ -193,6 +311,26 @@ export interface SearchOptions {
   batchSize?: number;
 }
 
+/**
+ * Options for hybrid lexical + vector search.
+ *
+ * `filter`, `includeMetadata`, `includeVector`, `timeout` and `signal` behave
+ * as in {@link SearchOptions}.
+ */
+export interface HybridSearchOptions extends SearchOptions {
+  /**
+   * How the vector and BM25 rankings are combined. `'rrf'` (default) uses
+   * reciprocal rank fusion; `'weighted'` blends min-max normalized scores.
+   */
+  fusion?: 'rrf' | 'weighted';
+  /** Rank offset for reciprocal rank fusion. Defaults to 60. */
+  rrfK?: number;
+  /** Weight of the vector score in `'weighted'` fusion, in [0, 1]. Defaults to 0.5. */
+  alpha?: number;
+  /** Candidates taken from each ranking before fusion. Defaults to `4 * k`. */
+  candidates?: number;
+}
+
 /**
  * Search result
  */
@@ -202,9 +340,50 @@ export interface SearchResult {
   distance?: number;
   vector?: Float32Array;
   metadata?: Record<string, unknown>;
+  /**
+   * Populated by hybrid search: maps each text field to the query terms it
+   * matched (lowercased, as tokenized).
+   */
   highlights?: Record<string, unknown>;
 }
 
+/**
+ * Options for `VectorFrankl.searchAcross()`; the rest apply to the search in
+ * each namespace
+ */
+export interface CrossNamespaceSearchOptions extends SearchOptions {
+  /**
+   * Only search namespaces using this metric. Without it, namespaces with
+   * different metrics are merged on normalized scores.
+   */
+  distanceMetric?: DistanceMetric;
+}
+
+/**
+ * A search result tagged with the namespace it came from. `score` is
+ * normalized to [0, 1] so results from different metrics can be ranked
+ * together; `distance` is the namespace's own.
+ */
+export interface NamespacedSearchResult extends SearchResult {
+  namespace: string;
+}
+
+/**
+ * Result of `VectorFrankl.searchAcross()`
+ */
+export interface CrossNamespaceSearchResult {
+  /** The best `k` results across every namespace searched, best first */
+  results: NamespacedSearchResult[];
+  /** Namespaces whose search completed, in the order they were resolved */
+  searched: string[];
+  /**
+   * Namespaces that were skipped or whose search failed, with the reason:
+   * `NamespaceNotFoundError`, `NamespaceIncompatibleError` or the error the
+   * search threw
+   */
+  failures: Array<{ namespace: string; error: Error }>;
+}
+
 /**
  * Metadata filter
  */
@@ -290,6 +469,42 @@ export interface BatchOptions {
   memoryLimitBytes?: number;
 }
 
+/**
+ * Options for `VectorDB.copyTo()` and the namespace clone, rename and
+ * migrate operations built on it
+ */
+export interface CopyVectorsOptions
+  extends Pick<BatchOptions, 'batchSize' | 'onProgress' | 'abortSignal'> {
+  /** Copy only the records this returns true for */
+  filter?: (vector: VectorData) => boolean;
+  /** Rewrite each record before it is stored; the index is then rebuilt */
+  transform?: (vector: VectorData) => VectorData | Promise<VectorData>;
+}
+
+/**
+ * Result of `VectorDB.copyTo()`
+ */
+export interface CopyVectorsResult {
+  copied: number;
+  /** Whether the source's HNSW graph was adopted instead of rebuilding the index */
+  indexRestored: boolean;
+}
+
+/**
+ * Vectors laid out as columns for `VectorDB.addColumns()`
+ */
+export interface VectorColumns {
+  /** One id per row */
+  ids: readonly string[];
+  /** Every row's vector, one after another: `ids.length × dimension` values */
+  vectors: Float32Array;
+  /**
+   * Metadata columns, each holding one value per row. `null` and
+   * `undefined` leave the field off that row's metadata.
+   */
+  metadata?: Record<string, readonly unknown[]>;
+}
+
 /**
  * Batch progress
  */
@@ -336,7 +551,7 @@ export interface NamespaceStorageInfo {
  */
 export interface IndexConfig {
   type: IndexStrategy;
-  parameters?: HNSWParameters | KDTreeParameters;
+  parameters?: HNSWParameters | KDTreeParameters | IVFParameters;
 }
 
 /**
@@ -349,11 +564,42 @@ export interface HNSWParameters {
   seed?: number;
 }
 
+/**
+ * IVF (inverted file) index parameters
+ */
+export interface IVFParameters {
+  /** Number of k-means centroids, one inverted list each (default 100) */
+  nlist?: number;
+  /** Lists scanned per query (default 8) */
+  nprobe?: number;
+  /** Vectors collected before the centroids are trained (default 1000, at least `nlist`) */
+  trainOn?: number;
+  /** Maximum k-means iterations when training (default 25) */
+  maxIterations?: number;
+  /** Seed for centroid initialization and training-set sampling (default 42) */
+  seed?: number;
+}
+
+/**
+ * Thresholds for `indexStrategy: 'auto'`. Defaults come from
+ * `src/performance/execution-thresholds.ts`.
+ */
+export interface AutoIndexOptions {
+  /** Vectors before brute force gives way to an index (default 5000) */
+  minVectors?: number;
+  /** Vectors before IVF replaces HNSW (default 100000) */
+  ivfMinVectors?: number;
+  /** Mean search latency in ms that triggers indexing early (default 50) */
+  latencyBudgetMs?: number;
+}
+
 /**
  * KD-tree parameters
  */
 export interface KDTreeParameters {
+  /** Maximum points per leaf before it is split (default 16) */
   leafSize?: number;
+  /** Fraction of the tree inserted or removed since the last build that triggers a rebalance (default 0.25) */
   rebalanceThreshold?: number;
 }
 
@@ -367,6 +613,57 @@ export interface TransactionOptions {
   retries?: number;
 }
 
+/**
+ * Precondition for a write, checked by the adapter against the stored
+ * record's `version` in the same step as the write. A failed check throws
+ * `VersionConflictError` and writes nothing.
+ */
+export interface WriteCondition {
+  /** Only write if no record with this id is stored */
+  ifAbsent?: boolean;
+  /** Only write if the stored record is at this version */
+  ifVersion?: number;
+}
+
+/**
+ * One write in an atomic commit; see {@link StorageAdapter.commitTransaction}
+ */
+export type TransactionOperation =
+  | { type: 'put'; vector: VectorData }
+  | { type: 'delete'; id: string };
+
+/**
+ * A stored point-in-time copy; see {@link StorageAdapter.createSnapshot}
+ */
+export interface SnapshotInfo {
+  label: string;
+  /** When the snapshot was taken, in milliseconds since the epoch */
+  createdAt: number;
+  /** Number of vectors the snapshot holds */
+  vectorCount: number;
+}
+
+/**
+ * A nearest-neighbour query delegated to the storage backend; see
+ * {@link StorageAdapter.searchNearest}
+ */
+export interface StorageSearchQuery {
+  vector: Float32Array;
+  k: number;
+  /** Metric the caller ranks by; returned distances are in its units */
+  metric: DistanceMetric;
+  filter?: MetadataFilter;
+}
+
+/**
+ * One result of {@link StorageAdapter.searchNearest}
+ */
+export interface StorageSearchHit {
+  id: string;
+  distance: number;
+  metadata?: Record<string, unknown>;
+}
+
 /**
  * Options for cursor/streaming scans over the full store.
  */
@@ -445,7 +742,13 @@ export interface StorageAdapter {
   destroy(): Promise<void>;
 
   // Single-item CRUD
-  put(vector: VectorData): Promise<void>;
+  /**
+   * Store `vector`, replacing any record with the same id. The stored
+   * `version` is one more than the replaced record's (1 for a new record),
+   * whatever `vector.version` says. `putBatch`, the update methods and
+   * `commitTransaction` advance versions the same way.
+   */
+  put(vector: VectorData, condition?: WriteCondition): Promise<void>;
   get(id: string): Promise<VectorData>;
   exists(id: string): Promise<boolean>;
   delete(id: string): Promise<void>;
@@ -482,11 +785,87 @@ export interface StorageAdapter {
    * set `capabilities.metadataIndexing = true`. Adapters that do NOT implement
    * it are documented as lacking metadata indexing; filtered search falls back
    * to `getAll()` + in-memory filtering.
+   *
+   * `filter` is the uncompiled form of `predicate`. Adapters with secondary
+   * indexes may use it to plan index lookups; every returned record must still
+   * satisfy `predicate`.
    */
   filteredScan?(
     predicate: (metadata: Record<string, unknown>) => boolean,
+    filter?: MetadataFilter,
   ): Promise<VectorData[]>;
 
+  /**
+   * Apply `operations` as one all-or-nothing write: every put and delete is
+   * stored, or none is. Deleting a missing id is not an error.
+   *
+   * Implementing this method is optional. Adapters that implement it MUST also
+   * declare `transactions: true` in their capabilities;
+   * `VectorDB.transaction()` rejects adapters without it.
+   */
+  commitTransaction?(operations: TransactionOperation[]): Promise<void>;
+
+  /**
+   * Copy every stored vector into a snapshot named `label`, kept with the
+   * opaque `attachment` bytes the caller wants restored alongside them.
+   * Writes after the call do not change the snapshot. Throws
+   * `SnapshotExistsError` when `label` is taken. Labels are validated by
+   * `VectorDB`; adapters may use them as file names. `clear()` keeps
+   * snapshots, `destroy()` removes them.
+   *
+   * The snapshot methods are optional as a group. Adapters that implement
+   * them MUST also declare `snapshots: true` in their capabilities;
+   * `VectorDB.createSnapshot()` rejects adapters without them.
+   */
+  createSnapshot?(label: string, attachment: Uint8Array): Promise<SnapshotInfo>;
+  /** Every stored snapshot, oldest first */
+  listSnapshots?(): Promise<SnapshotInfo[]>;
+  /**
+   * Replace every stored vector with the contents of snapshot `label`,
+   * versions included, and return its attachment. `check` sees the
+   * attachment first; if it throws, nothing is replaced. Throws
+   * `SnapshotNotFoundError` when there is no such snapshot.
+   */
+  restoreSnapshot?(
+    label: string,
+    check?: (attachment: Uint8Array) => void,
+  ): Promise<Uint8Array>;
+  /** Remove snapshot `label`; returns false when there was none */
+  deleteSnapshot?(label: string): Promise<boolean>;
+
+  // Documents
+  /**
+   * Read the JSON document stored under `key` in `collection`, or null.
+   *
+   * Documents hold the state that is not a vector — the namespace registry,
+   * index snapshots, quantizer codebooks — in named collections beside the
+   * vectors. They are stored as `JSON.stringify` writes them, so only JSON
+   * values survive a round trip. `clear()` keeps documents and `destroy()`
+   * removes them. Collection names are 1–64 letters, numbers, underscores
+   * and hyphens; keys are non-empty strings.
+   */
+  getDocument<T = unknown>(collection: string, key: string): Promise<T | null>;
+  /** Store `document` under `key`, replacing any document already there */
+  putDocument(collection: string, key: string, document: unknown): Promise<void>;
+  /** Remove a document; returns false when there was none */
+  deleteDocument(collection: string, key: string): Promise<boolean>;
+  /** Every document in `collection`, ordered by key */
+  listDocuments<T = unknown>(collection: string): Promise<Array<StoredDocument<T>>>;
+
+  /**
+   * Answer a k-nearest-neighbour query inside the storage backend, ordered
+   * by ascending distance. Returns `null` when the backend cannot answer this
+   * query exactly (another metric, an untranslatable filter); the search
+   * engine then scores the vectors itself. Optional.
+   */
+  searchNearest?(query: StorageSearchQuery): Promise<StorageSearchHit[] | null>;
+
+  /**
+   * Bytes this store occupies (`usage`) against the storage quota available
+   * to it. Optional; adapters that implement it declare `quotaReporting: true`.
+   */
+  estimateStorage?(): Promise<StorageEstimate>;
+
   // Multi-item writes
   deleteMany(ids: string[]): Promise<number>;
   clear(): Promise<void>;
@@ -496,12 +875,16 @@ export interface StorageAdapter {
   updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void>;
   updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void>;
   updateBatch(
     updates: Array<{
@@ -517,6 +900,14 @@ export interface StorageAdapter {
   }>;
 }
 
+/**
+ * A document read back through `StorageAdapter.listDocuments()`
+ */
+export interface StoredDocument<T = unknown> {
+  key: string;
+  document: T;
+}
+
 /**
  * Factory function that creates a StorageAdapter for a given database name.
  */
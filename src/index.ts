@@ -18,6 +18,12 @@ export type { VectorFranklOptions } from './api/vector-frankl.js';
 
 // Simple API (without namespace support)
 export { VectorDB } from './api/database.js';
+export type {
+  VectorChangeEvent,
+  VectorChangeType,
+  WatchOptions,
+} from './api/change-feed.js';
+export type { VectorTransaction } from './api/transaction.js';
 
 // Namespace management
 export { AdapterNamespaceRegistry } from './namespaces/adapter-registry.js';
@@ -29,17 +35,25 @@ export { NamespaceRegistry } from './namespaces/registry.js';
 export type {
   // Database types
   DatabaseConfig,
+  MetadataIndexDefinition,
+  MetadataIndexKind,
   VectorData,
   VectorFormat,
 
   // Namespace types
   NamespaceConfig,
   NamespaceInfo,
+  NamespaceAlias,
+  NamespaceIndexConfig,
   NamespaceStats,
 
   // Search types
   SearchOptions,
+  HybridSearchOptions,
   SearchResult,
+  NamespacedSearchResult,
+  CrossNamespaceSearchOptions,
+  CrossNamespaceSearchResult,
   DistanceMetric,
   MetadataFilter,
   FilterOperator,
@@ -53,19 +67,31 @@ export type {
 
   // Batch operations
   BatchOptions,
+  CopyVectorsOptions,
+  CopyVectorsResult,
   BatchProgress,
+  VectorColumns,
 
   // Storage types
   StorageAdapter,
   StorageAdapterFactory,
   StorageEstimate,
+  StoredDocument,
+  TransactionOperation,
+  SnapshotInfo,
+  WriteCondition,
+  StorageSearchQuery,
+  StorageSearchHit,
 
   // Index types
   IndexStrategy,
   IndexConfig,
+  AutoIndexOptions,
   HNSWParameters,
   KDTreeParameters,
+  IVFParameters,
   CompressionStrategy,
+  VectorCompressionConfig,
 } from './core/types.js';
 
 // Errors
@@ -75,10 +101,14 @@ export {
   DimensionMismatchError,
   QuotaExceededError,
   VectorNotFoundError,
+  VersionConflictError,
   InvalidFormatError,
   NamespaceExistsError,
   NamespaceNotFoundError,
   NamespaceDeletionBlockedError,
+  NamespaceIncompatibleError,
+  SnapshotExistsError,
+  SnapshotNotFoundError,
   DatabaseInitializationError,
   TransactionError,
   BatchOperationError,
@@ -86,6 +116,8 @@ export {
   BrowserSupportError,
   SearchAbortedError,
   SearchTimeoutError,
+  ChangeCursorExpiredError,
+  UnsupportedCapabilityError,
   StorageCorruptionError,
   StorageFormatError,
   QuotaSafetyMarginError,
@@ -113,14 +145,56 @@ export {
   MetadataRangeQuery,
   metadataQuery,
 } from './search/metadata-filter.js';
+export {
+  TextIndex,
+  tokenize,
+  type TextIndexConfig,
+  type TextSearchHit,
+} from './search/text-index.js';
+export {
+  reciprocalRankFusion,
+  weightedScoreFusion,
+  type RankedItem,
+} from './search/rank-fusion.js';
 /** @experimental HNSW recall, deletion, update, persistence, and rebuild guarantees are unvalidated. See {@link HNSWIndex} for details. */
-export { HNSWIndex } from './search/hnsw-index.js';
+export {
+  HNSWIndex,
+  type HNSWCompactionResult,
+  type HNSWDeletionMode,
+  type HNSWFilter,
+  type HNSWGraphState,
+} from './search/hnsw-index.js';
 export {
   IndexPersistence,
   IndexCache,
   type IndexHealthState,
   type IndexHealthReport,
+  type IndexPersistenceOptions,
+  type PersistedIndex,
 } from './search/index-persistence.js';
+export {
+  encodeHNSWSnapshot,
+  decodeHNSWSnapshot,
+  type DecodedHNSWSnapshot,
+} from './search/hnsw-snapshot.js';
+export {
+  encodeKDTreeSnapshot,
+  decodeKDTreeSnapshot,
+  type DecodedKDTreeSnapshot,
+} from './search/kdtree-snapshot.js';
+export { IVFIndex, type IVFConfig } from './search/ivf-index.js';
+export { isKDTreeMetric, KDTreeIndex, type KDTreeConfig } from './search/kdtree-index.js';
+export {
+  recommendIndexStrategy,
+  type IndexAdvisorInput,
+  type IndexRecommendation,
+  type ResolvedIndexStrategy,
+} from './search/index-advisor.js';
+export { QuantizedIndex } from './search/quantized-index.js';
+export {
+  CodebookPersistence,
+  type PersistedCodebook,
+} from './search/codebook-persistence.js';
 
 // Storage adapters (universally usable)
 export { MemoryStorageAdapter } from './storage/adapters/memory-adapter.js';
@@ -135,6 +209,43 @@ export {
   CHROME_LOCAL_STORAGE_MAX_SERIALIZED_BYTES,
 } from './storage/adapters/chrome-storage-adapter.js';
 
+// Cross-tab change feed and leader election
+export {
+  CrossTabCoordinator,
+  type BroadcastChannelLike,
+  type ChangeEvent,
+  type ChangeMessage,
+  type CrossTabHandlers,
+  type CrossTabOptions,
+  type CrossTabStatus,
+  type LockManagerLike,
+} from './storage/cross-tab-coordinator.js';
+
+// Portable export/import archives
+export {
+  ArchiveReader,
+  ArchiveWriter,
+  type ArchiveFormat,
+  type ArchiveHeader,
+  type ExportOptions,
+  type ExportResult,
+  type ImportOptions,
+  type ImportResult,
+} from './storage/archive.js';
+
+// Columnar ingest from Arrow IPC
+export {
+  ArrowStreamReader,
+  type ArrowColumnOptions,
+  type ArrowField,
+} from './storage/arrow-reader.js';
+
+// Snapshots and point-in-time restore
+export {
+  type RestoreSnapshotResult,
+  type SnapshotManifest,
+} from './storage/snapshot-attachment.js';
+
 // Storage adapter resolution
 export {
   resolveStorageAdapter,
@@ -149,6 +260,7 @@ export {
   ADAPTER_SUPPORT_MATRIX,
   getAdaptersByTier,
   getAdaptersByRuntime,
+  getAdapterCapabilities,
   type AdapterCapabilities,
   type AdapterSupportTier,
   type AdapterRuntime,
@@ -169,7 +281,9 @@ export {
   TTLEvictionPolicy,
   ScoreBasedEvictionPolicy,
   HybridEvictionPolicy,
+  type EvictedVector,
   type EvictionConfig,
+  type EvictionListener,
   type EvictionResult,
 } from './storage/eviction-policy.js';
 
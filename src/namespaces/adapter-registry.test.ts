@@ -199,43 +199,33 @@ describe('AdapterNamespaceRegistry', () => {
   });
 
   // ──────────────────────────────────────────────────────────────────────
-  // Placeholder-vector storage contract
+  // Document storage contract
   //
-  // AdapterNamespaceRegistry stores namespace metadata as VectorData entries
-  // because StorageAdapter was designed around VectorData records. The vector
-  // field is a synthetic Float32Array([0]) — a placeholder required by the
-  // contract. These tests document and guard that internal representation so
-  // adapter authors know what to expect and corruption/migration paths stay
-  // explicit.
+  // AdapterNamespaceRegistry keeps namespace metadata in the adapter's
+  // `namespaces` document collection and aliases in `aliases`. Earlier
+  // releases stored both as placeholder vector records with a
+  // Float32Array([0]) vector; init() migrates those. These tests guard the
+  // internal representation so adapter authors know what to expect and the
+  // migration path stays explicit.
   // ──────────────────────────────────────────────────────────────────────
-  describe('placeholder-vector storage contract (internal)', () => {
-    it('persists metadata as a VectorData entry in the underlying adapter', async () => {
-      await registry.register('placeholder-one', baseConfig);
-
-      // The adapter stores the namespace as a raw VectorData record.
-      const raw = await adapter.get('placeholder-one');
-      expect(raw).toBeDefined();
-      expect(raw.id).toBe('placeholder-one');
-    });
-
-    it('uses a Float32Array([0]) placeholder vector — not real embedding data', async () => {
-      await registry.register('placeholder-vec', baseConfig);
-
-      const raw = await adapter.get('placeholder-vec');
-      expect(raw.vector).toBeInstanceOf(Float32Array);
-      expect(raw.vector.length).toBe(1);
-      expect(raw.vector[0]).toBe(0);
+  describe('document storage contract (internal)', () => {
+    it('stores NamespaceInfo as a document and no vector records', async () => {
+      const info = await registry.register('meta-fields', baseConfig);
+
+      expect(
+        await adapter.getDocument<NamespaceInfo>('namespaces', 'meta-fields'),
+      ).toEqual(info);
+      expect(await adapter.count()).toBe(0);
     });
 
-    it('stores NamespaceInfo fields in the metadata sub-object', async () => {
-      await registry.register('meta-fields', baseConfig);
+    it('stores aliases in their own collection', async () => {
+      await registry.register('products-v1', baseConfig);
+      await registry.createAlias('products', 'products-v1');
 
-      const raw = await adapter.get('meta-fields');
-      const meta = raw.metadata as Record<string, unknown>;
-      expect(meta['name']).toBe('meta-fields');
-      expect(meta['config']).toEqual(baseConfig);
-      expect(typeof meta['created']).toBe('number');
-      expect(typeof meta['modified']).toBe('number');
+      const aliases = await adapter.listDocuments('aliases');
+      expect(aliases).toMatchObject([
+        { key: 'products', document: { alias: 'products', target: 'products-v1' } },
+      ]);
     });
 
     it('round-trips NamespaceInfo faithfully through the adapter', async () => {
@@ -262,10 +252,8 @@ describe('AdapterNamespaceRegistry', () => {
       expect(info?.stats.lastAccessed).toBe(9999);
     });
 
-    it('adapter-compatibility: a pre-seeded record with correct metadata shape is readable', async () => {
-      // Simulate a migration scenario: another process wrote a VectorData record
-      // directly into the adapter with a valid metadata payload. The registry
-      // must be able to deserialize it without error.
+    it('migrates placeholder vector records written by earlier releases', async () => {
+      const legacy = new MemoryStorageAdapter();
       const now = Date.now();
       const seededInfo: NamespaceInfo = {
         name: 'migrated-ns',
@@ -274,55 +262,112 @@ describe('AdapterNamespaceRegistry', () => {
         created: now,
         modified: now,
       };
-
-      const record: VectorData = {
-        id: 'migrated-ns',
+      const placeholder = {
         vector: new Float32Array([0]),
         magnitude: 0,
         normalized: false,
         timestamp: now,
-        metadata: {
-          name: seededInfo.name,
-          config: seededInfo.config,
-          stats: seededInfo.stats,
-          created: seededInfo.created,
-          modified: seededInfo.modified,
-        },
       };
-
-      adapter.seed(record);
-
-      const result = await registry.get('migrated-ns');
-      expect(result).toEqual(seededInfo);
+      const records: VectorData[] = [
+        { id: 'migrated-ns', ...placeholder, metadata: { ...seededInfo } },
+        {
+          id: 'alias:migrated',
+          ...placeholder,
+          metadata: {
+            alias: 'migrated',
+            target: 'migrated-ns',
+            created: now,
+            modified: now,
+          },
+        },
+      ];
+      for (const record of records) {
+        legacy.seed(record);
+      }
+
+      const migrated = new AdapterNamespaceRegistry(legacy);
+      await migrated.init();
+
+      expect(await migrated.get('migrated-ns')).toEqual(seededInfo);
+      expect(await migrated.list()).toEqual([seededInfo]);
+      expect(await migrated.resolveAlias('migrated')).toBe('migrated-ns');
+      expect(await legacy.count()).toBe(0);
+      await migrated.delete();
     });
 
-    it('corruption: a record with missing metadata fields returns an incomplete result without throwing', async () => {
-      // Partial record — simulates corruption where metadata is incomplete.
-      // The registry deserializes without throwing; callers that need reliable
+    it('corruption: a document with missing fields returns an incomplete result without throwing', async () => {
+      // Partial document — simulates corruption where metadata is incomplete.
+      // The registry reads it without throwing; callers that need reliable
       // data should validate NamespaceInfo before use.
       const now = Date.now();
-      const partial: VectorData = {
-        id: 'corrupt-ns',
-        vector: new Float32Array([0]),
-        magnitude: 0,
-        normalized: false,
-        timestamp: now,
-        metadata: {
-          // Intentionally omit name and config
-          stats: { vectorCount: 0, storageSize: 0 },
-          created: now,
-          modified: now,
-        },
-      };
-
-      adapter.seed(partial);
+      await adapter.putDocument('namespaces', 'corrupt-ns', {
+        // Intentionally omit name and config
+        stats: { vectorCount: 0, storageSize: 0 },
+        created: now,
+        modified: now,
+      });
 
       // get() must not throw — callers are responsible for validating the result.
       const result = await registry.get('corrupt-ns');
       expect(result).toBeDefined();
       // name will be undefined because we omitted it — this is intentional to
-      // document that the registry does NOT validate deserialized payloads.
+      // document that the registry does NOT validate stored payloads.
       expect(result!.name).toBeUndefined();
     });
   });
+
+  describe('aliases', () => {
+    beforeEach(async () => {
+      await registry.register('products-v6', baseConfig);
+      await registry.register('products-v7', baseConfig);
+    });
+
+    it('creates, resolves and swaps an alias', async () => {
+      await registry.createAlias('products', 'products-v6');
+      expect(await registry.resolveAlias('products')).toBe('products-v6');
+
+      expect(await registry.swapAlias('products', 'products-v7')).toBe('products-v6');
+      expect(await registry.resolveAlias('products')).toBe('products-v7');
+      expect(await registry.resolveAlias('products-v7')).toBeNull();
+    });
+
+    it('keeps alias entries out of the namespace list', async () => {
+      await registry.createAlias('products', 'products-v6');
+
+      const namespaces = await registry.list();
+      expect(namespaces.map((info) => info.name).sort()).toEqual([
+        'products-v6',
+        'products-v7',
+      ]);
+      expect(await registry.findByPattern('^products$')).toEqual([]);
+      expect(await registry.listAliases()).toMatchObject([
+        { alias: 'products', target: 'products-v6' },
+      ]);
+    });
+
+    it('rejects taken names and missing targets', async () => {
+      await registry.createAlias('products', 'products-v6');
+
+      expect(registry.register('products', baseConfig)).rejects.toThrow(
+        NamespaceExistsError,
+      );
+      expect(registry.createAlias('products', 'products-v7')).rejects.toThrow(
+        NamespaceExistsError,
+      );
+      expect(registry.createAlias('catalog', 'products')).rejects.toThrow(
+        NamespaceNotFoundError,
+      );
+      expect(registry.swapAlias('catalog', 'products-v7')).rejects.toThrow(
+        NamespaceNotFoundError,
+      );
+    });
+
+    it('deletes an alias without touching its target', async () => {
+      await registry.createAlias('products', 'products-v6');
+      await registry.deleteAlias('products');
+
+      expect(await registry.resolveAlias('products')).toBeNull();
+      expect(await registry.exists('products-v6')).toBe(true);
+    });
+  });
 });
@@ -1,23 +1,31 @@
-import {
-  NamespaceExistsError,
-  NamespaceNotFoundError,
-  VectorNotFoundError,
-} from '@/core/errors.js';
+import { NamespaceExistsError, NamespaceNotFoundError } from '@/core/errors.js';
 import { validateNamespaceName } from './validate-namespace-name.js';
 import type {
+  NamespaceAlias,
   NamespaceConfig,
   NamespaceInfo,
   NamespaceStats,
   StorageAdapter,
 } from '@/core/types.js';
 
+/** Document collection holding one NamespaceInfo per namespace name */
+const NAMESPACES_COLLECTION = 'namespaces';
+
+/** Document collection holding one NamespaceAlias per alias name */
+const ALIASES_COLLECTION = 'aliases';
+
+/** Alias records were stored as `alias:<name>` vectors before documents existed */
+const LEGACY_ALIAS_PREFIX = 'alias:';
+
 /**
  * Namespace registry backed by a StorageAdapter.
  *
- * Stores namespace metadata as VectorData entries where:
- * - `id` is the namespace name
- * - `metadata` contains the serialized NamespaceInfo
- * - `vector` is a placeholder (required by the StorageAdapter contract)
+ * Namespace metadata lives in the adapter's `namespaces` document collection,
+ * keyed by name, and aliases in its `aliases` collection. The adapter's vector
+ * store is left empty.
+ *
+ * Earlier releases stored both as placeholder vector records; `init()` moves
+ * any it finds into the document collections and deletes them.
  *
  * This allows NamespaceManager to work in non-browser environments where
  * IndexedDB is unavailable (e.g. Node/Bun with SQLite, LevelDB, Redis, etc.).
@@ -36,6 +44,7 @@ export class AdapterNamespaceRegistry {
     }
 
     await this.adapter.init();
+    await this.migrateLegacyRecords();
     this.initialized = true;
   }
 
@@ -43,7 +52,7 @@ export class AdapterNamespaceRegistry {
     await this.ensureInitialized();
     validateNamespaceName(name);
 
-    if (await this.adapter.exists(name)) {
+    if (await this.isTaken(name)) {
       throw new NamespaceExistsError(name);
     }
 
@@ -56,39 +65,22 @@ export class AdapterNamespaceRegistry {
       modified: now,
     };
 
-    await this.adapter.put({
-      id: name,
-      vector: new Float32Array([0]),
-      magnitude: 0,
-      normalized: false,
-      timestamp: now,
-      metadata: this.serializeInfo(info),
-    });
-
+    await this.adapter.putDocument(NAMESPACES_COLLECTION, name, info);
     return info;
   }
 
   async get(name: string): Promise<NamespaceInfo | null> {
     await this.ensureInitialized();
 
-    try {
-      const entry = await this.adapter.get(name);
-      return this.deserializeInfo(entry.metadata as Record<string, unknown>);
-    } catch (error) {
-      if (error instanceof VectorNotFoundError) {
-        return null;
-      }
-      throw error;
-    }
+    return this.adapter.getDocument<NamespaceInfo>(NAMESPACES_COLLECTION, name);
   }
 
   async list(): Promise<NamespaceInfo[]> {
     await this.ensureInitialized();
 
-    const all = await this.adapter.getAll();
-    return all.map((entry) =>
-      this.deserializeInfo(entry.metadata as Record<string, unknown>),
-    );
+    const documents =
+      await this.adapter.listDocuments<NamespaceInfo>(NAMESPACES_COLLECTION);
+    return documents.map(({ document }) => document);
   }
 
   async updateStats(name: string, stats: Partial<NamespaceStats>): Promise<void> {
@@ -102,31 +94,42 @@ export class AdapterNamespaceRegistry {
     info.stats = { ...info.stats, ...stats };
     info.modified = Date.now();
 
-    await this.adapter.put({
-      id: name,
-      vector: new Float32Array([0]),
-      magnitude: 0,
-      normalized: false,
-      timestamp: info.modified,
-      metadata: this.serializeInfo(info),
-    });
+    await this.adapter.putDocument(NAMESPACES_COLLECTION, name, info);
   }
 
-  async unregister(name: string): Promise<void> {
+  async updateConfig(
+    name: string,
+    config: NamespaceConfig,
+    stats: Partial<NamespaceStats> = {},
+  ): Promise<NamespaceInfo> {
     await this.ensureInitialized();
 
-    if (!(await this.adapter.exists(name))) {
+    const info = await this.get(name);
+    if (!info) {
       throw new NamespaceNotFoundError(name);
     }
 
-    await this.adapter.delete(name);
+    info.config = config;
+    info.stats = { ...info.stats, ...stats };
+    info.modified = Date.now();
+
+    await this.adapter.putDocument(NAMESPACES_COLLECTION, name, info);
+    return info;
+  }
+
+  async unregister(name: string): Promise<void> {
+    await this.ensureInitialized();
+
+    if (!(await this.adapter.deleteDocument(NAMESPACES_COLLECTION, name))) {
+      throw new NamespaceNotFoundError(name);
+    }
   }
 
   async exists(name: string): Promise<boolean> {
     await this.ensureInitialized();
 
     try {
-      return await this.adapter.exists(name);
+      return (await this.get(name)) !== null;
     } catch {
       return false;
     }
@@ -140,6 +143,76 @@ export class AdapterNamespaceRegistry {
     return all.filter((info) => regex.test(info.name));
   }
 
+  /**
+   * Point a new alias at an existing namespace. Aliases share the namespace
+   * name space, so the alias must not name a namespace or another alias.
+   */
+  async createAlias(alias: string, target: string): Promise<NamespaceAlias> {
+    await this.ensureInitialized();
+    validateNamespaceName(alias);
+
+    if (await this.isTaken(alias)) {
+      throw new NamespaceExistsError(alias);
+    }
+    if (!(await this.get(target))) {
+      throw new NamespaceNotFoundError(target);
+    }
+
+    const now = Date.now();
+    const entry: NamespaceAlias = { alias, target, created: now, modified: now };
+    await this.adapter.putDocument(ALIASES_COLLECTION, alias, entry);
+    return entry;
+  }
+
+  /**
+   * Repoint an existing alias in a single write, resolving to the target it
+   * replaced
+   */
+  async swapAlias(alias: string, target: string): Promise<string> {
+    await this.ensureInitialized();
+
+    const current = await this.getAlias(alias);
+    if (!current) {
+      throw new NamespaceNotFoundError(alias);
+    }
+    if (!(await this.get(target))) {
+      throw new NamespaceNotFoundError(target);
+    }
+
+    await this.adapter.putDocument(ALIASES_COLLECTION, alias, {
+      ...current,
+      target,
+      modified: Date.now(),
+    });
+    return current.target;
+  }
+
+  /**
+   * The namespace `name` points at, or null when it is not an alias
+   */
+  async resolveAlias(name: string): Promise<string | null> {
+    await this.ensureInitialized();
+
+    const alias = await this.getAlias(name);
+    return alias?.target ?? null;
+  }
+
+  async deleteAlias(alias: string): Promise<void> {
+    await this.ensureInitialized();
+
+    if (!(await this.adapter.deleteDocument(ALIASES_COLLECTION, alias))) {
+      throw new NamespaceNotFoundError(alias);
+    }
+  }
+
+  async listAliases(): Promise<NamespaceAlias[]> {
+    await this.ensureInitialized();
+
+    const documents =
+      await this.adapter.listDocuments<NamespaceAlias>(ALIASES_COLLECTION);
+    return documents.map(({ document }) => document);
+  }
+
   async getTotalStorageUsage(): Promise<number> {
     await this.ensureInitialized();
 
@@ -163,23 +236,40 @@ export class AdapterNamespaceRegistry {
     }
   }
 
-  private serializeInfo(info: NamespaceInfo): Record<string, unknown> {
-    return {
-      name: info.name,
-      config: info.config,
-      stats: info.stats,
-      created: info.created,
-      modified: info.modified,
-    };
+  private async isTaken(name: string): Promise<boolean> {
+    return (await this.get(name)) !== null || (await this.getAlias(name)) !== null;
   }
 
-  private deserializeInfo(metadata: Record<string, unknown>): NamespaceInfo {
-    return {
-      name: metadata['name'] as string,
-      config: metadata['config'] as NamespaceConfig,
-      stats: metadata['stats'] as NamespaceStats,
-      created: metadata['created'] as number,
-      modified: metadata['modified'] as number,
-    };
+  private async getAlias(name: string): Promise<NamespaceAlias | null> {
+    return this.adapter.getDocument<NamespaceAlias>(ALIASES_COLLECTION, name);
+  }
+
+  /**
+   * Move the placeholder vector records of earlier releases into the document
+   * collections. Documents are written before the records are deleted, so an
+   * interrupted migration is simply repeated on the next `init()`.
+   */
+  private async migrateLegacyRecords(): Promise<void> {
+    if ((await this.adapter.count()) === 0) {
+      return;
+    }
+
+    const records = await this.adapter.getAll();
+    for (const record of records) {
+      const metadata = record.metadata ?? {};
+      if (record.id.startsWith(LEGACY_ALIAS_PREFIX)) {
+        const alias = record.id.slice(LEGACY_ALIAS_PREFIX.length);
+        await this.adapter.putDocument(ALIASES_COLLECTION, alias, metadata);
+      } else {
+        await this.adapter.putDocument(NAMESPACES_COLLECTION, record.id, {
+          name: metadata['name'],
+          config: metadata['config'],
+          stats: metadata['stats'],
+          created: metadata['created'],
+          modified: metadata['modified'],
+        });
+      }
+    }
+    await this.adapter.deleteMany(records.map(({ id }) => id));
   }
 }
@@ -256,6 +256,41 @@ describe('NamespaceManager', () => {
     });
   });
 
+  describe('aliases', () => {
+    beforeEach(async () => {
+      await manager.createNamespace('products-v6', { dimension: 3 });
+      await manager.createNamespace('products-v7', { dimension: 3 });
+      await manager.createAlias('products', 'products-v6');
+    });
+
+    it('should resolve an alias in getNamespace', async () => {
+      const namespace = await manager.getNamespace('products');
+      expect(namespace.name).toBe('products-v6');
+    });
+
+    it('should route to the new target as soon as the alias is swapped', async () => {
+      await manager.getNamespace('products');
+      await manager.swapAlias('products', 'products-v7');
+
+      const namespace = await manager.getNamespace('products');
+      expect(namespace.name).toBe('products-v7');
+    });
+
+    it('should refuse to delete a namespace an alias points at', async () => {
+      const error = await manager
+        .deleteNamespace('products-v6')
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(NamespaceDeletionBlockedError);
+      expect((error as NamespaceDeletionBlockedError).aliases).toEqual(['products']);
+      expect(await manager.namespaceExists('products-v6')).toBe(true);
+
+      await manager.swapAlias('products', 'products-v7');
+      await manager.deleteNamespace('products-v6');
+      expect(await manager.namespaceExists('products-v6')).toBe(false);
+    });
+  });
+
   describe('listNamespaces', () => {
     it('should list all namespaces', async () => {
       const namespaces = [
@@ -1,6 +1,13 @@
-import { NamespaceDeletionBlockedError, NamespaceNotFoundError } from '@/core/errors.js';
+import {
+  DimensionMismatchError,
+  NamespaceDeletionBlockedError,
+  NamespaceNotFoundError,
+} from '@/core/errors.js';
 import { InputValidator } from '@/core/input-validator.js';
 import type {
+  CopyVectorsOptions,
+  CopyVectorsResult,
+  NamespaceAlias,
   NamespaceConfig,
   NamespaceInfo,
   NamespaceStats,
@@ -23,11 +30,32 @@ interface RegistryBackend {
   exists(name: string): Promise<boolean>;
   findByPattern(pattern: string | RegExp): Promise<NamespaceInfo[]>;
   updateStats(name: string, stats: Partial<NamespaceStats>): Promise<void>;
+  updateConfig(
+    name: string,
+    config: NamespaceConfig,
+    stats?: Partial<NamespaceStats>,
+  ): Promise<NamespaceInfo>;
   getTotalStorageUsage(): Promise<number>;
+  createAlias(alias: string, target: string): Promise<NamespaceAlias>;
+  swapAlias(alias: string, target: string): Promise<string>;
+  resolveAlias(name: string): Promise<string | null>;
+  deleteAlias(alias: string): Promise<void>;
+  listAliases(): Promise<NamespaceAlias[]>;
   close(): Promise<void>;
   delete(): Promise<void>;
 }
 
+/**
+ * Config fields whose change invalidates a namespace's search index
+ */
+const INDEX_FIELDS = [
+  'distanceMetric',
+  'indexStrategy',
+  'autoIndex',
+  'indexConfig',
+  'compression',
+] as const satisfies ReadonlyArray<keyof NamespaceConfig>;
+
 /**
  * Manager for handling multiple vector namespaces
  */
@@ -36,12 +64,20 @@ export class NamespaceManager {
   private namespaces: Map<string, VectorNamespace>;
   private initialized = false;
   private storageFactory: StorageAdapterFactory | undefined;
+  private storageBackends: Record<string, StorageAdapterFactory>;
 
+  /**
+   * `storageBackends` names the adapters a namespace can select with its
+   * `storage` config; the others use `storageFactory`, or IndexedDB without
+   * one. The registry itself always uses `storageFactory`.
+   */
   constructor(
     private rootDatabaseName = 'vector-frankl-root',
     storageFactory?: StorageAdapterFactory,
+    storageBackends: Record<string, StorageAdapterFactory> = {},
   ) {
     this.storageFactory = storageFactory;
+    this.storageBackends = storageBackends;
 
     if (storageFactory) {
       // Use adapter-backed registry for non-browser environments
@@ -72,6 +108,8 @@ export class NamespaceManager {
    */
   async createNamespace(name: string, config: NamespaceConfig): Promise<VectorNamespace> {
     await this.ensureInitialized();
+    const storageFactory = this.storageFactoryFor(config);
+    this.validateConfig(config);
 
     // Register the namespace first
     await this.registry.register(name, config);
@@ -82,7 +120,7 @@ export class NamespaceManager {
         name,
         config,
         this.rootDatabaseName,
-        this.storageFactory,
+        storageFactory,
       );
       await namespace.init();
 
@@ -98,11 +136,14 @@ export class NamespaceManager {
   }
 
   /**
-   * Get an existing namespace
+   * Get an existing namespace, following `name` if it is an alias
    */
-  async getNamespace(name: string): Promise<VectorNamespace> {
+  async getNamespace(nameOrAlias: string): Promise<VectorNamespace> {
     await this.ensureInitialized();
 
+    // Resolve aliases on every call so a swap takes effect immediately
+    const name = (await this.registry.resolveAlias(nameOrAlias)) ?? nameOrAlias;
+
     // Check cache first
     if (this.namespaces.has(name)) {
       return this.namespaces.get(name)!;
@@ -119,7 +160,7 @@ export class NamespaceManager {
       name,
       info.config,
       this.rootDatabaseName,
-      this.storageFactory,
+      this.storageFactoryFor(info.config),
     );
     await namespace.init();
 
@@ -145,19 +186,29 @@ export class NamespaceManager {
       throw new NamespaceNotFoundError(name);
     }
 
+    // Refuse while aliases still route callers to it
+    const aliases = await this.registry.listAliases();
+    const blocking = aliases
+      .filter((alias) => alias.target === name)
+      .map((alias) => alias.alias);
+    if (blocking.length > 0) {
+      throw new NamespaceDeletionBlockedError(name, blocking);
+    }
+
     // Delete and remove from cache if loaded — this destroys the original adapter's data
+    const storageFactory = this.storageFactoryFor(info.config);
     if (this.namespaces.has(name)) {
       const namespace = this.namespaces.get(name)!;
       await namespace.delete();
       this.namespaces.delete(name);
-    } else if (this.storageFactory) {
+    } else if (storageFactory) {
       // Not loaded: create a temporary adapter to destroy persistent storage.
       // Validate the constructed name first, mirroring what VectorDB does on creation,
       // so the factory always receives an identical validated name regardless of path.
       const namespaceDatabaseName = InputValidator.validateDatabaseName(
         this.getNamespaceDatabaseName(name),
       );
-      const adapter = this.storageFactory(namespaceDatabaseName);
+      const adapter = storageFactory(namespaceDatabaseName);
       await adapter.init();
       await adapter.destroy();
     } else {
@@ -222,6 +273,161 @@ export class NamespaceManager {
     await this.registry.updateStats(name, stats);
   }
 
+  /**
+   * Change a namespace's config and persist it. A loaded namespace is
+   * reopened with the new settings in place, and its index is rebuilt from
+   * storage when the metric, index or compression settings changed. The
+   * dimension cannot change, and the storage backend changes only through
+   * `migrateNamespace()`.
+   */
+  async updateNamespaceConfig(
+    name: string,
+    changes: Partial<NamespaceConfig>,
+  ): Promise<NamespaceInfo> {
+    await this.ensureInitialized();
+
+    const info = await this.registry.get(name);
+    if (!info) {
+      throw new NamespaceNotFoundError(name);
+    }
+
+    const previous = info.config;
+    if (changes.dimension !== undefined && changes.dimension !== previous.dimension) {
+      throw new DimensionMismatchError(previous.dimension, changes.dimension);
+    }
+    if ('storage' in changes && changes.storage !== previous.storage) {
+      throw new Error(
+        `Cannot move namespace '${name}' to another storage backend in place; ` +
+          'use migrateNamespace()',
+      );
+    }
+
+    const config: NamespaceConfig = { ...previous, ...changes };
+    this.validateConfig(config);
+    const updated = await this.registry.updateConfig(name, config);
+
+    const namespace = this.namespaces.get(name);
+    if (namespace) {
+      const rebuildIndex = INDEX_FIELDS.some(
+        (field) => JSON.stringify(previous[field]) !== JSON.stringify(config[field]),
+      );
+      await namespace.reconfigure(config, { rebuildIndex });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Create `destination` with the config of `source` (or the namespace it
+   * aliases) and copy the source's vectors into it; see `VectorDB.copyTo()`.
+   * The destination is deleted again if the copy fails, and its registry
+   * stats are written once the copy completes.
+   */
+  async cloneNamespace(
+    source: string,
+    destination: string,
+    options: CopyVectorsOptions = {},
+  ): Promise<CopyVectorsResult & { namespace: VectorNamespace }> {
+    const sourceNamespace = await this.getNamespace(source);
+    const namespace = await this.createNamespace(destination, sourceNamespace.config);
+
+    let result: CopyVectorsResult;
+    try {
+      result = await sourceNamespace.copyTo(namespace, options);
+    } catch (error) {
+      await this.deleteNamespace(destination);
+      throw error;
+    }
+
+    const usage = await namespace.estimateStorageUsage();
+    await this.registry.updateStats(destination, {
+      vectorCount: usage.vectorCount,
+      storageSize: usage.estimatedBytes,
+    });
+
+    return { ...result, namespace };
+  }
+
+  /**
+   * Rename a namespace by cloning it to `to`, repointing the aliases that
+   * target it and deleting the original. Existing `VectorNamespace` handles
+   * for `from` are closed; fetch the namespace again under its new name.
+   */
+  async renameNamespace(
+    from: string,
+    to: string,
+    options: Omit<CopyVectorsOptions, 'filter' | 'transform'> = {},
+  ): Promise<CopyVectorsResult & { namespace: VectorNamespace }> {
+    await this.ensureInitialized();
+    if (!(await this.registry.exists(from))) {
+      throw new NamespaceNotFoundError(from);
+    }
+
+    const result = await this.cloneNamespace(from, to, options);
+
+    for (const alias of await this.registry.listAliases()) {
+      if (alias.target === from) {
+        await this.registry.swapAlias(alias.alias, to);
+      }
+    }
+    await this.deleteNamespace(from);
+
+    return result;
+  }
+
+  /**
+   * Move a namespace to another storage backend: a name from
+   * `storageBackends`, or null for the manager's default. Its vectors are
+   * copied into the new backend before the registry switches over, in one
+   * write that also records the new stats, and the old storage is then
+   * destroyed. Existing `VectorNamespace` handles are closed; fetch the
+   * namespace again to use the migrated copy.
+   */
+  async migrateNamespace(
+    name: string,
+    storage: string | null,
+    options: Omit<CopyVectorsOptions, 'filter' | 'transform'> = {},
+  ): Promise<CopyVectorsResult & { namespace: VectorNamespace }> {
+    const source = await this.getNamespace(name);
+    const previous = source.config;
+    if ((storage ?? undefined) === previous.storage) {
+      throw new Error(
+        `Namespace '${source.name}' already uses the ${storage ?? 'default'} storage backend`,
+      );
+    }
+
+    const config: NamespaceConfig = { ...previous };
+    delete config.storage;
+    if (storage !== null) {
+      config.storage = storage;
+    }
+    const namespace = new VectorNamespace(
+      source.name,
+      config,
+      this.rootDatabaseName,
+      this.storageFactoryFor(config),
+    );
+    await namespace.init();
+
+    let result: CopyVectorsResult;
+    try {
+      result = await source.copyTo(namespace, options);
+    } catch (error) {
+      await namespace.delete();
+      throw error;
+    }
+
+    const usage = await namespace.estimateStorageUsage();
+    await this.registry.updateConfig(source.name, config, {
+      vectorCount: usage.vectorCount,
+      storageSize: usage.estimatedBytes,
+    });
+    this.namespaces.set(source.name, namespace);
+    await source.delete();
+
+    return { ...result, namespace };
+  }
+
   /**
    * Get total storage usage across all namespaces
    */
@@ -230,6 +436,46 @@ export class NamespaceManager {
     return this.registry.getTotalStorageUsage();
   }
 
+  /**
+   * Point a new alias at an existing namespace
+   */
+  async createAlias(alias: string, target: string): Promise<NamespaceAlias> {
+    await this.ensureInitialized();
+    return this.registry.createAlias(alias, target);
+  }
+
+  /**
+   * Atomically repoint an alias, resolving to the target it replaced
+   */
+  async swapAlias(alias: string, target: string): Promise<string> {
+    await this.ensureInitialized();
+    return this.registry.swapAlias(alias, target);
+  }
+
+  /**
+   * The namespace `name` points at, or null when it is not an alias
+   */
+  async resolveAlias(name: string): Promise<string | null> {
+    await this.ensureInitialized();
+    return this.registry.resolveAlias(name);
+  }
+
+  /**
+   * Remove an alias
+   */
+  async deleteAlias(alias: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.registry.deleteAlias(alias);
+  }
+
+  /**
+   * List all aliases
+   */
+  async listAliases(): Promise<NamespaceAlias[]> {
+    await this.ensureInitialized();
+    return this.registry.listAliases();
+  }
+
   /**
    * Close all open namespaces
    */
@@ -253,6 +499,11 @@ export class NamespaceManager {
   async deleteAll(): Promise<void> {
     await this.ensureInitialized();
 
+    // Drop aliases first so they do not block deleting their targets
+    for (const alias of await this.listAliases()) {
+      await this.registry.deleteAlias(alias.alias);
+    }
+
     // Get all namespaces
     const allNamespaces = await this.listNamespaces();
 
@@ -266,6 +517,33 @@ export class NamespaceManager {
     this.initialized = false;
   }
 
+  /**
+   * The adapter factory for a namespace: its `storage` backend, else the
+   * manager's default
+   */
+  private storageFactoryFor(config: NamespaceConfig): StorageAdapterFactory | undefined {
+    if (config.storage === undefined) {
+      return this.storageFactory;
+    }
+    const factory = this.storageBackends[config.storage];
+    if (!factory) {
+      throw new Error(
+        `Unknown storage backend '${config.storage}'; register it in storageBackends`,
+      );
+    }
+    return factory;
+  }
+
+  /**
+   * Reject config values `VectorDB` would not catch itself
+   */
+  private validateConfig(config: NamespaceConfig): void {
+    const { quotaShare } = config;
+    if (quotaShare !== undefined && !(quotaShare > 0 && quotaShare <= 1)) {
+      throw new Error(`quotaShare must be in (0, 1], got ${quotaShare}`);
+    }
+  }
+
   /**
    * Get the database name for a namespace
    */
@@ -1,13 +1,54 @@
 import { VectorDB } from '@/api/database.js';
+import { QuotaExceededError } from '@/core/errors.js';
 import type {
   BatchOptions,
+  CopyVectorsOptions,
+  CopyVectorsResult,
   NamespaceConfig,
   SearchOptions,
   SearchResult,
+  SnapshotInfo,
   StorageAdapterFactory,
+  VectorColumns,
   VectorData,
   VectorFormat,
 } from '@/core/types.js';
+import type {
+  ArchiveReader,
+  ExportOptions,
+  ExportResult,
+  ImportOptions,
+  ImportResult,
+} from '@/storage/archive.js';
+import type { ArrowColumnOptions } from '@/storage/arrow-reader.js';
+import type { EvictionConfig, EvictionResult } from '@/storage/eviction-policy.js';
+import { StorageQuotaMonitor } from '@/storage/quota-monitor.js';
+import type { RestoreSnapshotResult } from '@/storage/snapshot-attachment.js';
+
+/**
+ * Open a namespace's `VectorDB` with the options its config carries
+ */
+function openVectorDB(
+  databaseName: string,
+  config: NamespaceConfig,
+  storageFactory: StorageAdapterFactory | undefined,
+): VectorDB {
+  return new VectorDB(databaseName, config.dimension, {
+    name: databaseName,
+    version: 1,
+    ...(config.distanceMetric && { distanceMetric: config.distanceMetric }),
+    ...(config.indexStrategy !== undefined && { indexStrategy: config.indexStrategy }),
+    ...(config.autoIndex !== undefined && { autoIndex: config.autoIndex }),
+    ...(config.indexConfig !== undefined && { indexConfig: config.indexConfig }),
+    ...(config.compression !== undefined && { compression: config.compression }),
+    ...(config.textIndex !== undefined && { textIndex: config.textIndex }),
+    ...(config.useWorkers !== undefined && { useWorkers: config.useWorkers }),
+    ...(config.useGPU !== undefined && { useGPU: config.useGPU }),
+    ...(config.gpuConfig !== undefined && { gpuConfig: config.gpuConfig }),
+    ...(config.autoEviction !== undefined && { autoEviction: config.autoEviction }),
+    ...(storageFactory && { storageFactory }),
+  });
+}
 
 /**
  * A namespace-scoped vector database
@@ -15,23 +56,27 @@ import type {
 export class VectorNamespace {
   private vectorDatabase: VectorDB;
   private databaseName: string;
+  private currentConfig: NamespaceConfig;
 
   constructor(
     public readonly name: string,
-    public readonly config: NamespaceConfig,
+    config: NamespaceConfig,
     rootDatabaseName: string,
-    storageFactory?: StorageAdapterFactory,
+    private readonly storageFactory?: StorageAdapterFactory,
   ) {
     // Create a unique database name for this namespace
     this.databaseName = `${rootDatabaseName}-ns-${name}`;
+    this.currentConfig = config;
 
     // Create the vector database with namespace config
-    this.vectorDatabase = new VectorDB(this.databaseName, config.dimension, {
-      name: this.databaseName,
-      version: 1,
-      ...(config.distanceMetric && { distanceMetric: config.distanceMetric }),
-      ...(storageFactory && { storageFactory }),
-    });
+    this.vectorDatabase = openVectorDB(this.databaseName, config, storageFactory);
+  }
+
+  /**
+   * The config the namespace is currently open with
+   */
+  get config(): NamespaceConfig {
+    return this.currentConfig;
   }
 
   /**
@@ -41,6 +86,24 @@ export class VectorNamespace {
     await this.vectorDatabase.init();
   }
 
+  /**
+   * Reopen the namespace's database with `config`, rebuilding its index from
+   * storage rather than a saved snapshot when `rebuildIndex` is set. See
+   * `NamespaceManager.updateNamespaceConfig()`.
+   */
+  async reconfigure(
+    config: NamespaceConfig,
+    options: { rebuildIndex?: boolean } = {},
+  ): Promise<void> {
+    await this.vectorDatabase.close();
+    this.currentConfig = config;
+    this.vectorDatabase = openVectorDB(this.databaseName, config, this.storageFactory);
+    await this.vectorDatabase.init();
+    if (options.rebuildIndex) {
+      await this.vectorDatabase.rebuildIndex({ loadFromCache: false });
+    }
+  }
+
   /**
    * Add a single vector
    */
@@ -49,6 +112,7 @@ export class VectorNamespace {
     vector: VectorFormat,
     metadata?: Record<string, unknown>,
   ): Promise<void> {
+    await this.assertQuotaShare(1);
     return this.vectorDatabase.addVector(id, vector, metadata);
   }
 
@@ -63,9 +127,29 @@ export class VectorNamespace {
     }>,
     options?: BatchOptions,
   ): Promise<void> {
+    await this.assertQuotaShare(vectors.length);
     return this.vectorDatabase.addBatch(vectors, options);
   }
 
+  /**
+   * Add vectors given as columns; see `VectorDB.addColumns()`
+   */
+  async addColumns(columns: VectorColumns, options?: BatchOptions): Promise<void> {
+    await this.assertQuotaShare(columns.ids.length);
+    return this.vectorDatabase.addColumns(columns, options);
+  }
+
+  /**
+   * Add the rows of an Arrow IPC stream or file; see `VectorDB.addArrow()`
+   */
+  async addArrow(
+    source: ReadableStream<Uint8Array> | Uint8Array | ArrayBuffer,
+    options?: ArrowColumnOptions & BatchOptions,
+  ): Promise<number> {
+    await this.assertQuotaShare(0);
+    return this.vectorDatabase.addArrow(source, options);
+  }
+
   /**
    * Get a vector by ID
    */
@@ -193,11 +277,7 @@ export class VectorNamespace {
     const stats = await this.getStats();
     const vectors = stats.vectorCount;
 
-    // Estimate: vector size + metadata + overhead
-    // Float32Array = 4 bytes per dimension
-    // Plus ~200 bytes overhead per vector for metadata and indices
-    const bytesPerVector = this.config.dimension * 4 + 200;
-    const estimatedBytes = vectors * bytesPerVector;
+    const estimatedBytes = vectors * this.bytesPerVector();
 
     return {
       vectorCount: vectors,
@@ -205,6 +285,139 @@ export class VectorNamespace {
     };
   }
 
+  /**
+   * Evict vectors now, using the namespace's `eviction` config as defaults;
+   * see `VectorDB.evictVectors()`
+   */
+  async evictVectors(config?: Partial<EvictionConfig>): Promise<EvictionResult> {
+    return this.vectorDatabase.evictVectors({ ...this.config.eviction, ...config });
+  }
+
+  /**
+   * Get search index statistics; see `VectorDB.getIndexStats()`
+   */
+  getIndexStats(): ReturnType<VectorDB['getIndexStats']> {
+    return this.vectorDatabase.getIndexStats();
+  }
+
+  /**
+   * Rebuild the namespace's search index; see `VectorDB.rebuildIndex()`
+   */
+  async rebuildIndex(options?: { loadFromCache?: boolean }): Promise<void> {
+    return this.vectorDatabase.rebuildIndex(options);
+  }
+
+  /**
+   * Copy this namespace's vectors into `target`, keeping within the target's
+   * `quotaShare`; see `VectorDB.copyTo()`
+   */
+  async copyTo(
+    target: VectorNamespace,
+    options?: CopyVectorsOptions,
+  ): Promise<CopyVectorsResult> {
+    const stats = await this.getStats();
+    await target.assertQuotaShare(stats.vectorCount);
+    return this.vectorDatabase.copyTo(target.vectorDatabase, options);
+  }
+
+  /**
+   * Stream this namespace to `destination` as a portable archive whose
+   * header records the namespace's name and config
+   */
+  async export(
+    destination: WritableStream<Uint8Array>,
+    options?: Omit<ExportOptions, 'namespace'>,
+  ): Promise<ExportResult> {
+    return this.vectorDatabase.export(destination, {
+      ...options,
+      namespace: { name: this.name, config: this.config },
+    });
+  }
+
+  /**
+   * Add the vectors of an archive or NDJSON dump to this namespace
+   */
+  async import(
+    source: ReadableStream<Uint8Array> | ArchiveReader,
+    options?: ImportOptions,
+  ): Promise<ImportResult> {
+    return this.vectorDatabase.import(source, options);
+  }
+
+  /**
+   * Take a named point-in-time copy of this namespace; see `VectorDB.createSnapshot()`
+   */
+  async createSnapshot(label: string): Promise<SnapshotInfo> {
+    return this.vectorDatabase.createSnapshot(label);
+  }
+
+  /**
+   * List this namespace's snapshots, oldest first
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return this.vectorDatabase.listSnapshots();
+  }
+
+  /**
+   * Replace this namespace's vectors with a snapshot's
+   */
+  async restoreSnapshot(label: string): Promise<RestoreSnapshotResult> {
+    return this.vectorDatabase.restoreSnapshot(label);
+  }
+
+  /**
+   * Delete one of this namespace's snapshots
+   */
+  async deleteSnapshot(label: string): Promise<boolean> {
+    return this.vectorDatabase.deleteSnapshot(label);
+  }
+
+  /**
+   * Estimated bytes per stored vector: 4 per dimension for the Float32Array
+   * plus ~200 of overhead for metadata and indices
+   */
+  private bytesPerVector(): number {
+    return this.config.dimension * 4 + 200;
+  }
+
+  /**
+   * Keep the namespace within its `quotaShare` of the origin quota before
+   * writing `incoming` more vectors, evicting per `eviction` when
+   * `autoEviction` allows. Sizes are estimates, and nothing is enforced where
+   * the quota cannot be read.
+   */
+  private async assertQuotaShare(incoming: number): Promise<void> {
+    const { quotaShare, autoEviction } = this.config;
+    if (quotaShare === undefined) {
+      return;
+    }
+
+    const estimate = await StorageQuotaMonitor.getInstance().forceCheck();
+    if (!estimate) {
+      return;
+    }
+
+    const limit = Math.floor(estimate.quota * quotaShare);
+    const incomingBytes = incoming * this.bytesPerVector();
+    const usage = await this.estimateStorageUsage();
+    let required = usage.estimatedBytes + incomingBytes;
+    if (required <= limit) {
+      return;
+    }
+
+    // Evicting cannot help a write larger than the whole share
+    if (autoEviction !== false && incomingBytes <= limit) {
+      await this.evictVectors({ targetBytes: required - limit });
+      const afterEviction = await this.estimateStorageUsage();
+      required = afterEviction.estimatedBytes + incomingBytes;
+      if (required <= limit) {
+        return;
+      }
+    }
+
+    throw new QuotaExceededError(required, limit);
+  }
+
   /**
    * Get the distance metric for this namespace
    */
@@ -287,4 +287,108 @@ describe('NamespaceRegistry', () => {
       expect(total).toBe(0);
     });
   });
+
+  describe('updateConfig', () => {
+    it('should replace the config and keep the stats', async () => {
+      await registry.register('test-ns', { dimension: 4 });
+      await registry.updateStats('test-ns', { vectorCount: 3 });
+
+      const updated = await registry.updateConfig('test-ns', {
+        dimension: 4,
+        indexStrategy: 'hnsw',
+        quotaShare: 0.5,
+      });
+
+      expect(updated.config).toEqual({
+        dimension: 4,
+        indexStrategy: 'hnsw',
+        quotaShare: 0.5,
+      });
+      const stored = await registry.get('test-ns');
+      expect(stored?.config.indexStrategy).toBe('hnsw');
+      expect(stored?.stats.vectorCount).toBe(3);
+    });
+
+    it('should merge stats given with the config', async () => {
+      await registry.register('test-ns', { dimension: 4 });
+      await registry.updateStats('test-ns', { vectorCount: 3, lastAccessed: 10 });
+
+      await registry.updateConfig(
+        'test-ns',
+        { dimension: 4, storage: 'archive' },
+        { vectorCount: 5, storageSize: 2048 },
+      );
+
+      const stored = await registry.get('test-ns');
+      expect(stored?.config.storage).toBe('archive');
+      expect(stored?.stats).toEqual({
+        vectorCount: 5,
+        storageSize: 2048,
+        lastAccessed: 10,
+      });
+    });
+
+    it('should throw for a missing namespace', async () => {
+      expect(registry.updateConfig('missing', { dimension: 4 })).rejects.toThrow(
+        NamespaceNotFoundError,
+      );
+    });
+  });
+
+  describe('aliases', () => {
+    beforeEach(async () => {
+      await registry.register('products-v6', { dimension: 4 });
+      await registry.register('products-v7', { dimension: 4 });
+    });
+
+    it('should create, resolve and swap an alias', async () => {
+      const alias = await registry.createAlias('products', 'products-v6');
+      expect(alias).toMatchObject({ alias: 'products', target: 'products-v6' });
+      expect(await registry.resolveAlias('products')).toBe('products-v6');
+
+      const previous = await registry.swapAlias('products', 'products-v7');
+      expect(previous).toBe('products-v6');
+      expect(await registry.resolveAlias('products')).toBe('products-v7');
+      expect(await registry.listAliases()).toHaveLength(1);
+    });
+
+    it('should keep aliases and namespaces in one name space', async () => {
+      await registry.createAlias('products', 'products-v6');
+
+      expect(registry.register('products', { dimension: 4 })).rejects.toThrow(
+        NamespaceExistsError,
+      );
+      expect(registry.createAlias('products-v7', 'products-v6')).rejects.toThrow(
+        NamespaceExistsError,
+      );
+      const namespaces = await registry.list();
+      expect(namespaces.map((ns) => ns.name).sort()).toEqual([
+        'products-v6',
+        'products-v7',
+      ]);
+    });
+
+    it('should refuse targets that are not namespaces', async () => {
+      await registry.createAlias('products', 'products-v6');
+
+      expect(registry.createAlias('catalog', 'missing')).rejects.toThrow(
+        NamespaceNotFoundError,
+      );
+      expect(registry.createAlias('catalog', 'products')).rejects.toThrow(
+        NamespaceNotFoundError,
+      );
+      expect(registry.swapAlias('products', 'missing')).rejects.toThrow(
+        NamespaceNotFoundError,
+      );
+      expect(await registry.resolveAlias('products')).toBe('products-v6');
+    });
+
+    it('should delete an alias', async () => {
+      await registry.createAlias('products', 'products-v6');
+      await registry.deleteAlias('products');
+
+      expect(await registry.resolveAlias('products')).toBeNull();
+      expect(registry.deleteAlias('products')).rejects.toThrow(NamespaceNotFoundError);
+    });
+  });
 });
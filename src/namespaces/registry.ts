@@ -8,6 +8,7 @@ import type {
   IndexedDatabaseUpgradeDatabase,
   IndexedDatabaseRequest,
   IndexedDatabaseTransaction,
+  NamespaceAlias,
   NamespaceConfig,
   NamespaceInfo,
   NamespaceStats,
@@ -21,6 +22,7 @@ export class NamespaceRegistry {
   static readonly STORES = {
     NAMESPACES: 'namespaces',
     CONFIG: 'config',
+    ALIASES: 'aliases',
   } as const;
 
   private database: VectorDatabase;
@@ -29,7 +31,7 @@ export class NamespaceRegistry {
   constructor(rootDatabaseName = 'vector-frankl-root') {
     this.database = new VectorDatabase({
       name: rootDatabaseName,
-      version: 1,
+      version: 2,
       onUpgrade: (db: IndexedDatabaseUpgradeDatabase) => {
         // Namespaces store
         if (!db.objectStoreNames.contains(NamespaceRegistry.STORES.NAMESPACES)) {
@@ -48,6 +50,11 @@ export class NamespaceRegistry {
         if (!db.objectStoreNames.contains(NamespaceRegistry.STORES.CONFIG)) {
           db.createObjectStore(NamespaceRegistry.STORES.CONFIG);
         }
+
+        // Aliases store (added in version 2)
+        if (!db.objectStoreNames.contains(NamespaceRegistry.STORES.ALIASES)) {
+          db.createObjectStore(NamespaceRegistry.STORES.ALIASES, { keyPath: 'alias' });
+        }
       },
     });
   }
@@ -87,17 +94,13 @@ export class NamespaceRegistry {
 
     try {
       await this.database.executeTransaction(
-        [NamespaceRegistry.STORES.NAMESPACES],
+        [NamespaceRegistry.STORES.NAMESPACES, NamespaceRegistry.STORES.ALIASES],
         'readwrite',
         async (tx: IndexedDatabaseTransaction) => {
           const namespaceStore = tx.objectStore(NamespaceRegistry.STORES.NAMESPACES);
 
-          // Check if namespace already exists
-          const existing = (await this.promisifyRequest(namespaceStore.get(name))) as
-            | NamespaceInfo
-            | undefined;
-
-          if (existing) {
+          // Check if a namespace or alias already uses the name
+          if (await this.isTaken(tx, name)) {
             throw new NamespaceExistsError(name);
           }
 
@@ -217,6 +220,51 @@ export class NamespaceRegistry {
     }
   }
 
+  /**
+   * Replace a namespace's config, merging `stats` in the same transaction
+   */
+  async updateConfig(
+    name: string,
+    config: NamespaceConfig,
+    stats: Partial<NamespaceStats> = {},
+  ): Promise<NamespaceInfo> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.database.executeTransaction(
+        [NamespaceRegistry.STORES.NAMESPACES],
+        'readwrite',
+        async (tx: IndexedDatabaseTransaction) => {
+          const namespaceStore = tx.objectStore(NamespaceRegistry.STORES.NAMESPACES);
+
+          const namespace = (await this.promisifyRequest(namespaceStore.get(name))) as
+            | NamespaceInfo
+            | undefined;
+
+          if (!namespace) {
+            throw new NamespaceNotFoundError(name);
+          }
+
+          namespace.config = config;
+          namespace.stats = { ...namespace.stats, ...stats };
+          namespace.modified = Date.now();
+
+          await this.promisifyRequest(namespaceStore.put(namespace));
+          return namespace;
+        },
+      );
+    } catch (error) {
+      if (error instanceof NamespaceNotFoundError) {
+        throw error;
+      }
+      throw new TransactionError(
+        'update namespace config',
+        'Failed to update namespace config',
+        error as Error,
+      );
+    }
+  }
+
   /**
    * Delete a namespace from the registry
    */
@@ -279,6 +327,176 @@ export class NamespaceRegistry {
     return allNamespaces.filter((ns) => regex.test(ns.name));
   }
 
+  /**
+   * Point a new alias at an existing namespace. Aliases share the namespace
+   * name space, so the alias must not name a namespace or another alias.
+   */
+  async createAlias(alias: string, target: string): Promise<NamespaceAlias> {
+    await this.ensureInitialized();
+
+    validateNamespaceName(alias);
+
+    const now = Date.now();
+    const entry: NamespaceAlias = { alias, target, created: now, modified: now };
+
+    try {
+      await this.database.executeTransaction(
+        [NamespaceRegistry.STORES.NAMESPACES, NamespaceRegistry.STORES.ALIASES],
+        'readwrite',
+        async (tx: IndexedDatabaseTransaction) => {
+          if (await this.isTaken(tx, alias)) {
+            throw new NamespaceExistsError(alias);
+          }
+          await this.requireNamespace(tx, target);
+
+          const aliasStore = tx.objectStore(NamespaceRegistry.STORES.ALIASES);
+          await this.promisifyRequest(aliasStore.add(entry));
+        },
+      );
+
+      return entry;
+    } catch (error) {
+      if (
+        error instanceof NamespaceExistsError ||
+        error instanceof NamespaceNotFoundError
+      ) {
+        throw error;
+      }
+      throw new TransactionError(
+        'create alias',
+        'Failed to create alias',
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * Repoint an existing alias, resolving to the target it replaced. The check
+   * and the write share one transaction, so readers see either target.
+   */
+  async swapAlias(alias: string, target: string): Promise<string> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.database.executeTransaction(
+        [NamespaceRegistry.STORES.NAMESPACES, NamespaceRegistry.STORES.ALIASES],
+        'readwrite',
+        async (tx: IndexedDatabaseTransaction) => {
+          const aliasStore = tx.objectStore(NamespaceRegistry.STORES.ALIASES);
+          const current = (await this.promisifyRequest(aliasStore.get(alias))) as
+            | NamespaceAlias
+            | undefined;
+
+          if (!current) {
+            throw new NamespaceNotFoundError(alias);
+          }
+          await this.requireNamespace(tx, target);
+
+          await this.promisifyRequest(
+            aliasStore.put({ ...current, target, modified: Date.now() }),
+          );
+          return current.target;
+        },
+      );
+    } catch (error) {
+      if (error instanceof NamespaceNotFoundError) {
+        throw error;
+      }
+      throw new TransactionError('swap alias', 'Failed to swap alias', error as Error);
+    }
+  }
+
+  /**
+   * The namespace `name` points at, or null when it is not an alias
+   */
+  async resolveAlias(name: string): Promise<string | null> {
+    await this.ensureInitialized();
+
+    try {
+      const alias = await this.database.executeTransaction(
+        [NamespaceRegistry.STORES.ALIASES],
+        'readonly',
+        async (tx: IndexedDatabaseTransaction) => {
+          const aliasStore = tx.objectStore(NamespaceRegistry.STORES.ALIASES);
+          return this.promisifyRequest(aliasStore.get(name)) as Promise<
+            NamespaceAlias | undefined
+          >;
+        },
+      );
+      return alias?.target ?? null;
+    } catch (error) {
+      throw new TransactionError(
+        'resolve alias',
+        'Failed to resolve alias',
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * Remove an alias; the namespace it pointed at is untouched
+   */
+  async deleteAlias(alias: string): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.database.executeTransaction(
+        [NamespaceRegistry.STORES.ALIASES],
+        'readwrite',
+        async (tx: IndexedDatabaseTransaction) => {
+          const aliasStore = tx.objectStore(NamespaceRegistry.STORES.ALIASES);
+          const existing = await this.promisifyRequest(aliasStore.get(alias));
+
+          if (!existing) {
+            throw new NamespaceNotFoundError(alias);
+          }
+
+          await this.promisifyRequest(aliasStore.delete(alias));
+        },
+      );
+    } catch (error) {
+      if (error instanceof NamespaceNotFoundError) {
+        throw error;
+      }
+      throw new TransactionError(
+        'delete alias',
+        'Failed to delete alias',
+        error as Error,
+      );
+    }
+  }
+
+  /**
+   * List all aliases
+   */
+  async listAliases(): Promise<NamespaceAlias[]> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.database.executeTransaction(
+        [NamespaceRegistry.STORES.ALIASES],
+        'readonly',
+        async (tx: IndexedDatabaseTransaction) => {
+          const aliasStore = tx.objectStore(NamespaceRegistry.STORES.ALIASES);
+          const aliases: NamespaceAlias[] = [];
+
+          const cursor = aliasStore.openCursor<NamespaceAlias>();
+          await this.iterateCursor(cursor, (value) => {
+            aliases.push(value);
+          });
+
+          return aliases;
+        },
+      );
+    } catch (error) {
+      throw new TransactionError(
+        'list aliases',
+        'Failed to list aliases',
+        error as Error,
+      );
+    }
+  }
+
   /**
    * Get total storage usage across all namespaces
    */
@@ -314,6 +532,34 @@ export class NamespaceRegistry {
     }
   }
 
+  /**
+   * Whether a namespace or alias already uses `name`
+   */
+  private async isTaken(tx: IndexedDatabaseTransaction, name: string): Promise<boolean> {
+    const namespace = await this.promisifyRequest(
+      tx.objectStore(NamespaceRegistry.STORES.NAMESPACES).get(name),
+    );
+    const alias = await this.promisifyRequest(
+      tx.objectStore(NamespaceRegistry.STORES.ALIASES).get(name),
+    );
+    return Boolean(namespace) || Boolean(alias);
+  }
+
+  /**
+   * Throw unless `name` is a registered namespace
+   */
+  private async requireNamespace(
+    tx: IndexedDatabaseTransaction,
+    name: string,
+  ): Promise<void> {
+    const namespace = await this.promisifyRequest(
+      tx.objectStore(NamespaceRegistry.STORES.NAMESPACES).get(name),
+    );
+    if (!namespace) {
+      throw new NamespaceNotFoundError(name);
+    }
+  }
+
   /**
    * Helper to promisify IndexedDB requests
    */
@@ -328,12 +574,12 @@ export class NamespaceRegistry {
   /**
    * Helper to iterate over a cursor
    */
-  private async iterateCursor(
+  private async iterateCursor<T>(
     cursorRequest: IndexedDatabaseRequest<{
-      readonly value: NamespaceInfo;
+      readonly value: T;
       continue(): void;
     } | null>,
-    callback: (value: NamespaceInfo) => void,
+    callback: (value: T) => void,
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       cursorRequest.onsuccess = () => {
@@ -125,6 +125,52 @@ export const WORKER_NORMALIZE_THRESHOLD = 100;
  */
 export const WORKER_BATCH_SIMILARITY_THRESHOLD = 10_000;
 
+// ---------------------------------------------------------------------------
+// Index selection
+// ---------------------------------------------------------------------------
+
+/**
+ * `indexConfig.type: 'auto'` picks an exact KD-tree at or below this vector
+ * dimension when the distance metric is euclidean or manhattan.
+ *
+ * Pruning by splitting planes degrades as dimension grows; past ~16
+ * dimensions a KD-tree visits most leaves and HNSW is used instead.
+ */
+export const KDTREE_AUTO_MAX_DIMENSION = 16;
+
+/**
+ * `indexStrategy: 'auto'` keeps brute-force search below this many vectors.
+ *
+ * Benchmark basis: an exact scan of 5000 × 256 dimensions on the worker path
+ * stays under ~10ms, while HNSW construction costs outweigh its query gains
+ * until the collection is queried many times.
+ */
+export const AUTO_INDEX_MIN_VECTORS = 5000;
+
+/**
+ * Brute-force limit for `indexStrategy: 'auto'` when the scan would run on
+ * an accelerated path (WebGPU or shared-memory workers, see
+ * {@link resolveExecutionPath}).
+ */
+export const AUTO_INDEX_ACCELERATED_MIN_VECTORS = 50_000;
+
+/**
+ * `indexStrategy: 'auto'` moves from HNSW to IVF at this many vectors, where
+ * the HNSW graph's in-memory copy of every vector becomes the main cost.
+ */
+export const AUTO_IVF_MIN_VECTORS = 100_000;
+
+/**
+ * Mean search latency (ms) above which `indexStrategy: 'auto'` builds an index
+ * before the vector-count thresholds are reached.
+ */
+export const AUTO_INDEX_LATENCY_BUDGET_MS = 50;
+
+/**
+ * Vectors written between re-evaluations of `indexStrategy: 'auto'`.
+ */
+export const AUTO_INDEX_REVIEW_INTERVAL = 100;
+
 // ---------------------------------------------------------------------------
 // Memory and backpressure limits
 // ---------------------------------------------------------------------------
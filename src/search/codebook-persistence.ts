@@ -0,0 +1,139 @@
+import { VectorDatabase } from '@/core/database.js';
+import { TransactionError } from '@/core/errors.js';
+import type {
+  IndexedDatabaseRequest,
+  StorageAdapter,
+  VectorCompressionConfig,
+} from '@/core/types.js';
+import type { PQCodebook } from '@/compression/product-quantizer.js';
+import { isStorageAdapter } from './index-persistence.js';
+
+/**
+ * Trained quantizer state for a compressed store. Only product quantization
+ * is trained, so only it saves a record.
+ */
+export interface PersistedCodebook {
+  key: string;
+  /** Random codebook id; stored code checksums are seeded with it */
+  id: number;
+  strategy: VectorCompressionConfig['strategy'];
+  dimension: number;
+  codebook: PQCodebook;
+  timestamp: number;
+}
+
+/** A codebook as a JSON document: centroids become plain number arrays */
+type CodebookDocument = Omit<PersistedCodebook, 'codebook'> & {
+  codebook: Omit<PQCodebook, 'centroids'> & { centroids: number[][][] };
+};
+
+/**
+ * Saves quantizer codebooks to the IndexedDB `config` store, next to the
+ * vectors they encode, or to the `codebooks` document collection of a
+ * StorageAdapter.
+ */
+export class CodebookPersistence {
+  private static readonly STORE_NAME = VectorDatabase.STORES.CONFIG;
+  private static readonly COLLECTION = 'codebooks';
+
+  constructor(private database: VectorDatabase | StorageAdapter) {}
+
+  async save(record: PersistedCodebook): Promise<void> {
+    if (isStorageAdapter(this.database)) {
+      const document: CodebookDocument = {
+        ...record,
+        codebook: {
+          ...record.codebook,
+          centroids: record.codebook.centroids.map((subspace) =>
+            subspace.map((centroid) => Array.from(centroid)),
+          ),
+        },
+      };
+      await this.database.putDocument(
+        CodebookPersistence.COLLECTION,
+        record.key,
+        document,
+      );
+      return;
+    }
+
+    await this.database.executeTransaction(
+      CodebookPersistence.STORE_NAME,
+      'readwrite',
+      async (transaction) => {
+        const store = transaction.objectStore(CodebookPersistence.STORE_NAME);
+        await this.request(
+          store.put(record),
+          'save codebook',
+          `Failed to save codebook: ${record.key}`,
+        );
+      },
+    );
+  }
+
+  async load(key: string): Promise<PersistedCodebook | null> {
+    if (isStorageAdapter(this.database)) {
+      const document = await this.database.getDocument<CodebookDocument>(
+        CodebookPersistence.COLLECTION,
+        key,
+      );
+      return (
+        document && {
+          ...document,
+          codebook: {
+            ...document.codebook,
+            centroids: document.codebook.centroids.map((subspace) =>
+              subspace.map((centroid) => new Float32Array(centroid)),
+            ),
+          },
+        }
+      );
+    }
+
+    return this.database.executeTransaction(
+      CodebookPersistence.STORE_NAME,
+      'readonly',
+      async (transaction) => {
+        const store = transaction.objectStore(CodebookPersistence.STORE_NAME);
+        const record = await this.request(
+          store.get<PersistedCodebook>(key),
+          'load codebook',
+          `Failed to load codebook: ${key}`,
+        );
+        return record ?? null;
+      },
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    if (isStorageAdapter(this.database)) {
+      await this.database.deleteDocument(CodebookPersistence.COLLECTION, key);
+      return;
+    }
+
+    await this.database.executeTransaction(
+      CodebookPersistence.STORE_NAME,
+      'readwrite',
+      async (transaction) => {
+        const store = transaction.objectStore(CodebookPersistence.STORE_NAME);
+        await this.request(
+          store.delete(key),
+          'delete codebook',
+          `Failed to delete codebook: ${key}`,
+        );
+      },
+    );
+  }
+
+  private request<T>(
+    request: IndexedDatabaseRequest<T>,
+    operation: string,
+    message: string,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () =>
+        reject(new TransactionError(operation, message, request.error || undefined));
+    });
+  }
+}
@@ -21,6 +21,58 @@ interface HNSWConfig {
   efConstruction: number; // Size of candidate list during construction
   maxLevel: number; // Maximum level
   seed?: number; // Random seed for reproducibility
+  deletionMode: HNSWDeletionMode; // How removeVector() deletes nodes
+  filterBruteForceSelectivity: number; // Estimated match ratio at or below which filtered search scans
+}
+
+/**
+ * Graph state returned by `HNSWIndex.exportGraph()`.
+ */
+export interface HNSWGraphState {
+  nodes: Array<{
+    id: string;
+    vector: Float32Array;
+    metadata?: Record<string, unknown>;
+    level: number;
+    connections: Array<[number, string[]]>;
+  }>;
+  entryPoint: string | null;
+  tombstones: string[];
+  config: HNSWConfig;
+}
+
+/**
+ * Predicate evaluated against node metadata during filtered search.
+ */
+export type HNSWFilter = (metadata: Record<string, unknown>) => boolean;
+
+/** Nodes sampled to estimate how selective a filter is. */
+const FILTER_SAMPLE_SIZE = 256;
+
+/**
+ * How `HNSWIndex.removeVector()` deletes a node.
+ *
+ * - `repair`: unlink the node immediately and reconnect its former neighbours.
+ * - `tombstone`: keep the node as a routing waypoint but exclude it from
+ *   results. Cheap per delete; call `compact()` to purge tombstones.
+ */
+export type HNSWDeletionMode = 'repair' | 'tombstone';
+
+/**
+ * Result of `HNSWIndex.compact()`.
+ *
+ * Reachability counts live (non-tombstoned) nodes reachable from the entry
+ * point on the base layer, which is where every search ends.
+ */
+export interface HNSWCompactionResult {
+  /** Tombstoned nodes purged from the graph. */
+  removed: number;
+  /** Live nodes reachable before compaction. */
+  reachableBefore: number;
+  /** Live nodes reachable after compaction. */
+  reachableAfter: number;
+  /** Live nodes in the index after compaction. */
+  nodeCount: number;
 }
 
 /**
@@ -35,14 +87,14 @@ interface HNSWConfig {
  *   quality at various dataset sizes, dimensions, and parameter settings is
  *   unknown.
  *
- * - **Deletion**: `removeVector` removes connections from the deleted node's
- *   neighbors but does not reconnect the graph. Removing a high-degree or
- *   high-level node may create unreachable regions in the graph, silently
- *   degrading recall without error.
+ * - **Deletion**: `removeVector` reconnects the deleted node's neighbours
+ *   with the same selection used on insert (or, in `tombstone` mode, only
+ *   hides the node). Repair is local, so heavy churn can still leave nodes
+ *   unreachable; `compact()` purges tombstones, rewires unreachable nodes and
+ *   reports reachability before and after.
  *
- * - **Update**: Updates are implemented as remove-then-re-insert. If the
- *   remove step leaves isolated graph regions (see Deletion above), search
- *   quality after repeated updates is undefined.
+ * - **Update**: Updates are implemented as remove-then-re-insert, so they
+ *   inherit the deletion behaviour above.
  *
  * - **Persistence**: Index snapshots are saved to IndexedDB, but eviction of
  *   dirty entries from `IndexCache` is not durably guaranteed. An evicted dirty
@@ -59,6 +111,8 @@ interface HNSWConfig {
  */
 export class HNSWIndex {
   private nodes = new Map<string, HNSWNode>();
+  /** Soft-deleted node IDs: traversed during search but never returned. */
+  private tombstones = new Set<string>();
   private entryPoint: string | null = null;
   private distanceCalculator: DistanceCalculator;
   private config: HNSWConfig;
@@ -75,6 +129,8 @@ export class HNSWIndex {
       efConstruction: 200,
       maxLevel: 5,
       seed: 42,
+      deletionMode: 'repair',
+      filterBruteForceSelectivity: 0.02,
       ...config,
     };
 
@@ -88,6 +144,12 @@ export class HNSWIndex {
    * @experimental See class-level docs for known limitations.
    */
   async addVector(vectorData: VectorData): Promise<void> {
+    // Re-adding an ID, live or soft-deleted, replaces its node outright;
+    // inserting over a live node would link it to itself.
+    if (this.nodes.has(vectorData.id)) {
+      this.deleteNode(vectorData.id);
+    }
+
     const level = this.getRandomLevel();
     const node: HNSWNode = {
       id: vectorData.id,
@@ -176,12 +238,20 @@ export class HNSWIndex {
    *
    * Returns approximate results. Recall is not benchmarked or guaranteed.
    *
+   * When `filter` is given, only nodes whose metadata passes it are returned.
+   * The predicate is evaluated during the base-layer traversal, which keeps
+   * expanding until `ef` passing nodes are found, so restrictive filters still
+   * fill `k` results. Filters estimated to match at most
+   * `filterBruteForceSelectivity` of the nodes (or fewer than `ef` nodes) are
+   * answered with an exact scan of the index instead.
+   *
    * @experimental See class-level docs for known limitations.
    */
   async search(
     queryVector: Float32Array,
     k: number,
     ef: number = this.config.efConstruction,
+    filter?: HNSWFilter,
   ): Promise<
     Array<{ id: string; distance: number; metadata?: Record<string, unknown> }>
   > {
@@ -189,19 +259,34 @@ export class HNSWIndex {
       return [];
     }
 
-    // Search from entry point to level 1
-    let currentClosest = this.entryPoint;
-    for (let level = this.getNodeLevel(currentClosest); level > 0; level--) {
-      const candidates = this.searchLevel(queryVector, currentClosest, 1, level);
-      if (candidates.length > 0) {
-        currentClosest = candidates[0]!;
-      }
+    if (filter) {
+      return this.searchFiltered(queryVector, k, Math.max(ef, k), filter);
     }
 
-    // Search level 0 with ef
-    const candidates = this.searchLevel(queryVector, currentClosest, Math.max(ef, k), 0);
+    const entryPoint = this.routeToBaseLayer(queryVector);
+
+    // Tombstones are routed through but kept out of the beam, which expands
+    // until it holds ef live nodes however many tombstones it passes
+    if (this.tombstones.size > 0) {
+      return this.searchLevelFiltered(
+        queryVector,
+        entryPoint,
+        Math.max(ef, k),
+        (node) => !this.tombstones.has(node.id),
+      )
+        .slice(0, k)
+        .map(({ id, distance }) => {
+          const node = this.nodes.get(id)!;
+          return {
+            id,
+            distance,
+            ...(node.metadata && { metadata: node.metadata }),
+          };
+        });
+    }
 
-    // Return top k results
+    // Search level 0 with ef and return the top k
+    const candidates = this.searchLevel(queryVector, entryPoint, Math.max(ef, k), 0);
     return candidates.slice(0, k).map((nodeId) => {
       const node = this.nodes.get(nodeId)!;
       return {
@@ -212,17 +297,224 @@ export class HNSWIndex {
     });
   }
 
+  /**
+   * Estimate the fraction of live nodes whose metadata passes `filter`.
+   *
+   * Evaluates the filter on up to 256 nodes taken at an even stride across
+   * insertion order, so records inserted in per-tenant batches are still
+   * represented. Returns 0 for an empty index.
+   */
+  estimateFilterSelectivity(filter: HNSWFilter): number {
+    const liveCount = this.size();
+    if (liveCount === 0) {
+      return 0;
+    }
+
+    const stride = Math.max(1, this.nodes.size / FILTER_SAMPLE_SIZE);
+    let nextSample = 0;
+    let position = 0;
+    let sampled = 0;
+    let matched = 0;
+
+    for (const node of this.nodes.values()) {
+      if (position++ < nextSample) continue;
+      nextSample += stride;
+      if (this.tombstones.has(node.id)) continue;
+      sampled++;
+      if (filter(node.metadata ?? {})) matched++;
+    }
+
+    return sampled === 0 ? 0 : matched / sampled;
+  }
+
+  /**
+   * Filtered k-NN: route through the upper layers unfiltered, then run a
+   * filter-aware beam search on the base layer, or scan when the filter is
+   * estimated to be too narrow for the graph to reach enough matches.
+   */
+  private searchFiltered(
+    queryVector: Float32Array,
+    k: number,
+    ef: number,
+    filter: HNSWFilter,
+  ): Array<{ id: string; distance: number; metadata?: Record<string, unknown> }> {
+    const accepts = (node: HNSWNode) =>
+      !this.tombstones.has(node.id) && filter(node.metadata ?? {});
+
+    const selectivity = this.estimateFilterSelectivity(filter);
+    const ranked =
+      selectivity <= this.config.filterBruteForceSelectivity ||
+      selectivity * this.size() < ef
+        ? this.scanFiltered(queryVector, k, accepts)
+        : this.searchLevelFiltered(
+            queryVector,
+            this.routeToBaseLayer(queryVector),
+            ef,
+            accepts,
+          ).slice(0, k);
+
+    return ranked.map(({ id, distance }) => {
+      const node = this.nodes.get(id)!;
+      return {
+        id,
+        distance,
+        ...(node.metadata && { metadata: node.metadata }),
+      };
+    });
+  }
+
+  /**
+   * Greedy descent from the entry point to the closest node on level 1.
+   */
+  private routeToBaseLayer(queryVector: Float32Array): string {
+    let currentClosest = this.entryPoint!;
+    for (let level = this.getNodeLevel(currentClosest); level > 0; level--) {
+      const candidates = this.searchLevel(queryVector, currentClosest, 1, level);
+      if (candidates.length > 0) {
+        currentClosest = candidates[0]!;
+      }
+    }
+    return currentClosest;
+  }
+
+  /**
+   * Exact filtered search over every node in the index.
+   */
+  private scanFiltered(
+    queryVector: Float32Array,
+    k: number,
+    accepts: (node: HNSWNode) => boolean,
+  ): Array<{ id: string; distance: number }> {
+    const matches: Array<{ id: string; distance: number }> = [];
+    for (const node of this.nodes.values()) {
+      if (!accepts(node)) continue;
+      matches.push({
+        id: node.id,
+        distance: this.distanceCalculator.calculate(queryVector, node.vector),
+      });
+    }
+    return matches
+      .sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id))
+      .slice(0, k);
+  }
+
+  /**
+   * Base-layer beam search that only collects nodes passing `accepts`.
+   *
+   * Rejected nodes are still expanded so the search can route through them.
+   * The search stops once `ef` passing nodes are held and the closest
+   * unexpanded candidate is farther than the worst of them; until then it
+   * keeps expanding, up to the whole connected graph.
+   */
+  private searchLevelFiltered(
+    queryVector: Float32Array,
+    entryPoint: string,
+    ef: number,
+    accepts: (node: HNSWNode) => boolean,
+  ): Array<{ id: string; distance: number }> {
+    const entryNode = this.nodes.get(entryPoint);
+    if (!entryNode) return [];
+
+    const visited = new Set<string>([entryPoint]);
+    const candidates = new CandidateHeap(); // not yet expanded, closest first
+    const results: Array<{ id: string; distance: number }> = []; // sorted ascending
+
+    const consider = (node: HNSWNode, distance: number) => {
+      const bound = results.length >= ef ? results[ef - 1]!.distance : Infinity;
+      if (distance >= bound) return;
+
+      candidates.push(node.id, distance);
+      if (!accepts(node)) return;
+
+      let index = results.length;
+      while (index > 0 && results[index - 1]!.distance > distance) index--;
+      results.splice(index, 0, { id: node.id, distance });
+      if (results.length > ef) results.pop();
+    };
+
+    consider(entryNode, this.distanceCalculator.calculate(queryVector, entryNode.vector));
+
+    while (candidates.size > 0) {
+      const { id: closest, distance: closestDistance } = candidates.pop()!;
+
+      if (results.length >= ef && closestDistance > results[ef - 1]!.distance) {
+        break;
+      }
+
+      const node = this.nodes.get(closest);
+      if (!node) continue;
+
+      for (const neighborId of node.connections.get(0) ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighborNode = this.nodes.get(neighborId);
+        if (!neighborNode) continue; // skip stale/deleted neighbour
+
+        consider(
+          neighborNode,
+          this.distanceCalculator.calculate(queryVector, neighborNode.vector),
+        );
+      }
+    }
+
+    return results;
+  }
+
   /**
    * Remove a vector from the index.
    *
-   * **Known limitation (experimental):** This method removes the node and
-   * clears its connections from neighboring nodes, but does not reconnect the
-   * graph. Removing high-degree or high-level nodes may leave unreachable
-   * regions in the index, silently degrading recall without error.
+   * In `repair` mode (the default) the node is unlinked and each former
+   * neighbour is reconnected, choosing from its remaining neighbours and the
+   * deleted node's neighbours. In `tombstone` mode the node stays in the graph
+   * for routing but is excluded from results until {@link compact} runs.
    *
    * @experimental See class-level docs for known limitations.
    */
   async removeVector(id: string): Promise<void> {
+    if (!this.nodes.has(id)) return;
+
+    if (this.config.deletionMode === 'tombstone') {
+      this.tombstones.add(id);
+      return;
+    }
+
+    this.deleteNode(id);
+  }
+
+  /**
+   * Purge tombstoned nodes (repairing around each) and reconnect live nodes
+   * that are no longer reachable from the entry point on the base layer.
+   *
+   * @experimental See class-level docs for known limitations.
+   */
+  async compact(): Promise<HNSWCompactionResult> {
+    const reachableBefore = this.countReachable();
+
+    const tombstoned = [...this.tombstones];
+    for (const id of tombstoned) {
+      this.deleteNode(id);
+    }
+
+    const reached = this.reachableFrom(this.entryPoint);
+    for (const node of this.nodes.values()) {
+      if (!reached.has(node.id)) {
+        this.reconnectNode(node);
+      }
+    }
+
+    return {
+      removed: tombstoned.length,
+      reachableBefore,
+      reachableAfter: this.countReachable(),
+      nodeCount: this.size(),
+    };
+  }
+
+  /**
+   * Unlink a node from the graph and reconnect its former neighbours.
+   */
+  private deleteNode(id: string): void {
     const node = this.nodes.get(id);
     if (!node) return;
 
@@ -235,11 +527,106 @@ export class HNSWIndex {
 
     // Delete the node first so findNewEntryPoint cannot re-select it
     this.nodes.delete(id);
+    this.tombstones.delete(id);
 
     // Update entry point after the node is gone
     if (this.entryPoint === id) {
       this.entryPoint = this.findNewEntryPoint();
     }
+
+    // Each orphaned neighbour picks replacements from its own remaining
+    // neighbours plus the deleted node's neighbours, which are the nodes most
+    // likely to restore the paths that ran through the deleted node.
+    for (const [level, formerNeighbours] of node.connections) {
+      for (const neighbourId of formerNeighbours) {
+        const neighbour = this.nodes.get(neighbourId);
+        if (!neighbour) continue;
+
+        const current = neighbour.connections.get(level) ?? new Set<string>();
+        const pool = new Set([...current, ...formerNeighbours]);
+        pool.delete(neighbourId);
+
+        const selected = this.selectConnections(
+          neighbour.vector,
+          [...pool].filter((candidateId) => this.nodes.has(candidateId)),
+          level === 0 ? this.config.m * 2 : this.config.m,
+        );
+
+        for (const candidateId of selected) {
+          if (current.has(candidateId)) continue;
+          this.addConnection(neighbourId, candidateId, level);
+          this.addConnection(candidateId, neighbourId, level);
+          this.pruneConnections(candidateId, level);
+        }
+        this.pruneConnections(neighbourId, level);
+      }
+    }
+  }
+
+  /**
+   * Connect a node on the base layer to its nearest reachable nodes, as if it
+   * were being inserted again.
+   */
+  private reconnectNode(node: HNSWNode): void {
+    if (!this.entryPoint || this.entryPoint === node.id) return;
+
+    let currentClosest = this.entryPoint;
+    for (let level = this.getNodeLevel(currentClosest); level > 0; level--) {
+      const candidates = this.searchLevel(node.vector, currentClosest, 1, level);
+      if (candidates.length > 0) {
+        currentClosest = candidates[0]!;
+      }
+    }
+
+    const candidates = this.searchLevel(
+      node.vector,
+      currentClosest,
+      this.config.efConstruction,
+      0,
+    ).filter((candidateId) => candidateId !== node.id);
+
+    for (const candidateId of this.selectConnections(
+      node.vector,
+      candidates,
+      this.config.m * 2,
+    )) {
+      this.addConnection(node.id, candidateId, 0);
+      this.addConnection(candidateId, node.id, 0);
+      this.pruneConnections(candidateId, 0);
+    }
+    this.pruneConnections(node.id, 0);
+  }
+
+  /**
+   * IDs reachable from `start` by following base-layer connections.
+   */
+  private reachableFrom(start: string | null): Set<string> {
+    const reached = new Set<string>();
+    if (!start || !this.nodes.has(start)) return reached;
+
+    const queue = [start];
+    reached.add(start);
+    while (queue.length > 0) {
+      const node = this.nodes.get(queue.pop()!);
+      for (const neighbourId of node?.connections.get(0) ?? []) {
+        if (!reached.has(neighbourId) && this.nodes.has(neighbourId)) {
+          reached.add(neighbourId);
+          queue.push(neighbourId);
+        }
+      }
+    }
+    return reached;
+  }
+
+  /**
+   * Count live nodes reachable from the entry point on the base layer.
+   */
+  private countReachable(): number {
+    let count = 0;
+    for (const id of this.reachableFrom(this.entryPoint)) {
+      if (!this.tombstones.has(id)) count++;
+    }
+    return count;
   }
 
   /**
@@ -247,6 +634,7 @@ export class HNSWIndex {
    */
   getStats(): {
     nodeCount: number;
+    tombstoneCount: number;
     levels: number[];
     entryPoint: string | null;
     avgConnections: number;
@@ -262,7 +650,8 @@ export class HNSWIndex {
     }
 
     return {
-      nodeCount: this.nodes.size,
+      nodeCount: this.size(),
+      tombstoneCount: this.tombstones.size,
       levels,
       entryPoint: this.entryPoint,
       avgConnections: this.nodes.size > 0 ? totalConnections / this.nodes.size : 0,
@@ -510,62 +899,66 @@ export class HNSWIndex {
       connections: Array<[number, string[]]>;
     }>;
     entryPoint: string | null;
+    tombstones: string[];
     config: HNSWConfig;
   } {
-    const nodes: Array<{
-      id: string;
-      vector: number[];
-      metadata?: Record<string, unknown>;
-      level: number;
-      connections: Array<[number, string[]]>;
-    }> = [];
+    const graph = this.exportGraph();
+    return {
+      ...graph,
+      nodes: graph.nodes.map((node) => ({ ...node, vector: Array.from(node.vector) })),
+    };
+  }
+
+  /**
+   * Export the graph with vectors left as the index's own `Float32Array`s.
+   *
+   * Used by binary snapshots, which copy vectors into one contiguous block
+   * rather than converting them to number arrays. Callers must not mutate
+   * the returned vectors.
+   */
+  exportGraph(): HNSWGraphState {
+    const nodes: HNSWGraphState['nodes'] = [];
 
     for (const node of this.nodes.values()) {
       const connections: Array<[number, string[]]> = [];
       for (const [level, connSet] of node.connections) {
         connections.push([level, Array.from(connSet)]);
       }
-
-      const exported: {
-        id: string;
-        vector: number[];
-        metadata?: Record<string, unknown>;
-        level: number;
-        connections: Array<[number, string[]]>;
-      } = {
+      nodes.push({
         id: node.id,
-        vector: Array.from(node.vector),
+        vector: node.vector,
         level: node.level,
         connections,
-      };
-      if (node.metadata) {
-        exported.metadata = node.metadata;
-      }
-      nodes.push(exported);
+        ...(node.metadata && { metadata: node.metadata }),
+      });
     }
 
     return {
       nodes,
       entryPoint: this.entryPoint,
+      tombstones: [...this.tombstones],
       config: { ...this.config },
     };
   }
 
   /**
    * Import state from a previously exported snapshot, replacing all current data.
+   * `Float32Array` vectors are adopted without copying.
    */
   importState(state: {
     nodes: Array<{
       id: string;
-      vector: number[];
+      vector: number[] | Float32Array;
       metadata?: Record<string, unknown>;
       level: number;
       connections: Array<[number, string[]]>;
     }>;
     entryPoint: string | null;
+    tombstones?: string[];
   }): void {
     this.nodes.clear();
     this.entryPoint = state.entryPoint;
+    this.tombstones = new Set(state.tombstones ?? []);
 
     for (const serialized of state.nodes) {
       const connections = new Map<number, Set<string>>();
@@ -575,7 +968,10 @@ export class HNSWIndex {
 
       const node: HNSWNode = {
         id: serialized.id,
-        vector: new Float32Array(serialized.vector),
+        vector:
+          serialized.vector instanceof Float32Array
+            ? serialized.vector
+            : new Float32Array(serialized.vector),
         level: serialized.level,
         connections,
       };
@@ -591,13 +987,62 @@ export class HNSWIndex {
    */
   clear(): void {
     this.nodes.clear();
+    this.tombstones.clear();
     this.entryPoint = null;
   }
 
   /**
-   * Get the size of the index
+   * Get the number of live (non-tombstoned) vectors in the index
    */
   size(): number {
-    return this.nodes.size;
+    return this.nodes.size - this.tombstones.size;
+  }
+}
+
+/**
+ * Binary min-heap of search candidates keyed by distance.
+ */
+class CandidateHeap {
+  private entries: Array<{ id: string; distance: number }> = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(id: string, distance: number): void {
+    const entries = this.entries;
+    entries.push({ id, distance });
+    let index = entries.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (entries[parent]!.distance <= distance) break;
+      entries[index] = entries[parent]!;
+      index = parent;
+    }
+    entries[index] = { id, distance };
+  }
+
+  /** Remove and return the closest candidate */
+  pop(): { id: string; distance: number } | undefined {
+    const entries = this.entries;
+    const top = entries[0];
+    const last = entries.pop();
+    if (!top || !last || entries.length === 0) return top;
+
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      if (left >= entries.length) break;
+      const right = left + 1;
+      const child =
+        right < entries.length && entries[right]!.distance < entries[left]!.distance
+          ? right
+          : left;
+      if (entries[child]!.distance >= last.distance) break;
+      entries[index] = entries[child]!;
+      index = child;
+    }
+    entries[index] = last;
+    return top;
   }
 }
@@ -0,0 +1,327 @@
+import { StorageCorruptionError, StorageFormatError } from '@/core/errors.js';
+import { crc32 } from '@/storage/adapters/serialization.js';
+import type { HNSWGraphState } from './hnsw-index.js';
+
+// ---------------------------------------------------------------------------
+// Versioned binary HNSW snapshot
+//
+// Wire format (version 1):
+//
+//   Offset  Size  Field
+//   ------  ----  -----
+//   0       4     Magic marker: 0x484E5357 ("HNSW")
+//   4       1     Format version (currently 1)
+//   5       1     Flags (bit 0: vector block present)
+//   6       2     Reserved / padding (zeros)
+//   8       4     Node count (uint32 LE)
+//   12      4     Vector dimension, 0 when vectors are omitted (uint32 LE)
+//   16      4     Adjacency length in uint32 words (uint32 LE)
+//   20      4     Manifest JSON byte length (uint32 LE)
+//   24      4     CRC-32 checksum over entire buffer (checksum field zeroed)
+//   28      4     Reserved / padding (zeros)
+//   32      V     Float32 vector block, node-major (V = nodes × dimension × 4)
+//   32+V    A     Adjacency block (A = words × 4), per node in manifest order:
+//                 [level, count₀, neighbour…, count₁, neighbour…, …]
+//                 with neighbours as node positions rather than string IDs
+//   32+V+A  M     UTF-8 JSON manifest: IDs, metadata, entry point, tombstones,
+//                 config and distance metric
+//
+// The header is 32 bytes, so both the Float32 and Uint32 blocks are 4-byte
+// aligned. Without the vector block the snapshot is a graph over storage IDs;
+// the loader must supply vectors from the vector store.
+// ---------------------------------------------------------------------------
+
+/** Magic bytes that identify a binary HNSW snapshot. */
+export const HNSW_SNAPSHOT_MAGIC = 0x484e5357; // "HNSW"
+
+/** Currently supported snapshot format versions.  Add future versions here. */
+export const SUPPORTED_HNSW_SNAPSHOT_VERSIONS = [1] as const;
+
+const OFFSET_MAGIC = 0;
+const OFFSET_VERSION = 4;
+const OFFSET_FLAGS = 5;
+const OFFSET_NODE_COUNT = 8;
+const OFFSET_DIMENSION = 12;
+const OFFSET_ADJACENCY_LENGTH = 16;
+const OFFSET_MANIFEST_LENGTH = 20;
+const OFFSET_CHECKSUM = 24;
+const HEADER_SIZE = 32;
+
+const FLAG_VECTORS = 1;
+
+/** Maximum allowed vector dimension encoded in a snapshot header. */
+const MAX_VECTOR_DIMENSION = 100_000;
+
+/** JSON tail holding everything that is not a vector or an edge. */
+interface SnapshotManifest {
+  ids: string[];
+  /** Node position → metadata, for nodes that carry metadata. */
+  metadata: Record<number, Record<string, unknown>>;
+  /** Position of the entry point, or -1 for an empty graph. */
+  entryPoint: number;
+  tombstones: number[];
+  config: HNSWGraphState['config'];
+  distanceMetric: string;
+  timestamp: number;
+}
+
+/**
+ * A decoded snapshot. Node vectors are absent when the snapshot was written
+ * without its vector block.
+ */
+export interface DecodedHNSWSnapshot {
+  nodes: Array<{
+    id: string;
+    vector?: Float32Array;
+    metadata?: Record<string, unknown>;
+    level: number;
+    connections: Array<[number, string[]]>;
+  }>;
+  entryPoint: string | null;
+  tombstones: string[];
+  config: HNSWGraphState['config'];
+  distanceMetric: string;
+  timestamp: number;
+  includesVectors: boolean;
+}
+
+/**
+ * Encode an HNSW graph as a versioned binary snapshot.
+ *
+ * Edges to nodes that are no longer in the graph are dropped. With
+ * `includeVectors: false` only the graph is written and vectors must be
+ * resolved by ID on load.
+ */
+export function encodeHNSWSnapshot(
+  graph: HNSWGraphState,
+  distanceMetric: string,
+  options: { includeVectors?: boolean } = {},
+): ArrayBuffer {
+  const includeVectors = options.includeVectors ?? true;
+  const nodeCount = graph.nodes.length;
+
+  const positions = new Map<string, number>();
+  graph.nodes.forEach((node, position) => positions.set(node.id, position));
+
+  const dimension = includeVectors ? (graph.nodes[0]?.vector.length ?? 0) : 0;
+  for (const node of includeVectors ? graph.nodes : []) {
+    if (node.vector.length !== dimension) {
+      throw new Error(
+        `Cannot snapshot HNSW index: node '${node.id}' has ${node.vector.length} dimensions, expected ${dimension}`,
+      );
+    }
+  }
+
+  // ---- Adjacency ---------------------------------------------------------
+  const adjacency: number[] = [];
+  for (const node of graph.nodes) {
+    const byLevel = new Map(node.connections);
+    adjacency.push(node.level);
+    for (let level = 0; level <= node.level; level++) {
+      const neighbours = (byLevel.get(level) ?? [])
+        .map((id) => positions.get(id))
+        .filter((position): position is number => position !== undefined);
+      adjacency.push(neighbours.length, ...neighbours);
+    }
+  }
+
+  // ---- Manifest ----------------------------------------------------------
+  const metadata: SnapshotManifest['metadata'] = {};
+  graph.nodes.forEach((node, position) => {
+    if (node.metadata) metadata[position] = node.metadata;
+  });
+  const manifest: SnapshotManifest = {
+    ids: graph.nodes.map((node) => node.id),
+    metadata,
+    entryPoint: graph.entryPoint !== null ? (positions.get(graph.entryPoint) ?? -1) : -1,
+    tombstones: graph.tombstones
+      .map((id) => positions.get(id))
+      .filter((position): position is number => position !== undefined),
+    config: graph.config,
+    distanceMetric,
+    timestamp: Date.now(),
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+
+  // ---- Layout ------------------------------------------------------------
+  const vectorByteLength = nodeCount * dimension * Float32Array.BYTES_PER_ELEMENT;
+  const adjacencyOffset = HEADER_SIZE + vectorByteLength;
+  const manifestOffset =
+    adjacencyOffset + adjacency.length * Uint32Array.BYTES_PER_ELEMENT;
+  const buffer = new ArrayBuffer(manifestOffset + manifestBytes.byteLength);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint32(OFFSET_MAGIC, HNSW_SNAPSHOT_MAGIC, true);
+  view.setUint8(OFFSET_VERSION, 1);
+  view.setUint8(OFFSET_FLAGS, includeVectors ? FLAG_VECTORS : 0);
+  view.setUint32(OFFSET_NODE_COUNT, nodeCount, true);
+  view.setUint32(OFFSET_DIMENSION, dimension, true);
+  view.setUint32(OFFSET_ADJACENCY_LENGTH, adjacency.length, true);
+  view.setUint32(OFFSET_MANIFEST_LENGTH, manifestBytes.byteLength, true);
+
+  if (includeVectors) {
+    const vectors = new Float32Array(buffer, HEADER_SIZE, nodeCount * dimension);
+    graph.nodes.forEach((node, position) =>
+      vectors.set(node.vector, position * dimension),
+    );
+  }
+  new Uint32Array(buffer, adjacencyOffset, adjacency.length).set(adjacency);
+  bytes.set(manifestBytes, manifestOffset);
+
+  // Checksum field is still zero here, matching what readers recompute.
+  view.setUint32(OFFSET_CHECKSUM, crc32(bytes), true);
+
+  return buffer;
+}
+
+/**
+ * Decode a binary HNSW snapshot.
+ *
+ * Validates the magic marker, format version, section lengths and CRC-32
+ * checksum before parsing. Throws `StorageCorruptionError` when the payload is
+ * structurally invalid or the checksum does not match, and
+ * `StorageFormatError` when the version is unsupported.
+ */
+export function decodeHNSWSnapshot(buffer: ArrayBuffer): DecodedHNSWSnapshot {
+  if (buffer.byteLength < HEADER_SIZE) {
+    throw new StorageCorruptionError(
+      `HNSW snapshot too small: ${buffer.byteLength} bytes (minimum ${HEADER_SIZE})`,
+    );
+  }
+
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // ---- Magic marker and version ------------------------------------------
+  const magic = view.getUint32(OFFSET_MAGIC, true);
+  if (magic !== HNSW_SNAPSHOT_MAGIC) {
+    throw new StorageCorruptionError(
+      `Invalid HNSW snapshot magic marker: 0x${magic.toString(16).padStart(8, '0').toUpperCase()} (expected 0x484E5357)`,
+    );
+  }
+
+  const version = view.getUint8(OFFSET_VERSION);
+  if (!(SUPPORTED_HNSW_SNAPSHOT_VERSIONS as readonly number[]).includes(version)) {
+    throw new StorageFormatError(version, SUPPORTED_HNSW_SNAPSHOT_VERSIONS);
+  }
+
+  // ---- Section lengths ---------------------------------------------------
+  const includesVectors = (view.getUint8(OFFSET_FLAGS) & FLAG_VECTORS) !== 0;
+  const nodeCount = view.getUint32(OFFSET_NODE_COUNT, true);
+  const dimension = view.getUint32(OFFSET_DIMENSION, true);
+  const adjacencyLength = view.getUint32(OFFSET_ADJACENCY_LENGTH, true);
+  const manifestLength = view.getUint32(OFFSET_MANIFEST_LENGTH, true);
+
+  if (dimension > MAX_VECTOR_DIMENSION) {
+    throw new StorageCorruptionError(
+      `HNSW snapshot claims vector dimension ${dimension} which exceeds the maximum of ${MAX_VECTOR_DIMENSION}`,
+    );
+  }
+
+  const vectorByteLength = nodeCount * dimension * Float32Array.BYTES_PER_ELEMENT;
+  const adjacencyOffset = HEADER_SIZE + vectorByteLength;
+  const manifestOffset =
+    adjacencyOffset + adjacencyLength * Uint32Array.BYTES_PER_ELEMENT;
+  if (manifestOffset + manifestLength !== buffer.byteLength) {
+    throw new StorageCorruptionError(
+      `HNSW snapshot size mismatch: expected ${manifestOffset + manifestLength} bytes but got ${buffer.byteLength}`,
+    );
+  }
+
+  // ---- Checksum ----------------------------------------------------------
+  // Checksum the buffer in pieces with the checksum field read as zeros, so
+  // large snapshots are not copied just to verify them.
+  const storedChecksum = view.getUint32(OFFSET_CHECKSUM, true);
+  let computed = crc32(bytes.subarray(0, OFFSET_CHECKSUM));
+  computed = crc32(new Uint8Array(4), computed);
+  computed = crc32(bytes.subarray(OFFSET_CHECKSUM + 4), computed);
+  if (computed !== storedChecksum) {
+    throw new StorageCorruptionError(
+      `HNSW snapshot CRC-32 checksum mismatch: stored 0x${storedChecksum.toString(16)} vs computed 0x${computed.toString(16)}`,
+    );
+  }
+
+  // ---- Manifest ----------------------------------------------------------
+  let manifest: SnapshotManifest;
+  try {
+    manifest = JSON.parse(
+      new TextDecoder().decode(bytes.subarray(manifestOffset)),
+    ) as SnapshotManifest;
+  } catch (cause) {
+    throw new StorageCorruptionError(
+      `Failed to parse HNSW snapshot manifest: ${cause instanceof Error ? cause.message : String(cause)}`,
+    );
+  }
+  if (!Array.isArray(manifest.ids) || manifest.ids.length !== nodeCount) {
+    throw new StorageCorruptionError(
+      `HNSW snapshot manifest lists ${Array.isArray(manifest.ids) ? manifest.ids.length : 0} IDs for ${nodeCount} nodes`,
+    );
+  }
+  const { ids } = manifest;
+
+  // ---- Vectors and adjacency ---------------------------------------------
+  // Copy the vector block out once so node vectors do not pin the whole
+  // snapshot buffer (adjacency and manifest included) in memory.
+  const vectors = includesVectors
+    ? new Float32Array(buffer.slice(HEADER_SIZE, adjacencyOffset))
+    : null;
+  const adjacency = new Uint32Array(buffer, adjacencyOffset, adjacencyLength);
+
+  const readWord = (cursor: number): number => {
+    if (cursor >= adjacencyLength) {
+      throw new StorageCorruptionError('HNSW snapshot adjacency block is truncated');
+    }
+    return adjacency[cursor]!;
+  };
+  const idAt = (position: number): string => {
+    const id = ids[position];
+    if (id === undefined) {
+      throw new StorageCorruptionError(
+        `HNSW snapshot references node ${position} of ${nodeCount}`,
+      );
+    }
+    return id;
+  };
+
+  const nodes: DecodedHNSWSnapshot['nodes'] = [];
+  let cursor = 0;
+  for (let position = 0; position < nodeCount; position++) {
+    const level = readWord(cursor++);
+    const connections: Array<[number, string[]]> = [];
+    for (let l = 0; l <= level; l++) {
+      const count = readWord(cursor++);
+      const neighbours: string[] = [];
+      for (let n = 0; n < count; n++) {
+        neighbours.push(idAt(readWord(cursor++)));
+      }
+      connections.push([l, neighbours]);
+    }
+
+    const metadata = manifest.metadata[position];
+    nodes.push({
+      id: idAt(position),
+      level,
+      connections,
+      ...(vectors && {
+        vector: vectors.subarray(position * dimension, (position + 1) * dimension),
+      }),
+      ...(metadata && { metadata }),
+    });
+  }
+  if (cursor !== adjacencyLength) {
+    throw new StorageCorruptionError(
+      `HNSW snapshot adjacency block has ${adjacencyLength - cursor} trailing words`,
+    );
+  }
+
+  return {
+    nodes,
+    entryPoint: manifest.entryPoint >= 0 ? idAt(manifest.entryPoint) : null,
+    tombstones: manifest.tombstones.map(idAt),
+    config: manifest.config,
+    distanceMetric: manifest.distanceMetric,
+    timestamp: manifest.timestamp,
+    includesVectors,
+  };
+}
@@ -0,0 +1,120 @@
+import type { AutoIndexOptions, DistanceMetric, IndexStrategy } from '@/core/types.js';
+import {
+  AUTO_INDEX_ACCELERATED_MIN_VECTORS,
+  AUTO_INDEX_LATENCY_BUDGET_MS,
+  AUTO_INDEX_MIN_VECTORS,
+  AUTO_IVF_MIN_VECTORS,
+  KDTREE_AUTO_MAX_DIMENSION,
+  resolveExecutionPath,
+  SEQUENTIAL_SEARCH_THRESHOLD,
+  type ExecutionPath,
+} from '@/performance/execution-thresholds.js';
+import { isKDTreeMetric } from './kdtree-index.js';
+
+/**
+ * Index strategy that `'auto'` resolves to
+ */
+export type ResolvedIndexStrategy = Exclude<IndexStrategy, 'auto'>;
+
+/**
+ * Inputs to {@link recommendIndexStrategy}
+ */
+export interface IndexAdvisorInput {
+  vectorCount: number;
+  dimension: number;
+  metric: DistanceMetric;
+  /** Acceleration available to a brute-force scan */
+  execution?: Parameters<typeof resolveExecutionPath>[1];
+  /** Whether the storage adapter streams records without holding them all in memory */
+  nativeStreaming?: boolean;
+  /** Measured mean search latency in ms, when known */
+  searchLatencyMs?: number;
+}
+
+export interface IndexRecommendation {
+  strategy: ResolvedIndexStrategy;
+  /** Human-readable explanation, surfaced by `getIndexStrategy()` */
+  reason: string;
+  /** Path a brute-force scan of the collection would take */
+  executionPath: ExecutionPath;
+}
+
+/**
+ * How far each strategy is from brute force. `'auto'` only migrates upward,
+ * so a collection that shrinks keeps the index it already has.
+ */
+export const INDEX_STRATEGY_RANK: Record<ResolvedIndexStrategy, number> = {
+  brute: 0,
+  kdtree: 1,
+  hnsw: 1,
+  ivf: 2,
+};
+
+/**
+ * Pick the index for `indexStrategy: 'auto'`.
+ *
+ * - Tiny collections are scanned: below {@link SEQUENTIAL_SEARCH_THRESHOLD}
+ *   no index pays for itself.
+ * - Low-dimensional euclidean/manhattan vectors get an exact KD-tree.
+ * - Otherwise brute force is kept until `minVectors` (raised to
+ *   {@link AUTO_INDEX_ACCELERATED_MIN_VECTORS} when the scan would run on
+ *   WebGPU or shared-memory workers), unless measured latency already
+ *   exceeds `latencyBudgetMs`.
+ * - Past `ivfMinVectors`, adapters that stream natively get IVF, which keeps
+ *   only ids in memory; HNSW is used everywhere else.
+ */
+export function recommendIndexStrategy(
+  input: IndexAdvisorInput,
+  options: AutoIndexOptions = {},
+): IndexRecommendation {
+  const { vectorCount, dimension, metric, searchLatencyMs } = input;
+  const latencyBudgetMs = options.latencyBudgetMs ?? AUTO_INDEX_LATENCY_BUDGET_MS;
+  const ivfMinVectors = options.ivfMinVectors ?? AUTO_IVF_MIN_VECTORS;
+  const executionPath = resolveExecutionPath(vectorCount, input.execution);
+  const accelerated = executionPath === 'webgpu' || executionPath === 'shared-memory';
+  const minVectors =
+    options.minVectors ??
+    (accelerated ? AUTO_INDEX_ACCELERATED_MIN_VECTORS : AUTO_INDEX_MIN_VECTORS);
+
+  if (vectorCount < Math.min(SEQUENTIAL_SEARCH_THRESHOLD, minVectors)) {
+    return {
+      strategy: 'brute',
+      reason: `${vectorCount} vectors are scanned faster than any index`,
+      executionPath,
+    };
+  }
+
+  if (dimension <= KDTREE_AUTO_MAX_DIMENSION && isKDTreeMetric(metric)) {
+    return {
+      strategy: 'kdtree',
+      reason: `${dimension}-dimensional ${metric} vectors are searched exactly by a KD-tree`,
+      executionPath,
+    };
+  }
+
+  const overBudget = searchLatencyMs !== undefined && searchLatencyMs > latencyBudgetMs;
+  if (vectorCount < minVectors && !overBudget) {
+    return {
+      strategy: 'brute',
+      reason: `${vectorCount} vectors are below the ${minVectors}-vector indexing threshold on the ${executionPath} path`,
+      executionPath,
+    };
+  }
+
+  if (vectorCount >= ivfMinVectors && input.nativeStreaming) {
+    return {
+      strategy: 'ivf',
+      reason: `${vectorCount} vectors reach the ${ivfMinVectors}-vector IVF threshold and the adapter streams from storage`,
+      executionPath,
+    };
+  }
+
+  return {
+    strategy: 'hnsw',
+    reason:
+      vectorCount < minVectors
+        ? `Mean search latency ${searchLatencyMs!.toFixed(1)}ms exceeds the ${latencyBudgetMs}ms budget`
+        : `${vectorCount} vectors reach the ${minVectors}-vector indexing threshold`,
+    executionPath,
+  };
+}
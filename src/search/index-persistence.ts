@@ -1,11 +1,39 @@
 import { VectorDatabase } from '@/core/database.js';
-import { IndexError, TransactionError } from '@/core/errors.js';
-import type { DistanceMetric } from '@/core/types.js';
+import {
+  IndexError,
+  StorageCorruptionError,
+  StorageFormatError,
+  TransactionError,
+} from '@/core/errors.js';
+import type {
+  DistanceMetric,
+  IndexedDatabaseRequest,
+  StorageAdapter,
+} from '@/core/types.js';
+import {
+  decodeBinaryDocument,
+  encodeBinaryDocument,
+} from '@/storage/adapters/documents.js';
 import { log } from '@/utilities/logger.js';
-import type { HNSWIndex } from './hnsw-index.js';
+import type { HNSWDeletionMode, HNSWIndex } from './hnsw-index.js';
+import {
+  decodeHNSWSnapshot,
+  encodeHNSWSnapshot,
+  type DecodedHNSWSnapshot,
+} from './hnsw-snapshot.js';
+import { KDTreeIndex } from './kdtree-index.js';
+import {
+  decodeKDTreeSnapshot,
+  encodeKDTreeSnapshot,
+  type DecodedKDTreeSnapshot,
+} from './kdtree-snapshot.js';
+
+/** Index types that can be saved through {@link IndexPersistence}. */
+export type PersistedIndex = HNSWIndex | KDTreeIndex;
 
 /**
- * Serializable representation of HNSW index
+ * Legacy structured-clone representation of an HNSW index, written before
+ * binary snapshots. Still read so existing indices can be migrated.
  */
 interface SerializableHNSWNode {
   id: string;
@@ -18,12 +46,15 @@ interface SerializableHNSWNode {
 interface SerializableHNSWIndex {
   nodes: SerializableHNSWNode[];
   entryPoint: string | null;
+  tombstones?: string[]; // absent in snapshots written before soft deletes
   config: {
     m: number;
     mL: number;
     efConstruction: number;
     maxLevel: number;
     seed?: number;
+    deletionMode?: HNSWDeletionMode;
+    filterBruteForceSelectivity?: number;
   };
   distanceMetric: string;
   version: string;
@@ -72,144 +103,401 @@ export type IndexHealthReport = {
 };
 
 /**
- * Index persistence manager for HNSW indices
+ * Options for {@link IndexPersistence} and {@link IndexCache}.
+ */
+export interface IndexPersistenceOptions {
+  /**
+   * Write node vectors into snapshots. When `false`, snapshots hold only the
+   * graph and vectors are read back through `resolveVectors` on load, which
+   * roughly halves snapshot size for vectors already kept in the vector
+   * store. Defaults to `true`.
+   */
+  includeVectors?: boolean;
+  /** Maximum bytes per stored snapshot chunk. Defaults to 8 MiB. */
+  chunkSize?: number;
+  /**
+   * Look up vectors by ID for snapshots written without vectors. A snapshot
+   * with a node this cannot resolve (for example a tombstoned record already
+   * removed from storage) is treated as missing so the caller rebuilds.
+   */
+  resolveVectors?: (ids: string[]) => Promise<Map<string, Float32Array>>;
+}
+
+/** Pre-binary record: the whole index as one structured-clone object. */
+interface LegacyIndexRecord {
+  id: string;
+  data: SerializableHNSWIndex;
+  timestamp: number;
+}
+
+/** Head record of a binary snapshot whose bytes live in `chunkCount` chunk records. */
+interface BinaryIndexRecord {
+  id: string;
+  format: 'binary';
+  chunkCount: number;
+  byteLength: number;
+  nodeCount: number;
+  distanceMetric: string;
+  /** Absent for HNSW snapshots, which predate other index types. */
+  indexType?: 'kdtree';
+  timestamp: number;
+}
+
+interface IndexChunkRecord {
+  id: string;
+  snapshotId: string;
+  chunk: number;
+  data: ArrayBuffer;
+}
+
+type IndexRecord = LegacyIndexRecord | BinaryIndexRecord | IndexChunkRecord;
+
+/**
+ * Head document of a snapshot saved through a StorageAdapter. Its chunks are
+ * keyed by `generation`, so a save only takes effect once the head is written.
+ */
+interface IndexSnapshotDocument extends BinaryIndexRecord {
+  generation: number;
+}
+
+/** Snapshot chunk saved through a StorageAdapter, as base64 text. */
+interface IndexChunkDocument {
+  snapshotId: string;
+  chunk: number;
+  data: string;
+}
+
+const SNAPSHOT_COLLECTION = 'index-snapshots';
+const CHUNK_COLLECTION = 'index-chunks';
+
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/** Whether persistence goes to a StorageAdapter's documents rather than IndexedDB */
+export function isStorageAdapter(
+  backend: VectorDatabase | StorageAdapter,
+): backend is StorageAdapter {
+  return 'putDocument' in backend;
+}
+
+/**
+ * Index persistence manager for HNSW and KD-tree indices.
+ *
+ * Indices are saved as binary snapshots (see `hnsw-snapshot.ts` and
+ * `kdtree-snapshot.ts`) split across chunk records and written in a single
+ * transaction. Records written in the
+ * earlier structured-clone format are still loaded and are rewritten as
+ * binary snapshots the first time they are read.
+ *
+ * Given a StorageAdapter instead of an IndexedDB database, snapshots are
+ * kept in its `index-snapshots` and `index-chunks` document collections.
  */
 export class IndexPersistence {
   private static readonly STORE_NAME = VectorDatabase.STORES.HNSW_INDICES;
-  private static readonly VERSION = '1.0.0';
 
   /**
-   * Supported serialization versions that this implementation can load.
+   * Supported legacy serialization versions that this implementation can load.
    * Versions outside this set will produce an explicit rebuild error rather
    * than silently returning bad data.
    */
   private static readonly SUPPORTED_VERSIONS = new Set(['1.0.0']);
 
-  constructor(private database: VectorDatabase) {}
+  private readonly includeVectors: boolean;
+  private readonly chunkSize: number;
+  private readonly resolveVectors:
+    | ((ids: string[]) => Promise<Map<string, Float32Array>>)
+    | undefined;
+
+  constructor(
+    private database: VectorDatabase | StorageAdapter,
+    options: IndexPersistenceOptions = {},
+  ) {
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new Error('Index snapshot chunkSize must be a positive integer');
+    }
+    this.includeVectors = options.includeVectors ?? true;
+    this.chunkSize = chunkSize;
+    this.resolveVectors = options.resolveVectors;
+  }
 
   /**
-   * Save HNSW index to IndexedDB
+   * Save an HNSW or KD-tree index to IndexedDB or the storage adapter
    */
   async saveIndex(
     indexId: string,
-    index: HNSWIndex,
+    index: PersistedIndex,
     distanceMetric: string,
   ): Promise<void> {
-    const serializedIndex = await this.serializeIndex(index, distanceMetric);
+    const isKDTree = index instanceof KDTreeIndex;
+    const snapshot = isKDTree
+      ? encodeKDTreeSnapshot(index.exportTree(), distanceMetric, {
+          includeVectors: this.includeVectors,
+        })
+      : encodeHNSWSnapshot(index.exportGraph(), distanceMetric, {
+          includeVectors: this.includeVectors,
+        });
+    const chunkCount = Math.max(1, Math.ceil(snapshot.byteLength / this.chunkSize));
+    const head: BinaryIndexRecord = {
+      id: indexId,
+      format: 'binary',
+      chunkCount,
+      byteLength: snapshot.byteLength,
+      nodeCount: index.size(),
+      distanceMetric,
+      ...(isKDTree && { indexType: 'kdtree' as const }),
+      timestamp: Date.now(),
+    };
+
+    if (isStorageAdapter(this.database)) {
+      await this.saveSnapshotDocuments(this.database, head, snapshot);
+      return;
+    }
 
     await this.database.executeTransaction(
       IndexPersistence.STORE_NAME,
       'readwrite',
       async (transaction) => {
         const store = transaction.objectStore(IndexPersistence.STORE_NAME);
-
-        return new Promise<void>((resolve, reject) => {
-          const request = store.put({
-            id: indexId,
-            data: serializedIndex,
-            timestamp: Date.now(),
-          });
-
-          request.onsuccess = () => resolve();
-          request.onerror = () =>
-            reject(
-              new TransactionError(
-                'save index',
-                `Failed to save index: ${indexId}`,
-                request.error || undefined,
-              ),
-            );
-        });
+        const previous = await this.request(
+          store.get<IndexRecord>(indexId),
+          'save index',
+          `Failed to save index: ${indexId}`,
+        );
+        const previousChunks = previous && 'format' in previous ? previous.chunkCount : 0;
+
+        const writes: IndexedDatabaseRequest[] = [];
+        for (let chunk = 0; chunk < chunkCount; chunk++) {
+          const record: IndexChunkRecord = {
+            id: IndexPersistence.chunkId(indexId, chunk),
+            snapshotId: indexId,
+            chunk,
+            data: snapshot.slice(chunk * this.chunkSize, (chunk + 1) * this.chunkSize),
+          };
+          writes.push(store.put(record));
+        }
+        // Drop chunks left over from a larger previous snapshot.
+        for (let chunk = chunkCount; chunk < previousChunks; chunk++) {
+          writes.push(store.delete(IndexPersistence.chunkId(indexId, chunk)));
+        }
+        writes.push(store.put(head));
+
+        await Promise.all(
+          writes.map((request) =>
+            this.request(request, 'save index', `Failed to save index: ${indexId}`),
+          ),
+        );
       },
     );
   }
 
   /**
-   * Load HNSW index from IndexedDB
+   * Load an HNSW or KD-tree index from IndexedDB or the storage adapter.
+   *
+   * Legacy structured-clone records are migrated to the binary format after
+   * loading; a failed migration is logged and the loaded index still returned.
    */
   async loadIndex(indexId: string): Promise<{
-    index: HNSWIndex;
+    index: PersistedIndex;
     distanceMetric: string;
   } | null> {
+    if (isStorageAdapter(this.database)) {
+      const loaded = await this.loadSnapshotDocuments(this.database, indexId);
+      return loaded && this.decodeSnapshot(indexId, loaded.record, loaded.chunks);
+    }
+
     const result = await this.database.executeTransaction(
       IndexPersistence.STORE_NAME,
       'readonly',
       async (transaction) => {
         const store = transaction.objectStore(IndexPersistence.STORE_NAME);
-
-        return new Promise<
-          { id: string; data: SerializableHNSWIndex; timestamp: number } | undefined
-        >((resolve, reject) => {
-          const request = store.get<{
-            id: string;
-            data: SerializableHNSWIndex;
-            timestamp: number;
-          }>(indexId);
-
-          request.onsuccess = () => resolve(request.result);
-          request.onerror = () =>
-            reject(
-              new TransactionError(
-                'load index',
-                `Failed to load index: ${indexId}`,
-                request.error || undefined,
-              ),
-            );
-        });
+        const record = await this.request(
+          store.get<IndexRecord>(indexId),
+          'load index',
+          `Failed to load index: ${indexId}`,
+        );
+        if (!record || !('format' in record)) {
+          return { record, chunks: [] };
+        }
+
+        const chunks = await Promise.all(
+          Array.from({ length: record.chunkCount }, (_, chunk) =>
+            this.request(
+              store.get<IndexChunkRecord>(IndexPersistence.chunkId(indexId, chunk)),
+              'load index',
+              `Failed to load index: ${indexId}`,
+            ),
+          ),
+        );
+        return { record, chunks };
       },
     );
 
-    if (!result || !result.data) {
+    const { record } = result;
+    if (!record || 'snapshotId' in record) {
       return null;
     }
 
-    const serializedIndex = result.data as SerializableHNSWIndex;
+    if (!('format' in record)) {
+      if (!record.data) {
+        return null;
+      }
+      const loaded = await this.loadLegacyRecord(indexId, record.data);
+      try {
+        await this.saveIndex(indexId, loaded.index, loaded.distanceMetric);
+      } catch (error) {
+        log.warn('Failed to migrate HNSW index to the binary snapshot format', {
+          indexId,
+          error,
+        });
+      }
+      return loaded;
+    }
 
-    // Reject indexes whose serialization format is not supported by this version.
-    if (
-      serializedIndex.version &&
-      !IndexPersistence.SUPPORTED_VERSIONS.has(serializedIndex.version)
-    ) {
-      throw new IndexError(
-        'HNSW',
+    return this.decodeSnapshot(indexId, record, result.chunks);
+  }
+
+  /**
+   * Rebuild an index from the head record and chunks of a binary snapshot.
+   * Resolves to `null` when the vectors of a vector-less snapshot are gone.
+   */
+  private async decodeSnapshot(
+    indexId: string,
+    record: BinaryIndexRecord,
+    chunks: Array<IndexChunkRecord | undefined>,
+  ): Promise<{ index: PersistedIndex; distanceMetric: string } | null> {
+    const snapshot = this.assembleChunks(indexId, record, chunks);
+    if (record.indexType === 'kdtree') {
+      return this.loadKDTreeSnapshot(indexId, snapshot);
+    }
+
+    let decoded: DecodedHNSWSnapshot;
+    try {
+      decoded = decodeHNSWSnapshot(snapshot);
+    } catch (error) {
+      throw IndexPersistence.unsupportedFormat('HNSW', indexId, error);
+    }
+
+    const vectors = decoded.includesVectors
+      ? null
+      : await this.resolveSnapshotVectors(
+          'HNSW',
+          indexId,
+          decoded.nodes.map((node) => node.id),
+        );
+    if (vectors === undefined) {
+      return null;
+    }
+
+    const { HNSWIndex } = await import('./hnsw-index.js');
+    const index = new HNSWIndex(decoded.distanceMetric as DistanceMetric, decoded.config);
+    index.importState({
+      nodes: decoded.nodes.map(({ vector, ...node }) => ({
+        ...node,
+        vector: vector ?? vectors!.get(node.id)!,
+      })),
+      entryPoint: decoded.entryPoint,
+      tombstones: decoded.tombstones,
+    });
+
+    return { index, distanceMetric: decoded.distanceMetric };
+  }
+
+  private async loadKDTreeSnapshot(
+    indexId: string,
+    snapshot: ArrayBuffer,
+  ): Promise<{ index: KDTreeIndex; distanceMetric: string } | null> {
+    let decoded: DecodedKDTreeSnapshot;
+    try {
+      decoded = decodeKDTreeSnapshot(snapshot);
+    } catch (error) {
+      throw IndexPersistence.unsupportedFormat('KDTree', indexId, error);
+    }
+
+    const vectors = decoded.includesVectors
+      ? null
+      : await this.resolveSnapshotVectors(
+          'KDTree',
+          indexId,
+          decoded.points.map((point) => point.id),
+        );
+    if (vectors === undefined) {
+      return null;
+    }
+
+    const index = new KDTreeIndex(
+      decoded.distanceMetric as DistanceMetric,
+      decoded.config,
+    );
+    index.importTree({
+      points: decoded.points.map(({ vector, ...point }) => ({
+        ...point,
+        vector: vector ?? vectors!.get(point.id)!,
+      })),
+      nodes: decoded.nodes,
+    });
+
+    return { index, distanceMetric: decoded.distanceMetric };
+  }
+
+  /**
+   * Rethrow an unsupported snapshot version as an IndexError telling the
+   * caller to rebuild; other decode errors pass through unchanged.
+   */
+  private static unsupportedFormat(
+    indexType: string,
+    indexId: string,
+    error: unknown,
+  ): unknown {
+    if (error instanceof StorageFormatError) {
+      return new IndexError(
+        indexType,
         'load',
-        `Index '${indexId}' was serialized with version '${serializedIndex.version}' which is not supported ` +
-          `(supported: ${[...IndexPersistence.SUPPORTED_VERSIONS].join(', ')}). ` +
+        `Index '${indexId}' is a binary snapshot with format version ${error.formatVersion} which is not supported ` +
+          `(supported: ${error.supportedVersions.join(', ')}). ` +
           `Delete the stored index and rebuild it from scratch to recover.`,
       );
     }
-
-    const index = await this.deserializeIndex(serializedIndex);
-
-    return {
-      index,
-      distanceMetric: serializedIndex.distanceMetric,
-    };
+    return error;
   }
 
   /**
-   * Delete index from IndexedDB
+   * Delete index from IndexedDB or the storage adapter
    */
   async deleteIndex(indexId: string): Promise<void> {
+    if (isStorageAdapter(this.database)) {
+      const head = await this.database.getDocument<IndexSnapshotDocument>(
+        SNAPSHOT_COLLECTION,
+        indexId,
+      );
+      if (head) {
+        await this.database.deleteDocument(SNAPSHOT_COLLECTION, indexId);
+        await this.deleteChunkDocuments(this.database, head);
+      }
+      return;
+    }
+
     await this.database.executeTransaction(
       IndexPersistence.STORE_NAME,
       'readwrite',
       async (transaction) => {
         const store = transaction.objectStore(IndexPersistence.STORE_NAME);
-
-        return new Promise<void>((resolve, reject) => {
-          const request = store.delete(indexId);
-
-          request.onsuccess = () => resolve();
-          request.onerror = () =>
-            reject(
-              new TransactionError(
-                'delete index',
-                `Failed to delete index: ${indexId}`,
-                request.error || undefined,
-              ),
-            );
-        });
+        const record = await this.request(
+          store.get<IndexRecord>(indexId),
+          'delete index',
+          `Failed to delete index: ${indexId}`,
+        );
+        const chunkCount = record && 'format' in record ? record.chunkCount : 0;
+
+        await Promise.all(
+          [
+            store.delete(indexId),
+            ...Array.from({ length: chunkCount }, (_, chunk) =>
+              store.delete(IndexPersistence.chunkId(indexId, chunk)),
+            ),
+          ].map((request) =>
+            this.request(request, 'delete index', `Failed to delete index: ${indexId}`),
+          ),
+        );
       },
     );
   }
@@ -225,84 +513,62 @@ export class IndexPersistence {
       distanceMetric: string;
     }>
   > {
-    const result = await this.database.executeTransaction(
-      IndexPersistence.STORE_NAME,
-      'readonly',
-      async (transaction) => {
-        const store = transaction.objectStore(IndexPersistence.STORE_NAME);
-
-        return new Promise<
-          Array<{ id: string; data: SerializableHNSWIndex; timestamp: number }>
-        >((resolve, reject) => {
-          const request = store.getAll<{
-            id: string;
-            data: SerializableHNSWIndex;
-            timestamp: number;
-          }>();
-
-          request.onsuccess = () => resolve(request.result || []);
-          request.onerror = () =>
-            reject(
-              new TransactionError(
-                'list indices',
-                'Failed to list indices',
-                request.error || undefined,
-              ),
-            );
-        });
-      },
-    );
+    const records = await this.getAllRecords('list indices', 'Failed to list indices');
 
-    return result.map((item) => ({
-      id: item.id,
-      timestamp: item.timestamp,
-      nodeCount: item.data.nodes.length,
-      distanceMetric: item.data.distanceMetric,
-    }));
+    return records.flatMap((record) => {
+      if ('snapshotId' in record) {
+        return [];
+      }
+      if ('format' in record) {
+        return [
+          {
+            id: record.id,
+            timestamp: record.timestamp,
+            nodeCount: record.nodeCount,
+            distanceMetric: record.distanceMetric,
+          },
+        ];
+      }
+      return [
+        {
+          id: record.id,
+          timestamp: record.timestamp,
+          nodeCount: record.data.nodes.length,
+          distanceMetric: record.data.distanceMetric,
+        },
+      ];
+    });
   }
 
   /**
    * Get storage usage for indices.
    *
-   * Bytes are measured from the actual JSON-serialized representation of each
-   * stored record, not from a fixed per-node estimate.
+   * Bytes are measured from the stored records: snapshot chunks count their
+   * binary length, other records their JSON-serialized size. Nothing is
+   * estimated from a fixed per-node figure.
    */
   async getStorageUsage(): Promise<{
     indexCount: number;
     /** Measured byte count of all serialized index records. */
     measuredBytes: number;
   }> {
-    const result = await this.database.executeTransaction(
-      IndexPersistence.STORE_NAME,
-      'readonly',
-      async (transaction) => {
-        const store = transaction.objectStore(IndexPersistence.STORE_NAME);
-
-        return new Promise<
-          Array<{ id: string; data: SerializableHNSWIndex; timestamp: number }>
-        >((resolve, reject) => {
-          const request = store.getAll<{
-            id: string;
-            data: SerializableHNSWIndex;
-            timestamp: number;
-          }>();
-
-          request.onsuccess = () => resolve(request.result || []);
-          request.onerror = () =>
-            reject(
-              new TransactionError(
-                'get storage usage',
-                'Failed to read index records',
-                request.error || undefined,
-              ),
-            );
-        });
-      },
+    const records = await this.getAllRecords(
+      'get storage usage',
+      'Failed to read index records',
     );
 
-    // Measure bytes from the serialized representation of each record.
+    let indexCount = 0;
     let measuredBytes = 0;
-    for (const record of result) {
+    for (const record of records) {
+      if ('snapshotId' in record) {
+        measuredBytes += record.data.byteLength;
+        continue;
+      }
+      indexCount++;
+      if ('format' in record && 'generation' in record) {
+        // Document heads stand in for their chunks, which are not read back
+        measuredBytes += record.byteLength;
+      }
       try {
         const serialized = JSON.stringify(record);
         // TextEncoder gives the actual UTF-8 byte count, which matches what
@@ -313,50 +579,232 @@ export class IndexPersistence {
       }
     }
 
-    return {
-      indexCount: result.length,
-      measuredBytes,
-    };
+    return { indexCount, measuredBytes };
   }
 
   /**
-   * Serialize HNSW index for storage
+   * Promisify an IndexedDB request, wrapping failures in a TransactionError.
    */
-  private async serializeIndex(
-    index: HNSWIndex,
-    distanceMetric: string,
-  ): Promise<SerializableHNSWIndex> {
-    const exported = index.exportState();
+  private request<T>(
+    request: IndexedDatabaseRequest<T>,
+    operation: string,
+    message: string,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () =>
+        reject(new TransactionError(operation, message, request.error || undefined));
+    });
+  }
 
-    const nodes: SerializableHNSWNode[] = exported.nodes.map((node) => {
-      const connections: Record<number, string[]> = {};
-      for (const [level, ids] of node.connections) {
-        connections[level] = ids;
-      }
-      const serialized: SerializableHNSWNode = {
-        id: node.id,
-        vector: node.vector,
-        level: node.level,
-        connections,
+  private static chunkId(indexId: string, chunk: number): string {
+    return `${indexId}::chunk-${chunk}`;
+  }
+
+  private static chunkDocumentKey(
+    indexId: string,
+    generation: number,
+    chunk: number,
+  ): string {
+    return `${indexId}::${generation}::chunk-${chunk}`;
+  }
+
+  /**
+   * Write a snapshot's chunks under a new generation, then its head, then
+   * drop the chunks of the generation it replaced. A save cut short leaves
+   * the previous snapshot readable.
+   */
+  private async saveSnapshotDocuments(
+    adapter: StorageAdapter,
+    head: BinaryIndexRecord,
+    snapshot: ArrayBuffer,
+  ): Promise<void> {
+    const previous = await adapter.getDocument<IndexSnapshotDocument>(
+      SNAPSHOT_COLLECTION,
+      head.id,
+    );
+    const generation = (previous?.generation ?? 0) + 1;
+
+    for (let chunk = 0; chunk < head.chunkCount; chunk++) {
+      const document: IndexChunkDocument = {
+        snapshotId: head.id,
+        chunk,
+        data: encodeBinaryDocument(
+          snapshot.slice(chunk * this.chunkSize, (chunk + 1) * this.chunkSize),
+        ),
       };
-      if (node.metadata) {
-        serialized.metadata = node.metadata;
+      await adapter.putDocument(
+        CHUNK_COLLECTION,
+        IndexPersistence.chunkDocumentKey(head.id, generation, chunk),
+        document,
+      );
+    }
+    await adapter.putDocument(SNAPSHOT_COLLECTION, head.id, { ...head, generation });
+
+    if (previous) {
+      await this.deleteChunkDocuments(adapter, previous);
+    }
+  }
+
+  private async loadSnapshotDocuments(
+    adapter: StorageAdapter,
+    indexId: string,
+  ): Promise<{
+    record: BinaryIndexRecord;
+    chunks: Array<IndexChunkRecord | undefined>;
+  } | null> {
+    const record = await adapter.getDocument<IndexSnapshotDocument>(
+      SNAPSHOT_COLLECTION,
+      indexId,
+    );
+    if (!record) {
+      return null;
+    }
+
+    const chunks = await Promise.all(
+      Array.from({ length: record.chunkCount }, async (_, chunk) => {
+        const key = IndexPersistence.chunkDocumentKey(indexId, record.generation, chunk);
+        const document = await adapter.getDocument<IndexChunkDocument>(
+          CHUNK_COLLECTION,
+          key,
+        );
+        return document
+          ? { id: key, ...document, data: decodeBinaryDocument(document.data) }
+          : undefined;
+      }),
+    );
+    return { record, chunks };
+  }
+
+  private async deleteChunkDocuments(
+    adapter: StorageAdapter,
+    head: IndexSnapshotDocument,
+  ): Promise<void> {
+    for (let chunk = 0; chunk < head.chunkCount; chunk++) {
+      await adapter.deleteDocument(
+        CHUNK_COLLECTION,
+        IndexPersistence.chunkDocumentKey(head.id, head.generation, chunk),
+      );
+    }
+  }
+
+  private async getAllRecords(
+    operation: string,
+    message: string,
+  ): Promise<IndexRecord[]> {
+    if (isStorageAdapter(this.database)) {
+      // Heads only; chunk bytes are counted from each head's byteLength
+      const heads =
+        await this.database.listDocuments<IndexSnapshotDocument>(SNAPSHOT_COLLECTION);
+      return heads.map(({ document }) => document);
+    }
+
+    return this.database.executeTransaction(
+      IndexPersistence.STORE_NAME,
+      'readonly',
+      async (transaction) => {
+        const store = transaction.objectStore(IndexPersistence.STORE_NAME);
+        const records = await this.request(
+          store.getAll<IndexRecord>(),
+          operation,
+          message,
+        );
+        return records || [];
+      },
+    );
+  }
+
+  /**
+   * Concatenate snapshot chunks, checking that every chunk is present and the
+   * total length matches the head record.
+   */
+  private assembleChunks(
+    indexId: string,
+    record: BinaryIndexRecord,
+    chunks: Array<IndexChunkRecord | undefined>,
+  ): ArrayBuffer {
+    const snapshot = new Uint8Array(record.byteLength);
+    let offset = 0;
+    for (const [chunk, chunkRecord] of chunks.entries()) {
+      if (!chunkRecord) {
+        throw new StorageCorruptionError(
+          `index '${indexId}' is missing snapshot chunk ${chunk} of ${record.chunkCount}`,
+        );
       }
-      return serialized;
-    });
+      if (offset + chunkRecord.data.byteLength > record.byteLength) {
+        throw new StorageCorruptionError(
+          `index '${indexId}' snapshot chunks exceed the recorded ${record.byteLength} bytes`,
+        );
+      }
+      snapshot.set(new Uint8Array(chunkRecord.data), offset);
+      offset += chunkRecord.data.byteLength;
+    }
+    if (offset !== record.byteLength) {
+      throw new StorageCorruptionError(
+        `index '${indexId}' snapshot chunks hold ${offset} of ${record.byteLength} bytes`,
+      );
+    }
+    return snapshot.buffer;
+  }
+
+  /**
+   * Resolve vectors for a vector-less snapshot. Returns `undefined` when any
+   * node cannot be resolved, so the snapshot is treated as stale.
+   */
+  private async resolveSnapshotVectors(
+    indexType: string,
+    indexId: string,
+    ids: string[],
+  ): Promise<Map<string, Float32Array> | undefined> {
+    if (!this.resolveVectors) {
+      throw new IndexError(
+        indexType,
+        'load',
+        `Index '${indexId}' was saved without vectors and no resolveVectors option is configured to restore them.`,
+      );
+    }
+
+    const vectors = await this.resolveVectors(ids);
+    const missing = ids.filter((id) => !vectors.has(id)).length;
+    if (missing > 0) {
+      log.warn(
+        `${indexType} snapshot references vectors missing from storage; ignoring it`,
+        {
+          indexId,
+          missing,
+        },
+      );
+      return undefined;
+    }
+    return vectors;
+  }
+
+  private async loadLegacyRecord(
+    indexId: string,
+    serializedIndex: SerializableHNSWIndex,
+  ): Promise<{ index: HNSWIndex; distanceMetric: string }> {
+    // Reject indexes whose serialization format is not supported by this version.
+    if (
+      serializedIndex.version &&
+      !IndexPersistence.SUPPORTED_VERSIONS.has(serializedIndex.version)
+    ) {
+      throw new IndexError(
+        'HNSW',
+        'load',
+        `Index '${indexId}' was serialized with version '${serializedIndex.version}' which is not supported ` +
+          `(supported: ${[...IndexPersistence.SUPPORTED_VERSIONS].join(', ')}). ` +
+          `Delete the stored index and rebuild it from scratch to recover.`,
+      );
+    }
 
     return {
-      nodes,
-      entryPoint: exported.entryPoint,
-      config: exported.config,
-      distanceMetric,
-      version: IndexPersistence.VERSION,
-      timestamp: Date.now(),
+      index: await this.deserializeIndex(serializedIndex),
+      distanceMetric: serializedIndex.distanceMetric,
     };
   }
 
   /**
-   * Deserialize HNSW index from storage
+   * Deserialize a legacy structured-clone HNSW index record
    */
   private async deserializeIndex(data: SerializableHNSWIndex): Promise<HNSWIndex> {
     const { HNSWIndex } = await import('./hnsw-index.js');
@@ -389,6 +837,7 @@ export class IndexPersistence {
     index.importState({
       nodes,
       entryPoint: data.entryPoint,
+      ...(data.tombstones !== undefined && { tombstones: data.tombstones }),
     });
 
     return index;
@@ -397,7 +846,7 @@ export class IndexPersistence {
 
 /** Internal shape of a single cache slot. */
 type CacheEntry = {
-  index: HNSWIndex;
+  index: PersistedIndex;
   distanceMetric: string;
   lastAccess: number;
   isDirty: boolean;
@@ -420,15 +869,18 @@ export class IndexCache {
   private maxCacheSize = 5; // Maximum number of cached indices
   private persistenceManager: IndexPersistence;
 
-  constructor(database: VectorDatabase) {
-    this.persistenceManager = new IndexPersistence(database);
+  constructor(
+    database: VectorDatabase | StorageAdapter,
+    options: IndexPersistenceOptions = {},
+  ) {
+    this.persistenceManager = new IndexPersistence(database, options);
   }
 
   /**
    * Get index from cache or load from storage
    */
   async getIndex(indexId: string): Promise<{
-    index: HNSWIndex;
+    index: PersistedIndex;
     distanceMetric: string;
   } | null> {
     const cached = this.cache.get(indexId);
@@ -461,7 +913,7 @@ export class IndexCache {
    */
   async putInCache(
     indexId: string,
-    index: HNSWIndex,
+    index: PersistedIndex,
     distanceMetric: string,
     isDirty = false,
   ): Promise<void> {
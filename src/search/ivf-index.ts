@@ -0,0 +1,453 @@
+import { euclideanDistance, nearestCentroid, trainKMeans } from '@/compression/kmeans.js';
+import type {
+  DistanceMetric,
+  IVFParameters,
+  StorageAdapter,
+  VectorData,
+} from '@/core/types.js';
+import { log } from '@/utilities/logger.js';
+import { VectorOperations } from '@/vectors/operations.js';
+
+/**
+ * IVF Index Configuration
+ */
+export type IVFConfig = Required<IVFParameters>;
+
+/** Document collection holding one inverted list per key (its list number) */
+const LISTS_COLLECTION = 'ivf-lists';
+
+/** Document collection of the list changes made since the lists were written */
+const CHANGES_COLLECTION = 'ivf-changes';
+
+/** An inverted list as stored in the lists collection */
+interface ListDocument {
+  metric: DistanceMetric;
+  centroid: number[];
+  ids: string[];
+}
+
+/** `id` moved to `list`, or was removed when `list` is null */
+interface ChangeDocument {
+  id: string;
+  list: number | null;
+}
+
+/**
+ * IVF (inverted file) approximate nearest-neighbor index.
+ *
+ * Vectors are partitioned into `nlist` clusters by k-means (k-means++
+ * seeding). Each cluster keeps an inverted list of the ids assigned to it,
+ * and a query only considers the ids in the `nprobe` lists whose centroids
+ * are closest to it. The index holds ids and centroids, never the vectors
+ * themselves: callers load the candidates from storage, or score them
+ * against compressed codes for IVF-PQ.
+ *
+ * Until `trainOn` vectors have been added the index buffers them and
+ * {@link isTrained} is false; callers should search exactly meanwhile.
+ * When a list store is given, the inverted lists are kept as documents in
+ * its `ivf-lists` collection, one per list with its centroid and member ids.
+ * A write does not rewrite its list: it appends one small document to the
+ * `ivf-changes` collection, and the lists are rewritten (and the changes
+ * dropped) once the changes outnumber the ids last written, so bulk ingest
+ * costs amortized constant writes per vector. Loading replays the changes
+ * over the lists.
+ */
+export class IVFIndex {
+  private config: IVFConfig;
+  private readonly normalize: boolean;
+  private centroids: Float32Array[] = [];
+  private lists: Array<Set<string>> = [];
+  /** Inverted list of every indexed id */
+  private assignments = new Map<string, number>();
+  private trainingBuffer = new Map<string, Float32Array>();
+  /** The saved changes are numbered `firstChange` to `nextChange - 1` */
+  private firstChange = 0;
+  private nextChange = 0;
+  /** Ids in the lists as last written, before the saved changes */
+  private savedIds = 0;
+  private rng: () => number;
+
+  constructor(
+    private distanceMetric: DistanceMetric,
+    config: IVFParameters = {},
+    private store?: StorageAdapter,
+  ) {
+    this.config = {
+      nlist: config.nlist ?? 100,
+      nprobe: config.nprobe ?? 8,
+      trainOn: config.trainOn ?? 1000,
+      maxIterations: config.maxIterations ?? 25,
+      seed: config.seed ?? 42,
+    };
+
+    const { nlist, nprobe, trainOn, maxIterations } = this.config;
+    for (const [name, value] of Object.entries({
+      nlist,
+      nprobe,
+      trainOn,
+      maxIterations,
+    })) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(`indexConfig.ivf.${name} must be a positive integer`);
+      }
+    }
+    if (trainOn < nlist) {
+      throw new Error(
+        `indexConfig.ivf.trainOn (${trainOn}) must be at least nlist (${nlist})`,
+      );
+    }
+
+    // Cosine neighbours are clustered on the unit sphere
+    this.normalize = distanceMetric === 'cosine';
+    this.rng = createSeededRNG(this.config.seed);
+  }
+
+  /**
+   * Whether the centroids have been trained and queries can be probed
+   */
+  isTrained(): boolean {
+    return this.centroids.length > 0;
+  }
+
+  /**
+   * Number of vectors tracked, including those still awaiting training
+   */
+  size(): number {
+    return this.assignments.size + this.trainingBuffer.size;
+  }
+
+  /**
+   * Add a vector to its nearest inverted list, training the centroids once
+   * `trainOn` vectors have arrived
+   */
+  async addVector(vectorData: VectorData): Promise<void> {
+    const previous = this.detach(vectorData.id);
+
+    if (!this.isTrained()) {
+      this.trainingBuffer.set(vectorData.id, vectorData.vector);
+      if (this.trainingBuffer.size >= this.config.trainOn) {
+        await this.trainFromBuffer();
+      }
+      return;
+    }
+
+    const list = this.assign(vectorData.id, vectorData.vector);
+    if (list !== previous) {
+      await this.recordChange({ id: vectorData.id, list });
+    }
+  }
+
+  async removeVector(id: string): Promise<void> {
+    if (this.detach(id) !== undefined) {
+      await this.recordChange({ id, list: null });
+    }
+  }
+
+  /**
+   * Ids in the `nprobe` inverted lists closest to `query`
+   */
+  probe(query: Float32Array, nprobe: number = this.config.nprobe): string[] {
+    const point = this.prepare(query);
+    const ranked = this.centroids
+      .map((centroid, list) => ({
+        list,
+        distance: euclideanDistance(point, centroid),
+      }))
+      .sort((a, b) => a.distance - b.distance || a.list - b.list);
+
+    const ids: string[] = [];
+    for (const { list } of ranked.slice(0, nprobe)) {
+      ids.push(...this.lists[list]!);
+    }
+    return ids;
+  }
+
+  /**
+   * Retrain from scratch on `vectors` and persist every list
+   */
+  async build(vectors: VectorData[]): Promise<void> {
+    this.reset();
+
+    if (vectors.length < this.config.trainOn) {
+      for (const { id, vector } of vectors) {
+        this.trainingBuffer.set(id, vector);
+      }
+      await this.deleteSaved();
+      return;
+    }
+
+    this.train(
+      sample(vectors, this.config.trainOn, this.rng).map(({ vector }) => vector),
+    );
+    for (const { id, vector } of vectors) {
+      this.assign(id, vector);
+    }
+    await this.deleteSaved();
+    await this.writeLists();
+  }
+
+  /**
+   * Restore the inverted lists from the list store and replay the changes
+   * saved since. Returns false, leaving the index empty, when nothing was
+   * saved or the saved lists do not match this index's metric and `nlist`,
+   * or hold a different number of ids than `expectedCount`.
+   */
+  async load(expectedCount: number): Promise<boolean> {
+    if (!this.store) {
+      return false;
+    }
+
+    const stored = await this.store.listDocuments<ListDocument>(LISTS_COLLECTION);
+    if (stored.length === 0) {
+      return false;
+    }
+    const centroids: Float32Array[] = [];
+    const lists: Array<Set<string>> = [];
+    for (const { key, document } of stored) {
+      const list = Number(key);
+      if (
+        document.metric !== this.distanceMetric ||
+        !Array.isArray(document.ids) ||
+        !Array.isArray(document.centroid) ||
+        !Number.isInteger(list) ||
+        list < 0 ||
+        list >= this.config.nlist
+      ) {
+        return this.discardSaved('Persisted IVF lists do not match the index config');
+      }
+      centroids[list] = Float32Array.from(document.centroid);
+      lists[list] = new Set(document.ids);
+    }
+    if (stored.length !== this.config.nlist) {
+      return this.discardSaved('Persisted IVF lists do not match the index config');
+    }
+
+    const assignments = new Map<string, number>();
+    for (const [list, ids] of lists.entries()) {
+      for (const id of ids) {
+        assignments.set(id, list);
+      }
+    }
+    const savedIds = assignments.size;
+    const changes = await this.store.listDocuments<ChangeDocument>(CHANGES_COLLECTION);
+    for (const { document } of changes) {
+      const previous = assignments.get(document.id);
+      if (previous !== undefined) {
+        lists[previous]!.delete(document.id);
+        assignments.delete(document.id);
+      }
+      if (document.list !== null) {
+        lists[document.list]?.add(document.id);
+        assignments.set(document.id, document.list);
+      }
+    }
+
+    if (assignments.size !== expectedCount) {
+      return this.discardSaved(
+        `Persisted IVF lists hold ${assignments.size} ids but storage has ${expectedCount} vectors`,
+      );
+    }
+
+    this.reset();
+    this.centroids = centroids;
+    this.lists = lists;
+    this.assignments = assignments;
+    this.savedIds = savedIds;
+    if (changes.length > 0) {
+      this.firstChange = Number(changes[0]!.key);
+      this.nextChange = Number(changes.at(-1)!.key) + 1;
+    }
+    return true;
+  }
+
+  /**
+   * Drop all lists, centroids and persisted documents
+   */
+  async clear(): Promise<void> {
+    this.reset();
+    await this.deleteSaved();
+  }
+
+  getConfig(): IVFConfig {
+    return { ...this.config };
+  }
+
+  getStats(): {
+    trained: boolean;
+    nlist: number;
+    nprobe: number;
+    vectorCount: number;
+    /** Vectors buffered until the centroids are trained */
+    pendingTraining: number;
+    /** Sizes of the largest and smallest inverted lists */
+    largestList: number;
+    smallestList: number;
+  } {
+    const sizes = this.lists.map((ids) => ids.size);
+    return {
+      trained: this.isTrained(),
+      nlist: this.config.nlist,
+      nprobe: this.config.nprobe,
+      vectorCount: this.size(),
+      pendingTraining: this.trainingBuffer.size,
+      largestList: sizes.length > 0 ? Math.max(...sizes) : 0,
+      smallestList: sizes.length > 0 ? Math.min(...sizes) : 0,
+    };
+  }
+
+  private async trainFromBuffer(): Promise<void> {
+    const buffered = Array.from(this.trainingBuffer);
+    this.trainingBuffer.clear();
+
+    this.train(buffered.map(([, vector]) => vector));
+    for (const [id, vector] of buffered) {
+      this.assign(id, vector);
+    }
+    await this.writeLists();
+  }
+
+  private train(vectors: Float32Array[]): void {
+    const { centroids } = trainKMeans(
+      vectors.map((vector) => this.prepare(vector)),
+      this.config.nlist,
+      { maxIterations: this.config.maxIterations, random: this.rng },
+    );
+    this.centroids = centroids;
+    this.lists = centroids.map(() => new Set<string>());
+  }
+
+  private assign(id: string, vector: Float32Array): number {
+    const { index } = nearestCentroid(this.prepare(vector), this.centroids);
+    this.lists[index]!.add(id);
+    this.assignments.set(id, index);
+    return index;
+  }
+
+  /**
+   * Remove `id` from wherever it is tracked, returning its former list
+   */
+  private detach(id: string): number | undefined {
+    this.trainingBuffer.delete(id);
+    const list = this.assignments.get(id);
+    if (list !== undefined) {
+      this.lists[list]!.delete(id);
+      this.assignments.delete(id);
+    }
+    return list;
+  }
+
+  private reset(): void {
+    this.centroids = [];
+    this.lists = [];
+    this.assignments.clear();
+    this.trainingBuffer.clear();
+  }
+
+  private prepare(vector: Float32Array): Float32Array {
+    return this.normalize ? VectorOperations.normalizeSync(vector) : vector;
+  }
+
+  /**
+   * Save one membership change, rewriting the lists once the changes saved
+   * since they were last written outnumber the ids they held
+   */
+  private async recordChange(change: ChangeDocument): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    await this.store.putDocument(
+      CHANGES_COLLECTION,
+      changeKey(this.nextChange++),
+      change,
+    );
+    if (this.nextChange - this.firstChange > Math.max(this.savedIds, this.config.nlist)) {
+      await this.writeLists();
+    }
+  }
+
+  /**
+   * Write every list, then drop the changes they now include. The changes are
+   * deleted oldest first, so any left by an interruption are the newest ones
+   * and replaying them over the lists is harmless.
+   */
+  private async writeLists(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    for (const [list, ids] of this.lists.entries()) {
+      await this.store.putDocument(LISTS_COLLECTION, String(list), {
+        metric: this.distanceMetric,
+        centroid: Array.from(this.centroids[list]!),
+        ids: Array.from(ids),
+      } satisfies ListDocument);
+    }
+    for (let change = this.firstChange; change < this.nextChange; change++) {
+      await this.store.deleteDocument(CHANGES_COLLECTION, changeKey(change));
+    }
+    this.firstChange = this.nextChange;
+    this.savedIds = this.assignments.size;
+  }
+
+  /**
+   * Delete every saved list and change
+   */
+  private async deleteSaved(): Promise<void> {
+    this.firstChange = 0;
+    this.nextChange = 0;
+    this.savedIds = 0;
+    if (!this.store) {
+      return;
+    }
+
+    for (const collection of [LISTS_COLLECTION, CHANGES_COLLECTION]) {
+      for (const { key } of await this.store.listDocuments(collection)) {
+        await this.store.deleteDocument(collection, key);
+      }
+    }
+  }
+
+  private async discardSaved(reason: string): Promise<boolean> {
+    log.warn(`${reason}; retraining`, { nlist: this.config.nlist });
+    await this.deleteSaved();
+    return false;
+  }
+}
+
+/**
+ * Key of the change with sequence number `sequence`, padded so keys sort in
+ * sequence order
+ */
+function changeKey(sequence: number): string {
+  return String(sequence).padStart(12, '0');
+}
+
+/**
+ * Pick `count` of `items` uniformly at random (partial Fisher-Yates shuffle)
+ */
+function sample<T>(items: T[], count: number, random: () => number): T[] {
+  if (items.length <= count) {
+    return items;
+  }
+
+  const pool = items.slice();
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j]!, pool[i]!];
+  }
+  return pool.slice(0, count);
+}
+
+/**
+ * Mulberry32 generator, so training is reproducible for a given seed
+ */
+function createSeededRNG(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
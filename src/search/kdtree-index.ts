@@ -0,0 +1,477 @@
+import type { DistanceMetric, KDTreeParameters, VectorData } from '@/core/types.js';
+import { createDistanceCalculator, type DistanceCalculator } from './distance-metrics.js';
+import type { HNSWFilter } from './hnsw-index.js';
+
+/**
+ * KD-tree Index Configuration
+ */
+export type KDTreeConfig = Required<KDTreeParameters>;
+
+/** Metrics a KD-tree can answer exactly */
+export type KDTreeMetric = 'euclidean' | 'manhattan';
+
+/**
+ * Whether `metric` can be served by a KD-tree. Both metrics are bounded
+ * below by the per-axis difference, which is what pruning relies on.
+ */
+export function isKDTreeMetric(metric: string): metric is KDTreeMetric {
+  return metric === 'euclidean' || metric === 'manhattan';
+}
+
+/**
+ * Tree state returned by `KDTreeIndex.exportTree()`.
+ *
+ * `nodes` lists the tree in preorder. A split node is followed by its left
+ * and then its right subtree; a leaf takes the next `size` entries of
+ * `points`, so points appear in leaf order.
+ */
+export interface KDTreeState {
+  points: Array<{
+    id: string;
+    vector: Float32Array;
+    metadata?: Record<string, unknown>;
+  }>;
+  nodes: KDTreeStateNode[];
+  config: KDTreeConfig;
+}
+
+export type KDTreeStateNode =
+  | { kind: 'leaf'; size: number }
+  | { kind: 'split'; dimension: number; value: number };
+
+interface KDPoint {
+  id: string;
+  vector: Float32Array;
+  metadata?: Record<string, unknown>;
+}
+
+interface KDLeaf {
+  points: KDPoint[];
+}
+
+/**
+ * Points on the left have `vector[dimension] <= value`, points on the right
+ * `vector[dimension] >= value`
+ */
+interface KDSplit {
+  dimension: number;
+  value: number;
+  left: KDNode;
+  right: KDNode;
+}
+
+type KDNode = KDLeaf | KDSplit;
+
+type KDResult = { id: string; distance: number; metadata?: Record<string, unknown> };
+
+/**
+ * Exact nearest-neighbor index for low-dimensional vectors.
+ *
+ * Each split halves its points at the median of the dimension with the
+ * widest spread, down to leaves of at most `leafSize` points. Searches visit
+ * the side of every split containing the query first and only cross to the
+ * other side when the distance to the splitting plane could still beat the
+ * current results, so k-NN and range results are exact.
+ *
+ * Inserts descend to a leaf and split it once it overflows; removals drop
+ * the point from its leaf. Once the points inserted or removed since the
+ * last build exceed `rebalanceThreshold` of the tree's size, the whole tree
+ * is rebuilt balanced.
+ */
+export class KDTreeIndex {
+  private config: KDTreeConfig;
+  private distanceCalculator: DistanceCalculator;
+  private root: KDNode = { points: [] };
+  /** Leaf currently holding each indexed id */
+  private leaves = new Map<string, KDLeaf>();
+  /** Inserts and removals since the tree was last rebuilt */
+  private changes = 0;
+  private builtSize = 0;
+
+  constructor(
+    distanceMetric: DistanceMetric = 'euclidean',
+    config: KDTreeParameters = {},
+  ) {
+    if (!isKDTreeMetric(distanceMetric)) {
+      throw new Error(
+        `KD-tree index supports euclidean and manhattan distance, not ${distanceMetric}`,
+      );
+    }
+
+    this.config = {
+      leafSize: config.leafSize ?? 16,
+      rebalanceThreshold: config.rebalanceThreshold ?? 0.25,
+    };
+    if (!Number.isInteger(this.config.leafSize) || this.config.leafSize < 1) {
+      throw new Error('indexConfig.kdtree.leafSize must be a positive integer');
+    }
+    if (
+      !Number.isFinite(this.config.rebalanceThreshold) ||
+      this.config.rebalanceThreshold <= 0
+    ) {
+      throw new Error('indexConfig.kdtree.rebalanceThreshold must be a positive number');
+    }
+
+    this.distanceCalculator = createDistanceCalculator(distanceMetric);
+  }
+
+  /**
+   * Add or replace a vector
+   */
+  addVector(vectorData: VectorData): void {
+    this.detach(vectorData.id);
+
+    const point = toPoint(vectorData);
+
+    let parent: KDSplit | null = null;
+    let side: 'left' | 'right' = 'left';
+    let node = this.root;
+    while (!('points' in node)) {
+      parent = node;
+      side = point.vector[node.dimension]! < node.value ? 'left' : 'right';
+      node = node[side];
+    }
+    node.points.push(point);
+    this.leaves.set(point.id, node);
+
+    if (node.points.length > this.config.leafSize) {
+      const replacement = this.buildNode(node.points);
+      if (parent) {
+        parent[side] = replacement;
+      } else {
+        this.root = replacement;
+      }
+    }
+    this.recordChange();
+  }
+
+  removeVector(id: string): void {
+    if (this.detach(id)) {
+      this.recordChange();
+    }
+  }
+
+  /**
+   * Replace the contents with `vectors`, building a balanced tree
+   */
+  build(vectors: VectorData[]): void {
+    const points = new Map<string, KDPoint>();
+    for (const vectorData of vectors) {
+      points.set(vectorData.id, toPoint(vectorData));
+    }
+    this.buildFrom(Array.from(points.values()));
+  }
+
+  /**
+   * Rebuild the tree balanced from the points it holds
+   */
+  rebalance(): void {
+    const points: KDPoint[] = [];
+    for (const leaf of new Set(this.leaves.values())) {
+      points.push(...leaf.points);
+    }
+    this.buildFrom(points);
+  }
+
+  /**
+   * Exact k nearest neighbours of `queryVector`, nearest first. When `filter`
+   * is given only points whose metadata passes it are returned.
+   */
+  search(queryVector: Float32Array, k: number, filter?: HNSWFilter): KDResult[] {
+    const best: Array<{ point: KDPoint; distance: number }> = [];
+    if (k <= 0) {
+      return [];
+    }
+
+    const visit = (node: KDNode): void => {
+      if ('points' in node) {
+        for (const point of node.points) {
+          if (filter && !filter(point.metadata ?? {})) {
+            continue;
+          }
+          const distance = this.distanceCalculator.calculate(queryVector, point.vector);
+          const worst = best[best.length - 1];
+          if (best.length === k && worst && compare(distance, point, worst) >= 0) {
+            continue;
+          }
+          let position = best.length;
+          while (position > 0 && compare(distance, point, best[position - 1]!) < 0) {
+            position--;
+          }
+          best.splice(position, 0, { point, distance });
+          if (best.length > k) {
+            best.pop();
+          }
+        }
+        return;
+      }
+
+      const offset = queryVector[node.dimension]! - node.value;
+      visit(offset < 0 ? node.left : node.right);
+      if (best.length < k || Math.abs(offset) <= best[best.length - 1]!.distance) {
+        visit(offset < 0 ? node.right : node.left);
+      }
+    };
+    visit(this.root);
+
+    return best.map(({ point, distance }) => toResult(point, distance));
+  }
+
+  /**
+   * Every point within `maxDistance` of `queryVector`, nearest first
+   */
+  searchRange(
+    queryVector: Float32Array,
+    maxDistance: number,
+    filter?: HNSWFilter,
+  ): KDResult[] {
+    const matches: KDResult[] = [];
+
+    const visit = (node: KDNode): void => {
+      if ('points' in node) {
+        for (const point of node.points) {
+          if (filter && !filter(point.metadata ?? {})) {
+            continue;
+          }
+          const distance = this.distanceCalculator.calculate(queryVector, point.vector);
+          if (distance <= maxDistance) {
+            matches.push(toResult(point, distance));
+          }
+        }
+        return;
+      }
+
+      const offset = queryVector[node.dimension]! - node.value;
+      visit(offset < 0 ? node.left : node.right);
+      if (Math.abs(offset) <= maxDistance) {
+        visit(offset < 0 ? node.right : node.left);
+      }
+    };
+    visit(this.root);
+
+    // Sort by distance ascending; use id as a stable tie-breaker.
+    return matches.sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Get index statistics
+   */
+  getStats(): {
+    pointCount: number;
+    leafCount: number;
+    depth: number;
+    /** Inserts and removals since the tree was last rebuilt */
+    changesSinceRebalance: number;
+  } {
+    let leafCount = 0;
+    let depth = 0;
+    const walk = (node: KDNode, level: number): void => {
+      if ('points' in node) {
+        leafCount++;
+        depth = Math.max(depth, level);
+        return;
+      }
+      walk(node.left, level + 1);
+      walk(node.right, level + 1);
+    };
+    walk(this.root, 0);
+
+    return {
+      pointCount: this.size(),
+      leafCount,
+      depth,
+      changesSinceRebalance: this.changes,
+    };
+  }
+
+  getConfig(): KDTreeConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Export the tree with vectors left as the index's own `Float32Array`s.
+   * Callers must not mutate the returned vectors.
+   */
+  exportTree(): KDTreeState {
+    const points: KDTreeState['points'] = [];
+    const nodes: KDTreeStateNode[] = [];
+    const walk = (node: KDNode): void => {
+      if ('points' in node) {
+        nodes.push({ kind: 'leaf', size: node.points.length });
+        points.push(...node.points);
+        return;
+      }
+      nodes.push({ kind: 'split', dimension: node.dimension, value: node.value });
+      walk(node.left);
+      walk(node.right);
+    };
+    walk(this.root);
+
+    return { points, nodes, config: { ...this.config } };
+  }
+
+  /**
+   * Import a previously exported tree, replacing all current data.
+   * `Float32Array` vectors are adopted without copying.
+   */
+  importTree(state: Pick<KDTreeState, 'points' | 'nodes'>): void {
+    let nodeCursor = 0;
+    let pointCursor = 0;
+    const leaves = new Map<string, KDLeaf>();
+
+    const read = (): KDNode => {
+      const node = state.nodes[nodeCursor++];
+      if (!node) {
+        throw new Error('KD-tree state ends before the tree is complete');
+      }
+      if (node.kind === 'split') {
+        return {
+          dimension: node.dimension,
+          value: node.value,
+          left: read(),
+          right: read(),
+        };
+      }
+      const leaf: KDLeaf = {
+        points: state.points.slice(pointCursor, pointCursor + node.size),
+      };
+      pointCursor += node.size;
+      for (const point of leaf.points) {
+        leaves.set(point.id, leaf);
+      }
+      return leaf;
+    };
+    const root = read();
+
+    if (nodeCursor !== state.nodes.length || pointCursor !== state.points.length) {
+      throw new Error(
+        `KD-tree state has ${state.nodes.length - nodeCursor} unused nodes and ` +
+          `${state.points.length - pointCursor} unused points`,
+      );
+    }
+
+    this.root = root;
+    this.leaves = leaves;
+    this.changes = 0;
+    this.builtSize = leaves.size;
+  }
+
+  /**
+   * Clear the index
+   */
+  clear(): void {
+    this.buildFrom([]);
+  }
+
+  /**
+   * Get the number of vectors in the index
+   */
+  size(): number {
+    return this.leaves.size;
+  }
+
+  private buildFrom(points: KDPoint[]): void {
+    this.leaves.clear();
+    this.root = this.buildNode(points);
+    this.changes = 0;
+    this.builtSize = points.length;
+  }
+
+  /**
+   * Build a balanced subtree over `points`, registering the leaf of each
+   */
+  private buildNode(points: KDPoint[]): KDNode {
+    const dimension = points.length > this.config.leafSize ? widestDimension(points) : -1;
+    if (dimension < 0) {
+      const leaf: KDLeaf = { points };
+      for (const point of points) {
+        this.leaves.set(point.id, leaf);
+      }
+      return leaf;
+    }
+
+    const sorted = points
+      .slice()
+      .sort((a, b) => a.vector[dimension]! - b.vector[dimension]!);
+    const median = sorted.length >> 1;
+    return {
+      dimension,
+      value: sorted[median]!.vector[dimension]!,
+      left: this.buildNode(sorted.slice(0, median)),
+      right: this.buildNode(sorted.slice(median)),
+    };
+  }
+
+  /**
+   * Remove `id` from its leaf, returning whether it was indexed
+   */
+  private detach(id: string): boolean {
+    const leaf = this.leaves.get(id);
+    if (!leaf) {
+      return false;
+    }
+    leaf.points.splice(
+      leaf.points.findIndex((point) => point.id === id),
+      1,
+    );
+    this.leaves.delete(id);
+    return true;
+  }
+
+  private recordChange(): void {
+    this.changes++;
+    const limit =
+      this.config.rebalanceThreshold * Math.max(this.builtSize, this.config.leafSize);
+    if (this.changes > limit) {
+      this.rebalance();
+    }
+  }
+}
+
+/**
+ * Dimension along which `points` are most spread out, or -1 when every
+ * point is identical and cannot be split
+ */
+function widestDimension(points: KDPoint[]): number {
+  const dimensions = points[0]?.vector.length ?? 0;
+  let widest = -1;
+  let widestSpread = 0;
+  for (let d = 0; d < dimensions; d++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const { vector } of points) {
+      min = Math.min(min, vector[d]!);
+      max = Math.max(max, vector[d]!);
+    }
+    if (max - min > widestSpread) {
+      widestSpread = max - min;
+      widest = d;
+    }
+  }
+  return widest;
+}
+
+/** Order by distance, then id */
+function compare(
+  distance: number,
+  point: KDPoint,
+  other: { point: KDPoint; distance: number },
+): number {
+  return distance - other.distance || point.id.localeCompare(other.point.id);
+}
+
+function toPoint(vectorData: VectorData): KDPoint {
+  return {
+    id: vectorData.id,
+    vector: vectorData.vector,
+    ...(vectorData.metadata && { metadata: vectorData.metadata }),
+  };
+}
+
+function toResult(point: KDPoint, distance: number): KDResult {
+  return {
+    id: point.id,
+    distance,
+    ...(point.metadata && { metadata: point.metadata }),
+  };
+}
@@ -0,0 +1,310 @@
+import { StorageCorruptionError, StorageFormatError } from '@/core/errors.js';
+import { crc32 } from '@/storage/adapters/serialization.js';
+import type { KDTreeConfig, KDTreeState, KDTreeStateNode } from './kdtree-index.js';
+
+// ---------------------------------------------------------------------------
+// Versioned binary KD-tree snapshot
+//
+// Wire format (version 1):
+//
+//   Offset  Size  Field
+//   ------  ----  -----
+//   0       4     Magic marker: 0x4B445452 ("KDTR")
+//   4       1     Format version (currently 1)
+//   5       1     Flags (bit 0: vector block present)
+//   6       2     Reserved / padding (zeros)
+//   8       4     Point count (uint32 LE)
+//   12      4     Vector dimension, 0 when vectors are omitted (uint32 LE)
+//   16      4     Tree node count (uint32 LE)
+//   20      4     Manifest JSON byte length (uint32 LE)
+//   24      4     CRC-32 checksum over entire buffer (checksum field zeroed)
+//   28      4     Reserved / padding (zeros)
+//   32      V     Float32 vector block, in leaf order (V = points × dimension × 4)
+//   32+V    T     Node block (T = nodes × 12), in preorder, per node:
+//                 [kind (uint32, 0 leaf / 1 split),
+//                  leaf size or split dimension (uint32),
+//                  split value (float32, 0 for leaves)]
+//   32+V+T  M     UTF-8 JSON manifest: IDs, metadata, config and distance
+//                 metric
+//
+// Split values are vector components, so float32 holds them exactly. Without
+// the vector block the loader must supply vectors from the vector store.
+// ---------------------------------------------------------------------------
+
+/** Magic bytes that identify a binary KD-tree snapshot. */
+export const KDTREE_SNAPSHOT_MAGIC = 0x4b445452; // "KDTR"
+
+/** Currently supported snapshot format versions.  Add future versions here. */
+export const SUPPORTED_KDTREE_SNAPSHOT_VERSIONS = [1] as const;
+
+const OFFSET_MAGIC = 0;
+const OFFSET_VERSION = 4;
+const OFFSET_FLAGS = 5;
+const OFFSET_POINT_COUNT = 8;
+const OFFSET_DIMENSION = 12;
+const OFFSET_NODE_COUNT = 16;
+const OFFSET_MANIFEST_LENGTH = 20;
+const OFFSET_CHECKSUM = 24;
+const HEADER_SIZE = 32;
+const NODE_SIZE = 12;
+
+const FLAG_VECTORS = 1;
+const KIND_LEAF = 0;
+const KIND_SPLIT = 1;
+
+/** Maximum allowed vector dimension encoded in a snapshot header. */
+const MAX_VECTOR_DIMENSION = 100_000;
+
+/** JSON tail holding everything that is not a vector or a tree node. */
+interface SnapshotManifest {
+  ids: string[];
+  /** Point position → metadata, for points that carry metadata. */
+  metadata: Record<number, Record<string, unknown>>;
+  config: KDTreeConfig;
+  distanceMetric: string;
+  timestamp: number;
+}
+
+/**
+ * A decoded snapshot. Point vectors are absent when the snapshot was written
+ * without its vector block.
+ */
+export interface DecodedKDTreeSnapshot {
+  points: Array<{
+    id: string;
+    vector?: Float32Array;
+    metadata?: Record<string, unknown>;
+  }>;
+  nodes: KDTreeStateNode[];
+  config: KDTreeConfig;
+  distanceMetric: string;
+  timestamp: number;
+  includesVectors: boolean;
+}
+
+/**
+ * Encode a KD-tree as a versioned binary snapshot.
+ *
+ * With `includeVectors: false` only the tree and point IDs are written and
+ * vectors must be resolved by ID on load.
+ */
+export function encodeKDTreeSnapshot(
+  tree: KDTreeState,
+  distanceMetric: string,
+  options: { includeVectors?: boolean } = {},
+): ArrayBuffer {
+  const includeVectors = options.includeVectors ?? true;
+  const pointCount = tree.points.length;
+  const nodeCount = tree.nodes.length;
+
+  const dimension = includeVectors ? (tree.points[0]?.vector.length ?? 0) : 0;
+  for (const point of includeVectors ? tree.points : []) {
+    if (point.vector.length !== dimension) {
+      throw new Error(
+        `Cannot snapshot KD-tree index: point '${point.id}' has ${point.vector.length} dimensions, expected ${dimension}`,
+      );
+    }
+  }
+
+  const metadata: SnapshotManifest['metadata'] = {};
+  tree.points.forEach((point, position) => {
+    if (point.metadata) metadata[position] = point.metadata;
+  });
+  const manifest: SnapshotManifest = {
+    ids: tree.points.map((point) => point.id),
+    metadata,
+    config: tree.config,
+    distanceMetric,
+    timestamp: Date.now(),
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+
+  // ---- Layout ------------------------------------------------------------
+  const vectorByteLength = pointCount * dimension * Float32Array.BYTES_PER_ELEMENT;
+  const nodeOffset = HEADER_SIZE + vectorByteLength;
+  const manifestOffset = nodeOffset + nodeCount * NODE_SIZE;
+  const buffer = new ArrayBuffer(manifestOffset + manifestBytes.byteLength);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint32(OFFSET_MAGIC, KDTREE_SNAPSHOT_MAGIC, true);
+  view.setUint8(OFFSET_VERSION, 1);
+  view.setUint8(OFFSET_FLAGS, includeVectors ? FLAG_VECTORS : 0);
+  view.setUint32(OFFSET_POINT_COUNT, pointCount, true);
+  view.setUint32(OFFSET_DIMENSION, dimension, true);
+  view.setUint32(OFFSET_NODE_COUNT, nodeCount, true);
+  view.setUint32(OFFSET_MANIFEST_LENGTH, manifestBytes.byteLength, true);
+
+  if (includeVectors) {
+    const vectors = new Float32Array(buffer, HEADER_SIZE, pointCount * dimension);
+    tree.points.forEach((point, position) =>
+      vectors.set(point.vector, position * dimension),
+    );
+  }
+  tree.nodes.forEach((node, position) => {
+    const offset = nodeOffset + position * NODE_SIZE;
+    if (node.kind === 'leaf') {
+      view.setUint32(offset, KIND_LEAF, true);
+      view.setUint32(offset + 4, node.size, true);
+    } else {
+      view.setUint32(offset, KIND_SPLIT, true);
+      view.setUint32(offset + 4, node.dimension, true);
+      view.setFloat32(offset + 8, node.value, true);
+    }
+  });
+  bytes.set(manifestBytes, manifestOffset);
+
+  // Checksum field is still zero here, matching what readers recompute.
+  view.setUint32(OFFSET_CHECKSUM, crc32(bytes), true);
+
+  return buffer;
+}
+
+/**
+ * Decode a binary KD-tree snapshot.
+ *
+ * Validates the magic marker, format version, section lengths, CRC-32
+ * checksum and tree shape before parsing. Throws `StorageCorruptionError`
+ * when the payload is structurally invalid or the checksum does not match,
+ * and `StorageFormatError` when the version is unsupported.
+ */
+export function decodeKDTreeSnapshot(buffer: ArrayBuffer): DecodedKDTreeSnapshot {
+  if (buffer.byteLength < HEADER_SIZE) {
+    throw new StorageCorruptionError(
+      `KD-tree snapshot too small: ${buffer.byteLength} bytes (minimum ${HEADER_SIZE})`,
+    );
+  }
+
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // ---- Magic marker and version ------------------------------------------
+  const magic = view.getUint32(OFFSET_MAGIC, true);
+  if (magic !== KDTREE_SNAPSHOT_MAGIC) {
+    throw new StorageCorruptionError(
+      `Invalid KD-tree snapshot magic marker: 0x${magic.toString(16).padStart(8, '0').toUpperCase()} (expected 0x4B445452)`,
+    );
+  }
+
+  const version = view.getUint8(OFFSET_VERSION);
+  if (!(SUPPORTED_KDTREE_SNAPSHOT_VERSIONS as readonly number[]).includes(version)) {
+    throw new StorageFormatError(version, SUPPORTED_KDTREE_SNAPSHOT_VERSIONS);
+  }
+
+  // ---- Section lengths ---------------------------------------------------
+  const includesVectors = (view.getUint8(OFFSET_FLAGS) & FLAG_VECTORS) !== 0;
+  const pointCount = view.getUint32(OFFSET_POINT_COUNT, true);
+  const dimension = view.getUint32(OFFSET_DIMENSION, true);
+  const nodeCount = view.getUint32(OFFSET_NODE_COUNT, true);
+  const manifestLength = view.getUint32(OFFSET_MANIFEST_LENGTH, true);
+
+  if (dimension > MAX_VECTOR_DIMENSION) {
+    throw new StorageCorruptionError(
+      `KD-tree snapshot claims vector dimension ${dimension} which exceeds the maximum of ${MAX_VECTOR_DIMENSION}`,
+    );
+  }
+
+  const vectorByteLength = pointCount * dimension * Float32Array.BYTES_PER_ELEMENT;
+  const nodeOffset = HEADER_SIZE + vectorByteLength;
+  const manifestOffset = nodeOffset + nodeCount * NODE_SIZE;
+  if (manifestOffset + manifestLength !== buffer.byteLength) {
+    throw new StorageCorruptionError(
+      `KD-tree snapshot size mismatch: expected ${manifestOffset + manifestLength} bytes but got ${buffer.byteLength}`,
+    );
+  }
+
+  // ---- Checksum ----------------------------------------------------------
+  const storedChecksum = view.getUint32(OFFSET_CHECKSUM, true);
+  let computed = crc32(bytes.subarray(0, OFFSET_CHECKSUM));
+  computed = crc32(new Uint8Array(4), computed);
+  computed = crc32(bytes.subarray(OFFSET_CHECKSUM + 4), computed);
+  if (computed !== storedChecksum) {
+    throw new StorageCorruptionError(
+      `KD-tree snapshot CRC-32 checksum mismatch: stored 0x${storedChecksum.toString(16)} vs computed 0x${computed.toString(16)}`,
+    );
+  }
+
+  // ---- Manifest ----------------------------------------------------------
+  let manifest: SnapshotManifest;
+  try {
+    manifest = JSON.parse(
+      new TextDecoder().decode(bytes.subarray(manifestOffset)),
+    ) as SnapshotManifest;
+  } catch (cause) {
+    throw new StorageCorruptionError(
+      `Failed to parse KD-tree snapshot manifest: ${cause instanceof Error ? cause.message : String(cause)}`,
+    );
+  }
+  if (!Array.isArray(manifest.ids) || manifest.ids.length !== pointCount) {
+    throw new StorageCorruptionError(
+      `KD-tree snapshot manifest lists ${Array.isArray(manifest.ids) ? manifest.ids.length : 0} IDs for ${pointCount} points`,
+    );
+  }
+
+  // ---- Tree nodes --------------------------------------------------------
+  // A preorder list is a complete tree when every split's two subtrees are
+  // present and nothing follows the last of them.
+  const nodes: KDTreeStateNode[] = [];
+  let open = 1;
+  let leafPoints = 0;
+  for (let position = 0; position < nodeCount; position++) {
+    if (open === 0) {
+      throw new StorageCorruptionError(
+        `KD-tree snapshot has ${nodeCount - position} nodes after the tree is complete`,
+      );
+    }
+    const offset = nodeOffset + position * NODE_SIZE;
+    const kind = view.getUint32(offset, true);
+    const argument = view.getUint32(offset + 4, true);
+    if (kind === KIND_LEAF) {
+      nodes.push({ kind: 'leaf', size: argument });
+      leafPoints += argument;
+      open--;
+    } else if (kind === KIND_SPLIT) {
+      if (includesVectors && argument >= dimension) {
+        throw new StorageCorruptionError(
+          `KD-tree snapshot splits on dimension ${argument} of ${dimension}`,
+        );
+      }
+      nodes.push({
+        kind: 'split',
+        dimension: argument,
+        value: view.getFloat32(offset + 8, true),
+      });
+      open++;
+    } else {
+      throw new StorageCorruptionError(`KD-tree snapshot has unknown node kind ${kind}`);
+    }
+  }
+  if (open !== 0 || leafPoints !== pointCount) {
+    throw new StorageCorruptionError(
+      `KD-tree snapshot tree is incomplete or its leaves hold ${leafPoints} of ${pointCount} points`,
+    );
+  }
+
+  // ---- Points ------------------------------------------------------------
+  // Copy the vector block out once so point vectors do not pin the whole
+  // snapshot buffer in memory.
+  const vectors = includesVectors
+    ? new Float32Array(buffer.slice(HEADER_SIZE, nodeOffset))
+    : null;
+  const points: DecodedKDTreeSnapshot['points'] = manifest.ids.map((id, position) => {
+    const metadata = manifest.metadata[position];
+    return {
+      id,
+      ...(vectors && {
+        vector: vectors.subarray(position * dimension, (position + 1) * dimension),
+      }),
+      ...(metadata && { metadata }),
+    };
+  });
+
+  return {
+    points,
+    nodes,
+    config: manifest.config,
+    distanceMetric: manifest.distanceMetric,
+    timestamp: manifest.timestamp,
+    includesVectors,
+  };
+}
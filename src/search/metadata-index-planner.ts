@@ -0,0 +1,264 @@
+import type {
+  MetadataFilter,
+  MetadataIndexDefinition,
+  MetadataIndexKind,
+} from '@/core/types.js';
+
+/**
+ * Key types that IndexedDB can index and that metadata filters compare with
+ * strict equality. Booleans and `null` are not valid IndexedDB keys, so records
+ * carrying them are absent from secondary indexes and never planned.
+ */
+export type IndexableMetadataKey = string | number;
+
+/**
+ * Access path chosen for a filtered scan.
+ *
+ * - `values`: union of exact-key lookups (`$eq`, `$in`, multiEntry membership).
+ * - `range`: a single numeric key range (`$gt`/`$gte`/`$lt`/`$lte`/`$between`).
+ *
+ * Plans are always a superset of the matching records: the caller re-applies
+ * the compiled predicate to every candidate the index returns.
+ */
+export type MetadataIndexPlan =
+  | {
+      type: 'values';
+      field: string;
+      indexName: string;
+      values: IndexableMetadataKey[];
+    }
+  | {
+      type: 'range';
+      field: string;
+      indexName: string;
+      lower?: number;
+      upper?: number;
+      lowerOpen: boolean;
+      upperOpen: boolean;
+    };
+
+/**
+ * Name of the IndexedDB index that backs a metadata field.
+ */
+export function metadataIndexName(field: string): string {
+  return `metadata.${field}`;
+}
+
+/**
+ * Key path of the IndexedDB index that backs a metadata field.
+ */
+export function metadataIndexKeyPath(field: string): string {
+  return `metadata.${field}`;
+}
+
+/**
+ * Resolve the effective kind of an index definition.
+ */
+export function metadataIndexKind(
+  definition: MetadataIndexDefinition,
+): MetadataIndexKind {
+  return definition.kind ?? 'equality';
+}
+
+function isIndexableKey(value: unknown): value is IndexableMetadataKey {
+  return (
+    typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))
+  );
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof RegExp) &&
+    Object.keys(value).some((key) => key.startsWith('$'))
+  );
+}
+
+/**
+ * Collect the field conditions that are AND-ed together at the top of the
+ * filter. `$or` and `$not` branches are skipped: they only narrow the result
+ * further, so ignoring them keeps the plan a superset.
+ */
+function collectConjuncts(
+  filter: MetadataFilter,
+  conjuncts: Array<[string, unknown]>,
+): void {
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === '$and') {
+      if (Array.isArray(condition)) {
+        for (const child of condition as MetadataFilter[]) {
+          collectConjuncts(child, conjuncts);
+        }
+      }
+    } else if (!key.startsWith('$')) {
+      conjuncts.push([key, condition]);
+    }
+  }
+}
+
+function planValues(
+  kind: MetadataIndexKind,
+  condition: unknown,
+): IndexableMetadataKey[] | null {
+  if (!isOperatorObject(condition)) {
+    // Bare values are whole-value equality, which a multiEntry index cannot serve.
+    return kind !== 'multiEntry' && isIndexableKey(condition) ? [condition] : null;
+  }
+
+  if (kind === 'multiEntry') {
+    const all = condition['$all'];
+    if (Array.isArray(all) && all.length > 0 && isIndexableKey(all[0])) {
+      // Any single element narrows the candidates; the predicate checks the rest.
+      return [all[0]];
+    }
+    const elemMatch = condition['$elemMatch'];
+    if (isIndexableKey(elemMatch)) {
+      return [elemMatch];
+    }
+    return null;
+  }
+
+  const eq = condition['$eq'];
+  if (isIndexableKey(eq)) {
+    return [eq];
+  }
+  const inValues = condition['$in'];
+  if (
+    Array.isArray(inValues) &&
+    inValues.length > 0 &&
+    inValues.every((value) => isIndexableKey(value))
+  ) {
+    return [...new Set(inValues as IndexableMetadataKey[])];
+  }
+  return null;
+}
+
+function planRange(
+  field: string,
+  indexName: string,
+  condition: unknown,
+): MetadataIndexPlan | null {
+  if (!isOperatorObject(condition)) {
+    return null;
+  }
+
+  let lower: number | undefined;
+  let upper: number | undefined;
+  let lowerOpen = false;
+  let upperOpen = false;
+
+  const tightenLower = (value: number, open: boolean) => {
+    if (lower === undefined || value > lower || (value === lower && open)) {
+      lower = value;
+      lowerOpen = open;
+    }
+  };
+  const tightenUpper = (value: number, open: boolean) => {
+    if (upper === undefined || value < upper || (value === upper && open)) {
+      upper = value;
+      upperOpen = open;
+    }
+  };
+
+  for (const [operator, operand] of Object.entries(condition)) {
+    switch (operator) {
+      case '$gt':
+      case '$gte':
+        if (typeof operand === 'number' && Number.isFinite(operand)) {
+          tightenLower(operand, operator === '$gt');
+        }
+        break;
+      case '$lt':
+      case '$lte':
+        if (typeof operand === 'number' && Number.isFinite(operand)) {
+          tightenUpper(operand, operator === '$lt');
+        }
+        break;
+      case '$between':
+        if (
+          Array.isArray(operand) &&
+          operand.length === 2 &&
+          typeof operand[0] === 'number' &&
+          typeof operand[1] === 'number' &&
+          Number.isFinite(operand[0]) &&
+          Number.isFinite(operand[1])
+        ) {
+          tightenLower(operand[0], false);
+          tightenUpper(operand[1], false);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (lower === undefined && upper === undefined) {
+    return null;
+  }
+
+  // An empty interval cannot be expressed as an IDBKeyRange (it throws), so
+  // plan it as a lookup of no values instead.
+  if (
+    lower !== undefined &&
+    upper !== undefined &&
+    (lower > upper || (lower === upper && (lowerOpen || upperOpen)))
+  ) {
+    return { type: 'values', field, indexName, values: [] };
+  }
+
+  return {
+    type: 'range',
+    field,
+    indexName,
+    ...(lower !== undefined && { lower }),
+    ...(upper !== undefined && { upper }),
+    lowerOpen,
+    upperOpen,
+  };
+}
+
+/**
+ * Choose an index-backed access path for `filter`, or `null` when no declared
+ * index can narrow the scan.
+ *
+ * Exact-key plans are preferred over range plans, and among exact-key plans the
+ * one with the fewest lookups wins. Only top-level conjuncts are considered.
+ */
+export function planMetadataIndexQuery(
+  filter: MetadataFilter,
+  indexes: readonly MetadataIndexDefinition[],
+): MetadataIndexPlan | null {
+  if (indexes.length === 0) {
+    return null;
+  }
+
+  const definitions = new Map(indexes.map((index) => [index.field, index]));
+  const conjuncts: Array<[string, unknown]> = [];
+  collectConjuncts(filter, conjuncts);
+
+  let best: MetadataIndexPlan | null = null;
+
+  for (const [field, condition] of conjuncts) {
+    const definition = definitions.get(field);
+    if (!definition) continue;
+
+    const kind = metadataIndexKind(definition);
+    const indexName = metadataIndexName(field);
+
+    const values = planValues(kind, condition);
+    if (values) {
+      if (best?.type !== 'values' || values.length < best.values.length) {
+        best = { type: 'values', field, indexName, values };
+      }
+      continue;
+    }
+
+    if (kind === 'range' && best === null) {
+      best = planRange(field, indexName, condition);
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,392 @@
+import { BinaryQuantizer } from '@/compression/binary-quantizer.js';
+import { ProductQuantizer } from '@/compression/product-quantizer.js';
+import { ScalarQuantizer } from '@/compression/scalar-quantizer.js';
+import type {
+  StorageAdapter,
+  VectorCompressionConfig,
+  VectorData,
+} from '@/core/types.js';
+import {
+  decodeBinaryDocument,
+  encodeBinaryDocument,
+} from '@/storage/adapters/documents.js';
+import { log } from '@/utilities/logger.js';
+import type { CodebookPersistence } from './codebook-persistence.js';
+import { createDistanceCalculator, type DistanceCalculator } from './distance-metrics.js';
+
+const DEFAULT_TRAIN_ON = 1000;
+
+/** Document collection holding the codes of one vector per key (its id) */
+const CODES_COLLECTION = 'compressed-codes';
+
+/** Codes of one vector as stored in the codes collection */
+interface CodesDocument {
+  strategy: VectorCompressionConfig['strategy'];
+  /** Id of the codebook the codes were computed with; 0 without one */
+  codebook: number;
+  /** Base64 of the codes */
+  codes: string;
+}
+
+/**
+ * In-memory quantizer codes for every stored vector, used to answer searches
+ * without reading the original vectors.
+ *
+ * When a code store is given, each vector's codes are also kept as a small
+ * document in its `compressed-codes` collection, apart from the vector
+ * records: reopening a store reads only those documents, and the original
+ * vectors are read only to rescore candidates or to retrain. Product
+ * quantization first collects `trainOn` vectors to train its codebook; until
+ * then {@link isReady} is false and callers should search exactly.
+ */
+export class QuantizedIndex {
+  readonly strategy: VectorCompressionConfig['strategy'];
+  readonly rescore: number;
+  private readonly trainOn: number;
+  private readonly calculator: DistanceCalculator;
+  private product: ProductQuantizer | null = null;
+  private readonly scalar: ScalarQuantizer | null = null;
+  private readonly binary: BinaryQuantizer | null = null;
+  private codes = new Map<string, Uint8Array>();
+  /** Packed sign bits of binary codes, kept apart for the Hamming pass */
+  private hammingCodes = new Map<string, Uint8Array>();
+  private trainingBuffer = new Map<string, Float32Array>();
+  /** Random id of the trained codebook; stored with codes so codes from another codebook are rejected */
+  private codebookId = 0;
+  /** Code documents found before a {@link rebuild}, not yet confirmed or rewritten */
+  private previousDocuments: Map<string, CodesDocument> | null = null;
+
+  constructor(
+    private dimension: number,
+    private metric: string,
+    config: VectorCompressionConfig,
+    private persistence?: { codebooks: CodebookPersistence; key: string },
+    private store?: StorageAdapter,
+  ) {
+    const trainOn = config.trainOn ?? DEFAULT_TRAIN_ON;
+    const rescore = config.rescore ?? 0;
+    if (!Number.isInteger(trainOn) || trainOn < 1) {
+      throw new Error('compression.trainOn must be a positive integer');
+    }
+    if (!Number.isInteger(rescore) || rescore < 0) {
+      throw new Error('compression.rescore must be a non-negative integer');
+    }
+
+    this.strategy = config.strategy;
+    this.trainOn = trainOn;
+    this.rescore = rescore;
+    this.calculator = createDistanceCalculator(metric);
+
+    switch (config.strategy) {
+      case 'product':
+        this.product = this.createProductQuantizer();
+        break;
+      case 'scalar':
+        this.scalar = new ScalarQuantizer({
+          bits: 8,
+          adaptiveBits: false,
+          validateQuality: false,
+        });
+        break;
+      case 'binary':
+        this.binary = new BinaryQuantizer({ validateQuality: false });
+        break;
+    }
+  }
+
+  /**
+   * Whether vectors can be encoded (product quantization needs a trained codebook)
+   */
+  isReady(): boolean {
+    return this.product ? this.product.isCodebookTrained() : true;
+  }
+
+  /**
+   * Track a stored vector, training the codebook once enough have arrived
+   */
+  async add(vectorData: VectorData): Promise<void> {
+    if (this.isReady()) {
+      const codes = await this.encode(vectorData.vector);
+      this.track(vectorData.id, codes);
+      await this.save(vectorData.id, codes);
+      return;
+    }
+
+    this.trainingBuffer.set(vectorData.id, vectorData.vector);
+    if (this.trainingBuffer.size >= this.trainOn) {
+      await this.train();
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    this.trainingBuffer.delete(id);
+    this.hammingCodes.delete(id);
+    if (this.codes.delete(id)) {
+      await this.store?.deleteDocument(CODES_COLLECTION, id);
+    }
+  }
+
+  /**
+   * Restore the codes saved in the code store, and the persisted codebook
+   * they were computed with. Returns false, leaving no codes tracked, when
+   * there is no trained codebook or the saved codes were computed with
+   * another one or number other than `expectedCount`.
+   */
+  async restore(expectedCount: number): Promise<boolean> {
+    this.reset();
+    if (!this.isReady()) {
+      await this.restoreCodebook();
+    }
+    if (!this.store || !this.isReady()) {
+      return false;
+    }
+
+    const stored = await this.store.listDocuments<CodesDocument>(CODES_COLLECTION);
+    if (
+      stored.length !== expectedCount ||
+      stored.some(({ document }) => !this.matches(document))
+    ) {
+      return false;
+    }
+    for (const { key, document } of stored) {
+      this.track(key, new Uint8Array(decodeBinaryDocument(document.codes)));
+    }
+    return true;
+  }
+
+  /**
+   * Replace the tracked codes by encoding `vectors`, restoring a persisted
+   * codebook first when one exists. Saved codes that still match are kept,
+   * so only changed vectors are written, and codes of vectors no longer
+   * given are deleted.
+   */
+  async rebuild(vectors: AsyncIterable<VectorData>): Promise<void> {
+    this.reset();
+    if (!this.isReady()) {
+      await this.restoreCodebook();
+    }
+    if (!this.store) {
+      for await (const vectorData of vectors) {
+        await this.add(vectorData);
+      }
+      return;
+    }
+
+    const stored = await this.store.listDocuments<CodesDocument>(CODES_COLLECTION);
+    this.previousDocuments = new Map(stored.map(({ key, document }) => [key, document]));
+    try {
+      for await (const vectorData of vectors) {
+        await this.add(vectorData);
+      }
+      for (const id of this.previousDocuments.keys()) {
+        await this.store.deleteDocument(CODES_COLLECTION, id);
+      }
+    } finally {
+      this.previousDocuments = null;
+    }
+  }
+
+  /**
+   * Drop all codes and any trained or persisted codebook
+   */
+  async clear(): Promise<void> {
+    this.reset();
+    if (this.product) {
+      this.product = this.createProductQuantizer();
+      this.codebookId = 0;
+    }
+    await this.persistence?.codebooks.delete(this.persistence.key);
+    if (this.store) {
+      for (const { key } of await this.store.listDocuments(CODES_COLLECTION)) {
+        await this.store.deleteDocument(CODES_COLLECTION, key);
+      }
+    }
+  }
+
+  /**
+   * Rank every tracked vector, or only the tracked `candidates` when given,
+   * by approximate distance and return the closest `limit`, nearest first
+   */
+  async search(
+    query: Float32Array,
+    limit: number,
+    candidates?: string[],
+  ): Promise<Array<{ id: string; distance: number }>> {
+    let entries = candidates
+      ? candidates.flatMap((id) => {
+          const codes = this.codes.get(id);
+          return codes ? [{ id, codes }] : [];
+        })
+      : Array.from(this.codes, ([id, codes]) => ({ id, codes }));
+
+    // Binary codes are pre-ranked by Hamming distance before reconstruction
+    if (this.binary) {
+      const ranked = this.binary.rankByHamming(
+        this.binary.encode(query),
+        entries.map(({ id }) => ({ id, code: this.hammingCodes.get(id)! })),
+        limit,
+      );
+      entries = ranked.map(({ id }) => ({ id, codes: this.codes.get(id)! }));
+    }
+
+    const scored: Array<{ id: string; distance: number }> = [];
+    for (const { id, codes } of entries) {
+      scored.push({ id, distance: await this.approximateDistance(query, codes) });
+    }
+
+    // Sort by distance ascending; use id as a stable tie-breaker.
+    scored.sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id));
+    return scored.slice(0, limit);
+  }
+
+  getStats(): {
+    strategy: VectorCompressionConfig['strategy'];
+    trained: boolean;
+    vectorCount: number;
+    codeBytes: number;
+  } {
+    let codeBytes = 0;
+    for (const codes of this.codes.values()) {
+      codeBytes += codes.byteLength;
+    }
+    return {
+      strategy: this.strategy,
+      trained: this.isReady(),
+      vectorCount: this.codes.size,
+      codeBytes,
+    };
+  }
+
+  private async train(): Promise<void> {
+    const product = this.product!;
+    await product.trainCodebook(Array.from(this.trainingBuffer.values()));
+    this.codebookId = Math.floor(Math.random() * 0xffffffff) + 1;
+
+    if (this.persistence) {
+      await this.persistence.codebooks.save({
+        key: this.persistence.key,
+        id: this.codebookId,
+        strategy: this.strategy,
+        dimension: this.dimension,
+        codebook: product.getCodebookInfo()!,
+        timestamp: Date.now(),
+      });
+    }
+
+    for (const [id, vector] of this.trainingBuffer) {
+      const codes = product.encode(vector);
+      this.track(id, codes);
+      await this.save(id, codes);
+    }
+    this.trainingBuffer.clear();
+  }
+
+  private track(id: string, codes: Uint8Array): void {
+    this.codes.set(id, codes);
+    if (this.binary) {
+      this.hammingCodes.set(id, this.binary.codeOf(toBuffer(codes)));
+    }
+  }
+
+  private reset(): void {
+    this.codes.clear();
+    this.hammingCodes.clear();
+    this.trainingBuffer.clear();
+  }
+
+  /**
+   * Write the codes of `id` to the code store, unless a rebuild found them
+   * saved already
+   */
+  private async save(id: string, codes: Uint8Array): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const document: CodesDocument = {
+      strategy: this.strategy,
+      codebook: this.codebookId,
+      codes: encodeBinaryDocument(toBuffer(codes)),
+    };
+    const previous = this.previousDocuments?.get(id);
+    this.previousDocuments?.delete(id);
+    if (previous && this.matches(previous) && previous.codes === document.codes) {
+      return;
+    }
+    await this.store.putDocument(CODES_COLLECTION, id, document);
+  }
+
+  /** Whether saved codes were computed with this strategy and codebook */
+  private matches(document: CodesDocument): boolean {
+    return document.strategy === this.strategy && document.codebook === this.codebookId;
+  }
+
+  private createProductQuantizer(): ProductQuantizer {
+    return new ProductQuantizer({
+      subspaces: Math.min(8, this.dimension),
+      centroidsPerSubspace: Math.min(256, this.trainOn),
+      validateQuality: false,
+    });
+  }
+
+  private async restoreCodebook(): Promise<void> {
+    if (!this.persistence || !this.product) {
+      return;
+    }
+
+    const saved = await this.persistence.codebooks.load(this.persistence.key);
+    if (!saved) {
+      return;
+    }
+    if (saved.strategy !== this.strategy || saved.dimension !== this.dimension) {
+      log.warn('Persisted codebook does not match the compression config; retraining', {
+        key: this.persistence.key,
+      });
+      await this.persistence.codebooks.delete(this.persistence.key);
+      return;
+    }
+    this.product.setCodebook(saved.codebook);
+    this.codebookId = saved.id;
+  }
+
+  private async encode(vector: Float32Array): Promise<Uint8Array> {
+    if (this.product) {
+      return this.product.encode(vector);
+    }
+    const quantizer = this.scalar ?? this.binary!;
+    const compressed = await quantizer.compress(vector);
+    return new Uint8Array(compressed.data);
+  }
+
+  private async decode(codes: Uint8Array): Promise<Float32Array> {
+    if (this.product) {
+      return this.product.decode(codes, this.dimension);
+    }
+    if (this.scalar) {
+      return this.scalar.decode(toBuffer(codes));
+    }
+    return this.binary!.decode(toBuffer(codes));
+  }
+
+  private async approximateDistance(
+    query: Float32Array,
+    codes: Uint8Array,
+  ): Promise<number> {
+    // Asymmetric distance compares the raw query against centroids directly
+    if (this.product && (this.metric === 'euclidean' || this.metric === 'cosine')) {
+      return this.product.asymmetricDistance(query, codes, this.metric);
+    }
+    return this.calculator.calculate(query, await this.decode(codes));
+  }
+}
+
+/**
+ * Copy codes into a standalone buffer; structured-cloned or sliced arrays may
+ * be views into a larger one
+ */
+function toBuffer(codes: Uint8Array): ArrayBuffer {
+  return codes.buffer.slice(
+    codes.byteOffset,
+    codes.byteOffset + codes.byteLength,
+  ) as ArrayBuffer;
+}
@@ -0,0 +1,75 @@
+import type { DistanceMetric } from '@/core/types.js';
+
+/**
+ * A ranked list entry to be fused. Lists are expected in best-first order.
+ */
+export interface RankedItem {
+  id: string;
+  score: number;
+}
+
+/**
+ * Fuse ranked lists with reciprocal rank fusion.
+ *
+ * Each item contributes `1 / (k + rank)` per list it appears in (ranks are
+ * 1-based). Only positions matter, so lists with incomparable score scales
+ * (cosine similarity and BM25) can be combined without normalization.
+ */
+export function reciprocalRankFusion(
+  lists: ReadonlyArray<readonly RankedItem[]>,
+  k = 60,
+): Map<string, number> {
+  const fused = new Map<string, number>();
+
+  for (const list of lists) {
+    list.forEach((item, index) => {
+      fused.set(item.id, (fused.get(item.id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return fused;
+}
+
+/**
+ * Fuse two ranked lists by blending their min-max normalized scores:
+ * `alpha * primary + (1 - alpha) * secondary`. An item missing from a list
+ * contributes 0 for that list.
+ */
+export function weightedScoreFusion(
+  primary: readonly RankedItem[],
+  secondary: readonly RankedItem[],
+  alpha = 0.5,
+): Map<string, number> {
+  const fused = new Map<string, number>();
+
+  const accumulate = (list: readonly RankedItem[], weight: number) => {
+    if (list.length === 0) return;
+    const scores = list.map((item) => item.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+
+    for (const item of list) {
+      // A single distinct score carries no ranking signal; treat it as a full match.
+      const normalized = range > 0 ? (item.score - min) / range : 1;
+      fused.set(item.id, (fused.get(item.id) ?? 0) + weight * normalized);
+    }
+  };
+
+  accumulate(primary, alpha);
+  accumulate(secondary, 1 - alpha);
+
+  return fused;
+}
+
+/**
+ * Map a score returned by `SearchEngine` onto [0, 1] so results searched with
+ * different metrics can be ranked together. Dot products are unbounded and go
+ * through a logistic curve; every other metric already scores in [0, 1] and
+ * is only clamped.
+ */
+export function normalizeSimilarity(score: number, metric: DistanceMetric): number {
+  if (metric === 'dot') {
+    return 1 / (1 + Math.exp(-score));
+  }
+  return Math.min(1, Math.max(0, score));
+}
@@ -1,32 +1,84 @@
 import { VectorDatabase } from '@/core/database.js';
 import {
+  BatchOperationError,
   DimensionMismatchError,
   SearchAbortedError,
   SearchTimeoutError,
+  VectorNotFoundError,
 } from '@/core/errors.js';
 import type {
+  AutoIndexOptions,
   DistanceMetric as DistanceMetricType,
+  IndexStrategy,
+  IVFParameters,
+  KDTreeParameters,
   MetadataFilter,
   SearchOptions,
   SearchResult,
   StorageAdapter,
+  VectorCompressionConfig,
   VectorData,
 } from '@/core/types.js';
 import { InputValidator } from '@/core/input-validator.js';
 import { GPUSearchEngine, type GPUSearchConfig } from '@/gpu/gpu-search-engine.js';
 import {
+  AUTO_INDEX_LATENCY_BUDGET_MS,
+  AUTO_INDEX_REVIEW_INTERVAL,
   GPU_SEARCH_THRESHOLD,
+  KDTREE_AUTO_MAX_DIMENSION,
   WORKER_BATCH_SIMILARITY_THRESHOLD,
   WORKER_NORMALIZE_THRESHOLD,
   WORKER_SEARCH_THRESHOLD,
 } from '@/performance/execution-thresholds.js';
+import { getAdapterCapabilities } from '@/storage/adapters/adapter-capabilities.js';
 import { log } from '@/utilities/logger.js';
 import { VectorOperations } from '@/vectors/operations.js';
 import { WorkerPool } from '@/workers/worker-pool.js';
+import { CodebookPersistence } from './codebook-persistence.js';
 import { createDistanceCalculator, DistanceCalculator } from './distance-metrics.js';
-import { HNSWIndex } from './hnsw-index.js';
+import {
+  HNSWIndex,
+  type HNSWCompactionResult,
+  type HNSWDeletionMode,
+} from './hnsw-index.js';
+import {
+  INDEX_STRATEGY_RANK,
+  recommendIndexStrategy,
+  type IndexRecommendation,
+  type ResolvedIndexStrategy,
+} from './index-advisor.js';
+import { decodeHNSWSnapshot, encodeHNSWSnapshot } from './hnsw-snapshot.js';
 import { IndexCache, type IndexHealthReport } from './index-persistence.js';
+import { IVFIndex } from './ivf-index.js';
+import { isKDTreeMetric, KDTreeIndex } from './kdtree-index.js';
 import { MetadataFilterCompiler } from './metadata-filter.js';
+import { QuantizedIndex } from './quantized-index.js';
+
+type IndexType = Exclude<ResolvedIndexStrategy, 'brute'>;
+
+/**
+ * State of an `indexStrategy: 'auto'` search engine
+ */
+interface AutoIndexState {
+  options: AutoIndexOptions;
+  /** Why the active strategy was chosen */
+  reason: string | undefined;
+  writesSinceReview: number;
+  /** Moving average of brute-force search latency, in ms */
+  searchLatencyMs: number | undefined;
+  /** Background review, including any migration it started */
+  review: Promise<void> | null;
+  migration: IndexMigration | null;
+}
+
+/**
+ * An index being built in the background. Ids written meanwhile are
+ * collected in `touched` and replayed before the index is swapped in.
+ */
+interface IndexMigration {
+  target: IndexType;
+  touched: Set<string>;
+}
 
 /**
  * Search engine for vector similarity search
@@ -35,8 +87,23 @@ export class SearchEngine {
   private distanceCalculator: DistanceCalculator;
   private dimension: number;
   private hnswIndex: HNSWIndex | null = null;
+  private ivfIndex: IVFIndex | null = null;
+  private kdTreeIndex: KDTreeIndex | null = null;
+  /** Configured strategy; `'auto'` is resolved against the dimension and metric */
+  private indexStrategy: 'hnsw' | 'ivf' | 'kdtree' | 'auto';
+  private indexType: 'hnsw' | 'ivf' | 'kdtree';
+  private hnswConfig: ConstructorParameters<typeof HNSWIndex>[1];
+  private ivfConfig: IVFParameters;
+  private kdTreeConfig: KDTreeParameters;
+  /** Set when `indexStrategy` is `'auto'` */
+  private autoIndex: AutoIndexState | null = null;
+  /** Adapter whose documents hold the IVF inverted lists, by default `storage` */
+  private indexStorage: StorageAdapter | undefined;
+  private quantizedIndex: QuantizedIndex | null = null;
   private useIndex = false;
   private indexCache: IndexCache | null = null;
+  /** Whether this engine writes index snapshots; false in follower tabs */
+  private persistIndex = true;
   private indexId: string;
   private workerPool: WorkerPool | null = null;
   private useWorkers = false;
@@ -58,13 +125,23 @@ export class SearchEngine {
     distanceMetric: DistanceMetricType = 'cosine',
     options?: {
       useIndex?: boolean;
+      /** Takes precedence over `useIndex` and `indexConfig.type` */
+      indexStrategy?: IndexStrategy;
+      autoIndex?: AutoIndexOptions;
       indexConfig?: {
+        type?: 'hnsw' | 'ivf' | 'kdtree' | 'auto';
         m?: number;
         efConstruction?: number;
         maxLevel?: number;
+        deletionMode?: HNSWDeletionMode;
+        filterBruteForceSelectivity?: number;
+        ivf?: IVFParameters;
+        kdtree?: KDTreeParameters;
       };
+      indexStorage?: StorageAdapter; // Adapter for IVF inverted lists (default: storage)
       database?: unknown; // VectorDatabase instance for index persistence
       indexId?: string;
+      compression?: VectorCompressionConfig;
       useWorkers?: boolean;
       workerConfig?: {
         maxWorkers?: number;
@@ -83,19 +160,72 @@ export class SearchEngine {
   ) {
     this.dimension = dimension;
     this.distanceCalculator = createDistanceCalculator(distanceMetric);
-    this.useIndex = options?.useIndex ?? false;
+    const strategy = options?.indexStrategy;
+    this.useIndex = strategy
+      ? strategy !== 'brute' && strategy !== 'auto'
+      : (options?.useIndex ?? false);
     this.indexId = options?.indexId || 'default';
     this.useWorkers = options?.useWorkers ?? true;
     this.parallelThreshold = options?.workerConfig?.parallelThreshold ?? 1000;
     this.useGPU = options?.useGPU ?? false;
     this.gpuThreshold = options?.gpuConfig?.gpuThreshold ?? 5000;
 
-    if (options?.database) {
-      this.indexCache = new IndexCache(options.database as VectorDatabase);
+    // Snapshots and codebooks go to IndexedDB when given a database, else to
+    // the documents of a storage adapter that outlives the process. Compressed
+    // codes are then kept as documents of the vector storage itself.
+    const persistence: VectorDatabase | StorageAdapter | undefined =
+      (options?.database as VectorDatabase | undefined) ??
+      (getAdapterCapabilities(storage)?.persistence ? storage : undefined);
+    if (persistence) {
+      this.indexCache = new IndexCache(persistence, {
+        // Vector-less snapshots are restored from the vectors already in storage.
+        resolveVectors: async (ids) => {
+          const vectors = await this.storage.getMany(ids);
+          return new Map(vectors.map((vector) => [vector.id, vector.vector]));
+        },
+      });
     }
 
+    const {
+      type = 'hnsw',
+      ivf = {},
+      kdtree = {},
+      ...hnswConfig
+    } = options?.indexConfig ?? {};
+    this.indexStrategy = strategy && strategy !== 'brute' ? strategy : type;
+    this.indexType = this.resolveIndexType(distanceMetric);
+    this.hnswConfig = hnswConfig;
+    this.ivfConfig = ivf;
+    this.kdTreeConfig = kdtree;
+    this.indexStorage = options?.indexStorage ?? storage;
     if (this.useIndex) {
-      this.hnswIndex = new HNSWIndex(distanceMetric, options?.indexConfig);
+      this.installIndex(this.createIndex(this.indexType, distanceMetric));
+    }
+    if (strategy === 'auto') {
+      // Starts with brute force; reviews add an index as the collection grows
+      this.autoIndex = {
+        options: options?.autoIndex ?? {},
+        reason: undefined,
+        writesSinceReview: 0,
+        searchLatencyMs: undefined,
+        review: null,
+        migration: null,
+      };
+    }
+
+    if (options?.compression) {
+      this.quantizedIndex = new QuantizedIndex(
+        dimension,
+        distanceMetric,
+        options.compression,
+        persistence
+          ? {
+              codebooks: new CodebookPersistence(persistence),
+              key: `${this.indexId}-codebook`,
+            }
+          : undefined,
+        persistence ? storage : undefined,
+      );
     }
 
     // Initialize worker pool if workers are enabled
@@ -109,6 +239,57 @@ export class SearchEngine {
     }
   }
 
+  /**
+   * Index type for the configured strategy. `'auto'` picks an exact KD-tree
+   * for low-dimensional euclidean or manhattan vectors and HNSW otherwise.
+   */
+  private resolveIndexType(
+    distanceMetric: DistanceMetricType,
+  ): 'hnsw' | 'ivf' | 'kdtree' {
+    if (this.indexStrategy !== 'auto') {
+      return this.indexStrategy;
+    }
+    return this.dimension <= KDTREE_AUTO_MAX_DIMENSION && isKDTreeMetric(distanceMetric)
+      ? 'kdtree'
+      : 'hnsw';
+  }
+
+  private createIndex(
+    type: IndexType,
+    distanceMetric: DistanceMetricType,
+  ): HNSWIndex | IVFIndex | KDTreeIndex {
+    switch (type) {
+      case 'ivf':
+        return new IVFIndex(distanceMetric, this.ivfConfig, this.indexStorage);
+      case 'kdtree':
+        return new KDTreeIndex(distanceMetric, this.kdTreeConfig);
+      default:
+        return new HNSWIndex(distanceMetric, this.hnswConfig);
+    }
+  }
+
+  /**
+   * Make `index` the active index, replacing any other
+   */
+  private installIndex(index: HNSWIndex | IVFIndex | KDTreeIndex): void {
+    this.hnswIndex = index instanceof HNSWIndex ? index : null;
+    this.ivfIndex = index instanceof IVFIndex ? index : null;
+    this.kdTreeIndex = index instanceof KDTreeIndex ? index : null;
+    this.indexType = this.ivfIndex ? 'ivf' : this.kdTreeIndex ? 'kdtree' : 'hnsw';
+    this.useIndex = true;
+  }
+
+  private activeIndexStrategy(): ResolvedIndexStrategy {
+    return this.useIndex && (this.hnswIndex || this.ivfIndex || this.kdTreeIndex)
+      ? this.indexType
+      : 'brute';
+  }
+
+  private activeDistanceMetric(): DistanceMetricType {
+    return (this.distanceCalculator.getMetricInfo().name ||
+      'cosine') as DistanceMetricType;
+  }
+
   /**
    * Throw SearchAbortedError if the signal is already aborted.
    */
@@ -204,24 +385,67 @@ export class SearchEngine {
       );
     }
 
-    // Use HNSW index if available, no metadata filter, and index is clean
-    const coreSearch =
-      this.useIndex && this.hnswIndex && !options?.filter && !this.indexDirty
-        ? this.searchWithIndex(queryVector, k, options)
-        : this.searchBruteForce(queryVector, k, options);
+    // Use the HNSW or KD-tree index if available and clean; filters are applied
+    // during traversal. A trained IVF index answers unfiltered searches from its
+    // probed lists. Otherwise unfiltered searches run over compressed codes when
+    // configured.
+    const started = performance.now();
+    let coreSearch: Promise<SearchResult[]>;
+    if (this.useIndex && (this.hnswIndex || this.kdTreeIndex) && !this.indexDirty) {
+      coreSearch = this.searchWithIndex(queryVector, k, options);
+    } else if (
+      this.useIndex &&
+      this.ivfIndex?.isTrained() &&
+      !this.indexDirty &&
+      !options?.filter
+    ) {
+      coreSearch = this.searchWithIVF(queryVector, k, options);
+    } else if (this.quantizedIndex?.isReady() && !this.indexDirty && !options?.filter) {
+      coreSearch = this.searchQuantized(queryVector, k, options);
+    } else {
+      coreSearch = this.searchBruteForce(queryVector, k, options);
+      if (this.autoIndex && !this.useIndex) {
+        coreSearch = this.trackSearchLatency(coreSearch, started);
+      }
+    }
 
     return this.withCancellation(coreSearch, options);
   }
 
   /**
-   * Search using HNSW index
+   * Fold a brute-force search's latency into the `'auto'` moving average and
+   * review the strategy once it exceeds the latency budget
+   */
+  private async trackSearchLatency(
+    search: Promise<SearchResult[]>,
+    started: number,
+  ): Promise<SearchResult[]> {
+    const results = await search;
+    const autoIndex = this.autoIndex;
+    if (autoIndex) {
+      const elapsed = performance.now() - started;
+      autoIndex.searchLatencyMs =
+        autoIndex.searchLatencyMs === undefined
+          ? elapsed
+          : autoIndex.searchLatencyMs * 0.8 + elapsed * 0.2;
+      const budget = autoIndex.options.latencyBudgetMs ?? AUTO_INDEX_LATENCY_BUDGET_MS;
+      if (autoIndex.searchLatencyMs > budget) {
+        this.scheduleIndexReview();
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Search using the HNSW or KD-tree index
    */
   private async searchWithIndex(
     queryVector: Float32Array,
     k: number,
     options?: SearchOptions,
   ): Promise<SearchResult[]> {
-    if (!this.hnswIndex) {
+    const index = this.kdTreeIndex ?? this.hnswIndex;
+    if (!index) {
       throw new Error('HNSW index not initialized');
     }
 
@@ -230,14 +454,35 @@ export class SearchEngine {
       ? VectorOperations.normalizeSync(queryVector)
       : queryVector;
 
-    // Search using HNSW index
-    const indexResults = await this.hnswIndex.search(processedQuery, k);
+    // Search the index, evaluating any metadata filter during traversal
+    const filter = options?.filter
+      ? MetadataFilterCompiler.compile(options.filter)
+      : undefined;
+    const indexResults =
+      index instanceof KDTreeIndex
+        ? index.search(processedQuery, k, filter)
+        : await index.search(processedQuery, k, undefined, filter);
 
     // Check abort signal after the async index search.
     this.throwIfAborted(options?.signal);
 
-    // Convert to search results
-    const results = await Promise.all(
+    return this.toSearchResults(indexResults, options);
+  }
+
+  /**
+   * Convert index hits to search results, reading vectors from storage when
+   * `includeVector` is requested
+   */
+  private async toSearchResults(
+    indexResults: Array<{
+      id: string;
+      distance: number;
+      metadata?: Record<string, unknown>;
+    }>,
+    options?: SearchOptions,
+  ): Promise<SearchResult[]> {
+    const metric = this.distanceCalculator.getMetricInfo();
+    return Promise.all(
       indexResults.map(async (result) => {
         const searchResult: SearchResult = {
           id: result.id,
@@ -256,8 +501,96 @@ export class SearchEngine {
         return searchResult;
       }),
     );
+  }
 
-    return results;
+  /**
+   * Search the inverted lists closest to the query. Candidates are scored
+   * against compressed codes when compression is ready (IVF-PQ), otherwise
+   * loaded from storage and scored exactly.
+   */
+  private async searchWithIVF(
+    queryVector: Float32Array,
+    k: number,
+    options?: SearchOptions,
+  ): Promise<SearchResult[]> {
+    if (!this.ivfIndex) {
+      throw new Error('IVF index not initialized');
+    }
+
+    const metric = this.distanceCalculator.getMetricInfo();
+    const processedQuery = metric?.requiresNormalized
+      ? VectorOperations.normalizeSync(queryVector)
+      : queryVector;
+    const candidateIds = this.ivfIndex.probe(processedQuery);
+
+    if (this.quantizedIndex?.isReady()) {
+      return this.searchQuantized(queryVector, k, options, candidateIds);
+    }
+
+    const candidates = await this.storage.getMany(candidateIds);
+    this.throwIfAborted(options?.signal);
+    return this.searchInCandidates(queryVector, candidates, k, options);
+  }
+
+  /**
+   * Search over compressed codes, rescoring the best candidates against the
+   * original vectors when `compression.rescore` is set. `candidateIds`
+   * restricts the search to a subset, such as the probed IVF lists.
+   */
+  private async searchQuantized(
+    queryVector: Float32Array,
+    k: number,
+    options?: SearchOptions,
+    candidateIds?: string[],
+  ): Promise<SearchResult[]> {
+    if (!this.quantizedIndex) {
+      throw new Error('Quantized index not initialized');
+    }
+
+    const metric = this.distanceCalculator.getMetricInfo();
+    const processedQuery = metric?.requiresNormalized
+      ? VectorOperations.normalizeSync(queryVector)
+      : queryVector;
+
+    const rescore = this.quantizedIndex.rescore;
+    const shortlist = await this.quantizedIndex.search(
+      processedQuery,
+      Math.max(k, rescore),
+      candidateIds,
+    );
+    this.throwIfAborted(options?.signal);
+
+    if (rescore > 0) {
+      const originals = await this.storage.getMany(shortlist.map((entry) => entry.id));
+      this.throwIfAborted(options?.signal);
+      return this.searchInCandidates(queryVector, originals, k, options);
+    }
+
+    // Originals are only read when the caller asked for metadata or vectors
+    const topK = shortlist.slice(0, k);
+    const records = new Map<string, VectorData>();
+    if (options?.includeMetadata || options?.includeVector) {
+      const stored = await this.storage.getMany(topK.map((entry) => entry.id));
+      for (const record of stored) {
+        records.set(record.id, record);
+      }
+    }
+
+    return topK.map((entry) => {
+      const searchResult: SearchResult = {
+        id: entry.id,
+        score: this.distanceToScore(entry.distance, metric?.name || 'cosine'),
+        distance: entry.distance,
+      };
+      const record = records.get(entry.id);
+      if (options?.includeMetadata && record?.metadata) {
+        searchResult.metadata = record.metadata;
+      }
+      if (options?.includeVector && record) {
+        searchResult.vector = record.vector;
+      }
+      return searchResult;
+    });
   }
 
   /**
@@ -274,6 +607,18 @@ export class SearchEngine {
       ? VectorOperations.normalizeSync(queryVector)
       : queryVector;
 
+    // Let a backend with its own vector index answer the query when it can
+    const delegated = await this.storage.searchNearest?.({
+      vector: processedQuery,
+      k,
+      metric: (metric?.name ?? 'cosine') as DistanceMetricType,
+      ...(options?.filter && { filter: options.filter }),
+    });
+    if (delegated) {
+      this.throwIfAborted(options?.signal);
+      return this.toSearchResults(delegated, options);
+    }
+
     // Get candidates (all vectors for now, will be optimized with indexing)
     const candidates = await this.getCandidates(options?.filter);
 
@@ -539,6 +884,19 @@ export class SearchEngine {
     maxDistance: number,
     options?: SearchOptions & { maxResults?: number },
   ): Promise<SearchResult[]> {
+    // An exact KD-tree answers range queries without a scan
+    if (this.useIndex && this.kdTreeIndex && !this.indexDirty) {
+      const matches = this.kdTreeIndex.searchRange(
+        queryVector,
+        maxDistance,
+        options?.filter ? MetadataFilterCompiler.compile(options.filter) : undefined,
+      );
+      return this.toSearchResults(
+        options?.maxResults != null ? matches.slice(0, options.maxResults) : matches,
+        options,
+      );
+    }
+
     const metric = this.distanceCalculator.getMetricInfo();
     const processedQuery = metric?.requiresNormalized
       ? VectorOperations.normalizeSync(queryVector)
@@ -714,7 +1072,7 @@ export class SearchEngine {
 
     // Prefer adapter-assisted scanning when the adapter supports it.
     if (this.storage.capabilities?.metadataIndexing && this.storage.filteredScan) {
-      return this.storage.filteredScan(matcher);
+      return this.storage.filteredScan(matcher, filter);
     }
 
     // Fallback: load all vectors and filter in memory.
@@ -843,34 +1201,127 @@ export class SearchEngine {
   }
 
   /**
-   * Add vector to index (if using HNSW)
+   * Add vector to index (HNSW, IVF or KD-tree, and/or compressed codes)
    */
   async addVectorToIndex(vectorData: VectorData): Promise<void> {
+    if (this.autoIndex) {
+      this.autoIndex.migration?.touched.add(vectorData.id);
+      if (++this.autoIndex.writesSinceReview >= AUTO_INDEX_REVIEW_INTERVAL) {
+        this.scheduleIndexReview();
+      }
+    }
     if (this.useIndex && this.hnswIndex) {
       await this.hnswIndex.addVector(vectorData);
     }
+    if (this.useIndex && this.kdTreeIndex) {
+      this.kdTreeIndex.addVector(vectorData);
+    }
+    if (this.useIndex && this.ivfIndex) {
+      await this.ivfIndex.addVector(vectorData);
+    }
+    await this.quantizedIndex?.add(vectorData);
   }
 
   /**
-   * Remove vector from index (if using HNSW)
+   * Remove vector from index (HNSW, IVF or KD-tree, and/or compressed codes)
    */
   async removeVectorFromIndex(id: string): Promise<void> {
+    this.autoIndex?.migration?.touched.add(id);
     if (this.useIndex && this.hnswIndex) {
       await this.hnswIndex.removeVector(id);
     }
+    if (this.useIndex && this.kdTreeIndex) {
+      this.kdTreeIndex.removeVector(id);
+    }
+    if (this.useIndex && this.ivfIndex) {
+      await this.ivfIndex.removeVector(id);
+    }
+    await this.quantizedIndex?.remove(id);
+  }
+
+  /**
+   * Purge tombstoned nodes from the HNSW index and reconnect unreachable
+   * nodes, then persist the result. Returns `null` when indexing is disabled.
+   */
+  async compactIndex(): Promise<HNSWCompactionResult | null> {
+    if (!this.useIndex || !this.hnswIndex) {
+      return null;
+    }
+
+    const result = await this.hnswIndex.compact();
+    await this.saveIndex();
+    return result;
+  }
+
+  /**
+   * Vector-less snapshot of the HNSW graph, for exports that carry the
+   * vectors themselves. Returns `null` unless an up-to-date HNSW index is
+   * active.
+   */
+  exportIndexSnapshot(): ArrayBuffer | null {
+    if (!this.useIndex || !this.hnswIndex || this.indexDirty) {
+      return null;
+    }
+
+    const distanceMetric = this.distanceCalculator.getMetricInfo().name || 'cosine';
+    return encodeHNSWSnapshot(this.hnswIndex.exportGraph(), distanceMetric, {
+      includeVectors: false,
+    });
+  }
+
+  /**
+   * Adopt an HNSW graph from {@link exportIndexSnapshot} whose vectors are
+   * `vectors`, instead of rebuilding the index. Returns false, changing
+   * nothing, unless HNSW is the active index under the snapshot's metric and
+   * the graph covers exactly the vectors given and in storage.
+   */
+  async restoreIndexSnapshot(
+    snapshot: ArrayBuffer,
+    vectors: Map<string, Float32Array>,
+  ): Promise<boolean> {
+    if (!this.useIndex || !this.hnswIndex || this.autoIndex) {
+      return false;
+    }
+
+    const decoded = decodeHNSWSnapshot(snapshot);
+    const currentMetric = this.distanceCalculator.getMetricInfo().name || 'cosine';
+    if (
+      decoded.distanceMetric !== currentMetric ||
+      decoded.tombstones.length > 0 ||
+      decoded.nodes.length !== vectors.size ||
+      decoded.nodes.length !== (await this.storage.count()) ||
+      decoded.nodes.some((node) => !vectors.has(node.id))
+    ) {
+      return false;
+    }
+
+    const index = new HNSWIndex(currentMetric as DistanceMetricType, decoded.config);
+    index.importState({
+      nodes: decoded.nodes.map((node) => ({ ...node, vector: vectors.get(node.id)! })),
+      entryPoint: decoded.entryPoint,
+    });
+
+    await this.quantizedIndex?.rebuild(this.storage.scan());
+    this.hnswIndex = index;
+    this.indexDirty = false;
+    await this.saveIndex();
+    return true;
   }
 
   /**
    * Clear the active index and any persisted snapshot for this search engine.
    */
   async clearIndex(): Promise<void> {
+    this.cancelIndexMigration();
     if (this.hnswIndex) {
       this.hnswIndex.clear();
     }
 
-    if (this.indexCache) {
-      await this.indexCache.deleteIndex(this.indexId);
-    }
+    this.kdTreeIndex?.clear();
+    await this.ivfIndex?.clear();
+    await this.quantizedIndex?.clear();
+
+    await this.discardPersistedIndex();
   }
 
   /**
@@ -898,12 +1349,52 @@ export class SearchEngine {
    *
    * When loading from cache, the cached index is validated against the current
    * storage vector count. If the counts differ (stale or incompatible index) the
-   * index is rebuilt from scratch so results remain consistent.
+   * index is rebuilt from scratch so results remain consistent. Compressed
+   * codes, when configured, are restored from their saved documents first,
+   * or re-encoded while streaming the stored vectors. An
+   * IVF index restores its persisted inverted lists the same way, retraining
+   * when they no longer cover storage. A KD-tree is restored from its snapshot
+   * under the same checks, or rebuilt balanced. With `indexStrategy: 'auto'`
+   * the recommended index is activated first, replacing any background
+   * migration.
    *
    * Clears the dirty flag on success so indexed search resumes.
    */
   async rebuildIndex(options: { loadFromCache?: boolean } = {}): Promise<void> {
+    if (this.autoIndex) {
+      await this.adoptRecommendedIndex();
+    }
+
+    if (this.quantizedIndex) {
+      const restored =
+        options.loadFromCache !== false &&
+        (await this.quantizedIndex.restore(await this.storage.count()));
+      if (!restored) {
+        await this.quantizedIndex.rebuild(this.storage.scan());
+      }
+    }
+
+    if (this.useIndex && this.ivfIndex) {
+      const restored =
+        options.loadFromCache !== false &&
+        (await this.ivfIndex.load(await this.storage.count()));
+      if (!restored) {
+        await this.ivfIndex.build(await this.storage.getAll());
+      }
+      this.indexDirty = false;
+      return;
+    }
+
+    if (this.useIndex && this.kdTreeIndex) {
+      await this.rebuildKDTree(this.kdTreeIndex, options);
+      this.indexDirty = false;
+      return;
+    }
+
     if (!this.useIndex || !this.hnswIndex) {
+      if (this.quantizedIndex) {
+        this.indexDirty = false;
+      }
       return;
     }
 
@@ -918,7 +1409,11 @@ export class SearchEngine {
         const allVectors = await this.storage.getAll();
         const currentMetric = this.distanceCalculator.getMetricInfo().name || 'cosine';
         const metricMatches = cached.distanceMetric === currentMetric;
-        if (cached.index.size() === allVectors.length && metricMatches) {
+        if (
+          cached.index instanceof HNSWIndex &&
+          cached.index.size() === allVectors.length &&
+          metricMatches
+        ) {
           this.hnswIndex = cached.index;
           this.indexDirty = false;
           return;
@@ -933,7 +1428,7 @@ export class SearchEngine {
         );
 
         // Clear the stale persisted entry so it doesn't get reused
-        await this.indexCache.deleteIndex(this.indexId);
+        await this.discardPersistedIndex();
 
         // Clear existing index and rebuild from the already-fetched vectors
         this.hnswIndex.clear();
@@ -975,6 +1470,258 @@ export class SearchEngine {
     this.indexDirty = false;
   }
 
+  /**
+   * Restore the KD-tree snapshot when it matches storage and the active
+   * metric, otherwise build a balanced tree from storage and save it
+   */
+  private async rebuildKDTree(
+    kdTreeIndex: KDTreeIndex,
+    options: { loadFromCache?: boolean },
+  ): Promise<void> {
+    const allVectors = await this.storage.getAll();
+
+    if (options.loadFromCache !== false && this.indexCache) {
+      const cached = await this.indexCache.getIndex(this.indexId);
+      const currentMetric = this.distanceCalculator.getMetricInfo().name || 'cosine';
+      if (
+        cached?.index instanceof KDTreeIndex &&
+        cached.index.size() === allVectors.length &&
+        cached.distanceMetric === currentMetric
+      ) {
+        this.kdTreeIndex = cached.index;
+        return;
+      }
+      if (cached) {
+        log.warn(
+          `Persisted index is incompatible with the KD-tree (cached ${cached.index.size()} nodes/${cached.distanceMetric} ` +
+            `vs storage ${allVectors.length} vectors/${currentMetric}); rebuilding`,
+          { indexId: this.indexId },
+        );
+        await this.discardPersistedIndex();
+      }
+    }
+
+    this.indexCache?.setRebuilding(this.indexId, true);
+    try {
+      kdTreeIndex.build(allVectors);
+      await this.saveIndex();
+    } finally {
+      this.indexCache?.setRebuilding(this.indexId, false);
+    }
+  }
+
+  /**
+   * Ask the index advisor which strategy suits the collection now
+   */
+  private async recommendIndex(autoIndex: AutoIndexState): Promise<IndexRecommendation> {
+    return recommendIndexStrategy(
+      {
+        vectorCount: await this.storage.count(),
+        dimension: this.dimension,
+        metric: this.activeDistanceMetric(),
+        execution: {
+          gpuAvailable: this.useGPU && this.gpuSearchEngine !== null,
+          workersAvailable: this.useWorkers && this.workerPool !== null,
+        },
+        nativeStreaming: this.storage.getScanCapabilities().nativeStreaming,
+        ...(autoIndex.searchLatencyMs !== undefined && {
+          searchLatencyMs: autoIndex.searchLatencyMs,
+        }),
+      },
+      autoIndex.options,
+    );
+  }
+
+  /**
+   * Activate the recommended index, still empty, ahead of a rebuild. Only
+   * moves away from brute force; a collection that shrinks keeps its index.
+   */
+  private async adoptRecommendedIndex(): Promise<void> {
+    const autoIndex = this.autoIndex!;
+    this.cancelIndexMigration();
+    autoIndex.writesSinceReview = 0;
+
+    const { strategy, reason } = await this.recommendIndex(autoIndex);
+    const active = this.activeIndexStrategy();
+    if (strategy === active) {
+      autoIndex.reason = reason;
+    } else if (
+      strategy !== 'brute' &&
+      INDEX_STRATEGY_RANK[strategy] > INDEX_STRATEGY_RANK[active]
+    ) {
+      this.installIndex(this.createIndex(strategy, this.activeDistanceMetric()));
+      autoIndex.reason = reason;
+    }
+  }
+
+  /**
+   * Re-evaluate the `'auto'` strategy in the background. Searches and writes
+   * continue against the current index while a new one is built.
+   */
+  private scheduleIndexReview(): void {
+    const autoIndex = this.autoIndex;
+    if (!autoIndex || autoIndex.review) {
+      return;
+    }
+
+    autoIndex.writesSinceReview = 0;
+    autoIndex.review = this.reviewIndexStrategy(autoIndex)
+      .catch((error) => {
+        log.warn('Automatic index migration failed; keeping the current index', {
+          indexId: this.indexId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        autoIndex.review = null;
+      });
+  }
+
+  private async reviewIndexStrategy(autoIndex: AutoIndexState): Promise<void> {
+    const { strategy, reason } = await this.recommendIndex(autoIndex);
+    const active = this.activeIndexStrategy();
+    if (strategy === active) {
+      autoIndex.reason = reason;
+      return;
+    }
+    if (
+      strategy === 'brute' ||
+      INDEX_STRATEGY_RANK[strategy] <= INDEX_STRATEGY_RANK[active]
+    ) {
+      return;
+    }
+
+    log.info(`Migrating index from ${active} to ${strategy}: ${reason}`, {
+      indexId: this.indexId,
+    });
+    if (await this.migrateIndex(autoIndex, strategy)) {
+      autoIndex.reason = reason;
+    }
+  }
+
+  /**
+   * Build a `target` index from storage, replay the writes made while it was
+   * built, then swap it in. Returns false when the migration was cancelled;
+   * a failed migration is dropped so a later review can start over.
+   */
+  private async migrateIndex(
+    autoIndex: AutoIndexState,
+    target: IndexType,
+  ): Promise<boolean> {
+    const migration: IndexMigration = { target, touched: new Set() };
+    autoIndex.migration = migration;
+    try {
+      return await this.buildMigratedIndex(autoIndex, migration);
+    } finally {
+      if (autoIndex.migration === migration) {
+        autoIndex.migration = null;
+      }
+    }
+  }
+
+  private async buildMigratedIndex(
+    autoIndex: AutoIndexState,
+    migration: IndexMigration,
+  ): Promise<boolean> {
+    const index = this.createIndex(migration.target, this.activeDistanceMetric());
+
+    const vectors = await this.storage.getAll();
+    if (index instanceof HNSWIndex) {
+      for (const vectorData of vectors) {
+        await index.addVector(vectorData);
+      }
+    } else {
+      await index.build(vectors);
+    }
+
+    // Writes may land during each replay pass, so repeat until one sees none
+    while (migration.touched.size > 0 && autoIndex.migration === migration) {
+      const ids = Array.from(migration.touched);
+      migration.touched.clear();
+      const current = await this.storedVectors(ids);
+      for (const id of ids) {
+        const vectorData = current.get(id);
+        if (vectorData) {
+          await index.addVector(vectorData);
+        } else {
+          await index.removeVector(id);
+        }
+      }
+    }
+
+    // Cancelled by a rebuild, clear or configuration change
+    if (autoIndex.migration !== migration) {
+      return false;
+    }
+    autoIndex.migration = null;
+    this.installIndex(index);
+    this.indexDirty = false;
+    await this.saveIndex();
+    return true;
+  }
+
+  /**
+   * The stored vectors among `ids`; ids that are not found were deleted
+   */
+  private async storedVectors(ids: string[]): Promise<Map<string, VectorData>> {
+    try {
+      const stored = await this.storage.getMany(ids);
+      return new Map(stored.map((vectorData) => [vectorData.id, vectorData]));
+    } catch (error) {
+      // IndexedDB storage rejects a read in which no id is found
+      if (
+        error instanceof BatchOperationError &&
+        error.errors.every(({ error: cause }) => cause instanceof VectorNotFoundError)
+      ) {
+        return new Map();
+      }
+      throw error;
+    }
+  }
+
+  private cancelIndexMigration(): void {
+    if (this.autoIndex) {
+      this.autoIndex.migration = null;
+    }
+  }
+
+  /**
+   * Configured index strategy and, for `'auto'`, the strategy in use, any
+   * background migration, and the reason for the current choice
+   */
+  getIndexStrategy(): {
+    strategy: IndexStrategy;
+    active: ResolvedIndexStrategy;
+    migratingTo?: ResolvedIndexStrategy;
+    reason?: string;
+    /** Moving average of brute-force search latency, in ms */
+    searchLatencyMs?: number;
+  } {
+    const active = this.activeIndexStrategy();
+    const autoIndex = this.autoIndex;
+    if (!autoIndex) {
+      return { strategy: active, active };
+    }
+    return {
+      strategy: 'auto',
+      active,
+      ...(autoIndex.migration && { migratingTo: autoIndex.migration.target }),
+      ...(autoIndex.reason !== undefined && { reason: autoIndex.reason }),
+      ...(autoIndex.searchLatencyMs !== undefined && {
+        searchLatencyMs: autoIndex.searchLatencyMs,
+      }),
+    };
+  }
+
+  /**
+   * Resolve once any background `'auto'` review and migration has finished
+   */
+  async waitForIndexMigration(): Promise<void> {
+    while (this.autoIndex?.review) {
+      await this.autoIndex.review;
+    }
+  }
+
   /**
    * Enable or disable HNSW approximate nearest-neighbor indexing.
    *
@@ -982,14 +1729,31 @@ export class SearchEngine {
    * and rebuild correctness are not validated. Brute-force search (the
    * default) is recommended for production use until these limitations are
    * resolved. See {@link HNSWIndex} for the full list of known gaps.
+   *
+   * Replaces an `indexStrategy: 'auto'` with the fixed choice.
    */
   setIndexing(enabled: boolean, distanceMetric?: DistanceMetricType): void {
+    this.cancelIndexMigration();
+    this.autoIndex = null;
     this.useIndex = enabled;
 
-    if (enabled && !this.hnswIndex) {
+    if (enabled && this.indexType === 'ivf' && !this.ivfIndex) {
+      this.ivfIndex = new IVFIndex(
+        distanceMetric || 'cosine',
+        this.ivfConfig,
+        this.indexStorage,
+      );
+    } else if (enabled && this.indexType === 'kdtree' && !this.kdTreeIndex) {
+      this.kdTreeIndex = new KDTreeIndex(
+        distanceMetric || 'euclidean',
+        this.kdTreeConfig,
+      );
+    } else if (enabled && this.indexType === 'hnsw' && !this.hnswIndex) {
       this.hnswIndex = new HNSWIndex(distanceMetric || 'cosine');
     } else if (!enabled) {
       this.hnswIndex = null;
+      this.ivfIndex = null;
+      this.kdTreeIndex = null;
     }
   }
 
@@ -998,6 +1762,8 @@ export class SearchEngine {
    */
   getIndexStats(): {
     enabled: boolean;
+    /** Active index type, when enabled */
+    type?: 'hnsw' | 'ivf' | 'kdtree';
     nodeCount: number;
     dirtyCount: number;
     /**
@@ -1006,9 +1772,39 @@ export class SearchEngine {
      * when there are no unsaved cache entries, unlike `dirtyCount`.
      */
     indexDirty: boolean;
+    /** Soft-deleted nodes awaiting `compactIndex()`. */
+    tombstoneCount?: number;
     levels?: number[];
     avgConnections?: number;
+    /** Training state and list sizes of an IVF index */
+    ivf?: ReturnType<IVFIndex['getStats']>;
+    /** Shape of a KD-tree index */
+    kdtree?: ReturnType<KDTreeIndex['getStats']>;
   } {
+    if (this.useIndex && this.ivfIndex) {
+      const ivf = this.ivfIndex.getStats();
+      return {
+        enabled: true,
+        type: 'ivf',
+        nodeCount: ivf.vectorCount,
+        dirtyCount: 0,
+        indexDirty: this.indexDirty,
+        ivf,
+      };
+    }
+
+    if (this.useIndex && this.kdTreeIndex) {
+      const kdtree = this.kdTreeIndex.getStats();
+      return {
+        enabled: true,
+        type: 'kdtree',
+        nodeCount: kdtree.pointCount,
+        dirtyCount: this.indexCache?.getStats().dirtyCount ?? 0,
+        indexDirty: this.indexDirty,
+        kdtree,
+      };
+    }
+
     if (!this.useIndex || !this.hnswIndex) {
       return {
         enabled: false,
@@ -1021,14 +1817,23 @@ export class SearchEngine {
     const stats = this.hnswIndex.getStats();
     return {
       enabled: true,
+      type: 'hnsw',
       nodeCount: stats.nodeCount,
       dirtyCount: this.indexCache?.getStats().dirtyCount ?? 0,
       indexDirty: this.indexDirty,
+      tombstoneCount: stats.tombstoneCount,
       levels: stats.levels,
       avgConnections: stats.avgConnections,
     };
   }
 
+  /**
+   * Get compressed storage statistics, or `null` when compression is off
+   */
+  getCompressionStats(): ReturnType<QuantizedIndex['getStats']> | null {
+    return this.quantizedIndex?.getStats() ?? null;
+  }
+
   /**
    * Return a health report for the active index without performing a search.
    *
@@ -1041,6 +1846,10 @@ export class SearchEngine {
    * (pure in-memory index with no persistence layer).
    */
   getIndexHealth(): IndexHealthReport {
+    if (this.useIndex && this.ivfIndex) {
+      return this.getIVFHealth(this.ivfIndex);
+    }
+
     if (!this.indexCache) {
       // No persistence layer at all.
       if (!this.useIndex) {
@@ -1053,7 +1862,7 @@ export class SearchEngine {
         };
       }
       // In-memory only index.
-      if (!this.hnswIndex) {
+      if (!this.hnswIndex && !this.kdTreeIndex) {
         return {
           indexId: this.indexId,
           state: 'missing',
@@ -1101,6 +1910,41 @@ export class SearchEngine {
     return report;
   }
 
+  /**
+   * Health of an IVF index, whose list changes are persisted on every write and so
+   * are never dirty in the cache sense
+   */
+  private getIVFHealth(ivfIndex: IVFIndex): IndexHealthReport {
+    const base = { indexId: this.indexId, lastAccess: undefined };
+    if (this.indexDirty) {
+      return {
+        ...base,
+        state: 'dirty',
+        isDirty: true,
+        message:
+          'The IVF index is dirty after a failed mutation; searches fall back ' +
+          'to brute force. Call rebuildIndex() to restore indexed search.',
+      };
+    }
+    if (!ivfIndex.isTrained()) {
+      const { trainOn } = ivfIndex.getConfig();
+      return {
+        ...base,
+        state: 'missing',
+        isDirty: false,
+        message:
+          `The IVF centroids are trained once ${trainOn} vectors have been added; ` +
+          'searches are exact until then.',
+      };
+    }
+    return {
+      ...base,
+      state: 'healthy',
+      isDirty: false,
+      message: 'IVF index is trained and its inverted lists are up to date.',
+    };
+  }
+
   /**
    * Get vector by ID (helper for index results)
    */
@@ -1117,15 +1961,30 @@ export class SearchEngine {
    * Save index to persistent storage
    */
   async saveIndex(): Promise<void> {
-    if (!this.useIndex || !this.hnswIndex || !this.indexCache) {
+    const index = this.kdTreeIndex ?? this.hnswIndex;
+    if (!this.useIndex || !index || !this.indexCache || !this.persistIndex) {
       return;
     }
 
     const distanceMetric = this.distanceCalculator.getMetricInfo().name || 'cosine';
-    await this.indexCache.putInCache(this.indexId, this.hnswIndex, distanceMetric, true);
+    await this.indexCache.putInCache(this.indexId, index, distanceMetric, true);
     await this.indexCache.flushDirty();
   }
 
+  /**
+   * Allow or suppress index snapshot writes. Tabs sharing a database disable
+   * them on all but the elected leader so only one tab persists the index.
+   */
+  setIndexPersistence(enabled: boolean): void {
+    this.persistIndex = enabled;
+  }
+
+  private async discardPersistedIndex(): Promise<void> {
+    if (this.indexCache && this.persistIndex) {
+      await this.indexCache.deleteIndex(this.indexId);
+    }
+  }
+
   /**
    * Load index from persistent storage
    */
@@ -1136,7 +1995,11 @@ export class SearchEngine {
 
     const cached = await this.indexCache.getIndex(this.indexId);
     if (cached) {
-      this.hnswIndex = cached.index;
+      if (cached.index instanceof KDTreeIndex) {
+        this.kdTreeIndex = cached.index;
+      } else {
+        this.hnswIndex = cached.index;
+      }
       this.distanceCalculator = createDistanceCalculator(
         cached.distanceMetric as DistanceMetricType,
       );
@@ -1151,9 +2014,18 @@ export class SearchEngine {
    */
   setDistanceMetric(metric: DistanceMetricType): void {
     this.distanceCalculator = createDistanceCalculator(metric);
-
-    // Recreate index with new metric if enabled
-    if (this.useIndex) {
+    this.cancelIndexMigration();
+
+    // Recreate index with new metric if enabled; 'auto' may now pick another type
+    this.indexType = this.resolveIndexType(metric);
+    this.hnswIndex = null;
+    this.ivfIndex = null;
+    this.kdTreeIndex = null;
+    if (this.useIndex && this.indexType === 'ivf') {
+      this.ivfIndex = new IVFIndex(metric, this.ivfConfig, this.indexStorage);
+    } else if (this.useIndex && this.indexType === 'kdtree') {
+      this.kdTreeIndex = new KDTreeIndex(metric, this.kdTreeConfig);
+    } else if (this.useIndex) {
       this.hnswIndex = new HNSWIndex(metric);
     }
   }
@@ -1362,6 +2234,10 @@ export class SearchEngine {
    * Clean up resources
    */
   async cleanup(): Promise<void> {
+    // Let a migration still building finish reading storage, without swapping it in
+    this.cancelIndexMigration();
+    await this.waitForIndexMigration();
+
     if (this.workerPool) {
       await this.workerPool.terminate();
       this.workerPool = null;
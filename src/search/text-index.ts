@@ -0,0 +1,215 @@
+/**
+ * Configuration for the lexical (BM25) index maintained next to the vectors.
+ */
+export interface TextIndexConfig {
+  /** Top-level metadata fields whose string (or string array) values are indexed. */
+  fields: string[];
+  /** BM25 term-frequency saturation. Defaults to 1.2. */
+  k1?: number;
+  /** BM25 document-length normalization. Defaults to 0.75. */
+  b?: number;
+}
+
+/**
+ * A single lexical match.
+ *
+ * `matches` maps each indexed field to the query terms found in it, in query
+ * order. Fields without a matching term are omitted.
+ */
+export interface TextSearchHit {
+  id: string;
+  score: number;
+  matches: Record<string, string[]>;
+}
+
+interface Posting {
+  frequency: number;
+  fields: string[];
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Split text into lowercase terms on anything that is not a letter or digit.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * In-memory inverted index over metadata text fields, scored with Okapi BM25.
+ *
+ * All configured fields of a record are scored as one document; per-field
+ * term membership is tracked only so matches can be reported as highlights.
+ * The index holds no vector data and is rebuilt from storage when needed.
+ */
+export class TextIndex {
+  readonly fields: readonly string[];
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly postings = new Map<string, Map<string, Posting>>();
+  private readonly documentTerms = new Map<string, string[]>();
+  private readonly documentLengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(config: TextIndexConfig) {
+    if (!Array.isArray(config.fields) || config.fields.length === 0) {
+      throw new Error('Text index requires at least one field');
+    }
+    for (const field of config.fields) {
+      if (typeof field !== 'string' || field.length === 0) {
+        throw new Error('Text index fields must be non-empty strings');
+      }
+    }
+
+    const k1 = config.k1 ?? 1.2;
+    const b = config.b ?? 0.75;
+    if (!Number.isFinite(k1) || k1 < 0) {
+      throw new Error('Text index k1 must be a non-negative finite number');
+    }
+    if (!Number.isFinite(b) || b < 0 || b > 1) {
+      throw new Error('Text index b must be between 0 and 1');
+    }
+
+    this.fields = [...new Set(config.fields)];
+    this.k1 = k1;
+    this.b = b;
+  }
+
+  /** Number of indexed documents. */
+  get size(): number {
+    return this.documentLengths.size;
+  }
+
+  /**
+   * Index (or re-index) a record's metadata. Records without text in any
+   * configured field are removed from the index.
+   */
+  add(id: string, metadata: Record<string, unknown> | undefined): void {
+    this.remove(id);
+
+    const frequencies = new Map<string, Posting>();
+    let length = 0;
+
+    for (const field of this.fields) {
+      for (const term of tokenize(this.extractText(metadata?.[field]))) {
+        length++;
+        const posting = frequencies.get(term);
+        if (posting) {
+          posting.frequency++;
+          if (!posting.fields.includes(field)) {
+            posting.fields.push(field);
+          }
+        } else {
+          frequencies.set(term, { frequency: 1, fields: [field] });
+        }
+      }
+    }
+
+    if (length === 0) {
+      return;
+    }
+
+    for (const [term, posting] of frequencies) {
+      let documents = this.postings.get(term);
+      if (!documents) {
+        documents = new Map();
+        this.postings.set(term, documents);
+      }
+      documents.set(id, posting);
+    }
+
+    this.documentTerms.set(id, [...frequencies.keys()]);
+    this.documentLengths.set(id, length);
+    this.totalLength += length;
+  }
+
+  /**
+   * Remove a record from the index. Unknown IDs are ignored.
+   */
+  remove(id: string): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) {
+      return;
+    }
+
+    for (const term of terms) {
+      const documents = this.postings.get(term);
+      documents?.delete(id);
+      if (documents?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.documentLengths.get(id) ?? 0;
+    this.documentTerms.delete(id);
+    this.documentLengths.delete(id);
+  }
+
+  /**
+   * Remove every document from the index.
+   */
+  clear(): void {
+    this.postings.clear();
+    this.documentTerms.clear();
+    this.documentLengths.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Return up to `limit` documents ranked by BM25 score for `text`.
+   * Ties are broken by ID so rankings are deterministic.
+   */
+  search(text: string, limit: number): TextSearchHit[] {
+    const terms = [...new Set(tokenize(text))];
+    const documentCount = this.size;
+    if (terms.length === 0 || documentCount === 0 || limit <= 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / documentCount;
+    const hits = new Map<string, TextSearchHit>();
+
+    for (const term of terms) {
+      const documents = this.postings.get(term);
+      if (!documents) continue;
+
+      // Lucene's IDF variant stays positive even for terms in most documents.
+      const idf = Math.log(
+        1 + (documentCount - documents.size + 0.5) / (documents.size + 0.5),
+      );
+
+      for (const [id, posting] of documents) {
+        const length = this.documentLengths.get(id) ?? 0;
+        const weight =
+          (posting.frequency * (this.k1 + 1)) /
+          (posting.frequency +
+            this.k1 * (1 - this.b + (this.b * length) / averageLength));
+
+        let hit = hits.get(id);
+        if (!hit) {
+          hit = { id, score: 0, matches: {} };
+          hits.set(id, hit);
+        }
+        hit.score += idf * weight;
+        for (const field of posting.fields) {
+          (hit.matches[field] ??= []).push(term);
+        }
+      }
+    }
+
+    return [...hits.values()]
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+
+  private extractText(value: unknown): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => typeof item === 'string').join(' ');
+    }
+    return '';
+  }
+}
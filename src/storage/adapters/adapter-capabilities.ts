@@ -15,6 +15,8 @@
  *   production use.
  */
 
+import type { StorageAdapter } from '@/core/types.js';
+
 // ---------------------------------------------------------------------------
 // Enumerations
 // ---------------------------------------------------------------------------
@@ -48,6 +50,7 @@ export type AdapterRuntime = 'browser' | 'bun' | 'node' | 'any' | 'chrome-extens
  * @property runtimes - Environments where the adapter is operational.
  * @property persistence - Data survives process/browser restart.
  * @property transactions - Atomic multi-write transactions (all-or-nothing).
+ * @property snapshots - Named point-in-time copies of the store can be taken and restored.
  * @property batchAtomicity - `putBatch` is atomic (entire batch succeeds or rolls back).
  * @property metadataIndexing - Secondary indexes on metadata fields are maintained.
  * @property quotaReporting - The adapter can report used/available storage quota.
@@ -59,6 +62,7 @@ export interface AdapterCapabilities {
   readonly runtimes: readonly AdapterRuntime[];
   readonly persistence: boolean;
   readonly transactions: boolean;
+  readonly snapshots: boolean;
   readonly batchAtomicity: boolean;
   readonly metadataIndexing: boolean;
   readonly quotaReporting: boolean;
@@ -76,20 +80,24 @@ export interface AdapterCapabilities {
  * Persistence and transactions are provided by IndexedDB itself. Quota
  * reporting is available via the Storage API. Concurrent-writer safety is
  * limited by single-process tab semantics; cross-tab writes are not
- * coordinated.
+ * coordinated, though `VectorDB`'s `crossTab` option keeps each tab's search
+ * index in step with the others.
  */
 export const INDEXED_DATABASE_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   tier: 'production-supported',
   runtimes: ['browser'],
   persistence: true,
   transactions: true,
+  snapshots: true,
   batchAtomicity: false,
   metadataIndexing: false,
   quotaReporting: true,
   concurrentWriters: false,
   notes:
     'Cross-tab concurrent writes are not coordinated; single-tab use is safe. ' +
-    'Quota reporting requires the Storage API (navigator.storage.estimate).',
+    'VectorDB `crossTab` shares index updates between tabs. ' +
+    'Quota reporting requires the Storage API (navigator.storage.estimate). ' +
+    'Metadata indexing is available when `metadataIndexes` are declared.',
 };
 
 /**
@@ -103,6 +111,7 @@ export const MEMORY_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   runtimes: ['any'],
   persistence: false,
   transactions: false,
+  snapshots: true,
   batchAtomicity: false,
   metadataIndexing: false,
   quotaReporting: false,
@@ -114,9 +123,11 @@ export const MEMORY_ADAPTER_CAPABILITIES: AdapterCapabilities = {
 /**
  * OPFS adapter — experimental browser backend using the Origin Private File System.
  *
- * Persistence is durable at the browser-origin level. Transactions and
- * atomicity are not guaranteed because OPFS writes individual files without a
- * coordinating journal. Concurrent access from multiple workers is possible
+ * Persistence is durable at the browser-origin level. Vectors are appended
+ * to segment files, one checksummed frame per write, so each `putBatch`
+ * chunk is stored whole or not at all. There are no multi-operation
+ * transactions. Quota reporting covers the bytes of this adapter's segments
+ * (`estimateStorage()`). Concurrent access from multiple workers is possible
  * but requires external coordination.
  */
 export const OPFS_ADAPTER_CAPABILITIES: AdapterCapabilities = {
@@ -124,13 +135,14 @@ export const OPFS_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   runtimes: ['browser'],
   persistence: true,
   transactions: false,
-  batchAtomicity: false,
+  snapshots: false,
+  batchAtomicity: true,
   metadataIndexing: false,
   quotaReporting: true,
   concurrentWriters: false,
   notes:
     'Requires OPFS support (Chrome 86+, Firefox 111+, Safari 15.2+). ' +
-    'Each vector is stored as an individual file — no cross-file atomicity.',
+    'Vectors are appended to segment files that are compacted in the background.',
 };
 
 /**
@@ -145,6 +157,7 @@ export const CHROME_STORAGE_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   runtimes: ['chrome-extension'],
   persistence: true,
   transactions: false,
+  snapshots: false,
   batchAtomicity: false,
   metadataIndexing: false,
   quotaReporting: false,
@@ -166,6 +179,7 @@ export const SQLITE_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   runtimes: ['bun'],
   persistence: true,
   transactions: true,
+  snapshots: true,
   batchAtomicity: true,
   metadataIndexing: false,
   quotaReporting: false,
@@ -179,8 +193,9 @@ export const SQLITE_ADAPTER_CAPABILITIES: AdapterCapabilities = {
  * File System adapter — experimental backend using Node/Bun file I/O.
  *
  * Each vector is serialized as a separate file (JSON or binary). Persistence
- * is filesystem-durable but there are no transactions; a crash mid-batch can
- * leave partial writes. Not safe for multiple concurrent writers.
+ * is filesystem-durable. There are no transactions, but `putBatch` commits
+ * each chunk to a write-ahead log that `init()` replays after a crash, so
+ * batches are atomic. Not safe for multiple concurrent writers.
  */
 export const FILE_SYSTEM_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   tier: 'experimental',
@@ -190,34 +205,36 @@ export const FILE_SYSTEM_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   runtimes: ['bun'],
   persistence: true,
   transactions: false,
-  batchAtomicity: false,
+  snapshots: true,
+  batchAtomicity: true,
   metadataIndexing: false,
   quotaReporting: false,
   concurrentWriters: false,
   notes:
-    'One file per vector. No journaling — a crash during putBatch can leave partial state. ' +
+    'One file per vector. putBatch is journaled in a write-ahead log replayed by init(). ' +
     'Concurrent writers require external file locking. Requires the Bun runtime.',
 };
 
 /**
  * LevelDB adapter — experimental backend via the `level` npm package.
  *
- * Ordered key-value store with atomic batch writes. Transactions across
- * multiple operations are not supported at the adapter level. Concurrent
- * access is not safe without external coordination.
+ * Ordered key-value store with atomic batch writes. Multi-operation
+ * transactions are committed as a single batch of puts and deletes.
+ * Concurrent access is not safe without external coordination.
  */
 export const LEVEL_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   tier: 'experimental',
   runtimes: ['bun', 'node'],
   persistence: true,
-  transactions: false,
+  transactions: true,
+  snapshots: false,
   batchAtomicity: true,
   metadataIndexing: false,
   quotaReporting: false,
   concurrentWriters: false,
   notes:
     'Requires the `level` npm package as a peer dependency. ' +
-    'putBatch uses LevelDB atomic batch writes.',
+    'putBatch and commitTransaction use LevelDB atomic batch writes.',
 };
 
 /**
@@ -232,6 +249,7 @@ export const LMDB_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   runtimes: ['bun', 'node'],
   persistence: true,
   transactions: true,
+  snapshots: false,
   batchAtomicity: true,
   metadataIndexing: false,
   quotaReporting: false,
@@ -244,22 +262,26 @@ export const LMDB_ADAPTER_CAPABILITIES: AdapterCapabilities = {
 /**
  * Redis adapter — experimental backend via `Bun.RedisClient`.
  *
- * In-memory data store with optional AOF/RDB persistence. Atomic multi-key
- * operations use pipelines; full cross-command transactions are not exposed.
- * Suitable for caching or read-heavy workloads with a Redis server available.
+ * In-memory data store with optional AOF/RDB persistence. Batch reads and
+ * writes are pipelined but not atomic; full cross-command transactions are
+ * not exposed. With the `search` option, k-NN searches and their metadata
+ * filters run server-side through a RediSearch index. Suitable for caching or
+ * read-heavy workloads with a Redis server available.
  */
 export const REDIS_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   tier: 'experimental',
   runtimes: ['bun'],
   persistence: true,
   transactions: false,
+  snapshots: false,
   batchAtomicity: false,
   metadataIndexing: false,
   quotaReporting: false,
   concurrentWriters: true,
   notes:
     'Requires a Redis server and Bun runtime. Persistence depends on Redis server configuration ' +
-    '(AOF/RDB). Multiple concurrent writers are safe via Redis serialization.',
+    '(AOF/RDB). Multiple concurrent writers are safe via Redis serialization. ' +
+    'The `search` option delegates k-NN search to FT.SEARCH when the server has RediSearch.',
 };
 
 /**
@@ -274,6 +296,7 @@ export const S3_ADAPTER_CAPABILITIES: AdapterCapabilities = {
   runtimes: ['bun'],
   persistence: true,
   transactions: false,
+  snapshots: false,
   batchAtomicity: false,
   metadataIndexing: false,
   quotaReporting: false,
@@ -368,3 +391,21 @@ export function getAdaptersByRuntime(runtime: AdapterRuntime): AdapterName[] {
     )
     .map(([name]) => name);
 }
+
+/**
+ * Returns the capabilities an adapter instance declares, falling back to the
+ * static `capabilities` of its class. Custom adapters that declare neither
+ * resolve to `undefined`.
+ *
+ * @example
+ * ```typescript
+ * getAdapterCapabilities(new SQLiteStorageAdapter({ filename }))?.persistence;
+ * // true
+ * ```
+ */
+export function getAdapterCapabilities(
+  adapter: StorageAdapter,
+): AdapterCapabilities | undefined {
+  const constructor = adapter.constructor as { capabilities?: AdapterCapabilities };
+  return adapter.capabilities ?? constructor.capabilities;
+}
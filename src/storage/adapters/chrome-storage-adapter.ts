@@ -10,18 +10,28 @@ import type {
   ScanCapabilities,
   ScanOptions,
   StorageAdapter,
+  StoredDocument,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
 import {
   CHROME_STORAGE_ADAPTER_CAPABILITIES,
   type AdapterCapabilities,
 } from './adapter-capabilities.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  sortDocuments,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from './documents.js';
 import {
   type SerializedVectorData,
   calculateMagnitude,
   serializableToVectorData,
   vectorDataToSerializable,
 } from './serialization.js';
+import { nextVersion } from './versioning.js';
 
 // ---------------------------------------------------------------------------
 // EXPERIMENTAL CLASSIFICATION
@@ -134,6 +144,15 @@ export class ChromeStorageAdapter implements StorageAdapter {
     return `${this.prefix}:v:${id}`;
   }
 
+  private get documentCollectionsKey(): string {
+    return `${this.prefix}:__docs__`;
+  }
+
+  /** Key of the item holding a whole document collection as key → JSON text. */
+  private documentKey(collection: string): string {
+    return `${this.prefix}:doc:${collection}`;
+  }
+
   private get storage(): ChromeStorageArea {
     return chrome.storage[this.area];
   }
@@ -176,6 +195,25 @@ export class ChromeStorageAdapter implements StorageAdapter {
     await this.storage.set({ [this.idIndexKey]: ids });
   }
 
+  private async readDocumentCollections(): Promise<string[]> {
+    const result = await this.storage.get(this.documentCollectionsKey);
+    const collections = result[this.documentCollectionsKey];
+    return Array.isArray(collections) ? (collections as string[]) : [];
+  }
+
+  private async readDocuments(collection: string): Promise<Record<string, string>> {
+    const key = this.documentKey(collection);
+    const result = await this.storage.get(key);
+    return (result[key] as Record<string, string> | undefined) ?? {};
+  }
+
+  /** Version of the record stored under `key`, or `null` when absent. */
+  private async readStoredVersion(key: string): Promise<number | null> {
+    const result = await this.storage.get(key);
+    const data = result[key] as SerializedVectorData | undefined;
+    return data ? (data.version ?? 0) : null;
+  }
+
   // ---------------------------------------------------------------------------
   // Serialization helpers
   // ---------------------------------------------------------------------------
@@ -205,7 +243,13 @@ export class ChromeStorageAdapter implements StorageAdapter {
   async destroy(): Promise<void> {
     return this.withMutex(async () => {
       const ids = await this.readIdIndex();
-      const keysToRemove = [this.idIndexKey, ...ids.map((id) => this.vectorKey(id))];
+      const collections = await this.readDocumentCollections();
+      const keysToRemove = [
+        this.idIndexKey,
+        ...ids.map((id) => this.vectorKey(id)),
+        this.documentCollectionsKey,
+        ...collections.map((collection) => this.documentKey(collection)),
+      ];
       await this.storage.remove(keysToRemove);
     });
   }
@@ -214,7 +258,7 @@ export class ChromeStorageAdapter implements StorageAdapter {
   // Single-item CRUD
   // ---------------------------------------------------------------------------
 
-  async put(vector: VectorData): Promise<void> {
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
     const normalized: VectorData = {
       ...vector,
       timestamp: vector.timestamp || Date.now(),
@@ -234,6 +278,12 @@ export class ChromeStorageAdapter implements StorageAdapter {
     const key = this.vectorKey(vector.id);
 
     await this.withMutex(async () => {
+      serialized.version = nextVersion(
+        vector.id,
+        await this.readStoredVersion(key),
+        condition,
+      );
+
       const ids = await this.readIdIndex();
 
       if (!ids.includes(vector.id)) {
@@ -247,19 +297,22 @@ export class ChromeStorageAdapter implements StorageAdapter {
 
   async get(id: string): Promise<VectorData> {
     const key = this.vectorKey(id);
-    const result = await this.storage.get(key);
-    const data = result[key] as SerializedVectorData | undefined;
 
-    if (!data) {
-      throw new VectorNotFoundError(id);
-    }
+    // Access tracking writes the record back, so it runs under the mutex
+    return this.withMutex(async () => {
+      const result = await this.storage.get(key);
+      const data = result[key] as SerializedVectorData | undefined;
 
-    // Update access tracking
-    data.lastAccessed = Date.now();
-    data.accessCount = (data.accessCount ?? 0) + 1;
-    await this.storage.set({ [key]: data });
+      if (!data) {
+        throw new VectorNotFoundError(id);
+      }
+
+      data.lastAccessed = Date.now();
+      data.accessCount = (data.accessCount ?? 0) + 1;
+      await this.storage.set({ [key]: data });
 
-    return this.deserialize(data);
+      return this.deserialize(data);
+    });
   }
 
   async exists(id: string): Promise<boolean> {
@@ -287,28 +340,31 @@ export class ChromeStorageAdapter implements StorageAdapter {
 
   async getMany(ids: string[]): Promise<VectorData[]> {
     const keys = ids.map((id) => this.vectorKey(id));
-    const result = await this.storage.get(keys);
-    const vectors: VectorData[] = [];
-    const updates: Record<string, unknown> = {};
 
-    for (const id of ids) {
-      const key = this.vectorKey(id);
-      const data = result[key] as SerializedVectorData | undefined;
+    return this.withMutex(async () => {
+      const result = await this.storage.get(keys);
+      const vectors: VectorData[] = [];
+      const updates: Record<string, unknown> = {};
 
-      if (data) {
-        data.lastAccessed = Date.now();
-        data.accessCount = (data.accessCount ?? 0) + 1;
-        updates[key] = data;
-        vectors.push(this.deserialize(data));
+      for (const id of ids) {
+        const key = this.vectorKey(id);
+        const data = result[key] as SerializedVectorData | undefined;
+
+        if (data) {
+          data.lastAccessed = Date.now();
+          data.accessCount = (data.accessCount ?? 0) + 1;
+          updates[key] = data;
+          vectors.push(this.deserialize(data));
+        }
       }
-    }
 
-    // Persist access tracking updates in a single write
-    if (Object.keys(updates).length > 0) {
-      await this.storage.set(updates);
-    }
+      // Persist access tracking updates in a single write
+      if (Object.keys(updates).length > 0) {
+        await this.storage.set(updates);
+      }
 
-    return vectors;
+      return vectors;
+    });
   }
 
   async getAll(): Promise<VectorData[]> {
@@ -429,7 +485,7 @@ export class ChromeStorageAdapter implements StorageAdapter {
       }
 
       const batch = vectors.slice(i, i + batchSize);
-      const items: Record<string, unknown> = {};
+      const items: Record<string, SerializedVectorData> = {};
       const batchIds: string[] = [];
 
       for (const vector of batch) {
@@ -463,6 +519,12 @@ export class ChromeStorageAdapter implements StorageAdapter {
 
       // Write vector data and update the ID index atomically (under mutex)
       await this.withMutex(async () => {
+        const stored = await this.storage.get(Object.keys(items));
+        for (const [key, item] of Object.entries(items)) {
+          const existing = stored[key] as SerializedVectorData | undefined;
+          item.version = nextVersion(item.id, existing ? (existing.version ?? 0) : null);
+        }
+
         const currentIds = await this.readIdIndex();
         const idsSet = new Set(currentIds);
 
@@ -501,53 +563,66 @@ export class ChromeStorageAdapter implements StorageAdapter {
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
     const key = this.vectorKey(id);
-    const result = await this.storage.get(key);
-    const data = result[key] as SerializedVectorData | undefined;
 
-    if (!data) {
-      throw new VectorNotFoundError(id);
-    }
+    await this.withMutex(async () => {
+      const result = await this.storage.get(key);
+      const data = result[key] as SerializedVectorData | undefined;
 
-    data.vector = Array.from(vector);
+      if (!data) {
+        throw new VectorNotFoundError(id);
+      }
 
-    if (options?.updateMagnitude !== false) {
-      data.magnitude = calculateMagnitude(vector);
-    }
+      data.version = nextVersion(id, data.version ?? 0, options);
+      data.vector = Array.from(vector);
 
-    if (options?.updateTimestamp !== false) {
-      data.timestamp = Date.now();
-    }
+      if (options?.updateMagnitude !== false) {
+        data.magnitude = calculateMagnitude(vector);
+      }
 
-    await this.storage.set({ [key]: data });
+      if (options?.updateTimestamp !== false) {
+        data.timestamp = Date.now();
+      }
+
+      await this.storage.set({ [key]: data });
+    });
   }
 
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
     const key = this.vectorKey(id);
-    const result = await this.storage.get(key);
-    const data = result[key] as SerializedVectorData | undefined;
 
-    if (!data) {
-      throw new VectorNotFoundError(id);
-    }
+    await this.withMutex(async () => {
+      const result = await this.storage.get(key);
+      const data = result[key] as SerializedVectorData | undefined;
 
-    if (options?.merge !== false) {
-      data.metadata = { ...data.metadata, ...metadata };
-    } else {
-      data.metadata = metadata;
-    }
+      if (!data) {
+        throw new VectorNotFoundError(id);
+      }
 
-    if (options?.updateTimestamp !== false) {
-      data.timestamp = Date.now();
-    }
+      data.version = nextVersion(id, data.version ?? 0, options);
+
+      if (options?.merge !== false) {
+        data.metadata = { ...data.metadata, ...metadata };
+      } else {
+        data.metadata = metadata;
+      }
 
-    await this.storage.set({ [key]: data });
+      if (options?.updateTimestamp !== false) {
+        data.timestamp = Date.now();
+      }
+
+      await this.storage.set({ [key]: data });
+    });
   }
 
   async updateBatch(
@@ -578,46 +653,49 @@ export class ChromeStorageAdapter implements StorageAdapter {
 
       const batch = updates.slice(i, i + batchSize);
 
-      // Read all keys in this batch at once
-      const keys = batch.map((update) => this.vectorKey(update.id));
-      const result = await this.storage.get(keys);
-      const toWrite: Record<string, unknown> = {};
-
-      for (const update of batch) {
-        const key = this.vectorKey(update.id);
-        const data = result[key] as SerializedVectorData | undefined;
-
-        if (!data) {
-          failed++;
-          errors.push({ id: update.id, error: new VectorNotFoundError(update.id) });
-          continue;
-        }
-
-        try {
-          if (update.vector) {
-            data.vector = Array.from(update.vector);
-            data.magnitude = calculateMagnitude(update.vector);
+      await this.withMutex(async () => {
+        // Read all keys in this batch at once
+        const keys = batch.map((update) => this.vectorKey(update.id));
+        const result = await this.storage.get(keys);
+        const toWrite: Record<string, unknown> = {};
+
+        for (const update of batch) {
+          const key = this.vectorKey(update.id);
+          const data = result[key] as SerializedVectorData | undefined;
+
+          if (!data) {
+            failed++;
+            errors.push({ id: update.id, error: new VectorNotFoundError(update.id) });
+            continue;
           }
 
-          if (update.metadata !== undefined) {
-            data.metadata = { ...data.metadata, ...update.metadata };
+          try {
+            if (update.vector) {
+              data.vector = Array.from(update.vector);
+              data.magnitude = calculateMagnitude(update.vector);
+            }
+
+            if (update.metadata !== undefined) {
+              data.metadata = { ...data.metadata, ...update.metadata };
+            }
+
+            data.timestamp = Date.now();
+            data.version = (data.version ?? 0) + 1;
+            toWrite[key] = data;
+            succeeded++;
+          } catch (error) {
+            failed++;
+            errors.push({
+              id: update.id,
+              error: error instanceof Error ? error : new Error(String(error)),
+            });
           }
-
-          data.timestamp = Date.now();
-          toWrite[key] = data;
-          succeeded++;
-        } catch (error) {
-          failed++;
-          errors.push({
-            id: update.id,
-            error: error instanceof Error ? error : new Error(String(error)),
-          });
         }
-      }
 
-      if (Object.keys(toWrite).length > 0) {
-        await this.storage.set(toWrite);
-      }
+        if (Object.keys(toWrite).length > 0) {
+          await this.storage.set(toWrite);
+        }
+      });
 
       if (options?.onProgress) {
         const completed = Math.min(i + batchSize, updates.length);
@@ -635,4 +713,57 @@ export class ChromeStorageAdapter implements StorageAdapter {
 
     return { succeeded, failed, errors };
   }
+
+  // ---------------------------------------------------------------------------
+  // Documents
+  // ---------------------------------------------------------------------------
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    const documents = await this.readDocuments(collection);
+    const text = Object.hasOwn(documents, key) ? documents[key] : undefined;
+    return text === undefined ? null : decodeDocument<T>(text);
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    const text = encodeDocument(document);
+    await this.withMutex(async () => {
+      const collections = await this.readDocumentCollections();
+      if (!collections.includes(collection)) {
+        await this.storage.set({
+          [this.documentCollectionsKey]: [...collections, collection],
+        });
+      }
+      const documents = await this.readDocuments(collection);
+      documents[key] = text;
+      await this.storage.set({ [this.documentKey(collection)]: documents });
+    });
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+    return this.withMutex(async () => {
+      const documents = await this.readDocuments(collection);
+      if (!Object.hasOwn(documents, key)) {
+        return false;
+      }
+      delete documents[key];
+      await this.storage.set({ [this.documentKey(collection)]: documents });
+      return true;
+    });
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    const documents = await this.readDocuments(collection);
+    return sortDocuments(
+      Object.entries(documents).map(([key, text]) => ({
+        key,
+        document: decodeDocument<T>(text),
+      })),
+    );
+  }
 }
@@ -0,0 +1,61 @@
+import { InputValidator } from '@/core/input-validator.js';
+import type { StoredDocument } from '@/core/types.js';
+
+// ---------------------------------------------------------------------------
+// Shared helpers for the document methods of StorageAdapter
+// ---------------------------------------------------------------------------
+
+/** Reject a collection name the document methods do not accept. */
+export function validateDocumentCollection(collection: string): void {
+  InputValidator.validateDocumentCollection(collection);
+}
+
+/** Reject a collection name or key the document methods do not accept. */
+export function validateDocumentKey(collection: string, key: string): void {
+  validateDocumentCollection(collection);
+  if (typeof key !== 'string' || key.length === 0) {
+    throw new Error('Document key must be a non-empty string');
+  }
+}
+
+/** The stored JSON text of `document`. */
+export function encodeDocument(document: unknown): string {
+  const text = JSON.stringify(document) as string | undefined;
+  if (text === undefined) {
+    throw new TypeError('Documents must be JSON-serializable values');
+  }
+  return text;
+}
+
+/** Parse a document written by {@link encodeDocument}. */
+export function decodeDocument<T>(text: string): T {
+  return JSON.parse(text) as T;
+}
+
+/** Order listed documents by key, as `listDocuments()` promises. */
+export function sortDocuments<T>(
+  documents: Array<StoredDocument<T>>,
+): Array<StoredDocument<T>> {
+  return documents.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+/** Base64 text of `bytes`, for storing binary data inside a document. */
+export function encodeBinaryDocument(bytes: ArrayBuffer): string {
+  const view = new Uint8Array(bytes);
+  let binary = '';
+  // String.fromCharCode takes its arguments on the stack; stay well below the limit
+  for (let offset = 0; offset < view.length; offset += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Bytes of base64 text written by {@link encodeBinaryDocument}. */
+export function decodeBinaryDocument(text: string): ArrayBuffer {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
@@ -1,18 +1,32 @@
-import { mkdir, readdir, rm, stat } from 'node:fs/promises';
+import { cp, mkdir, open, readdir, readFile, rename, rm, stat } from 'node:fs/promises';
 
-import { VectorNotFoundError } from '@/core/errors.js';
+import {
+  SnapshotExistsError,
+  SnapshotNotFoundError,
+  VectorNotFoundError,
+} from '@/core/errors.js';
 import type {
   BatchOptions,
   BatchProgress,
   ScanCapabilities,
   ScanOptions,
+  SnapshotInfo,
   StorageAdapter,
+  StoredDocument,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
 import {
   FILE_SYSTEM_ADAPTER_CAPABILITIES,
   type AdapterCapabilities,
 } from './adapter-capabilities.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  sortDocuments,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from './documents.js';
 import {
   binaryToVectorData,
   calculateMagnitude,
@@ -20,6 +34,8 @@ import {
   vectorDataToBinary,
   vectorDataToJson,
 } from './serialization.js';
+import { nextVersion, storedVersion, WriteQueue } from './versioning.js';
+import { WriteAheadLog, type WriteAheadLogFile } from './write-ahead-log.js';
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -28,6 +44,8 @@ import {
 interface FileSystemStorageAdapterOptions {
   directory: string;
   format?: 'binary' | 'json';
+  /** Write-ahead log size in bytes past which it is checkpointed (default 4 MiB) */
+  checkpointBytes?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -39,12 +57,37 @@ interface FileSystemStorageAdapterOptions {
 const UNSAFE_FILENAME_CHARACTERS = /[%/\\:*?"<>|\x00-\x1F\x7F]/g;
 
 /** Percent-encode characters that are unsafe in filenames. */
-function encodeVectorId(id: string): string {
+function encodeFileName(id: string): string {
   return id.replace(UNSAFE_FILENAME_CHARACTERS, (character) => {
     return `%${character.charCodeAt(0).toString(16).padStart(2, '0').toUpperCase()}`;
   });
 }
 
+/** The write-ahead log kept in `path`; appends are flushed to disk. */
+function fileSystemLogFile(path: string): WriteAheadLogFile {
+  return {
+    async read() {
+      try {
+        return await readFile(path, 'utf8');
+      } catch {
+        return '';
+      }
+    },
+    async append(bytes) {
+      const handle = await open(path, 'a');
+      try {
+        await handle.write(bytes);
+        await handle.datasync();
+      } finally {
+        await handle.close();
+      }
+    },
+    async truncate() {
+      await rm(path, { force: true });
+    },
+  };
+}
+
 // ---------------------------------------------------------------------------
 // FileSystemStorageAdapter
 // ---------------------------------------------------------------------------
@@ -55,7 +98,11 @@ export class FileSystemStorageAdapter implements StorageAdapter {
 
   private readonly directory: string;
   private readonly vectorsDirectory: string;
+  private readonly snapshotsDirectory: string;
+  private readonly documentsDirectory: string;
   private readonly format: 'binary' | 'json';
+  private readonly writes = new WriteQueue();
+  private readonly log: WriteAheadLog;
 
   constructor(options: FileSystemStorageAdapterOptions) {
     if (typeof Bun === 'undefined') {
@@ -64,17 +111,32 @@ export class FileSystemStorageAdapter implements StorageAdapter {
 
     this.directory = options.directory;
     this.vectorsDirectory = `${options.directory}/vectors`;
+    this.snapshotsDirectory = `${options.directory}/snapshots`;
+    this.documentsDirectory = `${options.directory}/documents`;
     this.format = options.format ?? 'json';
+    this.log = new WriteAheadLog(
+      fileSystemLogFile(`${options.directory}/wal.log`),
+      options.directory,
+      options.checkpointBytes,
+    );
   }
 
   // ── Lifecycle ───────────────────────────────────────────────────────────
 
+  /** Replays batches that were committed but not fully written before a crash. */
   async init(): Promise<void> {
     await mkdir(this.vectorsDirectory, { recursive: true });
+    await this.writes.run(() =>
+      this.log.recover(async (records) => {
+        for (const record of records) {
+          await this.writeVector(record);
+        }
+      }),
+    );
   }
 
   async close(): Promise<void> {
-    // No-op — nothing to tear down for file-system storage.
+    await this.writes.run(() => this.log.checkpoint());
   }
 
   async destroy(): Promise<void> {
@@ -83,31 +145,28 @@ export class FileSystemStorageAdapter implements StorageAdapter {
 
   // ── Single-item CRUD ────────────────────────────────────────────────────
 
-  async put(vector: VectorData): Promise<void> {
-    const data: VectorData = {
-      ...vector,
-      timestamp: vector.timestamp || Date.now(),
-      lastAccessed: Date.now(),
-    };
-    await this.writeVector(data);
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
+    await this.writeDirect(async () => {
+      const existing = await this.readStored(vector.id);
+      const data: VectorData = {
+        ...vector,
+        timestamp: vector.timestamp || Date.now(),
+        lastAccessed: Date.now(),
+        version: nextVersion(vector.id, storedVersion(existing), condition),
+      };
+      await this.writeVector(data);
+    });
   }
 
   async get(id: string): Promise<VectorData> {
-    const filePath = this.vectorFilePath(id);
-    const file = Bun.file(filePath);
-
-    if (!(await file.exists())) {
-      throw new VectorNotFoundError(id);
-    }
-
-    const data = await this.readVectorFile(file);
-
-    // Update access tracking
-    data.lastAccessed = Date.now();
-    data.accessCount = (data.accessCount ?? 0) + 1;
-    await this.writeVector(data);
-
-    return data;
+    // Access tracking writes the record back, so it queues behind writes
+    return this.writeDirect(async () => {
+      const data = await this.readExisting(id);
+      data.lastAccessed = Date.now();
+      data.accessCount = (data.accessCount ?? 0) + 1;
+      await this.writeVector(data);
+      return data;
+    });
   }
 
   async exists(id: string): Promise<boolean> {
@@ -116,31 +175,33 @@ export class FileSystemStorageAdapter implements StorageAdapter {
 
   async delete(id: string): Promise<void> {
     const filePath = this.vectorFilePath(id);
-    try {
-      await rm(filePath);
-    } catch {
-      // Silently ignore if the file doesn't exist.
-    }
+    await this.writeDirect(async () => {
+      try {
+        await rm(filePath);
+      } catch {
+        // Silently ignore if the file doesn't exist.
+      }
+    });
   }
 
   // ── Multi-item reads ────────────────────────────────────────────────────
 
   async getMany(ids: string[]): Promise<VectorData[]> {
-    const results: VectorData[] = [];
     const now = Date.now();
 
-    for (const id of ids) {
-      const file = Bun.file(this.vectorFilePath(id));
-      if (await file.exists()) {
-        const data = await this.readVectorFile(file);
-        data.lastAccessed = now;
-        data.accessCount = (data.accessCount ?? 0) + 1;
-        await this.writeVector(data);
-        results.push(data);
+    return this.writeDirect(async () => {
+      const results: VectorData[] = [];
+      for (const id of ids) {
+        const data = await this.readStored(id);
+        if (data) {
+          data.lastAccessed = now;
+          data.accessCount = (data.accessCount ?? 0) + 1;
+          await this.writeVector(data);
+          results.push(data);
+        }
       }
-    }
-
-    return results;
+      return results;
+    });
   }
 
   async getAll(): Promise<VectorData[]> {
@@ -211,38 +272,45 @@ export class FileSystemStorageAdapter implements StorageAdapter {
   // ── Multi-item writes ───────────────────────────────────────────────────
 
   async deleteMany(ids: string[]): Promise<number> {
-    let deleted = 0;
-
-    for (const id of ids) {
-      const filePath = this.vectorFilePath(id);
-      try {
-        await stat(filePath);
-        await rm(filePath);
-        deleted++;
-      } catch {
-        // File did not exist — skip.
+    return this.writeDirect(async () => {
+      let deleted = 0;
+      for (const id of ids) {
+        const filePath = this.vectorFilePath(id);
+        try {
+          await stat(filePath);
+          await rm(filePath);
+          deleted++;
+        } catch {
+          // File did not exist — skip.
+        }
       }
-    }
-
-    return deleted;
+      return deleted;
+    });
   }
 
   async clear(): Promise<void> {
-    let entries: string[];
-    try {
-      entries = await readdir(this.vectorsDirectory);
-    } catch {
-      return;
-    }
+    await this.writeDirect(async () => {
+      let entries: string[];
+      try {
+        entries = await readdir(this.vectorsDirectory);
+      } catch {
+        return;
+      }
 
-    const extension = this.format === 'json' ? '.json' : '.vec';
-    for (const entry of entries) {
-      if (entry.endsWith(extension)) {
-        await rm(`${this.vectorsDirectory}/${entry}`, { force: true });
+      const extension = this.format === 'json' ? '.json' : '.vec';
+      for (const entry of entries) {
+        if (entry.endsWith(extension)) {
+          await rm(`${this.vectorsDirectory}/${entry}`, { force: true });
+        }
       }
-    }
+    });
   }
 
+  /**
+   * Each chunk of `batchSize` vectors is committed to the write-ahead log
+   * before its files are written, so a crash leaves a chunk either fully
+   * stored or, once `init()` replays the log, not at all.
+   */
   async putBatch(vectors: VectorData[], options?: BatchOptions): Promise<void> {
     const batchSize = options?.batchSize ?? vectors.length;
     const totalBatches = Math.ceil(vectors.length / batchSize);
@@ -255,10 +323,29 @@ export class FileSystemStorageAdapter implements StorageAdapter {
       const start = batchIndex * batchSize;
       const end = Math.min(start + batchSize, vectors.length);
 
-      for (let i = start; i < end; i++) {
-        const vector = vectors[i]!;
-        await this.put(vector);
-      }
+      await this.writes.run(async () => {
+        const records: VectorData[] = [];
+        const versions = new Map<string, number>();
+        for (let i = start; i < end; i++) {
+          const vector = vectors[i]!;
+          const current =
+            versions.get(vector.id) ?? storedVersion(await this.readStored(vector.id));
+          const stored: VectorData = {
+            ...vector,
+            timestamp: vector.timestamp || Date.now(),
+            lastAccessed: Date.now(),
+            version: nextVersion(vector.id, current),
+          };
+          versions.set(stored.id, stored.version!);
+          records.push(stored);
+        }
+
+        await this.log.commit(records);
+        for (const record of records) {
+          await this.writeVector(record);
+        }
+        await this.log.applied();
+      });
 
       if (options?.onProgress) {
         const progress: BatchProgress = {
@@ -279,41 +366,50 @@ export class FileSystemStorageAdapter implements StorageAdapter {
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
-    const existing = await this.readExisting(id);
+    await this.writeDirect(async () => {
+      const existing = await this.readExisting(id);
+      existing.version = nextVersion(id, storedVersion(existing), options);
+      existing.vector = vector;
 
-    existing.vector = vector;
-
-    if (options?.updateMagnitude !== false) {
-      existing.magnitude = calculateMagnitude(vector);
-    }
+      if (options?.updateMagnitude !== false) {
+        existing.magnitude = calculateMagnitude(vector);
+      }
 
-    if (options?.updateTimestamp !== false) {
-      existing.timestamp = Date.now();
-    }
+      if (options?.updateTimestamp !== false) {
+        existing.timestamp = Date.now();
+      }
 
-    await this.writeVector(existing);
+      await this.writeVector(existing);
+    });
   }
 
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
-    const existing = await this.readExisting(id);
-
-    if (options?.merge !== false && existing.metadata) {
-      existing.metadata = { ...existing.metadata, ...metadata };
-    } else {
-      existing.metadata = metadata;
-    }
+    await this.writeDirect(async () => {
+      const existing = await this.readExisting(id);
+      existing.version = nextVersion(id, storedVersion(existing), options);
+
+      if (options?.merge !== false && existing.metadata) {
+        existing.metadata = { ...existing.metadata, ...metadata };
+      } else {
+        existing.metadata = metadata;
+      }
 
-    if (options?.updateTimestamp !== false) {
-      existing.timestamp = Date.now();
-    }
+      if (options?.updateTimestamp !== false) {
+        existing.timestamp = Date.now();
+      }
 
-    await this.writeVector(existing);
+      await this.writeVector(existing);
+    });
   }
 
   async updateBatch(
@@ -334,21 +430,24 @@ export class FileSystemStorageAdapter implements StorageAdapter {
 
     for (const update of updates) {
       try {
-        const existing = await this.readExisting(update.id);
-
-        if (update.vector) {
-          existing.vector = update.vector;
-          existing.magnitude = calculateMagnitude(update.vector);
-        }
-
-        if (update.metadata) {
-          existing.metadata = existing.metadata
-            ? { ...existing.metadata, ...update.metadata }
-            : update.metadata;
-        }
-
-        existing.timestamp = Date.now();
-        await this.writeVector(existing);
+        await this.writeDirect(async () => {
+          const existing = await this.readExisting(update.id);
+
+          if (update.vector) {
+            existing.vector = update.vector;
+            existing.magnitude = calculateMagnitude(update.vector);
+          }
+
+          if (update.metadata) {
+            existing.metadata = existing.metadata
+              ? { ...existing.metadata, ...update.metadata }
+              : update.metadata;
+          }
+
+          existing.timestamp = Date.now();
+          existing.version = nextVersion(update.id, storedVersion(existing));
+          await this.writeVector(existing);
+        });
         succeeded++;
       } catch (error) {
         failed++;
@@ -362,8 +461,181 @@ export class FileSystemStorageAdapter implements StorageAdapter {
     return { succeeded, failed, errors };
   }
 
+  // ── Snapshots ───────────────────────────────────────────────────────────
+  //
+  // A snapshot is a copy of the vectors directory at
+  // `snapshots/<label>/vectors`, next to `snapshot.json` and the attachment.
+  // Copies and restores queue behind writes, so neither sees a write half
+  // done.
+
+  async createSnapshot(label: string, attachment: Uint8Array): Promise<SnapshotInfo> {
+    const directory = `${this.snapshotsDirectory}/${label}`;
+
+    return this.writes.run(async () => {
+      if (await this.pathExists(directory)) {
+        throw new SnapshotExistsError(label);
+      }
+
+      // Built under a temporary name so an interrupted copy is never listed
+      const partial = `${directory}.partial`;
+      await rm(partial, { recursive: true, force: true });
+      await mkdir(partial, { recursive: true });
+      const createdAt = Date.now();
+      await cp(this.vectorsDirectory, `${partial}/vectors`, { recursive: true });
+
+      const extension = this.format === 'json' ? '.json' : '.vec';
+      const entries = await readdir(`${partial}/vectors`);
+      const info: SnapshotInfo = {
+        label,
+        createdAt,
+        vectorCount: entries.filter((entry) => entry.endsWith(extension)).length,
+      };
+      await Bun.write(`${partial}/attachment.bin`, attachment);
+      await Bun.write(`${partial}/snapshot.json`, JSON.stringify(info));
+      await rename(partial, directory);
+      return info;
+    });
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.snapshotsDirectory);
+    } catch {
+      return [];
+    }
+
+    const snapshots: SnapshotInfo[] = [];
+    for (const entry of entries) {
+      if (entry.endsWith('.partial')) continue;
+      const text = await Bun.file(
+        `${this.snapshotsDirectory}/${entry}/snapshot.json`,
+      ).text();
+      snapshots.push(JSON.parse(text) as SnapshotInfo);
+    }
+    return snapshots.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * The copy is made beside the vectors directory and swapped in with two
+   * renames, so a failed copy leaves the current vectors untouched.
+   */
+  async restoreSnapshot(
+    label: string,
+    check?: (attachment: Uint8Array) => void,
+  ): Promise<Uint8Array> {
+    const directory = `${this.snapshotsDirectory}/${label}`;
+
+    return this.writeDirect(async () => {
+      if (!(await this.pathExists(directory))) {
+        throw new SnapshotNotFoundError(label);
+      }
+      const stored = await Bun.file(`${directory}/attachment.bin`).arrayBuffer();
+      const attachment = new Uint8Array(stored);
+      check?.(attachment);
+
+      const restoring = `${this.directory}/vectors.restoring`;
+      const replaced = `${this.directory}/vectors.replaced`;
+      await rm(restoring, { recursive: true, force: true });
+      await rm(replaced, { recursive: true, force: true });
+      await cp(`${directory}/vectors`, restoring, { recursive: true });
+      await rename(this.vectorsDirectory, replaced);
+      await rename(restoring, this.vectorsDirectory);
+      await rm(replaced, { recursive: true, force: true });
+      return attachment;
+    });
+  }
+
+  async deleteSnapshot(label: string): Promise<boolean> {
+    const directory = `${this.snapshotsDirectory}/${label}`;
+
+    return this.writes.run(async () => {
+      if (!(await this.pathExists(directory))) {
+        return false;
+      }
+      await rm(directory, { recursive: true, force: true });
+      return true;
+    });
+  }
+
+  // ── Documents ───────────────────────────────────────────────────────────
+  //
+  // Each document is a file at `documents/<collection>/<key>.json`, written
+  // under a temporary name and renamed into place so a crash never leaves a
+  // half-written document.
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    const file = Bun.file(this.documentFilePath(collection, key));
+    if (!(await file.exists())) {
+      return null;
+    }
+    const text = await file.text();
+    return decodeDocument<T>(text);
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    const text = encodeDocument(document);
+    const path = this.documentFilePath(collection, key);
+
+    await this.writes.run(async () => {
+      await mkdir(`${this.documentsDirectory}/${collection}`, { recursive: true });
+      await Bun.write(`${path}.partial`, text);
+      await rename(`${path}.partial`, path);
+    });
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+    const path = this.documentFilePath(collection, key);
+
+    return this.writes.run(async () => {
+      if (!(await this.pathExists(path))) {
+        return false;
+      }
+      await rm(path, { force: true });
+      return true;
+    });
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    const directory = `${this.documentsDirectory}/${collection}`;
+    let entries: string[];
+    try {
+      entries = await readdir(directory);
+    } catch {
+      return [];
+    }
+
+    const documents: Array<StoredDocument<T>> = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      const text = await Bun.file(`${directory}/${entry}`).text();
+      documents.push({
+        key: decodeURIComponent(entry.slice(0, -'.json'.length)),
+        document: decodeDocument<T>(text),
+      });
+    }
+    return sortDocuments(documents);
+  }
+
   // ── Internal helpers ────────────────────────────────────────────────────
 
+  /**
+   * Run a write that bypasses the write-ahead log. The log is checkpointed
+   * first, since replaying it after this write would undo the write.
+   */
+  private async writeDirect<T>(step: () => Promise<T>): Promise<T> {
+    return this.writes.run(async () => {
+      await this.log.checkpoint();
+      return step();
+    });
+  }
+
   /** Read a vector from disk without updating access tracking. */
   private async readExisting(id: string): Promise<VectorData> {
     const filePath = this.vectorFilePath(id);
@@ -376,9 +648,28 @@ export class FileSystemStorageAdapter implements StorageAdapter {
     return this.readVectorFile(file);
   }
 
+  /** Read a vector from disk, or `undefined` when there is no file for it. */
+  private async readStored(id: string): Promise<VectorData | undefined> {
+    const file = Bun.file(this.vectorFilePath(id));
+    return (await file.exists()) ? this.readVectorFile(file) : undefined;
+  }
+
+  private async pathExists(path: string): Promise<boolean> {
+    try {
+      await stat(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private documentFilePath(collection: string, key: string): string {
+    return `${this.documentsDirectory}/${collection}/${encodeFileName(key)}.json`;
+  }
+
   private vectorFilePath(id: string): string {
     const extension = this.format === 'json' ? '.json' : '.vec';
-    return `${this.vectorsDirectory}/${encodeVectorId(id)}${extension}`;
+    return `${this.vectorsDirectory}/${encodeFileName(id)}${extension}`;
   }
 
   private async writeVector(data: VectorData): Promise<void> {
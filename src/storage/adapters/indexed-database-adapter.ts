@@ -3,10 +3,16 @@ import { BatchOperationError, VectorNotFoundError } from '@/core/errors.js';
 import { VectorStorage } from '@/core/storage.js';
 import type {
   BatchOptions,
+  MetadataFilter,
+  MetadataIndexDefinition,
   ScanCapabilities,
   ScanOptions,
+  SnapshotInfo,
   StorageAdapter,
+  StoredDocument,
+  TransactionOperation,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
 import {
   INDEXED_DATABASE_ADAPTER_CAPABILITIES,
@@ -16,6 +22,8 @@ import {
 interface IndexedDatabaseAdapterOptions {
   name: string;
   version?: number;
+  /** Metadata fields to maintain IndexedDB secondary indexes for. */
+  metadataIndexes?: MetadataIndexDefinition[];
 }
 
 /**
@@ -31,8 +39,20 @@ export class IndexedDatabaseStorageAdapter implements StorageAdapter {
   private database: VectorDatabase | null = null;
   private storage: VectorStorage | null = null;
 
+  /**
+   * Capabilities reported to the search engine.
+   *
+   * `metadataIndexing` is only claimed when metadata indexes are declared,
+   * since that is when `filteredScan()` can avoid reading every record.
+   */
+  readonly capabilities: AdapterCapabilities;
+
   constructor(options: IndexedDatabaseAdapterOptions) {
     this.options = options;
+    this.capabilities = {
+      ...INDEXED_DATABASE_ADAPTER_CAPABILITIES,
+      metadataIndexing: (options.metadataIndexes?.length ?? 0) > 0,
+    };
   }
 
   // ---------------------------------------------------------------------------
@@ -45,12 +65,13 @@ export class IndexedDatabaseStorageAdapter implements StorageAdapter {
       return;
     }
 
-    const databaseConfiguration =
-      this.options.version !== undefined
-        ? { name: this.options.name, version: this.options.version }
-        : { name: this.options.name };
-
-    this.database = new VectorDatabase(databaseConfiguration);
+    this.database = new VectorDatabase({
+      name: this.options.name,
+      ...(this.options.version !== undefined && { version: this.options.version }),
+      ...(this.options.metadataIndexes !== undefined && {
+        metadataIndexes: this.options.metadataIndexes,
+      }),
+    });
 
     await this.database.init();
 
@@ -69,16 +90,17 @@ export class IndexedDatabaseStorageAdapter implements StorageAdapter {
   }
 
   async destroy(): Promise<void> {
-    if (this.database !== null) {
-      // Already initialized — close and delete through the open handle.
-      await this.database.delete();
+    if (this.storage !== null) {
+      // Already initialized — delete snapshots and close and delete through
+      // the open handle.
+      await this.storage.destroy();
       this.database = null;
       this.storage = null;
     } else {
-      // Never initialized — create a temporary VectorDatabase just to issue
-      // the deleteDatabase call by name, without requiring a prior init().
+      // Never initialized — open a temporary VectorDatabase by name, without
+      // requiring a prior init(), to find its snapshots and delete it.
       const temporary = new VectorDatabase({ name: this.options.name });
-      await temporary.delete();
+      await new VectorStorage(temporary).destroy();
     }
   }
 
@@ -86,9 +108,9 @@ export class IndexedDatabaseStorageAdapter implements StorageAdapter {
   // Single-item CRUD
   // ---------------------------------------------------------------------------
 
-  async put(vector: VectorData): Promise<void> {
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
     const storage = this.requireStorage();
-    await storage.put(vector);
+    await storage.put(vector, condition);
   }
 
   async get(id: string): Promise<VectorData> {
@@ -153,6 +175,18 @@ export class IndexedDatabaseStorageAdapter implements StorageAdapter {
     return storage.scan(options);
   }
 
+  /**
+   * Filter by metadata, reading through a declared metadata index when the
+   * filter allows it. Delegates to VectorStorage.
+   */
+  async filteredScan(
+    predicate: (metadata: Record<string, unknown>) => boolean,
+    filter?: MetadataFilter,
+  ): Promise<VectorData[]> {
+    const storage = this.requireStorage();
+    return storage.filteredScan(predicate, filter);
+  }
+
   /** IndexedDB supports key-ranged paged scanning with bounded memory. */
   getScanCapabilities(): ScanCapabilities {
     return { nativeStreaming: true };
@@ -177,6 +211,64 @@ export class IndexedDatabaseStorageAdapter implements StorageAdapter {
     await storage.putBatch(vectors, options);
   }
 
+  async commitTransaction(operations: TransactionOperation[]): Promise<void> {
+    const storage = this.requireStorage();
+    await storage.commitTransaction(operations);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Snapshots
+  // ---------------------------------------------------------------------------
+
+  async createSnapshot(label: string, attachment: Uint8Array): Promise<SnapshotInfo> {
+    const storage = this.requireStorage();
+    return storage.createSnapshot(label, attachment);
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    const storage = this.requireStorage();
+    return storage.listSnapshots();
+  }
+
+  async restoreSnapshot(
+    label: string,
+    check?: (attachment: Uint8Array) => void,
+  ): Promise<Uint8Array> {
+    const storage = this.requireStorage();
+    return storage.restoreSnapshot(label, check);
+  }
+
+  async deleteSnapshot(label: string): Promise<boolean> {
+    const storage = this.requireStorage();
+    return storage.deleteSnapshot(label);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Documents
+  // ---------------------------------------------------------------------------
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    const storage = this.requireStorage();
+    return storage.getDocument<T>(collection, key);
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    const storage = this.requireStorage();
+    return storage.putDocument(collection, key, document);
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    const storage = this.requireStorage();
+    return storage.deleteDocument(collection, key);
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    const storage = this.requireStorage();
+    return storage.listDocuments<T>(collection);
+  }
+
   // ---------------------------------------------------------------------------
   // Partial updates
   // ---------------------------------------------------------------------------
@@ -184,7 +276,11 @@ export class IndexedDatabaseStorageAdapter implements StorageAdapter {
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
     const storage = this.requireStorage();
     await storage.updateVector(id, vector, options);
@@ -193,7 +289,7 @@ export class IndexedDatabaseStorageAdapter implements StorageAdapter {
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
     const storage = this.requireStorage();
     await storage.updateMetadata(id, metadata, options);
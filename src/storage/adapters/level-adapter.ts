@@ -7,17 +7,27 @@ import type {
   ScanCapabilities,
   ScanOptions,
   StorageAdapter,
+  StoredDocument,
+  TransactionOperation,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
 import {
   LEVEL_ADAPTER_CAPABILITIES,
   type AdapterCapabilities,
 } from './adapter-capabilities.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from './documents.js';
 import {
   calculateMagnitude,
   jsonToVectorData,
   vectorDataToJson,
 } from './serialization.js';
+import { nextVersion, storedVersion, WriteQueue } from './versioning.js';
 
 // ---------------------------------------------------------------------------
 // level types (declared inline because level is an optional peer dependency)
@@ -28,7 +38,7 @@ interface LevelDatabase {
   get(key: string): Promise<string>;
   del(key: string): Promise<void>;
   batch(): LevelBatch;
-  iterator(): AsyncIterable<[string, string]>;
+  iterator(options?: { gte?: string; lt?: string }): AsyncIterable<[string, string]>;
   open(): Promise<void>;
   clear(): Promise<void>;
   close(): Promise<void>;
@@ -62,6 +72,13 @@ export class LevelStorageAdapter implements StorageAdapter {
 
   private readonly directory: string;
   private database: LevelDatabase | null = null;
+  /**
+   * Documents live in a second database under `documents/`: sublevels share
+   * the vectors' key space, so iterating or clearing vectors would see them.
+   */
+  private documents: LevelDatabase | null = null;
+  /** LevelDB has no conditional write; the database is locked to one process */
+  private readonly writes = new WriteQueue();
 
   constructor(options: LevelStorageAdapterOptions) {
     this.directory = options.directory;
@@ -74,6 +91,13 @@ export class LevelStorageAdapter implements StorageAdapter {
     return this.database;
   }
 
+  private getDocuments(): LevelDatabase {
+    if (!this.documents) {
+      throw new Error('LevelStorageAdapter has not been initialized. Call init() first.');
+    }
+    return this.documents;
+  }
+
   /**
    * Wraps `database.get()` to return `undefined` for missing keys instead of
    * throwing. The `level` library (v10, abstract-level) throws an error with
@@ -99,6 +123,15 @@ export class LevelStorageAdapter implements StorageAdapter {
     }
   }
 
+  /** Parsed record for `id`, or `undefined` when there is none. */
+  private async readStored(
+    database: LevelDatabase,
+    id: string,
+  ): Promise<VectorData | undefined> {
+    const json = await this.safeGet(database, id);
+    return json === undefined ? undefined : jsonToVectorData(json);
+  }
+
   // ── Lifecycle ───────────────────────────────────────────────────────────
 
   async init(): Promise<void> {
@@ -112,7 +145,10 @@ export class LevelStorageAdapter implements StorageAdapter {
     };
     const database = new Level(this.directory);
     await database.open();
+    const documents = new Level(`${this.directory}/documents`);
+    await documents.open();
     this.database = database;
+    this.documents = documents;
   }
 
   async close(): Promise<void> {
@@ -120,47 +156,52 @@ export class LevelStorageAdapter implements StorageAdapter {
       await this.database.close();
       this.database = null;
     }
+    if (this.documents) {
+      await this.documents.close();
+      this.documents = null;
+    }
   }
 
   async destroy(): Promise<void> {
-    if (this.database) {
-      await this.database.close();
-      this.database = null;
-    }
+    await this.close();
     await rm(this.directory, { recursive: true, force: true });
   }
 
   // ── Single-item CRUD ────────────────────────────────────────────────────
 
-  async put(vector: VectorData): Promise<void> {
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
     const database = this.getDatabase();
 
-    const stored: VectorData = {
-      ...vector,
-      timestamp: vector.timestamp || Date.now(),
-      lastAccessed: Date.now(),
-    };
-
-    await database.put(stored.id, vectorDataToJson(stored));
+    await this.writes.run(async () => {
+      const existing = await this.readStored(database, vector.id);
+      const stored: VectorData = {
+        ...vector,
+        timestamp: vector.timestamp || Date.now(),
+        lastAccessed: Date.now(),
+        version: nextVersion(vector.id, storedVersion(existing), condition),
+      };
+
+      await database.put(stored.id, vectorDataToJson(stored));
+    });
   }
 
   async get(id: string): Promise<VectorData> {
     const database = this.getDatabase();
 
-    const json = await this.safeGet(database, id);
-
-    if (json === undefined) {
-      throw new VectorNotFoundError(id);
-    }
+    // Access tracking writes the record back, so it queues behind writes
+    return this.writes.run(async () => {
+      const data = await this.readStored(database, id);
 
-    const data = jsonToVectorData(json);
+      if (!data) {
+        throw new VectorNotFoundError(id);
+      }
 
-    // Update access tracking
-    data.lastAccessed = Date.now();
-    data.accessCount = (data.accessCount ?? 0) + 1;
-    await database.put(id, vectorDataToJson(data));
+      data.lastAccessed = Date.now();
+      data.accessCount = (data.accessCount ?? 0) + 1;
+      await database.put(id, vectorDataToJson(data));
 
-    return data;
+      return data;
+    });
   }
 
   async exists(id: string): Promise<boolean> {
@@ -171,28 +212,28 @@ export class LevelStorageAdapter implements StorageAdapter {
 
   async delete(id: string): Promise<void> {
     const database = this.getDatabase();
-    await database.del(id);
+    await this.writes.run(() => database.del(id));
   }
 
   // ── Multi-item reads ────────────────────────────────────────────────────
 
   async getMany(ids: string[]): Promise<VectorData[]> {
     const database = this.getDatabase();
-    const results: VectorData[] = [];
     const now = Date.now();
 
-    for (const id of ids) {
-      const json = await this.safeGet(database, id);
-      if (json !== undefined) {
-        const data = jsonToVectorData(json);
-        data.lastAccessed = now;
-        data.accessCount = (data.accessCount ?? 0) + 1;
-        await database.put(id, vectorDataToJson(data));
-        results.push(data);
+    return this.writes.run(async () => {
+      const results: VectorData[] = [];
+      for (const id of ids) {
+        const data = await this.readStored(database, id);
+        if (data) {
+          data.lastAccessed = now;
+          data.accessCount = (data.accessCount ?? 0) + 1;
+          await database.put(id, vectorDataToJson(data));
+          results.push(data);
+        }
       }
-    }
-
-    return results;
+      return results;
+    });
   }
 
   async getAll(): Promise<VectorData[]> {
@@ -245,17 +286,18 @@ export class LevelStorageAdapter implements StorageAdapter {
 
   async deleteMany(ids: string[]): Promise<number> {
     const database = this.getDatabase();
-    let deleted = 0;
 
-    for (const id of ids) {
-      const value = await this.safeGet(database, id);
-      if (value !== undefined) {
-        await database.del(id);
-        deleted++;
+    return this.writes.run(async () => {
+      let deleted = 0;
+      for (const id of ids) {
+        const value = await this.safeGet(database, id);
+        if (value !== undefined) {
+          await database.del(id);
+          deleted++;
+        }
       }
-    }
-
-    return deleted;
+      return deleted;
+    });
   }
 
   async clear(): Promise<void> {
@@ -276,19 +318,27 @@ export class LevelStorageAdapter implements StorageAdapter {
       const start = batchIndex * batchSize;
       const end = Math.min(start + batchSize, vectors.length);
 
-      const batch = database.batch();
-
-      for (let i = start; i < end; i++) {
-        const vector = vectors[i]!;
-        const stored: VectorData = {
-          ...vector,
-          timestamp: vector.timestamp || Date.now(),
-          lastAccessed: Date.now(),
-        };
-        batch.put(stored.id, vectorDataToJson(stored));
-      }
+      await this.writes.run(async () => {
+        const batch = database.batch();
+        const versions = new Map<string, number>();
+
+        for (let i = start; i < end; i++) {
+          const vector = vectors[i]!;
+          const current =
+            versions.get(vector.id) ??
+            storedVersion(await this.readStored(database, vector.id));
+          const stored: VectorData = {
+            ...vector,
+            timestamp: vector.timestamp || Date.now(),
+            lastAccessed: Date.now(),
+            version: nextVersion(vector.id, current),
+          };
+          versions.set(stored.id, stored.version!);
+          batch.put(stored.id, vectorDataToJson(stored));
+        }
 
-      await batch.write();
+        await batch.write();
+      });
 
       if (options?.onProgress) {
         const progress: BatchProgress = {
@@ -304,61 +354,143 @@ export class LevelStorageAdapter implements StorageAdapter {
     }
   }
 
+  /** Writes every operation as one atomic LevelDB batch. */
+  async commitTransaction(operations: TransactionOperation[]): Promise<void> {
+    const database = this.getDatabase();
+
+    await this.writes.run(async () => {
+      const batch = database.batch();
+
+      for (const operation of operations) {
+        if (operation.type === 'put') {
+          const existing = await this.readStored(database, operation.vector.id);
+          const stored: VectorData = {
+            ...operation.vector,
+            timestamp: operation.vector.timestamp || Date.now(),
+            lastAccessed: Date.now(),
+            version: nextVersion(operation.vector.id, storedVersion(existing)),
+          };
+          batch.put(stored.id, vectorDataToJson(stored));
+        } else {
+          batch.del(operation.id);
+        }
+      }
+
+      await batch.write();
+    });
+  }
+
+  // ── Documents ───────────────────────────────────────────────────────────
+  //
+  // Keyed `<collection>:<key>`; collection names cannot contain a colon, so
+  // one collection's keys sort together between `<collection>:` and
+  // `<collection>;`.
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    const text = await this.safeGet(this.getDocuments(), `${collection}:${key}`);
+    return text === undefined ? null : decodeDocument<T>(text);
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    const text = encodeDocument(document);
+    const documents = this.getDocuments();
+    await this.writes.run(() => documents.put(`${collection}:${key}`, text));
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+    const documents = this.getDocuments();
+
+    return this.writes.run(async () => {
+      const documentKey = `${collection}:${key}`;
+      if ((await this.safeGet(documents, documentKey)) === undefined) {
+        return false;
+      }
+      await documents.del(documentKey);
+      return true;
+    });
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    const entries: Array<StoredDocument<T>> = [];
+    const range = { gte: `${collection}:`, lt: `${collection};` };
+    for await (const [key, text] of this.getDocuments().iterator(range)) {
+      entries.push({
+        key: key.slice(collection.length + 1),
+        document: decodeDocument<T>(text),
+      });
+    }
+    return entries;
+  }
+
   // ── Partial updates (read-modify-write) ─────────────────────────────────
 
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
     const database = this.getDatabase();
 
-    const json = await this.safeGet(database, id);
+    await this.writes.run(async () => {
+      const existing = await this.readStored(database, id);
 
-    if (json === undefined) {
-      throw new VectorNotFoundError(id);
-    }
+      if (!existing) {
+        throw new VectorNotFoundError(id);
+      }
 
-    const existing = jsonToVectorData(json);
-    existing.vector = vector;
+      existing.version = nextVersion(id, storedVersion(existing), options);
+      existing.vector = vector;
 
-    if (options?.updateMagnitude !== false) {
-      existing.magnitude = calculateMagnitude(vector);
-    }
+      if (options?.updateMagnitude !== false) {
+        existing.magnitude = calculateMagnitude(vector);
+      }
 
-    if (options?.updateTimestamp !== false) {
-      existing.timestamp = Date.now();
-    }
+      if (options?.updateTimestamp !== false) {
+        existing.timestamp = Date.now();
+      }
 
-    await database.put(id, vectorDataToJson(existing));
+      await database.put(id, vectorDataToJson(existing));
+    });
   }
 
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
     const database = this.getDatabase();
 
-    const json = await this.safeGet(database, id);
+    await this.writes.run(async () => {
+      const existing = await this.readStored(database, id);
 
-    if (json === undefined) {
-      throw new VectorNotFoundError(id);
-    }
+      if (!existing) {
+        throw new VectorNotFoundError(id);
+      }
 
-    const existing = jsonToVectorData(json);
+      existing.version = nextVersion(id, storedVersion(existing), options);
 
-    if (options?.merge !== false && existing.metadata) {
-      existing.metadata = { ...existing.metadata, ...metadata };
-    } else {
-      existing.metadata = metadata;
-    }
+      if (options?.merge !== false && existing.metadata) {
+        existing.metadata = { ...existing.metadata, ...metadata };
+      } else {
+        existing.metadata = metadata;
+      }
 
-    if (options?.updateTimestamp !== false) {
-      existing.timestamp = Date.now();
-    }
+      if (options?.updateTimestamp !== false) {
+        existing.timestamp = Date.now();
+      }
 
-    await database.put(id, vectorDataToJson(existing));
+      await database.put(id, vectorDataToJson(existing));
+    });
   }
 
   async updateBatch(
@@ -380,27 +512,28 @@ export class LevelStorageAdapter implements StorageAdapter {
 
     for (const update of updates) {
       try {
-        const json = await this.safeGet(database, update.id);
-
-        if (json === undefined) {
-          throw new VectorNotFoundError(update.id);
-        }
-
-        const existing = jsonToVectorData(json);
-
-        if (update.vector) {
-          existing.vector = update.vector;
-          existing.magnitude = calculateMagnitude(update.vector);
-        }
-
-        if (update.metadata) {
-          existing.metadata = existing.metadata
-            ? { ...existing.metadata, ...update.metadata }
-            : update.metadata;
-        }
-
-        existing.timestamp = Date.now();
-        await database.put(update.id, vectorDataToJson(existing));
+        await this.writes.run(async () => {
+          const existing = await this.readStored(database, update.id);
+
+          if (!existing) {
+            throw new VectorNotFoundError(update.id);
+          }
+
+          if (update.vector) {
+            existing.vector = update.vector;
+            existing.magnitude = calculateMagnitude(update.vector);
+          }
+
+          if (update.metadata) {
+            existing.metadata = existing.metadata
+              ? { ...existing.metadata, ...update.metadata }
+              : update.metadata;
+          }
+
+          existing.timestamp = Date.now();
+          existing.version = nextVersion(update.id, storedVersion(existing));
+          await database.put(update.id, vectorDataToJson(existing));
+        });
         succeeded++;
       } catch (error) {
         failed++;
@@ -7,17 +7,27 @@ import type {
   ScanCapabilities,
   ScanOptions,
   StorageAdapter,
+  StoredDocument,
+  TransactionOperation,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
 import {
   LMDB_ADAPTER_CAPABILITIES,
   type AdapterCapabilities,
 } from './adapter-capabilities.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from './documents.js';
 import {
   calculateMagnitude,
   jsonToVectorData,
   vectorDataToJson,
 } from './serialization.js';
+import { nextVersion, storedVersion } from './versioning.js';
 
 // ---------------------------------------------------------------------------
 // LMDB types (declared inline because lmdb is an optional peer dependency)
@@ -27,7 +37,9 @@ interface LmdbDatabase {
   get(key: string): string | undefined;
   put(key: string, value: string): Promise<boolean>;
   remove(key: string): Promise<boolean>;
-  transaction<T>(fn: () => T): T;
+  putSync(key: string, value: string): void;
+  removeSync(key: string): boolean;
+  transaction<T>(fn: () => T): Promise<T>;
   getRange(options?: {
     start?: string;
     end?: string;
@@ -64,6 +76,11 @@ export class LmdbStorageAdapter implements StorageAdapter {
   private readonly directory: string;
   private readonly mapSize: number | undefined;
   private database: LmdbDatabase | null = null;
+  /**
+   * Documents live in a second environment under `documents/`: named
+   * databases would add their names to the vectors' key space.
+   */
+  private documents: LmdbDatabase | null = null;
 
   constructor(options: LmdbStorageAdapterOptions) {
     this.directory = options.directory;
@@ -95,6 +112,7 @@ export class LmdbStorageAdapter implements StorageAdapter {
     }
 
     this.database = open(options);
+    this.documents = open({ path: `${this.directory}/documents`, encoding: 'string' });
   }
 
   async close(): Promise<void> {
@@ -102,49 +120,47 @@ export class LmdbStorageAdapter implements StorageAdapter {
       await this.database.close();
       this.database = null;
     }
+    if (this.documents) {
+      await this.documents.close();
+      this.documents = null;
+    }
   }
 
   async destroy(): Promise<void> {
-    if (this.database) {
-      await this.database.close();
-      this.database = null;
-    }
+    await this.close();
 
     await rm(this.directory, { recursive: true, force: true });
   }
 
   // ── Single-item CRUD ────────────────────────────────────────────────────
 
-  async put(vector: VectorData): Promise<void> {
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
     const database = this.requireDatabase();
 
-    const data: VectorData = {
-      ...vector,
-      timestamp: vector.timestamp || Date.now(),
-      lastAccessed: Date.now(),
-    };
-
-    const json = vectorDataToJson(data);
-    await database.put(data.id, json);
+    // Read, check and write inside one write transaction
+    await database.transaction(() => {
+      const data: VectorData = {
+        ...vector,
+        timestamp: vector.timestamp || Date.now(),
+        lastAccessed: Date.now(),
+        version: nextVersion(vector.id, this.readVersion(vector.id), condition),
+      };
+      database.putSync(data.id, vectorDataToJson(data));
+    });
   }
 
   async get(id: string): Promise<VectorData> {
     const database = this.requireDatabase();
 
-    const json = database.get(id);
-
-    if (json === undefined) {
-      throw new VectorNotFoundError(id);
-    }
-
-    const data = jsonToVectorData(json);
-
-    // Update access tracking
-    data.lastAccessed = Date.now();
-    data.accessCount = (data.accessCount ?? 0) + 1;
-    await database.put(id, vectorDataToJson(data));
-
-    return data;
+    // Update access tracking in the same write transaction as the read, so
+    // writing the record back cannot undo a concurrent write
+    return database.transaction(() => {
+      const data = this.readExisting(id);
+      data.lastAccessed = Date.now();
+      data.accessCount = (data.accessCount ?? 0) + 1;
+      database.putSync(id, vectorDataToJson(data));
+      return data;
+    });
   }
 
   async exists(id: string): Promise<boolean> {
@@ -161,21 +177,22 @@ export class LmdbStorageAdapter implements StorageAdapter {
 
   async getMany(ids: string[]): Promise<VectorData[]> {
     const database = this.requireDatabase();
-    const results: VectorData[] = [];
     const now = Date.now();
 
-    for (const id of ids) {
-      const json = database.get(id);
-      if (json !== undefined) {
-        const data = jsonToVectorData(json);
-        data.lastAccessed = now;
-        data.accessCount = (data.accessCount ?? 0) + 1;
-        await database.put(id, vectorDataToJson(data));
-        results.push(data);
+    return database.transaction(() => {
+      const results: VectorData[] = [];
+      for (const id of ids) {
+        const json = database.get(id);
+        if (json !== undefined) {
+          const data = jsonToVectorData(json);
+          data.lastAccessed = now;
+          data.accessCount = (data.accessCount ?? 0) + 1;
+          database.putSync(id, vectorDataToJson(data));
+          results.push(data);
+        }
       }
-    }
-
-    return results;
+      return results;
+    });
   }
 
   async getAll(): Promise<VectorData[]> {
@@ -281,48 +298,83 @@ export class LmdbStorageAdapter implements StorageAdapter {
     }
   }
 
+  /** Runs every operation inside one LMDB write transaction. */
+  async commitTransaction(operations: TransactionOperation[]): Promise<void> {
+    const database = this.requireDatabase();
+
+    await database.transaction(() => {
+      for (const operation of operations) {
+        if (operation.type === 'put') {
+          const data: VectorData = {
+            ...operation.vector,
+            timestamp: operation.vector.timestamp || Date.now(),
+            lastAccessed: Date.now(),
+            version: nextVersion(
+              operation.vector.id,
+              this.readVersion(operation.vector.id),
+            ),
+          };
+          database.putSync(data.id, vectorDataToJson(data));
+        } else {
+          database.removeSync(operation.id);
+        }
+      }
+    });
+  }
+
   // ── Partial updates (read-modify-write) ─────────────────────────────────
 
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
-    const existing = this.readExisting(id);
+    const database = this.requireDatabase();
 
-    existing.vector = vector;
+    await database.transaction(() => {
+      const existing = this.readExisting(id);
+      existing.version = nextVersion(id, storedVersion(existing), options);
+      existing.vector = vector;
 
-    if (options?.updateMagnitude !== false) {
-      existing.magnitude = calculateMagnitude(vector);
-    }
+      if (options?.updateMagnitude !== false) {
+        existing.magnitude = calculateMagnitude(vector);
+      }
 
-    if (options?.updateTimestamp !== false) {
-      existing.timestamp = Date.now();
-    }
+      if (options?.updateTimestamp !== false) {
+        existing.timestamp = Date.now();
+      }
 
-    const database = this.requireDatabase();
-    await database.put(id, vectorDataToJson(existing));
+      database.putSync(id, vectorDataToJson(existing));
+    });
   }
 
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
-    const existing = this.readExisting(id);
+    const database = this.requireDatabase();
 
-    if (options?.merge !== false && existing.metadata) {
-      existing.metadata = { ...existing.metadata, ...metadata };
-    } else {
-      existing.metadata = metadata;
-    }
+    await database.transaction(() => {
+      const existing = this.readExisting(id);
+      existing.version = nextVersion(id, storedVersion(existing), options);
 
-    if (options?.updateTimestamp !== false) {
-      existing.timestamp = Date.now();
-    }
+      if (options?.merge !== false && existing.metadata) {
+        existing.metadata = { ...existing.metadata, ...metadata };
+      } else {
+        existing.metadata = metadata;
+      }
 
-    const database = this.requireDatabase();
-    await database.put(id, vectorDataToJson(existing));
+      if (options?.updateTimestamp !== false) {
+        existing.timestamp = Date.now();
+      }
+
+      database.putSync(id, vectorDataToJson(existing));
+    });
   }
 
   async updateBatch(
@@ -341,25 +393,29 @@ export class LmdbStorageAdapter implements StorageAdapter {
     let failed = 0;
     const errors: Array<{ id: string; error: Error }> = [];
 
+    const database = this.requireDatabase();
+
     for (const update of updates) {
       try {
-        const existing = this.readExisting(update.id);
+        await database.transaction(() => {
+          const existing = this.readExisting(update.id);
 
-        if (update.vector) {
-          existing.vector = update.vector;
-          existing.magnitude = calculateMagnitude(update.vector);
-        }
+          if (update.vector) {
+            existing.vector = update.vector;
+            existing.magnitude = calculateMagnitude(update.vector);
+          }
 
-        if (update.metadata) {
-          existing.metadata = existing.metadata
-            ? { ...existing.metadata, ...update.metadata }
-            : update.metadata;
-        }
+          if (update.metadata) {
+            existing.metadata = existing.metadata
+              ? { ...existing.metadata, ...update.metadata }
+              : update.metadata;
+          }
 
-        existing.timestamp = Date.now();
+          existing.timestamp = Date.now();
+          existing.version = nextVersion(update.id, storedVersion(existing));
 
-        const database = this.requireDatabase();
-        await database.put(update.id, vectorDataToJson(existing));
+          database.putSync(update.id, vectorDataToJson(existing));
+        });
         succeeded++;
       } catch (error) {
         failed++;
@@ -373,6 +429,49 @@ export class LmdbStorageAdapter implements StorageAdapter {
     return { succeeded, failed, errors };
   }
 
+  // ── Documents ───────────────────────────────────────────────────────────
+  //
+  // Keyed `<collection>:<key>`; collection names cannot contain a colon, so
+  // one collection's keys sort together between `<collection>:` and
+  // `<collection>;`.
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    const text = this.requireDocuments().get(`${collection}:${key}`);
+    return text === undefined ? null : decodeDocument<T>(text);
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    await this.requireDocuments().put(`${collection}:${key}`, encodeDocument(document));
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+    const documents = this.requireDocuments();
+    // remove() resolves true whether or not the key existed
+    return documents.transaction(() => {
+      if (documents.get(`${collection}:${key}`) === undefined) {
+        return false;
+      }
+      return documents.removeSync(`${collection}:${key}`);
+    });
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    const range = this.requireDocuments().getRange({
+      start: `${collection}:`,
+      end: `${collection};`,
+    });
+    return Array.from(range, (entry) => ({
+      key: entry.key.slice(collection.length + 1),
+      document: decodeDocument<T>(entry.value),
+    }));
+  }
+
   // ── Internal helpers ────────────────────────────────────────────────────
 
   /** Read a vector from the database without updating access tracking. */
@@ -387,6 +486,21 @@ export class LmdbStorageAdapter implements StorageAdapter {
     return jsonToVectorData(json);
   }
 
+  /** Stored version of `id`, or `null` when there is none. */
+  private readVersion(id: string): number | null {
+    const json = this.requireDatabase().get(id);
+    return json === undefined ? null : storedVersion(jsonToVectorData(json));
+  }
+
+  private requireDocuments(): LmdbDatabase {
+    if (!this.documents) {
+      throw new Error(
+        'LmdbStorageAdapter is not initialized. Call init() before using the adapter.',
+      );
+    }
+    return this.documents;
+  }
+
   private requireDatabase(): LmdbDatabase {
     if (!this.database) {
       throw new Error(
@@ -1,23 +1,44 @@
-import { VectorNotFoundError } from '@/core/errors.js';
+import {
+  SnapshotExistsError,
+  SnapshotNotFoundError,
+  VectorNotFoundError,
+} from '@/core/errors.js';
 import type {
   BatchOptions,
   BatchProgress,
   ScanCapabilities,
   ScanOptions,
+  SnapshotInfo,
   StorageAdapter,
+  StoredDocument,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
 import {
   MEMORY_ADAPTER_CAPABILITIES,
   type AdapterCapabilities,
 } from './adapter-capabilities.js';
-import { calculateMagnitude } from './serialization.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  sortDocuments,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from './documents.js';
+import { calculateMagnitude, detachVector } from './serialization.js';
+import { nextVersion, storedVersion } from './versioning.js';
 
 interface MemoryStorageAdapterOptions {
   cloneOnRead?: boolean;
   cloneOnWrite?: boolean;
 }
 
+interface MemorySnapshot {
+  info: SnapshotInfo;
+  vectors: VectorData[];
+  attachment: Uint8Array;
+}
+
 /**
  * In-memory storage adapter backed by a plain `Map`.
  *
@@ -30,6 +51,9 @@ export class MemoryStorageAdapter implements StorageAdapter {
   static readonly capabilities: AdapterCapabilities = MEMORY_ADAPTER_CAPABILITIES;
 
   private readonly store = new Map<string, VectorData>();
+  private readonly snapshots = new Map<string, MemorySnapshot>();
+  /** Documents as JSON text, by collection then key */
+  private readonly documents = new Map<string, Map<string, string>>();
   private readonly cloneOnRead: boolean;
   private readonly cloneOnWrite: boolean;
 
@@ -50,7 +74,7 @@ export class MemoryStorageAdapter implements StorageAdapter {
   }
 
   private clone(vector: VectorData): VectorData {
-    return structuredClone(vector);
+    return structuredClone({ ...vector, vector: detachVector(vector.vector) });
   }
 
   /**
@@ -70,12 +94,20 @@ export class MemoryStorageAdapter implements StorageAdapter {
 
   async destroy(): Promise<void> {
     this.store.clear();
+    this.snapshots.clear();
+    this.documents.clear();
   }
 
   // Single-item CRUD
 
-  async put(vector: VectorData): Promise<void> {
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
+    const version = nextVersion(
+      vector.id,
+      storedVersion(this.store.get(vector.id)),
+      condition,
+    );
     const stored = this.cloneOnWrite ? this.clone(vector) : vector;
+    stored.version = version;
 
     if (!stored.timestamp) {
       stored.timestamp = Date.now();
@@ -220,6 +252,7 @@ export class MemoryStorageAdapter implements StorageAdapter {
       for (let i = start; i < end; i++) {
         const vector = vectors[i]!;
         const stored = this.cloneOnWrite ? this.clone(vector) : vector;
+        stored.version = nextVersion(stored.id, storedVersion(this.store.get(stored.id)));
 
         if (!stored.timestamp) {
           stored.timestamp = Date.now();
@@ -248,7 +281,11 @@ export class MemoryStorageAdapter implements StorageAdapter {
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
     const entry = this.store.get(id);
 
@@ -256,6 +293,7 @@ export class MemoryStorageAdapter implements StorageAdapter {
       throw new VectorNotFoundError(id);
     }
 
+    entry.version = nextVersion(id, storedVersion(entry), options);
     entry.vector = this.cloneOnWrite ? vector.slice() : vector;
 
     if (options?.updateMagnitude !== false) {
@@ -270,7 +308,7 @@ export class MemoryStorageAdapter implements StorageAdapter {
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
     const entry = this.store.get(id);
 
@@ -278,6 +316,8 @@ export class MemoryStorageAdapter implements StorageAdapter {
       throw new VectorNotFoundError(id);
     }
 
+    const version = nextVersion(id, storedVersion(entry), options);
+
     const incomingMetadata = this.cloneOnWrite ? structuredClone(metadata) : metadata;
 
     if (options?.merge !== false && entry.metadata) {
@@ -285,6 +325,7 @@ export class MemoryStorageAdapter implements StorageAdapter {
     } else {
       entry.metadata = incomingMetadata;
     }
+    entry.version = version;
 
     if (options?.updateTimestamp !== false) {
       entry.timestamp = Date.now();
@@ -329,6 +370,7 @@ export class MemoryStorageAdapter implements StorageAdapter {
             : incomingMetadata;
         }
 
+        entry.version = nextVersion(update.id, storedVersion(entry));
         entry.timestamp = Date.now();
         succeeded++;
       } catch (error) {
@@ -342,4 +384,87 @@ export class MemoryStorageAdapter implements StorageAdapter {
 
     return { succeeded, failed, errors };
   }
+
+  // Snapshots
+
+  /**
+   * Snapshots are deep copies: `get()` updates access statistics on stored
+   * entries in place, so sharing them would let later reads leak in.
+   */
+  async createSnapshot(label: string, attachment: Uint8Array): Promise<SnapshotInfo> {
+    if (this.snapshots.has(label)) {
+      throw new SnapshotExistsError(label);
+    }
+
+    const vectors = Array.from(this.store.values(), (entry) => this.clone(entry));
+    const info: SnapshotInfo = {
+      label,
+      createdAt: Date.now(),
+      vectorCount: vectors.length,
+    };
+    this.snapshots.set(label, { info, vectors, attachment: attachment.slice() });
+    return { ...info };
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return Array.from(this.snapshots.values(), ({ info }) => ({ ...info }));
+  }
+
+  async restoreSnapshot(
+    label: string,
+    check?: (attachment: Uint8Array) => void,
+  ): Promise<Uint8Array> {
+    const snapshot = this.snapshots.get(label);
+    if (!snapshot) {
+      throw new SnapshotNotFoundError(label);
+    }
+    check?.(snapshot.attachment);
+
+    this.store.clear();
+    for (const vector of snapshot.vectors) {
+      this.store.set(vector.id, this.clone(vector));
+    }
+    return snapshot.attachment.slice();
+  }
+
+  async deleteSnapshot(label: string): Promise<boolean> {
+    return this.snapshots.delete(label);
+  }
+
+  // Documents
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    const text = this.documents.get(collection)?.get(key);
+    return text === undefined ? null : decodeDocument<T>(text);
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    const text = encodeDocument(document);
+    let documents = this.documents.get(collection);
+    if (!documents) {
+      documents = new Map();
+      this.documents.set(collection, documents);
+    }
+    documents.set(key, text);
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+    return this.documents.get(collection)?.delete(key) ?? false;
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    const documents = this.documents.get(collection) ?? new Map<string, string>();
+    return sortDocuments(
+      Array.from(documents, ([key, text]) => ({
+        key,
+        document: decodeDocument<T>(text),
+      })),
+    );
+  }
 }
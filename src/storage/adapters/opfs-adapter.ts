@@ -5,12 +5,29 @@ import type {
   ScanCapabilities,
   ScanOptions,
   StorageAdapter,
+  StorageEstimate,
+  StoredDocument,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
+import { log } from '@/utilities/logger.js';
 import {
   OPFS_ADAPTER_CAPABILITIES,
   type AdapterCapabilities,
 } from './adapter-capabilities.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  sortDocuments,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from './documents.js';
+import {
+  type FileSystemDirectoryHandle,
+  isNotFoundError,
+  type SegmentEntry,
+  SegmentStore,
+} from './opfs-segments.js';
 import {
   type SerializedVectorData,
   binaryToVectorData,
@@ -19,6 +36,7 @@ import {
   vectorDataToBinary,
   vectorDataToSerializable,
 } from './serialization.js';
+import { nextVersion, storedVersion, WriteQueue } from './versioning.js';
 
 // ---------------------------------------------------------------------------
 // EXPERIMENTAL CLASSIFICATION
@@ -29,86 +47,56 @@ import {
 // Known limitations:
 //
 //   1. No cross-instance locking — two OPFSStorageAdapter instances targeting
-//      the same directory can corrupt each other's data via concurrent writes.
-//      The Origin Private File System does not yet provide advisory file locks
-//      in the standard File System Access API.
+//      the same directory can corrupt each other's data via concurrent writes,
+//      and each keeps its own in-memory index of the segments, so neither
+//      sees the other's writes until it is reopened.  In a worker the first
+//      instance holds sync access handles on the segment files, which makes
+//      a second instance fall back to the async API.
 //
 //   2. No quota pre-flight — write operations may fail mid-stream if the
 //      origin's storage quota is exhausted.  The adapter does not check
-//      navigator.storage.estimate() before writing and does not guarantee
-//      atomicity when a write is interrupted.
+//      navigator.storage.estimate() before writing; a failed append is
+//      truncated away the next time the store is opened.
 //
-//   3. Corrupt file recovery is limited to discarding the affected record.
-//      Partial binary writes are detected and the entry is treated as missing,
-//      but no repair or rebuild path exists beyond re-inserting the vector.
+//   3. A record whose bytes no longer decode is reported as
+//      CorruptVectorFileError by get() and skipped by getAll().  There is no
+//      repair path beyond re-inserting the vector.
 //
 //   4. OPFS availability is browser-dependent.  init() throws BrowserSupportError
 //      when navigator.storage.getDirectory is absent.
 //
-// These limitations must be resolved (or the adapter promoted to a dedicated
-// locked-IO implementation) before OPFS storage can be considered production
-// ready.
+// These limitations must be resolved before OPFS storage can be considered
+// production ready.
 // ---------------------------------------------------------------------------
 
-// OPFS types declared inline since they may not be in the TypeScript lib.
-
-interface FileSystemDirectoryHandle {
-  getDirectoryHandle(
-    name: string,
-    options?: { create?: boolean },
-  ): Promise<FileSystemDirectoryHandle>;
-  getFileHandle(
-    name: string,
-    options?: { create?: boolean },
-  ): Promise<FileSystemFileHandle>;
-  removeEntry(name: string, options?: { recursive?: boolean }): Promise<void>;
-  values(): AsyncIterableIterator<FileSystemHandle>;
-}
-
-interface FileSystemFileHandle {
-  /** The filename (leaf name without directory path). */
-  name: string;
-  getFile(): Promise<File>;
-  createWritable(): Promise<FileSystemWritableFileStream>;
-}
-
-interface FileSystemWritableFileStream extends WritableStream {
-  write(data: BufferSource | Blob | string): Promise<void>;
-  close(): Promise<void>;
-}
-
-interface FileSystemHandle {
-  kind: 'file' | 'directory';
-  name: string;
-}
-
 // Configuration
 
 interface OPFSStorageAdapterOptions {
   directory: string;
   format?: 'binary' | 'json';
+  /** Size in bytes at which a segment file is sealed (default 8 MiB) */
+  segmentBytes?: number;
+  /** Fraction of a sealed segment that must be dead before it is compacted (default 0.5) */
+  compactionThreshold?: number;
 }
 
-// ID sanitization: percent-encode filesystem-unsafe characters.
-
-// eslint-disable-next-line no-control-regex -- Control characters are intentionally matched for filesystem safety.
-const UNSAFE_FILENAME_PATTERN = /[<>:"/\\|?*\x00-\x1F%]/g;
-
-function sanitizeId(id: string): string {
-  return id.replace(UNSAFE_FILENAME_PATTERN, (character) => {
-    return '%' + character.charCodeAt(0).toString(16).padStart(2, '0');
-  });
-}
-
-function idToFilename(id: string): string {
-  return sanitizeId(id) + '.vec';
-}
+const DEFAULT_SEGMENT_BYTES = 8 * 1024 * 1024;
+const DEFAULT_COMPACTION_THRESHOLD = 0.5;
 
-// Magnitude calculation is imported from shared serialization utilities.
+/** Vectors per frame when importing the one-file-per-vector layout */
+const MIGRATION_CHUNK = 1000;
 
 /**
  * Storage adapter backed by the browser's Origin Private File System (OPFS).
  *
+ * Vectors are appended to fixed-size segment files under `segments/`, with
+ * an id → offset index kept in memory and saved beside them. Sealed segments
+ * that are mostly overwritten or deleted records are compacted in the
+ * background. Inside a dedicated worker the segments are accessed through
+ * `FileSystemSyncAccessHandle`. Elsewhere appends are buffered, and writes
+ * queued together are flushed in one writable session before they resolve,
+ * since each session copies the whole segment.
+ *
  * @experimental — See the limitation notes at the top of this file.  Do not
  * use in production without understanding the cross-instance locking and quota
  * constraints described there.
@@ -119,151 +107,162 @@ export class OPFSStorageAdapter implements StorageAdapter {
 
   private readonly directory: string;
   private readonly format: 'binary' | 'json';
-  private rootHandle: FileSystemDirectoryHandle | undefined;
-  private vectorsHandle: FileSystemDirectoryHandle | undefined;
+  private readonly segmentBytes: number;
+  private readonly compactionThreshold: number;
+  private segments: SegmentStore | undefined;
+  private compaction: Promise<void> | undefined;
+  /** Flush of the segment appends, queued behind the writes waiting for it */
+  private commit: Promise<void> | undefined;
+  private readonly writes = new WriteQueue();
 
   constructor(options: OPFSStorageAdapterOptions) {
     this.directory = options.directory;
     this.format = options.format ?? 'json';
+    this.segmentBytes = options.segmentBytes ?? DEFAULT_SEGMENT_BYTES;
+    this.compactionThreshold =
+      options.compactionThreshold ?? DEFAULT_COMPACTION_THRESHOLD;
   }
 
   // Lifecycle
 
+  /**
+   * Opens the segments, replaying writes made after the index was last saved.
+   * A directory in the one-file-per-vector layout of earlier releases is
+   * converted to segments.
+   */
   async init(): Promise<void> {
+    if (this.segments) {
+      return;
+    }
     if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) {
       throw new BrowserSupportError('Origin Private File System');
     }
 
     const opfsRoot =
       (await navigator.storage.getDirectory()) as unknown as FileSystemDirectoryHandle;
-    this.rootHandle = await opfsRoot.getDirectoryHandle(this.directory, { create: true });
-    this.vectorsHandle = await this.rootHandle.getDirectoryHandle('vectors', {
+    const root = await opfsRoot.getDirectoryHandle(this.directory, { create: true });
+    const segmentsHandle = await root.getDirectoryHandle('segments', {
       create: true,
     });
+    const segments = await SegmentStore.open(segmentsHandle, {
+      segmentBytes: this.segmentBytes,
+      compactionThreshold: this.compactionThreshold,
+      source: this.directory,
+    });
+    await this.migrateVectorFiles(root, segments);
+    this.segments = segments;
   }
 
+  /** Waits for a running compaction, then saves the index and releases the files. */
   async close(): Promise<void> {
-    // No-op: OPFS does not require explicit cleanup.
+    const segments = this.segments;
+    if (!segments) {
+      return;
+    }
+    await this.compaction;
+    await this.writes.run(() => segments.close());
+    this.segments = undefined;
   }
 
   async destroy(): Promise<void> {
+    const segments = this.segments;
+    if (segments) {
+      await this.compaction;
+      await this.writes.run(() => segments.release());
+    }
     const opfsRoot =
       (await navigator.storage.getDirectory()) as unknown as FileSystemDirectoryHandle;
     await opfsRoot.removeEntry(this.directory, { recursive: true });
-    this.rootHandle = undefined;
-    this.vectorsHandle = undefined;
+    this.segments = undefined;
   }
 
   // Single-item CRUD
 
-  async put(vector: VectorData): Promise<void> {
-    const directory = this.requireVectorsHandle();
-    const filename = idToFilename(vector.id);
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
+    const segments = this.requireSegments();
 
-    const stored: VectorData = {
-      ...vector,
-      timestamp: vector.timestamp || Date.now(),
-      lastAccessed: Date.now(),
-    };
+    await this.write(async () => {
+      const existing = await this.readStored(segments, vector.id);
+      const stored: VectorData = {
+        ...vector,
+        timestamp: vector.timestamp || Date.now(),
+        lastAccessed: Date.now(),
+        version: nextVersion(vector.id, storedVersion(existing), condition),
+      };
 
-    await this.writeVectorFile(directory, filename, stored);
+      await this.writeRecords(segments, [stored]);
+    });
   }
 
   async get(id: string): Promise<VectorData> {
-    const directory = this.requireVectorsHandle();
-    const filename = idToFilename(id);
+    const segments = this.requireSegments();
 
-    let fileHandle: FileSystemFileHandle;
-    try {
-      fileHandle = await directory.getFileHandle(filename);
-    } catch (error: unknown) {
-      if (isNotFoundError(error)) {
+    // Access tracking writes the record back, so it queues behind writes
+    return this.writes.run(async () => {
+      const data = await this.readStored(segments, id);
+      if (!data) {
         throw new VectorNotFoundError(id);
       }
-      throw error;
-    }
-
-    const data = await this.readVectorFromHandle(fileHandle);
 
-    // Update access tracking
-    data.lastAccessed = Date.now();
-    data.accessCount = (data.accessCount ?? 0) + 1;
-    await this.writeVectorFile(directory, filename, data);
+      data.lastAccessed = Date.now();
+      data.accessCount = (data.accessCount ?? 0) + 1;
+      await this.writeRecords(segments, [data]);
 
-    return data;
+      return data;
+    });
   }
 
   async exists(id: string): Promise<boolean> {
-    const directory = this.requireVectorsHandle();
-    const filename = idToFilename(id);
-
-    try {
-      await directory.getFileHandle(filename);
-      return true;
-    } catch (error: unknown) {
-      if (isNotFoundError(error)) {
-        return false;
-      }
-      throw error;
-    }
+    return this.requireSegments().has(id);
   }
 
   async delete(id: string): Promise<void> {
-    const directory = this.requireVectorsHandle();
-    const filename = idToFilename(id);
+    const segments = this.requireSegments();
 
-    try {
-      await directory.removeEntry(filename);
-    } catch (error: unknown) {
-      if (!isNotFoundError(error)) {
-        throw error;
+    await this.write(async () => {
+      // Deleting a missing id is a no-op (idempotent delete)
+      if (segments.has(id)) {
+        await this.writeEntries(segments, [{ id }]);
       }
-      // Silently ignore if not found (idempotent delete)
-    }
+    });
   }
 
   // Multi-item reads
 
   async getMany(ids: string[]): Promise<VectorData[]> {
-    const directory = this.requireVectorsHandle();
-    const results: VectorData[] = [];
+    const segments = this.requireSegments();
     const now = Date.now();
 
-    for (const id of ids) {
-      const filename = idToFilename(id);
-      try {
-        const fileHandle = await directory.getFileHandle(filename);
-        const data = await this.readVectorFromHandle(fileHandle);
-
-        data.lastAccessed = now;
-        data.accessCount = (data.accessCount ?? 0) + 1;
-        await this.writeVectorFile(directory, filename, data);
-
-        results.push(data);
-      } catch (error: unknown) {
-        // Silently skip missing entries — the StorageAdapter contract returns
+    return this.writes.run(async () => {
+      const results: VectorData[] = [];
+      for (const id of ids) {
+        // Missing entries are skipped — the StorageAdapter contract returns
         // the found subset rather than throwing for partial misses.
-        if (!isNotFoundError(error)) {
-          throw error;
+        const data = await this.readStored(segments, id);
+        if (data) {
+          data.lastAccessed = now;
+          data.accessCount = (data.accessCount ?? 0) + 1;
+          results.push(data);
         }
       }
-    }
-
-    return results;
+      await this.writeRecords(segments, results);
+      return results;
+    });
   }
 
   async getAll(): Promise<VectorData[]> {
-    const directory = this.requireVectorsHandle();
-    const results: VectorData[] = [];
+    const segments = this.requireSegments();
 
-    for await (const entry of directory.values()) {
-      if (entry.kind === 'file' && entry.name.endsWith('.vec')) {
-        const fileHandle = await directory.getFileHandle(entry.name);
+    return this.writes.run(async () => {
+      const results: VectorData[] = [];
+      for (const id of segments.ids()) {
         try {
-          const data = await this.readVectorFromHandle(fileHandle);
-          results.push(data);
+          const data = await this.readStored(segments, id);
+          if (data) {
+            results.push(data);
+          }
         } catch (error: unknown) {
-          // Skip corrupt files rather than aborting the entire getAll().
+          // Skip corrupt records rather than aborting the entire getAll().
           // Callers that need to detect corruption should use get() on
           // individual IDs — getAll() returns the recoverable subset.
           if (!(error instanceof CorruptVectorFileError)) {
@@ -271,88 +270,97 @@ export class OPFSStorageAdapter implements StorageAdapter {
           }
         }
       }
-    }
-
-    return results;
+      return results;
+    });
   }
 
   async count(): Promise<number> {
-    const directory = this.requireVectorsHandle();
-    let total = 0;
-
-    for await (const entry of directory.values()) {
-      if (entry.kind === 'file' && entry.name.endsWith('.vec')) {
-        total++;
-      }
-    }
-
-    return total;
+    return this.requireSegments().size;
   }
 
   /**
-   * Stream all vectors by reading each OPFS file individually.
+   * Stream all vectors in the order they sit in the segment files.
    *
-   * The OPFS directory iterator yields file handles lazily; only one file's
-   * binary contents are deserialized at a time.
+   * Only the id index is held in memory; each record is read from its
+   * segment as the iterator reaches it.
    */
   async *scan(options?: ScanOptions): AsyncIterable<VectorData> {
-    const directory = this.requireVectorsHandle();
+    const segments = this.requireSegments();
 
-    for await (const entry of directory.values()) {
+    for (const id of segments.ids()) {
       if (options?.signal?.aborted) return;
-      if (entry.kind !== 'file' || !entry.name.endsWith('.vec')) continue;
-      const fileHandle = await directory.getFileHandle(entry.name);
-      const data = await this.readVectorFromHandle(fileHandle);
-      yield data;
+      // Compaction may move records, so each read queues behind writes
+      const data = await this.writes.run(() => this.readStored(segments, id));
+      if (data) {
+        yield data;
+      }
     }
   }
 
   /**
-   * OPFS yields file handles lazily via the directory iterator; only one
-   * file is read at a time, so scanning is memory-bounded.
+   * Records are read one at a time from the segment files, so scanning is
+   * memory-bounded.
    */
   getScanCapabilities(): ScanCapabilities {
     return { nativeStreaming: true };
   }
 
-  // Multi-item writes
+  /**
+   * Bytes used by this adapter's segment files against the origin quota
+   * reported by `navigator.storage.estimate()`.
+   */
+  async estimateStorage(): Promise<StorageEstimate> {
+    const segments = this.requireSegments();
+    const usage = await this.writes.run(() => segments.usage());
+    const estimate = await navigator.storage.estimate();
+    const quota = estimate.quota ?? 0;
+
+    return {
+      usage,
+      quota,
+      percentage: quota > 0 ? (usage / quota) * 100 : 0,
+      databases: [{ name: this.directory, size: usage }],
+    };
+  }
 
-  async deleteMany(ids: string[]): Promise<number> {
-    const directory = this.requireVectorsHandle();
-    let deleted = 0;
+  /**
+   * Compact every sealed segment past the compaction threshold now rather
+   * than in the background.
+   *
+   * @returns Bytes reclaimed
+   */
+  async compact(): Promise<number> {
+    const segments = this.requireSegments();
+    await this.compaction;
+    return this.writes.run(() => segments.compact());
+  }
 
-    for (const id of ids) {
-      const filename = idToFilename(id);
-      try {
-        await directory.removeEntry(filename);
-        deleted++;
-      } catch (error: unknown) {
-        if (!isNotFoundError(error)) {
-          throw error;
-        }
-      }
-    }
+  // Multi-item writes
 
-    return deleted;
+  async deleteMany(ids: string[]): Promise<number> {
+    const segments = this.requireSegments();
+
+    return this.write(async () => {
+      const present = [...new Set(ids)].filter((id) => segments.has(id));
+      await this.writeEntries(
+        segments,
+        present.map((id) => ({ id })),
+      );
+      return present.length;
+    });
   }
 
   async clear(): Promise<void> {
-    const directory = this.requireVectorsHandle();
-    const filenames: string[] = [];
-
-    for await (const entry of directory.values()) {
-      if (entry.kind === 'file' && entry.name.endsWith('.vec')) {
-        filenames.push(entry.name);
-      }
-    }
-
-    for (const filename of filenames) {
-      await directory.removeEntry(filename);
-    }
+    const segments = this.requireSegments();
+    await this.writes.run(() => segments.clear());
   }
 
+  /**
+   * Each chunk of `batchSize` vectors is appended as one checksummed frame,
+   * so a crash leaves a chunk either fully stored or not at all.
+   */
   async putBatch(vectors: VectorData[], options?: BatchOptions): Promise<void> {
-    const directory = this.requireVectorsHandle();
+    const segments = this.requireSegments();
     const batchSize = options?.batchSize ?? vectors.length;
     const totalBatches = Math.ceil(vectors.length / batchSize);
 
@@ -364,22 +372,26 @@ export class OPFSStorageAdapter implements StorageAdapter {
       const start = batchIndex * batchSize;
       const end = Math.min(start + batchSize, vectors.length);
 
-      for (let i = start; i < end; i++) {
-        if (options?.abortSignal?.aborted) {
-          throw new DOMException('The operation was aborted.', 'AbortError');
+      await this.write(async () => {
+        const records: VectorData[] = [];
+        const versions = new Map<string, number>();
+        for (let i = start; i < end; i++) {
+          const vector = vectors[i]!;
+          const current =
+            versions.get(vector.id) ??
+            storedVersion(await this.readStored(segments, vector.id));
+          const stored: VectorData = {
+            ...vector,
+            timestamp: vector.timestamp || Date.now(),
+            lastAccessed: Date.now(),
+            version: nextVersion(vector.id, current),
+          };
+          versions.set(stored.id, stored.version!);
+          records.push(stored);
         }
 
-        const vector = vectors[i]!;
-        const filename = idToFilename(vector.id);
-
-        const stored: VectorData = {
-          ...vector,
-          timestamp: vector.timestamp || Date.now(),
-          lastAccessed: Date.now(),
-        };
-
-        await this.writeVectorFile(directory, filename, stored);
-      }
+        await this.writeRecords(segments, records);
+      });
 
       if (options?.onProgress) {
         const progress: BatchProgress = {
@@ -400,67 +412,62 @@ export class OPFSStorageAdapter implements StorageAdapter {
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
-    const directory = this.requireVectorsHandle();
-    const filename = idToFilename(id);
+    const segments = this.requireSegments();
 
-    let fileHandle: FileSystemFileHandle;
-    try {
-      fileHandle = await directory.getFileHandle(filename);
-    } catch (error: unknown) {
-      if (isNotFoundError(error)) {
+    await this.write(async () => {
+      const data = await this.readStored(segments, id);
+      if (!data) {
         throw new VectorNotFoundError(id);
       }
-      throw error;
-    }
 
-    const data = await this.readVectorFromHandle(fileHandle);
+      data.version = nextVersion(id, storedVersion(data), options);
+      data.vector = vector;
 
-    data.vector = vector;
-
-    if (options?.updateMagnitude !== false) {
-      data.magnitude = calculateMagnitude(vector);
-    }
+      if (options?.updateMagnitude !== false) {
+        data.magnitude = calculateMagnitude(vector);
+      }
 
-    if (options?.updateTimestamp !== false) {
-      data.timestamp = Date.now();
-    }
+      if (options?.updateTimestamp !== false) {
+        data.timestamp = Date.now();
+      }
 
-    await this.writeVectorFile(directory, filename, data);
+      await this.writeRecords(segments, [data]);
+    });
   }
 
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
-    const directory = this.requireVectorsHandle();
-    const filename = idToFilename(id);
+    const segments = this.requireSegments();
 
-    let fileHandle: FileSystemFileHandle;
-    try {
-      fileHandle = await directory.getFileHandle(filename);
-    } catch (error: unknown) {
-      if (isNotFoundError(error)) {
+    await this.write(async () => {
+      const data = await this.readStored(segments, id);
+      if (!data) {
         throw new VectorNotFoundError(id);
       }
-      throw error;
-    }
 
-    const data = await this.readVectorFromHandle(fileHandle);
+      data.version = nextVersion(id, storedVersion(data), options);
 
-    if (options?.merge !== false && data.metadata) {
-      data.metadata = { ...data.metadata, ...metadata };
-    } else {
-      data.metadata = metadata;
-    }
+      if (options?.merge !== false && data.metadata) {
+        data.metadata = { ...data.metadata, ...metadata };
+      } else {
+        data.metadata = metadata;
+      }
 
-    if (options?.updateTimestamp !== false) {
-      data.timestamp = Date.now();
-    }
+      if (options?.updateTimestamp !== false) {
+        data.timestamp = Date.now();
+      }
 
-    await this.writeVectorFile(directory, filename, data);
+      await this.writeRecords(segments, [data]);
+    });
   }
 
   async updateBatch(
@@ -475,7 +482,7 @@ export class OPFSStorageAdapter implements StorageAdapter {
     failed: number;
     errors: Array<{ id: string; error: Error }>;
   }> {
-    const directory = this.requireVectorsHandle();
+    const segments = this.requireSegments();
     let succeeded = 0;
     let failed = 0;
     const errors: Array<{ id: string; error: Error }> = [];
@@ -494,34 +501,28 @@ export class OPFSStorageAdapter implements StorageAdapter {
         const update = updates[i]!;
 
         try {
-          const filename = idToFilename(update.id);
-          let fileHandle: FileSystemFileHandle;
-
-          try {
-            fileHandle = await directory.getFileHandle(filename);
-          } catch (error: unknown) {
-            if (isNotFoundError(error)) {
+          await this.write(async () => {
+            const data = await this.readStored(segments, update.id);
+            if (!data) {
               throw new VectorNotFoundError(update.id);
             }
-            throw error;
-          }
 
-          const data = await this.readVectorFromHandle(fileHandle);
-
-          if (update.vector) {
-            data.vector = update.vector;
-            data.magnitude = calculateMagnitude(update.vector);
-          }
+            if (update.vector) {
+              data.vector = update.vector;
+              data.magnitude = calculateMagnitude(update.vector);
+            }
 
-          if (update.metadata) {
-            data.metadata = data.metadata
-              ? { ...data.metadata, ...update.metadata }
-              : update.metadata;
-          }
+            if (update.metadata) {
+              data.metadata = data.metadata
+                ? { ...data.metadata, ...update.metadata }
+                : update.metadata;
+            }
 
-          data.timestamp = Date.now();
+            data.timestamp = Date.now();
+            data.version = nextVersion(update.id, storedVersion(data));
 
-          await this.writeVectorFile(directory, filename, data);
+            await this.writeRecords(segments, [data]);
+          });
           succeeded++;
         } catch (error) {
           failed++;
@@ -548,99 +549,297 @@ export class OPFSStorageAdapter implements StorageAdapter {
     return { succeeded, failed, errors };
   }
 
+  // Documents
+  //
+  // Each document is a file at `documents/<collection>/<key>.json`, with the
+  // key percent-encoded. Writable streams swap their contents in on close,
+  // so a document is never seen half written.
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    const directory = await this.documentsDirectory(collection, false);
+    if (!directory) {
+      return null;
+    }
+    try {
+      const handle = await directory.getFileHandle(`${encodeURIComponent(key)}.json`);
+      const file = await handle.getFile();
+      const text = await file.text();
+      return decodeDocument<T>(text);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    const text = encodeDocument(document);
+
+    await this.writes.run(async () => {
+      const directory = await this.documentsDirectory(collection, true);
+      const handle = await directory!.getFileHandle(`${encodeURIComponent(key)}.json`, {
+        create: true,
+      });
+      const writable = await handle.createWritable();
+      await writable.write(text);
+      await writable.close();
+    });
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+
+    return this.writes.run(async () => {
+      const directory = await this.documentsDirectory(collection, false);
+      if (!directory) {
+        return false;
+      }
+      try {
+        await directory.removeEntry(`${encodeURIComponent(key)}.json`);
+        return true;
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          return false;
+        }
+        throw error;
+      }
+    });
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    const directory = await this.documentsDirectory(collection, false);
+    if (!directory) {
+      return [];
+    }
+
+    const documents: Array<StoredDocument<T>> = [];
+    for await (const entry of directory.values()) {
+      if (entry.kind !== 'file' || !entry.name.endsWith('.json')) continue;
+      const handle = await directory.getFileHandle(entry.name);
+      const file = await handle.getFile();
+      const text = await file.text();
+      documents.push({
+        key: decodeURIComponent(entry.name.slice(0, -'.json'.length)),
+        document: decodeDocument<T>(text),
+      });
+    }
+    return sortDocuments(documents);
+  }
+
   // Private helpers
 
-  private requireVectorsHandle(): FileSystemDirectoryHandle {
-    if (!this.vectorsHandle) {
+  private requireSegments(): SegmentStore {
+    if (!this.segments) {
       throw new Error('OPFSStorageAdapter has not been initialized. Call init() first.');
     }
-    return this.vectorsHandle;
+    return this.segments;
   }
 
-  private async writeVectorFile(
-    directory: FileSystemDirectoryHandle,
-    filename: string,
-    data: VectorData,
-  ): Promise<void> {
-    const fileHandle = await directory.getFileHandle(filename, { create: true });
-    const writable = await fileHandle.createWritable();
-
+  /** The directory of `collection`, or `undefined` when it does not exist yet. */
+  private async documentsDirectory(
+    collection: string,
+    create: boolean,
+  ): Promise<FileSystemDirectoryHandle | undefined> {
+    this.requireSegments();
+    const opfsRoot =
+      (await navigator.storage.getDirectory()) as unknown as FileSystemDirectoryHandle;
     try {
-      if (this.format === 'binary') {
-        const buffer = vectorDataToBinary(data);
-        await writable.write(buffer);
-      } else {
-        const serialized = vectorDataToSerializable(data);
-        await writable.write(JSON.stringify(serialized));
+      const root = await opfsRoot.getDirectoryHandle(this.directory);
+      const documents = await root.getDirectoryHandle('documents', { create });
+      return await documents.getDirectoryHandle(collection, { create });
+    } catch (error) {
+      if (!create && isNotFoundError(error)) {
+        return undefined;
       }
-    } finally {
-      await writable.close();
+      throw error;
     }
   }
 
-  private async readVectorFromHandle(
-    fileHandle: FileSystemFileHandle,
-  ): Promise<VectorData> {
-    const file = await fileHandle.getFile();
+  /** Read a stored vector, or `undefined` when there is no record for it. */
+  private async readStored(
+    segments: SegmentStore,
+    id: string,
+  ): Promise<VectorData | undefined> {
+    const stored = await segments.read(id);
+    return stored ? this.decodeRecord(stored.bytes, stored.filename) : undefined;
+  }
+
+  private async writeRecords(
+    segments: SegmentStore,
+    records: VectorData[],
+  ): Promise<void> {
+    await this.writeEntries(
+      segments,
+      records.map((record) => ({ id: record.id, record: this.encodeRecord(record) })),
+    );
+  }
+
+  /**
+   * Run the write `step` in the queue and resolve once the frames it
+   * appended are flushed. Writes queued before the flush starts share it.
+   */
+  private async write<T>(step: () => Promise<T>): Promise<T> {
+    let flushed: Promise<void> | undefined;
+    const result = await this.writes.run(async () => {
+      const value = await step();
+      flushed = this.commit;
+      return value;
+    });
+    await flushed;
+    return result;
+  }
 
+  /**
+   * Append `entries` as one frame, queue a flush of the appends unless one
+   * is waiting, and start a compaction if one is due.
+   */
+  private async writeEntries(
+    segments: SegmentStore,
+    entries: SegmentEntry[],
+  ): Promise<void> {
+    await segments.write(entries);
+
+    if (!this.commit) {
+      const commit = this.writes.run(() => {
+        this.commit = undefined;
+        return segments.flush();
+      });
+      // Reads that track access do not wait for the flush
+      commit.catch((error: unknown) => {
+        log.warn('OPFS segment flush failed', {
+          directory: this.directory,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+      this.commit = commit;
+    }
+
+    if (!this.compaction && segments.needsCompaction()) {
+      // Queued behind the current write; close() waits for it
+      this.compaction = this.writes
+        .run(() => segments.compact())
+        .then(
+          () => undefined,
+          (error: unknown) => {
+            log.warn('OPFS segment compaction failed', {
+              directory: this.directory,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          },
+        )
+        .finally(() => {
+          this.compaction = undefined;
+        });
+    }
+  }
+
+  private encodeRecord(data: VectorData): Uint8Array {
     if (this.format === 'binary') {
-      const buffer = await file.arrayBuffer();
-      // Detect truncated/corrupt binary files: a valid record has at least a
+      return new Uint8Array(vectorDataToBinary(data));
+    }
+    return new TextEncoder().encode(JSON.stringify(vectorDataToSerializable(data)));
+  }
+
+  private decodeRecord(bytes: Uint8Array, filename: string): VectorData {
+    if (this.format === 'binary') {
+      // Detect truncated/corrupt records: a valid record has at least a
       // non-zero byte count.  binaryToVectorData will throw for malformed data.
-      if (buffer.byteLength === 0) {
-        throw new CorruptVectorFileError(fileHandle.name);
+      if (bytes.byteLength === 0) {
+        throw new CorruptVectorFileError(filename);
       }
       try {
+        const buffer = bytes.buffer.slice(
+          bytes.byteOffset,
+          bytes.byteOffset + bytes.byteLength,
+        ) as ArrayBuffer;
         return binaryToVectorData(buffer);
       } catch {
-        throw new CorruptVectorFileError(fileHandle.name);
+        throw new CorruptVectorFileError(filename);
       }
-    } else {
-      const text = await file.text();
-      if (!text.trim()) {
-        throw new CorruptVectorFileError(fileHandle.name);
+    }
+
+    const text = new TextDecoder().decode(bytes);
+    if (!text.trim()) {
+      throw new CorruptVectorFileError(filename);
+    }
+    let serialized: SerializedVectorData;
+    try {
+      serialized = JSON.parse(text) as SerializedVectorData;
+    } catch {
+      throw new CorruptVectorFileError(filename);
+    }
+    if (
+      typeof serialized.id !== 'string' ||
+      !Array.isArray(serialized.vector) ||
+      typeof serialized.magnitude !== 'number' ||
+      typeof serialized.timestamp !== 'number'
+    ) {
+      throw new CorruptVectorFileError(filename);
+    }
+    return serializableToVectorData(serialized);
+  }
+
+  /**
+   * Move the `<id>.vec` files of the one-file-per-vector layout into
+   * segments. The files are deleted only once every record is flushed, so
+   * an interrupted migration starts over on the next init().
+   */
+  private async migrateVectorFiles(
+    root: FileSystemDirectoryHandle,
+    segments: SegmentStore,
+  ): Promise<void> {
+    let vectorsHandle: FileSystemDirectoryHandle;
+    try {
+      vectorsHandle = await root.getDirectoryHandle('vectors');
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return;
       }
-      let serialized: SerializedVectorData;
+      throw error;
+    }
+
+    let entries: SegmentEntry[] = [];
+    for await (const entry of vectorsHandle.values()) {
+      if (entry.kind !== 'file' || !entry.name.endsWith('.vec')) continue;
+      const fileHandle = await vectorsHandle.getFileHandle(entry.name);
+      const file = await fileHandle.getFile();
+      const buffer = await file.arrayBuffer();
+      const record = new Uint8Array(buffer);
       try {
-        serialized = JSON.parse(text) as SerializedVectorData;
-      } catch {
-        throw new CorruptVectorFileError(fileHandle.name);
+        const { id } = this.decodeRecord(record, entry.name);
+        entries.push({ id, record });
+      } catch (error: unknown) {
+        // Corrupt files were unreadable before the migration too
+        if (!(error instanceof CorruptVectorFileError)) {
+          throw error;
+        }
       }
-      if (
-        typeof serialized.id !== 'string' ||
-        !Array.isArray(serialized.vector) ||
-        typeof serialized.magnitude !== 'number' ||
-        typeof serialized.timestamp !== 'number'
-      ) {
-        throw new CorruptVectorFileError(fileHandle.name);
+      if (entries.length === MIGRATION_CHUNK) {
+        await segments.write(entries);
+        entries = [];
       }
-      return serializableToVectorData(serialized);
     }
+    await segments.write(entries);
+    await segments.flush();
+    await root.removeEntry('vectors', { recursive: true });
   }
 }
 
-// Error detection helpers
-
-function isNotFoundError(error: unknown): boolean {
-  if (error instanceof DOMException && error.name === 'NotFoundError') {
-    return true;
-  }
-  // Some environments use TypeError for missing entries
-  if (error instanceof TypeError && /not found/i.test(error.message)) {
-    return true;
-  }
-  return false;
-}
-
 /**
- * Thrown when a vector file in OPFS cannot be parsed.
+ * Thrown when a vector record in OPFS cannot be parsed.
  *
  * Callers should treat the associated vector as missing and re-insert if
- * recovery is required.  The corrupt file is not automatically deleted so
- * that the caller can inspect or back up the raw bytes.
+ * recovery is required.  The corrupt bytes are not automatically removed so
+ * that the caller can inspect or back up the segment file.
  */
 export class CorruptVectorFileError extends Error {
-  /** The raw OPFS filename (not the original vector ID). */
+  /** The OPFS file holding the record (not the original vector ID). */
   public readonly filename: string;
 
   constructor(filename: string) {
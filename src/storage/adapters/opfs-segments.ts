@@ -0,0 +1,770 @@
+import { StorageFormatError } from '@/core/errors.js';
+import { observability } from '@/debug/observability.js';
+import { crc32 } from './serialization.js';
+
+// ---------------------------------------------------------------------------
+// Segment layout for the OPFS adapter
+//
+// Records are appended to numbered segment files (`000001.seg`, ...). A new
+// segment is started once the active one reaches `segmentBytes`. Every write
+// appends one frame:
+//
+//   Offset  Size  Field
+//   ------  ----  -----
+//   0       4     Payload length, uint32 little-endian
+//   4       4     CRC-32 of the payload
+//   8       n     Entries, back to back
+//
+// and every entry is:
+//
+//   0       1     1 = put, 2 = delete
+//   1       2     Id length in bytes, uint16 little-endian
+//   3       i     Id, UTF-8
+//   3+i     4     Record length (0 for a delete)
+//   7+i     r     Record bytes, as encoded by the adapter
+//
+// A frame is applied whole or not at all: a frame cut short by a crash fails
+// its length or checksum and is truncated away when the store is opened.
+// Without a sync access handle (outside dedicated workers) appends are
+// buffered and written by flush(), so one writable session, which copies the
+// whole segment, covers every frame buffered since the last one.
+//
+// `index.json` maps each id to the segment, offset and length of its latest
+// record. It is rewritten when a segment fills, after compaction, on clear()
+// and on close(); frames appended after it was written are replayed on open.
+// Compaction copies the live records of mostly-dead segments into the active
+// segment and deletes the old files.
+// ---------------------------------------------------------------------------
+
+// OPFS types declared inline since they may not be in the TypeScript lib.
+
+export interface FileSystemDirectoryHandle {
+  getDirectoryHandle(
+    name: string,
+    options?: { create?: boolean },
+  ): Promise<FileSystemDirectoryHandle>;
+  getFileHandle(
+    name: string,
+    options?: { create?: boolean },
+  ): Promise<FileSystemFileHandle>;
+  removeEntry(name: string, options?: { recursive?: boolean }): Promise<void>;
+  values(): AsyncIterableIterator<FileSystemHandle>;
+}
+
+export interface FileSystemFileHandle {
+  /** The filename (leaf name without directory path). */
+  name: string;
+  getFile(): Promise<File>;
+  createWritable(options?: {
+    keepExistingData?: boolean;
+  }): Promise<FileSystemWritableFileStream>;
+  /** Only available in dedicated workers. */
+  createSyncAccessHandle?(): Promise<FileSystemSyncAccessHandle>;
+}
+
+export interface FileSystemWritableFileStream extends WritableStream {
+  write(data: BufferSource | Blob | string): Promise<void>;
+  seek(position: number): Promise<void>;
+  truncate(size: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface FileSystemSyncAccessHandle {
+  read(buffer: Uint8Array, options: { at: number }): number;
+  write(buffer: Uint8Array, options: { at: number }): number;
+  getSize(): number;
+  truncate(size: number): void;
+  flush(): void;
+  close(): void;
+}
+
+export interface FileSystemHandle {
+  kind: 'file' | 'directory';
+  name: string;
+}
+
+export function isNotFoundError(error: unknown): boolean {
+  if (error instanceof DOMException && error.name === 'NotFoundError') {
+    return true;
+  }
+  // Some environments use TypeError for missing entries
+  if (error instanceof TypeError && /not found/i.test(error.message)) {
+    return true;
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Segment files
+// ---------------------------------------------------------------------------
+
+/** Random access to one segment file */
+interface SegmentFile {
+  /** Bytes in the file, including appends not yet flushed */
+  readonly size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+  append(bytes: Uint8Array): Promise<void>;
+  /** Write appends that are still buffered */
+  flush(): Promise<void>;
+  truncate(size: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** Reads and writes in place through a worker's sync access handle. */
+class SyncSegmentFile implements SegmentFile {
+  size: number;
+
+  constructor(private readonly access: FileSystemSyncAccessHandle) {
+    this.size = access.getSize();
+  }
+
+  read(offset: number, length: number): Promise<Uint8Array> {
+    const buffer = new Uint8Array(length);
+    const read = this.access.read(buffer, { at: offset });
+    return Promise.resolve(buffer.subarray(0, read));
+  }
+
+  append(bytes: Uint8Array): Promise<void> {
+    this.access.write(bytes, { at: this.size });
+    this.access.flush();
+    this.size += bytes.byteLength;
+    return Promise.resolve();
+  }
+
+  flush(): Promise<void> {
+    // Every append is flushed as it is written
+    return Promise.resolve();
+  }
+
+  truncate(size: number): Promise<void> {
+    this.access.truncate(size);
+    this.access.flush();
+    this.size = size;
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    this.access.close();
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Reads slices of the file and appends through writable streams. A writable
+ * swaps a whole new copy of the file in on close(), so appends are buffered
+ * in memory and flush() writes them all in one session; reads of buffered
+ * bytes are answered from the buffer.
+ */
+class AsyncSegmentFile implements SegmentFile {
+  /** Appends not yet written, in order, starting at `written` */
+  private buffered: Uint8Array[] = [];
+  private bufferedBytes = 0;
+
+  constructor(
+    private readonly handle: FileSystemFileHandle,
+    private written: number,
+  ) {}
+
+  get size(): number {
+    return this.written + this.bufferedBytes;
+  }
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    if (offset >= this.written) {
+      return this.readBuffered(offset - this.written, length);
+    }
+    const file = await this.handle.getFile();
+    const buffer = await file.slice(offset, offset + length).arrayBuffer();
+    return new Uint8Array(buffer);
+  }
+
+  append(bytes: Uint8Array): Promise<void> {
+    this.buffered.push(bytes);
+    this.bufferedBytes += bytes.byteLength;
+    return Promise.resolve();
+  }
+
+  async flush(): Promise<void> {
+    if (this.bufferedBytes === 0) {
+      return;
+    }
+    const writable = await this.handle.createWritable({ keepExistingData: true });
+    try {
+      await writable.seek(this.written);
+      for (const bytes of this.buffered) {
+        await writable.write(bytes);
+      }
+    } finally {
+      await writable.close();
+    }
+    this.written += this.bufferedBytes;
+    this.buffered = [];
+    this.bufferedBytes = 0;
+  }
+
+  async truncate(size: number): Promise<void> {
+    await this.flush();
+    const writable = await this.handle.createWritable({ keepExistingData: true });
+    try {
+      await writable.truncate(size);
+    } finally {
+      await writable.close();
+    }
+    this.written = size;
+  }
+
+  async close(): Promise<void> {
+    // Nothing held open between operations; only the buffer to write
+    await this.flush();
+  }
+
+  /** Bytes at `offset` into the buffer; a read never spans two appends */
+  private readBuffered(offset: number, length: number): Uint8Array {
+    let start = 0;
+    for (const bytes of this.buffered) {
+      if (offset < start + bytes.byteLength) {
+        return bytes.slice(offset - start, offset - start + length);
+      }
+      start += bytes.byteLength;
+    }
+    return new Uint8Array(0);
+  }
+}
+
+/** Prefer a sync access handle, which only dedicated workers can create. */
+async function openSegmentFile(handle: FileSystemFileHandle): Promise<SegmentFile> {
+  if (handle.createSyncAccessHandle) {
+    try {
+      const access = await handle.createSyncAccessHandle();
+      return new SyncSegmentFile(access);
+    } catch {
+      // Not in a worker, or the file is locked: use the async API
+    }
+  }
+  const file = await handle.getFile();
+  return new AsyncSegmentFile(handle, file.size);
+}
+
+// ---------------------------------------------------------------------------
+// Frames
+// ---------------------------------------------------------------------------
+
+const FRAME_HEADER_BYTES = 8;
+const PUT_ENTRY = 1;
+const DELETE_ENTRY = 2;
+
+/** A put when `record` is set, a delete otherwise */
+export interface SegmentEntry {
+  id: string;
+  record?: Uint8Array;
+}
+
+interface DecodedEntry {
+  id: string;
+  /** Record offset within the frame payload; -1 for a delete */
+  offset: number;
+  length: number;
+}
+
+function encodeFrame(entries: SegmentEntry[]): {
+  frame: Uint8Array;
+  offsets: number[];
+} {
+  const encoder = new TextEncoder();
+  const ids = entries.map(({ id }) => encoder.encode(id));
+  const payloadLength = entries.reduce(
+    (sum, { record }, i) => sum + 7 + ids[i]!.byteLength + (record?.byteLength ?? 0),
+    0,
+  );
+
+  const frame = new Uint8Array(FRAME_HEADER_BYTES + payloadLength);
+  const view = new DataView(frame.buffer);
+  const offsets: number[] = [];
+  let cursor = FRAME_HEADER_BYTES;
+  entries.forEach(({ record }, i) => {
+    const id = ids[i]!;
+    view.setUint8(cursor, record ? PUT_ENTRY : DELETE_ENTRY);
+    view.setUint16(cursor + 1, id.byteLength, true);
+    frame.set(id, cursor + 3);
+    cursor += 3 + id.byteLength;
+    view.setUint32(cursor, record?.byteLength ?? 0, true);
+    cursor += 4;
+    offsets.push(cursor);
+    if (record) {
+      frame.set(record, cursor);
+      cursor += record.byteLength;
+    }
+  });
+
+  const payload = frame.subarray(FRAME_HEADER_BYTES);
+  view.setUint32(0, payloadLength, true);
+  view.setUint32(4, crc32(payload), true);
+  return { frame, offsets };
+}
+
+function decodeEntries(payload: Uint8Array): DecodedEntry[] {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const decoder = new TextDecoder();
+  const entries: DecodedEntry[] = [];
+  let cursor = 0;
+  while (cursor < payload.byteLength) {
+    const kind = view.getUint8(cursor);
+    const idLength = view.getUint16(cursor + 1, true);
+    const id = decoder.decode(payload.subarray(cursor + 3, cursor + 3 + idLength));
+    cursor += 3 + idLength;
+    const length = view.getUint32(cursor, true);
+    cursor += 4;
+    entries.push({ id, offset: kind === PUT_ENTRY ? cursor : -1, length });
+    cursor += length;
+  }
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// SegmentStore
+// ---------------------------------------------------------------------------
+
+/** Currently supported `index.json` format versions. */
+export const SUPPORTED_SEGMENT_INDEX_VERSIONS = [1] as const;
+
+const INDEX_FILENAME = 'index.json';
+const SEGMENT_PATTERN = /^(\d{6})\.seg$/;
+
+interface SegmentIndex {
+  formatVersion: number;
+  /** Segment new frames were appended to */
+  active: number;
+  /** Size of the active segment the entries account for */
+  position: number;
+  segments: number[];
+  /** `[id, segment, offset, length]` per stored record */
+  entries: Array<[string, number, number, number]>;
+}
+
+interface Location {
+  segment: number;
+  offset: number;
+  length: number;
+}
+
+export interface SegmentStoreOptions {
+  /** Size at which the active segment is sealed and a new one started */
+  segmentBytes: number;
+  /** Fraction of a sealed segment's bytes that must be dead before compaction */
+  compactionThreshold: number;
+  /** Store name reported in recovery events */
+  source: string;
+}
+
+function segmentFilename(segment: number): string {
+  return `${String(segment).padStart(6, '0')}.seg`;
+}
+
+/**
+ * Append-only record store over the segment files in one OPFS directory.
+ * Callers serialize every call, including reads: compaction deletes files
+ * that an interleaved read could still be using. A write is readable at
+ * once and durable once {@link flush} has run after it.
+ */
+export class SegmentStore {
+  private readonly locations = new Map<string, Location>();
+  private readonly files = new Map<number, SegmentFile>();
+  private active = 1;
+
+  private constructor(
+    private readonly directory: FileSystemDirectoryHandle,
+    private readonly options: SegmentStoreOptions,
+  ) {}
+
+  /**
+   * Open the segments in `directory`, replaying frames written after the
+   * index and truncating frames cut short by a crash.
+   *
+   * @throws StorageFormatError when the index was written by a newer release
+   */
+  static async open(
+    directory: FileSystemDirectoryHandle,
+    options: SegmentStoreOptions,
+  ): Promise<SegmentStore> {
+    const store = new SegmentStore(directory, options);
+    await store.load();
+    return store;
+  }
+
+  /** Number of stored records */
+  get size(): number {
+    return this.locations.size;
+  }
+
+  has(id: string): boolean {
+    return this.locations.has(id);
+  }
+
+  /** Stored ids in the order their records sit on disk */
+  ids(): string[] {
+    return [...this.locations]
+      .sort(([, a], [, b]) => a.segment - b.segment || a.offset - b.offset)
+      .map(([id]) => id);
+  }
+
+  /** The latest record for `id` and the segment it was read from */
+  async read(id: string): Promise<{ bytes: Uint8Array; filename: string } | undefined> {
+    const location = this.locations.get(id);
+    if (!location) {
+      return undefined;
+    }
+    const file = this.files.get(location.segment)!;
+    const bytes = await file.read(location.offset, location.length);
+    return { bytes, filename: segmentFilename(location.segment) };
+  }
+
+  /** Append `entries` as one frame, so they are stored together or not at all. */
+  async write(entries: SegmentEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    const { frame, offsets } = encodeFrame(entries);
+
+    let file = this.files.get(this.active)!;
+    if (file.size > 0 && file.size + frame.byteLength > this.options.segmentBytes) {
+      file = await this.startSegment(this.active + 1);
+      await this.saveIndex();
+    }
+
+    const start = file.size;
+    await file.append(frame);
+    entries.forEach(({ id, record }, i) => {
+      if (record) {
+        this.locations.set(id, {
+          segment: this.active,
+          offset: start + offsets[i]!,
+          length: record.byteLength,
+        });
+      } else {
+        this.locations.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Write the appends buffered by segment files without a sync access
+   * handle. Until then a crash loses them, as if they were never made.
+   */
+  async flush(): Promise<void> {
+    for (const file of this.files.values()) {
+      await file.flush();
+    }
+  }
+
+  /** Whether a sealed segment has passed the compaction threshold */
+  needsCompaction(): boolean {
+    return this.compactable().length > 0;
+  }
+
+  /**
+   * Copy the live records of every sealed segment past the compaction
+   * threshold into the active segment, then delete those segments.
+   *
+   * @returns Bytes reclaimed
+   */
+  async compact(): Promise<number> {
+    const segments = this.compactable();
+    if (segments.length === 0) {
+      return 0;
+    }
+
+    let reclaimed = 0;
+    for (const segment of segments) {
+      const entries: SegmentEntry[] = [];
+      for (const [id, location] of this.locations) {
+        if (location.segment === segment) {
+          const file = this.files.get(segment)!;
+          const record = await file.read(location.offset, location.length);
+          entries.push({ id, record });
+        }
+      }
+      const file = this.files.get(segment)!;
+      reclaimed +=
+        file.size - entries.reduce((sum, { record }) => sum + record!.byteLength, 0);
+      await this.write(entries);
+    }
+
+    // The index must stop referring to the old segments before they go
+    await this.detachSegments(segments);
+    await this.saveIndex();
+    await this.removeSegments(segments);
+    return reclaimed;
+  }
+
+  /** Drop every record by starting a fresh segment and deleting the rest. */
+  async clear(): Promise<void> {
+    const old = [...this.files.keys()];
+    this.locations.clear();
+    const next = this.active + 1;
+    await this.startSegment(next);
+    await this.detachSegments(old);
+    await this.saveIndex();
+    await this.removeSegments(old);
+  }
+
+  /** Bytes used by the segment files and the index */
+  async usage(): Promise<number> {
+    let bytes = 0;
+    for (const file of this.files.values()) {
+      bytes += file.size;
+    }
+    try {
+      const handle = await this.directory.getFileHandle(INDEX_FILENAME);
+      const index = await handle.getFile();
+      bytes += index.size;
+    } catch (error: unknown) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+    }
+    return bytes;
+  }
+
+  /** Write the index and release the segment files. */
+  async close(): Promise<void> {
+    await this.saveIndex();
+    await this.release();
+  }
+
+  /** Release the segment files without writing the index, before deleting them. */
+  async release(): Promise<void> {
+    for (const file of this.files.values()) {
+      await file.close();
+    }
+    this.files.clear();
+  }
+
+  // ── Loading ─────────────────────────────────────────────────────────────
+
+  private async load(): Promise<void> {
+    const present = new Map<number, FileSystemFileHandle>();
+    for await (const entry of this.directory.values()) {
+      const match = entry.kind === 'file' ? SEGMENT_PATTERN.exec(entry.name) : null;
+      if (match) {
+        const handle = await this.directory.getFileHandle(entry.name);
+        present.set(Number(match[1]), handle);
+      }
+    }
+
+    const index = await this.readIndex();
+    const indexed = new Set(index?.segments);
+    const firstReplayed = index?.active ?? 0;
+    let replayed = false;
+
+    if (index) {
+      const missing = index.segments.filter((segment) => !present.has(segment));
+      let lost = 0;
+      for (const [id, segment, offset, length] of index.entries) {
+        if (present.has(segment)) {
+          this.locations.set(id, { segment, offset, length });
+        } else {
+          lost++;
+        }
+      }
+      if (missing.length > 0) {
+        this.report(
+          false,
+          lost,
+          `Segment file(s) ${missing.map(segmentFilename).join(', ')} are missing`,
+        );
+      }
+      this.active = index.active;
+    }
+
+    // Segments dropped by a compaction or clear() that the index had
+    // already stopped listing when the process stopped
+    const orphans = [...present.keys()].filter(
+      (segment) => index && segment < index.active && !indexed.has(segment),
+    );
+    await this.removeSegments(orphans);
+
+    for (const segment of [...present.keys()].sort((a, b) => a - b)) {
+      if (orphans.includes(segment)) continue;
+      const file = await openSegmentFile(present.get(segment)!);
+      this.files.set(segment, file);
+      if (segment >= firstReplayed) {
+        const from = segment === firstReplayed ? (index?.position ?? 0) : 0;
+        replayed = (await this.replay(segment, file, from)) || replayed;
+        this.active = Math.max(this.active, segment);
+      }
+    }
+
+    if (!this.files.has(this.active)) {
+      await this.startSegment(this.active);
+    }
+    if (replayed) {
+      await this.saveIndex();
+    }
+  }
+
+  /**
+   * Apply the frames of `segment` from `position` on. Returns whether any
+   * frame was read or truncated.
+   */
+  private async replay(
+    segment: number,
+    file: SegmentFile,
+    position: number,
+  ): Promise<boolean> {
+    let cursor = position;
+    while (cursor < file.size) {
+      const header = await file.read(cursor, FRAME_HEADER_BYTES);
+      const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+      const payloadLength =
+        header.byteLength === FRAME_HEADER_BYTES ? view.getUint32(0, true) : -1;
+      const end = cursor + FRAME_HEADER_BYTES + payloadLength;
+      const payload =
+        payloadLength >= 0 && end <= file.size
+          ? await file.read(cursor + FRAME_HEADER_BYTES, payloadLength)
+          : undefined;
+
+      if (!payload || crc32(payload) !== view.getUint32(4, true)) {
+        const discarded = file.size - cursor;
+        await file.truncate(cursor);
+        this.report(
+          true,
+          0,
+          `Truncated ${discarded} bytes of an incomplete write from ${segmentFilename(segment)}`,
+        );
+        return true;
+      }
+
+      const start = cursor + FRAME_HEADER_BYTES;
+      for (const { id, offset, length } of decodeEntries(payload)) {
+        if (offset < 0) {
+          this.locations.delete(id);
+        } else {
+          this.locations.set(id, { segment, offset: start + offset, length });
+        }
+      }
+      cursor = end;
+    }
+    return cursor > position;
+  }
+
+  private async readIndex(): Promise<SegmentIndex | undefined> {
+    let text: string;
+    try {
+      const handle = await this.directory.getFileHandle(INDEX_FILENAME);
+      const file = await handle.getFile();
+      text = await file.text();
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    let index: SegmentIndex;
+    try {
+      index = JSON.parse(text) as SegmentIndex;
+    } catch {
+      this.report(true, 0, `${INDEX_FILENAME} is corrupt; rebuilt it from the segments`);
+      return undefined;
+    }
+    if (
+      !(SUPPORTED_SEGMENT_INDEX_VERSIONS as readonly number[]).includes(
+        index.formatVersion,
+      )
+    ) {
+      throw new StorageFormatError(index.formatVersion, SUPPORTED_SEGMENT_INDEX_VERSIONS);
+    }
+    return index;
+  }
+
+  // ── Writing ─────────────────────────────────────────────────────────────
+
+  /**
+   * The index is replaced through a writable stream, which OPFS swaps in
+   * on close(), so a crash leaves the previous index intact. Buffered
+   * appends are flushed first so the index never points past the files.
+   */
+  private async saveIndex(): Promise<void> {
+    await this.flush();
+    const index: SegmentIndex = {
+      formatVersion: SUPPORTED_SEGMENT_INDEX_VERSIONS[0],
+      active: this.active,
+      position: this.files.get(this.active)?.size ?? 0,
+      segments: [...this.files.keys()].sort((a, b) => a - b),
+      entries: [...this.locations].map(([id, { segment, offset, length }]) => [
+        id,
+        segment,
+        offset,
+        length,
+      ]),
+    };
+
+    const handle = await this.directory.getFileHandle(INDEX_FILENAME, { create: true });
+    const writable = await handle.createWritable();
+    try {
+      await writable.write(JSON.stringify(index));
+    } finally {
+      await writable.close();
+    }
+  }
+
+  private async startSegment(segment: number): Promise<SegmentFile> {
+    const handle = await this.directory.getFileHandle(segmentFilename(segment), {
+      create: true,
+    });
+    const file = await openSegmentFile(handle);
+    this.files.set(segment, file);
+    this.active = segment;
+    return file;
+  }
+
+  /** Close `segments` and stop tracking them, leaving their files in place */
+  private async detachSegments(segments: number[]): Promise<void> {
+    for (const segment of segments) {
+      await this.files.get(segment)?.close();
+      this.files.delete(segment);
+    }
+  }
+
+  private async removeSegments(segments: number[]): Promise<void> {
+    await this.detachSegments(segments);
+    for (const segment of segments) {
+      try {
+        await this.directory.removeEntry(segmentFilename(segment));
+      } catch (error: unknown) {
+        if (!isNotFoundError(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /** Sealed segments whose dead bytes have reached the threshold */
+  private compactable(): number[] {
+    const live = new Map<number, number>();
+    for (const { segment, length } of this.locations.values()) {
+      live.set(segment, (live.get(segment) ?? 0) + length);
+    }
+
+    const segments: number[] = [];
+    for (const [segment, file] of this.files) {
+      if (segment === this.active || file.size === 0) continue;
+      const dead = 1 - (live.get(segment) ?? 0) / file.size;
+      if (dead >= this.options.compactionThreshold) {
+        segments.push(segment);
+      }
+    }
+    return segments;
+  }
+
+  private report(recovered: boolean, affectedCount: number, description: string): void {
+    observability.emit({
+      type: 'corruption_recovery',
+      timestamp: performance.now(),
+      source: this.options.source,
+      recovered,
+      affectedCount,
+      description,
+    });
+  }
+}
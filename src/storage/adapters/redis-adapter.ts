@@ -5,31 +5,57 @@ import type {
   ScanCapabilities,
   ScanOptions,
   StorageAdapter,
+  StorageSearchHit,
+  StorageSearchQuery,
+  StoredDocument,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
+import { log } from '@/utilities/logger.js';
 import {
   REDIS_ADAPTER_CAPABILITIES,
   type AdapterCapabilities,
 } from './adapter-capabilities.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  sortDocuments,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from './documents.js';
+import {
+  createIndexArguments,
+  EMBEDDING_FIELD,
+  indexedMetadataFields,
+  knnSearchArguments,
+  parseSearchReply,
+  type RedisSearchOptions,
+  toSearchHits,
+  translateMetadataFilter,
+} from './redis-search.js';
 import {
   calculateMagnitude,
   jsonToVectorData,
-  vectorDataToJson,
+  type SerializedVectorData,
+  serializableToVectorData,
+  vectorDataToSerializable,
 } from './serialization.js';
+import { nextVersion, storedVersion, WriteQueue } from './versioning.js';
 
 // ---------------------------------------------------------------------------
 // Bun.RedisClient types (declared inline since the @types/bun version may
 // not yet include the built-in Redis client)
+//
+// The client pipelines commands issued without awaiting in between, so
+// batches are sent as arrays of promises and awaited together. `send()`
+// accepts binary arguments, but bulk replies come back as text, which is why
+// vectors are read from a base64 field rather than the raw `embedding` blob.
 // ---------------------------------------------------------------------------
 
 interface BunRedisClient {
-  get(key: string): Promise<string | null>;
-  set(key: string, value: string): Promise<void>;
-  del(...keys: string[]): Promise<number>;
-  exists(...keys: string[]): Promise<number>;
-  mget(...keys: string[]): Promise<Array<string | null>>;
-  sadd(key: string, ...members: string[]): Promise<number>;
-  srem(key: string, ...members: string[]): Promise<number>;
+  send(command: string, args: Array<string | Uint8Array>): Promise<unknown>;
+  hmget(key: string, fields: string[]): Promise<Array<string | null>>;
+  hincrby(key: string, field: string, increment: number): Promise<number>;
   scard(key: string): Promise<number>;
   smembers(key: string): Promise<string[]>;
   close(): void;
@@ -39,6 +65,72 @@ interface BunRedisClientConstructor {
   new (url?: string): BunRedisClient;
 }
 
+// ---------------------------------------------------------------------------
+// Hash layout
+//
+// Each record is a hash at `<prefix>:v:<id>`:
+//
+//   vector        base64 of the little-endian FLOAT32 vector
+//   record        JSON of the remaining fields (metadata, magnitude, ...)
+//   version, lastAccessed, accessCount
+//                 plain numbers, so access tracking is a HINCRBY
+//   embedding     the raw FLOAT32 vector, with the `search` option only
+//   meta_<field>  indexed metadata values, with the `search` option only
+// ---------------------------------------------------------------------------
+
+const READ_FIELDS = ['vector', 'record', 'version', 'lastAccessed', 'accessCount'];
+
+/** Records fetched per pipelined round trip by `getAll()` and `scan()` */
+const READ_PAGE_SIZE = 500;
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString(
+    'base64',
+  );
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  const vector = new Float32Array(bytes.byteLength / Float32Array.BYTES_PER_ELEMENT);
+  new Uint8Array(vector.buffer).set(bytes);
+  return vector;
+}
+
+/** JSON for the `record` field: everything kept outside the other fields */
+function encodeRecord(data: VectorData): string {
+  const { id, metadata, magnitude, format, normalized, timestamp, compression } =
+    vectorDataToSerializable(data);
+  // Undefined fields are left out by JSON.stringify
+  return JSON.stringify({
+    id,
+    metadata,
+    magnitude,
+    format,
+    normalized,
+    timestamp,
+    compression,
+  });
+}
+
+/** Decode the HMGET reply for READ_FIELDS, or `undefined` for a missing record */
+function decodeHash(values: Array<string | null>): VectorData | undefined {
+  const [vector, record, version, lastAccessed, accessCount] = values;
+  if (vector == null || record == null) {
+    return undefined;
+  }
+  const serialized = JSON.parse(record) as Omit<SerializedVectorData, 'vector'>;
+  const data = serializableToVectorData({ ...serialized, vector: [] });
+  data.vector = decodeVector(vector);
+  if (version != null) data.version = Number(version);
+  if (lastAccessed != null) data.lastAccessed = Number(lastAccessed);
+  if (accessCount != null) data.accessCount = Number(accessCount);
+  return data;
+}
+
+function isErrorMatching(error: unknown, pattern: RegExp): boolean {
+  return error instanceof Error && pattern.test(error.message);
+}
+
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
@@ -46,6 +138,13 @@ interface BunRedisClientConstructor {
 interface RedisStorageAdapterOptions {
   url?: string;
   prefix: string;
+  /**
+   * Keep a RediSearch vector index over the records and answer k-NN
+   * searches, with their metadata filters, through FT.SEARCH. Needs the
+   * RediSearch module (Redis Stack or Redis 8); without it the adapter logs
+   * a warning and the search engine scans as usual.
+   */
+  search?: RedisSearchOptions;
 }
 
 // ---------------------------------------------------------------------------
@@ -58,11 +157,18 @@ export class RedisStorageAdapter implements StorageAdapter {
 
   private readonly url: string | undefined;
   private readonly prefix: string;
+  private readonly search: RedisSearchOptions | undefined;
   private client: BunRedisClient | null = null;
+  /** Whether the server has the search index; settled by `init()` */
+  private searchReady = false;
+  // Redis has no compare-and-set on plain keys, so version checks are only
+  // atomic among writers sharing this adapter instance.
+  private readonly writes = new WriteQueue();
 
   constructor(options: RedisStorageAdapterOptions) {
     this.url = options.url;
     this.prefix = options.prefix;
+    this.search = options.search;
   }
 
   private getClient(): BunRedisClient {
@@ -82,6 +188,125 @@ export class RedisStorageAdapter implements StorageAdapter {
     return `${this.prefix}:ids`;
   }
 
+  /** Build the Redis key for the HASH that holds a document collection. */
+  private documentKey(collection: string): string {
+    return `${this.prefix}:doc:${collection}`;
+  }
+
+  /** Build the Redis key for the SET that tracks the document collections. */
+  private documentCollectionsKey(): string {
+    return `${this.prefix}:docs`;
+  }
+
+  private indexName(): string {
+    return this.search?.indexName ?? `${this.prefix}:idx`;
+  }
+
+  /** Read a stored vector, or `undefined` when the key is missing. */
+  private async readStored(id: string): Promise<VectorData | undefined> {
+    const values = await this.getClient().hmget(this.vectorKey(id), READ_FIELDS);
+    return decodeHash(values);
+  }
+
+  /** Read several records in one pipelined round trip, skipping missing ones. */
+  private async readMany(ids: string[]): Promise<VectorData[]> {
+    const client = this.getClient();
+    const replies = await Promise.all(
+      ids.map((id) => client.hmget(this.vectorKey(id), READ_FIELDS)),
+    );
+    return replies.flatMap((values) => decodeHash(values) ?? []);
+  }
+
+  /** Stored versions of `ids` (`null` for missing records), pipelined. */
+  private async readVersions(ids: string[]): Promise<Array<number | null>> {
+    const client = this.getClient();
+    const replies = await Promise.all(
+      ids.map((id) => client.hmget(this.vectorKey(id), ['record', 'version'])),
+    );
+    return replies.map(([record, version]) =>
+      record == null ? null : Number(version ?? 0),
+    );
+  }
+
+  /**
+   * Issue the commands that store `data` and add it to the id set, without
+   * awaiting them, so callers can pipeline several records.
+   */
+  private writeStored(data: VectorData): Array<Promise<unknown>> {
+    const client = this.getClient();
+    const key = this.vectorKey(data.id);
+    const fields: Array<string | Uint8Array> = [
+      'vector',
+      encodeVector(data.vector),
+      'record',
+      encodeRecord(data),
+    ];
+    const unset: string[] = [];
+    for (const [field, value] of [
+      ['version', data.version],
+      ['lastAccessed', data.lastAccessed],
+      ['accessCount', data.accessCount],
+    ] as const) {
+      if (value === undefined) {
+        unset.push(field);
+      } else {
+        fields.push(field, String(value));
+      }
+    }
+
+    if (this.search) {
+      fields.push(
+        EMBEDDING_FIELD,
+        new Uint8Array(
+          data.vector.buffer,
+          data.vector.byteOffset,
+          data.vector.byteLength,
+        ),
+      );
+      for (const [field, value] of indexedMetadataFields(
+        data.metadata,
+        this.search.fields ?? [],
+      )) {
+        if (value === null) {
+          unset.push(field);
+        } else {
+          fields.push(field, value);
+        }
+      }
+    }
+
+    const commands = [
+      client.send('HSET', [key, ...fields]),
+      client.send('SADD', [this.idSetKey(), data.id]),
+    ];
+    if (unset.length > 0) {
+      commands.push(client.send('HDEL', [key, ...unset]));
+    }
+    return commands;
+  }
+
+  /**
+   * Bump the access counters of `records` in one pipelined round trip and
+   * reflect the new values on them.
+   */
+  private async trackAccess(records: VectorData[]): Promise<void> {
+    const client = this.getClient();
+    const now = Date.now();
+    const counts = await Promise.all(
+      records.flatMap((record) => {
+        const key = this.vectorKey(record.id);
+        return [
+          client.hincrby(key, 'accessCount', 1),
+          client.send('HSET', [key, 'lastAccessed', String(now)]),
+        ];
+      }),
+    );
+    records.forEach((record, i) => {
+      record.accessCount = counts[i * 2] as number;
+      record.lastAccessed = now;
+    });
+  }
+
   // ── Lifecycle ───────────────────────────────────────────────────────────
 
   async init(): Promise<void> {
@@ -99,6 +324,73 @@ export class RedisStorageAdapter implements StorageAdapter {
     const RedisClient = Bun.RedisClient as unknown as BunRedisClientConstructor;
 
     this.client = this.url !== undefined ? new RedisClient(this.url) : new RedisClient();
+    await this.migrateJsonRecords();
+    if (this.search) {
+      this.searchReady = await this.ensureSearchIndex(this.search);
+    }
+  }
+
+  /**
+   * Create the RediSearch index unless it exists. Returns false when the
+   * server has no RediSearch module.
+   */
+  private async ensureSearchIndex(search: RedisSearchOptions): Promise<boolean> {
+    const client = this.getClient();
+    const infoError = await client
+      .send('FT.INFO', [this.indexName()])
+      .then(() => undefined)
+      .catch((caught: unknown) => caught);
+    if (infoError === undefined) {
+      return true;
+    }
+    if (isErrorMatching(infoError, /unknown command/i)) {
+      log.warn('RedisStorageAdapter: server has no RediSearch module; searches scan', {
+        prefix: this.prefix,
+      });
+      return false;
+    }
+    if (!isErrorMatching(infoError, /unknown index|no such index/i)) {
+      throw infoError;
+    }
+    await client.send(
+      'FT.CREATE',
+      createIndexArguments(this.indexName(), this.vectorKey(''), search),
+    );
+    return true;
+  }
+
+  /**
+   * Convert records stored as JSON strings by earlier releases into hashes.
+   * Stores are converted whole, so checking one record is enough.
+   */
+  private async migrateJsonRecords(): Promise<void> {
+    const client = this.getClient();
+    const ids = await client.smembers(this.idSetKey());
+    if (ids.length === 0) {
+      return;
+    }
+    const type = await client.send('TYPE', [this.vectorKey(ids[0]!)]);
+    if (type !== 'string') {
+      return;
+    }
+
+    for (let start = 0; start < ids.length; start += READ_PAGE_SIZE) {
+      const page = ids.slice(start, start + READ_PAGE_SIZE);
+      const values = await Promise.all(
+        page.map((id) => client.send('GET', [this.vectorKey(id)])),
+      );
+      const commands: Array<Promise<unknown>> = [];
+      page.forEach((id, i) => {
+        const json = values[i];
+        commands.push(client.send('DEL', [this.vectorKey(id)]));
+        if (typeof json === 'string') {
+          commands.push(...this.writeStored(jsonToVectorData(json)));
+        } else {
+          commands.push(client.send('SREM', [this.idSetKey(), id]));
+        }
+      });
+      await Promise.all(commands);
+    }
   }
 
   async close(): Promise<void> {
@@ -113,53 +405,63 @@ export class RedisStorageAdapter implements StorageAdapter {
       await this.init();
     }
     await this.clear();
+    const client = this.client!;
+    const collections = await client.smembers(this.documentCollectionsKey());
+    await client.send('DEL', [
+      ...collections.map((collection) => this.documentKey(collection)),
+      this.documentCollectionsKey(),
+    ]);
+    if (this.searchReady) {
+      await this.client!.send('FT.DROPINDEX', [this.indexName()]);
+      this.searchReady = false;
+    }
     this.client!.close();
     this.client = null;
   }
 
   // ── Single-item CRUD ────────────────────────────────────────────────────
 
-  async put(vector: VectorData): Promise<void> {
-    const client = this.getClient();
-
-    const stored: VectorData = {
-      ...vector,
-      timestamp: vector.timestamp || Date.now(),
-      lastAccessed: Date.now(),
-    };
-
-    await client.set(this.vectorKey(stored.id), vectorDataToJson(stored));
-    await client.sadd(this.idSetKey(), stored.id);
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
+    await this.writes.run(async () => {
+      const [current] = await this.readVersions([vector.id]);
+      const stored: VectorData = {
+        ...vector,
+        timestamp: vector.timestamp || Date.now(),
+        lastAccessed: Date.now(),
+        version: nextVersion(vector.id, current ?? null, condition),
+      };
+
+      await Promise.all(this.writeStored(stored));
+    });
   }
 
   async get(id: string): Promise<VectorData> {
-    const client = this.getClient();
-
-    const json = await client.get(this.vectorKey(id));
-    if (json === null) {
-      throw new VectorNotFoundError(id);
-    }
-
-    const data = jsonToVectorData(json);
-
-    // Update access tracking
-    data.lastAccessed = Date.now();
-    data.accessCount = (data.accessCount ?? 0) + 1;
-    await client.set(this.vectorKey(id), vectorDataToJson(data));
+    // Queued behind writes so the counters never land on a deleted record
+    return this.writes.run(async () => {
+      const data = await this.readStored(id);
+      if (!data) {
+        throw new VectorNotFoundError(id);
+      }
 
-    return data;
+      await this.trackAccess([data]);
+      return data;
+    });
   }
 
   async exists(id: string): Promise<boolean> {
     const client = this.getClient();
-    const result = await client.exists(this.vectorKey(id));
+    const result = await client.send('EXISTS', [this.vectorKey(id)]);
     return result === 1;
   }
 
   async delete(id: string): Promise<void> {
     const client = this.getClient();
-    await client.del(this.vectorKey(id));
-    await client.srem(this.idSetKey(), id);
+    await this.writes.run(async () => {
+      await Promise.all([
+        client.send('DEL', [this.vectorKey(id)]),
+        client.send('SREM', [this.idSetKey(), id]),
+      ]);
+    });
   }
 
   // ── Multi-item reads ────────────────────────────────────────────────────
@@ -167,43 +469,22 @@ export class RedisStorageAdapter implements StorageAdapter {
   async getMany(ids: string[]): Promise<VectorData[]> {
     if (ids.length === 0) return [];
 
-    const client = this.getClient();
-    const keys = ids.map((id) => this.vectorKey(id));
-    const values = await client.mget(...keys);
-
-    const results: VectorData[] = [];
-    const now = Date.now();
-
-    for (const json of values) {
-      if (json === null || json === undefined) continue;
-
-      const data = jsonToVectorData(json);
-      data.lastAccessed = now;
-      data.accessCount = (data.accessCount ?? 0) + 1;
-
-      await client.set(this.vectorKey(data.id), vectorDataToJson(data));
-      results.push(data);
-    }
-
-    return results;
+    return this.writes.run(async () => {
+      const results = await this.readMany(ids);
+      await this.trackAccess(results);
+      return results;
+    });
   }
 
   async getAll(): Promise<VectorData[]> {
     const client = this.getClient();
     const ids = await client.smembers(this.idSetKey());
 
-    if (ids.length === 0) return [];
-
-    const keys = ids.map((id) => this.vectorKey(id));
-    const values = await client.mget(...keys);
-
     const results: VectorData[] = [];
-
-    for (const json of values) {
-      if (json === null || json === undefined) continue;
-      results.push(jsonToVectorData(json));
+    for (let start = 0; start < ids.length; start += READ_PAGE_SIZE) {
+      const page = await this.readMany(ids.slice(start, start + READ_PAGE_SIZE));
+      results.push(...page);
     }
-
     return results;
   }
 
@@ -213,68 +494,127 @@ export class RedisStorageAdapter implements StorageAdapter {
   }
 
   /**
-   * Stream all vectors by fetching them one at a time from Redis.
+   * Stream all vectors, fetching `pageSize` records per pipelined round trip.
    *
    * Redis does not support cursor-based range scans over hash keys, so we
-   * must first load the full ID set with SMEMBERS, then fetch each vector
-   * individually. All IDs are loaded upfront but vector data is fetched
-   * lazily one record at a time.
+   * must first load the full ID set with SMEMBERS. All IDs are loaded upfront
+   * but vector data is fetched lazily, one page at a time.
    */
   async *scan(options?: ScanOptions): AsyncIterable<VectorData> {
     const client = this.getClient();
     const ids = await client.smembers(this.idSetKey());
+    const pageSize = options?.pageSize ?? READ_PAGE_SIZE;
 
-    for (const id of ids) {
+    for (let start = 0; start < ids.length; start += pageSize) {
       if (options?.signal?.aborted) return;
-      const json = await client.get(this.vectorKey(id));
-      if (json !== null && json !== undefined) {
-        yield jsonToVectorData(json);
+      const page = await this.readMany(ids.slice(start, start + pageSize));
+      for (const data of page) {
+        if (options?.signal?.aborted) return;
+        yield data;
       }
     }
   }
 
   /**
-   * Redis requires loading all IDs with SMEMBERS before individual fetches.
+   * Redis requires loading all IDs with SMEMBERS before paged fetches.
    * The ID set is always fully materialized; only vector payloads are lazy.
    */
   getScanCapabilities(): ScanCapabilities {
     return {
       nativeStreaming: false,
       limitationReason:
-        'RedisStorageAdapter requires SMEMBERS to enumerate all keys upfront. Vector payloads are fetched one at a time but the ID set is fully materialized.',
+        'RedisStorageAdapter requires SMEMBERS to enumerate all keys upfront. Vector payloads are fetched a page at a time but the ID set is fully materialized.',
     };
   }
 
+  // ── Server-side search ──────────────────────────────────────────────────
+
+  /**
+   * Run the query as one FT.SEARCH k-NN query when the `search` option is
+   * set, the server has RediSearch, the metric matches the index and the
+   * filter only uses declared fields in ways the index answers exactly.
+   */
+  async searchNearest(query: StorageSearchQuery): Promise<StorageSearchHit[] | null> {
+    const search = this.search;
+    const metric = search?.metric ?? 'cosine';
+    if (
+      !search ||
+      !this.searchReady ||
+      query.metric !== metric ||
+      query.vector.length !== search.dimension
+    ) {
+      return null;
+    }
+
+    let clause = '*';
+    if (query.filter) {
+      const translated = translateMetadataFilter(query.filter, search.fields ?? []);
+      if (translated === null) {
+        return null;
+      }
+      clause = translated;
+    }
+
+    const reply = await this.getClient().send(
+      'FT.SEARCH',
+      knnSearchArguments(this.indexName(), query.vector, query.k, clause, ['record']),
+    );
+    return toSearchHits(parseSearchReply(reply), this.vectorKey(''), metric, (fields) => {
+      const record = fields['record'];
+      return record === undefined
+        ? undefined
+        : (JSON.parse(record) as Omit<SerializedVectorData, 'vector'>).metadata;
+    });
+  }
+
   // ── Multi-item writes ───────────────────────────────────────────────────
 
   async deleteMany(ids: string[]): Promise<number> {
     if (ids.length === 0) return 0;
 
     const client = this.getClient();
-    let deleted = 0;
-
-    for (const id of ids) {
-      const exists = await client.exists(this.vectorKey(id));
-      if (exists === 1) {
-        await client.del(this.vectorKey(id));
-        await client.srem(this.idSetKey(), id);
-        deleted++;
+
+    return this.writes.run(async () => {
+      const unique = [...new Set(ids)];
+      const found = await Promise.all(
+        unique.map((id) => client.send('EXISTS', [this.vectorKey(id)])),
+      );
+      const existing = unique.filter((_, i) => found[i] === 1);
+      if (existing.length === 0) {
+        return 0;
       }
-    }
 
-    return deleted;
+      await Promise.all([
+        client.send(
+          'DEL',
+          existing.map((id) => this.vectorKey(id)),
+        ),
+        client.send('SREM', [this.idSetKey(), ...existing]),
+      ]);
+      return existing.length;
+    });
   }
 
   async clear(): Promise<void> {
     const client = this.getClient();
     const ids = await client.smembers(this.idSetKey());
 
-    for (const id of ids) {
-      await client.del(this.vectorKey(id));
+    const commands: Array<Promise<unknown>> = [];
+    for (let start = 0; start < ids.length; start += READ_PAGE_SIZE) {
+      const keys = ids
+        .slice(start, start + READ_PAGE_SIZE)
+        .map((id) => this.vectorKey(id));
+      commands.push(client.send('DEL', keys));
     }
-    await client.del(this.idSetKey());
+    await Promise.all(commands);
+    await client.send('DEL', [this.idSetKey()]);
   }
 
+  /**
+   * Store `vectors` a chunk of `batchSize` at a time: one pipelined round
+   * trip reads the chunk's versions and another writes it. Not atomic; a
+   * failure can leave part of a chunk written.
+   */
   async putBatch(vectors: VectorData[], options?: BatchOptions): Promise<void> {
     if (vectors.length === 0) return;
 
@@ -288,11 +628,27 @@ export class RedisStorageAdapter implements StorageAdapter {
 
       const start = batchIndex * batchSize;
       const end = Math.min(start + batchSize, vectors.length);
-
-      for (let i = start; i < end; i++) {
-        const vector = vectors[i]!;
-        await this.put(vector);
-      }
+      const chunk = vectors.slice(start, end);
+
+      await this.writes.run(async () => {
+        const current = await this.readVersions(chunk.map(({ id }) => id));
+        const versions = new Map<string, number>();
+        const commands: Array<Promise<unknown>> = [];
+        chunk.forEach((vector, i) => {
+          const stored: VectorData = {
+            ...vector,
+            timestamp: vector.timestamp || Date.now(),
+            lastAccessed: Date.now(),
+            version: nextVersion(
+              vector.id,
+              versions.get(vector.id) ?? current[i] ?? null,
+            ),
+          };
+          versions.set(stored.id, stored.version!);
+          commands.push(...this.writeStored(stored));
+        });
+        await Promise.all(commands);
+      });
 
       if (options?.onProgress) {
         const progress: BatchProgress = {
@@ -308,59 +664,110 @@ export class RedisStorageAdapter implements StorageAdapter {
     }
   }
 
+  // ── Documents ───────────────────────────────────────────────────────────
+  // One HASH per collection, field = document key, value = JSON text.
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    const [text] = await this.getClient().hmget(this.documentKey(collection), [key]);
+    return text === null || text === undefined ? null : decodeDocument<T>(text);
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    const client = this.getClient();
+    await Promise.all([
+      client.send('HSET', [this.documentKey(collection), key, encodeDocument(document)]),
+      client.send('SADD', [this.documentCollectionsKey(), collection]),
+    ]);
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+    const removed = await this.getClient().send('HDEL', [
+      this.documentKey(collection),
+      key,
+    ]);
+    return Number(removed) > 0;
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    const client = this.getClient();
+    const hashKey = this.documentKey(collection);
+    const keys = (await client.send('HKEYS', [hashKey])) as string[];
+    if (keys.length === 0) return [];
+
+    const texts = await client.hmget(hashKey, keys);
+    const documents: Array<StoredDocument<T>> = [];
+    keys.forEach((key, i) => {
+      const text = texts[i];
+      if (text !== null && text !== undefined) {
+        documents.push({ key, document: decodeDocument<T>(text) });
+      }
+    });
+    return sortDocuments(documents);
+  }
+
   // ── Partial updates (read-modify-write) ─────────────────────────────────
 
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
-    const client = this.getClient();
-
-    const json = await client.get(this.vectorKey(id));
-    if (json === null) {
-      throw new VectorNotFoundError(id);
-    }
+    await this.writes.run(async () => {
+      const existing = await this.readStored(id);
+      if (!existing) {
+        throw new VectorNotFoundError(id);
+      }
 
-    const existing = jsonToVectorData(json);
-    existing.vector = vector;
+      existing.version = nextVersion(id, storedVersion(existing), options);
+      existing.vector = vector;
 
-    if (options?.updateMagnitude !== false) {
-      existing.magnitude = calculateMagnitude(vector);
-    }
+      if (options?.updateMagnitude !== false) {
+        existing.magnitude = calculateMagnitude(vector);
+      }
 
-    if (options?.updateTimestamp !== false) {
-      existing.timestamp = Date.now();
-    }
+      if (options?.updateTimestamp !== false) {
+        existing.timestamp = Date.now();
+      }
 
-    await client.set(this.vectorKey(id), vectorDataToJson(existing));
+      await Promise.all(this.writeStored(existing));
+    });
   }
 
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
-    const client = this.getClient();
-
-    const json = await client.get(this.vectorKey(id));
-    if (json === null) {
-      throw new VectorNotFoundError(id);
-    }
+    await this.writes.run(async () => {
+      const existing = await this.readStored(id);
+      if (!existing) {
+        throw new VectorNotFoundError(id);
+      }
 
-    const existing = jsonToVectorData(json);
+      existing.version = nextVersion(id, storedVersion(existing), options);
 
-    if (options?.merge !== false && existing.metadata) {
-      existing.metadata = { ...existing.metadata, ...metadata };
-    } else {
-      existing.metadata = metadata;
-    }
+      if (options?.merge !== false && existing.metadata) {
+        existing.metadata = { ...existing.metadata, ...metadata };
+      } else {
+        existing.metadata = metadata;
+      }
 
-    if (options?.updateTimestamp !== false) {
-      existing.timestamp = Date.now();
-    }
+      if (options?.updateTimestamp !== false) {
+        existing.timestamp = Date.now();
+      }
 
-    await client.set(this.vectorKey(id), vectorDataToJson(existing));
+      await Promise.all(this.writeStored(existing));
+    });
   }
 
   async updateBatch(
@@ -375,33 +782,33 @@ export class RedisStorageAdapter implements StorageAdapter {
     failed: number;
     errors: Array<{ id: string; error: Error }>;
   }> {
-    const client = this.getClient();
     let succeeded = 0;
     let failed = 0;
     const errors: Array<{ id: string; error: Error }> = [];
 
     for (const update of updates) {
       try {
-        const json = await client.get(this.vectorKey(update.id));
-        if (json === null) {
-          throw new VectorNotFoundError(update.id);
-        }
-
-        const existing = jsonToVectorData(json);
-
-        if (update.vector) {
-          existing.vector = update.vector;
-          existing.magnitude = calculateMagnitude(update.vector);
-        }
-
-        if (update.metadata) {
-          existing.metadata = existing.metadata
-            ? { ...existing.metadata, ...update.metadata }
-            : update.metadata;
-        }
-
-        existing.timestamp = Date.now();
-        await client.set(this.vectorKey(update.id), vectorDataToJson(existing));
+        await this.writes.run(async () => {
+          const existing = await this.readStored(update.id);
+          if (!existing) {
+            throw new VectorNotFoundError(update.id);
+          }
+
+          if (update.vector) {
+            existing.vector = update.vector;
+            existing.magnitude = calculateMagnitude(update.vector);
+          }
+
+          if (update.metadata) {
+            existing.metadata = existing.metadata
+              ? { ...existing.metadata, ...update.metadata }
+              : update.metadata;
+          }
+
+          existing.timestamp = Date.now();
+          existing.version = nextVersion(update.id, storedVersion(existing));
+          await Promise.all(this.writeStored(existing));
+        });
         succeeded++;
       } catch (error) {
         failed++;
@@ -0,0 +1,439 @@
+import type {
+  MetadataFilter,
+  MetadataIndexDefinition,
+  StorageSearchHit,
+} from '@/core/types.js';
+import { metadataIndexKind } from '@/search/metadata-index-planner.js';
+
+// ---------------------------------------------------------------------------
+// RediSearch support for RedisStorageAdapter
+//
+// With the `search` option the adapter keeps an `FT.CREATE ... ON HASH`
+// index over its vector hashes: the raw FLOAT32 `embedding` field as a VECTOR
+// field, and each declared metadata field as a `meta_<field>` TAG or NUMERIC
+// field. k-NN queries become one FT.SEARCH whose pre-filter is the metadata
+// filter translated to the RediSearch query syntax.
+//
+// Translation is all-or-nothing: a filter with any condition the index cannot
+// answer exactly yields `null`, and the search engine scans instead.
+// ---------------------------------------------------------------------------
+
+/** Metrics RediSearch vector fields support, by library metric name */
+export type RedisSearchMetric = 'cosine' | 'euclidean' | 'dot';
+
+/**
+ * Configuration for the RediSearch index of a {@link RedisStorageAdapter}
+ */
+export interface RedisSearchOptions {
+  /** Vector dimension; every stored vector must have it */
+  dimension: number;
+  /** Default: `'cosine'` */
+  metric?: RedisSearchMetric;
+  /** `FLAT` is exact, `HNSW` approximate. Default: `'FLAT'` */
+  algorithm?: 'FLAT' | 'HNSW';
+  /**
+   * Metadata fields filters may use. `equality` and `multiEntry` fields are
+   * indexed as case-sensitive TAG fields over string values, `range` fields
+   * as NUMERIC fields.
+   */
+  fields?: MetadataIndexDefinition[];
+  /** Default: `<prefix>:idx` */
+  indexName?: string;
+}
+
+/** Hash field holding the raw FLOAT32 vector the index reads */
+export const EMBEDDING_FIELD = 'embedding';
+
+/** Alias the k-NN clause gives each result's distance */
+const DISTANCE_FIELD = '__distance';
+
+/** Separator between the elements of a `multiEntry` TAG field */
+const TAG_SEPARATOR = ',';
+
+const DISTANCE_METRICS: Record<RedisSearchMetric, string> = {
+  cosine: 'COSINE',
+  euclidean: 'L2',
+  dot: 'IP',
+};
+
+/** Hash field that holds the indexed copy of metadata `field` */
+export function metadataHashField(field: string): string {
+  return `meta_${field}`;
+}
+
+/**
+ * Arguments of the `FT.CREATE` command for an index over the hashes under
+ * `keyPrefix`
+ */
+export function createIndexArguments(
+  indexName: string,
+  keyPrefix: string,
+  options: RedisSearchOptions,
+): string[] {
+  const algorithm = options.algorithm ?? 'FLAT';
+  const metric = DISTANCE_METRICS[options.metric ?? 'cosine'];
+  const schema = [
+    EMBEDDING_FIELD,
+    'VECTOR',
+    algorithm,
+    '6',
+    'TYPE',
+    'FLOAT32',
+    'DIM',
+    String(options.dimension),
+    'DISTANCE_METRIC',
+    metric,
+  ];
+  for (const definition of options.fields ?? []) {
+    const name = metadataHashField(definition.field);
+    if (metadataIndexKind(definition) === 'range') {
+      schema.push(name, 'NUMERIC');
+    } else {
+      schema.push(name, 'TAG', 'SEPARATOR', TAG_SEPARATOR, 'CASESENSITIVE');
+    }
+  }
+  return [indexName, 'ON', 'HASH', 'PREFIX', '1', keyPrefix, 'SCHEMA', ...schema];
+}
+
+/**
+ * Values to store in the hash fields of the declared metadata fields, or
+ * `null` for a field whose value the index cannot hold
+ */
+export function indexedMetadataFields(
+  metadata: Record<string, unknown> | undefined,
+  fields: readonly MetadataIndexDefinition[],
+): Array<[string, string | null]> {
+  return fields.map((definition) => {
+    const value = metadata?.[definition.field];
+    let stored: string | null = null;
+    switch (metadataIndexKind(definition)) {
+      case 'range':
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          stored = String(value);
+        }
+        break;
+      case 'multiEntry':
+        if (
+          Array.isArray(value) &&
+          value.length > 0 &&
+          value.every((element) => isTagValue(element))
+        ) {
+          stored = value.join(TAG_SEPARATOR);
+        }
+        break;
+      default:
+        if (isTagValue(value)) {
+          stored = value;
+        }
+        break;
+    }
+    return [metadataHashField(definition.field), stored];
+  });
+}
+
+function isTagValue(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && !value.includes(TAG_SEPARATOR);
+}
+
+function escapeTag(value: string): string {
+  return value.replaceAll(/[^\p{L}\p{N}_]/gu, (character) => `\\${character}`);
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof RegExp) &&
+    Object.keys(value).some((key) => key.startsWith('$'))
+  );
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function tagClause(name: string, values: unknown[]): string | null {
+  if (values.length === 0 || !values.every((value) => isTagValue(value))) {
+    return null;
+  }
+  return `@${name}:{${values.map((value) => escapeTag(value)).join(' | ')}}`;
+}
+
+function numericClause(name: string, lower: string, upper: string): string {
+  return `@${name}:[${lower} ${upper}]`;
+}
+
+function translateEquality(name: string, condition: unknown): string | null {
+  if (!isOperatorObject(condition)) {
+    return tagClause(name, [condition]);
+  }
+  const clauses: string[] = [];
+  for (const [operator, operand] of Object.entries(condition)) {
+    let clause: string | null;
+    switch (operator) {
+      case '$eq':
+        clause = tagClause(name, [operand]);
+        break;
+      case '$ne':
+        clause = tagClause(name, [operand]);
+        clause &&= `-${clause}`;
+        break;
+      case '$in':
+        clause = Array.isArray(operand) ? tagClause(name, operand) : null;
+        break;
+      case '$nin':
+        clause = Array.isArray(operand) ? tagClause(name, operand) : null;
+        clause &&= `-${clause}`;
+        break;
+      default:
+        clause = null;
+        break;
+    }
+    if (clause === null) {
+      return null;
+    }
+    clauses.push(clause);
+  }
+  return clauses.join(' ');
+}
+
+function translateRange(name: string, condition: unknown): string | null {
+  if (!isOperatorObject(condition)) {
+    return isFiniteNumber(condition)
+      ? numericClause(name, String(condition), String(condition))
+      : null;
+  }
+  const clauses: string[] = [];
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (operator === '$between') {
+      if (
+        !Array.isArray(operand) ||
+        operand.length !== 2 ||
+        !isFiniteNumber(operand[0]) ||
+        !isFiniteNumber(operand[1])
+      ) {
+        return null;
+      }
+      clauses.push(numericClause(name, String(operand[0]), String(operand[1])));
+      continue;
+    }
+    if (!isFiniteNumber(operand)) {
+      return null;
+    }
+    const value = String(operand);
+    switch (operator) {
+      case '$eq':
+        clauses.push(numericClause(name, value, value));
+        break;
+      case '$ne':
+        clauses.push(`-${numericClause(name, value, value)}`);
+        break;
+      case '$gt':
+        clauses.push(numericClause(name, `(${value}`, '+inf'));
+        break;
+      case '$gte':
+        clauses.push(numericClause(name, value, '+inf'));
+        break;
+      case '$lt':
+        clauses.push(numericClause(name, '-inf', `(${value}`));
+        break;
+      case '$lte':
+        clauses.push(numericClause(name, '-inf', value));
+        break;
+      default:
+        return null;
+    }
+  }
+  return clauses.join(' ');
+}
+
+function translateMultiEntry(name: string, condition: unknown): string | null {
+  if (!isOperatorObject(condition)) {
+    return null;
+  }
+  const clauses: string[] = [];
+  for (const [operator, operand] of Object.entries(condition)) {
+    let clause: string | null;
+    if (operator === '$all' && Array.isArray(operand) && operand.length > 0) {
+      const members = operand.map((value) => tagClause(name, [value]));
+      clause = members.includes(null) ? null : members.join(' ');
+    } else if (operator === '$elemMatch') {
+      clause = tagClause(name, [operand]);
+    } else {
+      clause = null;
+    }
+    if (clause === null) {
+      return null;
+    }
+    clauses.push(clause);
+  }
+  return clauses.join(' ');
+}
+
+/**
+ * Translate `filter` into a RediSearch query over the declared `fields`, or
+ * return `null` when any part of it cannot be answered exactly by the index
+ */
+export function translateMetadataFilter(
+  filter: MetadataFilter,
+  fields: readonly MetadataIndexDefinition[],
+): string | null {
+  const definitions = new Map(fields.map((definition) => [definition.field, definition]));
+
+  const translate = (node: MetadataFilter): string | null => {
+    const clauses: string[] = [];
+    for (const [key, condition] of Object.entries(node)) {
+      let clause: string | null = null;
+      if (key === '$and' || key === '$or') {
+        const children = Array.isArray(condition)
+          ? (condition as MetadataFilter[]).map((child) => translate(child))
+          : [];
+        if (children.length > 0 && !children.includes(null)) {
+          const grouped = children.map((child) => `(${child})`);
+          // Parenthesized, so the union cannot bind to neighbouring clauses
+          clause = key === '$and' ? grouped.join(' ') : `(${grouped.join(' | ')})`;
+        }
+      } else if (key === '$not') {
+        const child = translate(condition as MetadataFilter);
+        clause = child === null ? null : `-(${child})`;
+      } else {
+        const definition = definitions.get(key);
+        if (definition) {
+          const name = metadataHashField(key);
+          switch (metadataIndexKind(definition)) {
+            case 'range':
+              clause = translateRange(name, condition);
+              break;
+            case 'multiEntry':
+              clause = translateMultiEntry(name, condition);
+              break;
+            default:
+              clause = translateEquality(name, condition);
+              break;
+          }
+        }
+      }
+      if (!clause) {
+        return null;
+      }
+      clauses.push(clause);
+    }
+    return clauses.length > 0 ? clauses.join(' ') : null;
+  };
+
+  return translate(filter);
+}
+
+/**
+ * Arguments of the `FT.SEARCH` command for the `k` nearest neighbours of
+ * `vector` among the records matching `query` (`*` for all), returning each
+ * hit's distance and the hash fields in `returnFields`
+ */
+export function knnSearchArguments(
+  indexName: string,
+  vector: Float32Array,
+  k: number,
+  query: string,
+  returnFields: string[],
+): Array<string | Uint8Array> {
+  const prefilter = query === '*' ? '*' : `(${query})`;
+  return [
+    indexName,
+    `${prefilter}=>[KNN ${k} @${EMBEDDING_FIELD} $vec AS ${DISTANCE_FIELD}]`,
+    'PARAMS',
+    '2',
+    'vec',
+    new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength),
+    'SORTBY',
+    DISTANCE_FIELD,
+    'RETURN',
+    String(returnFields.length + 1),
+    DISTANCE_FIELD,
+    ...returnFields,
+    'LIMIT',
+    '0',
+    String(k),
+    'DIALECT',
+    '2',
+  ];
+}
+
+/** One document of an FT.SEARCH reply */
+export interface SearchReplyDocument {
+  key: string;
+  fields: Record<string, string>;
+}
+
+function pairsToRecord(pairs: unknown): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (Array.isArray(pairs)) {
+    for (let i = 0; i + 1 < pairs.length; i += 2) {
+      fields[String(pairs[i])] = String(pairs[i + 1]);
+    }
+  } else if (pairs && typeof pairs === 'object') {
+    for (const [name, value] of Object.entries(pairs)) {
+      fields[name] = String(value);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Read the documents out of an FT.SEARCH reply, in either the RESP2 shape
+ * (`[total, key, [field, value, ...], ...]`) or the RESP3 map the Bun client
+ * negotiates with Redis 7.2 and later
+ */
+export function parseSearchReply(reply: unknown): SearchReplyDocument[] {
+  if (Array.isArray(reply)) {
+    const documents: SearchReplyDocument[] = [];
+    for (let i = 1; i + 1 < reply.length; i += 2) {
+      documents.push({ key: String(reply[i]), fields: pairsToRecord(reply[i + 1]) });
+    }
+    return documents;
+  }
+  const results = (reply as { results?: unknown } | null)?.results;
+  if (!Array.isArray(results)) {
+    return [];
+  }
+  return results.map((result: { id?: unknown; extra_attributes?: unknown }) => ({
+    key: String(result.id),
+    fields: pairsToRecord(result.extra_attributes),
+  }));
+}
+
+/**
+ * Convert a RediSearch vector score to the library's distance for `metric`:
+ * `COSINE` already is cosine distance, `L2` is the squared Euclidean
+ * distance, and `IP` is `1 - dot` where the library uses `-dot`
+ */
+export function scoreToDistance(score: number, metric: RedisSearchMetric): number {
+  switch (metric) {
+    case 'euclidean':
+      return Math.sqrt(Math.max(0, score));
+    case 'dot':
+      return score - 1;
+    default:
+      return score;
+  }
+}
+
+/**
+ * Build search hits from the documents of an FT.SEARCH reply. `metadataOf`
+ * extracts a hit's metadata from its returned fields.
+ */
+export function toSearchHits(
+  documents: SearchReplyDocument[],
+  keyPrefix: string,
+  metric: RedisSearchMetric,
+  metadataOf: (fields: Record<string, string>) => Record<string, unknown> | undefined,
+): StorageSearchHit[] {
+  return documents.map(({ key, fields }) => {
+    const metadata = metadataOf(fields);
+    return {
+      id: key.startsWith(keyPrefix) ? key.slice(keyPrefix.length) : key,
+      distance: scoreToDistance(Number(fields[DISTANCE_FIELD]), metric),
+      ...(metadata && { metadata }),
+    };
+  });
+}
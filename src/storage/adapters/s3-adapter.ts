@@ -5,17 +5,27 @@ import type {
   ScanCapabilities,
   ScanOptions,
   StorageAdapter,
+  StoredDocument,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
 import {
   S3_ADAPTER_CAPABILITIES,
   type AdapterCapabilities,
 } from './adapter-capabilities.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  sortDocuments,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from './documents.js';
 import {
   calculateMagnitude,
   jsonToVectorData,
   vectorDataToJson,
 } from './serialization.js';
+import { nextVersion, storedVersion } from './versioning.js';
 
 // ---------------------------------------------------------------------------
 // Bun S3 types (declared inline since @types/bun may not yet include the
@@ -118,6 +128,8 @@ export class S3StorageAdapter implements StorageAdapter {
   private readonly s3Options: BunS3Options;
   private s3: BunS3Client | null = null;
   private index: Set<string> = new Set();
+  /** Document keys by collection, mirrored to `__documents__.json` */
+  private documentIndex = new Map<string, Set<string>>();
 
   /** Promise-based mutex to serialise index mutations within this instance. */
   private mutexQueue: Promise<void> = Promise.resolve();
@@ -188,6 +200,17 @@ export class S3StorageAdapter implements StorageAdapter {
     } catch {
       this.index = new Set();
     }
+
+    // Load the document manifest
+    const documentBody = await this.getObject(this.documentIndexKey()).catch(() => null);
+    const collections =
+      documentBody === null ? {} : (JSON.parse(documentBody) as Record<string, string[]>);
+    this.documentIndex = new Map(
+      Object.entries(collections).map(([collection, keys]) => [
+        collection,
+        new Set(keys),
+      ]),
+    );
   }
 
   async close(): Promise<void> {
@@ -206,22 +229,32 @@ export class S3StorageAdapter implements StorageAdapter {
         }
         // Delete the index manifest
         await this.deleteObject(this.indexKey());
+        // Delete all documents and their manifest
+        for (const [collection, keys] of this.documentIndex) {
+          for (const key of keys) {
+            await this.deleteObject(this.documentObjectKey(collection, key));
+          }
+        }
+        await this.deleteObject(this.documentIndexKey());
         this.s3 = null;
       }
       this.index = new Set();
+      this.documentIndex = new Map();
     });
   }
 
   // ── Single-item CRUD ────────────────────────────────────────────────────
 
-  async put(vector: VectorData): Promise<void> {
-    const data: VectorData = {
-      ...vector,
-      timestamp: vector.timestamp || Date.now(),
-      lastAccessed: Date.now(),
-    };
-
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
     await this.withMutex(async () => {
+      const existing = await this.readStoredUnlocked(vector.id);
+      const data: VectorData = {
+        ...vector,
+        timestamp: vector.timestamp || Date.now(),
+        lastAccessed: Date.now(),
+        version: nextVersion(vector.id, storedVersion(existing), condition),
+      };
+
       await this.putObject(this.vectorKey(data.id), vectorDataToJson(data));
       this.index.add(data.id);
       await this.persistIndex();
@@ -411,10 +444,12 @@ export class S3StorageAdapter implements StorageAdapter {
       await this.withMutex(async () => {
         for (let i = start; i < end; i++) {
           const vector = vectors[i]!;
+          const existing = await this.readStoredUnlocked(vector.id);
           const data: VectorData = {
             ...vector,
             timestamp: vector.timestamp || Date.now(),
             lastAccessed: Date.now(),
+            version: nextVersion(vector.id, storedVersion(existing)),
           };
 
           await this.putObject(this.vectorKey(data.id), vectorDataToJson(data));
@@ -438,16 +473,84 @@ export class S3StorageAdapter implements StorageAdapter {
     }
   }
 
+  // ── Documents ───────────────────────────────────────────────────────────
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    return this.withMutex(async () => {
+      if (!this.documentIndex.get(collection)?.has(key)) {
+        return null;
+      }
+      const body = await this.getObject(this.documentObjectKey(collection, key));
+      return body === null ? null : decodeDocument<T>(body);
+    });
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    const body = encodeDocument(document);
+    await this.withMutex(async () => {
+      await this.putObject(this.documentObjectKey(collection, key), body);
+      let keys = this.documentIndex.get(collection);
+      if (!keys) {
+        keys = new Set();
+        this.documentIndex.set(collection, keys);
+      }
+      if (!keys.has(key)) {
+        keys.add(key);
+        await this.persistDocumentIndex();
+      }
+    });
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+    return this.withMutex(async () => {
+      const keys = this.documentIndex.get(collection);
+      if (!keys?.has(key)) {
+        return false;
+      }
+      await this.deleteObject(this.documentObjectKey(collection, key));
+      keys.delete(key);
+      if (keys.size === 0) {
+        this.documentIndex.delete(collection);
+      }
+      await this.persistDocumentIndex();
+      return true;
+    });
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    return this.withMutex(async () => {
+      const documents: Array<StoredDocument<T>> = [];
+      for (const key of this.documentIndex.get(collection) ?? []) {
+        const body = await this.getObject(this.documentObjectKey(collection, key));
+        if (body !== null) {
+          documents.push({ key, document: decodeDocument<T>(body) });
+        }
+      }
+      return sortDocuments(documents);
+    });
+  }
+
   // ── Partial updates (read-modify-write) ─────────────────────────────────
 
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
     await this.withMutex(async () => {
       const existing = await this.readExistingUnlocked(id);
 
+      existing.version = nextVersion(id, storedVersion(existing), options);
       existing.vector = vector;
 
       if (options?.updateMagnitude !== false) {
@@ -465,11 +568,13 @@ export class S3StorageAdapter implements StorageAdapter {
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
     await this.withMutex(async () => {
       const existing = await this.readExistingUnlocked(id);
 
+      existing.version = nextVersion(id, storedVersion(existing), options);
+
       if (options?.merge !== false && existing.metadata) {
         existing.metadata = { ...existing.metadata, ...metadata };
       } else {
@@ -517,6 +622,7 @@ export class S3StorageAdapter implements StorageAdapter {
           }
 
           existing.timestamp = Date.now();
+          existing.version = nextVersion(update.id, storedVersion(existing));
           await this.putObject(this.vectorKey(update.id), vectorDataToJson(existing));
           succeeded++;
         } catch (error) {
@@ -553,6 +659,19 @@ export class S3StorageAdapter implements StorageAdapter {
     return jsonToVectorData(body);
   }
 
+  /**
+   * Read a vector from S3, or `undefined` when it is not stored.
+   * Must be called from within `withMutex` — does not acquire the mutex itself.
+   */
+  private async readStoredUnlocked(id: string): Promise<VectorData | undefined> {
+    if (!this.index.has(id)) {
+      return undefined;
+    }
+
+    const body = await this.getObject(this.vectorKey(id));
+    return body === null ? undefined : jsonToVectorData(body);
+  }
+
   private vectorKey(id: string): string {
     return `${this.prefix}vectors/${encodeURIComponent(id)}.json`;
   }
@@ -561,6 +680,14 @@ export class S3StorageAdapter implements StorageAdapter {
     return `${this.prefix}__index__.json`;
   }
 
+  private documentObjectKey(collection: string, key: string): string {
+    return `${this.prefix}documents/${collection}/${encodeURIComponent(key)}.json`;
+  }
+
+  private documentIndexKey(): string {
+    return `${this.prefix}__documents__.json`;
+  }
+
   private requireS3(): BunS3Client {
     if (!this.s3) {
       throw new Error(
@@ -599,4 +726,11 @@ export class S3StorageAdapter implements StorageAdapter {
     const json = JSON.stringify(Array.from(this.index));
     await this.putObject(this.indexKey(), json);
   }
+
+  private async persistDocumentIndex(): Promise<void> {
+    const collections = Object.fromEntries(
+      [...this.documentIndex].map(([collection, keys]) => [collection, [...keys]]),
+    );
+    await this.putObject(this.documentIndexKey(), JSON.stringify(collections));
+  }
 }
@@ -25,6 +25,7 @@ export interface SerializedVectorData {
   timestamp: number;
   lastAccessed?: number;
   accessCount?: number;
+  version?: number;
   compression?: VectorData['compression'];
 }
 
@@ -37,6 +38,16 @@ export function calculateMagnitude(vector: Float32Array): number {
   return Math.sqrt(sum);
 }
 
+/**
+ * `vector` itself when it spans its whole buffer, otherwise a copy that does.
+ * Structured cloning a view copies the entire buffer behind it, so records
+ * holding views into a larger block (as `addColumns()` builds them) are
+ * detached before IndexedDB or `structuredClone` sees them.
+ */
+export function detachVector(vector: Float32Array): Float32Array {
+  return vector.byteLength === vector.buffer.byteLength ? vector : vector.slice();
+}
+
 // ---------------------------------------------------------------------------
 // JSON serialization
 // ---------------------------------------------------------------------------
@@ -65,6 +76,9 @@ export function vectorDataToSerializable(data: VectorData): SerializedVectorData
   if (data.accessCount !== undefined) {
     serialized.accessCount = data.accessCount;
   }
+  if (data.version !== undefined) {
+    serialized.version = data.version;
+  }
   if (data.compression !== undefined) {
     serialized.compression = data.compression;
   }
@@ -96,6 +110,9 @@ export function serializableToVectorData(serialized: SerializedVectorData): Vect
   if (serialized.accessCount !== undefined) {
     result.accessCount = serialized.accessCount;
   }
+  if (serialized.version !== undefined) {
+    result.version = serialized.version;
+  }
   if (serialized.compression !== undefined) {
     result.compression = serialized.compression;
   }
@@ -170,6 +187,7 @@ interface BinaryRemainingFields {
   normalized?: boolean;
   lastAccessed?: number;
   accessCount?: number;
+  version?: number;
   compression?: VectorData['compression'];
 }
 
@@ -193,9 +211,12 @@ const CRC_TABLE: Uint32Array = (() => {
 /**
  * Compute a CRC-32 checksum over a Uint8Array view of a buffer.
  * Returns an unsigned 32-bit integer.
+ *
+ * Pass the checksum of the preceding bytes as `seed` to checksum a payload in
+ * pieces: `crc32(b, crc32(a))` equals the checksum of `a` followed by `b`.
  */
-function crc32(data: Uint8Array): number {
-  let crc = 0xffffffff;
+export function crc32(data: Uint8Array, seed = 0): number {
+  let crc = (seed ^ 0xffffffff) >>> 0;
   for (let i = 0; i < data.length; i++) {
     crc = (CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8)) >>> 0;
   }
@@ -228,6 +249,9 @@ function buildBinaryRemainingFields(data: VectorData): BinaryRemainingFields {
   if (data.accessCount !== undefined) {
     fields.accessCount = data.accessCount;
   }
+  if (data.version !== undefined) {
+    fields.version = data.version;
+  }
   if (data.compression !== undefined) {
     fields.compression = data.compression;
   }
@@ -261,6 +285,9 @@ function binaryFieldsToVectorData(
   if (remaining.accessCount !== undefined) {
     data.accessCount = remaining.accessCount;
   }
+  if (remaining.version !== undefined) {
+    data.version = remaining.version;
+  }
   if (remaining.compression !== undefined) {
     data.compression = remaining.compression;
   }
@@ -1,19 +1,34 @@
-import { rm } from 'node:fs/promises';
+import { mkdir, readdir, rename, rm, stat } from 'node:fs/promises';
 
-import { VectorNotFoundError } from '@/core/errors.js';
+import {
+  SnapshotExistsError,
+  SnapshotNotFoundError,
+  VectorNotFoundError,
+} from '@/core/errors.js';
 import type {
   BatchOptions,
   BatchProgress,
   ScanCapabilities,
   ScanOptions,
+  SnapshotInfo,
   StorageAdapter,
+  StoredDocument,
+  TransactionOperation,
   VectorData,
+  WriteCondition,
 } from '@/core/types.js';
 import {
   SQLITE_ADAPTER_CAPABILITIES,
   type AdapterCapabilities,
 } from './adapter-capabilities.js';
+import {
+  decodeDocument,
+  encodeDocument,
+  validateDocumentCollection,
+  validateDocumentKey,
+} from './documents.js';
 import { calculateMagnitude } from './serialization.js';
+import { nextVersion } from './versioning.js';
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -28,6 +43,35 @@ function vectorToBlob(vector: Float32Array): Uint8Array {
   return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
 }
 
+/** Replaces the row, storing one more than the replaced row's version. */
+const INSERT_VECTOR_SQL = `INSERT OR REPLACE INTO vectors
+        (id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression, version)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE((SELECT version FROM vectors WHERE id = ?), 0) + 1)`;
+
+/** Parameters for {@link INSERT_VECTOR_SQL}, in column order. */
+function insertParameters(vector: VectorData, now: number): unknown[] {
+  return [
+    vector.id,
+    vectorToBlob(vector.vector),
+    vector.metadata !== undefined ? JSON.stringify(vector.metadata) : null,
+    vector.magnitude,
+    vector.format ?? null,
+    vector.normalized ? 1 : 0,
+    vector.timestamp || now,
+    now,
+    vector.accessCount ?? 0,
+    vector.compression !== undefined ? JSON.stringify(vector.compression) : null,
+    vector.id,
+  ];
+}
+
+/** Every column of the vectors table, for copying rows verbatim. */
+const VECTOR_COLUMNS =
+  'id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression, version';
+
+/** Inserts a row read with {@link VECTOR_COLUMNS}, version included. */
+const COPY_VECTOR_SQL = `INSERT INTO vectors (${VECTOR_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
 function blobToVector(blob: Uint8Array): Float32Array {
   // Copy into an aligned buffer. bun:sqlite may return a Uint8Array whose
   // byteOffset is not a multiple of 4, which would cause Float32Array to
@@ -51,6 +95,7 @@ interface VectorRow {
   last_accessed: number;
   access_count: number;
   compression: string | null;
+  version: number;
 }
 
 function rowToVectorData(row: VectorRow): VectorData {
@@ -87,9 +132,27 @@ function rowToVectorData(row: VectorRow): VectorData {
     >;
   }
 
+  if (row.version > 0) {
+    data.version = row.version;
+  }
+
   return data;
 }
 
+interface SnapshotInfoRow {
+  label: string;
+  created_at: number;
+  vector_count: number;
+  attachment: Uint8Array;
+}
+
+/** Snapshot of an in-memory database, which has no file to copy. */
+interface MemorySnapshot {
+  info: SnapshotInfo;
+  rows: unknown[][];
+  attachment: Uint8Array;
+}
+
 // ---------------------------------------------------------------------------
 // SQLiteStorageAdapter
 // ---------------------------------------------------------------------------
@@ -101,6 +164,7 @@ interface BunSQLiteDatabase {
   query(sql: string): {
     get(...params: unknown[]): unknown;
     all(...params: unknown[]): unknown[];
+    values(...params: unknown[]): unknown[][];
   };
   prepare(sql: string): {
     run(...params: unknown[]): { changes: number };
@@ -114,6 +178,8 @@ export class SQLiteStorageAdapter implements StorageAdapter {
   static readonly capabilities: AdapterCapabilities = SQLITE_ADAPTER_CAPABILITIES;
 
   private readonly filename: string;
+  private readonly snapshotDirectory: string;
+  private readonly memorySnapshots = new Map<string, MemorySnapshot>();
   private database: BunSQLiteDatabase | null = null;
 
   constructor(options: SQLiteStorageAdapterOptions) {
@@ -121,6 +187,7 @@ export class SQLiteStorageAdapter implements StorageAdapter {
       throw new Error('SQLiteStorageAdapter requires the Bun runtime');
     }
     this.filename = options.filename;
+    this.snapshotDirectory = `${options.filename}-snapshots`;
   }
 
   // ── Lifecycle ───────────────────────────────────────────────────────────
@@ -150,9 +217,29 @@ export class SQLiteStorageAdapter implements StorageAdapter {
         timestamp INTEGER NOT NULL,
         last_accessed INTEGER NOT NULL,
         access_count INTEGER NOT NULL DEFAULT 0,
-        compression TEXT
+        compression TEXT,
+        version INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        collection TEXT NOT NULL,
+        key TEXT NOT NULL,
+        document TEXT NOT NULL,
+        PRIMARY KEY (collection, key)
       )
     `);
+
+    // Tables created before per-record versions lack the column
+    const columns = this.database.query('PRAGMA table_info(vectors)').all() as Array<{
+      name: string;
+    }>;
+    if (!columns.some((column) => column.name === 'version')) {
+      this.database.exec(
+        'ALTER TABLE vectors ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      );
+    }
   }
 
   async close(): Promise<void> {
@@ -173,32 +260,27 @@ export class SQLiteStorageAdapter implements StorageAdapter {
       await rm(this.filename, { force: true });
       await rm(`${this.filename}-wal`, { force: true });
       await rm(`${this.filename}-shm`, { force: true });
+      await rm(this.snapshotDirectory, { recursive: true, force: true });
     }
+    this.memorySnapshots.clear();
   }
 
   // ── Single-item CRUD ────────────────────────────────────────────────────
 
-  async put(vector: VectorData): Promise<void> {
+  async put(vector: VectorData, condition?: WriteCondition): Promise<void> {
     const database = this.requireDatabase();
     const now = Date.now();
 
-    database.run(
-      `INSERT OR REPLACE INTO vectors
-        (id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        vector.id,
-        vectorToBlob(vector.vector),
-        vector.metadata !== undefined ? JSON.stringify(vector.metadata) : null,
-        vector.magnitude,
-        vector.format ?? null,
-        vector.normalized ? 1 : 0,
-        vector.timestamp || now,
-        now,
-        vector.accessCount ?? 0,
-        vector.compression !== undefined ? JSON.stringify(vector.compression) : null,
-      ],
-    );
+    if (!condition) {
+      database.run(INSERT_VECTOR_SQL, insertParameters(vector, now));
+      return;
+    }
+
+    // One transaction, so no other connection writes between check and write
+    database.transaction(() => {
+      nextVersion(vector.id, this.readVersion(vector.id), condition);
+      database.run(INSERT_VECTOR_SQL, insertParameters(vector, now));
+    })();
   }
 
   async get(id: string): Promise<VectorData> {
@@ -207,7 +289,7 @@ export class SQLiteStorageAdapter implements StorageAdapter {
 
     const row = database
       .query(
-        'SELECT id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression FROM vectors WHERE id = ?',
+        'SELECT id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression, version FROM vectors WHERE id = ?',
       )
       .get(id) as VectorRow | null;
 
@@ -248,7 +330,7 @@ export class SQLiteStorageAdapter implements StorageAdapter {
 
     const rows = database
       .query(
-        `SELECT id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression
+        `SELECT id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression, version
          FROM vectors WHERE id IN (${placeholders})`,
       )
       .all(...ids) as VectorRow[];
@@ -277,7 +359,7 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     const database = this.requireDatabase();
     const rows = database
       .query(
-        'SELECT id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression FROM vectors',
+        'SELECT id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression, version FROM vectors',
       )
       .all() as VectorRow[];
 
@@ -308,7 +390,7 @@ export class SQLiteStorageAdapter implements StorageAdapter {
       const database = this.requireDatabase();
       const rows = database
         .query(
-          'SELECT id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression FROM vectors ORDER BY id LIMIT ? OFFSET ?',
+          'SELECT id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression, version FROM vectors ORDER BY id LIMIT ? OFFSET ?',
         )
         .all(pageSize, offset) as VectorRow[];
 
@@ -354,26 +436,11 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     const totalBatches = Math.ceil(vectors.length / batchSize);
     const now = Date.now();
 
-    const insertStatement = database.prepare(
-      `INSERT OR REPLACE INTO vectors
-        (id, vector, metadata, magnitude, format, normalized, timestamp, last_accessed, access_count, compression)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-    );
+    const insertStatement = database.prepare(INSERT_VECTOR_SQL);
 
     const runBatch = database.transaction((batch: VectorData[]) => {
       for (const vector of batch) {
-        insertStatement.run(
-          vector.id,
-          vectorToBlob(vector.vector),
-          vector.metadata !== undefined ? JSON.stringify(vector.metadata) : null,
-          vector.magnitude,
-          vector.format ?? null,
-          vector.normalized ? 1 : 0,
-          vector.timestamp || now,
-          now,
-          vector.accessCount ?? 0,
-          vector.compression !== undefined ? JSON.stringify(vector.compression) : null,
-        );
+        insertStatement.run(...insertParameters(vector, now));
       }
     });
 
@@ -401,25 +468,46 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     }
   }
 
+  /** Runs every operation inside one SQLite transaction. */
+  async commitTransaction(operations: TransactionOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+
+    const database = this.requireDatabase();
+    const now = Date.now();
+    const insertStatement = database.prepare(INSERT_VECTOR_SQL);
+    const deleteStatement = database.prepare('DELETE FROM vectors WHERE id = ?');
+
+    const commit = database.transaction((batch: TransactionOperation[]) => {
+      for (const operation of batch) {
+        if (operation.type === 'put') {
+          insertStatement.run(...insertParameters(operation.vector, now));
+        } else {
+          deleteStatement.run(operation.id);
+        }
+      }
+    });
+
+    commit(operations);
+  }
+
   // ── Partial updates (read-modify-write) ─────────────────────────────────
 
   async updateVector(
     id: string,
     vector: Float32Array,
-    options?: { updateMagnitude?: boolean; updateTimestamp?: boolean },
+    options?: {
+      updateMagnitude?: boolean;
+      updateTimestamp?: boolean;
+      ifVersion?: number;
+    },
   ): Promise<void> {
     const database = this.requireDatabase();
 
-    const check = database.query('SELECT 1 FROM vectors WHERE id = ? LIMIT 1').get(id);
-    if (!check) {
-      throw new VectorNotFoundError(id);
-    }
-
     const magnitude =
       options?.updateMagnitude !== false ? calculateMagnitude(vector) : undefined;
     const timestamp = options?.updateTimestamp !== false ? Date.now() : undefined;
 
-    let sql = 'UPDATE vectors SET vector = ?';
+    let sql = 'UPDATE vectors SET vector = ?, version = ?';
     const params: (string | number | Uint8Array | null)[] = [vectorToBlob(vector)];
 
     if (magnitude !== undefined) {
@@ -434,46 +522,56 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     sql += ' WHERE id = ?';
     params.push(id);
 
-    database.run(sql, params);
+    database.transaction(() => {
+      const version = this.readVersion(id);
+      if (version === null) {
+        throw new VectorNotFoundError(id);
+      }
+      params.splice(1, 0, nextVersion(id, version, options));
+      database.run(sql, params);
+    })();
   }
 
   async updateMetadata(
     id: string,
     metadata: Record<string, unknown>,
-    options?: { merge?: boolean; updateTimestamp?: boolean },
+    options?: { merge?: boolean; updateTimestamp?: boolean; ifVersion?: number },
   ): Promise<void> {
     const database = this.requireDatabase();
 
-    const row = database.query('SELECT metadata FROM vectors WHERE id = ?').get(id) as {
-      metadata: string | null;
-    } | null;
+    database.transaction(() => {
+      const row = database
+        .query('SELECT metadata, version FROM vectors WHERE id = ?')
+        .get(id) as { metadata: string | null; version: number } | null;
 
-    if (!row) {
-      throw new VectorNotFoundError(id);
-    }
+      if (!row) {
+        throw new VectorNotFoundError(id);
+      }
 
-    let merged: Record<string, unknown>;
+      const version = nextVersion(id, row.version, options);
+      let merged: Record<string, unknown>;
 
-    if (options?.merge !== false && row.metadata) {
-      const existing = JSON.parse(row.metadata) as Record<string, unknown>;
-      merged = { ...existing, ...metadata };
-    } else {
-      merged = metadata;
-    }
+      if (options?.merge !== false && row.metadata) {
+        const existing = JSON.parse(row.metadata) as Record<string, unknown>;
+        merged = { ...existing, ...metadata };
+      } else {
+        merged = metadata;
+      }
 
-    const timestamp = options?.updateTimestamp !== false ? Date.now() : undefined;
-    let sql = 'UPDATE vectors SET metadata = ?';
-    const params: (string | number | null)[] = [JSON.stringify(merged)];
+      const timestamp = options?.updateTimestamp !== false ? Date.now() : undefined;
+      let sql = 'UPDATE vectors SET metadata = ?, version = ?';
+      const params: (string | number | null)[] = [JSON.stringify(merged), version];
 
-    if (timestamp !== undefined) {
-      sql += ', timestamp = ?';
-      params.push(timestamp);
-    }
+      if (timestamp !== undefined) {
+        sql += ', timestamp = ?';
+        params.push(timestamp);
+      }
 
-    sql += ' WHERE id = ?';
-    params.push(id);
+      sql += ' WHERE id = ?';
+      params.push(id);
 
-    database.run(sql, params);
+      database.run(sql, params);
+    })();
   }
 
   async updateBatch(
@@ -523,7 +621,7 @@ export class SQLiteStorageAdapter implements StorageAdapter {
             params.push(JSON.stringify(merged));
           }
 
-          setClauses.push('timestamp = ?');
+          setClauses.push('timestamp = ?', 'version = version + 1');
           params.push(Date.now());
 
           params.push(update.id);
@@ -548,8 +646,235 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     return { succeeded, failed, errors };
   }
 
+  // ── Snapshots ───────────────────────────────────────────────────────────
+  //
+  // A file-backed database is copied with `VACUUM INTO`, which writes a
+  // consistent, compacted copy without blocking readers, into
+  // `<filename>-snapshots/<label>.sqlite`. The copy also records its label,
+  // creation time and attachment, so the directory is the only registry.
+  // In-memory databases keep their rows in the adapter instead.
+
+  async createSnapshot(label: string, attachment: Uint8Array): Promise<SnapshotInfo> {
+    const database = this.requireDatabase();
+
+    if (this.filename === ':memory:') {
+      if (this.memorySnapshots.has(label)) {
+        throw new SnapshotExistsError(label);
+      }
+      const rows = database.query(`SELECT ${VECTOR_COLUMNS} FROM vectors`).values();
+      const info: SnapshotInfo = {
+        label,
+        createdAt: Date.now(),
+        vectorCount: rows.length,
+      };
+      this.memorySnapshots.set(label, { info, rows, attachment: attachment.slice() });
+      return { ...info };
+    }
+
+    const path = this.snapshotPath(label);
+    if (await this.fileExists(path)) {
+      throw new SnapshotExistsError(label);
+    }
+    await mkdir(this.snapshotDirectory, { recursive: true });
+
+    // Written under a temporary name so an interrupted copy is never listed
+    const partialPath = `${path}.partial`;
+    await rm(partialPath, { force: true });
+    const createdAt = Date.now();
+    database.run('VACUUM INTO ?', [partialPath]);
+    const vectorCount = this.withAttached(partialPath, () => {
+      database.exec(
+        'CREATE TABLE snapshot.snapshot_info (label TEXT NOT NULL, created_at INTEGER NOT NULL, vector_count INTEGER NOT NULL, attachment BLOB NOT NULL)',
+      );
+      const { count } = database
+        .query('SELECT COUNT(*) AS count FROM snapshot.vectors')
+        .get() as { count: number };
+      database.run('INSERT INTO snapshot.snapshot_info VALUES (?, ?, ?, ?)', [
+        label,
+        createdAt,
+        count,
+        attachment,
+      ]);
+      return count;
+    });
+    await rename(partialPath, path);
+
+    return { label, createdAt, vectorCount };
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    const database = this.requireDatabase();
+
+    if (this.filename === ':memory:') {
+      return Array.from(this.memorySnapshots.values(), ({ info }) => ({ ...info }));
+    }
+
+    let entries: string[];
+    try {
+      entries = await readdir(this.snapshotDirectory);
+    } catch {
+      return [];
+    }
+
+    const snapshots = entries
+      .filter((entry) => entry.endsWith('.sqlite'))
+      .map((entry) =>
+        this.withAttached(`${this.snapshotDirectory}/${entry}`, () => {
+          const row = database
+            .query('SELECT label, created_at, vector_count FROM snapshot.snapshot_info')
+            .get() as Omit<SnapshotInfoRow, 'attachment'>;
+          return {
+            label: row.label,
+            createdAt: row.created_at,
+            vectorCount: row.vector_count,
+          };
+        }),
+      );
+    return snapshots.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Swaps the rows in one transaction, so readers see either the current
+   * vectors or the snapshot's, never a mix.
+   */
+  async restoreSnapshot(
+    label: string,
+    check?: (attachment: Uint8Array) => void,
+  ): Promise<Uint8Array> {
+    const database = this.requireDatabase();
+
+    if (this.filename === ':memory:') {
+      const snapshot = this.memorySnapshots.get(label);
+      if (!snapshot) {
+        throw new SnapshotNotFoundError(label);
+      }
+      check?.(snapshot.attachment);
+      const insertStatement = database.prepare(COPY_VECTOR_SQL);
+      database.transaction(() => {
+        database.run('DELETE FROM vectors');
+        for (const row of snapshot.rows) {
+          insertStatement.run(...row);
+        }
+      })();
+      return snapshot.attachment.slice();
+    }
+
+    const path = this.snapshotPath(label);
+    if (!(await this.fileExists(path))) {
+      throw new SnapshotNotFoundError(label);
+    }
+
+    return this.withAttached(path, () => {
+      const row = database
+        .query('SELECT attachment FROM snapshot.snapshot_info')
+        .get() as Pick<SnapshotInfoRow, 'attachment'>;
+      const attachment = new Uint8Array(row.attachment);
+      check?.(attachment);
+
+      database.transaction(() => {
+        database.run('DELETE FROM main.vectors');
+        database.run(
+          `INSERT INTO main.vectors (${VECTOR_COLUMNS}) SELECT ${VECTOR_COLUMNS} FROM snapshot.vectors`,
+        );
+      })();
+      return attachment;
+    });
+  }
+
+  async deleteSnapshot(label: string): Promise<boolean> {
+    if (this.filename === ':memory:') {
+      return this.memorySnapshots.delete(label);
+    }
+
+    const path = this.snapshotPath(label);
+    if (!(await this.fileExists(path))) {
+      return false;
+    }
+    await rm(path);
+    return true;
+  }
+
+  // ── Documents ───────────────────────────────────────────────────────────
+  //
+  // Documents live in a `documents` table beside `vectors`; snapshots copy
+  // only the vectors.
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    validateDocumentKey(collection, key);
+    const row = this.requireDatabase()
+      .query('SELECT document FROM documents WHERE collection = ? AND key = ?')
+      .get(collection, key) as { document: string } | null;
+    return row ? decodeDocument<T>(row.document) : null;
+  }
+
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    validateDocumentKey(collection, key);
+    this.requireDatabase().run(
+      'INSERT OR REPLACE INTO documents (collection, key, document) VALUES (?, ?, ?)',
+      [collection, key, encodeDocument(document)],
+    );
+  }
+
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    validateDocumentKey(collection, key);
+    const result = this.requireDatabase().run(
+      'DELETE FROM documents WHERE collection = ? AND key = ?',
+      [collection, key],
+    );
+    return result.changes > 0;
+  }
+
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    validateDocumentCollection(collection);
+    const rows = this.requireDatabase()
+      .query('SELECT key, document FROM documents WHERE collection = ? ORDER BY key')
+      .all(collection) as Array<{ key: string; document: string }>;
+    return rows.map((row) => ({
+      key: row.key,
+      document: decodeDocument<T>(row.document),
+    }));
+  }
+
   // ── Internal helpers ────────────────────────────────────────────────────
 
+  /** Stored version of `id`, or `null` when there is no such row. */
+  private readVersion(id: string): number | null {
+    const row = this.requireDatabase()
+      .query('SELECT version FROM vectors WHERE id = ?')
+      .get(id) as { version: number } | null;
+    return row ? row.version : null;
+  }
+
+  private snapshotPath(label: string): string {
+    return `${this.snapshotDirectory}/${label}.sqlite`;
+  }
+
+  private async fileExists(path: string): Promise<boolean> {
+    try {
+      await stat(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Run `operation` with the database file at `path` attached as
+   * `snapshot`. Callers keep `operation` synchronous so no other snapshot
+   * call can attach in between.
+   */
+  private withAttached<T>(path: string, operation: () => T): T {
+    const database = this.requireDatabase();
+    database.run('ATTACH DATABASE ? AS snapshot', [path]);
+    try {
+      return operation();
+    } finally {
+      database.exec('DETACH DATABASE snapshot');
+    }
+  }
+
   private requireDatabase(): BunSQLiteDatabase {
     if (!this.database) {
       throw new Error(
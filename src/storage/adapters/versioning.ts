@@ -0,0 +1,63 @@
+import { VersionConflictError } from '@/core/errors.js';
+import type { VectorData, WriteCondition } from '@/core/types.js';
+
+// ---------------------------------------------------------------------------
+// Per-record version counters shared by the storage adapters
+// ---------------------------------------------------------------------------
+
+/**
+ * Version of a stored record, or `null` when there is none. Records stored
+ * before versioning count as version 0.
+ */
+export function storedVersion(record: VectorData | null | undefined): number | null {
+  return record ? (record.version ?? 0) : null;
+}
+
+/**
+ * Check `condition` against the stored version (`null` when there is no
+ * stored record) and return the version the write should store.
+ *
+ * Adapters call this between reading the stored version and writing, inside
+ * whatever atomic scope they have, so the check and the write are not
+ * interleaved with other writers.
+ *
+ * @throws VersionConflictError when the condition does not hold
+ */
+export function nextVersion(
+  id: string,
+  current: number | null,
+  condition?: WriteCondition,
+): number {
+  if (condition?.ifAbsent && current !== null) {
+    throw new VersionConflictError(id, null, current);
+  }
+  if (condition?.ifVersion !== undefined && current !== condition.ifVersion) {
+    throw new VersionConflictError(id, condition.ifVersion, current);
+  }
+  return (current ?? 0) + 1;
+}
+
+/**
+ * Runs read-modify-write steps one at a time, for adapters whose backend has
+ * no conditional write. Only writers sharing the adapter instance are
+ * serialized; `capabilities.concurrentWriters` says whether other processes
+ * writing the same store are safe.
+ */
+export class WriteQueue {
+  private tail: Promise<void> = Promise.resolve();
+
+  async run<T>(step: () => Promise<T>): Promise<T> {
+    const previous = this.tail;
+    let release = (): void => {};
+    this.tail = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    try {
+      await previous;
+      return await step();
+    } finally {
+      release();
+    }
+  }
+}
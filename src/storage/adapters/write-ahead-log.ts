@@ -0,0 +1,163 @@
+import type { VectorData } from '@/core/types.js';
+import { observability } from '@/debug/observability.js';
+import {
+  type SerializedVectorData,
+  serializableToVectorData,
+  vectorDataToSerializable,
+} from './serialization.js';
+
+// ---------------------------------------------------------------------------
+// Write-ahead log for adapters that store one file per vector
+//
+// The log is a text file of JSON lines, one per entry:
+//
+//   {"batch":1,"records":[...]}   the full records a batch will write
+//   {"commit":1}                  the batch is committed
+//
+// A batch is written to the log, then its commit marker, and only then to
+// the vector files. After a crash, `recover()` rewrites the files of every
+// committed batch and drops batches that never got their marker, so a batch
+// is either fully stored or not at all.
+//
+// Replaying a batch overwrites whatever a later write stored for the same
+// ids, so writes that bypass the log checkpoint it first. A checkpoint just
+// empties the file: batches are applied before the adapter moves on, so the
+// log never holds anything the vector files lack.
+// ---------------------------------------------------------------------------
+
+/** Log size past which applied batches are checkpointed: 4 MiB */
+export const DEFAULT_CHECKPOINT_BYTES = 4 * 1024 * 1024;
+
+/**
+ * The file holding a store's log, implemented by each adapter
+ */
+export interface WriteAheadLogFile {
+  /** The whole log, or an empty string when there is no file */
+  read(): Promise<string>;
+  /** Append `bytes` and return once they are durable */
+  append(bytes: Uint8Array): Promise<void>;
+  /** Empty the log */
+  truncate(): Promise<void>;
+}
+
+type LogEntry = { batch: number; records: SerializedVectorData[] } | { commit: number };
+
+export class WriteAheadLog {
+  private size = 0;
+  private sequence = 0;
+
+  /**
+   * @param file - Where the log is kept
+   * @param source - Store name reported in recovery events
+   * @param checkpointBytes - Log size past which `applied()` checkpoints
+   */
+  constructor(
+    private readonly file: WriteAheadLogFile,
+    private readonly source: string,
+    private readonly checkpointBytes = DEFAULT_CHECKPOINT_BYTES,
+  ) {}
+
+  /**
+   * Rewrite the records of every committed batch through `apply`, drop the
+   * rest and empty the log. Emits a `corruption_recovery` event when the
+   * log was not empty, which only happens after a crash.
+   */
+  async recover(apply: (records: VectorData[]) => Promise<void>): Promise<void> {
+    const text = await this.file.read();
+    if (!text) {
+      return;
+    }
+
+    const pending = new Map<number, SerializedVectorData[]>();
+    const committed: SerializedVectorData[][] = [];
+    // A line without its newline was cut off mid-append
+    const lines = text.split('\n').slice(0, -1);
+    for (const line of lines) {
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line) as LogEntry;
+      } catch {
+        break;
+      }
+      if ('batch' in entry) {
+        pending.set(entry.batch, entry.records);
+      } else {
+        const records = pending.get(entry.commit);
+        pending.delete(entry.commit);
+        if (records) {
+          committed.push(records);
+        }
+      }
+    }
+
+    let replayed = 0;
+    for (const records of committed) {
+      await apply(records.map(serializableToVectorData));
+      replayed += records.length;
+    }
+    await this.checkpoint(true);
+
+    if (committed.length > 0) {
+      this.report(
+        replayed,
+        `Replayed ${committed.length} committed batch(es) from the write-ahead log`,
+      );
+    }
+    const discarded = [...pending.values()].reduce((sum, { length }) => sum + length, 0);
+    if (pending.size > 0 || committed.length === 0) {
+      this.report(discarded, 'Discarded an uncommitted batch from the write-ahead log');
+    }
+  }
+
+  /**
+   * Log `records` as one batch and commit it. Once this resolves the batch
+   * survives a crash; the caller writes the records to their files next.
+   */
+  async commit(records: VectorData[]): Promise<void> {
+    const batch = ++this.sequence;
+    const encoder = new TextEncoder();
+    const entry = encoder.encode(
+      `${JSON.stringify({ batch, records: records.map(vectorDataToSerializable) })}\n`,
+    );
+    const marker = encoder.encode(`${JSON.stringify({ commit: batch })}\n`);
+
+    // Two appends, so the marker cannot become durable before the batch
+    await this.file.append(entry);
+    await this.file.append(marker);
+    this.size += entry.byteLength + marker.byteLength;
+  }
+
+  /**
+   * Call once a committed batch is written to its files. Checkpoints when
+   * the log has grown past the threshold.
+   */
+  async applied(): Promise<void> {
+    if (this.size >= this.checkpointBytes) {
+      await this.checkpoint();
+    }
+  }
+
+  /**
+   * Empty the log. Every committed batch must already be applied. Does
+   * nothing when nothing was logged since the last checkpoint, unless
+   * `force` is set.
+   */
+  async checkpoint(force = false): Promise<void> {
+    if (this.size === 0 && !force) {
+      return;
+    }
+    await this.file.truncate();
+    this.size = 0;
+  }
+
+  private report(affectedCount: number, description: string): void {
+    observability.emit({
+      type: 'corruption_recovery',
+      timestamp: performance.now(),
+      source: this.source,
+      recovered: true,
+      affectedCount,
+      description,
+    });
+  }
+}
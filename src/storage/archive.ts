@@ -0,0 +1,526 @@
+import { StorageCorruptionError, StorageFormatError } from '@/core/errors.js';
+import type { NamespaceConfig, VectorData } from '@/core/types.js';
+import {
+  SUPPORTED_BINARY_VERSIONS,
+  binaryToVectorData,
+  calculateMagnitude,
+  crc32,
+  serializableToVectorData,
+  vectorDataToBinary,
+  vectorDataToSerializable,
+  type SerializedVectorData,
+} from '@/storage/adapters/serialization.js';
+import { StreamByteReader } from '@/storage/stream-byte-reader.js';
+
+// ---------------------------------------------------------------------------
+// Portable database archive
+//
+// Wire format (version 1):
+//
+//   Offset  Size  Field
+//   ------  ----  -----
+//   0       4     Magic marker: 0x52414656 ("VFAR")
+//   4       1     Format version (currently 1)
+//   5       3     Reserved / padding (zeros)
+//   8       4     Header JSON byte length (uint32 LE)
+//   12      H     UTF-8 JSON header (see ArchiveHeader)
+//
+// followed by blocks, each framed as
+//
+//   0       1     Block type: 1 = index snapshot, 2 = records, 255 = end
+//   1       3     Reserved / padding (zeros)
+//   4       4     Payload byte length (uint32 LE)
+//   8       P     Payload
+//
+// An index block holds a vector-less HNSW snapshot (see hnsw-snapshot.ts) and
+// precedes the records, so readers know before the records arrive whether
+// to keep their vectors for it. A records block holds records as
+// [uint32 LE length][VECF record] pairs, each in the binary codec of
+// serialization.ts with its own checksum. The end block holds the record
+// count and a CRC-32 over every byte before the end block (uint32 LE each),
+// so a truncated or spliced archive is detected.
+//
+// The NDJSON form is one JSON object per line: a header line
+// `{"type":"header",...}` followed by records as written by
+// vectorDataToSerializable(). Readers accept NDJSON without the header line,
+// so record dumps from other tools can be imported.
+// ---------------------------------------------------------------------------
+
+/** Magic bytes that identify a binary archive. */
+export const ARCHIVE_MAGIC = 0x52414656; // "VFAR"
+
+/** Currently supported archive format versions.  Add future versions here. */
+export const SUPPORTED_ARCHIVE_VERSIONS = [1] as const;
+
+const PREAMBLE_SIZE = 12;
+const BLOCK_HEADER_SIZE = 8;
+
+const BLOCK_INDEX = 1;
+const BLOCK_RECORDS = 2;
+const BLOCK_END = 255;
+
+/** Records a writer collects before emitting a records block. */
+const RECORDS_PER_BLOCK = 256;
+
+/** Largest block or header a reader accepts, guarding against crafted lengths. */
+const MAX_BLOCK_BYTES = 512 * 1024 * 1024; // 512 MB
+
+/** Encodings an archive can be written in. */
+export type ArchiveFormat = 'archive' | 'ndjson';
+
+/**
+ * Self-description at the start of every archive
+ */
+export interface ArchiveHeader {
+  /** Archive format version */
+  formatVersion: number;
+  dimension: number;
+  distanceMetric: string;
+  /** Binary record codec and its version; `'json'` for NDJSON archives */
+  recordFormat: 'VECF' | 'json';
+  recordFormatVersion: number;
+  /** Set when the archive was exported from a namespace */
+  namespace?: { name: string; config: NamespaceConfig };
+  exportedAt: number;
+}
+
+/**
+ * Options for `VectorDB.export()`
+ */
+export interface ExportOptions {
+  /** Binary archive (default) or NDJSON */
+  format?: ArchiveFormat;
+  /** Include the HNSW graph so importers can skip rebuilding it (default true; archives only) */
+  includeIndex?: boolean;
+  /** Namespace recorded in the header; set by `VectorNamespace.export()` */
+  namespace?: { name: string; config: NamespaceConfig };
+  /** Aborts the export, aborting the destination stream */
+  signal?: AbortSignal;
+}
+
+export interface ExportResult {
+  exported: number;
+  indexIncluded: boolean;
+}
+
+/**
+ * Options for `VectorDB.import()`
+ */
+export interface ImportOptions {
+  /** Format of the source; detected from its first byte when omitted */
+  format?: ArchiveFormat;
+  /** Records written to storage per batch (default 500) */
+  batchSize?: number;
+  /** Called after each batch with the number of records imported so far */
+  onProgress?: (imported: number) => void;
+  /** Aborts the import; batches already written stay */
+  signal?: AbortSignal;
+}
+
+export interface ImportResult {
+  imported: number;
+  /** Whether the archive's HNSW graph was adopted instead of rebuilding the index */
+  indexRestored: boolean;
+}
+
+/**
+ * Writes an archive to a stream, one record at a time.
+ *
+ * Records are buffered into blocks and written as each block fills, so
+ * memory use does not grow with the number of records. Call {@link close}
+ * after the last record to write the trailer and close the stream.
+ */
+export class ArchiveWriter {
+  private pending: Uint8Array[] = [];
+  private checksum = 0;
+  private count = 0;
+  private recordsStarted = false;
+
+  private constructor(
+    private writer: WritableStreamDefaultWriter<Uint8Array>,
+    readonly format: ArchiveFormat,
+  ) {}
+
+  /**
+   * Start an archive on `destination` by writing its header
+   */
+  static async open(
+    destination: WritableStream<Uint8Array>,
+    header: Omit<ArchiveHeader, 'formatVersion' | 'recordFormat' | 'recordFormatVersion'>,
+    format: ArchiveFormat = 'archive',
+  ): Promise<ArchiveWriter> {
+    const archive = new ArchiveWriter(destination.getWriter(), format);
+
+    if (format === 'ndjson') {
+      await archive.writeLine({
+        type: 'header',
+        formatVersion: SUPPORTED_ARCHIVE_VERSIONS[0],
+        recordFormat: 'json',
+        recordFormatVersion: 1,
+        ...header,
+      });
+      return archive;
+    }
+
+    const json = new TextEncoder().encode(
+      JSON.stringify({
+        formatVersion: SUPPORTED_ARCHIVE_VERSIONS[0],
+        recordFormat: 'VECF',
+        recordFormatVersion: SUPPORTED_BINARY_VERSIONS[0],
+        ...header,
+      } satisfies ArchiveHeader),
+    );
+    const preamble = new Uint8Array(PREAMBLE_SIZE + json.byteLength);
+    const view = new DataView(preamble.buffer);
+    view.setUint32(0, ARCHIVE_MAGIC, true);
+    view.setUint8(4, SUPPORTED_ARCHIVE_VERSIONS[0]);
+    view.setUint32(8, json.byteLength, true);
+    preamble.set(json, PREAMBLE_SIZE);
+    await archive.emit(preamble);
+    return archive;
+  }
+
+  /**
+   * Include a vector-less HNSW snapshot. Must come before the first record;
+   * NDJSON archives have no place for it and skip it.
+   */
+  async writeIndexSnapshot(snapshot: ArrayBuffer): Promise<void> {
+    if (this.recordsStarted) {
+      throw new Error('The index snapshot must be written before any record');
+    }
+    if (this.format === 'ndjson') {
+      return;
+    }
+    await this.writeBlock(BLOCK_INDEX, [new Uint8Array(snapshot)]);
+  }
+
+  /**
+   * Append one record
+   */
+  async writeRecord(vectorData: VectorData): Promise<void> {
+    this.recordsStarted = true;
+    this.count++;
+
+    if (this.format === 'ndjson') {
+      await this.writeLine(vectorDataToSerializable(vectorData));
+      return;
+    }
+
+    const record = new Uint8Array(vectorDataToBinary(vectorData));
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, record.byteLength, true);
+    this.pending.push(length, record);
+
+    if (this.pending.length >= RECORDS_PER_BLOCK * 2) {
+      await this.flushRecords();
+    }
+  }
+
+  /**
+   * Number of records written so far
+   */
+  get recordCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Write the trailer and close the stream
+   */
+  async close(): Promise<void> {
+    if (this.format === 'archive') {
+      await this.flushRecords();
+      const trailer = new Uint8Array(8);
+      const view = new DataView(trailer.buffer);
+      view.setUint32(0, this.count, true);
+      view.setUint32(4, this.checksum, true);
+      await this.writeBlock(BLOCK_END, [trailer]);
+    }
+    await this.writer.close();
+  }
+
+  /**
+   * Abandon the archive, aborting the stream
+   */
+  async abort(reason?: unknown): Promise<void> {
+    await this.writer.abort(reason);
+  }
+
+  private async flushRecords(): Promise<void> {
+    if (this.pending.length === 0) {
+      return;
+    }
+    const records = this.pending;
+    this.pending = [];
+    await this.writeBlock(BLOCK_RECORDS, records);
+  }
+
+  private async writeBlock(type: number, parts: Uint8Array[]): Promise<void> {
+    const length = parts.reduce((total, part) => total + part.byteLength, 0);
+    const block = new Uint8Array(BLOCK_HEADER_SIZE + length);
+    const view = new DataView(block.buffer);
+    view.setUint8(0, type);
+    view.setUint32(4, length, true);
+
+    let offset = BLOCK_HEADER_SIZE;
+    for (const part of parts) {
+      block.set(part, offset);
+      offset += part.byteLength;
+    }
+
+    if (type === BLOCK_END) {
+      await this.writer.write(block);
+    } else {
+      await this.emit(block);
+    }
+  }
+
+  private async writeLine(value: unknown): Promise<void> {
+    await this.writer.write(new TextEncoder().encode(`${JSON.stringify(value)}\n`));
+  }
+
+  /** Write bytes covered by the trailer checksum */
+  private async emit(bytes: Uint8Array): Promise<void> {
+    this.checksum = crc32(bytes, this.checksum);
+    await this.writer.write(bytes);
+  }
+}
+
+/**
+ * Reads an archive or NDJSON dump from a stream.
+ *
+ * {@link open} reads the header and any index snapshot; {@link records} then
+ * streams the records. Each binary record is checked against its own
+ * checksum as it is read, and the trailer is checked after the last one, so
+ * consumers that write records as they arrive learn about a truncated
+ * archive only at the end.
+ */
+export class ArchiveReader {
+  private constructor(
+    private input: StreamByteReader,
+    readonly format: ArchiveFormat,
+    /** Archive header; `null` for NDJSON without a header line */
+    readonly header: ArchiveHeader | null,
+    /** Vector-less HNSW snapshot included by the exporter, if any */
+    readonly indexSnapshot: ArrayBuffer | null,
+    private checksum: number,
+    private firstLine: string | null,
+  ) {}
+
+  /**
+   * Read the header of the archive on `source`, detecting the format from
+   * its first byte unless `format` is given
+   *
+   * @throws StorageCorruptionError when the header is malformed
+   * @throws StorageFormatError when the archive version is unsupported
+   */
+  static async open(
+    source: ReadableStream<Uint8Array>,
+    format?: ArchiveFormat,
+  ): Promise<ArchiveReader> {
+    const input = new StreamByteReader(
+      source.getReader(),
+      () => new StorageCorruptionError('Archive ended in the middle of a block'),
+    );
+    const first = await input.peek();
+    const detected = format ?? (first === 0x7b /* '{' */ ? 'ndjson' : 'archive');
+
+    if (detected === 'ndjson') {
+      const line = await input.readLine();
+      const parsed = line === null ? null : ArchiveReader.parseLine(line);
+      const isHeader =
+        parsed !== null && (parsed as { type?: unknown }).type === 'header';
+      return new ArchiveReader(
+        input,
+        'ndjson',
+        isHeader ? ArchiveReader.validateHeader(parsed) : null,
+        null,
+        0,
+        isHeader ? null : line,
+      );
+    }
+
+    const preamble = await input.readExactly(PREAMBLE_SIZE);
+    const view = new DataView(preamble.buffer, preamble.byteOffset);
+    const magic = view.getUint32(0, true);
+    if (magic !== ARCHIVE_MAGIC) {
+      throw new StorageCorruptionError(
+        `Invalid archive magic marker: 0x${magic.toString(16).padStart(8, '0').toUpperCase()} (expected 0x52414656)`,
+      );
+    }
+    const version = view.getUint8(4);
+    if (!(SUPPORTED_ARCHIVE_VERSIONS as readonly number[]).includes(version)) {
+      throw new StorageFormatError(version, SUPPORTED_ARCHIVE_VERSIONS);
+    }
+    const json = await input.readExactly(
+      ArchiveReader.checkLength(view.getUint32(8, true)),
+    );
+    let checksum = crc32(json, crc32(preamble));
+
+    let header: unknown;
+    try {
+      header = JSON.parse(new TextDecoder().decode(json));
+    } catch (cause) {
+      throw new StorageCorruptionError(
+        `Failed to parse archive header: ${cause instanceof Error ? cause.message : String(cause)}`,
+      );
+    }
+
+    let indexSnapshot: ArrayBuffer | null = null;
+    if ((await input.peek()) === BLOCK_INDEX) {
+      const block = await ArchiveReader.readBlock(input);
+      checksum = crc32(block.raw, checksum);
+      indexSnapshot = block.payload.slice().buffer;
+    }
+
+    return new ArchiveReader(
+      input,
+      'archive',
+      ArchiveReader.validateHeader(header),
+      indexSnapshot,
+      checksum,
+      null,
+    );
+  }
+
+  /**
+   * Stream the archive's records in the order they were written
+   *
+   * @throws StorageCorruptionError when a record, the trailer or the stream
+   *   framing is damaged
+   */
+  async *records(): AsyncIterable<VectorData> {
+    if (this.format === 'ndjson') {
+      if (this.firstLine !== null) {
+        const first = this.firstLine;
+        this.firstLine = null;
+        yield* ArchiveReader.lineRecord(first);
+      }
+      for (let line = await this.input.readLine(); line !== null; ) {
+        yield* ArchiveReader.lineRecord(line);
+        line = await this.input.readLine();
+      }
+      return;
+    }
+
+    let count = 0;
+    for (;;) {
+      if ((await this.input.peek()) === null) {
+        throw new StorageCorruptionError('Archive ended before its trailer');
+      }
+      const block = await ArchiveReader.readBlock(this.input);
+
+      if (block.type === BLOCK_END) {
+        const view = new DataView(block.payload.buffer, block.payload.byteOffset);
+        const expectedCount = view.getUint32(0, true);
+        const storedChecksum = view.getUint32(4, true);
+        if (storedChecksum !== this.checksum || expectedCount !== count) {
+          throw new StorageCorruptionError(
+            `Archive trailer mismatch: ${expectedCount} records with checksum 0x${storedChecksum.toString(16)} ` +
+              `expected, read ${count} with checksum 0x${this.checksum.toString(16)}`,
+          );
+        }
+        return;
+      }
+      if (block.type !== BLOCK_RECORDS) {
+        throw new StorageCorruptionError(`Unexpected archive block type ${block.type}`);
+      }
+      this.checksum = crc32(block.raw, this.checksum);
+
+      const { payload } = block;
+      const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+      let offset = 0;
+      while (offset < payload.byteLength) {
+        const length =
+          offset + 4 <= payload.byteLength ? view.getUint32(offset, true) : -1;
+        if (length < 0 || offset + 4 + length > payload.byteLength) {
+          throw new StorageCorruptionError('Archive record overruns its block');
+        }
+        const record = payload.slice(offset + 4, offset + 4 + length);
+        offset += 4 + length;
+        count++;
+        yield binaryToVectorData(record.buffer);
+      }
+    }
+  }
+
+  private static async readBlock(
+    input: StreamByteReader,
+  ): Promise<{ type: number; payload: Uint8Array; raw: Uint8Array }> {
+    const head = await input.readExactly(BLOCK_HEADER_SIZE);
+    const view = new DataView(head.buffer, head.byteOffset);
+    const payload = await input.readExactly(
+      ArchiveReader.checkLength(view.getUint32(4, true)),
+    );
+    const raw = new Uint8Array(head.byteLength + payload.byteLength);
+    raw.set(head);
+    raw.set(payload, head.byteLength);
+    return { type: view.getUint8(0), payload: raw.subarray(BLOCK_HEADER_SIZE), raw };
+  }
+
+  private static checkLength(length: number): number {
+    if (length > MAX_BLOCK_BYTES) {
+      throw new StorageCorruptionError(
+        `Archive block of ${length} bytes exceeds the maximum of ${MAX_BLOCK_BYTES}`,
+      );
+    }
+    return length;
+  }
+
+  private static validateHeader(value: unknown): ArchiveHeader {
+    const header = value as Partial<ArchiveHeader> | null;
+    if (
+      typeof header !== 'object' ||
+      header === null ||
+      typeof header.dimension !== 'number' ||
+      typeof header.distanceMetric !== 'string'
+    ) {
+      throw new StorageCorruptionError('Archive header is missing dimension or metric');
+    }
+    if (
+      header.recordFormat === 'VECF' &&
+      !(SUPPORTED_BINARY_VERSIONS as readonly number[]).includes(
+        header.recordFormatVersion ?? -1,
+      )
+    ) {
+      throw new StorageFormatError(
+        header.recordFormatVersion ?? -1,
+        SUPPORTED_BINARY_VERSIONS,
+      );
+    }
+    return header as ArchiveHeader;
+  }
+
+  private static parseLine(line: string): unknown {
+    try {
+      return JSON.parse(line) as unknown;
+    } catch (cause) {
+      throw new StorageCorruptionError(
+        `Failed to parse NDJSON line: ${cause instanceof Error ? cause.message : String(cause)}`,
+      );
+    }
+  }
+
+  private static *lineRecord(line: string): Iterable<VectorData> {
+    if (line.trim() === '') {
+      return;
+    }
+    const record = ArchiveReader.parseLine(line) as Partial<SerializedVectorData> | null;
+    if (
+      typeof record !== 'object' ||
+      record === null ||
+      typeof record.id !== 'string' ||
+      !Array.isArray(record.vector)
+    ) {
+      throw new StorageCorruptionError(
+        'NDJSON record needs a string id and a vector array',
+      );
+    }
+    yield serializableToVectorData({
+      ...record,
+      id: record.id,
+      vector: record.vector,
+      magnitude: record.magnitude ?? calculateMagnitude(new Float32Array(record.vector)),
+      timestamp: record.timestamp ?? Date.now(),
+    });
+  }
+}
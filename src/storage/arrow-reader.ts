@@ -0,0 +1,795 @@
+import type { VectorColumns } from '@/core/types.js';
+import { StreamByteReader } from '@/storage/stream-byte-reader.js';
+
+// ---------------------------------------------------------------------------
+// Arrow IPC reader
+//
+// Reads the Arrow IPC streaming format (and the file format, which wraps a
+// stream between "ARROW1" magic markers) as written by pyarrow, polars or
+// arrow-js, and turns each record batch into VectorColumns.
+//
+// A stream is a sequence of messages, each framed as
+//
+//   0       4     Continuation marker 0xFFFFFFFF (absent before Arrow 0.15)
+//   4       4     Metadata byte length M (int32 LE, padded to 8 bytes)
+//   8       M     Message flatbuffer
+//   8+M     B     Body of the length recorded in the message
+//
+// ending with a zero metadata length or the end of the input. The first
+// message is the schema; record batch bodies hold one field node per column
+// (depth first) and the column buffers at 8-byte aligned offsets.
+//
+// Only the parts of the format needed for embeddings are decoded: the vector
+// column must be a FixedSizeList or List of float32/float64, the id column
+// utf8 or an integer, and metadata columns null, bool, integers, floats,
+// utf8, dates, timestamps or lists of those, optionally dictionary-encoded.
+// Compressed record batches are rejected.
+// ---------------------------------------------------------------------------
+
+const CONTINUATION_MARKER = 0xffffffff;
+const FILE_MAGIC = 'ARROW1';
+
+// Message header types (Message.fbs)
+const HEADER_SCHEMA = 1;
+const HEADER_DICTIONARY_BATCH = 2;
+const HEADER_RECORD_BATCH = 3;
+
+// Metadata version V4, the oldest whose layout this reader understands
+const MIN_METADATA_VERSION = 3;
+
+// Type union ids (Schema.fbs)
+const TYPE_NULL = 1;
+const TYPE_INT = 2;
+const TYPE_FLOATING_POINT = 3;
+const TYPE_BINARY = 4;
+const TYPE_UTF8 = 5;
+const TYPE_BOOL = 6;
+const TYPE_DECIMAL = 7;
+const TYPE_DATE = 8;
+const TYPE_TIME = 9;
+const TYPE_TIMESTAMP = 10;
+const TYPE_INTERVAL = 11;
+const TYPE_LIST = 12;
+const TYPE_STRUCT = 13;
+const TYPE_FIXED_SIZE_BINARY = 15;
+const TYPE_FIXED_SIZE_LIST = 16;
+const TYPE_MAP = 17;
+const TYPE_DURATION = 18;
+const TYPE_LARGE_BINARY = 19;
+const TYPE_LARGE_UTF8 = 20;
+const TYPE_LARGE_LIST = 21;
+const TYPE_RUN_END_ENCODED = 22;
+
+const TYPE_NAMES: Record<number, string> = {
+  [TYPE_NULL]: 'null',
+  [TYPE_INT]: 'int',
+  [TYPE_FLOATING_POINT]: 'float',
+  [TYPE_BINARY]: 'binary',
+  [TYPE_UTF8]: 'utf8',
+  [TYPE_BOOL]: 'bool',
+  [TYPE_DECIMAL]: 'decimal',
+  [TYPE_DATE]: 'date',
+  [TYPE_TIME]: 'time',
+  [TYPE_TIMESTAMP]: 'timestamp',
+  [TYPE_INTERVAL]: 'interval',
+  [TYPE_LIST]: 'list',
+  [TYPE_STRUCT]: 'struct',
+  14: 'union',
+  [TYPE_FIXED_SIZE_BINARY]: 'fixed_size_binary',
+  [TYPE_FIXED_SIZE_LIST]: 'fixed_size_list',
+  [TYPE_MAP]: 'map',
+  [TYPE_DURATION]: 'duration',
+  [TYPE_LARGE_BINARY]: 'large_binary',
+  [TYPE_LARGE_UTF8]: 'large_utf8',
+  [TYPE_LARGE_LIST]: 'large_list',
+  [TYPE_RUN_END_ENCODED]: 'run_end_encoded',
+  23: 'binary_view',
+  24: 'utf8_view',
+  25: 'list_view',
+  26: 'large_list_view',
+};
+
+/** Milliseconds per unit of TimeUnit SECOND, MILLISECOND, MICROSECOND, NANOSECOND */
+const TIME_UNIT_MS = [1000, 1, 1e-3, 1e-6];
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * A column of an Arrow schema
+ */
+export interface ArrowField {
+  name: string;
+  /** Arrow type name, such as `utf8`, `fixed_size_list` or `float` */
+  type: string;
+  nullable: boolean;
+  children: ArrowField[];
+}
+
+/**
+ * Which Arrow columns hold the ids, vectors and metadata
+ */
+export interface ArrowColumnOptions {
+  /** Column of vector ids (default: `'id'`) */
+  idColumn?: string;
+  /** Column of vectors (default: `'vector'`) */
+  vectorColumn?: string;
+  /** Columns copied into metadata (default: every other column) */
+  metadataColumns?: string[];
+}
+
+/** Schema field with the details needed to decode its buffers */
+interface FieldLayout extends ArrowField {
+  typeId: number;
+  bitWidth: number;
+  signed: boolean;
+  /** FloatingPoint precision, DateUnit or TimeUnit */
+  unit: number;
+  listSize: number;
+  /** Index encoding of a dictionary-encoded column */
+  dictionary: { id: number; bitWidth: number; signed: boolean } | null;
+  children: FieldLayout[];
+}
+
+/** One column of a record batch: its node, buffers and child columns */
+interface ColumnData {
+  field: FieldLayout;
+  length: number;
+  nullCount: number;
+  buffers: Uint8Array[];
+  children: ColumnData[];
+}
+
+/**
+ * Reads Arrow IPC streams into {@link VectorColumns}, one per record batch.
+ *
+ * @example
+ * ```ts
+ * const arrow = await ArrowStreamReader.open(response.body!, { idColumn: 'doc_id' });
+ * for await (const columns of arrow.batches()) {
+ *   await db.addColumns(columns);
+ * }
+ * ```
+ */
+export class ArrowStreamReader {
+  /** Columns of the stream's schema */
+  readonly fields: ArrowField[];
+
+  /** Decoded dictionaries by id, replaced or extended by dictionary batches */
+  private dictionaries = new Map<number, unknown[]>();
+
+  private constructor(
+    private input: StreamByteReader,
+    private layouts: FieldLayout[],
+    private idField: number,
+    private vectorField: number,
+    private metadataFields: number[],
+  ) {
+    this.fields = layouts.map(publicField);
+  }
+
+  /**
+   * Read the schema at the start of `source` and resolve the id, vector and
+   * metadata columns
+   */
+  static async open(
+    source: ReadableStream<Uint8Array> | Uint8Array | ArrayBuffer,
+    options: ArrowColumnOptions = {},
+  ): Promise<ArrowStreamReader> {
+    const stream =
+      source instanceof ReadableStream
+        ? source
+        : new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(
+                source instanceof Uint8Array ? source : new Uint8Array(source),
+              );
+              controller.close();
+            },
+          });
+    const input = new StreamByteReader(
+      stream.getReader(),
+      () => new Error('Arrow stream ended in the middle of a message'),
+    );
+
+    const isFile = (await input.peek()) === FILE_MAGIC.charCodeAt(0);
+    if (isFile) {
+      const magic = await input.readExactly(8);
+      if (new TextDecoder().decode(magic.subarray(0, 6)) !== FILE_MAGIC) {
+        throw new Error('Not an Arrow IPC stream or file');
+      }
+    }
+
+    const message = await readMessage(input);
+    if (message?.headerType !== HEADER_SCHEMA) {
+      throw new Error('Arrow stream does not start with a schema');
+    }
+    if (message.header.int16(0, 0) !== 0) {
+      throw new Error('Big-endian Arrow streams are not supported');
+    }
+    const fields = message.header.tables(1).map(readField);
+
+    const indexOf = (name: string): number => {
+      const index = fields.findIndex((field) => field.name === name);
+      if (index === -1) {
+        throw new Error(`Arrow stream has no '${name}' column`);
+      }
+      return index;
+    };
+    const idField = indexOf(options.idColumn ?? 'id');
+    const vectorField = indexOf(options.vectorColumn ?? 'vector');
+    const metadataFields = options.metadataColumns
+      ? options.metadataColumns.map(indexOf)
+      : fields.map((_, index) => index).filter((i) => i !== idField && i !== vectorField);
+
+    for (const field of fields) {
+      assertWalkable(field);
+    }
+
+    return new ArrowStreamReader(input, fields, idField, vectorField, metadataFields);
+  }
+
+  /**
+   * Yield each record batch as columns. Dictionary batches are skipped.
+   */
+  async *batches(): AsyncGenerator<VectorColumns> {
+    for (;;) {
+      const message = await readMessage(this.input);
+      if (!message) {
+        return;
+      }
+      if (message.headerType === HEADER_DICTIONARY_BATCH) {
+        this.readDictionary(message.header, message.body);
+        continue;
+      }
+      if (message.headerType !== HEADER_RECORD_BATCH) {
+        throw new Error(`Unexpected Arrow message type ${message.headerType}`);
+      }
+      yield this.toColumns(message.header, message.body);
+    }
+  }
+
+  private toColumns(batch: FlatTable, body: Uint8Array): VectorColumns {
+    const { rows, columns } = readRecordBatch(batch, body, this.layouts);
+
+    const ids = decodeValues(columns[this.idField]!, this.dictionaries).map((id) =>
+      typeof id === 'number' ? String(id) : (id as string),
+    );
+    const vectors = decodeVectors(columns[this.vectorField]!, rows);
+    const metadata: Record<string, unknown[]> = {};
+    for (const index of this.metadataFields) {
+      metadata[this.layouts[index]!.name] = decodeValues(
+        columns[index]!,
+        this.dictionaries,
+      );
+    }
+
+    return this.metadataFields.length > 0 ? { ids, vectors, metadata } : { ids, vectors };
+  }
+
+  /**
+   * Decode a dictionary batch: a one-column record batch holding the values
+   * that a dictionary-encoded column's indices refer to
+   */
+  private readDictionary(dictionaryBatch: FlatTable, body: Uint8Array): void {
+    const id = dictionaryBatch.int64(0, 0);
+    const data = dictionaryBatch.table(1);
+    const layout = findDictionaryField(this.layouts, id);
+    if (!data || !layout) {
+      throw new Error(`Arrow dictionary batch ${id} matches no column`);
+    }
+
+    const { columns } = readRecordBatch(data, body, [{ ...layout, dictionary: null }]);
+    const values = decodeValues(columns[0]!, this.dictionaries);
+    const isDelta = dictionaryBatch.bool(2, false);
+    this.dictionaries.set(id, [
+      ...(isDelta ? (this.dictionaries.get(id) ?? []) : []),
+      ...values,
+    ]);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Messages and flatbuffers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read-only view of a flatbuffer table
+ */
+class FlatTable {
+  constructor(
+    private view: DataView,
+    private position: number,
+  ) {}
+
+  int16(field: number, fallback: number): number {
+    const at = this.fieldPosition(field);
+    return at === null ? fallback : this.view.getInt16(at, true);
+  }
+
+  uint8(field: number, fallback: number): number {
+    const at = this.fieldPosition(field);
+    return at === null ? fallback : this.view.getUint8(at);
+  }
+
+  int32(field: number, fallback: number): number {
+    const at = this.fieldPosition(field);
+    return at === null ? fallback : this.view.getInt32(at, true);
+  }
+
+  int64(field: number, fallback: number): number {
+    const at = this.fieldPosition(field);
+    return at === null ? fallback : this.int64At(at);
+  }
+
+  int64At(position: number): number {
+    return Number(this.view.getBigInt64(position, true));
+  }
+
+  bool(field: number, fallback: boolean): boolean {
+    const at = this.fieldPosition(field);
+    return at === null ? fallback : this.view.getUint8(at) !== 0;
+  }
+
+  string(field: number): string | null {
+    const at = this.target(field);
+    if (at === null) {
+      return null;
+    }
+    const length = this.view.getUint32(at, true);
+    return new TextDecoder().decode(
+      new Uint8Array(this.view.buffer, this.view.byteOffset + at + 4, length),
+    );
+  }
+
+  table(field: number): FlatTable | null {
+    const at = this.target(field);
+    return at === null ? null : new FlatTable(this.view, at);
+  }
+
+  tables(field: number): FlatTable[] {
+    const at = this.target(field);
+    if (at === null) {
+      return [];
+    }
+    const count = this.view.getUint32(at, true);
+    return Array.from({ length: count }, (_, i) => {
+      const element = at + 4 + i * 4;
+      return new FlatTable(this.view, element + this.view.getUint32(element, true));
+    });
+  }
+
+  /** Positions of the inline structs of a vector field */
+  structs(field: number, size: number): number[] {
+    const at = this.target(field);
+    if (at === null) {
+      return [];
+    }
+    const count = this.view.getUint32(at, true);
+    return Array.from({ length: count }, (_, i) => at + 4 + i * size);
+  }
+
+  private fieldPosition(field: number): number | null {
+    const vtable = this.position - this.view.getInt32(this.position, true);
+    const entry = 4 + field * 2;
+    if (entry >= this.view.getUint16(vtable, true)) {
+      return null;
+    }
+    const offset = this.view.getUint16(vtable + entry, true);
+    return offset === 0 ? null : this.position + offset;
+  }
+
+  private target(field: number): number | null {
+    const at = this.fieldPosition(field);
+    return at === null ? null : at + this.view.getUint32(at, true);
+  }
+}
+
+/**
+ * Read the next message and its body, or `null` at the end of the stream
+ */
+async function readMessage(
+  input: StreamByteReader,
+): Promise<{ headerType: number; header: FlatTable; body: Uint8Array } | null> {
+  if ((await input.peek()) === null) {
+    return null;
+  }
+
+  let metadataLength = await readUint32(input);
+  if (metadataLength === CONTINUATION_MARKER) {
+    metadataLength = await readUint32(input);
+  }
+  if (metadataLength === 0) {
+    return null;
+  }
+
+  const metadata = await input.readExactly(metadataLength);
+  const view = new DataView(metadata.slice().buffer);
+  const message = new FlatTable(view, view.getUint32(0, true));
+
+  if (message.int16(0, 0) < MIN_METADATA_VERSION) {
+    throw new Error('Arrow streams written before format version 4 are not supported');
+  }
+  const header = message.table(2);
+  if (!header) {
+    throw new Error('Arrow message has no header');
+  }
+
+  // Copy the body so its buffers start on an 8-byte boundary, which typed
+  // array views over them require
+  const body = await input.readExactly(message.int64(3, 0));
+  return { headerType: message.uint8(1, 0), header, body: body.slice() };
+}
+
+async function readUint32(input: StreamByteReader): Promise<number> {
+  const bytes = await input.readExactly(4);
+  return new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true);
+}
+
+function readField(field: FlatTable): FieldLayout {
+  const typeId = field.uint8(2, 0);
+  const type = field.table(3);
+  const encoding = field.table(4);
+  // Dictionary indices default to int32 when the index type is omitted
+  const indexType = encoding?.table(1);
+  const layout: FieldLayout = {
+    name: field.string(0) ?? '',
+    type: TYPE_NAMES[typeId] ?? `type ${typeId}`,
+    nullable: field.bool(1, false),
+    typeId,
+    bitWidth: 0,
+    signed: false,
+    unit: 0,
+    listSize: 0,
+    dictionary: encoding
+      ? {
+          id: encoding.int64(0, 0),
+          bitWidth: indexType?.int32(0, 32) ?? 32,
+          signed: indexType?.bool(1, true) ?? true,
+        }
+      : null,
+    children: field.tables(5).map(readField),
+  };
+
+  switch (typeId) {
+    case TYPE_INT:
+      layout.bitWidth = type?.int32(0, 0) ?? 0;
+      layout.signed = type?.bool(1, false) ?? false;
+      break;
+    case TYPE_FLOATING_POINT:
+    case TYPE_TIMESTAMP:
+      layout.unit = type?.int16(0, 0) ?? 0;
+      break;
+    case TYPE_DATE:
+      layout.unit = type?.int16(0, 1) ?? 1;
+      break;
+    case TYPE_FIXED_SIZE_LIST:
+      layout.listSize = type?.int32(0, 0) ?? 0;
+      break;
+  }
+  return layout;
+}
+
+function findDictionaryField(fields: FieldLayout[], id: number): FieldLayout | null {
+  for (const field of fields) {
+    if (field.dictionary?.id === id) {
+      return field;
+    }
+    const child = findDictionaryField(field.children, id);
+    if (child) {
+      return child;
+    }
+  }
+  return null;
+}
+
+function publicField({ name, type, nullable, children }: FieldLayout): ArrowField {
+  return { name, type, nullable, children: children.map(publicField) };
+}
+
+/**
+ * Throw for types whose buffer layout this reader cannot step over, since
+ * one such column would misplace every column after it
+ */
+function assertWalkable(field: FieldLayout): void {
+  if (bufferCount(field) === null) {
+    throw new Error(`Arrow column '${field.name}' has unsupported type ${field.type}`);
+  }
+  field.children.forEach(assertWalkable);
+}
+
+function bufferCount(field: FieldLayout): number | null {
+  if (field.dictionary) {
+    return 2;
+  }
+  switch (field.typeId) {
+    case TYPE_NULL:
+    case TYPE_RUN_END_ENCODED:
+      return 0;
+    case TYPE_STRUCT:
+    case TYPE_FIXED_SIZE_LIST:
+      return 1;
+    case TYPE_INT:
+    case TYPE_FLOATING_POINT:
+    case TYPE_BOOL:
+    case TYPE_DECIMAL:
+    case TYPE_DATE:
+    case TYPE_TIME:
+    case TYPE_TIMESTAMP:
+    case TYPE_INTERVAL:
+    case TYPE_DURATION:
+    case TYPE_FIXED_SIZE_BINARY:
+    case TYPE_LIST:
+    case TYPE_LARGE_LIST:
+    case TYPE_MAP:
+      return 2;
+    case TYPE_BINARY:
+    case TYPE_UTF8:
+    case TYPE_LARGE_BINARY:
+    case TYPE_LARGE_UTF8:
+      return 3;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split a record batch body into columns for `layouts`
+ */
+function readRecordBatch(
+  batch: FlatTable,
+  body: Uint8Array,
+  layouts: FieldLayout[],
+): { rows: number; columns: ColumnData[] } {
+  if (batch.table(3)) {
+    throw new Error('Compressed Arrow record batches are not supported');
+  }
+
+  const nodes = batch.structs(1, 16).map((position) => ({
+    length: batch.int64At(position),
+    nullCount: batch.int64At(position + 8),
+  }));
+  const buffers = batch.structs(2, 16).map((position) => {
+    const offset = batch.int64At(position);
+    const length = batch.int64At(position + 8);
+    if (offset + length > body.byteLength) {
+      throw new Error('Arrow buffer lies outside its record batch body');
+    }
+    return body.subarray(offset, offset + length);
+  });
+
+  const cursor = { node: 0, buffer: 0 };
+  return {
+    rows: batch.int64(0, 0),
+    columns: layouts.map((layout) => collectColumn(layout, nodes, buffers, cursor)),
+  };
+}
+
+function collectColumn(
+  field: FieldLayout,
+  nodes: Array<{ length: number; nullCount: number }>,
+  buffers: Uint8Array[],
+  cursor: { node: number; buffer: number },
+): ColumnData {
+  const node = nodes[cursor.node++];
+  const count = bufferCount(field)!;
+  if (!node || cursor.buffer + count > buffers.length) {
+    throw new Error('Arrow record batch has fewer buffers than its schema needs');
+  }
+  const own = buffers.slice(cursor.buffer, cursor.buffer + count);
+  cursor.buffer += count;
+  return {
+    field,
+    length: node.length,
+    nullCount: node.nullCount,
+    buffers: own,
+    children: field.children.map((child) => collectColumn(child, nodes, buffers, cursor)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Column decoding
+// ---------------------------------------------------------------------------
+
+function unsupported(column: ColumnData): Error {
+  return new Error(
+    `Arrow column '${column.field.name}' has unsupported type ${column.field.type}`,
+  );
+}
+
+function isValid(column: ColumnData, index: number): boolean {
+  const validity = column.buffers[0];
+  if (column.nullCount === 0 || !validity || validity.byteLength === 0) {
+    return true;
+  }
+  return ((validity[index >> 3]! >> (index & 7)) & 1) === 1;
+}
+
+function typed<T>(
+  bytes: Uint8Array,
+  ArrayType: {
+    new (buffer: ArrayBufferLike, offset: number, length: number): T;
+    BYTES_PER_ELEMENT: number;
+  },
+): T {
+  return new ArrayType(
+    bytes.buffer,
+    bytes.byteOffset,
+    Math.floor(bytes.byteLength / ArrayType.BYTES_PER_ELEMENT),
+  );
+}
+
+/** Values of a numeric column as plain numbers, ignoring validity */
+function numbers(column: ColumnData): ArrayLike<number> {
+  const data = column.buffers[1] ?? new Uint8Array(0);
+  const { typeId, bitWidth, signed, unit } = column.field;
+
+  if (typeId === TYPE_FLOATING_POINT) {
+    if (unit === 1) return typed(data, Float32Array);
+    if (unit === 2) return typed(data, Float64Array);
+    throw unsupported(column);
+  }
+
+  const values = integers(data, bitWidth, signed);
+  if (!values) {
+    throw unsupported(column);
+  }
+  return values;
+}
+
+function integers(
+  data: Uint8Array,
+  bitWidth: number,
+  signed: boolean,
+): ArrayLike<number> | null {
+  switch (bitWidth) {
+    case 8:
+      return signed ? typed(data, Int8Array) : typed(data, Uint8Array);
+    case 16:
+      return signed ? typed(data, Int16Array) : typed(data, Uint16Array);
+    case 32:
+      return signed ? typed(data, Int32Array) : typed(data, Uint32Array);
+    case 64: {
+      const wide = signed ? typed(data, BigInt64Array) : typed(data, BigUint64Array);
+      return Array.from(wide, Number);
+    }
+    default:
+      return null;
+  }
+}
+
+/** Start and end offsets of each list or string element */
+function offsets(column: ColumnData, large: boolean): ArrayLike<number> {
+  const data = column.buffers[1] ?? new Uint8Array(0);
+  return large ? Array.from(typed(data, BigInt64Array), Number) : typed(data, Int32Array);
+}
+
+/**
+ * Decode a column into one JavaScript value per row, `null` for nulls
+ */
+function decodeValues(
+  column: ColumnData,
+  dictionaries: Map<number, unknown[]>,
+): unknown[] {
+  const { field, length } = column;
+
+  let value: (index: number) => unknown;
+  if (field.dictionary) {
+    const { id, bitWidth, signed } = field.dictionary;
+    const dictionary = dictionaries.get(id);
+    const indices = integers(column.buffers[1]!, bitWidth, signed);
+    if (!dictionary || !indices) {
+      throw new Error(`Arrow column '${field.name}' refers to a missing dictionary`);
+    }
+    value = (i) => dictionary[indices[i]!] ?? null;
+    return Array.from({ length }, (_, i) => (isValid(column, i) ? value(i) : null));
+  }
+
+  switch (field.typeId) {
+    case TYPE_NULL:
+      return Array.from({ length }, () => null);
+
+    case TYPE_BOOL: {
+      const data = column.buffers[1] ?? new Uint8Array(0);
+      value = (i) => ((data[i >> 3]! >> (i & 7)) & 1) === 1;
+      break;
+    }
+
+    case TYPE_INT:
+    case TYPE_FLOATING_POINT: {
+      const values = numbers(column);
+      value = (i) => values[i];
+      break;
+    }
+
+    case TYPE_UTF8:
+    case TYPE_LARGE_UTF8: {
+      const ends = offsets(column, field.typeId === TYPE_LARGE_UTF8);
+      const data = column.buffers[2] ?? new Uint8Array(0);
+      const decoder = new TextDecoder();
+      value = (i) => decoder.decode(data.subarray(ends[i], ends[i + 1]));
+      break;
+    }
+
+    case TYPE_DATE: {
+      // DateUnit DAY counts days in an int32, MILLISECOND milliseconds in an int64
+      const days = field.unit === 0;
+      const values = integers(column.buffers[1]!, days ? 32 : 64, true)!;
+      const scale = days ? MS_PER_DAY : 1;
+      value = (i) => new Date(values[i]! * scale).toISOString();
+      break;
+    }
+
+    case TYPE_TIMESTAMP: {
+      const values = integers(column.buffers[1]!, 64, true)!;
+      const scale = TIME_UNIT_MS[field.unit] ?? 1;
+      value = (i) => new Date(values[i]! * scale).toISOString();
+      break;
+    }
+
+    case TYPE_LIST:
+    case TYPE_LARGE_LIST: {
+      const ends = offsets(column, field.typeId === TYPE_LARGE_LIST);
+      const items = decodeValues(column.children[0]!, dictionaries);
+      value = (i) => items.slice(ends[i], ends[i + 1]);
+      break;
+    }
+
+    case TYPE_FIXED_SIZE_LIST: {
+      const items = decodeValues(column.children[0]!, dictionaries);
+      value = (i) => items.slice(i * field.listSize, (i + 1) * field.listSize);
+      break;
+    }
+
+    default:
+      throw unsupported(column);
+  }
+
+  return Array.from({ length }, (_, i) => (isValid(column, i) ? value(i) : null));
+}
+
+/**
+ * Decode the vector column into one flat Float32Array of `rows` equally
+ * long vectors
+ */
+function decodeVectors(column: ColumnData, rows: number): Float32Array {
+  const { field } = column;
+  const child = column.children[0];
+  if (
+    (field.typeId !== TYPE_FIXED_SIZE_LIST &&
+      field.typeId !== TYPE_LIST &&
+      field.typeId !== TYPE_LARGE_LIST) ||
+    child?.field.typeId !== TYPE_FLOATING_POINT ||
+    child.field.dictionary
+  ) {
+    throw new Error(
+      `Vector column '${field.name}' must be a list of float32 or float64 values, got ${field.type}`,
+    );
+  }
+  if (column.nullCount > 0) {
+    throw new Error(`Vector column '${field.name}' contains null vectors`);
+  }
+
+  let start = 0;
+  let end = rows * field.listSize;
+  if (field.typeId !== TYPE_FIXED_SIZE_LIST) {
+    const ends = offsets(column, field.typeId === TYPE_LARGE_LIST);
+    start = ends[0] ?? 0;
+    end = ends[rows] ?? 0;
+    const size = rows > 0 ? ends[1]! - start : 0;
+    for (let i = 1; i < rows; i++) {
+      if (ends[i + 1]! - ends[i]! !== size) {
+        throw new Error(
+          `Vector column '${field.name}' holds vectors of different lengths`,
+        );
+      }
+    }
+  }
+
+  const values = numbers(child);
+  if (end > values.length) {
+    throw new Error(`Vector column '${field.name}' is shorter than its record batch`);
+  }
+  return values instanceof Float32Array
+    ? values.subarray(start, end)
+    : new Float32Array((values as Float64Array).subarray(start, end));
+}
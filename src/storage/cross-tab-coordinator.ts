@@ -0,0 +1,304 @@
+/**
+ * Cross-tab coordination for databases shared between browser tabs.
+ *
+ * Each tab keeps its own in-memory search index over shared storage. Writes
+ * are announced on a `BroadcastChannel` so other tabs can update their index
+ * incrementally, and a Web Locks lock elects one tab to persist the index.
+ */
+
+import { log } from '@/utilities/logger.js';
+
+/**
+ * A change one tab made to shared storage. Events carry ids only; receivers
+ * read the current records from storage.
+ */
+export type ChangeEvent =
+  | { type: 'put'; ids: string[] }
+  | { type: 'delete'; ids: string[] }
+  | { type: 'update-metadata'; ids: string[] }
+  | { type: 'clear' }
+  /** Storage changed in ways not described by ids, such as eviction */
+  | { type: 'rebuild' };
+
+/**
+ * Envelope broadcast for every change. `sequence` increases by one per
+ * message from a tab, so receivers can detect messages they missed.
+ */
+export interface ChangeMessage {
+  source: string;
+  sequence: number;
+  event: ChangeEvent;
+}
+
+/**
+ * The parts of `BroadcastChannel` the coordinator uses
+ */
+export interface BroadcastChannelLike {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+  close(): void;
+}
+
+/**
+ * The parts of the Web Locks `LockManager` the coordinator uses
+ */
+export interface LockManagerLike {
+  request(
+    name: string,
+    options: { signal?: AbortSignal },
+    callback: () => Promise<void>,
+  ): Promise<unknown>;
+}
+
+export interface CrossTabOptions {
+  /** Channel and lock name (default: `vector-frankl:<database name>`) */
+  channelName?: string;
+  /** Channel factory (default: the global `BroadcastChannel`) */
+  createChannel?: (name: string) => BroadcastChannelLike;
+  /** Lock manager (default: `navigator.locks`); without one every tab persists */
+  locks?: LockManagerLike;
+}
+
+export interface CrossTabHandlers {
+  /** Apply a change announced by another tab */
+  onChange(event: ChangeEvent, message: ChangeMessage): Promise<void>;
+  /** Messages from `source` were missed; reload everything from storage */
+  onResync(source: string): Promise<void>;
+  /** This tab gained or lost the right to persist shared state */
+  onLeadershipChange(leader: boolean): Promise<void>;
+}
+
+export interface CrossTabStatus {
+  tabId: string;
+  leader: boolean;
+  /** Sequence number of the last change this tab broadcast */
+  sequence: number;
+  /** Other tabs this tab has received changes from */
+  peers: number;
+}
+
+/**
+ * Broadcasts local changes, applies remote ones in arrival order, and holds
+ * the leader lock while this tab is the elected writer.
+ *
+ * Handlers run one at a time. They are held back until {@link resume} so a
+ * tab can subscribe before loading its index and apply every change made
+ * meanwhile afterwards.
+ */
+export class CrossTabCoordinator {
+  readonly tabId = crypto.randomUUID();
+  private readonly channelName: string;
+  private readonly createChannel: ((name: string) => BroadcastChannelLike) | undefined;
+  private readonly locks: LockManagerLike | undefined;
+  private channel: BroadcastChannelLike | null = null;
+  private sequence = 0;
+  /** Last sequence number received from each peer */
+  private lastSeen = new Map<string, number>();
+  private leader = false;
+  private releaseLeadership: (() => void) | null = null;
+  private abortElection: AbortController | null = null;
+  private election: Promise<unknown> | null = null;
+  private queue: Promise<void>;
+  private resumeQueue!: () => void;
+  private closed = false;
+
+  constructor(
+    name: string,
+    private handlers: CrossTabHandlers,
+    options: CrossTabOptions = {},
+  ) {
+    this.channelName = options.channelName ?? `vector-frankl:${name}`;
+    this.createChannel =
+      options.createChannel ??
+      (typeof BroadcastChannel === 'undefined'
+        ? undefined
+        : (channelName) => new BroadcastChannel(channelName));
+    this.locks =
+      options.locks ??
+      (typeof navigator !== 'undefined' && 'locks' in navigator
+        ? (navigator.locks as LockManagerLike)
+        : undefined);
+    this.queue = new Promise<void>((resolve) => {
+      this.resumeQueue = resolve;
+    });
+  }
+
+  /**
+   * Whether changes can be broadcast in this environment
+   */
+  isSupported(): boolean {
+    return this.createChannel !== undefined;
+  }
+
+  /**
+   * Subscribe to the channel and enter the leader election. Without a lock
+   * manager this tab leads immediately.
+   */
+  connect(): void {
+    if (this.channel || this.closed || !this.createChannel) {
+      return;
+    }
+
+    this.channel = this.createChannel(this.channelName);
+    this.channel.addEventListener('message', ({ data }) => this.receive(data));
+
+    if (!this.locks) {
+      this.setLeader(true);
+      return;
+    }
+
+    this.abortElection = new AbortController();
+    this.election = this.locks
+      .request(
+        `${this.channelName}:leader`,
+        { signal: this.abortElection.signal },
+        () =>
+          new Promise<void>((resolve) => {
+            this.releaseLeadership = resolve;
+            this.setLeader(true);
+          }),
+      )
+      .catch((error: unknown) => {
+        // Aborted by close() while waiting for the lock
+        if (!this.closed) {
+          log.warn('Cross-tab leader election failed', {
+            channel: this.channelName,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+  }
+
+  /**
+   * Start applying remote changes, including those queued since connect()
+   */
+  resume(): void {
+    this.resumeQueue();
+  }
+
+  /**
+   * Announce a change made by this tab
+   */
+  publish(event: ChangeEvent): void {
+    if (!this.channel || this.closed) {
+      return;
+    }
+
+    const message: ChangeMessage = {
+      source: this.tabId,
+      sequence: ++this.sequence,
+      event,
+    };
+    this.channel.postMessage(message);
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  getStatus(): CrossTabStatus {
+    return {
+      tabId: this.tabId,
+      leader: this.leader,
+      sequence: this.sequence,
+      peers: this.lastSeen.size,
+    };
+  }
+
+  /**
+   * Resolve once every change received so far has been applied
+   */
+  async whenIdle(): Promise<void> {
+    let queue: Promise<void>;
+    do {
+      queue = this.queue;
+      await queue;
+    } while (queue !== this.queue);
+  }
+
+  /**
+   * Stop listening, give up leadership, and wait for queued handlers
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.channel?.close();
+    this.channel = null;
+    this.leader = false;
+    this.releaseLeadership?.();
+    this.abortElection?.abort();
+    this.resumeQueue();
+    await this.election;
+    await this.whenIdle();
+  }
+
+  private receive(data: unknown): void {
+    if (!isChangeMessage(data) || data.source === this.tabId) {
+      return;
+    }
+
+    const last = this.lastSeen.get(data.source);
+    this.lastSeen.set(data.source, data.sequence);
+    if (last !== undefined && data.sequence !== last + 1) {
+      log.warn('Missed cross-tab changes; reloading from storage', {
+        channel: this.channelName,
+        expected: last + 1,
+        received: data.sequence,
+      });
+      this.enqueue(() => this.handlers.onResync(data.source));
+      return;
+    }
+
+    this.enqueue(() => this.handlers.onChange(data.event, data));
+  }
+
+  private setLeader(leader: boolean): void {
+    this.leader = leader;
+    this.enqueue(() => this.handlers.onLeadershipChange(leader));
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(async () => {
+      if (this.closed) {
+        return;
+      }
+      try {
+        await task();
+      } catch (error) {
+        log.error('Applying a cross-tab change failed', {
+          channel: this.channelName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  }
+}
+
+function isChangeMessage(data: unknown): data is ChangeMessage {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+  const { source, sequence, event } = data as Partial<ChangeMessage>;
+  if (
+    typeof source !== 'string' ||
+    !Number.isInteger(sequence) ||
+    typeof event !== 'object' ||
+    event === null
+  ) {
+    return false;
+  }
+  switch (event.type) {
+    case 'put':
+    case 'delete':
+    case 'update-metadata':
+      return Array.isArray(event.ids) && event.ids.every((id) => typeof id === 'string');
+    case 'clear':
+    case 'rebuild':
+      return true;
+    default:
+      return false;
+  }
+}
@@ -19,11 +19,23 @@ export interface EvictionConfig {
 export interface EvictionResult {
   evictedCount: number;
   freedBytes: number;
+  /** Vectors removed, with the metadata they had */
+  evicted: EvictedVector[];
   errors: Array<{ id: string; error: Error }>;
   duration: number;
   strategy: string;
 }
 
+export interface EvictedVector {
+  id: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Called after each eviction with its result
+ */
+export type EvictionListener = (result: EvictionResult) => void;
+
 /**
  * Vector scoring information for eviction decisions
  */
@@ -104,6 +116,10 @@ abstract class BaseEvictionPolicy {
   protected isPermanent(vector: VectorData): boolean {
     return vector.metadata?.['permanent'] === true;
   }
+
+  protected describeEvicted(vector: VectorData): EvictedVector {
+    return { id: vector.id, ...(vector.metadata && { metadata: vector.metadata }) };
+  }
 }
 
 /**
@@ -134,7 +150,7 @@ export class LRUEvictionPolicy extends BaseEvictionPolicy {
     let freedBytes = 0;
     let evictedCount = 0;
     const errors: Array<{ id: string; error: Error }> = [];
-    const toDelete: string[] = [];
+    const toDelete: VectorData[] = [];
 
     // Select vectors for eviction
     for (const vector of candidates) {
@@ -142,7 +158,7 @@ export class LRUEvictionPolicy extends BaseEvictionPolicy {
       if (freedBytes >= targetBytes && targetBytes > 0) break;
 
       const vectorSize = this.estimateVectorSize(vector);
-      toDelete.push(vector.id);
+      toDelete.push(vector);
       freedBytes += vectorSize;
       evictedCount++;
     }
@@ -152,7 +168,7 @@ export class LRUEvictionPolicy extends BaseEvictionPolicy {
       const batch = toDelete.slice(i, i + batchSize);
 
       await Promise.all(
-        batch.map(async (id) => {
+        batch.map(async ({ id }) => {
           try {
             await this.storage.delete(id);
           } catch (error) {
@@ -166,10 +182,14 @@ export class LRUEvictionPolicy extends BaseEvictionPolicy {
     }
 
     const duration = performance.now() - startTime;
+    const failed = new Set(errors.map(({ id }) => id));
 
     return {
       evictedCount: evictedCount - errors.length,
       freedBytes,
+      evicted: toDelete
+        .filter(({ id }) => !failed.has(id))
+        .map((vector) => this.describeEvicted(vector)),
       errors,
       duration,
       strategy: 'lru',
@@ -207,6 +227,7 @@ export class LFUEvictionPolicy extends BaseEvictionPolicy {
     let freedBytes = 0;
     let evictedCount = 0;
     const errors: Array<{ id: string; error: Error }> = [];
+    const evicted: EvictedVector[] = [];
 
     for (const vector of candidates) {
       if (evictedCount >= maxVectors) break;
@@ -216,6 +237,7 @@ export class LFUEvictionPolicy extends BaseEvictionPolicy {
         await this.storage.delete(vector.id);
         freedBytes += this.estimateVectorSize(vector);
         evictedCount++;
+        evicted.push(this.describeEvicted(vector));
       } catch (error) {
         errors.push({
           id: vector.id,
@@ -227,6 +249,7 @@ export class LFUEvictionPolicy extends BaseEvictionPolicy {
     return {
       evictedCount,
       freedBytes,
+      evicted,
       errors,
       duration: performance.now() - startTime,
       strategy: 'lfu',
@@ -258,12 +281,14 @@ export class TTLEvictionPolicy extends BaseEvictionPolicy {
     let freedBytes = 0;
     let evictedCount = 0;
     const errors: Array<{ id: string; error: Error }> = [];
+    const evicted: EvictedVector[] = [];
 
     for (const vector of candidates) {
       try {
         await this.storage.delete(vector.id);
         freedBytes += this.estimateVectorSize(vector);
         evictedCount++;
+        evicted.push(this.describeEvicted(vector));
       } catch (error) {
         errors.push({
           id: vector.id,
@@ -275,6 +300,7 @@ export class TTLEvictionPolicy extends BaseEvictionPolicy {
     return {
       evictedCount,
       freedBytes,
+      evicted,
       errors,
       duration: performance.now() - startTime,
       strategy: 'ttl',
@@ -311,6 +337,7 @@ export class ScoreBasedEvictionPolicy extends BaseEvictionPolicy {
     let freedBytes = 0;
     let evictedCount = 0;
     const errors: Array<{ id: string; error: Error }> = [];
+    const evicted: EvictedVector[] = [];
 
     for (const item of scoredVectors) {
       if (evictedCount >= maxVectors) break;
@@ -320,6 +347,7 @@ export class ScoreBasedEvictionPolicy extends BaseEvictionPolicy {
         await this.storage.delete(item.id);
         freedBytes += item.size;
         evictedCount++;
+        evicted.push(this.describeEvicted(item.vector));
       } catch (error) {
         errors.push({
           id: item.id,
@@ -331,6 +359,7 @@ export class ScoreBasedEvictionPolicy extends BaseEvictionPolicy {
     return {
       evictedCount,
       freedBytes,
+      evicted,
       errors,
       duration: performance.now() - startTime,
       strategy: 'score',
@@ -405,6 +434,7 @@ export class HybridEvictionPolicy extends BaseEvictionPolicy {
       return {
         evictedCount: ttlResult.evictedCount + scoreResult.evictedCount,
         freedBytes: ttlResult.freedBytes + scoreResult.freedBytes,
+        evicted: [...ttlResult.evicted, ...scoreResult.evicted],
         errors: [...ttlResult.errors, ...scoreResult.errors],
         duration: performance.now() - startTime,
         strategy: 'hybrid',
@@ -424,6 +454,7 @@ export class HybridEvictionPolicy extends BaseEvictionPolicy {
  */
 export class EvictionManager {
   private policies: Map<string, BaseEvictionPolicy> = new Map();
+  private listeners = new Set<EvictionListener>();
 
   constructor(private storage: StorageAdapter) {
     this.policies.set('lru', new LRUEvictionPolicy(storage));
@@ -456,9 +487,33 @@ export class EvictionManager {
       });
     }
 
+    this.listeners.forEach((callback) => {
+      try {
+        callback(result);
+      } catch (error) {
+        log.error('Error in eviction listener', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+
     return result;
   }
 
+  /**
+   * Add a listener called after every eviction
+   */
+  addListener(callback: EvictionListener): void {
+    this.listeners.add(callback);
+  }
+
+  /**
+   * Remove an eviction listener
+   */
+  removeListener(callback: EvictionListener): void {
+    this.listeners.delete(callback);
+  }
+
   /**
    * Get statistics about vectors for eviction planning
    */
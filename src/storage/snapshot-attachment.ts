@@ -0,0 +1,94 @@
+import { StorageCorruptionError, StorageFormatError } from '@/core/errors.js';
+import type { DistanceMetric } from '@/core/types.js';
+
+// ---------------------------------------------------------------------------
+// Snapshot attachment layout
+//
+//   [0..3]   manifest length, uint32 little-endian
+//   [4..n]   manifest, UTF-8 JSON
+//   [n..]    HNSW snapshot (hnsw-snapshot.ts), absent when no index was active
+//
+// Adapters store the attachment as opaque bytes next to their copy of the
+// vectors; `VectorDB` reads it back to restore its configuration and index.
+// ---------------------------------------------------------------------------
+
+/** Currently supported attachment format versions.  Add future versions here. */
+export const SUPPORTED_SNAPSHOT_ATTACHMENT_VERSIONS = [1] as const;
+
+/**
+ * Database configuration captured with a snapshot
+ */
+export interface SnapshotManifest {
+  formatVersion: number;
+  dimension: number;
+  distanceMetric: DistanceMetric;
+}
+
+export interface RestoreSnapshotResult {
+  /** Number of vectors stored after the restore */
+  restored: number;
+  /** Whether the snapshot's HNSW graph was adopted instead of rebuilding the index */
+  indexRestored: boolean;
+}
+
+/**
+ * Pack the manifest and the optional HNSW snapshot into one attachment
+ */
+export function encodeSnapshotAttachment(
+  manifest: Omit<SnapshotManifest, 'formatVersion'>,
+  indexSnapshot: ArrayBuffer | null,
+): Uint8Array {
+  const json = new TextEncoder().encode(
+    JSON.stringify({
+      formatVersion: SUPPORTED_SNAPSHOT_ATTACHMENT_VERSIONS[0],
+      ...manifest,
+    }),
+  );
+  const index = indexSnapshot ? new Uint8Array(indexSnapshot) : new Uint8Array();
+  const bytes = new Uint8Array(4 + json.byteLength + index.byteLength);
+  new DataView(bytes.buffer).setUint32(0, json.byteLength, true);
+  bytes.set(json, 4);
+  bytes.set(index, 4 + json.byteLength);
+  return bytes;
+}
+
+/**
+ * Unpack an attachment written by {@link encodeSnapshotAttachment}
+ */
+export function decodeSnapshotAttachment(bytes: Uint8Array): {
+  manifest: SnapshotManifest;
+  indexSnapshot: ArrayBuffer | null;
+} {
+  if (bytes.byteLength < 4) {
+    throw new StorageCorruptionError('snapshot attachment is truncated');
+  }
+  const length = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true);
+  if (4 + length > bytes.byteLength) {
+    throw new StorageCorruptionError('snapshot manifest is truncated');
+  }
+
+  let manifest: SnapshotManifest;
+  try {
+    manifest = JSON.parse(
+      new TextDecoder().decode(bytes.subarray(4, 4 + length)),
+    ) as SnapshotManifest;
+  } catch {
+    throw new StorageCorruptionError('snapshot manifest is not valid JSON');
+  }
+  if (
+    !(SUPPORTED_SNAPSHOT_ATTACHMENT_VERSIONS as readonly number[]).includes(
+      manifest.formatVersion,
+    )
+  ) {
+    throw new StorageFormatError(
+      manifest.formatVersion,
+      SUPPORTED_SNAPSHOT_ATTACHMENT_VERSIONS,
+    );
+  }
+
+  const index = bytes.slice(4 + length);
+  return {
+    manifest,
+    indexSnapshot: index.byteLength > 0 ? index.buffer : null,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Pulls exact byte counts and lines out of a chunked byte stream.
+ *
+ * Chunks are gathered until a read can be satisfied and then merged once, so
+ * a large read over many small chunks costs one copy rather than one per
+ * chunk.
+ */
+export class StreamByteReader {
+  private buffer = new Uint8Array(0);
+  private offset = 0;
+  private done = false;
+
+  /**
+   * @param reader - Reader of the underlying stream
+   * @param truncated - Creates the error thrown when the stream ends before
+   *   a read of an exact length completes
+   */
+  constructor(
+    private reader: ReadableStreamDefaultReader<Uint8Array>,
+    private truncated: () => Error,
+  ) {}
+
+  /** Next byte without consuming it, or `null` at the end of the stream */
+  async peek(): Promise<number | null> {
+    await this.fill(1);
+    return this.offset < this.buffer.byteLength ? this.buffer[this.offset]! : null;
+  }
+
+  /**
+   * Consume the next `length` bytes. The result is a view that stays valid
+   * until the next read; copy it to keep it longer.
+   */
+  async readExactly(length: number): Promise<Uint8Array> {
+    await this.fill(length);
+    if (this.buffer.byteLength - this.offset < length) {
+      throw this.truncated();
+    }
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /** Next line without its terminator, or `null` at the end of the stream */
+  async readLine(): Promise<string | null> {
+    let searchFrom = this.offset;
+    for (;;) {
+      const newline = this.buffer.indexOf(0x0a, searchFrom);
+      if (newline !== -1) {
+        const line = this.buffer.subarray(this.offset, newline);
+        this.offset = newline + 1;
+        return new TextDecoder().decode(line);
+      }
+      if (this.done) {
+        if (this.offset >= this.buffer.byteLength) {
+          return null;
+        }
+        const rest = this.buffer.subarray(this.offset);
+        this.offset = this.buffer.byteLength;
+        return new TextDecoder().decode(rest);
+      }
+      const scanned = this.buffer.byteLength - this.offset;
+      await this.fill(scanned + 1);
+      searchFrom = this.offset + scanned;
+    }
+  }
+
+  private async fill(length: number): Promise<void> {
+    let available = this.buffer.byteLength - this.offset;
+    if (available >= length || this.done) {
+      return;
+    }
+
+    const chunks: Uint8Array[] = [this.buffer.subarray(this.offset)];
+    while (available < length) {
+      const { value, done } = await this.reader.read();
+      if (done) {
+        this.done = true;
+        break;
+      }
+      chunks.push(value);
+      available += value.byteLength;
+    }
+
+    const merged = new Uint8Array(available);
+    let position = 0;
+    for (const chunk of chunks) {
+      merged.set(chunk, position);
+      position += chunk.byteLength;
+    }
+    this.buffer = merged;
+    this.offset = 0;
+  }
+}
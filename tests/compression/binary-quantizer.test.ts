@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'bun:test';
+
+import { BinaryQuantizer, hammingDistance } from '@/compression/binary-quantizer.js';
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function randomVectors(count: number, dimension: number, seed = 7): Float32Array[] {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, () => {
+    const vector = new Float32Array(dimension);
+    for (let d = 0; d < dimension; d++) {
+      vector[d] = random() * 2 - 1;
+    }
+    return vector;
+  });
+}
+
+describe('BinaryQuantizer', () => {
+  describe('Encoding', () => {
+    it('packs one sign bit per component, eight to a byte', () => {
+      const quantizer = new BinaryQuantizer();
+      const code = quantizer.encode(
+        new Float32Array([0.5, -1, 2, 0, -0.1, 3, 1, -2, 0.7, -0.7]),
+      );
+
+      expect(code).toHaveLength(2);
+      expect(code[0]).toBe(0b0110_0101);
+      expect(code[1]).toBe(0b01);
+    });
+
+    it('thresholds against learned per-dimension means', () => {
+      const quantizer = new BinaryQuantizer({ threshold: 'mean' });
+      expect(quantizer.isTrained()).toBe(false);
+      expect(() => quantizer.encode(new Float32Array(8))).toThrow(/trainThresholds/);
+
+      quantizer.trainThresholds([
+        new Float32Array([10, 0, 0, 0, 0, 0, 0, 0]),
+        new Float32Array([20, 0, 0, 0, 0, 0, 0, 2]),
+      ]);
+
+      expect(quantizer.isTrained()).toBe(true);
+      expect(Array.from(quantizer.getThresholds()!)).toEqual([15, 0, 0, 0, 0, 0, 0, 1]);
+      // 12 is positive but below its dimension's mean of 15
+      expect(quantizer.encode(new Float32Array([12, 1, 0, 0, 0, 0, 0, 1.5]))[0]).toBe(
+        0b1000_0010,
+      );
+    });
+
+    it('restores thresholds for the mean variant', () => {
+      const trained = new BinaryQuantizer({ threshold: 'mean' });
+      trained.trainThresholds(randomVectors(20, 16));
+
+      const restored = new BinaryQuantizer({ threshold: 'mean' });
+      restored.setThresholds(trained.getThresholds()!);
+
+      const vector = randomVectors(1, 16, 99)[0]!;
+      expect(restored.encode(vector)).toEqual(trained.encode(vector));
+    });
+  });
+
+  describe('Compression', () => {
+    it('achieves close to 32x compression on large vectors', async () => {
+      const quantizer = new BinaryQuantizer({ validateQuality: false });
+      const compressed = await quantizer.compress(randomVectors(1, 1024)[0]!);
+
+      expect(compressed.data.byteLength).toBe(16 + 128);
+      expect(compressed.metadata.compressionRatio).toBeGreaterThan(28);
+      expect(compressed.metadata.algorithm).toStartWith('binary-sign:');
+    });
+
+    it('round-trips two-valued vectors exactly', async () => {
+      const quantizer = new BinaryQuantizer();
+      const vector = new Float32Array(
+        Array.from({ length: 64 }, (_, i) => (i % 4 === 0 ? 0.25 : -0.75)),
+      );
+
+      const compressed = await quantizer.compress(vector);
+      const decompressed = await quantizer.decompress(compressed);
+
+      expect(Array.from(decompressed)).toEqual(Array.from(vector));
+      expect(compressed.metadata.precisionLoss).toBeCloseTo(0, 5);
+    });
+
+    it('reports precision loss without rejecting dense vectors', async () => {
+      const quantizer = new BinaryQuantizer({ maxPrecisionLoss: 0.01 });
+      const vector = randomVectors(1, 256)[0]!;
+
+      const compressed = await quantizer.compress(vector);
+      const decompressed = await quantizer.decompress(compressed);
+
+      expect(compressed.metadata.precisionLoss).toBeGreaterThan(0.01);
+      for (let d = 0; d < vector.length; d++) {
+        expect(Math.sign(decompressed[d]!)).toBe(Math.sign(vector[d]!));
+      }
+    });
+
+    it('exposes the packed code of a compressed vector', async () => {
+      const quantizer = new BinaryQuantizer({ validateQuality: false });
+      const vector = randomVectors(1, 100)[0]!;
+
+      const compressed = await quantizer.compress(vector);
+      expect(quantizer.codeOf(compressed)).toEqual(quantizer.encode(vector));
+    });
+
+    it('rejects data written with a different threshold', async () => {
+      const sign = new BinaryQuantizer({ validateQuality: false });
+      const mean = new BinaryQuantizer({ threshold: 'mean' });
+      mean.trainThresholds(randomVectors(4, 32));
+
+      const compressed = await sign.compress(randomVectors(1, 32)[0]!);
+      expect(mean.decompress(compressed)).rejects.toThrow(/threshold mismatch/);
+    });
+  });
+
+  describe('Hamming search', () => {
+    it('counts differing bits', () => {
+      expect(
+        hammingDistance(new Uint8Array([0xff, 0x00]), new Uint8Array([0x0f, 0x01])),
+      ).toBe(5);
+      expect(() => hammingDistance(new Uint8Array(2), new Uint8Array(3))).toThrow(
+        /length mismatch/,
+      );
+    });
+
+    it('ranks candidates by Hamming distance, keeping input order on ties', () => {
+      const quantizer = new BinaryQuantizer();
+      const ranked = quantizer.rankByHamming(
+        new Uint8Array([0b0000_1111]),
+        [
+          { id: 'far', code: new Uint8Array([0b1111_0000]) },
+          { id: 'tie-a', code: new Uint8Array([0b0000_0111]) },
+          { id: 'exact', code: new Uint8Array([0b0000_1111]) },
+          { id: 'tie-b', code: new Uint8Array([0b0001_1111]) },
+        ],
+        3,
+      );
+
+      expect(ranked).toEqual([
+        { id: 'exact', hammingDistance: 0 },
+        { id: 'tie-a', hammingDistance: 1 },
+        { id: 'tie-b', hammingDistance: 1 },
+      ]);
+    });
+
+    it('re-ranks the Hamming shortlist at full precision', async () => {
+      const quantizer = new BinaryQuantizer();
+      const vectors = randomVectors(500, 64);
+      const candidates = vectors.map((vector, i) => ({
+        id: `v${i}`,
+        code: quantizer.encode(vector),
+      }));
+      const byId = new Map(vectors.map((vector, i) => [`v${i}`, vector]));
+      const query = vectors[42]!;
+
+      const requested: string[][] = [];
+      const results = await quantizer.search(query, candidates, 5, {
+        rerankCount: 50,
+        metric: 'euclidean',
+        resolveVectors: (ids) => {
+          requested.push(ids);
+          return new Map(ids.map((id) => [id, byId.get(id)!]));
+        },
+      });
+
+      expect(requested).toHaveLength(1);
+      expect(requested[0]).toHaveLength(50);
+      expect(results).toHaveLength(5);
+      expect(results[0]).toEqual({ id: 'v42', hammingDistance: 0, distance: 0 });
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i]!.distance!).toBeGreaterThanOrEqual(results[i - 1]!.distance!);
+      }
+    });
+
+    it('returns the Hamming order when no resolver is given', async () => {
+      const quantizer = new BinaryQuantizer();
+      const vectors = randomVectors(20, 32);
+      const candidates = vectors.map((vector, i) => ({
+        id: `v${i}`,
+        code: quantizer.encode(vector),
+      }));
+
+      const results = await quantizer.search(vectors[3]!, candidates, 4);
+
+      expect(results).toHaveLength(4);
+      expect(results[0]).toEqual({ id: 'v3', hammingDistance: 0 });
+      expect(results.every((result) => result.distance === undefined)).toBe(true);
+    });
+  });
+});
@@ -125,16 +125,27 @@ describe('Compression Integration', () => {
       expect(scalarComparison.reasoning).toBeDefined();
     });
 
-    it('should not advertise binary quantization (not yet implemented)', () => {
+    it('should advertise binary quantization', () => {
       const vector = new Float32Array(Array.from({ length: 100 }, () => Math.random()));
 
       const strategies = compressionManager.getAvailableStrategies();
       const comparisons = compressionManager.compareStrategies(vector);
 
-      // Binary quantization is deferred — it must not appear as an available
-      // strategy until a real compressor is registered and tested.
-      expect(strategies).not.toContain('binary');
-      expect(comparisons.has('binary' as never)).toBe(false);
+      expect(strategies).toContain('binary');
+      expect(comparisons.get('binary')!.estimatedRatio).toBeGreaterThan(10);
+    });
+
+    it('should prefer binary quantization for two-valued vectors', async () => {
+      const vector = new Float32Array(
+        Array.from({ length: 128 }, (_, i) => (i % 3 === 0 ? 1 : -1)),
+      );
+
+      const recommendation = compressionManager.autoSelectStrategy(vector);
+      expect(recommendation.strategy).toBe('binary');
+
+      const compressed = await compressionManager.compress(vector, 'binary');
+      const decompressed = await compressionManager.decompress(compressed);
+      expect(Array.from(decompressed)).toEqual(Array.from(vector));
     });
 
     it('should provide meaningful comparison data', () => {
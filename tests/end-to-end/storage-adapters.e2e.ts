@@ -160,30 +160,28 @@ test.describe('Storage Adapters E2E', () => {
       expect(result.secondId).toBe('after-recreate');
     });
 
-    test('corrupt OPFS file is skipped by getAll() and throws on get()', async ({
-      page,
-    }) => {
+    test('a torn OPFS write is truncated on the next init()', async ({ page }) => {
       const result = await page.evaluate(() => {
         return (window as any).testOPFSCorruptFileRecovery();
       });
 
-      // getAll() should skip the corrupt file and return only valid entries.
+      // Only the write before the torn frame survives.
       expect(result.getAllCount).toBe(1);
       expect(result.validId).toBe('valid-vec');
 
-      // get() on the corrupt-file ID must throw.
+      // get() on the torn write's ID must throw.
       expect(result.corruptGetThrew).toBe(true);
     });
 
-    test('two adapter instances on the same directory see each others writes', async ({
+    test('an adapter sees the writes of one that closed the same directory', async ({
       page,
     }) => {
       const result = await page.evaluate(() => {
         return (window as any).testOPFSTwoInstances();
       });
 
-      // Both instances share the same OPFS directory, so instance B must see
-      // the vector written by instance A.
+      // Instance A saved its index on close(), so instance B must see the
+      // vector written by instance A.
       expect(result.instanceBSawInstanceAWrite).toBe(true);
       expect(result.count).toBe(2);
     });
@@ -1,12 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 
-import { VectorDB, VectorFrankl, SearchEngine } from '@/index.js';
+import { VectorDB, VectorFrankl, SearchEngine, VersionConflictError } from '@/index.js';
 import { VectorDatabase } from '@/core/database.js';
 import type { SearchOptions, StorageAdapter } from '@/core/types.js';
 import {
   assertInvariants,
   type VectorDBInternals,
 } from '@/test/helpers/storage-index-invariants.js';
+import { createCrossTabEnvironment } from '../mocks/cross-tab-mock.js';
 import { cleanupIndexedDBMocks, setupIndexedDBMocks } from '../mocks/indexeddb-mock.js';
 
 describe('Vector Database Integration Tests', () => {
@@ -264,6 +265,783 @@ describe('Vector Database Integration Tests', () => {
     });
   });
 
+  describe('Hybrid Search', () => {
+    const hybridDBName = 'test-vector-db-hybrid';
+    let hybridDB: VectorDB;
+
+    const unit = (index: number) => {
+      const v = new Float32Array(dimension);
+      v[index] = 1;
+      return v;
+    };
+
+    beforeEach(async () => {
+      hybridDB = new VectorDB(hybridDBName, dimension, {
+        autoEviction: false,
+        useIndex: false,
+        textIndex: { fields: ['title', 'tags'] },
+      });
+      await hybridDB.init();
+      await hybridDB.addBatch([
+        { id: 'near', vector: unit(0), metadata: { title: 'Vector basics', lang: 'en' } },
+        {
+          id: 'keyword',
+          vector: unit(1),
+          metadata: { title: 'Reciprocal rank fusion', tags: ['fusion'], lang: 'en' },
+        },
+        {
+          id: 'both',
+          vector: unit(0),
+          metadata: { title: 'Fusion of vector results', lang: 'de' },
+        },
+      ]);
+    });
+
+    afterEach(async () => {
+      await hybridDB.delete();
+    });
+
+    it('ranks results matching both vector and text first', async () => {
+      const results = await hybridDB.hybridSearch(unit(0), 'fusion', 3);
+
+      expect(results.map((result) => result.id)).toEqual(['both', 'keyword', 'near']);
+      expect(results[0]!.distance).toBeDefined();
+      expect(results[1]!.distance).toBeDefined();
+    });
+
+    it('populates highlights with matched terms per field', async () => {
+      const results = await hybridDB.hybridSearch(unit(0), 'rank fusion', 3);
+      const keyword = results.find((result) => result.id === 'keyword');
+
+      expect(keyword!.highlights).toEqual({
+        title: ['rank', 'fusion'],
+        tags: ['fusion'],
+      });
+      expect(results.find((result) => result.id === 'near')!.highlights).toBeUndefined();
+    });
+
+    it('applies the metadata filter to lexical matches', async () => {
+      const results = await hybridDB.hybridSearch(unit(2), 'fusion', 3, {
+        filter: { lang: 'en' },
+        includeMetadata: true,
+      });
+
+      expect(results.map((result) => result.id).sort()).toEqual(['keyword', 'near']);
+      for (const result of results) {
+        expect(result.metadata?.['lang']).toBe('en');
+      }
+    });
+
+    it('supports weighted fusion', async () => {
+      const vectorOnly = await hybridDB.hybridSearch(unit(1), 'vector', 1, {
+        fusion: 'weighted',
+        alpha: 1,
+      });
+      const textOnly = await hybridDB.hybridSearch(unit(1), 'vector', 1, {
+        fusion: 'weighted',
+        alpha: 0,
+      });
+
+      expect(vectorOnly[0]!.id).toBe('keyword');
+      expect(textOnly[0]!.id).not.toBe('keyword');
+    });
+
+    it('keeps the text index in sync with writes', async () => {
+      await hybridDB.deleteVector('keyword');
+      await hybridDB.updateMetadata('near', { title: 'Rank fusion primer' });
+
+      const results = await hybridDB.hybridSearch(unit(1), 'primer', 3);
+
+      expect(results.map((result) => result.id)).not.toContain('keyword');
+      expect(results[0]!.id).toBe('near');
+      expect(results[0]!.highlights).toEqual({ title: ['primer'] });
+    });
+
+    it('rejects hybrid search without a text index and invalid options', async () => {
+      expect(db.hybridSearch(unit(0), 'fusion')).rejects.toThrow(
+        'requires the textIndex option',
+      );
+      expect(hybridDB.hybridSearch(unit(0), 'fusion', 3, { alpha: 2 })).rejects.toThrow(
+        'alpha must be a number between 0 and 1',
+      );
+    });
+  });
+
+  describe('Compressed Storage', () => {
+    const compressedDBName = 'test-vector-db-compressed';
+
+    // Four well-separated clusters so quantized ranking is unambiguous
+    const clustered = (index: number) => {
+      const v = new Float32Array(dimension);
+      const cluster = index % 4;
+      for (let d = 0; d < dimension; d++) {
+        v[d] = (d % 4 === cluster ? 1 : -0.3) + Math.sin(index * 7 + d) * 0.05;
+      }
+      return v;
+    };
+    const batch = (from: number, to: number) =>
+      Array.from({ length: to - from }, (_, i) => ({
+        id: `c${from + i}`,
+        vector: clustered(from + i),
+        metadata: { cluster: (from + i) % 4 },
+      }));
+
+    const open = async (compression: ConstructorParameters<typeof VectorDB>[2]) => {
+      const compressedDB = new VectorDB(compressedDBName, dimension, {
+        autoEviction: false,
+        useIndex: false,
+        ...compression,
+      });
+      await compressedDB.init();
+      return compressedDB;
+    };
+
+    afterEach(async () => {
+      await new VectorDB(compressedDBName, dimension).delete();
+    });
+
+    it('trains the product quantization codebook after trainOn inserts', async () => {
+      const compressedDB = await open({
+        compression: { strategy: 'product', trainOn: 24, rescore: 8 },
+      });
+
+      await compressedDB.addBatch(batch(0, 16));
+      expect(compressedDB.getCompressionStats()).toMatchObject({
+        strategy: 'product',
+        trained: false,
+        vectorCount: 0,
+      });
+      // Untrained stores still answer exactly
+      const untrained = await compressedDB.search(clustered(5), 1);
+      expect(untrained[0]!.id).toBe('c5');
+
+      await compressedDB.addBatch(batch(16, 40));
+      const stats = compressedDB.getCompressionStats()!;
+      expect(stats.trained).toBe(true);
+      expect(stats.vectorCount).toBe(40);
+      expect(stats.codeBytes).toBe(40 * 8);
+
+      // Codes are kept apart; the stored record is the original vector
+      await compressedDB.addVector('c40', clustered(40));
+      expect(compressedDB.getCompressionStats()!.vectorCount).toBe(41);
+      const stored = await compressedDB.getVector('c40');
+      expect(stored!.compression).toBeUndefined();
+      expect(stored!.vector).toEqual(clustered(40));
+
+      const results = await compressedDB.search(clustered(33), 3, {
+        includeMetadata: true,
+      });
+      expect(results[0]!.id).toBe('c33');
+      expect(results[0]!.distance).toBeCloseTo(0, 5);
+      for (const result of results) {
+        expect(result.metadata!['cluster']).toBe(1);
+      }
+    });
+
+    it('reuses the persisted codebook and stored codes when reopened', async () => {
+      const compression = { strategy: 'product', trainOn: 24, rescore: 8 } as const;
+      const first = await open({ compression });
+      await first.addBatch(batch(0, 40));
+      const before = await first.search(clustered(10), 5);
+      await first.close();
+
+      const reopened = await open({ compression });
+      expect(reopened.getCompressionStats()).toMatchObject({
+        trained: true,
+        vectorCount: 40,
+      });
+      expect(await reopened.search(clustered(10), 5)).toEqual(before);
+
+      await reopened.addVector('late', clustered(2));
+      const [nearest] = await reopened.search(clustered(2), 1);
+      expect(nearest!.id).toMatch(/^(c2|late)$/);
+    });
+
+    it('re-encodes vectors whose stored codes are stale', async () => {
+      const compressedDB = await open({
+        compression: { strategy: 'scalar', rescore: 4 },
+      });
+      await compressedDB.addBatch(batch(0, 12));
+
+      await compressedDB.updateVector('c0', clustered(3));
+      await compressedDB.rebuildIndex();
+
+      const results = await compressedDB.search(clustered(3), 2);
+      expect(results.map((result) => result.id).sort()).toEqual(['c0', 'c3']);
+    });
+
+    it('pre-ranks binary codes and returns approximate distances without rescoring', async () => {
+      const compressedDB = await open({ compression: { strategy: 'binary' } });
+      await compressedDB.addBatch(batch(0, 20));
+
+      const stats = compressedDB.getCompressionStats()!;
+      expect(stats.codeBytes / stats.vectorCount).toBe(16 + dimension / 8);
+
+      const results = await compressedDB.search(clustered(6), 5, { includeVector: true });
+      expect(results).toHaveLength(5);
+      for (const result of results) {
+        expect(Number(result.id.slice(1)) % 4).toBe(2);
+        expect(result.vector).toEqual(clustered(Number(result.id.slice(1))));
+      }
+    });
+
+    it('answers filtered searches exactly', async () => {
+      const compressedDB = await open({
+        compression: { strategy: 'binary', rescore: 4 },
+      });
+      await compressedDB.addBatch(batch(0, 20));
+
+      const results = await compressedDB.search(clustered(1), 3, {
+        filter: { cluster: 3 },
+      });
+      expect(results).toHaveLength(3);
+      expect(results.every((result) => Number(result.id.slice(1)) % 4 === 3)).toBe(true);
+    });
+
+    it('drops codes and the codebook on clear', async () => {
+      const compressedDB = await open({
+        compression: { strategy: 'product', trainOn: 24 },
+      });
+      await compressedDB.addBatch(batch(0, 30));
+      await compressedDB.clear();
+
+      expect(compressedDB.getCompressionStats()).toMatchObject({
+        trained: false,
+        vectorCount: 0,
+      });
+    });
+  });
+
+  describe('IVF Index', () => {
+    const ivfDBName = 'test-vector-db-ivf';
+    const ivfOptions = {
+      autoEviction: false,
+      useIndex: true,
+      indexConfig: { type: 'ivf' as const, ivf: { nlist: 4, nprobe: 1, trainOn: 24 } },
+    };
+
+    const clustered = (index: number) => {
+      const v = new Float32Array(dimension);
+      const cluster = index % 4;
+      for (let d = 0; d < dimension; d++) {
+        v[d] = (d % 4 === cluster ? 1 : 0) + Math.sin(index * 7 + d) * 0.05;
+      }
+      return v;
+    };
+    const batch = (from: number, to: number) =>
+      Array.from({ length: to - from }, (_, i) => ({
+        id: `i${from + i}`,
+        vector: clustered(from + i),
+        metadata: { cluster: (from + i) % 4 },
+      }));
+
+    const open = async (extra: ConstructorParameters<typeof VectorDB>[2] = {}) => {
+      const ivfDB = new VectorDB(ivfDBName, dimension, { ...ivfOptions, ...extra });
+      await ivfDB.init();
+      return ivfDB;
+    };
+
+    afterEach(async () => {
+      await new VectorDB(ivfDBName, dimension, ivfOptions).delete();
+    });
+
+    it('searches exactly until trained, then only the probed list', async () => {
+      const ivfDB = await open();
+
+      await ivfDB.addBatch(batch(0, 16));
+      expect(ivfDB.getIndexStats()).toMatchObject({
+        enabled: true,
+        type: 'ivf',
+        nodeCount: 16,
+        ivf: { trained: false, pendingTraining: 16 },
+      });
+      const exact = await ivfDB.search(clustered(1), 16);
+      expect(exact).toHaveLength(16);
+
+      await ivfDB.addBatch(batch(16, 40));
+      expect(ivfDB.getIndexStats().ivf).toMatchObject({
+        trained: true,
+        nlist: 4,
+        vectorCount: 40,
+        largestList: 10,
+        smallestList: 10,
+      });
+
+      // nprobe: 1 limits candidates to the query's own cluster
+      const results = await ivfDB.search(clustered(1), 40, { includeMetadata: true });
+      expect(results).toHaveLength(10);
+      expect(results.every((result) => result.metadata?.['cluster'] === 1)).toBe(true);
+      expect(results[0]!.id).toBe('i1');
+    });
+
+    it('restores the persisted inverted lists on reopen', async () => {
+      const ivfDB = await open();
+      await ivfDB.addBatch(batch(0, 40));
+      await ivfDB.deleteVector('i2');
+      const before = await ivfDB.search(clustered(6), 5);
+      await ivfDB.close();
+
+      const reopened = await open();
+      expect(reopened.getIndexStats().ivf).toMatchObject({
+        trained: true,
+        vectorCount: 39,
+      });
+      expect(await reopened.search(clustered(6), 5)).toEqual(before);
+      expect(before.map((result) => result.id)).not.toContain('i2');
+    });
+
+    it('answers filtered searches exactly', async () => {
+      const ivfDB = await open();
+      await ivfDB.addBatch(batch(0, 40));
+
+      const results = await ivfDB.search(clustered(0), 3, { filter: { cluster: 3 } });
+      expect(results).toHaveLength(3);
+      expect(results.map((result) => Number(result.id.slice(1)) % 4)).toEqual([3, 3, 3]);
+    });
+
+    it('scores probed candidates against compressed codes for IVF-PQ', async () => {
+      const ivfDB = await open({ compression: { strategy: 'product', trainOn: 24 } });
+      await ivfDB.addBatch(batch(0, 40));
+      await ivfDB.addBatch(batch(40, 44));
+
+      expect(ivfDB.getCompressionStats()).toMatchObject({
+        trained: true,
+        vectorCount: 44,
+      });
+      const results = await ivfDB.search(clustered(2), 5, { includeMetadata: true });
+      expect(results).toHaveLength(5);
+      expect(results.every((result) => result.metadata?.['cluster'] === 2)).toBe(true);
+    });
+  });
+
+  describe('KD-tree Index', () => {
+    const kdDBName = 'test-vector-db-kdtree';
+    const kdOptions = {
+      autoEviction: false,
+      distanceMetric: 'euclidean' as const,
+      useIndex: true,
+      indexConfig: { type: 'auto' as const, kdtree: { leafSize: 4 } },
+    };
+
+    const point = (index: number) =>
+      new Float32Array([Math.cos(index) * index, Math.sin(index) * index, index % 5]);
+    const batch = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        id: `k${i}`,
+        vector: point(i),
+        metadata: { even: i % 2 === 0 },
+      }));
+
+    const open = async (extra: ConstructorParameters<typeof VectorDB>[2] = {}) => {
+      const kdDB = new VectorDB(kdDBName, 3, { ...kdOptions, ...extra });
+      await kdDB.init();
+      return kdDB;
+    };
+
+    afterEach(async () => {
+      await new VectorDB(kdDBName, 3, kdOptions).delete();
+    });
+
+    it("picks a KD-tree for 'auto' at low dimension and HNSW otherwise", async () => {
+      const kdDB = await open();
+      expect(kdDB.getIndexStats()).toMatchObject({ enabled: true, type: 'kdtree' });
+
+      const wide = new VectorDB('test-vector-db-kdtree-wide', dimension, kdOptions);
+      expect(wide.getIndexStats().type).toBe('hnsw');
+      const cosine = new VectorDB('test-vector-db-kdtree-cosine', 3, {
+        ...kdOptions,
+        distanceMetric: 'cosine',
+      });
+      expect(cosine.getIndexStats().type).toBe('hnsw');
+    });
+
+    it('answers k-NN, filtered and range searches exactly', async () => {
+      const kdDB = await open();
+      // Shares the store, searched by brute force
+      const exactDB = await open({ useIndex: false });
+      await kdDB.addBatch(batch(120));
+      await kdDB.deleteVector('k7');
+
+      expect(kdDB.getIndexStats()).toMatchObject({
+        nodeCount: 119,
+        kdtree: { pointCount: 119 },
+      });
+
+      const query = new Float32Array([10, -5, 2]);
+      expect(await kdDB.search(query, 10)).toEqual(await exactDB.search(query, 10));
+
+      const filter = { filter: { even: true }, includeMetadata: true };
+      expect(await kdDB.search(query, 10, filter)).toEqual(
+        await exactDB.search(query, 10, filter),
+      );
+
+      const inRange = await kdDB.searchRange(query, 15);
+      expect(inRange.length).toBeGreaterThan(0);
+      expect(inRange).toEqual(await exactDB.searchRange(query, 15));
+    });
+
+    it('restores the saved tree on reopen', async () => {
+      const kdDB = await open();
+      await kdDB.addBatch(batch(60));
+      await kdDB.rebuildIndex();
+      const query = new Float32Array([3, 3, 1]);
+      const before = await kdDB.search(query, 5);
+      await kdDB.close();
+
+      const reopened = await open();
+      expect(reopened.getIndexStats()).toMatchObject({
+        type: 'kdtree',
+        nodeCount: 60,
+        kdtree: { changesSinceRebalance: 0 },
+      });
+      expect(await reopened.search(query, 5)).toEqual(before);
+    });
+  });
+
+  describe('Automatic Index Strategy', () => {
+    const autoDBName = 'test-vector-db-auto-index';
+
+    afterEach(async () => {
+      await new VectorDB(autoDBName, 3).delete();
+      await new VectorDB(`${autoDBName}-wide`, dimension).delete();
+    });
+
+    const planar = (count: number, offset = 0) =>
+      Array.from({ length: count }, (_, i) => ({
+        id: `p${offset + i}`,
+        vector: new Float32Array([i + offset, (i + offset) % 7, (i + offset) % 3]),
+      }));
+
+    it('starts with brute force and migrates to a KD-tree as the collection grows', async () => {
+      const autoDB = new VectorDB(autoDBName, 3, {
+        autoEviction: false,
+        distanceMetric: 'euclidean',
+        indexStrategy: 'auto',
+      });
+      await autoDB.init();
+      await autoDB.addBatch(planar(150));
+      await autoDB.waitForIndexMigration();
+      expect(autoDB.getIndexStrategy()).toMatchObject({
+        strategy: 'auto',
+        active: 'brute',
+      });
+      expect(autoDB.getIndexStats().enabled).toBe(false);
+
+      await autoDB.addBatch(planar(100, 150));
+      await autoDB.waitForIndexMigration();
+      expect(autoDB.getIndexStrategy()).toMatchObject({
+        strategy: 'auto',
+        active: 'kdtree',
+        reason: expect.stringContaining('KD-tree'),
+      });
+      expect(autoDB.getIndexStats()).toMatchObject({ type: 'kdtree', nodeCount: 250 });
+
+      const exact = await new VectorDB(autoDBName, 3, {
+        autoEviction: false,
+        distanceMetric: 'euclidean',
+      }).search(new Float32Array([40, 2, 1]), 5);
+      expect(await autoDB.search(new Float32Array([40, 2, 1]), 5)).toEqual(exact);
+    });
+
+    it('migrates to HNSW past autoIndex.minVectors and keeps it on reopen', async () => {
+      const options = {
+        autoEviction: false,
+        indexStrategy: 'auto' as const,
+        autoIndex: { minVectors: 50 },
+      };
+      const autoDB = new VectorDB(`${autoDBName}-wide`, dimension, options);
+      await autoDB.init();
+      await autoDB.addBatch(
+        Array.from({ length: 120 }, (_, i) => ({
+          id: `w${i}`,
+          vector: Float32Array.from({ length: dimension }, (_, d) => Math.sin(i + d)),
+        })),
+      );
+      await autoDB.waitForIndexMigration();
+
+      expect(autoDB.getIndexStrategy()).toMatchObject({ active: 'hnsw' });
+      expect(autoDB.getIndexStats()).toMatchObject({ type: 'hnsw', nodeCount: 120 });
+      await autoDB.close();
+
+      const reopened = new VectorDB(`${autoDBName}-wide`, dimension, options);
+      await reopened.init();
+      expect(reopened.getIndexStrategy()).toMatchObject({ active: 'hnsw' });
+      expect(reopened.getIndexStats().nodeCount).toBe(120);
+    });
+
+    it('replays vectors updated during a migration without duplicating them', async () => {
+      const autoDB = new VectorDB(`${autoDBName}-wide`, dimension, {
+        autoEviction: false,
+        distanceMetric: 'euclidean',
+        indexStrategy: 'auto',
+        autoIndex: { minVectors: 50 },
+      });
+      await autoDB.init();
+      await autoDB.addBatch(
+        Array.from({ length: 120 }, (_, i) => ({
+          id: `w${i}`,
+          vector: Float32Array.from({ length: dimension }, (_, d) => Math.sin(i + d)),
+        })),
+      );
+      const moved = Float32Array.from({ length: dimension }, (_, d) => Math.cos(d));
+      await autoDB.updateVector('w10', moved);
+      await autoDB.waitForIndexMigration();
+
+      expect(autoDB.getIndexStats()).toMatchObject({ type: 'hnsw', nodeCount: 120 });
+      const results = await autoDB.search(moved, 5);
+      expect(results).toHaveLength(5);
+      expect(results[0]!.id).toBe('w10');
+    });
+
+    it('replays vectors deleted during a migration as removals', async () => {
+      const autoDB = new VectorDB(`${autoDBName}-wide`, dimension, {
+        autoEviction: false,
+        distanceMetric: 'euclidean',
+        indexStrategy: 'auto',
+        autoIndex: { minVectors: 50 },
+      });
+      await autoDB.init();
+      await autoDB.addBatch(
+        Array.from({ length: 120 }, (_, i) => ({
+          id: `w${i}`,
+          vector: Float32Array.from({ length: dimension }, (_, d) => Math.sin(i + d)),
+        })),
+      );
+      await autoDB.deleteVector('w10');
+      await autoDB.waitForIndexMigration();
+
+      expect(autoDB.getIndexStrategy()).not.toHaveProperty('migratingTo');
+      expect(autoDB.getIndexStats()).toMatchObject({ type: 'hnsw', nodeCount: 119 });
+      const results = await autoDB.search(
+        Float32Array.from({ length: dimension }, (_, d) => Math.sin(10 + d)),
+        5,
+      );
+      expect(results).toHaveLength(5);
+      expect(results.map(({ id }) => id)).not.toContain('w10');
+    });
+
+    it('uses a fixed indexStrategy over useIndex', () => {
+      const bruteDB = new VectorDB(autoDBName, 3, {
+        useIndex: true,
+        indexStrategy: 'brute',
+      });
+      expect(bruteDB.getIndexStrategy()).toEqual({ strategy: 'brute', active: 'brute' });
+
+      const kdDB = new VectorDB(autoDBName, 3, {
+        distanceMetric: 'euclidean',
+        indexStrategy: 'kdtree',
+      });
+      expect(kdDB.getIndexStats()).toMatchObject({ enabled: true, type: 'kdtree' });
+    });
+  });
+
+  describe('Cross-tab Coordination', () => {
+    const sharedDBName = 'test-vector-db-cross-tab';
+
+    afterEach(async () => {
+      await new VectorDB(sharedDBName, 3).delete();
+    });
+
+    const openTab = async (environment: ReturnType<typeof createCrossTabEnvironment>) => {
+      const tab = new VectorDB(sharedDBName, 3, {
+        autoEviction: false,
+        distanceMetric: 'euclidean',
+        indexStrategy: 'kdtree',
+        crossTab: environment,
+      });
+      await tab.init();
+      return tab;
+    };
+
+    it("applies another tab's writes to the local index", async () => {
+      const environment = createCrossTabEnvironment();
+      const tabA = await openTab(environment);
+      const tabB = await openTab(environment);
+
+      await tabA.addBatch(
+        Array.from({ length: 20 }, (_, i) => ({
+          id: `t${i}`,
+          vector: new Float32Array([i, i, i]),
+          metadata: { tag: 'old' },
+        })),
+      );
+      await tabA.deleteVector('t0');
+      await tabA.updateMetadata('t1', { tag: 'new' });
+      await tabB.waitForCrossTabSync();
+
+      expect(tabB.getIndexStats()).toMatchObject({ type: 'kdtree', nodeCount: 19 });
+      const query = new Float32Array([0, 0, 0]);
+      const nearest = await tabB.search(query, 3);
+      expect(nearest.map(({ id }) => id)).toEqual(['t1', 't2', 't3']);
+      const filtered = await tabB.search(query, 3, { filter: { tag: 'new' } });
+      expect(filtered.map(({ id }) => id)).toEqual(['t1']);
+
+      await tabA.clear();
+      await tabB.waitForCrossTabSync();
+      expect(tabB.getIndexStats().nodeCount).toBe(0);
+
+      await tabA.close();
+      await tabB.close();
+    });
+
+    it('lets one tab persist the index and hands over on close', async () => {
+      const environment = createCrossTabEnvironment();
+      const tabA = await openTab(environment);
+      const tabB = await openTab(environment);
+      await tabA.waitForCrossTabSync();
+      await tabB.waitForCrossTabSync();
+
+      expect(tabA.getCrossTabStatus()).toMatchObject({ leader: true });
+      expect(tabB.getCrossTabStatus()).toMatchObject({ leader: false });
+
+      await tabA.close();
+      await tabB.waitForCrossTabSync();
+      expect(tabB.getCrossTabStatus()).toMatchObject({ leader: true });
+      expect(tabA.getCrossTabStatus()).toBeNull();
+
+      await tabB.close();
+    });
+
+    it('rebuilds from storage after missing changes', async () => {
+      const environment = createCrossTabEnvironment();
+      const tabA = await openTab(environment);
+      const tabB = await openTab(environment);
+
+      await tabA.addVector('a', new Float32Array([1, 1, 1]));
+      environment.intercept = () => null;
+      await tabA.addVector('b', new Float32Array([2, 2, 2]));
+      environment.intercept = null;
+      await tabA.addVector('c', new Float32Array([3, 3, 3]));
+      await tabB.waitForCrossTabSync();
+
+      expect(tabB.getIndexStats().nodeCount).toBe(3);
+
+      await tabA.close();
+      await tabB.close();
+    });
+  });
+
+  describe('Change Feed', () => {
+    const vectorAt = (value: number) => new Float32Array(dimension).fill(value);
+
+    it('reports writes with metadata before and after', async () => {
+      const changes = db.watch();
+
+      await db.addVector('a', vectorAt(0.1), { tag: 'x' });
+      await db.addBatch([
+        { id: 'a', vector: vectorAt(0.2), metadata: { tag: 'y' } },
+        { id: 'b', vector: vectorAt(0.3), metadata: { tag: 'x' } },
+      ]);
+      await db.updateMetadata('b', { tag: 'z' });
+      await db.updateBatch([
+        { id: 'a', vector: vectorAt(0.4) },
+        { id: 'b', metadata: { tag: 'x' } },
+      ]);
+      await db.deleteMany(['a', 'missing']);
+      await db.clear();
+
+      const events: Array<Record<string, unknown>> = [];
+      for await (const { type, id, before, after } of changes) {
+        events.push({ type, id, before, after });
+        if (type === 'cleared') {
+          break;
+        }
+      }
+      expect(events).toEqual([
+        { type: 'added', id: 'a', before: undefined, after: { tag: 'x' } },
+        { type: 'updated', id: 'a', before: { tag: 'x' }, after: { tag: 'y' } },
+        { type: 'added', id: 'b', before: undefined, after: { tag: 'x' } },
+        { type: 'metadataUpdated', id: 'b', before: { tag: 'x' }, after: { tag: 'z' } },
+        { type: 'updated', id: 'a', before: { tag: 'y' }, after: { tag: 'y' } },
+        { type: 'metadataUpdated', id: 'b', before: { tag: 'z' }, after: { tag: 'x' } },
+        { type: 'deleted', id: 'a', before: { tag: 'y' }, after: undefined },
+        { type: 'cleared', id: undefined, before: undefined, after: undefined },
+      ]);
+    });
+
+    it('filters changes and resumes from a cursor', async () => {
+      const controller = new AbortController();
+      const changes = db.watch({ filter: { tag: 'x' }, signal: controller.signal });
+
+      await db.addVector('a', vectorAt(0.1), { tag: 'x' });
+      await db.addVector('b', vectorAt(0.2), { tag: 'y' });
+      await db.updateMetadata('a', { tag: 'y' });
+
+      const first = await changes.next();
+      const second = await changes.next();
+      expect(first.value).toMatchObject({ type: 'added', id: 'a' });
+      expect(second.value).toMatchObject({ type: 'metadataUpdated', id: 'a' });
+      controller.abort();
+      const ended = await changes.next();
+      expect(ended.done).toBe(true);
+
+      const resumed = db.watch({ after: first.value?.cursor ?? 0 });
+      const replayed = await resumed.next();
+      expect(replayed.value).toMatchObject({ type: 'added', id: 'b' });
+      await resumed.return?.();
+    });
+
+    it('reports evicted vectors', async () => {
+      const changes = db.watch({ types: ['evicted'] });
+      await db.addVector('old', vectorAt(0.1), { tag: 'x' });
+      await db.addVector('kept', vectorAt(0.2), { permanent: true });
+
+      await db.evictVectors({ strategy: 'lru', maxVectors: 1 });
+
+      const evicted = await changes.next();
+      expect(evicted.value).toMatchObject({
+        type: 'evicted',
+        id: 'old',
+        before: { tag: 'x' },
+      });
+      await changes.return?.();
+    });
+  });
+
+  describe('Transactions', () => {
+    const vectorAt = (value: number) => new Float32Array(dimension).fill(value);
+
+    it('commits staged writes to IndexedDB and the index together', async () => {
+      await db.addVector('old', vectorAt(0.1), { version: 1 });
+
+      const changes = db.watch({ types: ['added', 'deleted'] });
+      await db.transaction((tx) => {
+        tx.deleteVector('old');
+        tx.addVector('new', vectorAt(0.2), { version: 2 });
+      });
+
+      expect(await db.exists('old')).toBe(false);
+      const results = await db.search(vectorAt(0.2), 5);
+      expect(results.map(({ id }) => id)).toEqual(['new']);
+
+      const first = await changes.next();
+      const second = await changes.next();
+      expect([first.value?.type, second.value?.type]).toEqual(['deleted', 'added']);
+      await changes.return?.();
+    });
+  });
+
+  describe('Conditional writes', () => {
+    const vectorAt = (value: number) => new Float32Array(dimension).fill(value);
+
+    it('versions IndexedDB records and rejects stale writers', async () => {
+      expect(await db.upsert('doc', vectorAt(0.1), { rev: 1 })).toEqual({
+        created: true,
+        version: 1,
+      });
+      expect(await db.addIfAbsent('doc', vectorAt(0.2))).toBe(false);
+
+      await db.updateMetadata('doc', { rev: 2 }, { ifVersion: 1 });
+      const stale = db.upsert('doc', vectorAt(0.3), { rev: 3 }, { ifVersion: 1 });
+      const error = await stale.catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(VersionConflictError);
+
+      const stored = await db.getVector('doc');
+      expect(stored?.metadata).toEqual({ rev: 2 });
+      expect(stored?.version).toBe(2);
+    });
+  });
+
   describe('Indexing', () => {
     it('should build and use HNSW index', async () => {
       // Add enough vectors to trigger indexing
@@ -0,0 +1,123 @@
+/**
+ * In-process stand-ins for `BroadcastChannel` and the Web Locks API.
+ *
+ * CLASSIFICATION: mock-only. Each {@link createCrossTabEnvironment} call
+ * returns an isolated "browser": channels created from it reach each other,
+ * and its lock manager grants each lock name to one holder at a time in
+ * request order. Messages are delivered synchronously, so a test can wait on
+ * `VectorDB.waitForCrossTabSync()` right after a write.
+ */
+
+import type {
+  BroadcastChannelLike,
+  LockManagerLike,
+} from '@/storage/cross-tab-coordinator.js';
+
+type Listener = (event: { data: unknown }) => void;
+
+interface LockRequest {
+  grant: () => Promise<void>;
+  signal: AbortSignal | undefined;
+}
+
+export interface CrossTabEnvironment {
+  createChannel: (name: string) => BroadcastChannelLike;
+  locks: LockManagerLike;
+  /** Drop or rewrite messages before delivery; return null to drop */
+  intercept: ((message: unknown) => unknown) | null;
+}
+
+export function createCrossTabEnvironment(): CrossTabEnvironment {
+  const channels = new Map<string, Set<MockChannel>>();
+  const held = new Set<string>();
+  const waiting = new Map<string, LockRequest[]>();
+
+  const environment: CrossTabEnvironment = {
+    intercept: null,
+    createChannel: (name) => {
+      const channel = new MockChannel(name, channels, (message) =>
+        environment.intercept ? environment.intercept(message) : message,
+      );
+      const members = channels.get(name) ?? new Set();
+      members.add(channel);
+      channels.set(name, members);
+      return channel;
+    },
+    locks: {
+      request(name, options, callback) {
+        return new Promise((resolve, reject) => {
+          const run = async () => {
+            held.add(name);
+            try {
+              resolve(await callback());
+            } catch (error) {
+              reject(error);
+            } finally {
+              held.delete(name);
+              void waiting.get(name)?.shift()?.grant();
+            }
+          };
+
+          if (!held.has(name)) {
+            void run();
+            return;
+          }
+
+          const request: LockRequest = { grant: run, signal: options.signal };
+          const queue = waiting.get(name) ?? [];
+          queue.push(request);
+          waiting.set(name, queue);
+          options.signal?.addEventListener('abort', () => {
+            const index = queue.indexOf(request);
+            if (index !== -1) {
+              queue.splice(index, 1);
+              reject(new DOMException('Lock request aborted', 'AbortError'));
+            }
+          });
+        });
+      },
+    },
+  };
+  return environment;
+}
+
+class MockChannel implements BroadcastChannelLike {
+  private listeners: Listener[] = [];
+  private closed = false;
+
+  constructor(
+    private name: string,
+    private channels: Map<string, Set<MockChannel>>,
+    private intercept: (message: unknown) => unknown,
+  ) {}
+
+  postMessage(message: unknown): void {
+    if (this.closed) {
+      throw new DOMException('Channel is closed', 'InvalidStateError');
+    }
+    const delivered = this.intercept(structuredClone(message));
+    if (delivered === null) {
+      return;
+    }
+    for (const channel of this.channels.get(this.name) ?? []) {
+      if (channel !== this) {
+        channel.dispatch(delivered);
+      }
+    }
+  }
+
+  addEventListener(_type: 'message', listener: Listener): void {
+    this.listeners.push(listener);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.channels.get(this.name)?.delete(this);
+  }
+
+  private dispatch(data: unknown): void {
+    for (const listener of this.listeners) {
+      listener({ data });
+    }
+  }
+}
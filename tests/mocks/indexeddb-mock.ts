@@ -44,20 +44,38 @@ interface IDBIndexOptions {
 
 type IDBValidKey = string | number | Date | ArrayBufferView | ArrayBuffer | IDBValidKey[];
 
+type MockKey = string | number;
+
+/**
+ * Compare two keys using IndexedDB ordering for the key types the mock
+ * supports: numbers sort before strings, and each type sorts naturally.
+ */
+function compareKeys(a: MockKey, b: MockKey): number {
+  if (typeof a !== typeof b) {
+    return typeof a === 'number' ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function isMockKey(value: unknown): value is MockKey {
+  return typeof value === 'string' || (typeof value === 'number' && !Number.isNaN(value));
+}
+
 /**
  * Minimal mock of the IDBKeyRange API.
  *
- * Only string keys are supported since the vector store uses string IDs.
+ * Supports string keys (the vector store uses string IDs) and number keys
+ * (used by numeric metadata indexes).
  */
 export class MockIDBKeyRange {
-  lower?: string;
-  upper?: string;
+  lower?: MockKey;
+  upper?: MockKey;
   lowerOpen: boolean;
   upperOpen: boolean;
 
   constructor(
-    lower: string | undefined,
-    upper: string | undefined,
+    lower: MockKey | undefined,
+    upper: MockKey | undefined,
     lowerOpen: boolean,
     upperOpen: boolean,
   ) {
@@ -67,35 +85,37 @@ export class MockIDBKeyRange {
     this.upperOpen = upperOpen;
   }
 
-  /** Returns true if the given string key falls within this range. */
-  includes(key: string): boolean {
+  /** Returns true if the given key falls within this range. */
+  includes(key: MockKey): boolean {
     if (this.lower !== undefined) {
-      if (this.lowerOpen ? key <= this.lower : key < this.lower) return false;
+      const order = compareKeys(key, this.lower);
+      if (this.lowerOpen ? order <= 0 : order < 0) return false;
     }
     if (this.upper !== undefined) {
-      if (this.upperOpen ? key >= this.upper : key > this.upper) return false;
+      const order = compareKeys(key, this.upper);
+      if (this.upperOpen ? order >= 0 : order > 0) return false;
     }
     return true;
   }
 
-  static lowerBound(lower: string, open = false): MockIDBKeyRange {
+  static lowerBound(lower: MockKey, open = false): MockIDBKeyRange {
     return new MockIDBKeyRange(lower, undefined, open, false);
   }
 
-  static upperBound(upper: string, open = false): MockIDBKeyRange {
+  static upperBound(upper: MockKey, open = false): MockIDBKeyRange {
     return new MockIDBKeyRange(undefined, upper, false, open);
   }
 
   static bound(
-    lower: string,
-    upper: string,
+    lower: MockKey,
+    upper: MockKey,
     lowerOpen = false,
     upperOpen = false,
   ): MockIDBKeyRange {
     return new MockIDBKeyRange(lower, upper, lowerOpen, upperOpen);
   }
 
-  static only(key: string): MockIDBKeyRange {
+  static only(key: MockKey): MockIDBKeyRange {
     return new MockIDBKeyRange(key, key, false, false);
   }
 }
@@ -277,16 +297,27 @@ export class MockIDBObjectStore {
     return request;
   }
 
+  get indexNames(): DOMStringList {
+    const names = Array.from(this.indices.keys());
+    return Object.assign(names, {
+      contains: (name: string) => names.includes(name),
+    }) as DOMStringList;
+  }
+
   createIndex(
     name: string,
     keyPath: string | string[],
-    _options: IDBIndexOptions = {},
+    options: IDBIndexOptions = {},
   ): MockIDBIndex {
-    const index = new MockIDBIndex(name, keyPath, this);
+    const index = new MockIDBIndex(name, keyPath, this, options.multiEntry ?? false);
     this.indices.set(name, index);
     return index;
   }
 
+  deleteIndex(name: string): void {
+    this.indices.delete(name);
+  }
+
   index(name: string): MockIDBIndex {
     const index = this.indices.get(name);
     if (!index) {
@@ -306,12 +337,19 @@ export class MockIDBObjectStore {
 export class MockIDBIndex {
   name: string;
   keyPath: string | string[];
+  multiEntry: boolean;
   private store: MockIDBObjectStore;
 
-  constructor(name: string, keyPath: string | string[], store: MockIDBObjectStore) {
+  constructor(
+    name: string,
+    keyPath: string | string[],
+    store: MockIDBObjectStore,
+    multiEntry = false,
+  ) {
     this.name = name;
     this.keyPath = keyPath;
     this.store = store;
+    this.multiEntry = multiEntry;
   }
 
   get(key: IDBValidKey): MockIDBRequest<unknown> {
@@ -321,9 +359,17 @@ export class MockIDBIndex {
     return new MockIDBRequest(match || null);
   }
 
-  getAll(): MockIDBRequest<unknown[]> {
-    const values = Array.from(this.store.getData().values());
-    return new MockIDBRequest(values);
+  /**
+   * Return records whose index key matches `query` (a key or a key range),
+   * ordered by index key. Records without a valid key are not indexed, and
+   * multiEntry indexes emit one entry per array element.
+   */
+  getAll(
+    query?: IDBValidKey | IDBKeyRange | null,
+    count?: number,
+  ): MockIDBRequest<unknown[]> {
+    const values = this.matchingEntries(query).map(([, value]) => value);
+    return new MockIDBRequest(count !== undefined ? values.slice(0, count) : values);
   }
 
   openCursor(
@@ -341,8 +387,30 @@ export class MockIDBIndex {
     return request;
   }
 
-  count(): MockIDBRequest<number> {
-    return new MockIDBRequest(this.store.getData().size);
+  count(query?: IDBValidKey | IDBKeyRange | null): MockIDBRequest<number> {
+    return new MockIDBRequest(this.matchingEntries(query).length);
+  }
+
+  private matchingEntries(
+    query?: IDBValidKey | IDBKeyRange | null,
+  ): Array<[MockKey, unknown]> {
+    const entries: Array<[MockKey, unknown]> = [];
+
+    for (const value of this.store.getData().values()) {
+      const indexKey = this.getIndexKey(value);
+      const keys = this.multiEntry && Array.isArray(indexKey) ? indexKey : [indexKey];
+      for (const key of new Set(keys)) {
+        if (!isMockKey(key)) continue;
+        if (query instanceof MockIDBKeyRange) {
+          if (!query.includes(key)) continue;
+        } else if (query !== undefined && query !== null && query !== key) {
+          continue;
+        }
+        entries.push([key, value]);
+      }
+    }
+
+    return entries.sort(([a], [b]) => compareKeys(a, b));
   }
 
   private getIndexKey(value: unknown): IDBValidKey | null {
@@ -383,6 +451,12 @@ export class MockIDBTransaction {
     this.mode = mode;
     this.objectStoreNames = storeNames;
 
+    // A versionchange transaction spans every store, including ones created
+    // while it is running, so it shares the database's live store map.
+    if (mode === 'versionchange') {
+      this.stores = stores;
+    }
+
     // Copy relevant stores
     for (const name of storeNames) {
       const store = stores.get(name);
@@ -428,6 +502,11 @@ export class MockIDBDatabase {
   objectStoreNames: DOMStringList;
   private stores = new Map<string, MockIDBObjectStore>();
 
+  /** Stores visible to the versionchange transaction during an upgrade. */
+  getStores(): Map<string, MockIDBObjectStore> {
+    return this.stores;
+  }
+
   onclose: ((event: IDBDatabaseEvent) => void) | null = null;
   onerror: ((event: IDBDatabaseEvent) => void) | null = null;
   onabort: ((event: IDBDatabaseEvent) => void) | null = null;
@@ -537,6 +616,7 @@ export class MockIDBDatabase {
 
 export class MockIDBOpenDBRequest {
   result: MockIDBDatabase | null = null;
+  transaction: MockIDBTransaction | null = null;
   error: Error | null = null;
   readyState: 'pending' | 'done' = 'pending';
 
@@ -551,33 +631,39 @@ export class MockIDBOpenDBRequest {
       const existing = mockDatabases.get(name);
 
       let db: MockIDBDatabase;
-      let isNew: boolean;
+      let oldVersion: number | null = null;
 
       if (existing) {
         // Reuse existing database so close/reopen tests see persisted data
         db = existing;
-        isNew = false;
+        if (requestedVersion > existing.version) {
+          oldVersion = existing.version;
+          existing.version = requestedVersion;
+        }
       } else {
         db = new MockIDBDatabase(name, requestedVersion);
         mockDatabases.set(name, db);
-        isNew = true;
+        oldVersion = 0;
       }
 
       // Set result before callbacks
       this.result = db;
 
-      if (isNew) {
-        // Trigger upgrade only for new databases (simulate schema creation)
+      if (oldVersion !== null) {
+        // Trigger upgrade for new databases and version bumps, exposing a
+        // versionchange transaction that sees stores created during upgrade.
+        this.transaction = new MockIDBTransaction([], 'versionchange', db.getStores());
         const upgradeEvent = {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           target: this as any,
-          oldVersion: 0,
+          oldVersion,
           newVersion: requestedVersion,
         };
 
         if (this.onupgradeneeded) {
           this.onupgradeneeded(upgradeEvent);
         }
+        this.transaction = null;
       }
 
       // Wait a tick to ensure upgrade is processed, then trigger success
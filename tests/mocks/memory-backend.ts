@@ -0,0 +1,31 @@
+/**
+ * A storage backend of in-memory adapters for VectorFrankl tests.
+ *
+ * CLASSIFICATION: mock-only. The factory hands out one MemoryStorageAdapter
+ * per database name and keeps it, so data survives closing and reopening a
+ * namespace, and tests can inspect each namespace's adapter directly.
+ */
+
+import type { StorageAdapterFactory } from '@/core/types.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+
+export interface MemoryBackend {
+  factory: StorageAdapterFactory;
+  /** Adapters handed out so far, by database name */
+  adapters: Map<string, MemoryStorageAdapter>;
+}
+
+export function memoryBackend(): MemoryBackend {
+  const adapters = new Map<string, MemoryStorageAdapter>();
+  return {
+    adapters,
+    factory: (name) => {
+      let adapter = adapters.get(name);
+      if (!adapter) {
+        adapter = new MemoryStorageAdapter();
+        adapters.set(name, adapter);
+      }
+      return adapter;
+    },
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Mock implementation of the Origin Private File System for unit testing.
+ *
+ * CLASSIFICATION: mock-only. This shim lets the Bun test runner (which has no
+ * OPFS) exercise OPFSStorageAdapter against in-memory directory and file
+ * handles, optionally with worker-style sync access handles. It does NOT
+ * constitute evidence for real-browser OPFS semantics — durability, quota and
+ * locking behavior are verified in the real browser by
+ * tests/end-to-end/storage-adapters.e2e.ts.
+ */
+
+function domError(name: string, message: string): DOMException {
+  return new DOMException(message, name);
+}
+
+async function toBytes(data: BufferSource | Blob | string): Promise<Uint8Array> {
+  if (typeof data === 'string') {
+    return new TextEncoder().encode(data);
+  }
+  if (data instanceof Blob) {
+    const buffer = await data.arrayBuffer();
+    return new Uint8Array(buffer);
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array(data);
+}
+
+/** Copy `bytes` into `target` at `at`, growing it as needed */
+function writeAt(target: Uint8Array, bytes: Uint8Array, at: number): Uint8Array {
+  const grown =
+    at + bytes.byteLength > target.byteLength
+      ? new Uint8Array(at + bytes.byteLength)
+      : target;
+  if (grown !== target) {
+    grown.set(target);
+  }
+  grown.set(bytes, at);
+  return grown;
+}
+
+function resize(target: Uint8Array, size: number): Uint8Array {
+  const resized = new Uint8Array(size);
+  resized.set(target.subarray(0, Math.min(size, target.byteLength)));
+  return resized;
+}
+
+export class MockWritableFileStream {
+  private position = 0;
+
+  constructor(
+    private readonly file: MockFileHandle,
+    private data: Uint8Array,
+  ) {}
+
+  async write(data: BufferSource | Blob | string): Promise<void> {
+    const bytes = await toBytes(data);
+    this.data = writeAt(this.data, bytes, this.position);
+    this.position += bytes.byteLength;
+  }
+
+  async seek(position: number): Promise<void> {
+    this.position = position;
+  }
+
+  async truncate(size: number): Promise<void> {
+    this.data = resize(this.data, size);
+    this.position = Math.min(this.position, size);
+  }
+
+  /** Swaps the written copy in, as browsers do */
+  async close(): Promise<void> {
+    this.file.data = this.data;
+  }
+}
+
+export class MockSyncAccessHandle {
+  private open = true;
+
+  constructor(private readonly file: MockFileHandle) {}
+
+  read(buffer: Uint8Array, options: { at: number }): number {
+    const bytes = this.file.data.subarray(options.at, options.at + buffer.byteLength);
+    buffer.set(bytes);
+    return bytes.byteLength;
+  }
+
+  write(buffer: Uint8Array, options: { at: number }): number {
+    this.file.data = writeAt(this.file.data, buffer, options.at);
+    return buffer.byteLength;
+  }
+
+  getSize(): number {
+    return this.file.data.byteLength;
+  }
+
+  truncate(size: number): void {
+    this.file.data = resize(this.file.data, size);
+  }
+
+  flush(): void {
+    // Writes land in `file.data` immediately.
+  }
+
+  close(): void {
+    if (this.open) {
+      this.open = false;
+      this.file.locked = false;
+    }
+  }
+}
+
+export class MockFileHandle {
+  readonly kind = 'file';
+  data: Uint8Array = new Uint8Array();
+  locked = false;
+  createSyncAccessHandle?: () => Promise<MockSyncAccessHandle>;
+
+  constructor(
+    readonly name: string,
+    syncAccessHandles: boolean,
+  ) {
+    if (syncAccessHandles) {
+      this.createSyncAccessHandle = async () => {
+        if (this.locked) {
+          throw domError('NoModificationAllowedError', `${name} is locked`);
+        }
+        this.locked = true;
+        return new MockSyncAccessHandle(this);
+      };
+    }
+  }
+
+  async getFile(): Promise<File> {
+    return new File([this.data.slice()], this.name);
+  }
+
+  async createWritable(options?: {
+    keepExistingData?: boolean;
+  }): Promise<MockWritableFileStream> {
+    if (this.locked) {
+      throw domError('NoModificationAllowedError', `${this.name} is locked`);
+    }
+    const data = options?.keepExistingData ? this.data.slice() : new Uint8Array();
+    return new MockWritableFileStream(this, data);
+  }
+}
+
+export class MockDirectoryHandle {
+  readonly kind = 'directory';
+  readonly entries = new Map<string, MockDirectoryHandle | MockFileHandle>();
+
+  constructor(
+    readonly name: string,
+    private readonly syncAccessHandles: boolean,
+  ) {}
+
+  async getDirectoryHandle(
+    name: string,
+    options?: { create?: boolean },
+  ): Promise<MockDirectoryHandle> {
+    const entry = this.entries.get(name);
+    if (entry instanceof MockDirectoryHandle) {
+      return entry;
+    }
+    if (entry) {
+      throw domError('TypeMismatchError', `${name} is a file`);
+    }
+    if (!options?.create) {
+      throw domError('NotFoundError', `${name} not found`);
+    }
+    const directory = new MockDirectoryHandle(name, this.syncAccessHandles);
+    this.entries.set(name, directory);
+    return directory;
+  }
+
+  async getFileHandle(
+    name: string,
+    options?: { create?: boolean },
+  ): Promise<MockFileHandle> {
+    const entry = this.entries.get(name);
+    if (entry instanceof MockFileHandle) {
+      return entry;
+    }
+    if (entry) {
+      throw domError('TypeMismatchError', `${name} is a directory`);
+    }
+    if (!options?.create) {
+      throw domError('NotFoundError', `${name} not found`);
+    }
+    const file = new MockFileHandle(name, this.syncAccessHandles);
+    this.entries.set(name, file);
+    return file;
+  }
+
+  async removeEntry(name: string, options?: { recursive?: boolean }): Promise<void> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw domError('NotFoundError', `${name} not found`);
+    }
+    if (entry instanceof MockDirectoryHandle && entry.entries.size > 0) {
+      if (!options?.recursive) {
+        throw domError('InvalidModificationError', `${name} is not empty`);
+      }
+      if (entry.hasLockedFile()) {
+        throw domError('NoModificationAllowedError', `${name} holds a locked file`);
+      }
+    }
+    if (entry instanceof MockFileHandle && entry.locked) {
+      throw domError('NoModificationAllowedError', `${name} is locked`);
+    }
+    this.entries.delete(name);
+  }
+
+  async *values(): AsyncIterableIterator<MockDirectoryHandle | MockFileHandle> {
+    yield* [...this.entries.values()];
+  }
+
+  private hasLockedFile(): boolean {
+    return [...this.entries.values()].some((entry) =>
+      entry instanceof MockFileHandle ? entry.locked : entry.hasLockedFile(),
+    );
+  }
+}
+
+let previousNavigator: Navigator | undefined;
+
+/**
+ * Install a fresh, empty OPFS root on `navigator.storage`. With
+ * `syncAccessHandles`, file handles offer `createSyncAccessHandle()` as they
+ * do inside a dedicated worker.
+ */
+export function setupOPFSMocks(options: { syncAccessHandles?: boolean } = {}): void {
+  const root = new MockDirectoryHandle('', options.syncAccessHandles ?? false);
+  previousNavigator ??= globalThis.navigator;
+  global.navigator = {
+    storage: {
+      getDirectory: async () => root,
+      estimate: async () => ({ usage: 1024 * 1024, quota: 1024 * 1024 * 1024 }),
+    },
+  } as unknown as Navigator;
+}
+
+/**
+ * Restore the navigator that was in place before setupOPFSMocks()
+ */
+export function cleanupOPFSMocks(): void {
+  if (previousNavigator) {
+    global.navigator = previousNavigator;
+    previousNavigator = undefined;
+  }
+}
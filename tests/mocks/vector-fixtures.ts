@@ -0,0 +1,29 @@
+/**
+ * Deterministic vectors for API tests.
+ *
+ * CLASSIFICATION: mock-only. Both generators are pure functions of their
+ * arguments, so a test can rebuild the vector it stored to query with it.
+ */
+
+/**
+ * `count` 4-dimensional unit vectors with IDs `v0`, `v1`, … and their
+ * position as `metadata.index`. Unit length, as HNSW's cosine search expects.
+ */
+export function unitVectors(
+  count: number,
+): Array<{ id: string; vector: number[]; metadata: { index: number } }> {
+  return Array.from({ length: count }, (_, i) => {
+    const raw = [1, i / 4, (i % 3) / 3, 0.5];
+    const length = Math.hypot(...raw);
+    return {
+      id: `v${i}`,
+      vector: raw.map((value) => value / length),
+      metadata: { index: i },
+    };
+  });
+}
+
+/** A `dimension`-long vector of sines, distinct for each seed */
+export function randomVector(seed: number, dimension: number): number[] {
+  return Array.from({ length: dimension }, (_, i) => Math.sin(seed * 7 + i * 3));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+  CodebookPersistence,
+  type PersistedCodebook,
+} from '@/search/codebook-persistence.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+
+function makeCodebook(key: string): PersistedCodebook {
+  return {
+    key,
+    id: 42,
+    strategy: 'product',
+    dimension: 4,
+    codebook: {
+      centroids: [
+        [new Float32Array([0.5, 1]), new Float32Array([-1, 0.25])],
+        [new Float32Array([2, 0]), new Float32Array([0, -2])],
+      ],
+      subspaceDim: 2,
+      centroidsPerSubspace: 2,
+      trainingStats: {
+        iterations: 3,
+        convergence: 0.01,
+        trainingTime: 5,
+        totalDistortion: 0.2,
+      },
+    },
+    timestamp: 1,
+  };
+}
+
+describe('CodebookPersistence on a storage adapter', () => {
+  it('round-trips centroids through the codebooks collection', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    const codebooks = new CodebookPersistence(adapter);
+
+    await codebooks.save(makeCodebook('main-codebook'));
+
+    const loaded = await codebooks.load('main-codebook');
+    expect(loaded).toEqual(makeCodebook('main-codebook'));
+    expect(loaded!.codebook.centroids[1]![0]).toBeInstanceOf(Float32Array);
+    expect(await adapter.listDocuments('codebooks')).toHaveLength(1);
+  });
+
+  it('resolves null for a missing or deleted codebook', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    const codebooks = new CodebookPersistence(adapter);
+    await codebooks.save(makeCodebook('main-codebook'));
+
+    await codebooks.delete('main-codebook');
+
+    expect(await codebooks.load('main-codebook')).toBeNull();
+    expect(await codebooks.load('other')).toBeNull();
+  });
+});
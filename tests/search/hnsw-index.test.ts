@@ -435,10 +435,245 @@ describe('HNSWIndex', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // delete repair, tombstones and compaction
+  // -------------------------------------------------------------------------
+
+  describe('delete repair and compaction', () => {
+    const dim = 16;
+
+    async function buildIndex(
+      count: number,
+      config: ConstructorParameters<typeof HNSWIndex>[1] = {},
+    ): Promise<{ index: HNSWIndex; vectors: Float32Array[] }> {
+      const vectors = generateDataset(count, dim, 7001);
+      const index = new HNSWIndex('cosine', {
+        m: 6,
+        efConstruction: 60,
+        seed: 7,
+        ...config,
+      });
+      for (let i = 0; i < count; i++) {
+        await index.addVector(makeVector(`v${i}`, Array.from(vectors[i]!)));
+      }
+      return { index, vectors };
+    }
+
+    it('keeps every remaining node reachable after heavy repair deletes', async () => {
+      const { index, vectors } = await buildIndex(150);
+
+      for (let i = 0; i < 150; i += 3) {
+        await index.removeVector(`v${i}`);
+      }
+
+      const result = await index.compact();
+      expect(result.removed).toBe(0);
+      expect(result.nodeCount).toBe(100);
+      expect(result.reachableBefore).toBe(100);
+
+      // Every survivor is still found as its own nearest neighbour.
+      for (let i = 1; i < 150; i += 3) {
+        const [nearest] = await index.search(vectors[i]!, 1, 60);
+        expect(nearest?.id).toBe(`v${i}`);
+      }
+    });
+
+    it('soft-deletes in tombstone mode until compaction', async () => {
+      const { index, vectors } = await buildIndex(60, { deletionMode: 'tombstone' });
+
+      for (let i = 0; i < 60; i += 4) {
+        await index.removeVector(`v${i}`);
+      }
+
+      expect(index.size()).toBe(45);
+      expect(index.getStats()).toMatchObject({ nodeCount: 45, tombstoneCount: 15 });
+
+      const results = await index.search(vectors[0]!, 10);
+      expect(results).toHaveLength(10);
+      expect(results.map((r) => r.id)).not.toContain('v0');
+
+      const compaction = await index.compact();
+      expect(compaction).toEqual({
+        removed: 15,
+        reachableBefore: 45,
+        reachableAfter: 45,
+        nodeCount: 45,
+      });
+      expect(index.getStats().tombstoneCount).toBe(0);
+    });
+
+    it('fills k live results past tombstones without widening ef', async () => {
+      const { index, vectors } = await buildIndex(150, { deletionMode: 'tombstone' });
+
+      for (let i = 0; i < 150; i++) {
+        if (i % 3 !== 0) await index.removeVector(`v${i}`);
+      }
+
+      const results = await index.search(vectors[1]!, 10, 10);
+      expect(results).toHaveLength(10);
+      expect(results.every(({ id }) => Number(id.slice(1)) % 3 === 0)).toBe(true);
+    });
+
+    it('replaces a tombstoned node when its id is added again', async () => {
+      const index = new HNSWIndex('cosine', {
+        m: 4,
+        efConstruction: 50,
+        deletionMode: 'tombstone',
+      });
+      await index.addVector(makeVector('a', [1, 0, 0]));
+      await index.addVector(makeVector('b', [0, 1, 0]));
+
+      await index.removeVector('a');
+      await index.addVector(makeVector('a', [0, 0, 1]));
+
+      expect(index.size()).toBe(2);
+      const [nearest] = await index.search(new Float32Array([0, 0, 1]), 1);
+      expect(nearest?.id).toBe('a');
+    });
+
+    it('reconnects nodes that became unreachable', async () => {
+      const { index } = await buildIndex(40);
+
+      // Sever one node from the graph without repair by importing a snapshot
+      // with its inbound edges removed.
+      const state = index.exportState();
+      const isolated = state.nodes.find((node) => node.id !== state.entryPoint)!;
+      for (const node of state.nodes) {
+        node.connections = node.connections.map(([level, ids]) => [
+          level,
+          ids.filter((id) => id !== isolated.id),
+        ]);
+      }
+      const severed = new HNSWIndex('cosine', { m: 6, efConstruction: 60 });
+      severed.importState(state);
+
+      const result = await severed.compact();
+      expect(result.reachableBefore).toBe(39);
+      expect(result.reachableAfter).toBe(40);
+    });
+
+    it('round-trips tombstones through exportState / importState', async () => {
+      const { index } = await buildIndex(10, { deletionMode: 'tombstone' });
+      await index.removeVector('v3');
+
+      const restored = new HNSWIndex('cosine', { deletionMode: 'tombstone' });
+      restored.importState(index.exportState());
+
+      expect(restored.size()).toBe(9);
+      expect(restored.getStats().tombstoneCount).toBe(1);
+    });
+  });
+
   // -------------------------------------------------------------------------
   // update — remove old entry and insert updated vector for the same id
   // -------------------------------------------------------------------------
 
+  describe('filtered search', () => {
+    const dim = 16;
+    const tenants = 10;
+    const perTenant = 40;
+
+    /** Inserts tenants in contiguous batches, as multi-tenant ingestion does. */
+    async function buildTenantIndex(
+      config: ConstructorParameters<typeof HNSWIndex>[1] = {},
+    ): Promise<{
+      index: HNSWIndex;
+      entries: Array<{ id: string; vector: Float32Array; tenantId: string }>;
+    }> {
+      const vectors = generateDataset(tenants * perTenant, dim, 8001);
+      const entries = vectors.map((vector, i) => ({
+        id: `v${i}`,
+        vector,
+        tenantId: `t${Math.floor(i / perTenant)}`,
+      }));
+      const index = new HNSWIndex('cosine', {
+        m: 8,
+        efConstruction: 50,
+        seed: 11,
+        ...config,
+      });
+      for (const [position, { id, vector, tenantId }] of entries.entries()) {
+        await index.addVector(makeVector(id, Array.from(vector), { tenantId, position }));
+      }
+      return { index, entries };
+    }
+
+    it('fills k results that all pass a restrictive filter', async () => {
+      const { index, entries } = await buildTenantIndex();
+      const queries = generateDataset(10, dim, 8002);
+      let totalRecall = 0;
+
+      for (const query of queries) {
+        const results = await index.search(
+          query,
+          10,
+          20,
+          (metadata) => metadata['tenantId'] === 't3',
+        );
+
+        expect(results).toHaveLength(10);
+        expect(results.every((r) => r.metadata?.['tenantId'] === 't3')).toBe(true);
+
+        const groundTruth = bruteForceKNN(
+          query,
+          entries.filter((entry) => entry.tenantId === 't3'),
+          10,
+          'cosine',
+        );
+        totalRecall += results.filter((r) => groundTruth.has(r.id)).length / 10;
+      }
+
+      expect(totalRecall / queries.length).toBeGreaterThanOrEqual(0.8);
+    });
+
+    it('estimates selectivity across insertion order', async () => {
+      const { index } = await buildTenantIndex();
+
+      expect(index.estimateFilterSelectivity((m) => m['tenantId'] === 't9')).toBeCloseTo(
+        0.1,
+        1,
+      );
+      expect(index.estimateFilterSelectivity(() => true)).toBe(1);
+      expect(index.estimateFilterSelectivity(() => false)).toBe(0);
+    });
+
+    it('answers very narrow filters exactly', async () => {
+      const { index, entries } = await buildTenantIndex();
+      const query = generateDataset(1, dim, 8003)[0]!;
+      const narrow = (metadata: Record<string, unknown>) =>
+        (metadata['position'] as number) % 100 === 7;
+
+      const results = await index.search(query, 10, undefined, narrow);
+
+      const expected = entries.filter((_, i) => i % 100 === 7);
+      expect(new Set(results.map((r) => r.id))).toEqual(
+        new Set(expected.map((entry) => entry.id)),
+      );
+      expect(results).toHaveLength(expected.length);
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i]!.distance).toBeGreaterThanOrEqual(results[i - 1]!.distance);
+      }
+      expect(await index.search(query, 10, undefined, () => false)).toEqual([]);
+    });
+
+    it('never returns tombstoned nodes', async () => {
+      const { index, entries } = await buildTenantIndex({ deletionMode: 'tombstone' });
+      const tenantIds = entries.filter((e) => e.tenantId === 't5').map((e) => e.id);
+      for (const id of tenantIds.slice(0, 30)) {
+        await index.removeVector(id);
+      }
+
+      const results = await index.search(
+        generateDataset(1, dim, 8005)[0]!,
+        20,
+        undefined,
+        (metadata) => metadata['tenantId'] === 't5',
+      );
+
+      expect(results.map((r) => r.id).sort()).toEqual(tenantIds.slice(30).sort());
+    });
+  });
+
   describe('update', () => {
     it('should reflect the new vector after an update', async () => {
       const index = new HNSWIndex('cosine', { m: 4, efConstruction: 50, seed: 10 });
@@ -458,6 +693,24 @@ describe('HNSWIndex', () => {
       expect(ids).toContain('target');
     });
 
+    it('should replace a live node when its ID is added again', async () => {
+      const index = new HNSWIndex('euclidean', { m: 4, efConstruction: 50, seed: 12 });
+      const data = generateDataset(50, 4, 12);
+      for (let i = 0; i < data.length; i++) {
+        await index.addVector(makeVector(`v${i}`, Array.from(data[i]!)));
+      }
+
+      await index.addVector(makeVector('v10', Array.from(data[10]!)));
+
+      const graph = index.exportGraph();
+      const node = graph.nodes.find(({ id }) => id === 'v10')!;
+      expect(node.connections.every(([, ids]) => !ids.includes('v10'))).toBe(true);
+      expect(index.size()).toBe(50);
+      const results = await index.search(data[10]!, 5);
+      expect(results).toHaveLength(5);
+      expect(results[0]!.id).toBe('v10');
+    });
+
     it('should not return stale vector data after multiple updates', async () => {
       const index = new HNSWIndex('cosine', { m: 4, efConstruction: 50, seed: 11 });
       const dim = 4;
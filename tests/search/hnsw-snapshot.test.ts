@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'bun:test';
+
+import { StorageCorruptionError, StorageFormatError } from '@/core/errors.js';
+import type { VectorData } from '@/core/types.js';
+import { HNSWIndex } from '@/search/hnsw-index.js';
+import {
+  HNSW_SNAPSHOT_MAGIC,
+  decodeHNSWSnapshot,
+  encodeHNSWSnapshot,
+} from '@/search/hnsw-snapshot.js';
+
+function makeVector(
+  id: string,
+  values: number[],
+  metadata?: Record<string, unknown>,
+): VectorData {
+  const vector = new Float32Array(values);
+  const magnitude = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+  const result: VectorData = { id, vector, magnitude, timestamp: Date.now() };
+  if (metadata) {
+    result.metadata = metadata;
+  }
+  return result;
+}
+
+async function buildIndex(): Promise<HNSWIndex> {
+  const index = new HNSWIndex('cosine', {
+    m: 4,
+    efConstruction: 20,
+    maxLevel: 3,
+    deletionMode: 'tombstone',
+  });
+  for (let i = 0; i < 40; i++) {
+    await index.addVector(
+      makeVector(`v${i}`, [Math.cos(i), Math.sin(i), (i % 5) / 5, 1], {
+        group: i % 3,
+      }),
+    );
+  }
+  await index.removeVector('v7');
+  return index;
+}
+
+describe('HNSW binary snapshots', () => {
+  it('round-trips vectors, adjacency, metadata, tombstones and config', async () => {
+    const index = await buildIndex();
+    const graph = index.exportGraph();
+
+    const decoded = decodeHNSWSnapshot(encodeHNSWSnapshot(graph, 'cosine'));
+
+    expect(decoded.includesVectors).toBe(true);
+    expect(decoded.distanceMetric).toBe('cosine');
+    expect(decoded.entryPoint).toBe(graph.entryPoint);
+    expect(decoded.tombstones).toEqual(['v7']);
+    expect(decoded.config).toEqual(graph.config);
+    expect(decoded.nodes).toHaveLength(graph.nodes.length);
+    for (const [position, node] of graph.nodes.entries()) {
+      const restored = decoded.nodes[position]!;
+      expect(restored.id).toBe(node.id);
+      expect(restored.level).toBe(node.level);
+      expect(restored.metadata).toEqual(node.metadata!);
+      expect(Array.from(restored.vector!)).toEqual(Array.from(node.vector));
+      expect(restored.connections).toEqual(node.connections);
+    }
+  });
+
+  it('restores an index that searches identically', async () => {
+    const index = await buildIndex();
+    const decoded = decodeHNSWSnapshot(encodeHNSWSnapshot(index.exportGraph(), 'cosine'));
+
+    const restored = new HNSWIndex('cosine', decoded.config);
+    restored.importState({
+      nodes: decoded.nodes.map((node) => ({ ...node, vector: node.vector! })),
+      entryPoint: decoded.entryPoint,
+      tombstones: decoded.tombstones,
+    });
+
+    const query = new Float32Array([1, 0.2, 0.4, 1]);
+    expect(await restored.search(query, 5)).toEqual(await index.search(query, 5));
+    expect(restored.size()).toBe(index.size());
+  });
+
+  it('is much smaller than the structured-clone export', async () => {
+    const index = await buildIndex();
+    const binary = encodeHNSWSnapshot(index.exportGraph(), 'cosine');
+    const json = new TextEncoder().encode(JSON.stringify(index.exportState()));
+
+    expect(binary.byteLength).toBeLessThan(json.byteLength);
+  });
+
+  it('omits the vector block when includeVectors is false', async () => {
+    const index = await buildIndex();
+    const withVectors = encodeHNSWSnapshot(index.exportGraph(), 'cosine');
+    const graphOnly = encodeHNSWSnapshot(index.exportGraph(), 'cosine', {
+      includeVectors: false,
+    });
+
+    const decoded = decodeHNSWSnapshot(graphOnly);
+    expect(decoded.includesVectors).toBe(false);
+    expect(decoded.nodes.every((node) => node.vector === undefined)).toBe(true);
+    expect(withVectors.byteLength - graphOnly.byteLength).toBe(40 * 4 * 4);
+  });
+
+  it('drops edges to nodes that are not in the graph', async () => {
+    const index = await buildIndex();
+    const graph = index.exportGraph();
+    graph.nodes[0]!.connections[0]![1].push('ghost');
+
+    const decoded = decodeHNSWSnapshot(encodeHNSWSnapshot(graph, 'cosine'));
+    expect(decoded.nodes[0]!.connections[0]![1]).not.toContain('ghost');
+  });
+
+  it('rejects a flipped byte with a checksum error', async () => {
+    const index = await buildIndex();
+    const snapshot = encodeHNSWSnapshot(index.exportGraph(), 'cosine');
+    const bytes = new Uint8Array(snapshot);
+    bytes[40] = bytes[40]! ^ 0xff;
+
+    expect(() => decodeHNSWSnapshot(snapshot)).toThrow(/checksum mismatch/);
+  });
+
+  it('rejects truncated buffers and foreign payloads', async () => {
+    const index = await buildIndex();
+    const snapshot = encodeHNSWSnapshot(index.exportGraph(), 'cosine');
+
+    expect(() => decodeHNSWSnapshot(snapshot.slice(0, snapshot.byteLength - 1))).toThrow(
+      StorageCorruptionError,
+    );
+    expect(() => decodeHNSWSnapshot(new ArrayBuffer(8))).toThrow(StorageCorruptionError);
+    expect(() => decodeHNSWSnapshot(new ArrayBuffer(64))).toThrow(/magic marker/);
+  });
+
+  it('rejects unsupported format versions', () => {
+    const snapshot = encodeHNSWSnapshot(new HNSWIndex('cosine').exportGraph(), 'cosine');
+    const view = new DataView(snapshot);
+    expect(view.getUint32(0, true)).toBe(HNSW_SNAPSHOT_MAGIC);
+    view.setUint8(4, 9);
+
+    expect(() => decodeHNSWSnapshot(snapshot)).toThrow(StorageFormatError);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'bun:test';
+
+import { recommendIndexStrategy } from '@/search/index-advisor.js';
+
+const base = {
+  dimension: 128,
+  metric: 'cosine' as const,
+  execution: { workersAvailable: false, sharedMemoryAvailable: false },
+};
+
+describe('recommendIndexStrategy', () => {
+  it('scans small collections', () => {
+    expect(recommendIndexStrategy({ ...base, vectorCount: 150 }).strategy).toBe('brute');
+    expect(recommendIndexStrategy({ ...base, vectorCount: 4999 }).strategy).toBe('brute');
+  });
+
+  it('indexes with HNSW from the vector threshold', () => {
+    const recommendation = recommendIndexStrategy({ ...base, vectorCount: 5000 });
+    expect(recommendation.strategy).toBe('hnsw');
+    expect(recommendation.reason).toMatch(/5000-vector/);
+
+    expect(
+      recommendIndexStrategy({ ...base, vectorCount: 300 }, { minVectors: 250 }).strategy,
+    ).toBe('hnsw');
+  });
+
+  it('keeps brute force longer when the scan runs on an accelerated path', () => {
+    const accelerated = {
+      ...base,
+      vectorCount: 20_000,
+      execution: { gpuAvailable: true },
+    };
+    const recommendation = recommendIndexStrategy(accelerated);
+    expect(recommendation).toMatchObject({ strategy: 'brute', executionPath: 'webgpu' });
+    expect(recommendIndexStrategy({ ...accelerated, vectorCount: 50_000 }).strategy).toBe(
+      'hnsw',
+    );
+  });
+
+  it('indexes early when searches exceed the latency budget', () => {
+    const input = { ...base, vectorCount: 1000 };
+    expect(recommendIndexStrategy({ ...input, searchLatencyMs: 20 }).strategy).toBe(
+      'brute',
+    );
+
+    const recommendation = recommendIndexStrategy({ ...input, searchLatencyMs: 80 });
+    expect(recommendation.strategy).toBe('hnsw');
+    expect(recommendation.reason).toMatch(/latency 80\.0ms/);
+    expect(
+      recommendIndexStrategy({ ...input, searchLatencyMs: 80 }, { latencyBudgetMs: 100 })
+        .strategy,
+    ).toBe('brute');
+  });
+
+  it('picks a KD-tree for low-dimensional euclidean and manhattan vectors', () => {
+    for (const metric of ['euclidean', 'manhattan'] as const) {
+      expect(
+        recommendIndexStrategy({ ...base, dimension: 3, metric, vectorCount: 500 })
+          .strategy,
+      ).toBe('kdtree');
+    }
+    expect(
+      recommendIndexStrategy({ ...base, dimension: 3, vectorCount: 500 }).strategy,
+    ).toBe('brute');
+  });
+
+  it('moves to IVF only for adapters that stream from storage', () => {
+    const input = { ...base, vectorCount: 100_000 };
+    expect(recommendIndexStrategy({ ...input, nativeStreaming: true }).strategy).toBe(
+      'ivf',
+    );
+    expect(recommendIndexStrategy({ ...input, nativeStreaming: false }).strategy).toBe(
+      'hnsw',
+    );
+    expect(
+      recommendIndexStrategy(
+        { ...input, vectorCount: 20_000, nativeStreaming: true },
+        { ivfMinVectors: 10_000 },
+      ).strategy,
+    ).toBe('ivf');
+  });
+});
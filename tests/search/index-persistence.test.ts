@@ -1,12 +1,14 @@
 import { describe, expect, it } from 'bun:test';
 
 import type { DistanceMetric, VectorData } from '@/core/types.js';
-import { IndexError } from '@/core/errors.js';
+import { IndexError, StorageCorruptionError } from '@/core/errors.js';
 import { createDistanceCalculator } from '@/search/distance-metrics.js';
 import { HNSWIndex } from '@/search/hnsw-index.js';
 import { IndexCache, IndexPersistence } from '@/search/index-persistence.js';
+import { KDTreeIndex } from '@/search/kdtree-index.js';
 import { SearchEngine } from '@/search/search-engine.js';
 import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+import { SQLiteStorageAdapter } from '@/storage/adapters/sqlite-adapter.js';
 import {
   setupIndexedDBMocks,
   cleanupIndexedDBMocks,
@@ -1111,3 +1113,307 @@ describe('IndexPersistence persistence', () => {
     }
   });
 });
+
+describe('IndexPersistence binary snapshots', () => {
+  type PersistenceDatabase = ConstructorParameters<typeof IndexPersistence>[0];
+
+  function createDatabase(name: string): MockIDBDatabase {
+    const mockDb = new MockIDBDatabase(name, 1);
+    mockDb.createObjectStore('hnsw_indices');
+    return mockDb;
+  }
+
+  async function readRecords(mockDb: MockIDBDatabase): Promise<Array<{ id: string }>> {
+    return mockDb.executeTransaction('hnsw_indices', 'readonly', async (tx) => {
+      const store = tx.objectStore('hnsw_indices');
+      return new Promise<Array<{ id: string }>>((resolve, reject) => {
+        const req = store.getAll();
+        req.onsuccess = () => resolve(req.result as Array<{ id: string }>);
+        req.onerror = () => reject(new Error('read failed'));
+      });
+    });
+  }
+
+  async function buildIndex(count: number): Promise<HNSWIndex> {
+    const index = new HNSWIndex('cosine', { m: 4, efConstruction: 20, maxLevel: 2 });
+    for (let i = 0; i < count; i++) {
+      await index.addVector(
+        makeVector(`v${i}`, [Math.cos(i), Math.sin(i), i / count], { position: i }),
+      );
+    }
+    return index;
+  }
+
+  it('splits snapshots into chunks and reassembles them on load', async () => {
+    setupIndexedDBMocks();
+    try {
+      const mockDb = createDatabase('test-binary-chunks');
+      const persistence = new IndexPersistence(mockDb as unknown as PersistenceDatabase, {
+        chunkSize: 256,
+      });
+      const index = await buildIndex(30);
+
+      await persistence.saveIndex('chunked', index, 'cosine');
+
+      const records = await readRecords(mockDb);
+      const chunks = records.filter((r) => r.id !== 'chunked');
+      expect(chunks.length).toBeGreaterThan(1);
+
+      const loaded = await persistence.loadIndex('chunked');
+      const query = new Float32Array([1, 0.5, 0.2]);
+      expect(loaded!.index.size()).toBe(30);
+      expect(await loaded!.index.search(query, 5)).toEqual(await index.search(query, 5));
+
+      expect(await persistence.listIndices()).toEqual([
+        expect.objectContaining({
+          id: 'chunked',
+          nodeCount: 30,
+          distanceMetric: 'cosine',
+        }),
+      ]);
+    } finally {
+      cleanupIndexedDBMocks();
+    }
+  });
+
+  it('removes stale chunks when a smaller snapshot overwrites a larger one', async () => {
+    setupIndexedDBMocks();
+    try {
+      const mockDb = createDatabase('test-binary-shrink');
+      const persistence = new IndexPersistence(mockDb as unknown as PersistenceDatabase, {
+        chunkSize: 256,
+      });
+
+      await persistence.saveIndex('shrink', await buildIndex(30), 'cosine');
+      const { length: before } = await readRecords(mockDb);
+      await persistence.saveIndex('shrink', await buildIndex(3), 'cosine');
+      const { length: after } = await readRecords(mockDb);
+
+      expect(after).toBeLessThan(before);
+      expect((await persistence.loadIndex('shrink'))!.index.size()).toBe(3);
+
+      await persistence.deleteIndex('shrink');
+      expect(await readRecords(mockDb)).toEqual([]);
+    } finally {
+      cleanupIndexedDBMocks();
+    }
+  });
+
+  it('restores vector-less snapshots through resolveVectors', async () => {
+    setupIndexedDBMocks();
+    try {
+      const mockDb = createDatabase('test-binary-vectorless');
+      const index = await buildIndex(10);
+      const stored = new Map(
+        index.exportGraph().nodes.map((node) => [node.id, node.vector]),
+      );
+      const persistence = new IndexPersistence(mockDb as unknown as PersistenceDatabase, {
+        includeVectors: false,
+        resolveVectors: async (ids) =>
+          new Map(ids.flatMap((id) => (stored.has(id) ? [[id, stored.get(id)!]] : []))),
+      });
+
+      await persistence.saveIndex('graph-only', index, 'cosine');
+      const loaded = await persistence.loadIndex('graph-only');
+      const query = new Float32Array([0, 1, 0.5]);
+      expect(await loaded!.index.search(query, 3)).toEqual(await index.search(query, 3));
+
+      // A node whose vector is gone from storage makes the snapshot unusable.
+      stored.delete('v4');
+      expect(await persistence.loadIndex('graph-only')).toBeNull();
+
+      const withoutResolver = new IndexPersistence(
+        mockDb as unknown as PersistenceDatabase,
+      );
+      expect(withoutResolver.loadIndex('graph-only')).rejects.toThrow(IndexError);
+    } finally {
+      cleanupIndexedDBMocks();
+    }
+  });
+
+  it('migrates legacy structured-clone records to binary snapshots on load', async () => {
+    setupIndexedDBMocks();
+    try {
+      const mockDb = createDatabase('test-binary-migrate');
+      const persistence = new IndexPersistence(mockDb as unknown as PersistenceDatabase);
+      const index = await buildIndex(5);
+      const exported = index.exportState();
+
+      await mockDb.executeTransaction('hnsw_indices', 'readwrite', async (tx) => {
+        const store = tx.objectStore('hnsw_indices');
+        return new Promise<void>((resolve, reject) => {
+          const req = store.put({
+            id: 'legacy',
+            data: {
+              nodes: exported.nodes.map((node) => ({
+                ...node,
+                connections: Object.fromEntries(node.connections),
+              })),
+              entryPoint: exported.entryPoint,
+              config: exported.config,
+              distanceMetric: 'cosine',
+              version: '1.0.0',
+              timestamp: Date.now(),
+            },
+            timestamp: Date.now(),
+          });
+          req.onsuccess = () => resolve();
+          req.onerror = () => reject(new Error('write failed'));
+        });
+      });
+
+      const loaded = await persistence.loadIndex('legacy');
+      expect(loaded!.index.size()).toBe(5);
+
+      const records = await readRecords(mockDb);
+      const head = records.find((r) => r.id === 'legacy');
+      expect(head).toMatchObject({ format: 'binary', nodeCount: 5 });
+      expect((await persistence.loadIndex('legacy'))!.index.size()).toBe(5);
+    } finally {
+      cleanupIndexedDBMocks();
+    }
+  });
+
+  it('saves KD-tree snapshots and restores them as KD-trees', async () => {
+    setupIndexedDBMocks();
+    try {
+      const mockDb = createDatabase('test-binary-kdtree');
+      const persistence = new IndexPersistence(mockDb as unknown as PersistenceDatabase, {
+        chunkSize: 256,
+      });
+      const index = new KDTreeIndex('manhattan', { leafSize: 4 });
+      index.build(
+        Array.from({ length: 40 }, (_, i) =>
+          makeVector(`v${i}`, [Math.cos(i), Math.sin(i), i / 40], { position: i }),
+        ),
+      );
+
+      await persistence.saveIndex('tree', index, 'manhattan');
+      const loaded = await persistence.loadIndex('tree');
+
+      expect(loaded!.index).toBeInstanceOf(KDTreeIndex);
+      expect(loaded!.distanceMetric).toBe('manhattan');
+      const restored = loaded!.index as KDTreeIndex;
+      const query = new Float32Array([0.5, -0.5, 0.3]);
+      expect(restored.search(query, 5)).toEqual(index.search(query, 5));
+      expect(restored.getStats()).toEqual(index.getStats());
+      expect(await persistence.listIndices()).toEqual([
+        expect.objectContaining({ id: 'tree', nodeCount: 40 }),
+      ]);
+    } finally {
+      cleanupIndexedDBMocks();
+    }
+  });
+
+  it('reports a missing chunk as corruption', async () => {
+    setupIndexedDBMocks();
+    try {
+      const mockDb = createDatabase('test-binary-missing-chunk');
+      const persistence = new IndexPersistence(mockDb as unknown as PersistenceDatabase, {
+        chunkSize: 256,
+      });
+      await persistence.saveIndex('broken', await buildIndex(30), 'cosine');
+
+      await mockDb.executeTransaction('hnsw_indices', 'readwrite', async (tx) => {
+        const store = tx.objectStore('hnsw_indices');
+        return new Promise<void>((resolve, reject) => {
+          const req = store.delete('broken::chunk-1');
+          req.onsuccess = () => resolve();
+          req.onerror = () => reject(new Error('delete failed'));
+        });
+      });
+
+      expect(persistence.loadIndex('broken')).rejects.toThrow(StorageCorruptionError);
+    } finally {
+      cleanupIndexedDBMocks();
+    }
+  });
+});
+
+describe('IndexPersistence document snapshots', () => {
+  async function buildIndex(count: number): Promise<HNSWIndex> {
+    const index = new HNSWIndex('cosine', { m: 4, efConstruction: 20, maxLevel: 2 });
+    for (let i = 0; i < count; i++) {
+      await index.addVector(
+        makeVector(`v${i}`, [Math.cos(i), Math.sin(i), i / count], { position: i }),
+      );
+    }
+    return index;
+  }
+
+  it('saves chunked snapshots as adapter documents and loads them back', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    const persistence = new IndexPersistence(adapter, { chunkSize: 256 });
+    const index = await buildIndex(30);
+
+    await persistence.saveIndex('chunked', index, 'cosine');
+
+    const chunks = await adapter.listDocuments('index-chunks');
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(await adapter.count()).toBe(0);
+
+    const loaded = await persistence.loadIndex('chunked');
+    const query = new Float32Array([1, 0.5, 0.2]);
+    expect(loaded!.index.size()).toBe(30);
+    expect(await loaded!.index.search(query, 5)).toEqual(await index.search(query, 5));
+    expect(await persistence.listIndices()).toEqual([
+      expect.objectContaining({ id: 'chunked', nodeCount: 30, distanceMetric: 'cosine' }),
+    ]);
+    const usage = await persistence.getStorageUsage();
+    expect(usage.indexCount).toBe(1);
+    expect(usage.measuredBytes).toBeGreaterThan(256);
+  });
+
+  it('replaces the previous generation of chunks and deletes them all', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    const persistence = new IndexPersistence(adapter, { chunkSize: 256 });
+
+    await persistence.saveIndex('shrink', await buildIndex(30), 'cosine');
+    const before = await adapter.listDocuments('index-chunks');
+    await persistence.saveIndex('shrink', await buildIndex(3), 'cosine');
+    const after = await adapter.listDocuments('index-chunks');
+
+    expect(after.length).toBeLessThan(before.length);
+    expect(after.every(({ key }) => key.startsWith('shrink::2::'))).toBe(true);
+    expect((await persistence.loadIndex('shrink'))!.index.size()).toBe(3);
+
+    await persistence.deleteIndex('shrink');
+    expect(await persistence.loadIndex('shrink')).toBeNull();
+    expect(await adapter.listDocuments('index-chunks')).toEqual([]);
+  });
+
+  it('treats a missing chunk as corruption', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    const persistence = new IndexPersistence(adapter, { chunkSize: 256 });
+    await persistence.saveIndex('broken', await buildIndex(30), 'cosine');
+    await adapter.deleteDocument('index-chunks', 'broken::1::chunk-1');
+
+    expect(persistence.loadIndex('broken')).rejects.toThrow(StorageCorruptionError);
+  });
+
+  it('lets a SearchEngine on a persistent adapter restore its index', async () => {
+    const storage = new SQLiteStorageAdapter({ filename: ':memory:' });
+    await storage.init();
+    for (let i = 0; i < 6; i++) {
+      await storage.put(makeVector(`vec-${i}`, [Math.cos(i), Math.sin(i), 1]));
+    }
+
+    const first = new SearchEngine(storage, 3, 'cosine', {
+      useIndex: true,
+      useWorkers: false,
+    });
+    await first.rebuildIndex({ loadFromCache: false });
+    expect(await storage.listDocuments('index-snapshots')).toHaveLength(1);
+
+    const second = new SearchEngine(storage, 3, 'cosine', {
+      useIndex: true,
+      useWorkers: false,
+    });
+    expect(await second.loadIndex()).toBe(true);
+    expect(second.getIndexStats().nodeCount).toBe(6);
+    await storage.destroy();
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { VectorData } from '@/core/types.js';
+import { IVFIndex } from '@/search/ivf-index.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+
+/** Vector `index` of four well-separated clusters in 8-D (cluster = index % 4) */
+function clustered(index: number): VectorData {
+  const cluster = index % 4;
+  const vector = new Float32Array(8);
+  for (let d = 0; d < vector.length; d++) {
+    vector[d] = (d % 4 === cluster ? 10 : 0) + Math.sin(index * 13 + d) * 0.5;
+  }
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return { id: `v${index}`, vector, magnitude, timestamp: Date.now() };
+}
+
+function dataset(count: number): VectorData[] {
+  return Array.from({ length: count }, (_, i) => clustered(i));
+}
+
+describe('IVFIndex', () => {
+  it('buffers vectors until trainOn, then trains and assigns them', async () => {
+    const index = new IVFIndex('euclidean', { nlist: 4, nprobe: 1, trainOn: 20 });
+
+    for (const vector of dataset(19)) {
+      await index.addVector(vector);
+    }
+    expect(index.isTrained()).toBe(false);
+    expect(index.getStats()).toMatchObject({ pendingTraining: 19, vectorCount: 19 });
+
+    await index.addVector(clustered(19));
+    expect(index.isTrained()).toBe(true);
+    expect(index.getStats()).toMatchObject({
+      trained: true,
+      pendingTraining: 0,
+      vectorCount: 20,
+      largestList: 5,
+      smallestList: 5,
+    });
+  });
+
+  it('probes only the lists closest to the query', async () => {
+    const index = new IVFIndex('euclidean', { nlist: 4, nprobe: 1, trainOn: 40 });
+    await index.build(dataset(80));
+
+    const ids = index.probe(clustered(102).vector);
+    expect(ids).toHaveLength(20);
+    expect(ids.every((id) => Number(id.slice(1)) % 4 === 2)).toBe(true);
+
+    expect(index.probe(clustered(102).vector, 2)).toHaveLength(40);
+  });
+
+  it('moves re-added vectors and forgets removed ones', async () => {
+    const index = new IVFIndex('euclidean', { nlist: 4, nprobe: 1, trainOn: 40 });
+    await index.build(dataset(40));
+
+    // v0 now lies in cluster 1
+    await index.addVector({ ...clustered(1), id: 'v0' });
+    expect(index.probe(clustered(1).vector)).toContain('v0');
+    expect(index.probe(clustered(0).vector)).not.toContain('v0');
+
+    await index.removeVector('v1');
+    expect(index.probe(clustered(1).vector)).not.toContain('v1');
+    expect(index.size()).toBe(39);
+  });
+
+  it('normalizes cosine vectors before clustering', async () => {
+    const index = new IVFIndex('cosine', { nlist: 4, nprobe: 1, trainOn: 40 });
+    const scaled = dataset(40).map((vector, i) => ({
+      ...vector,
+      vector: vector.vector.map((value) => value * (1 + (i % 7))),
+    }));
+    await index.build(scaled);
+
+    const ids = index.probe(clustered(3).vector.map((value) => value * 100));
+    expect(ids).toHaveLength(10);
+    expect(ids.every((id) => Number(id.slice(1)) % 4 === 3)).toBe(true);
+  });
+
+  describe('persistence', () => {
+    it('stores one document per inverted list and restores them', async () => {
+      const store = new MemoryStorageAdapter();
+      const index = new IVFIndex(
+        'euclidean',
+        { nlist: 4, nprobe: 1, trainOn: 40 },
+        store,
+      );
+      await index.build(dataset(60));
+      await index.addVector(clustered(60));
+
+      const lists = await store.listDocuments<{ centroid: number[] }>('ivf-lists');
+      expect(lists.map(({ key }) => key)).toEqual(['0', '1', '2', '3']);
+      expect(lists.every(({ document }) => document.centroid.length === 8)).toBe(true);
+      expect(await store.count()).toBe(0);
+
+      const restored = new IVFIndex(
+        'euclidean',
+        { nlist: 4, nprobe: 1, trainOn: 40 },
+        store,
+      );
+      expect(await restored.load(61)).toBe(true);
+      expect(restored.size()).toBe(61);
+      for (const probe of [0, 1, 2, 3]) {
+        const query = clustered(probe).vector;
+        expect(restored.probe(query).sort()).toEqual(index.probe(query).sort());
+      }
+    });
+
+    it('discards lists that no longer cover storage', async () => {
+      const store = new MemoryStorageAdapter();
+      const index = new IVFIndex(
+        'euclidean',
+        { nlist: 4, nprobe: 1, trainOn: 40 },
+        store,
+      );
+      await index.build(dataset(40));
+
+      const restored = new IVFIndex(
+        'euclidean',
+        { nlist: 4, nprobe: 1, trainOn: 40 },
+        store,
+      );
+      expect(await restored.load(41)).toBe(false);
+      expect(restored.isTrained()).toBe(false);
+      expect(await store.listDocuments('ivf-lists')).toEqual([]);
+    });
+
+    it('discards lists saved under another metric or nlist', async () => {
+      const store = new MemoryStorageAdapter();
+      await new IVFIndex('euclidean', { nlist: 4, trainOn: 40 }, store).build(
+        dataset(40),
+      );
+
+      const cosine = new IVFIndex('cosine', { nlist: 4, trainOn: 40 }, store);
+      expect(await cosine.load(40)).toBe(false);
+
+      await new IVFIndex('euclidean', { nlist: 4, trainOn: 40 }, store).build(
+        dataset(40),
+      );
+      const wider = new IVFIndex('euclidean', { nlist: 8, trainOn: 40 }, store);
+      expect(await wider.load(40)).toBe(false);
+    });
+
+    it('writes nothing until the centroids are trained', async () => {
+      const store = new MemoryStorageAdapter();
+      const index = new IVFIndex('euclidean', { nlist: 4, trainOn: 40 }, store);
+      await index.build(dataset(10));
+
+      expect(index.isTrained()).toBe(false);
+      expect(index.size()).toBe(10);
+      expect(await store.listDocuments('ivf-lists')).toEqual([]);
+    });
+
+    it('saves a write as one change and replays it on load', async () => {
+      const store = new MemoryStorageAdapter();
+      const config = { nlist: 4, nprobe: 1, trainOn: 40 };
+      const index = new IVFIndex('euclidean', config, store);
+      await index.build(dataset(40));
+      const listsBefore = await store.listDocuments('ivf-lists');
+
+      // v0 now lies in cluster 1
+      await index.addVector({ ...clustered(1), id: 'v0' });
+      await index.removeVector('v2');
+      await index.addVector(clustered(40));
+
+      expect(await store.listDocuments('ivf-lists')).toEqual(listsBefore);
+      expect(await store.listDocuments('ivf-changes')).toEqual([
+        { key: '000000000000', document: { id: 'v0', list: expect.any(Number) } },
+        { key: '000000000001', document: { id: 'v2', list: null } },
+        { key: '000000000002', document: { id: 'v40', list: expect.any(Number) } },
+      ]);
+
+      const restored = new IVFIndex('euclidean', config, store);
+      expect(await restored.load(40)).toBe(true);
+      for (const probe of [0, 1, 2]) {
+        const query = clustered(probe).vector;
+        expect(restored.probe(query).sort()).toEqual(index.probe(query).sort());
+      }
+    });
+
+    it('rewrites the lists once the changes outnumber the ids', async () => {
+      const store = new MemoryStorageAdapter();
+      const config = { nlist: 4, nprobe: 1, trainOn: 40 };
+      const index = new IVFIndex('euclidean', config, store);
+      await index.build(dataset(40));
+
+      for (const vector of dataset(82).slice(40)) {
+        await index.addVector(vector);
+      }
+
+      // The 41st change rewrote the lists; the last one is pending
+      expect(await store.listDocuments('ivf-changes')).toHaveLength(1);
+      const lists = await store.listDocuments<{ ids: string[] }>('ivf-lists');
+      expect(lists.reduce((sum, { document }) => sum + document.ids.length, 0)).toBe(81);
+
+      const restored = new IVFIndex('euclidean', config, store);
+      expect(await restored.load(82)).toBe(true);
+      expect(restored.size()).toBe(82);
+    });
+  });
+
+  it('rejects invalid parameters', () => {
+    expect(() => new IVFIndex('cosine', { nlist: 0 })).toThrow(/nlist/);
+    expect(() => new IVFIndex('cosine', { nprobe: 1.5 })).toThrow(/nprobe/);
+    expect(() => new IVFIndex('cosine', { nlist: 50, trainOn: 10 })).toThrow(
+      /at least nlist/,
+    );
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'bun:test';
+
+import { StorageCorruptionError } from '@/core/errors.js';
+import type { VectorData } from '@/core/types.js';
+import { createDistanceCalculator } from '@/search/distance-metrics.js';
+import { KDTreeIndex, type KDTreeMetric } from '@/search/kdtree-index.js';
+import { decodeKDTreeSnapshot, encodeKDTreeSnapshot } from '@/search/kdtree-snapshot.js';
+
+/** Deterministic uniform [0, 1) values */
+function seeded(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function dataset(count: number, dimension: number, seed = 1): VectorData[] {
+  const random = seeded(seed);
+  return Array.from({ length: count }, (_, i) => {
+    const vector = Float32Array.from({ length: dimension }, () => random() * 100);
+    return {
+      id: `v${i}`,
+      vector,
+      magnitude: Math.hypot(...vector),
+      timestamp: Date.now(),
+      metadata: { group: i % 3 },
+    };
+  });
+}
+
+function bruteForce(
+  vectors: VectorData[],
+  query: Float32Array,
+  metric: KDTreeMetric,
+): Array<{ id: string; distance: number }> {
+  const calculator = createDistanceCalculator(metric);
+  return vectors
+    .map(({ id, vector }) => ({ id, distance: calculator.calculate(query, vector) }))
+    .sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id));
+}
+
+describe('KDTreeIndex', () => {
+  for (const metric of ['euclidean', 'manhattan'] as const) {
+    it(`returns the exact ${metric} nearest neighbours`, () => {
+      const vectors = dataset(500, 3);
+      const index = new KDTreeIndex(metric, { leafSize: 8 });
+      index.build(vectors);
+
+      for (const query of dataset(20, 3, 7)) {
+        const expected = bruteForce(vectors, query.vector, metric).slice(0, 10);
+        const results = index.search(query.vector, 10);
+        expect(results.map(({ id }) => id)).toEqual(expected.map(({ id }) => id));
+        expect(results[0]!.distance).toBeCloseTo(expected[0]!.distance, 5);
+      }
+    });
+
+    it(`returns every ${metric} neighbour within range`, () => {
+      const vectors = dataset(500, 4);
+      const index = new KDTreeIndex(metric, { leafSize: 8 });
+      index.build(vectors);
+
+      const query = dataset(1, 4, 9)[0]!.vector;
+      const expected = bruteForce(vectors, query, metric).filter(
+        ({ distance }) => distance <= 30,
+      );
+      expect(expected.length).toBeGreaterThan(0);
+      expect(index.searchRange(query, 30).map(({ id }) => id)).toEqual(
+        expected.map(({ id }) => id),
+      );
+    });
+  }
+
+  it('evaluates filters while searching so k matches are still returned', () => {
+    const vectors = dataset(300, 2);
+    const index = new KDTreeIndex('euclidean', { leafSize: 4 });
+    index.build(vectors);
+
+    const query = new Float32Array([50, 50]);
+    const results = index.search(query, 5, (metadata) => metadata['group'] === 2);
+    const expected = bruteForce(
+      vectors.filter((vector) => vector.metadata!['group'] === 2),
+      query,
+      'euclidean',
+    ).slice(0, 5);
+
+    expect(results.map(({ id }) => id)).toEqual(expected.map(({ id }) => id));
+    expect(results.every((result) => result.metadata!['group'] === 2)).toBe(true);
+  });
+
+  it('stays exact across inserts, updates and removals', () => {
+    const vectors = dataset(200, 3);
+    const index = new KDTreeIndex('euclidean', { leafSize: 4, rebalanceThreshold: 100 });
+    for (const vector of vectors) {
+      index.addVector(vector);
+    }
+    expect(index.getStats().changesSinceRebalance).toBe(200);
+
+    // Move v0 next to the query, remove v1
+    const query = new Float32Array([1, 2, 3]);
+    index.addVector({ ...vectors[0]!, vector: new Float32Array([1, 2, 3.5]) });
+    index.removeVector('v1');
+    index.removeVector('missing');
+
+    const remaining = [
+      { ...vectors[0]!, vector: new Float32Array([1, 2, 3.5]) },
+      ...vectors.slice(2),
+    ];
+    expect(index.size()).toBe(199);
+    expect(index.search(query, 8).map(({ id }) => id)).toEqual(
+      bruteForce(remaining, query, 'euclidean')
+        .slice(0, 8)
+        .map(({ id }) => id),
+    );
+    expect(index.searchRange(query, 1000).some(({ id }) => id === 'v1')).toBe(false);
+  });
+
+  it('rebalances once changes exceed the threshold', () => {
+    const index = new KDTreeIndex('euclidean', { leafSize: 4, rebalanceThreshold: 0.5 });
+    index.build(dataset(100, 2));
+
+    // Sorted inserts would otherwise grow one side of the tree
+    for (let i = 0; i < 50; i++) {
+      index.addVector({
+        id: `s${i}`,
+        vector: new Float32Array([200 + i, 200 + i]),
+        magnitude: 0,
+        timestamp: 0,
+      });
+    }
+    expect(index.getStats().changesSinceRebalance).toBe(50);
+
+    index.addVector({
+      id: 's50',
+      vector: new Float32Array([250, 250]),
+      magnitude: 0,
+      timestamp: 0,
+    });
+    const stats = index.getStats();
+    expect(stats.changesSinceRebalance).toBe(0);
+    expect(stats.pointCount).toBe(151);
+    expect(stats.depth).toBeLessThanOrEqual(Math.ceil(Math.log2(151 / 4)) + 1);
+  });
+
+  it('keeps identical points in one leaf instead of splitting forever', () => {
+    const index = new KDTreeIndex('euclidean', { leafSize: 2 });
+    const same = new Float32Array([1, 1]);
+    index.build(
+      Array.from({ length: 10 }, (_, i) => ({
+        id: `d${i}`,
+        vector: same,
+        magnitude: 0,
+        timestamp: 0,
+      })),
+    );
+
+    expect(index.getStats()).toMatchObject({ leafCount: 1, depth: 0 });
+    expect(index.search(same, 3).map(({ id }) => id)).toEqual(['d0', 'd1', 'd2']);
+  });
+
+  it('exports and imports the tree unchanged', () => {
+    const index = new KDTreeIndex('euclidean', { leafSize: 4 });
+    index.build(dataset(60, 3));
+
+    const copy = new KDTreeIndex('euclidean', { leafSize: 4 });
+    copy.importTree(index.exportTree());
+    expect(copy.exportTree()).toEqual(index.exportTree());
+
+    const { nodes, points } = index.exportTree();
+    expect(() => copy.importTree({ nodes, points: points.slice(1) })).toThrow();
+  });
+
+  it('rejects unsupported metrics and invalid parameters', () => {
+    expect(() => new KDTreeIndex('cosine')).toThrow(/euclidean and manhattan/);
+    expect(() => new KDTreeIndex('euclidean', { leafSize: 0 })).toThrow(/leafSize/);
+    expect(() => new KDTreeIndex('euclidean', { rebalanceThreshold: 0 })).toThrow(
+      /rebalanceThreshold/,
+    );
+  });
+
+  describe('snapshots', () => {
+    it('round-trips the tree, metadata and config', () => {
+      const index = new KDTreeIndex('manhattan', {
+        leafSize: 4,
+        rebalanceThreshold: 0.5,
+      });
+      index.build(dataset(50, 3));
+      const tree = index.exportTree();
+
+      const decoded = decodeKDTreeSnapshot(encodeKDTreeSnapshot(tree, 'manhattan'));
+      expect(decoded).toMatchObject({
+        nodes: tree.nodes,
+        config: { leafSize: 4, rebalanceThreshold: 0.5 },
+        distanceMetric: 'manhattan',
+        includesVectors: true,
+      });
+      expect(decoded.points).toEqual(tree.points);
+    });
+
+    it('omits vectors on request', () => {
+      const index = new KDTreeIndex('euclidean');
+      index.build(dataset(20, 3));
+
+      const withVectors = encodeKDTreeSnapshot(index.exportTree(), 'euclidean');
+      const withoutVectors = encodeKDTreeSnapshot(index.exportTree(), 'euclidean', {
+        includeVectors: false,
+      });
+      expect(withoutVectors.byteLength).toBe(withVectors.byteLength - 20 * 3 * 4);
+
+      const decoded = decodeKDTreeSnapshot(withoutVectors);
+      expect(decoded.includesVectors).toBe(false);
+      expect(decoded.points.every((point) => point.vector === undefined)).toBe(true);
+    });
+
+    it('detects corrupted bytes', () => {
+      const index = new KDTreeIndex('euclidean');
+      index.build(dataset(20, 3));
+      const snapshot = encodeKDTreeSnapshot(index.exportTree(), 'euclidean');
+
+      new Uint8Array(snapshot)[40]! ^= 0xff;
+      expect(() => decodeKDTreeSnapshot(snapshot)).toThrow(StorageCorruptionError);
+      expect(() => decodeKDTreeSnapshot(new ArrayBuffer(8))).toThrow(
+        StorageCorruptionError,
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { MetadataIndexDefinition } from '@/core/types.js';
+import { planMetadataIndexQuery } from '@/search/metadata-index-planner.js';
+
+const indexes: MetadataIndexDefinition[] = [
+  { field: 'category' },
+  { field: 'price', kind: 'range' },
+  { field: 'tags', kind: 'multiEntry' },
+];
+
+describe('planMetadataIndexQuery', () => {
+  it('returns null when no indexes are declared', () => {
+    expect(planMetadataIndexQuery({ category: 'books' }, [])).toBeNull();
+  });
+
+  it('returns null when no conjunct targets an indexed field', () => {
+    expect(planMetadataIndexQuery({ author: 'Ada' }, indexes)).toBeNull();
+  });
+
+  it('plans bare values and $eq as single-value lookups', () => {
+    expect(planMetadataIndexQuery({ category: 'books' }, indexes)).toEqual({
+      type: 'values',
+      field: 'category',
+      indexName: 'metadata.category',
+      values: ['books'],
+    });
+    expect(planMetadataIndexQuery({ category: { $eq: 'music' } }, indexes)).toEqual({
+      type: 'values',
+      field: 'category',
+      indexName: 'metadata.category',
+      values: ['music'],
+    });
+  });
+
+  it('plans $in as a deduplicated multi-value lookup', () => {
+    const plan = planMetadataIndexQuery(
+      { category: { $in: ['books', 'music', 'books'] } },
+      indexes,
+    );
+    expect(plan).toMatchObject({ type: 'values', values: ['books', 'music'] });
+  });
+
+  it('does not plan values that are not valid IndexedDB keys', () => {
+    expect(planMetadataIndexQuery({ category: true }, indexes)).toBeNull();
+    expect(
+      planMetadataIndexQuery({ category: { $in: ['a', null] } }, indexes),
+    ).toBeNull();
+  });
+
+  it('merges range operators on a range index', () => {
+    expect(
+      planMetadataIndexQuery({ price: { $gt: 10, $gte: 5, $lte: 100 } }, indexes),
+    ).toEqual({
+      type: 'range',
+      field: 'price',
+      indexName: 'metadata.price',
+      lower: 10,
+      upper: 100,
+      lowerOpen: true,
+      upperOpen: false,
+    });
+    expect(
+      planMetadataIndexQuery({ price: { $between: [1, 2] } }, indexes),
+    ).toMatchObject({
+      type: 'range',
+      lower: 1,
+      upper: 2,
+    });
+  });
+
+  it('does not plan ranges on equality indexes', () => {
+    expect(planMetadataIndexQuery({ category: { $gt: 1 } }, indexes)).toBeNull();
+  });
+
+  it('plans empty intervals as a lookup of no values', () => {
+    expect(planMetadataIndexQuery({ price: { $gt: 5, $lt: 5 } }, indexes)).toMatchObject({
+      type: 'values',
+      values: [],
+    });
+  });
+
+  it('plans membership operators on multiEntry indexes', () => {
+    expect(planMetadataIndexQuery({ tags: { $all: ['a', 'b'] } }, indexes)).toMatchObject(
+      {
+        type: 'values',
+        indexName: 'metadata.tags',
+        values: ['a'],
+      },
+    );
+    expect(planMetadataIndexQuery({ tags: { $elemMatch: 'x' } }, indexes)).toMatchObject({
+      values: ['x'],
+    });
+    expect(planMetadataIndexQuery({ tags: 'a' }, indexes)).toBeNull();
+  });
+
+  it('prefers the most selective exact-key plan over a range plan', () => {
+    const plan = planMetadataIndexQuery(
+      {
+        price: { $lt: 50 },
+        $and: [{ category: { $in: ['a', 'b', 'c'] } }, { tags: { $all: ['x'] } }],
+      },
+      indexes,
+    );
+    expect(plan).toMatchObject({ field: 'tags', values: ['x'] });
+  });
+
+  it('ignores $or and $not branches', () => {
+    expect(
+      planMetadataIndexQuery({ $or: [{ category: 'a' }, { category: 'b' }] }, indexes),
+    ).toBeNull();
+    expect(planMetadataIndexQuery({ $not: { category: 'a' } }, indexes)).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+
+import type { VectorData } from '@/core/types.js';
+import { CodebookPersistence } from '@/search/codebook-persistence.js';
+import { QuantizedIndex } from '@/search/quantized-index.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+
+const dimension = 8;
+
+function vectorData(id: string, seed: number): VectorData {
+  const vector = new Float32Array(dimension);
+  for (let i = 0; i < dimension; i++) {
+    vector[i] = Math.sin(seed * 7 + i) + (seed % 3);
+  }
+  return { id, vector, magnitude: 1, timestamp: 0 };
+}
+
+async function* stream(vectors: VectorData[]): AsyncIterable<VectorData> {
+  yield* vectors;
+}
+
+async function setup() {
+  const store = new MemoryStorageAdapter();
+  await store.init();
+  const vectors = Array.from({ length: 30 }, (_, i) => vectorData(`v${i}`, i));
+  await store.putBatch(vectors);
+  const open = () =>
+    new QuantizedIndex(
+      dimension,
+      'euclidean',
+      { strategy: 'product', trainOn: 20 },
+      { codebooks: new CodebookPersistence(store), key: 'main-codebook' },
+      store,
+    );
+  return { store, vectors, open };
+}
+
+describe('QuantizedIndex code documents', () => {
+  it('saves codes as documents apart from the vector records', async () => {
+    const { store, vectors, open } = await setup();
+    const index = open();
+
+    for (const vector of vectors) {
+      await index.add(vector);
+    }
+
+    const documents = await store.listDocuments('compressed-codes');
+    expect(documents).toHaveLength(30);
+    const record = await store.get('v3');
+    expect(record.compression).toBeUndefined();
+
+    await index.remove('v3');
+    expect(await store.getDocument('compressed-codes', 'v3')).toBeNull();
+  });
+
+  it('restores the codes without reading the vectors', async () => {
+    const { store, vectors, open } = await setup();
+    const first = open();
+    for (const vector of vectors) {
+      await first.add(vector);
+    }
+    const query = vectors[4]!.vector;
+    const before = await first.search(query, 5);
+
+    const scan = spyOn(store, 'scan');
+    const getAll = spyOn(store, 'getAll');
+    const reopened = open();
+    expect(await reopened.restore(30)).toBe(true);
+    expect(scan).not.toHaveBeenCalled();
+    expect(getAll).not.toHaveBeenCalled();
+    expect(await reopened.search(query, 5)).toEqual(before);
+
+    expect(await open().restore(31)).toBe(false);
+  });
+
+  it('rebuilds by writing only changed codes and dropping stale ones', async () => {
+    const { store, vectors, open } = await setup();
+    const index = open();
+    await index.rebuild(stream(vectors));
+    expect(await store.listDocuments('compressed-codes')).toHaveLength(30);
+
+    const put = spyOn(store, 'putDocument');
+    const changed = [vectorData('v0', 99), ...vectors.slice(1, 29)];
+    await open().rebuild(stream(changed));
+
+    expect(put.mock.calls.map(([, key]) => key)).toEqual(['v0']);
+    const documents = await store.listDocuments('compressed-codes');
+    const keys = documents.map(({ key }) => key);
+    expect(keys).toHaveLength(29);
+    expect(keys).not.toContain('v29');
+  });
+
+  it('deletes the codes on clear', async () => {
+    const { store, vectors, open } = await setup();
+    const index = open();
+    await index.rebuild(stream(vectors));
+
+    await index.clear();
+
+    expect(await store.listDocuments('compressed-codes')).toEqual([]);
+    expect(await open().restore(0)).toBe(false);
+  });
+});
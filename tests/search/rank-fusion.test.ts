@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test';
+
+import { reciprocalRankFusion, weightedScoreFusion } from '@/search/rank-fusion.js';
+
+describe('reciprocalRankFusion', () => {
+  it('sums reciprocal ranks across lists', () => {
+    const fused = reciprocalRankFusion(
+      [
+        [
+          { id: 'a', score: 0.9 },
+          { id: 'b', score: 0.8 },
+        ],
+        [
+          { id: 'b', score: 12 },
+          { id: 'c', score: 3 },
+        ],
+      ],
+      60,
+    );
+
+    expect(fused.get('a')).toBeCloseTo(1 / 61);
+    expect(fused.get('b')).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused.get('c')).toBeCloseTo(1 / 62);
+  });
+});
+
+describe('weightedScoreFusion', () => {
+  it('blends min-max normalized scores', () => {
+    const fused = weightedScoreFusion(
+      [
+        { id: 'a', score: 1 },
+        { id: 'b', score: 0.5 },
+      ],
+      [
+        { id: 'b', score: 10 },
+        { id: 'c', score: 2 },
+      ],
+      0.25,
+    );
+
+    expect(fused.get('a')).toBeCloseTo(0.25);
+    expect(fused.get('b')).toBeCloseTo(0.75);
+    expect(fused.get('c')).toBeCloseTo(0);
+  });
+
+  it('treats a list with a single distinct score as full matches', () => {
+    const fused = weightedScoreFusion([{ id: 'a', score: 0.3 }], [], 0.5);
+
+    expect(fused.get('a')).toBeCloseTo(0.5);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, expect, it, mock } from 'bun:test';
+import { describe, expect, it, mock, spyOn } from 'bun:test';
 
 import {
   DimensionMismatchError,
@@ -1107,6 +1107,34 @@ describe('SearchEngine', () => {
       expect(results).toHaveLength(1);
       expect(results[0]!.id).toBe('cat');
     });
+
+    it('should evaluate filters inside the HNSW index instead of scanning storage', async () => {
+      const vectors = Array.from({ length: 60 }, (_, i) =>
+        makeVector(`v${i}`, [Math.cos(i / 10), Math.sin(i / 10), (i % 7) / 7], {
+          tenantId: `t${i % 3}`,
+        }),
+      );
+      const storage = await createMockStorage(vectors);
+      const engine = new SearchEngine(storage, 3, 'cosine', {
+        useIndex: true,
+        useWorkers: false,
+      });
+      for (const vector of vectors) {
+        await engine.addVectorToIndex(vector);
+      }
+
+      const getAllSpy = spyOn(storage, 'getAll');
+      const results = await engine.search(new Float32Array([1, 0, 0]), 5, {
+        filter: { tenantId: 't1' },
+        includeMetadata: true,
+      });
+
+      expect(getAllSpy).not.toHaveBeenCalled();
+      expect(results).toHaveLength(5);
+      expect(results.every((result) => result.metadata?.['tenantId'] === 't1')).toBe(
+        true,
+      );
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -1138,8 +1166,10 @@ describe('SearchEngine', () => {
         filter: { animal: 'cat' },
       });
 
-      // filteredScan should have been called (not getAll)
+      // filteredScan should have been called (not getAll), with the raw filter
+      // available for index planning
       expect(filteredScanSpy).toHaveBeenCalledTimes(1);
+      expect((filteredScanSpy.mock.calls[0] as unknown[])[1]).toEqual({ animal: 'cat' });
       expect(results).toHaveLength(1);
       expect(results[0]!.id).toBe('cat');
     });
@@ -1164,6 +1194,7 @@ describe('SearchEngine', () => {
           metadataIndexing: false,
           persistence: false,
           transactions: false,
+          snapshots: false,
           batchAtomicity: false,
           quotaReporting: false,
           concurrentWriters: false,
@@ -1244,6 +1275,16 @@ describe('SearchEngine', () => {
         getScanCapabilities() {
           return { nativeStreaming: false, limitationReason: 'in-memory stub' };
         },
+        async getDocument() {
+          return null;
+        },
+        async putDocument() {},
+        async deleteDocument() {
+          return false;
+        },
+        async listDocuments() {
+          return [];
+        },
       };
 
       const engine = new SearchEngine(minimalAdapter, 3, 'cosine', { useWorkers: false });
@@ -1355,6 +1396,16 @@ describe('SearchEngine', () => {
         getScanCapabilities() {
           return { nativeStreaming: false, limitationReason: 'in-memory stub' };
         },
+        async getDocument() {
+          return null;
+        },
+        async putDocument() {},
+        async deleteDocument() {
+          return false;
+        },
+        async listDocuments() {
+          return [];
+        },
       };
       const engineB = new SearchEngine(adapterB, 3, 'cosine', { useWorkers: false });
 
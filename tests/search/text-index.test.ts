@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+
+import { TextIndex, tokenize } from '@/search/text-index.js';
+
+describe('tokenize', () => {
+  it('lowercases and splits on non-alphanumeric characters', () => {
+    expect(tokenize('Hello, World! Vector-search 2.0')).toEqual([
+      'hello',
+      'world',
+      'vector',
+      'search',
+      '2',
+      '0',
+    ]);
+  });
+
+  it('keeps non-ASCII letters together', () => {
+    expect(tokenize('Café naïve')).toEqual(['café', 'naïve']);
+  });
+});
+
+describe('TextIndex', () => {
+  const createIndex = () => {
+    const index = new TextIndex({ fields: ['title', 'tags'] });
+    index.add('a', { title: 'Vector databases in the browser', tags: ['indexeddb'] });
+    index.add('b', { title: 'Cooking with cast iron', tags: ['kitchen'] });
+    index.add('c', { title: 'Browser storage quotas', tags: ['browser', 'quota'] });
+    return index;
+  };
+
+  it('rejects invalid configuration', () => {
+    expect(() => new TextIndex({ fields: [] })).toThrow('at least one field');
+    expect(() => new TextIndex({ fields: ['title'], b: 2 })).toThrow('between 0 and 1');
+    expect(() => new TextIndex({ fields: ['title'], k1: -1 })).toThrow('k1');
+  });
+
+  it('ranks documents by BM25 relevance', () => {
+    const hits = createIndex().search('browser quota', 10);
+
+    expect(hits.map((hit) => hit.id)).toEqual(['c', 'a']);
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+
+  it('reports matched terms per field', () => {
+    const [hit] = createIndex().search('browser quota', 1);
+
+    expect(hit!.matches).toEqual({ title: ['browser'], tags: ['browser', 'quota'] });
+  });
+
+  it('ignores non-string metadata and unconfigured fields', () => {
+    const index = new TextIndex({ fields: ['title'] });
+    index.add('a', { title: 42, body: 'browser' });
+
+    expect(index.size).toBe(0);
+    expect(index.search('browser', 10)).toEqual([]);
+  });
+
+  it('re-indexes and removes documents', () => {
+    const index = createIndex();
+
+    index.add('b', { title: 'Browser cooking' });
+    expect(index.search('cooking', 10).map((hit) => hit.id)).toEqual(['b']);
+    expect(index.search('kitchen', 10)).toEqual([]);
+
+    index.remove('b');
+    expect(index.search('cooking', 10)).toEqual([]);
+    expect(index.size).toBe(2);
+
+    index.clear();
+    expect(index.size).toBe(0);
+  });
+
+  it('respects the result limit', () => {
+    expect(createIndex().search('browser', 1)).toHaveLength(1);
+  });
+});
@@ -15,6 +15,7 @@ import {
   REDIS_ADAPTER_CAPABILITIES,
   S3_ADAPTER_CAPABILITIES,
   SQLITE_ADAPTER_CAPABILITIES,
+  getAdapterCapabilities,
   getAdaptersByRuntime,
   getAdaptersByTier,
 } from '@/storage/adapters/adapter-capabilities.js';
@@ -69,6 +70,7 @@ function assertCapabilitiesShape(caps: unknown, label: string): void {
   const boolFields: Array<keyof AdapterCapabilities> = [
     'persistence',
     'transactions',
+    'snapshots',
     'batchAtomicity',
     'metadataIndexing',
     'quotaReporting',
@@ -193,6 +195,10 @@ describe('capability — transactions', () => {
     expect(INDEXED_DATABASE_ADAPTER_CAPABILITIES.transactions).toBe(true);
   });
 
+  it('LevelStorageAdapter declares transaction support', () => {
+    expect(LEVEL_ADAPTER_CAPABILITIES.transactions).toBe(true);
+  });
+
   it('MemoryStorageAdapter declares no transactions', () => {
     expect(MEMORY_ADAPTER_CAPABILITIES.transactions).toBe(false);
   });
@@ -206,6 +212,32 @@ describe('capability — transactions', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// capability — snapshots
+// ---------------------------------------------------------------------------
+
+describe('capability — snapshots', () => {
+  it('IndexedDB, memory, SQLite and file-system adapters support snapshots', () => {
+    const implementations = [
+      IndexedDatabaseStorageAdapter,
+      MemoryStorageAdapter,
+      SQLiteStorageAdapter,
+      FileSystemStorageAdapter,
+    ];
+    for (const Adapter of implementations) {
+      expect(Adapter.capabilities.snapshots).toBe(true);
+      expect(typeof Adapter.prototype.createSnapshot).toBe('function');
+    }
+  });
+
+  it('OPFS, Redis and S3 adapters declare no snapshots', () => {
+    expect(OPFS_ADAPTER_CAPABILITIES.snapshots).toBe(false);
+    expect(REDIS_ADAPTER_CAPABILITIES.snapshots).toBe(false);
+    expect(S3_ADAPTER_CAPABILITIES.snapshots).toBe(false);
+    expect(OPFSStorageAdapter.prototype).not.toHaveProperty('createSnapshot');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // capability — batch atomicity
 // ---------------------------------------------------------------------------
@@ -227,8 +259,12 @@ describe('capability — batchAtomicity', () => {
     expect(MEMORY_ADAPTER_CAPABILITIES.batchAtomicity).toBe(false);
   });
 
-  it('FileSystemStorageAdapter declares no batch atomicity', () => {
-    expect(FILE_SYSTEM_ADAPTER_CAPABILITIES.batchAtomicity).toBe(false);
+  it('FileSystemStorageAdapter declares batch atomicity', () => {
+    expect(FILE_SYSTEM_ADAPTER_CAPABILITIES.batchAtomicity).toBe(true);
+  });
+
+  it('OPFSStorageAdapter declares batch atomicity', () => {
+    expect(OPFS_ADAPTER_CAPABILITIES.batchAtomicity).toBe(true);
   });
 });
 
@@ -498,3 +534,19 @@ describe('capability — static capabilities property on adapter classes', () =>
     }
   });
 });
+
+// ---------------------------------------------------------------------------
+// capability — getAdapterCapabilities
+// ---------------------------------------------------------------------------
+
+describe('capability — getAdapterCapabilities', () => {
+  it('prefers the capabilities an instance declares', () => {
+    const adapter = new MemoryStorageAdapter();
+    expect(getAdapterCapabilities(adapter)).toBe(adapter.capabilities);
+  });
+
+  it('falls back to the static capabilities of the adapter class', () => {
+    const adapter = new SQLiteStorageAdapter({ filename: ':memory:' });
+    expect(getAdapterCapabilities(adapter)).toBe(SQLITE_ADAPTER_CAPABILITIES);
+  });
+});
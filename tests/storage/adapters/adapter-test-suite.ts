@@ -1,6 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import type { StorageAdapter, VectorData } from '@/core/types.js';
-import { VectorNotFoundError } from '@/core/errors.js';
+import {
+  SnapshotExistsError,
+  SnapshotNotFoundError,
+  VectorNotFoundError,
+  VersionConflictError,
+} from '@/core/errors.js';
 
 function makeVector(
   id: string,
@@ -136,6 +141,168 @@ export function runStorageAdapterTests(
       });
     });
 
+    // ── commitTransaction ─────────────────────────────────────────────
+
+    describe('commitTransaction', () => {
+      it('applies puts and deletes together, ignoring missing ids', async () => {
+        if (!adapter.commitTransaction) {
+          return;
+        }
+
+        await adapter.put(makeVector('tx-1', [1]));
+        await adapter.put(makeVector('tx-2', [2]));
+
+        await adapter.commitTransaction([
+          { type: 'delete', id: 'tx-1' },
+          { type: 'put', vector: makeVector('tx-2', [20], { updated: true }) },
+          { type: 'put', vector: makeVector('tx-3', [3]) },
+          { type: 'delete', id: 'no-such-id' },
+        ]);
+
+        expect(await adapter.exists('tx-1')).toBe(false);
+        const updated = await adapter.get('tx-2');
+        expect(updated.metadata).toEqual({ updated: true });
+        expect(await adapter.exists('tx-3')).toBe(true);
+      });
+    });
+
+    // ── snapshots ─────────────────────────────────────────────────────
+
+    describe('snapshots', () => {
+      it('restores the vectors stored when the snapshot was taken', async () => {
+        if (
+          !adapter.createSnapshot ||
+          !adapter.listSnapshots ||
+          !adapter.restoreSnapshot
+        ) {
+          return;
+        }
+
+        await adapter.put(makeVector('snap-1', [1, 2], { step: 1 }));
+        await adapter.put(makeVector('snap-2', [3, 4]));
+        const info = await adapter.createSnapshot('before', new Uint8Array([7, 8, 9]));
+        expect(info).toMatchObject({ label: 'before', vectorCount: 2 });
+
+        await adapter.updateMetadata('snap-1', { step: 2 });
+        await adapter.delete('snap-2');
+        await adapter.put(makeVector('snap-3', [5, 6]));
+
+        const attachment = await adapter.restoreSnapshot('before');
+        expect(Array.from(attachment)).toEqual([7, 8, 9]);
+        expect(await adapter.count()).toBe(2);
+        expect(await adapter.exists('snap-3')).toBe(false);
+        const restored = await adapter.get('snap-1');
+        expect(restored.metadata).toEqual({ step: 1 });
+        expect(restored.version).toBe(1);
+        expect(Array.from(restored.vector)).toEqual([1, 2]);
+        const listed = await adapter.listSnapshots();
+        expect(listed.map(({ label }) => label)).toEqual(['before']);
+      });
+
+      it('rejects taken labels and unknown snapshots', async () => {
+        if (
+          !adapter.createSnapshot ||
+          !adapter.restoreSnapshot ||
+          !adapter.deleteSnapshot ||
+          !adapter.listSnapshots
+        ) {
+          return;
+        }
+
+        await adapter.put(makeVector('snap-a', [1]));
+        await adapter.createSnapshot('taken', new Uint8Array());
+
+        const duplicate = adapter.createSnapshot('taken', new Uint8Array());
+        const duplicateError = await duplicate.catch((caught: unknown) => caught);
+        expect(duplicateError).toBeInstanceOf(SnapshotExistsError);
+        const missing = adapter.restoreSnapshot('missing');
+        const missingError = await missing.catch((caught: unknown) => caught);
+        expect(missingError).toBeInstanceOf(SnapshotNotFoundError);
+
+        expect(await adapter.deleteSnapshot('taken')).toBe(true);
+        expect(await adapter.deleteSnapshot('taken')).toBe(false);
+        expect(await adapter.listSnapshots()).toEqual([]);
+        expect(await adapter.exists('snap-a')).toBe(true);
+      });
+    });
+
+    // ── versions and conditional writes ───────────────────────────────
+
+    describe('versions', () => {
+      it('advances the version on every write', async () => {
+        await adapter.put(makeVector('ver-1', [1]));
+        const created = await adapter.get('ver-1');
+        expect(created.version).toBe(1);
+
+        await adapter.put(makeVector('ver-1', [2]));
+        await adapter.updateVector('ver-1', new Float32Array([3]));
+        await adapter.updateMetadata('ver-1', { step: 4 });
+        const updated = await adapter.get('ver-1');
+        expect(updated.version).toBe(4);
+
+        await adapter.putBatch([makeVector('ver-1', [5]), makeVector('ver-2', [1])]);
+        await adapter.updateBatch([{ id: 'ver-2', metadata: { step: 2 } }]);
+        const [first, second] = await Promise.all([
+          adapter.get('ver-1'),
+          adapter.get('ver-2'),
+        ]);
+        expect(first.version).toBe(5);
+        expect(second.version).toBe(2);
+      });
+
+      it('ignores the version on the vector passed to put', async () => {
+        await adapter.put({ ...makeVector('ver-given', [1]), version: 42 });
+        const stored = await adapter.get('ver-given');
+        expect(stored.version).toBe(1);
+      });
+
+      it('rejects ifAbsent puts when the id is stored', async () => {
+        await adapter.put(makeVector('ver-absent', [1]), { ifAbsent: true });
+
+        const attempt = adapter.put(makeVector('ver-absent', [2]), { ifAbsent: true });
+        const error = await attempt.catch((caught: unknown) => caught);
+        expect(error).toBeInstanceOf(VersionConflictError);
+        const stored = await adapter.get('ver-absent');
+        expect(Array.from(stored.vector)).toEqual([1]);
+      });
+
+      it('writes only when ifVersion matches the stored version', async () => {
+        await adapter.put(makeVector('ver-match', [1]));
+        await adapter.put(makeVector('ver-match', [2]), { ifVersion: 1 });
+
+        const stale = adapter.put(makeVector('ver-match', [3]), { ifVersion: 1 });
+        const staleError = await stale.catch((caught: unknown) => caught);
+        expect(staleError).toBeInstanceOf(VersionConflictError);
+        expect((staleError as VersionConflictError).actualVersion).toBe(2);
+
+        const missing = adapter.put(makeVector('ver-none', [1]), { ifVersion: 1 });
+        const missingError = await missing.catch((caught: unknown) => caught);
+        expect(missingError).toBeInstanceOf(VersionConflictError);
+        expect(await adapter.exists('ver-none')).toBe(false);
+
+        const stored = await adapter.get('ver-match');
+        expect(Array.from(stored.vector)).toEqual([2]);
+        expect(stored.version).toBe(2);
+      });
+
+      it('checks ifVersion on partial updates', async () => {
+        await adapter.put(makeVector('ver-update', [1], { step: 1 }));
+        await adapter.updateMetadata('ver-update', { step: 2 }, { ifVersion: 1 });
+
+        const stale = adapter.updateVector('ver-update', new Float32Array([9]), {
+          ifVersion: 1,
+        });
+        const error = await stale.catch((caught: unknown) => caught);
+        expect(error).toBeInstanceOf(VersionConflictError);
+
+        await adapter.updateVector('ver-update', new Float32Array([3]), { ifVersion: 2 });
+        const stored = await adapter.get('ver-update');
+        expect(Array.from(stored.vector)).toEqual([3]);
+        expect(stored.metadata).toEqual({ step: 2 });
+        expect(stored.version).toBe(3);
+      });
+    });
+
     // ── count ─────────────────────────────────────────────────────────
 
     describe('count', () => {
@@ -602,5 +769,60 @@ export function runStorageAdapterTests(
         }
       });
     });
+
+    // ── documents ─────────────────────────────────────────────────────
+
+    describe('documents', () => {
+      it('stores, replaces and deletes JSON documents', async () => {
+        expect(await adapter.getDocument('settings', 'theme')).toBeNull();
+
+        await adapter.putDocument('settings', 'theme', { mode: 'dark', sizes: [1, 2] });
+        expect(await adapter.getDocument<object>('settings', 'theme')).toEqual({
+          mode: 'dark',
+          sizes: [1, 2],
+        });
+
+        await adapter.putDocument('settings', 'theme', 'light');
+        expect(await adapter.getDocument<string>('settings', 'theme')).toBe('light');
+
+        expect(await adapter.deleteDocument('settings', 'theme')).toBe(true);
+        expect(await adapter.deleteDocument('settings', 'theme')).toBe(false);
+        expect(await adapter.getDocument('settings', 'theme')).toBeNull();
+      });
+
+      it('lists one collection ordered by key', async () => {
+        await adapter.putDocument('people', 'b/2', { name: 'Bo' });
+        await adapter.putDocument('people', 'a:1', { name: 'Al' });
+        await adapter.putDocument('pets', 'c', { name: 'Cy' });
+
+        expect(await adapter.listDocuments('people')).toEqual([
+          { key: 'a:1', document: { name: 'Al' } },
+          { key: 'b/2', document: { name: 'Bo' } },
+        ]);
+        expect(await adapter.listDocuments('empty')).toEqual([]);
+      });
+
+      it('keeps documents apart from vectors and across clear()', async () => {
+        await adapter.put(makeVector('doc-v1', [1, 2]));
+        await adapter.putDocument('settings', 'doc-v1', { kept: true });
+
+        await adapter.clear();
+
+        expect(await adapter.count()).toBe(0);
+        expect(await adapter.getDocument<object>('settings', 'doc-v1')).toEqual({
+          kept: true,
+        });
+      });
+
+      it('rejects invalid collection names and keys', async () => {
+        expect(adapter.putDocument('bad name', 'key', {})).rejects.toThrow(
+          'Document collection must contain only letters',
+        );
+        expect(adapter.listDocuments('')).rejects.toThrow('between 1 and 64');
+        expect(adapter.getDocument('settings', '')).rejects.toThrow(
+          'Document key must be a non-empty string',
+        );
+      });
+    });
   });
 }
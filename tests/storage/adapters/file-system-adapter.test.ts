@@ -1,6 +1,10 @@
-import { mkdtemp, rm } from 'node:fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
+
+import type { VectorData } from '@/core/types.js';
+import { type CorruptionRecoveryEvent, observability } from '@/debug/observability.js';
 import { FileSystemStorageAdapter } from '@/storage/adapters/file-system-adapter.js';
 import { runStorageAdapterTests } from './adapter-test-suite.js';
 
@@ -17,3 +21,100 @@ runStorageAdapterTests(
     await rm(tempDirectory, { recursive: true, force: true });
   },
 );
+
+function vectors(count: number): VectorData[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `doc-${i}`,
+    vector: new Float32Array([i, 1, 0]),
+    magnitude: Math.hypot(i, 1),
+    timestamp: 1,
+    metadata: { batch: true },
+  }));
+}
+
+describe('FileSystemStorageAdapter write-ahead log', () => {
+  let directory: string;
+  let events: CorruptionRecoveryEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'vf-fs-wal-'));
+    events = [];
+    unsubscribe = observability.on('corruption_recovery', (event) => events.push(event));
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('replays a committed batch whose files were cut short', async () => {
+    // The first adapter "crashes": it is never closed, so the log is kept
+    const crashed = new FileSystemStorageAdapter({ directory });
+    await crashed.init();
+    await crashed.putBatch(vectors(3));
+    await rm(join(directory, 'vectors', 'doc-1.json'));
+    await writeFile(join(directory, 'vectors', 'doc-2.json'), '{"id":"doc-');
+
+    const adapter = new FileSystemStorageAdapter({ directory });
+    await adapter.init();
+
+    const stored = await adapter.getAll();
+    expect(stored.map(({ id }) => id).sort()).toEqual(['doc-0', 'doc-1', 'doc-2']);
+    expect(stored.every(({ version }) => version === 1)).toBe(true);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      source: directory,
+      recovered: true,
+      affectedCount: 3,
+    });
+    expect(await readFile(join(directory, 'wal.log'), 'utf8').catch(() => '')).toBe('');
+  });
+
+  it('drops a batch that never got its commit marker', async () => {
+    const crashed = new FileSystemStorageAdapter({ directory });
+    await crashed.init();
+    await crashed.putBatch(vectors(2));
+    // Cut the log back to the batch entry, before its marker was appended
+    const log = await readFile(join(directory, 'wal.log'), 'utf8');
+    await writeFile(join(directory, 'wal.log'), `${log.split('\n')[0]}\n`);
+    await rm(join(directory, 'vectors'), { recursive: true });
+
+    const adapter = new FileSystemStorageAdapter({ directory });
+    await adapter.init();
+
+    expect(await adapter.count()).toBe(0);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ affectedCount: 2 });
+    expect(events[0]?.description).toContain('Discarded');
+  });
+
+  it('does not replay batches over later writes', async () => {
+    const crashed = new FileSystemStorageAdapter({ directory });
+    await crashed.init();
+    await crashed.putBatch(vectors(2));
+    await crashed.delete('doc-0');
+
+    const adapter = new FileSystemStorageAdapter({ directory });
+    await adapter.init();
+
+    expect(await adapter.exists('doc-0')).toBe(false);
+    expect(events).toHaveLength(0);
+  });
+
+  it('checkpoints the log past the size threshold and on close', async () => {
+    const small = new FileSystemStorageAdapter({ directory, checkpointBytes: 1 });
+    await small.init();
+    await small.putBatch(vectors(2));
+    expect(await readFile(join(directory, 'wal.log'), 'utf8').catch(() => '')).toBe('');
+
+    const adapter = new FileSystemStorageAdapter({ directory });
+    await adapter.init();
+    await adapter.putBatch(vectors(2), { batchSize: 1 });
+    const log = await readFile(join(directory, 'wal.log'), 'utf8');
+    expect(log.trim().split('\n')).toHaveLength(4);
+
+    await adapter.close();
+    expect(await readFile(join(directory, 'wal.log'), 'utf8').catch(() => '')).toBe('');
+  });
+});
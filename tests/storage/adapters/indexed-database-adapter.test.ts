@@ -41,6 +41,33 @@ describe('IndexedDatabaseStorageAdapter-specific', () => {
     expect(() => adapter.getDatabase()).toThrow('not initialized');
   });
 
+  it('lists one document collection by its key range', async () => {
+    const adapter = new IndexedDatabaseStorageAdapter({
+      name: `test-idb-documents-${counter++}`,
+    });
+    await adapter.init();
+    await adapter.putDocument('ns', 'a', { n: 1 });
+    await adapter.putDocument('ns-b', 'a', { n: 2 });
+    await adapter.putDocument('nsb', 'a', { n: 3 });
+
+    const bound = IDBKeyRange.bound;
+    const ranges: unknown[][] = [];
+    IDBKeyRange.bound = (...args: Parameters<typeof bound>) => {
+      ranges.push(args);
+      return bound(...args);
+    };
+    try {
+      expect(await adapter.listDocuments('ns')).toEqual([
+        { key: 'a', document: { n: 1 } },
+      ]);
+    } finally {
+      IDBKeyRange.bound = bound;
+    }
+    expect(ranges).toEqual([['document:ns:', 'document:ns:\uffff']]);
+
+    await adapter.destroy();
+  });
+
   it('accepts an explicit version number', async () => {
     const adapter = new IndexedDatabaseStorageAdapter({
       name: `test-idb-version-${counter++}`,
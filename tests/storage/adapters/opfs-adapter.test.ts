@@ -0,0 +1,241 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  spyOn,
+} from 'bun:test';
+
+import type { VectorData } from '@/core/types.js';
+import { type CorruptionRecoveryEvent, observability } from '@/debug/observability.js';
+import { OPFSStorageAdapter } from '@/storage/adapters/opfs-adapter.js';
+import { vectorDataToJson } from '@/storage/adapters/serialization.js';
+import {
+  cleanupOPFSMocks,
+  type MockDirectoryHandle,
+  type MockFileHandle,
+  setupOPFSMocks,
+} from '../../mocks/opfs-mock.js';
+import { runStorageAdapterTests } from './adapter-test-suite.js';
+
+let counter = 0;
+
+beforeAll(() => {
+  setupOPFSMocks();
+});
+
+afterAll(() => {
+  cleanupOPFSMocks();
+});
+
+runStorageAdapterTests(
+  'OPFSStorageAdapter',
+  () => new OPFSStorageAdapter({ directory: `test-opfs-${counter++}` }),
+);
+
+function makeVector(id: string, values: number[], revision = 1): VectorData {
+  return {
+    id,
+    vector: new Float32Array(values),
+    magnitude: Math.hypot(...values),
+    timestamp: 1,
+    metadata: { revision },
+  };
+}
+
+async function directoryHandle(...path: string[]): Promise<MockDirectoryHandle> {
+  let directory =
+    (await navigator.storage.getDirectory()) as unknown as MockDirectoryHandle;
+  for (const name of path) {
+    directory = await directory.getDirectoryHandle(name);
+  }
+  return directory;
+}
+
+function segmentFiles(directory: MockDirectoryHandle): MockFileHandle[] {
+  return [...directory.entries.values()].filter(
+    (entry): entry is MockFileHandle =>
+      entry.kind === 'file' && entry.name.endsWith('.seg'),
+  );
+}
+
+describe('OPFSStorageAdapter segments', () => {
+  let directory: string;
+  let events: CorruptionRecoveryEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    directory = `test-opfs-segments-${counter++}`;
+    events = [];
+    unsubscribe = observability.on('corruption_recovery', (event) => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it('keeps records in segment files and reopens from the saved index', async () => {
+    const adapter = new OPFSStorageAdapter({ directory });
+    await adapter.init();
+    await adapter.putBatch([makeVector('a', [1, 0]), makeVector('b', [0, 1])]);
+    await adapter.delete('b');
+    await adapter.close();
+
+    const segments = await directoryHandle(directory, 'segments');
+    expect([...segments.entries.keys()].sort()).toEqual(['000001.seg', 'index.json']);
+
+    const reopened = new OPFSStorageAdapter({ directory });
+    await reopened.init();
+    expect(await reopened.count()).toBe(1);
+    const stored = await reopened.get('a');
+    expect(Array.from(stored.vector)).toEqual([1, 0]);
+    expect(events).toHaveLength(0);
+    await reopened.destroy();
+  });
+
+  it('replays writes made after the index was saved', async () => {
+    // Never closed, so the index is never written
+    const crashed = new OPFSStorageAdapter({ directory });
+    await crashed.init();
+    await crashed.put(makeVector('a', [1, 0]));
+    await crashed.putBatch([makeVector('b', [0, 1]), makeVector('a', [1, 1], 2)]);
+
+    const adapter = new OPFSStorageAdapter({ directory });
+    await adapter.init();
+    const stored = await adapter.get('a');
+    expect(stored.metadata).toEqual({ revision: 2 });
+    expect(stored.version).toBe(2);
+    expect(await adapter.count()).toBe(2);
+    await adapter.destroy();
+  });
+
+  it('truncates a batch cut short by a crash', async () => {
+    const crashed = new OPFSStorageAdapter({ directory });
+    await crashed.init();
+    await crashed.put(makeVector('kept', [1, 0]));
+    await crashed.putBatch([makeVector('b', [0, 1]), makeVector('c', [1, 1])]);
+    const [segment] = segmentFiles(await directoryHandle(directory, 'segments'));
+    segment!.data = segment!.data.slice(0, segment!.data.byteLength - 5);
+
+    const adapter = new OPFSStorageAdapter({ directory });
+    await adapter.init();
+
+    const stored = await adapter.getAll();
+    expect(stored.map(({ id }) => id)).toEqual(['kept']);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ source: directory, recovered: true });
+    expect(events[0]?.description).toContain('000001.seg');
+    await adapter.destroy();
+  });
+
+  it('rolls over to new segments and compacts the mostly dead ones', async () => {
+    const adapter = new OPFSStorageAdapter({ directory, segmentBytes: 1024 });
+    await adapter.init();
+    for (let revision = 1; revision <= 5; revision++) {
+      for (let i = 0; i < 10; i++) {
+        await adapter.put(makeVector(`doc-${i}`, [i, revision], revision));
+      }
+    }
+    // close() waits for the compaction the writes started in the background
+    await adapter.close();
+
+    const segments = await directoryHandle(directory, 'segments');
+    const size = segmentFiles(segments).reduce(
+      (sum, file) => sum + file.data.byteLength,
+      0,
+    );
+    expect(size).toBeLessThan(4 * 1024);
+
+    const reopened = new OPFSStorageAdapter({ directory, segmentBytes: 1024 });
+    await reopened.init();
+    const stored = await reopened.getAll();
+    expect(stored).toHaveLength(10);
+    expect(stored.every(({ metadata }) => metadata?.['revision'] === 5)).toBe(true);
+    expect(await reopened.compact()).toBe(0);
+    expect(events).toHaveLength(0);
+    await reopened.destroy();
+  });
+
+  it('flushes writes queued together in one writable session', async () => {
+    const adapter = new OPFSStorageAdapter({ directory });
+    await adapter.init();
+    const [segment] = segmentFiles(await directoryHandle(directory, 'segments'));
+    const createWritable = spyOn(segment!, 'createWritable');
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => adapter.put(makeVector(`v${i}`, [i, 1]))),
+    );
+    expect(createWritable).toHaveBeenCalledTimes(1);
+
+    // Resolved writes are on disk even though the index was never saved
+    const reopened = new OPFSStorageAdapter({ directory });
+    await reopened.init();
+    expect(await reopened.count()).toBe(10);
+    const stored = await reopened.get('v7');
+    expect(Array.from(stored.vector)).toEqual([7, 1]);
+    await reopened.destroy();
+  });
+
+  it('reports the bytes used by its segments against the origin quota', async () => {
+    const adapter = new OPFSStorageAdapter({ directory });
+    await adapter.init();
+    await adapter.put(makeVector('a', [1, 0]));
+
+    const estimate = await adapter.estimateStorage();
+    const segments = await directoryHandle(directory, 'segments');
+    const [segment] = segmentFiles(segments);
+    expect(estimate.usage).toBeGreaterThanOrEqual(segment!.data.byteLength);
+    expect(estimate.quota).toBe(1024 * 1024 * 1024);
+    expect(estimate.databases).toEqual([{ name: directory, size: estimate.usage }]);
+    await adapter.destroy();
+  });
+
+  it('converts the one-file-per-vector layout of earlier releases', async () => {
+    const root = await directoryHandle();
+    const legacy = await root.getDirectoryHandle(directory, { create: true });
+    const vectors = await legacy.getDirectoryHandle('vectors', { create: true });
+    const file = await vectors.getFileHandle('a.vec', { create: true });
+    file.data = new TextEncoder().encode(vectorDataToJson(makeVector('a', [1, 0])));
+    const corrupt = await vectors.getFileHandle('b.vec', { create: true });
+    corrupt.data = new TextEncoder().encode('{"id":');
+
+    const adapter = new OPFSStorageAdapter({ directory });
+    await adapter.init();
+
+    expect(await adapter.count()).toBe(1);
+    expect(await adapter.exists('a')).toBe(true);
+    expect(legacy.entries.has('vectors')).toBe(false);
+    await adapter.destroy();
+  });
+});
+
+describe('OPFSStorageAdapter in a worker', () => {
+  beforeAll(() => {
+    setupOPFSMocks({ syncAccessHandles: true });
+  });
+
+  afterAll(() => {
+    setupOPFSMocks();
+  });
+
+  it('holds sync access handles on its segments until closed', async () => {
+    const directory = `test-opfs-sync-${counter++}`;
+    const adapter = new OPFSStorageAdapter({ directory, format: 'binary' });
+    await adapter.init();
+    await adapter.putBatch([makeVector('a', [1, 0]), makeVector('b', [0, 1])]);
+
+    const [segment] = segmentFiles(await directoryHandle(directory, 'segments'));
+    expect(segment?.locked).toBe(true);
+    await adapter.close();
+    expect(segment?.locked).toBe(false);
+
+    const reopened = new OPFSStorageAdapter({ directory, format: 'binary' });
+    await reopened.init();
+    const stored = await reopened.get('b');
+    expect(Array.from(stored.vector)).toEqual([0, 1]);
+    await reopened.destroy();
+  });
+});
@@ -1,4 +1,7 @@
-import { afterAll, describe, expect, it } from 'bun:test';
+import { afterAll, beforeEach, describe, expect, it } from 'bun:test';
+import { VectorDB } from '@/api/database.js';
+import type { MetadataFilter } from '@/core/types.js';
+import { vectorDataToJson } from '@/storage/adapters/serialization.js';
 import { runStorageAdapterTests } from './adapter-test-suite.js';
 
 // ---------------------------------------------------------------------------
@@ -15,64 +18,178 @@ const integrationSkip = process.env['REDIS_INTEGRATION_SKIP'] === 'true';
 const integrationMode = Boolean(integrationUrl);
 
 // ---------------------------------------------------------------------------
-// Mock Bun.RedisClient — Map-based in-memory implementation
-// (used only when not in integration mode)
+// Stand-in Redis server — in-memory strings, hashes and sets behind Bun's
+// RedisClient API, plus just enough of RediSearch (FT.CREATE/INFO/SEARCH) to
+// check the command shapes the adapter sends. Like the real client, hash
+// replies come back as text. (used only when not in integration mode)
 // ---------------------------------------------------------------------------
 
+type HashValue = string | Uint8Array;
+
 const store = new Map<string, string>();
+const hashes = new Map<string, Map<string, HashValue>>();
 const sets = new Map<string, Set<string>>();
+const searchIndexes = new Map<string, string[]>();
+/** Every command received, in order, with binary arguments as Uint8Array */
+const commands: Array<[string, ...HashValue[]]> = [];
+const server = { searchModule: true };
+
+function resetServer() {
+  store.clear();
+  hashes.clear();
+  sets.clear();
+  searchIndexes.clear();
+  commands.length = 0;
+  server.searchModule = true;
+}
 
-class MockRedisClient {
-  async get(key: string) {
-    return store.get(key) ?? null;
-  }
+function text(value: HashValue): string {
+  return typeof value === 'string' ? value : new TextDecoder().decode(value);
+}
 
-  async set(key: string, value: string) {
-    store.set(key, value);
+function hashOf(key: string, create = false): Map<string, HashValue> | undefined {
+  let hash = hashes.get(key);
+  if (!hash && create) {
+    hash = new Map();
+    hashes.set(key, hash);
   }
+  return hash;
+}
 
-  async del(...keys: string[]) {
-    let count = 0;
-    for (const key of keys) {
-      const inStore = store.delete(key);
-      const inSets = sets.delete(key);
-      if (inStore || inSets) count++;
-    }
-    return count;
-  }
+/** FT.SEARCH over the hashes under the index prefix: conjunctions of TAG clauses only */
+function ftSearch(args: HashValue[]) {
+  const [name, query] = [text(args[0]!), text(args[1]!)];
+  const schema = searchIndexes.get(name);
+  if (!schema) throw new Error(`${name}: no such index`);
+  const prefix = schema[schema.indexOf('PREFIX') + 2]!;
+  const match = /^(.*)=>\[KNN (\d+) @embedding \$vec AS __distance\]$/.exec(query)!;
+  const tags = [...match[1]!.matchAll(/@(\w+):\{([^}]*)\}/g)];
+  const blob = args[args.indexOf('vec') + 1] as Uint8Array;
+  const query32 = new Float32Array(blob.slice().buffer);
+
+  const results = [...hashes.entries()]
+    .filter(([key, hash]) => key.startsWith(prefix) && hash.has('embedding'))
+    .filter(([, hash]) =>
+      tags.every(([, field, value]) => hash.get(field!) === value!.replaceAll('\\', '')),
+    )
+    .map(([key, hash]) => {
+      const bytes = (hash.get('embedding') as Uint8Array).slice();
+      const vector = new Float32Array(bytes.buffer);
+      let dot = 0;
+      let a = 0;
+      let b = 0;
+      vector.forEach((value, i) => {
+        dot += value * query32[i]!;
+        a += value * value;
+        b += query32[i]! * query32[i]!;
+      });
+      return { key, hash, distance: 1 - dot / Math.sqrt(a * b) };
+    })
+    .sort((x, y) => x.distance - y.distance)
+    .slice(0, Number(match[2]));
+
+  return {
+    total_results: results.length,
+    results: results.map(({ key, hash, distance }) => ({
+      id: key,
+      extra_attributes: {
+        __distance: String(distance),
+        record: text(hash.get('record')!),
+      },
+    })),
+  };
+}
 
-  async exists(...keys: string[]) {
-    let count = 0;
-    for (const key of keys) {
-      if (store.has(key)) count++;
+class MockRedisClient {
+  async send(command: string, args: HashValue[]): Promise<unknown> {
+    commands.push([command, ...args]);
+    const [first, ...rest] = args;
+    const key = first === undefined ? '' : text(first);
+    switch (command) {
+      case 'GET':
+        return store.get(key) ?? null;
+      case 'SET':
+        store.set(key, text(rest[0]!));
+        return 'OK';
+      case 'TYPE':
+        if (store.has(key)) return 'string';
+        if (hashes.has(key)) return 'hash';
+        return sets.has(key) ? 'set' : 'none';
+      case 'EXISTS':
+        return args.filter((k) => store.has(text(k)) || hashes.has(text(k))).length;
+      case 'DEL': {
+        let count = 0;
+        for (const k of args.map(text)) {
+          const removed = [store.delete(k), hashes.delete(k), sets.delete(k)];
+          if (removed.includes(true)) count++;
+        }
+        return count;
+      }
+      case 'HSET': {
+        const hash = hashOf(key, true)!;
+        for (let i = 0; i + 1 < rest.length; i += 2) {
+          hash.set(text(rest[i]!), rest[i + 1]!);
+        }
+        return rest.length / 2;
+      }
+      case 'HKEYS':
+        return [...(hashOf(key)?.keys() ?? [])];
+      case 'HDEL': {
+        const hash = hashOf(key);
+        const removed = rest.filter((field) => hash?.delete(text(field))).length;
+        if (hash?.size === 0) hashes.delete(key);
+        return removed;
+      }
+      case 'SADD': {
+        if (!sets.has(key)) sets.set(key, new Set());
+        const set = sets.get(key)!;
+        const before = set.size;
+        for (const member of rest) set.add(text(member));
+        return set.size - before;
+      }
+      case 'SREM': {
+        const set = sets.get(key);
+        return rest.filter((member) => set?.delete(text(member))).length;
+      }
+      default:
+        break;
     }
-    return count;
-  }
 
-  async mget(...keys: string[]) {
-    return keys.map((k) => store.get(k) ?? null);
+    if (!server.searchModule) {
+      throw new Error(`ERR unknown command '${command}'`);
+    }
+    switch (command) {
+      case 'FT.INFO':
+        if (!searchIndexes.has(key)) throw new Error('Unknown index name');
+        return {};
+      case 'FT.CREATE':
+        searchIndexes.set(key, rest.map(text));
+        return 'OK';
+      case 'FT.DROPINDEX':
+        searchIndexes.delete(key);
+        return 'OK';
+      case 'FT.SEARCH':
+        return ftSearch(args);
+      default:
+        throw new Error(`ERR unknown command '${command}'`);
+    }
   }
 
-  async sadd(key: string, ...members: string[]) {
-    if (!sets.has(key)) sets.set(key, new Set());
-    let added = 0;
-    for (const m of members) {
-      if (!sets.get(key)!.has(m)) {
-        sets.get(key)!.add(m);
-        added++;
-      }
-    }
-    return added;
+  async hmget(key: string, fields: string[]) {
+    commands.push(['HMGET', key, ...fields]);
+    const hash = hashOf(key);
+    return fields.map((field) => {
+      const value = hash?.get(field);
+      return value === undefined ? null : text(value);
+    });
   }
 
-  async srem(key: string, ...members: string[]) {
-    const set = sets.get(key);
-    if (!set) return 0;
-    let removed = 0;
-    for (const m of members) {
-      if (set.delete(m)) removed++;
-    }
-    return removed;
+  async hincrby(key: string, field: string, increment: number) {
+    commands.push(['HINCRBY', key, field, String(increment)]);
+    const hash = hashOf(key, true)!;
+    const value = Number(text(hash.get(field) ?? '0')) + increment;
+    hash.set(field, String(value));
+    return value;
   }
 
   async scard(key: string) {
@@ -122,8 +239,7 @@ const { RedisStorageAdapter } = await import('@/storage/adapters/redis-adapter.j
 if (!integrationMode) {
   // Mock mode: shared suite uses the in-process mock.
   runStorageAdapterTests('RedisStorageAdapter', async () => {
-    store.clear();
-    sets.clear();
+    resetServer();
     return new RedisStorageAdapter({ prefix: 'test' });
   });
 } else if (!integrationSkip) {
@@ -137,6 +253,226 @@ if (!integrationMode) {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Command shapes against the stand-in server
+// ---------------------------------------------------------------------------
+
+function makeVector(id: string, values: number[], metadata?: Record<string, unknown>) {
+  return {
+    id,
+    vector: new Float32Array(values),
+    magnitude: Math.hypot(...values),
+    timestamp: 1,
+    ...(metadata && { metadata }),
+  };
+}
+
+function sent(command: string) {
+  return commands.filter(([name]) => name === command);
+}
+
+describe.skipIf(integrationMode)('RedisStorageAdapter commands', () => {
+  beforeEach(() => {
+    resetServer();
+  });
+
+  it('stores hashes with a base64 FLOAT32 vector and tracks access with HINCRBY', async () => {
+    const adapter = new RedisStorageAdapter({ prefix: 'cmd' });
+    await adapter.init();
+    await adapter.put(makeVector('a', [1, -2.5], { tag: 'x' }));
+
+    const hash = hashes.get('cmd:v:a')!;
+    const bytes = Buffer.from(hash.get('vector') as string, 'base64');
+    expect(Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, 2))).toEqual([
+      1, -2.5,
+    ]);
+    expect(JSON.parse(hash.get('record') as string)).toMatchObject({
+      id: 'a',
+      metadata: { tag: 'x' },
+    });
+    expect(hash.get('version')).toBe('1');
+
+    commands.length = 0;
+    const stored = await adapter.get('a');
+    expect(stored.accessCount).toBe(1);
+    expect(sent('HINCRBY')).toEqual([['HINCRBY', 'cmd:v:a', 'accessCount', '1']]);
+    expect(sent('HSET')).toEqual([
+      ['HSET', 'cmd:v:a', 'lastAccessed', expect.any(String)],
+    ]);
+    await adapter.close();
+  });
+
+  it('reads a batch with one HMGET per record and no per-record writes', async () => {
+    const adapter = new RedisStorageAdapter({ prefix: 'cmd' });
+    await adapter.init();
+    await adapter.putBatch([
+      makeVector('a', [1, 0]),
+      makeVector('b', [0, 1]),
+      makeVector('a', [1, 1]),
+    ]);
+    const stored = await adapter.get('a');
+    expect(stored.version).toBe(2);
+
+    commands.length = 0;
+    const all = await adapter.getAll();
+    expect(all.map(({ id }) => id).sort()).toEqual(['a', 'b']);
+    expect(commands.map(([name]) => name).sort()).toEqual(['HMGET', 'HMGET']);
+    await adapter.close();
+  });
+
+  it('converts the JSON string records of earlier releases on init', async () => {
+    store.set(
+      'cmd:v:old',
+      vectorDataToJson({ ...makeVector('old', [3, 4]), version: 4 }),
+    );
+    sets.set('cmd:ids', new Set(['old']));
+
+    const adapter = new RedisStorageAdapter({ prefix: 'cmd' });
+    await adapter.init();
+
+    expect(store.has('cmd:v:old')).toBe(false);
+    const stored = await adapter.get('old');
+    expect(Array.from(stored.vector)).toEqual([3, 4]);
+    expect(stored.version).toBe(4);
+    await adapter.close();
+  });
+
+  it('creates a RediSearch index and answers k-NN searches with FT.SEARCH', async () => {
+    const adapter = new RedisStorageAdapter({
+      prefix: 'cmd',
+      search: {
+        dimension: 2,
+        fields: [{ field: 'color' }, { field: 'size', kind: 'range' }],
+      },
+    });
+    await adapter.init();
+    expect(searchIndexes.get('cmd:idx')).toEqual([
+      'ON',
+      'HASH',
+      'PREFIX',
+      '1',
+      'cmd:v:',
+      'SCHEMA',
+      'embedding',
+      'VECTOR',
+      'FLAT',
+      '6',
+      'TYPE',
+      'FLOAT32',
+      'DIM',
+      '2',
+      'DISTANCE_METRIC',
+      'COSINE',
+      'meta_color',
+      'TAG',
+      'SEPARATOR',
+      ',',
+      'CASESENSITIVE',
+      'meta_size',
+      'NUMERIC',
+    ]);
+
+    const db = new VectorDB('redis-search', 2, { storage: adapter });
+    await db.init();
+    await db.addBatch([
+      {
+        id: 'red-1',
+        vector: new Float32Array([1, 0]),
+        metadata: { color: 'red', size: 1 },
+      },
+      {
+        id: 'red-2',
+        vector: new Float32Array([0, 1]),
+        metadata: { color: 'red', size: 5 },
+      },
+      { id: 'blue', vector: new Float32Array([1, 0.1]), metadata: { color: 'blue' } },
+    ]);
+    expect(hashes.get('cmd:v:red-2')!.get('embedding')).toBeInstanceOf(Uint8Array);
+    expect(hashes.get('cmd:v:blue')!.has('meta_size')).toBe(false);
+
+    commands.length = 0;
+    const results = await db.search(new Float32Array([1, 0]), 2, {
+      filter: { color: 'red' },
+      includeMetadata: true,
+    });
+    expect(results.map(({ id }) => id)).toEqual(['red-1', 'red-2']);
+    expect(results[0]?.metadata).toEqual({ color: 'red', size: 1 });
+    expect(results[1]?.distance).toBeCloseTo(1);
+
+    const [search] = sent('FT.SEARCH');
+    expect(search?.slice(1, 3)).toEqual([
+      'cmd:idx',
+      '(@meta_color:{red})=>[KNN 2 @embedding $vec AS __distance]',
+    ]);
+    expect(sent('HMGET')).toHaveLength(0);
+
+    await db.close();
+  });
+
+  it('translates filters exactly or not at all', async () => {
+    const adapter = new RedisStorageAdapter({
+      prefix: 'cmd',
+      search: {
+        dimension: 2,
+        fields: [
+          { field: 'color' },
+          { field: 'size', kind: 'range' },
+          { field: 'tags', kind: 'multiEntry' },
+        ],
+      },
+    });
+    await adapter.init();
+    const query = async (filter: MetadataFilter) => {
+      commands.length = 0;
+      const hits = await adapter.searchNearest({
+        vector: new Float32Array([1, 0]),
+        k: 3,
+        metric: 'cosine',
+        filter,
+      });
+      const [search] = sent('FT.SEARCH');
+      return hits && String(search?.[2]).replace(/=>.*$/, '');
+    };
+
+    expect(
+      await query({
+        $or: [{ color: { $in: ['dark red', 'blue'] } }, { size: { $gt: 2, $lte: 9 } }],
+        $not: { tags: { $all: ['a', 'b'] } },
+      }),
+    ).toBe(
+      '(((@meta_color:{dark\\ red | blue}) | (@meta_size:[(2 +inf] @meta_size:[-inf 9])) -(@meta_tags:{a} @meta_tags:{b}))',
+    );
+    expect(await query({ color: { $regex: '^r' } })).toBeNull();
+    expect(await query({ unindexed: 'x' })).toBeNull();
+    expect(await query({ size: '5' })).toBeNull();
+    expect(
+      await adapter.searchNearest({
+        vector: new Float32Array([1, 0]),
+        k: 3,
+        metric: 'euclidean',
+      }),
+    ).toBeNull();
+    await adapter.close();
+  });
+
+  it('leaves searches to the engine when the server has no RediSearch module', async () => {
+    server.searchModule = false;
+    const adapter = new RedisStorageAdapter({ prefix: 'cmd', search: { dimension: 2 } });
+    await adapter.init();
+    await adapter.put(makeVector('a', [1, 0]));
+
+    expect(
+      await adapter.searchNearest({
+        vector: new Float32Array([1, 0]),
+        k: 1,
+        metric: 'cosine',
+      }),
+    ).toBeNull();
+    expect(hashes.get('cmd:v:a')!.has('embedding')).toBe(true);
+    await adapter.destroy();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Integration-only scenarios
 // (skipped automatically when no real Redis service is available)
@@ -163,8 +499,6 @@ describe.skipIf(!integrationMode || integrationSkip)(
         prefix: 'cf-test',
       });
 
-      await adapter.init();
-
       const vec = {
         id: 'conn-fail',
         vector: new Float32Array([1, 2, 3]),
@@ -173,7 +507,9 @@ describe.skipIf(!integrationMode || integrationSkip)(
       };
 
       // The adapter must surface a connection error, not hang silently.
+      // init() already talks to the server.
       try {
+        await adapter.init();
         await adapter.put(vec);
         // If we reach here the server happened to be listening — accept it.
       } catch (error) {
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'bun:test';
+
+import { StorageCorruptionError, StorageFormatError } from '@/core/errors.js';
+import type { VectorData } from '@/core/types.js';
+import { ArchiveReader, ArchiveWriter, type ArchiveFormat } from '@/storage/archive.js';
+
+function makeVector(id: string, values: number[], metadata?: Record<string, unknown>) {
+  const vectorData: VectorData = {
+    id,
+    vector: new Float32Array(values),
+    magnitude: Math.hypot(...values),
+    timestamp: 1_700_000_000_000,
+  };
+  if (metadata) {
+    vectorData.metadata = metadata;
+  }
+  return vectorData;
+}
+
+/** A writable stream that collects everything written to it */
+function collector(): { stream: WritableStream<Uint8Array>; bytes: () => Uint8Array } {
+  const chunks: Uint8Array[] = [];
+  const stream = new WritableStream<Uint8Array>({
+    write(chunk) {
+      chunks.push(chunk);
+    },
+  });
+  return {
+    stream,
+    bytes: () => {
+      const total = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+      const bytes = new Uint8Array(total);
+      let offset = 0;
+      for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+      }
+      return bytes;
+    },
+  };
+}
+
+/** A readable stream yielding `bytes` in chunks of `chunkSize` */
+function source(bytes: Uint8Array, chunkSize = 7): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+async function writeArchive(
+  vectors: VectorData[],
+  format: ArchiveFormat = 'archive',
+  snapshot?: ArrayBuffer,
+): Promise<Uint8Array> {
+  const output = collector();
+  const writer = await ArchiveWriter.open(
+    output.stream,
+    { dimension: 3, distanceMetric: 'cosine', exportedAt: 1 },
+    format,
+  );
+  if (snapshot) {
+    await writer.writeIndexSnapshot(snapshot);
+  }
+  for (const vectorData of vectors) {
+    await writer.writeRecord(vectorData);
+  }
+  await writer.close();
+  return output.bytes();
+}
+
+async function readAll(reader: ArchiveReader): Promise<VectorData[]> {
+  const records: VectorData[] = [];
+  for await (const record of reader.records()) {
+    records.push(record);
+  }
+  return records;
+}
+
+const vectors = [
+  makeVector('a', [1, 0, 0], { tag: 'x' }),
+  makeVector('b', [0, 1, 0]),
+  makeVector('c', [0.5, 0.5, 0], { nested: { ok: true } }),
+];
+
+describe('ArchiveWriter / ArchiveReader', () => {
+  it('round-trips the header, index snapshot and records across small chunks', async () => {
+    const snapshot = new Uint8Array([1, 2, 3, 4, 5]).buffer;
+    const bytes = await writeArchive(vectors, 'archive', snapshot);
+
+    const reader = await ArchiveReader.open(source(bytes));
+    expect(reader.format).toBe('archive');
+    expect(reader.header).toMatchObject({
+      formatVersion: 1,
+      dimension: 3,
+      distanceMetric: 'cosine',
+      recordFormat: 'VECF',
+    });
+    expect(Array.from(new Uint8Array(reader.indexSnapshot!))).toEqual([1, 2, 3, 4, 5]);
+
+    const records = await readAll(reader);
+    expect(records.map(({ id }) => id)).toEqual(['a', 'b', 'c']);
+    expect(Array.from(records[2]!.vector)).toEqual([0.5, 0.5, 0]);
+    expect(records[2]?.metadata).toEqual({ nested: { ok: true } });
+  });
+
+  it('spans several record blocks', async () => {
+    const many = Array.from({ length: 600 }, (_, i) => makeVector(`v-${i}`, [i, 1, 0]));
+    const reader = await ArchiveReader.open(source(await writeArchive(many), 4096));
+
+    const records = await readAll(reader);
+    expect(records).toHaveLength(600);
+    expect(records[599]?.id).toBe('v-599');
+  });
+
+  it('detects a truncated archive', async () => {
+    const bytes = await writeArchive(vectors);
+    const reader = await ArchiveReader.open(
+      source(bytes.slice(0, bytes.byteLength - 12)),
+    );
+
+    const error = await readAll(reader).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(StorageCorruptionError);
+  });
+
+  it('detects a damaged record', async () => {
+    const bytes = await writeArchive(vectors);
+    bytes[bytes.byteLength - 40]! ^= 0xff;
+    const reader = await ArchiveReader.open(source(bytes));
+
+    const error = await readAll(reader).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(StorageCorruptionError);
+  });
+
+  it('rejects unsupported archive versions', async () => {
+    const bytes = await writeArchive(vectors);
+    bytes[4] = 99;
+
+    const error = await ArchiveReader.open(source(bytes)).catch(
+      (caught: unknown) => caught,
+    );
+    expect(error).toBeInstanceOf(StorageFormatError);
+  });
+
+  it('round-trips NDJSON, skipping the index snapshot', async () => {
+    const bytes = await writeArchive(vectors, 'ndjson', new ArrayBuffer(4));
+    const text = new TextDecoder().decode(bytes);
+    expect(text.split('\n').filter(Boolean)).toHaveLength(4);
+
+    const reader = await ArchiveReader.open(source(bytes));
+    expect(reader.format).toBe('ndjson');
+    expect(reader.header?.dimension).toBe(3);
+    expect(reader.indexSnapshot).toBeNull();
+    const records = await readAll(reader);
+    expect(records.map(({ id }) => id)).toEqual(['a', 'b', 'c']);
+    expect(records[0]?.metadata).toEqual({ tag: 'x' });
+  });
+
+  it('reads NDJSON without a header line', async () => {
+    const lines = [
+      JSON.stringify({ id: 'p', vector: [3, 4, 0], metadata: { from: 'elsewhere' } }),
+      '',
+      JSON.stringify({ id: 'q', vector: [0, 0, 1] }),
+    ].join('\n');
+
+    const reader = await ArchiveReader.open(source(new TextEncoder().encode(lines)));
+    expect(reader.header).toBeNull();
+    const records = await readAll(reader);
+    expect(records.map(({ id }) => id)).toEqual(['p', 'q']);
+    expect(records[0]?.magnitude).toBe(5);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Arrow IPC fixtures written by pyarrow 26, base64-encoded.
+ *
+ * Regenerate with:
+ *
+ * ```python
+ * schema = pa.schema([
+ *     ('id', pa.string()),
+ *     ('vector', pa.list_(pa.float32(), 3)),
+ *     ('category', pa.string()),
+ *     ('score', pa.float64()),
+ *     ('count', pa.int64()),
+ *     ('tags', pa.list_(pa.string())),
+ *     ('created', pa.timestamp('ms')),
+ *     ('active', pa.bool_()),
+ * ])
+ * # Stream of two record batches:
+ * #   ('a', [1, 0, 0], 'news', 0.5, 7, ['x', 'y'], 2024-01-02T03:04:05, True)
+ * #   ('b', [0, 1, 0], None, 1.5, -2, [], None, False)
+ * # and
+ * #   ('c', [0, 0, 1], 'blog', 2.0, 9, ['z'], 2024-01-02T03:04:05, True)
+ * with ipc.new_stream(sink, schema) as writer: ...
+ *
+ * schema2 = pa.schema([
+ *     ('doc_id', pa.int64()),
+ *     ('embedding', pa.list_(pa.float64())),
+ *     ('kind', pa.dictionary(pa.int8(), pa.string())),
+ * ])
+ * # File of one record batch: (10, [0.5, 0.5, 0], 'p'), (11, [0, 0.25, 1], 'q')
+ * with ipc.new_file(sink, schema2) as writer: ...
+ * ```
+ */
+
+/** Stream with a utf8 id, fixed_size_list<float32, 3> vector and metadata columns */
+export const ARROW_STREAM_BASE64 =
+  '/////ygCAAAQAAAAAAAKAAwABgAFAAgACgAAAAABBAAMAAAACAAIAAAABAAIAAAABAAAAAgAAADQ' +
+  'AQAAVAEAACQBAAD0AAAAuAAAAGAAAAAwAAAABAAAAGD+//8AAAEGEAAAABgAAAAEAAAAAAAAAAYA' +
+  'AABhY3RpdmUAAFT+//+I/v//AAABChAAAAAYAAAABAAAAAAAAAAHAAAAY3JlYXRlZAC6/v//AAAB' +
+  'ALT+//8AAAEMFAAAABwAAAAEAAAAAQAAABQAAAAEAAAAdGFncwAAAACs/v//4P7//wAAAQUQAAAA' +
+  'GAAAAAQAAAAAAAAABAAAAGl0ZW0AAAAA1P7//wj///8AAAECEAAAACAAAAAEAAAAAAAAAAUAAABj' +
+  'b3VudAAAAAgADAAIAAcACAAAAAAAAAFAAAAAQP///wAAAQMQAAAAGAAAAAQAAAAAAAAABQAAAHNj' +
+  'b3JlAAAAcv///wAAAgBs////AAABBRAAAAAcAAAABAAAAAAAAAAIAAAAY2F0ZWdvcnkAAAAAZP//' +
+  '/5j///8AAAEQFAAAACQAAAAEAAAAAQAAACAAAAAGAAAAdmVjdG9yAAAAAAYACAAEAAYAAAADAAAA' +
+  '0P///wAAAQMQAAAAHAAAAAQAAAAAAAAABAAAAGl0ZW0AAAYACAAGAAYAAAAAAAEAEAAUAAgABgAH' +
+  'AAwAAAAQABAAAAAAAAEFEAAAABgAAAAEAAAAAAAAAAIAAABpZAAABAAEAAQAAAD/////WAIAABQA' +
+  'AAAAAAAADAAWAAYABQAIAAwADAAAAAADBAAYAAAAuAAAAAAAAAAAAAoAGAAMAAQACAAKAAAAfAEA' +
+  'ABAAAAACAAAAAAAAAAAAAAAWAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAADAAAAAAAAAAQAAAA' +
+  'AAAAAAIAAAAAAAAAGAAAAAAAAAAAAAAAAAAAABgAAAAAAAAAAAAAAAAAAAAYAAAAAAAAABgAAAAA' +
+  'AAAAMAAAAAAAAAABAAAAAAAAADgAAAAAAAAADAAAAAAAAABIAAAAAAAAAAQAAAAAAAAAUAAAAAAA' +
+  'AAAAAAAAAAAAAFAAAAAAAAAAEAAAAAAAAABgAAAAAAAAAAAAAAAAAAAAYAAAAAAAAAAQAAAAAAAA' +
+  'AHAAAAAAAAAAAAAAAAAAAABwAAAAAAAAAAwAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAIAAAAAAAAAA' +
+  'DAAAAAAAAACQAAAAAAAAAAIAAAAAAAAAmAAAAAAAAAABAAAAAAAAAKAAAAAAAAAAEAAAAAAAAACw' +
+  'AAAAAAAAAAAAAAAAAAAAsAAAAAAAAAABAAAAAAAAAAAAAAAKAAAAAgAAAAAAAAAAAAAAAAAAAAIA' +
+  'AAAAAAAAAAAAAAAAAAAGAAAAAAAAAAAAAAAAAAAAAgAAAAAAAAABAAAAAAAAAAIAAAAAAAAAAAAA' +
+  'AAAAAAACAAAAAAAAAAAAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAIAAAAAAAAAAAAAAAAAAAACAAAA' +
+  'AAAAAAEAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAAAAAABAAAAAgAAAAAAAABhYgAAAAAAAAAAgD8A' +
+  'AAAAAAAAAAAAAAAAAIA/AAAAAAEAAAAAAAAAAAAAAAQAAAAEAAAAAAAAAG5ld3MAAAAAAAAAAAAA' +
+  '4D8AAAAAAAD4PwcAAAAAAAAA/v////////8AAAAAAgAAAAIAAAAAAAAAAAAAAAEAAAACAAAAAAAA' +
+  'AHh5AAAAAAAAAQAAAAAAAACI2CDIjAEAAAAAAAAAAAAAAQAAAAAAAAD/////WAIAABQAAAAAAAAA' +
+  'DAAWAAYABQAIAAwADAAAAAADBAAYAAAAaAAAAAAAAAAAAAoAGAAMAAQACAAKAAAAfAEAABAAAAAB' +
+  'AAAAAAAAAAAAAAAWAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAIAAAAAAAAAAEA' +
+  'AAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAQAAAAAAAAAAwAAAAAAAAAIAAA' +
+  'AAAAAAAAAAAAAAAAACAAAAAAAAAACAAAAAAAAAAoAAAAAAAAAAQAAAAAAAAAMAAAAAAAAAAAAAAA' +
+  'AAAAADAAAAAAAAAACAAAAAAAAAA4AAAAAAAAAAAAAAAAAAAAOAAAAAAAAAAIAAAAAAAAAEAAAAAA' +
+  'AAAAAAAAAAAAAABAAAAAAAAAAAgAAAAAAAAASAAAAAAAAAAAAAAAAAAAAEgAAAAAAAAACAAAAAAA' +
+  'AABQAAAAAAAAAAEAAAAAAAAAWAAAAAAAAAAAAAAAAAAAAFgAAAAAAAAACAAAAAAAAABgAAAAAAAA' +
+  'AAAAAAAAAAAAYAAAAAAAAAABAAAAAAAAAAAAAAAKAAAAAQAAAAAAAAAAAAAAAAAAAAEAAAAAAAAA' +
+  'AAAAAAAAAAADAAAAAAAAAAAAAAAAAAAAAQAAAAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAAB' +
+  'AAAAAAAAAAAAAAAAAAAAAQAAAAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAA' +
+  'AAAAAAAAAQAAAAAAAAAAAAAAAAAAAAAAAAABAAAAYwAAAAAAAAAAAAAAAAAAAAAAgD8AAAAAAAAA' +
+  'AAQAAABibG9nAAAAAAAAAAAAAABACQAAAAAAAAAAAAAAAQAAAAAAAAABAAAAegAAAAAAAACI2CDI' +
+  'jAEAAAEAAAAAAAAA/////wAAAAA=';
+
+/** File with an int64 id, list<float64> embedding and a dictionary column */
+export const ARROW_FILE_BASE64 =
+  'QVJST1cxAAD/////OAEAABAAAAAAAAoADAAGAAUACAAKAAAAAAEEAAQAAACw////BAAAAAMAAADY' +
+  'AAAAYAAAABQAAAAQABgACAAGAAcADAAQABQAEAAAAAAAAQUUAAAAOAAAACAAAAAEAAAAAAAAAAQA' +
+  'AABraW5kAAAAAAgACAAAAAQACAAAAAQAAABY////AAAAAQgAAADQ////nP///wAAAQwUAAAAJAAA' +
+  'AAQAAAABAAAAHAAAAAkAAABlbWJlZGRpbmcAAAAEAAQABAAAAND///8AAAEDEAAAABwAAAAEAAAA' +
+  'AAAAAAQAAABpdGVtAAAGAAgABgAGAAAAAAACABAAFAAIAAYABwAMAAAAEAAQAAAAAAABAhAAAAAg' +
+  'AAAABAAAAAAAAAAGAAAAZG9jX2lkAAAIAAwACAAHAAgAAAAAAAABQAAAAP////+oAAAAFAAAAAAA' +
+  'AAAMABQABgAFAAgADAAMAAAAAAIEABQAAAAYAAAAAAAAAAgACgAAAAQACAAAABAAAAAAAAoAGAAM' +
+  'AAQACAAKAAAATAAAABAAAAACAAAAAAAAAAAAAAADAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' +
+  'DAAAAAAAAAAQAAAAAAAAAAIAAAAAAAAAAAAAAAEAAAACAAAAAAAAAAAAAAAAAAAAAAAAAAEAAAAC' +
+  'AAAAAAAAAHBxAAAAAAAA/////xgBAAAUAAAAAAAAAAwAFgAGAAUACAAMAAwAAAAAAwQAGAAAAFgA' +
+  'AAAAAAAAAAAKABgADAAEAAgACgAAAJwAAAAQAAAAAgAAAAAAAAAAAAAACAAAAAAAAAAAAAAAAAAA' +
+  'AAAAAAAAAAAAAAAAABAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAADAAAAAAAAAAgAAAA' +
+  'AAAAAAAAAAAAAAAAIAAAAAAAAAAwAAAAAAAAAFAAAAAAAAAAAAAAAAAAAABQAAAAAAAAAAIAAAAA' +
+  'AAAAAAAAAAQAAAACAAAAAAAAAAAAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAYAAAAAAAAAAAAAAAAA' +
+  'AAACAAAAAAAAAAAAAAAAAAAACgAAAAAAAAALAAAAAAAAAAAAAAADAAAABgAAAAAAAAAAAAAAAADg' +
+  'PwAAAAAAAOA/AAAAAAAAAAAAAAAAAAAAAAAAAAAAANA/AAAAAAAA8D8AAQAAAAAAAP////8AAAAA' +
+  'EAAAAAwAFAAGAAgADAAQAAwAAAAAAAQATAAAACgAAAAEAAAAAQAAABACAAAAAAAAIAEAAAAAAABY' +
+  'AAAAAAAAAAAAAAABAAAASAEAAAAAAACwAAAAAAAAABgAAAAAAAAAAAAAALD///8EAAAAAwAAANgA' +
+  'AABgAAAAFAAAABAAGAAIAAYABwAMABAAFAAQAAAAAAABBRQAAAA4AAAAIAAAAAQAAAAAAAAABAAA' +
+  'AGtpbmQAAAAACAAIAAAABAAIAAAABAAAAFj///8AAAABCAAAAND///+c////AAABDBQAAAAkAAAA' +
+  'BAAAAAEAAAAcAAAACQAAAGVtYmVkZGluZwAAAAQABAAEAAAA0P///wAAAQMQAAAAHAAAAAQAAAAA' +
+  'AAAABAAAAGl0ZW0AAAYACAAGAAYAAAAAAAIAEAAUAAgABgAHAAwAAAAQABAAAAAAAAECEAAAACAA' +
+  'AAAEAAAAAAAAAAYAAABkb2NfaWQAAAgADAAIAAcACAAAAAAAAAFAAAAAgAEAAEFSUk9XMQ==';
+
+export function fromBase64(encoded: string): Uint8Array {
+  return Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { VectorColumns } from '@/core/types.js';
+import { ArrowStreamReader } from '@/storage/arrow-reader.js';
+import { ARROW_FILE_BASE64, ARROW_STREAM_BASE64, fromBase64 } from './arrow-fixtures.js';
+
+/** A readable stream yielding `bytes` in chunks of `chunkSize` */
+function chunked(bytes: Uint8Array, chunkSize: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+async function readAll(reader: ArrowStreamReader): Promise<VectorColumns[]> {
+  const batches: VectorColumns[] = [];
+  for await (const columns of reader.batches()) {
+    batches.push(columns);
+  }
+  return batches;
+}
+
+describe('ArrowStreamReader', () => {
+  it('reads the schema and every record batch of a stream', async () => {
+    const reader = await ArrowStreamReader.open(
+      chunked(fromBase64(ARROW_STREAM_BASE64), 5),
+    );
+    expect(reader.fields.map(({ name, type }) => `${name}:${type}`)).toEqual([
+      'id:utf8',
+      'vector:fixed_size_list',
+      'category:utf8',
+      'score:float',
+      'count:int',
+      'tags:list',
+      'created:timestamp',
+      'active:bool',
+    ]);
+
+    const [first, second, ...rest] = await readAll(reader);
+    expect(rest).toHaveLength(0);
+    expect(first?.ids).toEqual(['a', 'b']);
+    expect(Array.from(first!.vectors)).toEqual([1, 0, 0, 0, 1, 0]);
+    expect(first?.metadata).toEqual({
+      category: ['news', null],
+      score: [0.5, 1.5],
+      count: [7, -2],
+      tags: [['x', 'y'], []],
+      created: ['2024-01-02T03:04:05.000Z', null],
+      active: [true, false],
+    });
+    expect(second?.ids).toEqual(['c']);
+    expect(Array.from(second!.vectors)).toEqual([0, 0, 1]);
+  });
+
+  it('reads Arrow files with integer ids, float64 lists and dictionary columns', async () => {
+    const reader = await ArrowStreamReader.open(fromBase64(ARROW_FILE_BASE64), {
+      idColumn: 'doc_id',
+      vectorColumn: 'embedding',
+    });
+
+    const [columns] = await readAll(reader);
+    expect(columns?.ids).toEqual(['10', '11']);
+    expect(columns?.vectors).toBeInstanceOf(Float32Array);
+    expect(Array.from(columns!.vectors)).toEqual([0.5, 0.5, 0, 0, 0.25, 1]);
+    expect(columns?.metadata).toEqual({ kind: ['p', 'q'] });
+  });
+
+  it('copies only the requested metadata columns', async () => {
+    const reader = await ArrowStreamReader.open(fromBase64(ARROW_STREAM_BASE64), {
+      metadataColumns: ['category'],
+    });
+
+    const [columns] = await readAll(reader);
+    expect(columns?.metadata).toEqual({ category: ['news', null] });
+  });
+
+  it('rejects missing columns and non-list vector columns', async () => {
+    const bytes = fromBase64(ARROW_STREAM_BASE64);
+
+    const missing = ArrowStreamReader.open(bytes, { idColumn: 'doc_id' });
+    const missingError = await missing.catch((caught: unknown) => caught);
+    expect(missingError).toHaveProperty('message', "Arrow stream has no 'doc_id' column");
+
+    const reader = await ArrowStreamReader.open(bytes, { vectorColumn: 'category' });
+    const wrongType = await readAll(reader).catch((caught: unknown) => caught);
+    expect((wrongType as Error).message).toContain('must be a list of float32');
+  });
+
+  it('rejects input that is not Arrow', async () => {
+    const attempt = ArrowStreamReader.open(new TextEncoder().encode('{"id":"a"}\n'));
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(Error);
+  });
+
+  it('reports a stream cut off mid-message', async () => {
+    const bytes = fromBase64(ARROW_STREAM_BASE64);
+    const reader = await ArrowStreamReader.open(bytes.slice(0, bytes.byteLength - 200));
+
+    const error = await readAll(reader).catch((caught: unknown) => caught);
+    expect(error).toHaveProperty(
+      'message',
+      'Arrow stream ended in the middle of a message',
+    );
+  });
+});
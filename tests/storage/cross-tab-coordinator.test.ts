@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'bun:test';
+
+import {
+  CrossTabCoordinator,
+  type ChangeEvent,
+  type CrossTabHandlers,
+} from '@/storage/cross-tab-coordinator.js';
+import { createCrossTabEnvironment } from '../mocks/cross-tab-mock.js';
+
+function recordingHandlers() {
+  const log: string[] = [];
+  const handlers: CrossTabHandlers = {
+    onChange: async (event: ChangeEvent) => {
+      log.push('ids' in event ? `${event.type}:${event.ids.join(',')}` : event.type);
+    },
+    onResync: async (source) => {
+      log.push(`resync:${source}`);
+    },
+    onLeadershipChange: async (leader) => {
+      log.push(leader ? 'leader' : 'follower');
+    },
+  };
+  return { log, handlers };
+}
+
+describe('CrossTabCoordinator', () => {
+  it('delivers changes to other tabs in order once resumed', async () => {
+    const environment = createCrossTabEnvironment();
+    const sender = new CrossTabCoordinator(
+      'db',
+      recordingHandlers().handlers,
+      environment,
+    );
+    const { log, handlers } = recordingHandlers();
+    const receiver = new CrossTabCoordinator('db', handlers, {
+      createChannel: environment.createChannel,
+    });
+    sender.connect();
+    receiver.connect();
+
+    sender.publish({ type: 'put', ids: ['a', 'b'] });
+    sender.publish({ type: 'update-metadata', ids: ['a'] });
+    sender.publish({ type: 'delete', ids: ['b'] });
+    sender.publish({ type: 'clear' });
+    expect(log).toEqual([]);
+
+    receiver.resume();
+    await receiver.whenIdle();
+    expect(log).toEqual(['leader', 'put:a,b', 'update-metadata:a', 'delete:b', 'clear']);
+    expect(sender.getStatus()).toMatchObject({ sequence: 4, peers: 0 });
+    expect(receiver.getStatus()).toMatchObject({ sequence: 0, peers: 1 });
+
+    await sender.close();
+    await receiver.close();
+  });
+
+  it('asks for a resync when messages from a tab were missed', async () => {
+    const environment = createCrossTabEnvironment();
+    const sender = new CrossTabCoordinator(
+      'db',
+      recordingHandlers().handlers,
+      environment,
+    );
+    const { log, handlers } = recordingHandlers();
+    const receiver = new CrossTabCoordinator('db', handlers, environment);
+    sender.connect();
+    receiver.connect();
+    receiver.resume();
+
+    sender.publish({ type: 'put', ids: ['a'] });
+    environment.intercept = () => null;
+    sender.publish({ type: 'put', ids: ['b'] });
+    environment.intercept = null;
+    sender.publish({ type: 'put', ids: ['c'] });
+    await receiver.whenIdle();
+
+    expect(log).toEqual(['put:a', `resync:${sender.tabId}`]);
+
+    await sender.close();
+    await receiver.close();
+  });
+
+  it('ignores messages that are not change messages', async () => {
+    const environment = createCrossTabEnvironment();
+    const { log, handlers } = recordingHandlers();
+    const receiver = new CrossTabCoordinator('db', handlers, environment);
+    receiver.connect();
+    receiver.resume();
+
+    const stranger = environment.createChannel('vector-frankl:db');
+    stranger.postMessage('hello');
+    stranger.postMessage({ source: 'x', sequence: 1, event: { type: 'put', ids: [1] } });
+    stranger.postMessage({ source: 'x', sequence: 1, event: { type: 'drop' } });
+    await receiver.whenIdle();
+
+    expect(log).toEqual(['leader']);
+    await receiver.close();
+  });
+
+  it('elects one leader and hands over when it closes', async () => {
+    const environment = createCrossTabEnvironment();
+    const first = recordingHandlers();
+    const second = recordingHandlers();
+    const tabA = new CrossTabCoordinator('db', first.handlers, environment);
+    const tabB = new CrossTabCoordinator('db', second.handlers, environment);
+    tabA.connect();
+    tabB.connect();
+    tabA.resume();
+    tabB.resume();
+    await tabA.whenIdle();
+
+    expect(tabA.isLeader()).toBe(true);
+    expect(tabB.isLeader()).toBe(false);
+
+    await tabA.close();
+    await tabB.whenIdle();
+    expect(tabB.isLeader()).toBe(true);
+    expect(second.log).toEqual(['leader']);
+
+    await tabB.close();
+  });
+
+  it('stops waiting for the lock when closed as a follower', async () => {
+    const environment = createCrossTabEnvironment();
+    const leader = new CrossTabCoordinator(
+      'db',
+      recordingHandlers().handlers,
+      environment,
+    );
+    const follower = new CrossTabCoordinator(
+      'db',
+      recordingHandlers().handlers,
+      environment,
+    );
+    leader.connect();
+    follower.connect();
+
+    await follower.close();
+    expect(follower.isLeader()).toBe(false);
+    await leader.close();
+  });
+});
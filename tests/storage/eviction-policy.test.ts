@@ -69,6 +69,10 @@ class TestStorage {
       updateBatch: (u, o) => this.adapter.updateBatch(u, o),
       scan: (options) => this.adapter.scan(options),
       getScanCapabilities: () => this.adapter.getScanCapabilities(),
+      getDocument: (c, k) => this.adapter.getDocument(c, k),
+      putDocument: (c, k, d) => this.adapter.putDocument(c, k, d),
+      deleteDocument: (c, k) => this.adapter.deleteDocument(c, k),
+      listDocuments: (c) => this.adapter.listDocuments(c),
     };
   }
 }
@@ -678,6 +682,36 @@ describe('EvictionManager', () => {
     expect(remaining[0]!.id).toBe('b');
   });
 
+  it('reports evicted vectors with their metadata to listeners', async () => {
+    const storage = new TestStorage();
+    const now = Date.now();
+
+    storage.addTestVector(
+      createTestVector({
+        id: 'a',
+        lastAccessed: now - 5 * ONE_DAY,
+        metadata: { tag: 'x' },
+      }),
+    );
+    storage.addTestVector(createTestVector({ id: 'b', lastAccessed: now - ONE_DAY }));
+    storage.addTestVector(createTestVector({ id: 'c', lastAccessed: now }));
+
+    const manager = new EvictionManager(storage.asAdapter());
+    const seen: string[] = [];
+    const listener = (result: { evicted: Array<{ id: string }> }) => {
+      seen.push(...result.evicted.map(({ id }) => id));
+    };
+    manager.addListener(listener);
+
+    const result = await manager.evict({ strategy: 'lru', maxVectors: 2 });
+    expect(result.evicted).toEqual([{ id: 'a', metadata: { tag: 'x' } }, { id: 'b' }]);
+    expect(seen).toEqual(['a', 'b']);
+
+    manager.removeListener(listener);
+    await manager.evict({ strategy: 'lru', maxVectors: 1 });
+    expect(seen).toEqual(['a', 'b']);
+  });
+
   it('throws on an unknown strategy', async () => {
     const storage = new TestStorage();
     const manager = new EvictionManager(storage.asAdapter());
@@ -858,6 +892,7 @@ describe('Error handling', () => {
 
     // LRU subtracts error count from evictedCount.
     expect(result.evictedCount).toBe(1);
+    expect(result.evicted.map(({ id }) => id)).toEqual(['also-good']);
     expect(result.errors).toHaveLength(1);
     expect(result.errors[0]!.id).toBe('good');
     expect(result.errors[0]!.error.message).toBe('disk write failure');
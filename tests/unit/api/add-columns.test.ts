@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { VectorDB } from '@/api/database.js';
+import { DimensionMismatchError } from '@/core/errors.js';
+import type { BatchProgress } from '@/core/types.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+import { ARROW_STREAM_BASE64, fromBase64 } from '../../storage/arrow-fixtures.js';
+
+const dimension = 3;
+
+describe('VectorDB.addColumns()', () => {
+  let db: VectorDB;
+
+  beforeEach(async () => {
+    db = new VectorDB('columns-db', dimension, {
+      storage: new MemoryStorageAdapter(),
+      useIndex: true,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await db.init();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('stores each row with its vector slice and metadata', async () => {
+    await db.addColumns({
+      ids: ['a', 'b', 'c'],
+      vectors: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 2]),
+      metadata: { label: ['first', null, 'third'], rank: [1, 2, 3] },
+    });
+
+    const stored = await db.getVector('c');
+    expect(Array.from(stored!.vector)).toEqual([0, 0, 2]);
+    expect(stored?.magnitude).toBe(2);
+    expect(stored?.metadata).toEqual({ label: 'third', rank: 3 });
+    const second = await db.getVector('b');
+    expect(second?.metadata).toEqual({ rank: 2 });
+
+    const results = await db.search([0, 1, 0], 1);
+    expect(results[0]?.id).toBe('b');
+  });
+
+  it('does not share the caller’s buffer', async () => {
+    const vectors = new Float32Array([1, 0, 0, 0, 1, 0]);
+    await db.addColumns({ ids: ['a', 'b'], vectors });
+    vectors.fill(9);
+
+    const stored = await db.getVector('a');
+    expect(Array.from(stored!.vector)).toEqual([1, 0, 0]);
+  });
+
+  it('copies each chunk once and hands out its rows as views', async () => {
+    const storage = new MemoryStorageAdapter({ cloneOnWrite: false, cloneOnRead: false });
+    const viewDB = new VectorDB('columns-views-db', dimension, {
+      storage,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await viewDB.init();
+    const ids = Array.from({ length: 6 }, (_, i) => `row-${i}`);
+
+    await viewDB.addColumns(
+      { ids, vectors: new Float32Array(6 * dimension).fill(1) },
+      { batchSize: 4 },
+    );
+
+    const [first, second, fifth] = await storage.getMany(['row-0', 'row-1', 'row-4']);
+    expect(first!.vector.buffer).toBe(second!.vector.buffer);
+    expect(first!.vector.buffer.byteLength).toBe(4 * dimension * 4);
+    expect(fifth!.vector.buffer.byteLength).toBe(2 * dimension * 4);
+    await viewDB.close();
+  });
+
+  it('detaches row views before a cloning adapter stores them', async () => {
+    await db.addColumns({
+      ids: ['a', 'b'],
+      vectors: new Float32Array([1, 0, 0, 0, 1, 0]),
+    });
+
+    const stored = await db.getVector('b');
+    expect(stored!.vector.buffer.byteLength).toBe(dimension * 4);
+  });
+
+  it('writes in chunks and reports progress per chunk', async () => {
+    const rows = 10;
+    const ids = Array.from({ length: rows }, (_, i) => `row-${i}`);
+    const vectors = new Float32Array(rows * dimension).map((_, i) => (i % 7) + 1);
+    const progress: BatchProgress[] = [];
+
+    await db.addColumns(
+      { ids, vectors },
+      { batchSize: 4, onProgress: (update) => progress.push(update) },
+    );
+
+    expect(
+      progress.map(({ completed, currentBatch }) => [completed, currentBatch]),
+    ).toEqual([
+      [4, 1],
+      [8, 2],
+      [10, 3],
+    ]);
+    expect(progress.at(-1)).toMatchObject({
+      total: 10,
+      percentage: 100,
+      totalBatches: 3,
+    });
+    expect(await db.getAllVectors()).toHaveLength(rows);
+  });
+
+  it('validates every column before writing anything', async () => {
+    const attempts = [
+      db.addColumns({ ids: ['a', 'b'], vectors: new Float32Array(4) }),
+      db.addColumns({ ids: ['a', 'a'], vectors: new Float32Array(6) }),
+      db.addColumns({ ids: ['a', 'b'], vectors: new Float32Array([1, 0, 0, NaN, 0, 0]) }),
+      db.addColumns({
+        ids: ['a', 'b'],
+        vectors: new Float32Array(6),
+        metadata: { label: ['only one'] },
+      }),
+    ];
+
+    const errors = await Promise.all(
+      attempts.map((attempt) => attempt.catch((caught: unknown) => caught)),
+    );
+    expect(errors[0]).toBeInstanceOf(DimensionMismatchError);
+    expect(errors[1]).toHaveProperty('message', 'Duplicate vector ID found: a');
+    expect((errors[2] as Error).message).toContain('non-finite value in row 1');
+    expect((errors[3] as Error).message).toContain("Metadata column 'label'");
+    expect(await db.getAllVectors()).toHaveLength(0);
+  });
+});
+
+describe('VectorDB.addArrow()', () => {
+  it('adds every record batch of an Arrow stream', async () => {
+    const db = new VectorDB('arrow-db', dimension, {
+      storage: new MemoryStorageAdapter(),
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await db.init();
+
+    const added = await db.addArrow(fromBase64(ARROW_STREAM_BASE64), {
+      metadataColumns: ['category', 'tags'],
+    });
+
+    expect(added).toBe(3);
+    const stored = await db.getVector('a');
+    expect(stored?.metadata).toEqual({ category: 'news', tags: ['x', 'y'] });
+    const results = await db.search([0, 0, 1], 1);
+    expect(results[0]?.id).toBe('c');
+    await db.close();
+  });
+});
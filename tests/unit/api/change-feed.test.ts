@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'bun:test';
+
+import { ChangeFeed, type VectorChangeEvent } from '@/api/change-feed.js';
+import { ChangeCursorExpiredError } from '@/core/errors.js';
+
+async function take(
+  changes: AsyncIterator<VectorChangeEvent>,
+  count: number,
+): Promise<VectorChangeEvent[]> {
+  const events: VectorChangeEvent[] = [];
+  while (events.length < count) {
+    const next = await changes.next();
+    if (next.done) {
+      break;
+    }
+    events.push(next.value);
+  }
+  return events;
+}
+
+describe('ChangeFeed', () => {
+  it('records nothing until the first watch', async () => {
+    const feed = new ChangeFeed();
+    feed.record({ type: 'added', id: 'a' });
+    expect(feed.isRecording()).toBe(false);
+
+    const changes = feed.watch();
+    feed.record({ type: 'added', id: 'b' });
+    expect(feed.isRecording()).toBe(true);
+    const [event] = await take(changes, 1);
+    expect(event).toMatchObject({ id: 'b', cursor: feed.getCursor() });
+    feed.close();
+  });
+
+  it('stops recording once the last watch ends', async () => {
+    const feed = new ChangeFeed();
+    const first = feed.watch();
+    const second = feed.watch();
+
+    await first.return?.();
+    expect(feed.isRecording()).toBe(true);
+    await second.return?.();
+    expect(feed.isRecording()).toBe(false);
+  });
+
+  it('unregisters a watch returned or aborted before its first next()', async () => {
+    const feed = new ChangeFeed();
+    const controller = new AbortController();
+    const returned = feed.watch();
+    feed.watch({ signal: controller.signal });
+
+    await returned.return?.();
+    controller.abort();
+    expect(feed.isRecording()).toBe(false);
+    expect(await returned.next()).toMatchObject({ done: true });
+  });
+
+  it('keeps changes for resuming until a change goes unrecorded', async () => {
+    const feed = new ChangeFeed();
+    const changes = feed.watch();
+    feed.record({ type: 'added', id: 'a' });
+    feed.record({ type: 'added', id: 'b' });
+    const [first] = await take(changes, 1);
+    await changes.return?.();
+
+    const resumed = feed.watch({ after: first!.cursor });
+    expect(await take(resumed, 1)).toMatchObject([{ id: 'b' }]);
+    await resumed.return?.();
+
+    feed.record({ type: 'deleted', id: 'a' });
+    expect(() => feed.watch({ after: first!.cursor })).toThrow(ChangeCursorExpiredError);
+  });
+
+  it('delivers changes recorded after watch() to each watcher in order', async () => {
+    const feed = new ChangeFeed();
+    const first = feed.watch();
+    const second = feed.watch();
+
+    feed.record({ type: 'added', id: 'a', after: { tag: 'x' } });
+    feed.record({ type: 'deleted', id: 'a', before: { tag: 'x' } });
+
+    for (const changes of [first, second]) {
+      const events = await take(changes, 2);
+      expect(events.map(({ type, id, cursor }) => ({ type, id, cursor }))).toEqual([
+        { type: 'added', id: 'a', cursor: 1 },
+        { type: 'deleted', id: 'a', cursor: 2 },
+      ]);
+    }
+    feed.close();
+  });
+
+  it('matches filters against metadata before or after the change', async () => {
+    const feed = new ChangeFeed();
+    const changes = feed.watch({ filter: { tag: 'x' } });
+
+    feed.record({ type: 'added', id: 'a', after: { tag: 'y' } });
+    feed.record({
+      type: 'metadataUpdated',
+      id: 'a',
+      before: { tag: 'y' },
+      after: { tag: 'x' },
+    });
+    feed.record({
+      type: 'metadataUpdated',
+      id: 'a',
+      before: { tag: 'x' },
+      after: { tag: 'z' },
+    });
+    feed.record({ type: 'deleted', id: 'a', before: { tag: 'z' } });
+    feed.record({ type: 'cleared' });
+
+    const events = await take(changes, 3);
+    expect(events.map(({ cursor }) => cursor)).toEqual([2, 3, 5]);
+    feed.close();
+  });
+
+  it('filters by change type', async () => {
+    const feed = new ChangeFeed();
+    const changes = feed.watch({ types: ['deleted', 'evicted'] });
+
+    feed.record({ type: 'added', id: 'a' });
+    feed.record({ type: 'evicted', id: 'a' });
+
+    const events = await take(changes, 1);
+    expect(events[0]).toMatchObject({ type: 'evicted', cursor: 2 });
+    feed.close();
+  });
+
+  it('resumes after a retained cursor and rejects expired ones', async () => {
+    const feed = new ChangeFeed(2);
+    feed.watch();
+    feed.record({ type: 'added', id: 'a' });
+    feed.record({ type: 'added', id: 'b' });
+    feed.record({ type: 'added', id: 'c' });
+
+    const resumed = await take(feed.watch({ after: 2 }), 1);
+    expect(resumed[0]).toMatchObject({ id: 'c', cursor: 3 });
+
+    expect(() => feed.watch({ after: 0 })).toThrow(ChangeCursorExpiredError);
+    expect(() => feed.watch({ after: 7 })).toThrow(ChangeCursorExpiredError);
+    feed.close();
+  });
+
+  it('ends iteration on abort and on close', async () => {
+    const feed = new ChangeFeed();
+    const controller = new AbortController();
+    const aborted = feed.watch({ signal: controller.signal });
+    const closed = feed.watch();
+
+    const pendingAbort = aborted.next();
+    controller.abort();
+    const afterAbort = await pendingAbort;
+    expect(afterAbort.done).toBe(true);
+
+    const pendingClose = closed.next();
+    feed.close();
+    const afterClose = await pendingClose;
+    expect(afterClose.done).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { VectorDB } from '@/api/database.js';
+import { VersionConflictError } from '@/core/errors.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+
+const dimension = 3;
+
+describe('VectorDB conditional writes', () => {
+  let db: VectorDB;
+
+  beforeEach(async () => {
+    db = new VectorDB('conditional-db', dimension, {
+      storage: new MemoryStorageAdapter(),
+      useIndex: true,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await db.init();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  describe('addIfAbsent()', () => {
+    it('adds a new vector and leaves an existing one alone', async () => {
+      expect(await db.addIfAbsent('doc', [1, 0, 0], { rev: 1 })).toBe(true);
+      expect(await db.addIfAbsent('doc', [0, 1, 0], { rev: 2 })).toBe(false);
+
+      const stored = await db.getVector('doc');
+      expect(Array.from(stored!.vector)).toEqual([1, 0, 0]);
+      expect(stored?.metadata).toEqual({ rev: 1 });
+      const results = await db.search([0, 1, 0], 1, { includeMetadata: true });
+      expect(results[0]?.metadata).toEqual({ rev: 1 });
+    });
+
+    it('lets only one of several racing writers add the vector', async () => {
+      const added = await Promise.all(
+        [0, 1, 2, 3].map((writer) => db.addIfAbsent('doc', [1, 0, 0], { writer })),
+      );
+
+      expect(added.filter(Boolean)).toHaveLength(1);
+      expect(await db.getAllVectors()).toHaveLength(1);
+    });
+  });
+
+  describe('upsert()', () => {
+    it('reports whether it created or replaced the vector', async () => {
+      expect(await db.upsert('doc', [1, 0, 0])).toEqual({ created: true, version: 1 });
+      expect(await db.upsert('doc', [0, 1, 0], { rev: 2 })).toEqual({
+        created: false,
+        version: 2,
+      });
+
+      const stored = await db.getVector('doc');
+      expect(Array.from(stored!.vector)).toEqual([0, 1, 0]);
+      expect(stored?.version).toBe(2);
+    });
+
+    it('writes when ifVersion matches and rejects stale versions', async () => {
+      await db.addVector('doc', [1, 0, 0], { rev: 1 });
+      const read = await db.getVector('doc');
+
+      expect(
+        await db.upsert('doc', [0, 1, 0], { rev: 2 }, { ifVersion: read!.version! }),
+      ).toEqual({ created: false, version: 2 });
+
+      const stale = db.upsert(
+        'doc',
+        [0, 0, 1],
+        { rev: 3 },
+        { ifVersion: read!.version! },
+      );
+      const error = await stale.catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect((error as VersionConflictError).actualVersion).toBe(2);
+
+      const stored = await db.getVector('doc');
+      expect(stored?.metadata).toEqual({ rev: 2 });
+    });
+
+    it('keeps only one of several writers that read the same version', async () => {
+      await db.addVector('doc', [1, 0, 0]);
+      const read = await db.getVector('doc');
+
+      const outcomes = await Promise.all(
+        [0, 1, 2].map(async (writer) => {
+          try {
+            await db.upsert('doc', [1, 0, 0], { writer }, { ifVersion: read!.version! });
+            return 'written';
+          } catch (error) {
+            return error instanceof VersionConflictError ? 'conflict' : error;
+          }
+        }),
+      );
+
+      expect(outcomes.filter((outcome) => outcome === 'written')).toHaveLength(1);
+      expect(outcomes.filter((outcome) => outcome === 'conflict')).toHaveLength(2);
+    });
+  });
+
+  describe('ifVersion on updates', () => {
+    it('rejects updateVector and updateMetadata against a stale version', async () => {
+      await db.addVector('doc', [1, 0, 0], { rev: 1 });
+      await db.updateMetadata('doc', { rev: 2 }, { ifVersion: 1 });
+
+      const staleMetadata = db.updateMetadata('doc', { rev: 3 }, { ifVersion: 1 });
+      const metadataError = await staleMetadata.catch((caught: unknown) => caught);
+      expect(metadataError).toBeInstanceOf(VersionConflictError);
+
+      const staleVector = db.updateVector('doc', [0, 1, 0], { ifVersion: 1 });
+      const vectorError = await staleVector.catch((caught: unknown) => caught);
+      expect(vectorError).toBeInstanceOf(VersionConflictError);
+
+      await db.updateVector('doc', [0, 1, 0], { ifVersion: 2 });
+      const stored = await db.getVector('doc');
+      expect(Array.from(stored!.vector)).toEqual([0, 1, 0]);
+      expect(stored?.metadata).toEqual({ rev: 2 });
+      expect(stored?.version).toBe(3);
+    });
+  });
+});
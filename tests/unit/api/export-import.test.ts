@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { VectorDB } from '@/api/database.js';
+import { VectorFrankl } from '@/api/vector-frankl.js';
+import { DimensionMismatchError, NamespaceExistsError } from '@/core/errors.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+import { SQLiteStorageAdapter } from '@/storage/adapters/sqlite-adapter.js';
+import { randomVector } from '../../mocks/vector-fixtures.js';
+
+const dimension = 4;
+
+/** Buffers everything written so it can be replayed as a readable stream */
+function pipe(): {
+  writable: WritableStream<Uint8Array>;
+  readable: () => ReadableStream<Uint8Array>;
+} {
+  const chunks: Uint8Array[] = [];
+  return {
+    writable: new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(chunk);
+      },
+    }),
+    readable: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(chunk);
+          }
+          controller.close();
+        },
+      }),
+  };
+}
+
+describe('VectorDB.export() / import()', () => {
+  let source: VectorDB;
+  let target: VectorDB;
+
+  beforeEach(async () => {
+    source = new VectorDB('export-source', dimension, {
+      storage: new MemoryStorageAdapter(),
+      useIndex: true,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    target = new VectorDB('export-target', dimension, {
+      storage: new SQLiteStorageAdapter({ filename: ':memory:' }),
+      useIndex: true,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await source.init();
+    await target.init();
+
+    await source.addBatch(
+      Array.from({ length: 40 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: randomVector(i, dimension),
+        metadata: { group: i % 3, title: `Document ${i}` },
+      })),
+    );
+  });
+
+  afterEach(async () => {
+    await source.close();
+    await target.close();
+  });
+
+  it('moves vectors, metadata and the HNSW graph to another adapter', async () => {
+    await source.search(randomVector(0, dimension), 1);
+    const archive = pipe();
+
+    const exported = await source.export(archive.writable);
+    expect(exported).toEqual({ exported: 40, indexIncluded: true });
+
+    const progress: number[] = [];
+    const imported = await target.import(archive.readable(), {
+      batchSize: 16,
+      onProgress: (count) => progress.push(count),
+    });
+    expect(imported).toEqual({ imported: 40, indexRestored: true });
+    expect(progress).toEqual([16, 32, 40]);
+
+    const stored = await target.getVector('doc-7');
+    expect(stored?.metadata).toEqual({ group: 1, title: 'Document 7' });
+    const query = randomVector(12, dimension);
+    const expected = await source.search(query, 5);
+    const actual = await target.search(query, 5);
+    expect(actual.map(({ id }) => id)).toEqual(expected.map(({ id }) => id));
+  });
+
+  it('rebuilds the index when exported without it', async () => {
+    const archive = pipe();
+
+    const exported = await source.export(archive.writable, { includeIndex: false });
+    expect(exported.indexIncluded).toBe(false);
+
+    const imported = await target.import(archive.readable());
+    expect(imported).toEqual({ imported: 40, indexRestored: false });
+    const results = await target.search(randomVector(3, dimension), 40);
+    expect(results).toHaveLength(40);
+  });
+
+  it('round-trips NDJSON', async () => {
+    const archive = pipe();
+
+    await source.export(archive.writable, { format: 'ndjson' });
+    const imported = await target.import(archive.readable());
+
+    expect(imported.imported).toBe(40);
+    expect(await target.getAllVectors()).toHaveLength(40);
+    const stored = await target.getVector('doc-21');
+    expect(Array.from(stored!.vector)).toEqual(
+      Array.from(new Float32Array(randomVector(21, dimension))),
+    );
+    expect(stored?.metadata).toEqual({ group: 0, title: 'Document 21' });
+  });
+
+  it('rejects an archive of a different dimension before writing', async () => {
+    const other = new VectorDB('export-other', dimension + 1, {
+      storage: new MemoryStorageAdapter(),
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await other.init();
+    await other.addVector('wide', [1, 0, 0, 0, 0]);
+    const archive = pipe();
+    await other.export(archive.writable);
+    await other.close();
+
+    const attempt = target.import(archive.readable());
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(DimensionMismatchError);
+    expect(await target.getAllVectors()).toHaveLength(0);
+  });
+
+  it('stops an export when its signal aborts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const attempt = source.export(pipe().writable, { signal: controller.signal });
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toHaveProperty('name', 'AbortError');
+  });
+});
+
+describe('VectorFrankl.exportNamespace() / importNamespace()', () => {
+  let browser: VectorFrankl;
+  let server: VectorFrankl;
+
+  beforeEach(async () => {
+    browser = new VectorFrankl('export-browser', {
+      storageFactory: () => new MemoryStorageAdapter(),
+    });
+    server = new VectorFrankl('export-server', {
+      storageFactory: () => new SQLiteStorageAdapter({ filename: ':memory:' }),
+    });
+    await browser.init();
+    await server.init();
+  });
+
+  afterEach(async () => {
+    await browser.close();
+    await server.close();
+  });
+
+  it('recreates the namespace with its config on another adapter', async () => {
+    const products = await browser.createNamespace('products', {
+      dimension,
+      distanceMetric: 'euclidean',
+      description: 'Product catalog',
+    });
+    await products.addVector('p1', [1, 0, 0, 0], { sku: 'A-1' });
+    await products.addVector('p2', [0, 1, 0, 0], { sku: 'B-2' });
+    const archive = pipe();
+
+    await browser.exportNamespace('products', archive.writable);
+    const { namespace, imported } = await server.importNamespace(archive.readable());
+
+    expect(imported).toBe(2);
+    expect(namespace.name).toBe('products');
+    expect(namespace.config).toMatchObject({
+      dimension,
+      distanceMetric: 'euclidean',
+      description: 'Product catalog',
+    });
+    const stored = await namespace.getVector('p2');
+    expect(stored?.metadata).toEqual({ sku: 'B-2' });
+  });
+
+  it('refuses to import over an existing namespace', async () => {
+    await browser.createNamespace('products', { dimension });
+    await server.createNamespace('products', { dimension });
+    const archive = pipe();
+    await browser.exportNamespace('products', archive.writable);
+
+    const attempt = server.importNamespace(archive.readable());
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(NamespaceExistsError);
+  });
+});
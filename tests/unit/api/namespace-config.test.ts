@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { VectorFrankl } from '@/api/vector-frankl.js';
+import { DimensionMismatchError, QuotaExceededError } from '@/core/errors.js';
+import { StorageQuotaMonitor } from '@/storage/quota-monitor.js';
+import { memoryBackend, type MemoryBackend } from '../../mocks/memory-backend.js';
+import { unitVectors } from '../../mocks/vector-fixtures.js';
+
+describe('per-namespace VectorDB config', () => {
+  let primary: MemoryBackend;
+  let archive: MemoryBackend;
+  let db: VectorFrankl;
+
+  function open(): VectorFrankl {
+    return new VectorFrankl('namespace-config', {
+      storageFactory: primary.factory,
+      storageBackends: { archive: archive.factory },
+    });
+  }
+
+  beforeEach(async () => {
+    primary = memoryBackend();
+    archive = memoryBackend();
+    db = open();
+    await db.init();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('persists the config and applies it when the namespace is reopened', async () => {
+    const products = await db.createNamespace('products', {
+      dimension: 4,
+      indexStrategy: 'hnsw',
+      indexConfig: { m: 8, efConstruction: 50 },
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await products.addBatch(unitVectors(20));
+    expect(products.getIndexStats()).toMatchObject({ enabled: true, type: 'hnsw' });
+    await db.close();
+
+    db = open();
+    const reopened = await db.getNamespace('products');
+    expect(reopened.config).toMatchObject({
+      indexStrategy: 'hnsw',
+      indexConfig: { m: 8, efConstruction: 50 },
+    });
+    expect(reopened.getIndexStats()).toMatchObject({ enabled: true, nodeCount: 20 });
+  });
+
+  it('keeps a namespace on the storage backend it names', async () => {
+    const logs = await db.createNamespace('logs', { dimension: 4, storage: 'archive' });
+    await logs.addBatch(unitVectors(3));
+
+    expect([...archive.adapters.keys()]).toEqual(['namespace-config-ns-logs']);
+    const [adapter] = archive.adapters.values();
+    expect(await adapter!.count()).toBe(3);
+    expect(primary.adapters.has('namespace-config-ns-logs')).toBe(false);
+
+    await db.deleteNamespace('logs');
+    expect(await adapter!.count()).toBe(0);
+  });
+
+  it('rejects unknown backends and out-of-range quota shares', async () => {
+    const unknown = await db
+      .createNamespace('logs', { dimension: 4, storage: 'cold' })
+      .catch((caught: unknown) => caught);
+    expect((unknown as Error).message).toContain("Unknown storage backend 'cold'");
+
+    const share = await db
+      .createNamespace('logs', { dimension: 4, quotaShare: 1.5 })
+      .catch((caught: unknown) => caught);
+    expect((share as Error).message).toContain('quotaShare');
+    expect(await db.namespaceExists('logs')).toBe(false);
+  });
+
+  it('reopens a loaded namespace and rebuilds its index when the index config changes', async () => {
+    const products = await db.createNamespace('products', {
+      dimension: 4,
+      useWorkers: false,
+    });
+    await products.addBatch(unitVectors(12));
+    expect(products.getIndexStats().enabled).toBe(false);
+
+    const info = await db.updateNamespaceConfig('products', {
+      indexStrategy: 'hnsw',
+      description: 'reindexed',
+    });
+
+    expect(info.config).toMatchObject({
+      dimension: 4,
+      indexStrategy: 'hnsw',
+      description: 'reindexed',
+    });
+    expect(products.config.indexStrategy).toBe('hnsw');
+    expect(products.getIndexStats()).toMatchObject({ enabled: true, nodeCount: 12 });
+    const [best] = await products.search(unitVectors(12)[5]!.vector, 1);
+    expect(best?.id).toBe('v5');
+  });
+
+  it('refuses to change the dimension or storage backend in place', async () => {
+    await db.createNamespace('products', { dimension: 4 });
+
+    const dimension = await db
+      .updateNamespaceConfig('products', { dimension: 8 })
+      .catch((caught: unknown) => caught);
+    expect(dimension).toBeInstanceOf(DimensionMismatchError);
+
+    const storage = await db
+      .updateNamespaceConfig('products', { storage: 'archive' })
+      .catch((caught: unknown) => caught);
+    expect((storage as Error).message).toContain('storage backend');
+  });
+
+  describe('quotaShare', () => {
+    const originalNavigator = globalThis.navigator;
+
+    beforeEach(() => {
+      // 10 KB quota; 4-dimension vectors are estimated at 216 bytes each
+      globalThis.navigator = {
+        storage: { estimate: async () => ({ usage: 0, quota: 10_000 }) },
+      } as unknown as Navigator;
+      StorageQuotaMonitor.getInstance().resetOperationCounter();
+    });
+
+    afterEach(() => {
+      globalThis.navigator = originalNavigator;
+    });
+
+    it('rejects writes beyond the share when eviction is off', async () => {
+      const products = await db.createNamespace('products', {
+        dimension: 4,
+        quotaShare: 0.1,
+        autoEviction: false,
+      });
+
+      await products.addBatch(unitVectors(4));
+      const error = await products
+        .addVector('extra', [1, 0, 0, 0])
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect((error as QuotaExceededError).quota).toBe(1000);
+      expect(await products.exists('extra')).toBe(false);
+    });
+
+    it('evicts to make room when eviction is on', async () => {
+      const products = await db.createNamespace('products', {
+        dimension: 4,
+        quotaShare: 0.1,
+        eviction: { strategy: 'lru', preservePermanent: false },
+      });
+
+      await products.addBatch(unitVectors(4));
+      await products.addVector('extra', [1, 0, 0, 0]);
+
+      const stats = await products.getStats();
+      expect(stats.vectorCount).toBeLessThanOrEqual(4);
+      expect(await products.exists('extra')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { VectorFrankl } from '@/api/vector-frankl.js';
+import { NamespaceExistsError, NamespaceNotFoundError } from '@/core/errors.js';
+import type { BatchProgress, NamespaceInfo } from '@/core/types.js';
+import { memoryBackend, type MemoryBackend } from '../../mocks/memory-backend.js';
+import { unitVectors } from '../../mocks/vector-fixtures.js';
+
+describe('namespace clone, rename and migrate', () => {
+  let primary: MemoryBackend;
+  let archive: MemoryBackend;
+  let db: VectorFrankl;
+
+  beforeEach(async () => {
+    primary = memoryBackend();
+    archive = memoryBackend();
+    db = new VectorFrankl('namespace-transfer', {
+      defaultDimension: 4,
+      storageFactory: primary.factory,
+      storageBackends: { archive: archive.factory },
+    });
+    await db.init();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  async function info(name: string): Promise<NamespaceInfo | undefined> {
+    const namespaces = await db.listNamespaces();
+    return namespaces.find((namespace) => namespace.name === name);
+  }
+
+  it('clones a namespace with its config, HNSW graph and stats', async () => {
+    const source = await db.createNamespace('products', {
+      dimension: 4,
+      indexStrategy: 'hnsw',
+      description: 'catalog',
+    });
+    await source.addBatch(unitVectors(30));
+
+    const progress: BatchProgress[] = [];
+    const result = await db.cloneNamespace('products', 'products-copy', {
+      batchSize: 10,
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(result.copied).toBe(30);
+    expect(result.indexRestored).toBe(true);
+    expect(result.namespace.config).toMatchObject({
+      dimension: 4,
+      indexStrategy: 'hnsw',
+      description: 'catalog',
+    });
+    expect(progress.map(({ completed }) => completed)).toEqual([10, 20, 30]);
+    expect(progress.at(-1)).toMatchObject({
+      total: 30,
+      percentage: 100,
+      totalBatches: 3,
+    });
+
+    const query = unitVectors(30)[7]!.vector;
+    const expected = await source.search(query, 3);
+    const actual = await result.namespace.search(query, 3);
+    expect(actual.map(({ id }) => id)).toEqual(expected.map(({ id }) => id));
+
+    const copyInfo = await info('products-copy');
+    expect(copyInfo?.stats.vectorCount).toBe(30);
+    expect(copyInfo?.stats.storageSize).toBeGreaterThan(0);
+    expect(await source.getStats()).toMatchObject({ vectorCount: 30 });
+  });
+
+  it('filters and transforms records and rebuilds the index for them', async () => {
+    const source = await db.createNamespace('products', {
+      dimension: 4,
+      indexStrategy: 'hnsw',
+    });
+    await source.addBatch(unitVectors(20));
+
+    const result = await db.cloneNamespace('products', 'even', {
+      filter: (record) => Number(record.metadata?.['index']) % 2 === 0,
+      transform: (record) => ({
+        ...record,
+        metadata: { ...record.metadata, copied: true },
+      }),
+    });
+
+    expect(result).toMatchObject({ copied: 10, indexRestored: false });
+    const stored = await result.namespace.getVector('v4');
+    expect(stored?.metadata).toEqual({ index: 4, copied: true });
+    expect(await result.namespace.exists('v5')).toBe(false);
+    const hits = await result.namespace.search(unitVectors(20)[4]!.vector, 1);
+    expect(hits[0]?.id).toBe('v4');
+  });
+
+  it('drops the destination when a clone is aborted', async () => {
+    const source = await db.createNamespace('products', { dimension: 4 });
+    await source.addBatch(unitVectors(20));
+    const abortSignal = { aborted: false };
+
+    const error = await db
+      .cloneNamespace('products', 'partial', {
+        batchSize: 5,
+        abortSignal,
+        onProgress: () => {
+          abortSignal.aborted = true;
+        },
+      })
+      .catch((caught: unknown) => caught);
+
+    expect((error as Error).message).toBe('Batch operation aborted');
+    expect(await db.namespaceExists('partial')).toBe(false);
+  });
+
+  it('refuses to clone onto an existing namespace', async () => {
+    await db.createNamespace('first', { dimension: 4 });
+    await db.createNamespace('second', { dimension: 4 });
+
+    expect(db.cloneNamespace('first', 'second')).rejects.toThrow(NamespaceExistsError);
+  });
+
+  it('renames a namespace and repoints its aliases', async () => {
+    const source = await db.createNamespace('products-v1', {
+      dimension: 4,
+      indexStrategy: 'hnsw',
+    });
+    await source.addBatch(unitVectors(10));
+    await db.createAlias('products', 'products-v1');
+
+    const result = await db.renameNamespace('products-v1', 'products-v2');
+
+    expect(result).toMatchObject({ copied: 10, indexRestored: true });
+    expect(await db.namespaceExists('products-v1')).toBe(false);
+    expect(await db.resolveAlias('products')).toBe('products-v2');
+    const renamed = await db.getNamespace('products');
+    expect(await renamed.getStats()).toMatchObject({ vectorCount: 10 });
+    expect(primary.adapters.has('namespace-transfer-ns-products-v2')).toBe(true);
+  });
+
+  it('refuses to rename a missing namespace or the default one in use', async () => {
+    await db.addVector('a', [1, 0, 0, 0]);
+
+    expect(db.renameNamespace('missing', 'other')).rejects.toThrow(
+      NamespaceNotFoundError,
+    );
+    expect(db.renameNamespace('default', 'other')).rejects.toThrow(
+      'Cannot rename the default namespace while it is in use',
+    );
+  });
+
+  it('migrates a namespace to another storage backend and back', async () => {
+    const source = await db.createNamespace('products', {
+      dimension: 4,
+      indexStrategy: 'hnsw',
+    });
+    await source.addBatch(unitVectors(12));
+    const databaseName = 'namespace-transfer-ns-products';
+
+    const migrated = await db.migrateNamespace('products', 'archive');
+
+    expect(migrated).toMatchObject({ copied: 12, indexRestored: true });
+    expect(await archive.adapters.get(databaseName)?.count()).toBe(12);
+    expect(await primary.adapters.get(databaseName)?.count()).toBe(0);
+    const migratedInfo = await info('products');
+    expect(migratedInfo?.config.storage).toBe('archive');
+    expect(migratedInfo?.stats.vectorCount).toBe(12);
+    const products = await db.getNamespace('products');
+    expect(products).toBe(migrated.namespace);
+    const hit = await products.getVector('v3');
+    expect(hit?.metadata).toEqual({ index: 3 });
+
+    expect(db.migrateNamespace('products', 'archive')).rejects.toThrow(
+      'already uses the archive storage backend',
+    );
+
+    const restored = await db.migrateNamespace('products', null);
+    expect(restored.copied).toBe(12);
+    const back = await info('products');
+    expect(back?.config.storage).toBeUndefined();
+    expect(await primary.adapters.get(databaseName)?.count()).toBe(12);
+  });
+
+  it('keeps the default namespace shortcuts working after migrating it', async () => {
+    await db.addVector('a', [1, 0, 0, 0]);
+
+    await db.migrateNamespace('default', 'archive');
+
+    const stored = await db.getVector('a');
+    expect(stored?.id).toBe('a');
+    expect(await archive.adapters.get('namespace-transfer-ns-default')?.count()).toBe(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { VectorFrankl } from '@/api/vector-frankl.js';
+import { NamespaceIncompatibleError, NamespaceNotFoundError } from '@/core/errors.js';
+import { normalizeSimilarity } from '@/search/rank-fusion.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+
+describe('VectorFrankl.searchAcross()', () => {
+  let db: VectorFrankl;
+
+  beforeEach(async () => {
+    db = new VectorFrankl('search-across', {
+      storageFactory: () => new MemoryStorageAdapter(),
+    });
+    await db.init();
+
+    const docsEn = await db.createNamespace('docs-en', { dimension: 3 });
+    await docsEn.addBatch([
+      { id: 'en-1', vector: [1, 0, 0], metadata: { lang: 'en' } },
+      { id: 'en-2', vector: [0, 1, 0], metadata: { lang: 'en' } },
+    ]);
+    const docsDe = await db.createNamespace('docs-de', {
+      dimension: 3,
+      distanceMetric: 'euclidean',
+    });
+    await docsDe.addBatch([
+      { id: 'de-1', vector: [0.9, 0.1, 0], metadata: { lang: 'de' } },
+      { id: 'de-2', vector: [0, 0, 1], metadata: { lang: 'de' } },
+    ]);
+    await db.createNamespace('docs-wide', { dimension: 5 });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('merges matching namespaces into one ranking tagged by namespace', async () => {
+    const { results, searched, failures } = await db.searchAcross(
+      '^docs-',
+      [1, 0, 0],
+      3,
+      { includeMetadata: true },
+    );
+
+    expect(searched.sort()).toEqual(['docs-de', 'docs-en']);
+    expect(results).toHaveLength(3);
+    expect(results[0]).toMatchObject({ id: 'en-1', namespace: 'docs-en', score: 1 });
+    expect(results.map(({ namespace }) => namespace)).toContain('docs-de');
+    expect(results.every(({ score }) => score >= 0 && score <= 1)).toBe(true);
+    expect(results[1]?.metadata).toBeDefined();
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i - 1]!.score).toBeGreaterThanOrEqual(results[i]!.score);
+    }
+
+    expect(failures).toHaveLength(1);
+    expect(failures[0]?.namespace).toBe('docs-wide');
+    expect(failures[0]?.error).toBeInstanceOf(NamespaceIncompatibleError);
+  });
+
+  it('reports missing names and metric mismatches without failing the query', async () => {
+    const { results, searched, failures } = await db.searchAcross(
+      ['docs-en', 'docs-de', 'docs-fr'],
+      [1, 0, 0],
+      10,
+      { distanceMetric: 'cosine' },
+    );
+
+    expect(searched).toEqual(['docs-en']);
+    expect(results.every(({ namespace }) => namespace === 'docs-en')).toBe(true);
+    expect(failures.map(({ namespace }) => namespace).sort()).toEqual([
+      'docs-de',
+      'docs-fr',
+    ]);
+    const missing = failures.find(({ namespace }) => namespace === 'docs-fr');
+    expect(missing?.error).toBeInstanceOf(NamespaceNotFoundError);
+    const mismatched = failures.find(({ namespace }) => namespace === 'docs-de');
+    expect(mismatched?.error.message).toContain("metric 'euclidean'");
+  });
+
+  it('searches the target of an alias once', async () => {
+    await db.createAlias('docs', 'docs-en');
+
+    const { results, searched } = await db.searchAcross(
+      ['docs', 'docs-en'],
+      [1, 0, 0],
+      10,
+    );
+
+    expect(searched).toEqual(['docs-en']);
+    expect(results.map(({ id }) => id)).toEqual(['en-1', 'en-2']);
+  });
+
+  it('reports a namespace whose search throws', async () => {
+    const docsDe = await db.getNamespace('docs-de');
+    docsDe.search = () => Promise.reject(new Error('index offline'));
+
+    const { results, searched, failures } = await db.searchAcross(
+      /^docs-(en|de)$/,
+      [1, 0, 0],
+      5,
+    );
+
+    expect(searched).toEqual(['docs-en']);
+    expect(results).toHaveLength(2);
+    expect(failures).toEqual([
+      { namespace: 'docs-de', error: new Error('index offline') },
+    ]);
+  });
+});
+
+describe('normalizeSimilarity()', () => {
+  it('maps dot products through a logistic curve and clamps the rest', () => {
+    expect(normalizeSimilarity(0, 'dot')).toBe(0.5);
+    expect(normalizeSimilarity(10, 'dot')).toBeGreaterThan(0.99);
+    expect(normalizeSimilarity(1.0000001, 'cosine')).toBe(1);
+    expect(normalizeSimilarity(-0.1, 'hamming')).toBe(0);
+    expect(normalizeSimilarity(0.4, 'euclidean')).toBe(0.4);
+  });
+});
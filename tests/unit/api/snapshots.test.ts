@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { VectorDB } from '@/api/database.js';
+import {
+  DimensionMismatchError,
+  SnapshotExistsError,
+  UnsupportedCapabilityError,
+} from '@/core/errors.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+import { SQLiteStorageAdapter } from '@/storage/adapters/sqlite-adapter.js';
+import { randomVector } from '../../mocks/vector-fixtures.js';
+
+const dimension = 4;
+
+describe('VectorDB snapshots', () => {
+  let db: VectorDB;
+
+  beforeEach(async () => {
+    db = new VectorDB('snapshot-db', dimension, {
+      storage: new MemoryStorageAdapter(),
+      useIndex: true,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await db.init();
+    await db.addBatch(
+      Array.from({ length: 30 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: randomVector(i, dimension),
+        metadata: { revision: 1 },
+      })),
+    );
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('rolls vectors, metadata and the HNSW graph back to the snapshot', async () => {
+    const query = randomVector(11, dimension);
+    const before = await db.search(query, 5);
+    const info = await db.createSnapshot('before-reembed');
+    expect(info).toMatchObject({ label: 'before-reembed', vectorCount: 30 });
+
+    await db.deleteMany(['doc-0', 'doc-1']);
+    await db.updateMetadata('doc-2', { revision: 2 });
+    await db.addVector('doc-new', randomVector(99, dimension));
+
+    const result = await db.restoreSnapshot('before-reembed');
+    expect(result).toEqual({ restored: 30, indexRestored: true });
+    expect(await db.getVector('doc-new')).toBeNull();
+    const restored = await db.getVector('doc-2');
+    expect(restored?.metadata).toEqual({ revision: 1 });
+    const after = await db.search(query, 5);
+    expect(after.map(({ id }) => id)).toEqual(before.map(({ id }) => id));
+  });
+
+  it('reports the restore to watchers as a clear followed by additions', async () => {
+    await db.createSnapshot('checkpoint');
+    await db.deleteMany(Array.from({ length: 29 }, (_, i) => `doc-${i + 1}`));
+    const changes = db.watch();
+
+    await db.restoreSnapshot('checkpoint');
+
+    const types: string[] = [];
+    for await (const { type } of changes) {
+      types.push(type);
+      if (types.length === 31) {
+        break;
+      }
+    }
+    expect(types[0]).toBe('cleared');
+    expect(types.slice(1).every((type) => type === 'added')).toBe(true);
+  });
+
+  it('refuses a snapshot of another dimension without touching the vectors', async () => {
+    const storage = new MemoryStorageAdapter();
+    const wide = new VectorDB('snapshot-wide', dimension + 1, {
+      storage,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await wide.init();
+    await wide.addVector('wide', [1, 0, 0, 0, 0]);
+    await wide.createSnapshot('wide');
+    await wide.close();
+
+    const narrow = new VectorDB('snapshot-narrow', dimension, {
+      storage,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await narrow.init();
+    await storage.clear();
+    await narrow.addVector('narrow', [0, 1, 0, 0]);
+
+    const attempt = narrow.restoreSnapshot('wide');
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(DimensionMismatchError);
+    expect(await narrow.getVector('narrow')).not.toBeNull();
+    await narrow.close();
+  });
+
+  it('rejects adapters without snapshot support', async () => {
+    const storage = Object.assign(new MemoryStorageAdapter(), {
+      createSnapshot: undefined,
+    });
+    const plain = new VectorDB('snapshot-plain', dimension, {
+      storage,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await plain.init();
+
+    const attempt = plain.createSnapshot('anything');
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(UnsupportedCapabilityError);
+    await plain.close();
+  });
+});
+
+describe('VectorDB snapshots on SQLite', () => {
+  it('lists, restores and deletes snapshots of an in-memory database', async () => {
+    const db = new VectorDB('snapshot-sqlite', dimension, {
+      storage: new SQLiteStorageAdapter({ filename: ':memory:' }),
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await db.init();
+    await db.addVector('a', [1, 0, 0, 0], { kept: true });
+    await db.createSnapshot('first');
+    await db.addVector('b', [0, 1, 0, 0]);
+    await db.createSnapshot('second');
+
+    const duplicate = db.createSnapshot('first');
+    const duplicateError = await duplicate.catch((caught: unknown) => caught);
+    expect(duplicateError).toBeInstanceOf(SnapshotExistsError);
+    const listed = await db.listSnapshots();
+    expect(listed.map(({ label, vectorCount }) => [label, vectorCount])).toEqual([
+      ['first', 1],
+      ['second', 2],
+    ]);
+
+    await db.clear();
+    const result = await db.restoreSnapshot('first');
+    expect(result).toEqual({ restored: 1, indexRestored: false });
+    const stored = await db.getVector('a');
+    expect(stored?.metadata).toEqual({ kept: true });
+    expect(stored?.version).toBe(1);
+
+    expect(await db.deleteSnapshot('first')).toBe(true);
+    const remaining = await db.listSnapshots();
+    expect(remaining.map(({ label }) => label)).toEqual(['second']);
+    await db.close();
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import { VectorDB } from '@/api/database.js';
+import type { VectorTransaction } from '@/api/transaction.js';
+import {
+  DimensionMismatchError,
+  UnsupportedCapabilityError,
+  VectorNotFoundError,
+} from '@/core/errors.js';
+import type { VectorData } from '@/core/types.js';
+import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
+import { SQLiteStorageAdapter } from '@/storage/adapters/sqlite-adapter.js';
+
+const dimension = 3;
+
+describe('VectorDB.transaction()', () => {
+  let db: VectorDB;
+
+  beforeEach(async () => {
+    db = new VectorDB('tx-db', dimension, {
+      storage: new SQLiteStorageAdapter({ filename: ':memory:' }),
+      useIndex: true,
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await db.init();
+    await db.addVector('keep', [1, 0, 0], { tag: 'a' });
+    await db.addVector('drop', [0, 1, 0], { tag: 'b' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('commits adds, updates and deletes together and returns the callback result', async () => {
+    const result = await db.transaction((tx) => {
+      tx.addVector('new', [0, 0, 1], { tag: 'c' });
+      tx.updateMetadata('keep', { reviewed: true });
+      tx.deleteVector('drop');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await db.exists('drop')).toBe(false);
+    const kept = await db.getVector('keep');
+    expect(kept?.metadata).toEqual({ tag: 'a', reviewed: true });
+
+    const results = await db.search([0, 0, 1], 1);
+    expect(results[0]?.id).toBe('new');
+  });
+
+  it('applies later writes to an id on top of earlier ones', async () => {
+    await db.transaction((tx) => {
+      tx.addVector('staged', [0, 0, 1], { step: 1 });
+      tx.updateVector('staged', [0, 1, 1]);
+      tx.updateMetadata('staged', { step: 2 });
+    });
+
+    const staged = await db.getVector('staged');
+    expect(Array.from(staged!.vector)).toEqual([0, 1, 1]);
+    expect(staged?.metadata).toEqual({ step: 2 });
+  });
+
+  it('writes nothing when a staged update names a missing vector', async () => {
+    const attempt = db.transaction((tx) => {
+      tx.addVector('new', [0, 0, 1]);
+      tx.deleteVector('keep');
+      tx.updateMetadata('missing', { tag: 'x' });
+    });
+
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(VectorNotFoundError);
+    expect(await db.exists('new')).toBe(false);
+    expect(await db.exists('keep')).toBe(true);
+    const results = await db.search([0, 0, 1], 3);
+    expect(results.map(({ id }) => id)).not.toContain('new');
+  });
+
+  it('rejects updates to a vector deleted earlier in the transaction', async () => {
+    const attempt = db.transaction((tx) => {
+      tx.deleteVector('keep');
+      tx.updateVector('keep', [1, 1, 0]);
+    });
+
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(VectorNotFoundError);
+    expect(await db.exists('keep')).toBe(true);
+  });
+
+  it('writes nothing when the callback throws', async () => {
+    const attempt = db.transaction(async (tx) => {
+      tx.addVector('new', [0, 0, 1]);
+      throw new Error('changed my mind');
+    });
+
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toHaveProperty('message', 'changed my mind');
+    expect(await db.exists('new')).toBe(false);
+  });
+
+  it('validates staged vectors immediately', async () => {
+    const attempt = db.transaction((tx) => {
+      tx.addVector('short', [1, 0]);
+    });
+
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(DimensionMismatchError);
+  });
+
+  it('refuses writes staged after the callback returns', async () => {
+    let escaped: VectorTransaction | undefined;
+    await db.transaction((tx) => {
+      escaped = tx;
+    });
+
+    expect(() => escaped!.deleteVector('keep')).toThrow('already finished');
+  });
+
+  it('throws UnsupportedCapabilityError on adapters without transactions', async () => {
+    const memoryDb = new VectorDB('tx-memory', dimension, {
+      storage: new MemoryStorageAdapter(),
+      useWorkers: false,
+      autoEviction: false,
+    });
+    await memoryDb.init();
+
+    let called = false;
+    const attempt = memoryDb.transaction(() => {
+      called = true;
+    });
+
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(UnsupportedCapabilityError);
+    expect(called).toBe(false);
+    await memoryDb.close();
+  });
+});
+
+describe('SQLiteStorageAdapter.commitTransaction()', () => {
+  it('rolls back every operation when one fails', async () => {
+    const adapter = new SQLiteStorageAdapter({ filename: ':memory:' });
+    await adapter.init();
+    await adapter.put({
+      id: 'existing',
+      vector: new Float32Array([1, 0, 0]),
+      magnitude: 1,
+      timestamp: 0,
+    });
+
+    const broken = { id: 'broken' } as unknown as VectorData;
+    const attempt = adapter.commitTransaction([
+      { type: 'delete', id: 'existing' },
+      {
+        type: 'put',
+        vector: {
+          id: 'added',
+          vector: new Float32Array([0, 1, 0]),
+          magnitude: 1,
+          timestamp: 0,
+        },
+      },
+      { type: 'put', vector: broken },
+    ]);
+
+    const error = await attempt.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(Error);
+    expect(await adapter.exists('existing')).toBe(true);
+    expect(await adapter.exists('added')).toBe(false);
+    await adapter.destroy();
+  });
+});
@@ -15,7 +15,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 
 import { BatchOperationError } from '@/core/errors.js';
-import type { BatchOptions, StorageAdapter, VectorData } from '@/core/types.js';
+import type {
+  BatchOptions,
+  StorageAdapter,
+  StoredDocument,
+  VectorData,
+} from '@/core/types.js';
 import { VectorDB } from '@/api/database.js';
 import { MemoryStorageAdapter } from '@/storage/adapters/memory-adapter.js';
 
@@ -135,6 +140,21 @@ class FaultInjectionAdapter implements StorageAdapter {
   getScanCapabilities(): ReturnType<StorageAdapter['getScanCapabilities']> {
     return this.inner.getScanCapabilities();
   }
+
+  async getDocument<T = unknown>(collection: string, key: string): Promise<T | null> {
+    return this.inner.getDocument<T>(collection, key);
+  }
+  async putDocument(collection: string, key: string, document: unknown): Promise<void> {
+    return this.inner.putDocument(collection, key, document);
+  }
+  async deleteDocument(collection: string, key: string): Promise<boolean> {
+    return this.inner.deleteDocument(collection, key);
+  }
+  async listDocuments<T = unknown>(
+    collection: string,
+  ): Promise<Array<StoredDocument<T>>> {
+    return this.inner.listDocuments<T>(collection);
+  }
 }
 
 // ---------------------------------------------------------------------------
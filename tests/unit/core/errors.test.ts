@@ -8,11 +8,17 @@ import {
   DimensionMismatchError,
   IndexError,
   InvalidFormatError,
+  NamespaceDeletionBlockedError,
   NamespaceExistsError,
+  NamespaceIncompatibleError,
   NamespaceNotFoundError,
   QuotaExceededError,
+  SnapshotExistsError,
+  SnapshotNotFoundError,
   TransactionError,
+  UnsupportedCapabilityError,
   VectorNotFoundError,
+  VersionConflictError,
   isVectorDatabaseError,
   sanitizeContext,
 } from '@/core/errors.js';
@@ -281,6 +287,12 @@ describe('ErrorCode — stable error codes', () => {
     expect(error.code).toBe(ErrorCode.VECTOR_NOT_FOUND);
   });
 
+  test('VersionConflictError carries the VERSION_CONFLICT error code', () => {
+    const error = new VersionConflictError('vec-1', 2, 3);
+    expect(error.code).toBe(ErrorCode.VERSION_CONFLICT);
+    expect(error.message).toContain('is at version 3, expected version 2');
+  });
+
   test('InvalidFormatError carries the INVALID_FORMAT error code', () => {
     const error = new InvalidFormatError('Map', ['Float32Array', 'number[]']);
     expect(error.code).toBe(ErrorCode.INVALID_FORMAT);
@@ -311,6 +323,30 @@ describe('ErrorCode — stable error codes', () => {
     expect(error.code).toBe(ErrorCode.NAMESPACE_NOT_FOUND);
   });
 
+  test('NamespaceIncompatibleError carries the NAMESPACE_INCOMPATIBLE error code', () => {
+    const error = new NamespaceIncompatibleError('images', 'dimension 512, query 384');
+    expect(error.code).toBe(ErrorCode.NAMESPACE_INCOMPATIBLE);
+    expect(error.namespace).toBe('images');
+  });
+
+  test('NamespaceDeletionBlockedError names the aliases that block it', () => {
+    const error = new NamespaceDeletionBlockedError('products-v6', ['products']);
+    expect(error.code).toBe(ErrorCode.NAMESPACE_DELETION_BLOCKED);
+    expect(error.aliases).toEqual(['products']);
+    expect(error.message).toContain("'products'");
+    expect(new NamespaceDeletionBlockedError('products-v6').aliases).toEqual([]);
+  });
+
+  test('SnapshotExistsError carries the SNAPSHOT_EXISTS error code', () => {
+    const error = new SnapshotExistsError('before-reembed');
+    expect(error.code).toBe(ErrorCode.SNAPSHOT_EXISTS);
+  });
+
+  test('SnapshotNotFoundError carries the SNAPSHOT_NOT_FOUND error code', () => {
+    const error = new SnapshotNotFoundError('missing');
+    expect(error.code).toBe(ErrorCode.SNAPSHOT_NOT_FOUND);
+  });
+
   test('BatchOperationError carries the BATCH_OPERATION_FAILED error code', () => {
     const error = new BatchOperationError(5, 2, []);
     expect(error.code).toBe(ErrorCode.BATCH_OPERATION_FAILED);
@@ -325,6 +361,17 @@ describe('ErrorCode — stable error codes', () => {
     const error = new BrowserSupportError('IndexedDB');
     expect(error.code).toBe(ErrorCode.BROWSER_NOT_SUPPORTED);
   });
+
+  test('UnsupportedCapabilityError carries the UNSUPPORTED_CAPABILITY error code', () => {
+    const error = new UnsupportedCapabilityError(
+      'transactions',
+      'MemoryStorageAdapter',
+      'VectorDB.transaction()',
+    );
+    expect(error.code).toBe(ErrorCode.UNSUPPORTED_CAPABILITY);
+    expect(error.capability).toBe('transactions');
+    expect(error.adapter).toBe('MemoryStorageAdapter');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -756,6 +756,29 @@ describe('InputValidator', () => {
     });
   });
 
+  describe('validateSnapshotLabel', () => {
+    test('accepts labels starting with a letter or number', () => {
+      expect(InputValidator.validateSnapshotLabel('before-reembed')).toBe(
+        'before-reembed',
+      );
+      expect(InputValidator.validateSnapshotLabel('2024_01_02')).toBe('2024_01_02');
+    });
+
+    test('rejects labels that are not safe file names', () => {
+      expect(() => InputValidator.validateSnapshotLabel('')).toThrow(
+        'Snapshot label cannot be empty',
+      );
+      expect(() => InputValidator.validateSnapshotLabel('s'.repeat(65))).toThrow(
+        'Snapshot label cannot exceed 64 characters',
+      );
+      for (const label of ['../escape', '.hidden', 'a/b', 'v1.2']) {
+        expect(() => InputValidator.validateSnapshotLabel(label)).toThrow(
+          'Snapshot label must start with a letter or number',
+        );
+      }
+    });
+  });
+
   describe('sanitizeString', () => {
     test('returns the original string when it contains no control characters', () => {
       expect(InputValidator.sanitizeString('hello world')).toBe('hello world');
@@ -1094,4 +1117,111 @@ describe('InputValidator', () => {
       });
     });
   });
+
+  describe('validateMetadataIndexes', () => {
+    test('returns an empty array when indexes are undefined', () => {
+      expect(InputValidator.validateMetadataIndexes(undefined)).toEqual([]);
+    });
+
+    test('accepts definitions with and without a kind', () => {
+      expect(
+        InputValidator.validateMetadataIndexes([
+          { field: 'category' },
+          { field: 'price', kind: 'range' },
+          { field: 'tags', kind: 'multiEntry' },
+        ]),
+      ).toEqual([
+        { field: 'category' },
+        { field: 'price', kind: 'range' },
+        { field: 'tags', kind: 'multiEntry' },
+      ]);
+    });
+
+    test('throws when indexes are not an array of objects', () => {
+      expect(() => InputValidator.validateMetadataIndexes('category')).toThrow(
+        'Metadata indexes must be an array',
+      );
+      expect(() => InputValidator.validateMetadataIndexes(['category'])).toThrow(
+        'Metadata index definition must be an object',
+      );
+    });
+
+    test('throws on fields that are not identifiers', () => {
+      expect(() => InputValidator.validateMetadataIndexes([{ field: 'a.b' }])).toThrow(
+        'Metadata index field must be an identifier',
+      );
+      expect(() => InputValidator.validateMetadataIndexes([{ field: '' }])).toThrow(
+        'Metadata index field must be an identifier',
+      );
+    });
+
+    test('throws on unknown kinds and duplicate fields', () => {
+      expect(() =>
+        InputValidator.validateMetadataIndexes([{ field: 'a', kind: 'fulltext' }]),
+      ).toThrow('Metadata index kind must be one of');
+      expect(() =>
+        InputValidator.validateMetadataIndexes([{ field: 'a' }, { field: 'a' }]),
+      ).toThrow('Duplicate metadata index field: a');
+    });
+  });
+
+  describe('validateVectorColumns', () => {
+    const columns = {
+      ids: ['a', 'b'],
+      vectors: new Float32Array([1, 0, 0, 1]),
+      metadata: { tag: ['x', null] },
+    };
+
+    test('returns valid columns unchanged', () => {
+      expect(InputValidator.validateVectorColumns(columns, 2)).toEqual(columns);
+      expect(
+        InputValidator.validateVectorColumns(
+          { ids: [], vectors: new Float32Array(0) },
+          2,
+        ),
+      ).toEqual({ ids: [], vectors: new Float32Array(0) });
+    });
+
+    test('throws on invalid or duplicate ids', () => {
+      expect(() =>
+        InputValidator.validateVectorColumns({ ...columns, ids: ['a', ''] }, 2),
+      ).toThrow('Vector ID cannot be empty');
+      expect(() =>
+        InputValidator.validateVectorColumns({ ...columns, ids: ['a', 'a'] }, 2),
+      ).toThrow('Duplicate vector ID found: a');
+    });
+
+    test('throws when the vector buffer does not match the rows', () => {
+      expect(() =>
+        InputValidator.validateVectorColumns({ ...columns, vectors: [1, 0, 0, 1] }, 2),
+      ).toThrow('Vector column must be a Float32Array');
+      expect(() => InputValidator.validateVectorColumns(columns, 3)).toThrow(
+        'Vector column must hold 2 × 3 values, got 4',
+      );
+      expect(() =>
+        InputValidator.validateVectorColumns(
+          { ...columns, vectors: new Float32Array([1, 0, Infinity, 1]) },
+          2,
+        ),
+      ).toThrow('Vector column contains a non-finite value in row 1');
+    });
+
+    test('throws on metadata columns of the wrong length or with invalid values', () => {
+      expect(() =>
+        InputValidator.validateVectorColumns({ ...columns, metadata: { tag: ['x'] } }, 2),
+      ).toThrow("Metadata column 'tag' must be an array with one value per row");
+      expect(() =>
+        InputValidator.validateVectorColumns(
+          { ...columns, metadata: { __proto: ['x', 'y'] } },
+          2,
+        ),
+      ).toThrow('Invalid metadata key: __proto');
+      expect(() =>
+        InputValidator.validateVectorColumns(
+          { ...columns, metadata: { score: [1, Number.NaN] } },
+          2,
+        ),
+      ).toThrow('Number values must be finite');
+    });
+  });
 });
@@ -302,4 +302,164 @@ describe('VectorStorage', () => {
       ]);
     });
   });
+
+  describe('metadata index scans', () => {
+    const indexedDbName = 'test-vector-storage-indexed-db';
+    let indexedDatabase: VectorDatabase;
+    let indexedStorage: VectorStorage;
+
+    const seed = async (target: VectorStorage) => {
+      const vectors = await Promise.all(
+        [
+          { id: 'a', category: 'books', price: 5, tags: ['new', 'sale'] },
+          { id: 'b', category: 'music', price: 15, tags: ['sale'] },
+          { id: 'c', category: 'books', price: 25, tags: ['used'] },
+          { id: 'd', category: 'games', price: 35 },
+        ].map(({ id, ...metadata }) =>
+          VectorOperations.prepareForStorage(
+            id,
+            new Float32Array([1, 0, 0, 0]),
+            metadata,
+          ),
+        ),
+      );
+      await target.putBatch(vectors);
+    };
+
+    const ids = (vectors: { id: string }[]) => vectors.map((vector) => vector.id).sort();
+
+    beforeEach(async () => {
+      indexedDatabase = new VectorDatabase({
+        name: indexedDbName,
+        metadataIndexes: [
+          { field: 'category' },
+          { field: 'price', kind: 'range' },
+          { field: 'tags', kind: 'multiEntry' },
+        ],
+      });
+      await indexedDatabase.init();
+      indexedStorage = new VectorStorage(indexedDatabase);
+      await seed(indexedStorage);
+    });
+
+    afterEach(async () => {
+      await indexedDatabase.close();
+      indexedDB.deleteDatabase(indexedDbName);
+    });
+
+    test('reports metadata indexing only when indexes are declared', () => {
+      expect(indexedStorage.capabilities.metadataIndexing).toBe(true);
+      expect(storage.capabilities.metadataIndexing).toBe(false);
+    });
+
+    test('reads equality, range and multiEntry lookups through the index', async () => {
+      const byCategory = await indexedStorage.filteredScan(
+        (metadata) => metadata['category'] === 'books',
+        { category: 'books' },
+      );
+      expect(ids(byCategory)).toEqual(['a', 'c']);
+
+      const byPrice = await indexedStorage.filteredScan(
+        (metadata) =>
+          (metadata['price'] as number) > 5 && (metadata['price'] as number) <= 25,
+        { price: { $gt: 5, $lte: 25 } },
+      );
+      expect(ids(byPrice)).toEqual(['b', 'c']);
+
+      const byTag = await indexedStorage.filteredScan(
+        (metadata) =>
+          Array.isArray(metadata['tags']) && metadata['tags'].includes('sale'),
+        { tags: { $all: ['sale'] } },
+      );
+      expect(ids(byTag)).toEqual(['a', 'b']);
+    });
+
+    test('re-applies the predicate to index candidates', async () => {
+      const results = await indexedStorage.filteredScan(
+        (metadata) => metadata['category'] === 'books' && metadata['price'] === 25,
+        { category: 'books', price: 25 },
+      );
+      expect(ids(results)).toEqual(['c']);
+    });
+
+    test('falls back to a streaming scan when the filter cannot use an index', async () => {
+      const results = await indexedStorage.filteredScan(
+        (metadata) => metadata['category'] === 'games' || metadata['price'] === 5,
+        { $or: [{ category: 'games' }, { price: 5 }] },
+      );
+      expect(ids(results)).toEqual(['a', 'd']);
+    });
+
+    test('creates indexes declared in a later schema version', async () => {
+      await indexedDatabase.close();
+      indexedDB.deleteDatabase(indexedDbName);
+
+      const unindexed = new VectorDatabase({ name: indexedDbName });
+      await unindexed.init();
+      await seed(new VectorStorage(unindexed));
+      await unindexed.close();
+
+      indexedDatabase = new VectorDatabase({
+        name: indexedDbName,
+        version: 2,
+        metadataIndexes: [{ field: 'category' }],
+      });
+      await indexedDatabase.init();
+      indexedStorage = new VectorStorage(indexedDatabase);
+
+      const indexNames = await indexedDatabase.executeTransaction(
+        VectorDatabase.STORES.VECTORS,
+        'readonly',
+        async (transaction) =>
+          Array.from(
+            transaction.objectStore(VectorDatabase.STORES.VECTORS)
+              .indexNames as unknown as Iterable<string>,
+          ),
+      );
+      expect(indexNames).toContain('metadata.category');
+
+      const results = await indexedStorage.filteredScan(
+        (metadata) => metadata['category'] === 'music',
+        { category: 'music' },
+      );
+      expect(ids(results)).toEqual(['b']);
+    });
+
+    test('recreates an index whose kind changed in a later schema version', async () => {
+      await indexedDatabase.close();
+      indexedDB.deleteDatabase(indexedDbName);
+
+      const equality = new VectorDatabase({
+        name: indexedDbName,
+        metadataIndexes: [{ field: 'tags' }],
+      });
+      await equality.init();
+      await seed(new VectorStorage(equality));
+      await equality.close();
+
+      indexedDatabase = new VectorDatabase({
+        name: indexedDbName,
+        version: 2,
+        metadataIndexes: [{ field: 'tags', kind: 'multiEntry' }],
+      });
+      await indexedDatabase.init();
+      indexedStorage = new VectorStorage(indexedDatabase);
+
+      const multiEntry = await indexedDatabase.executeTransaction(
+        VectorDatabase.STORES.VECTORS,
+        'readonly',
+        async (transaction) =>
+          transaction.objectStore(VectorDatabase.STORES.VECTORS).index('metadata.tags')
+            .multiEntry,
+      );
+      expect(multiEntry).toBe(true);
+
+      const byTag = await indexedStorage.filteredScan(
+        (metadata) =>
+          Array.isArray(metadata['tags']) && metadata['tags'].includes('sale'),
+        { tags: { $all: ['sale'] } },
+      );
+      expect(ids(byTag)).toEqual(['a', 'b']);
+    });
+  });
 });